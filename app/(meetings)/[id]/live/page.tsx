@@ -190,6 +190,7 @@ export default function LivePage({ params }: LivePageProps) {
             <JoinBotDialog
               meetingId={params.id}
               isVirtual={meeting.isVirtual}
+              defaultMeetingUrl={meeting.meetingUrl}
               onBotStatusChange={setBotStatus}
             />
             
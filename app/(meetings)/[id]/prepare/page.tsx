@@ -23,8 +23,12 @@ import { MeetingForm } from "@/components/forms/meeting-form";
 import { AgendaForm } from "@/components/forms/agenda-form";
 import { AttendeeForm } from "@/components/forms/attendee-form";
 import { useMeeting, useAttendees, useAgendaItems } from "@/lib/hooks/use-meetings";
-import { startMeeting, deleteMeeting, addAttendeeToMeeting, deleteAgendaItem } from "@/lib/api/meetings";
+import { startMeeting, deleteMeeting, addAttendeeToMeeting, deleteAgendaItem, analyzeAgenda } from "@/lib/api/meetings";
 import { getMeetingById, mockPrepQuestions } from "@/lib/mock-data";
+import type { PrepQuestion } from "@/lib/types";
+
+// Stable empty list so PrepQuestions doesn't reset on every render
+const NO_QUESTIONS: PrepQuestion[] = [];
 
 interface PreparePageProps {
   params: { id: string };
@@ -61,6 +65,7 @@ export default function PreparePage({ params }: PreparePageProps) {
   const [selectedAgendaItem, setSelectedAgendaItem] = useState<any>(null);
   const [isStarting, setIsStarting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   // Use API agenda items if available, otherwise use meeting's agenda
   const agendaItems = apiAgenda.length > 0 || !isError ? apiAgenda : meeting?.agenda || [];
@@ -105,6 +110,19 @@ export default function PreparePage({ params }: PreparePageProps) {
     }
   };
 
+  const handleAnalyzeAgenda = async () => {
+    setIsAnalyzing(true);
+    try {
+      await analyzeAgenda(params.id);
+      mutateMeeting();
+      mutateAgenda();
+    } catch (error) {
+      console.error('Failed to analyze agenda:', error);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
   const handleAddAttendee = async (attendee: any) => {
     try {
       await addAttendeeToMeeting(params.id, attendee.id);
@@ -261,7 +279,11 @@ export default function PreparePage({ params }: PreparePageProps) {
 
           {/* Sidebar */}
           <div className="space-y-6">
-            <PrepQuestions questions={meeting.prepQuestions || mockPrepQuestions} />
+            <PrepQuestions
+              questions={(apiMeeting ? apiMeeting.prepQuestions : mockPrepQuestions) ?? NO_QUESTIONS}
+              onGenerate={apiMeeting ? handleAnalyzeAgenda : undefined}
+              isGenerating={isAnalyzing}
+            />
             <div className="flex items-center justify-between">
               <h3 className="text-sm font-semibold text-gray-900">Attendees</h3>
               <Button
@@ -25,7 +25,7 @@ import { ReportGenerator } from "@/components/post/report-generator";
 import { ActionForm } from "@/components/forms/action-form";
 import { DecisionForm } from "@/components/forms/decision-form";
 import { useMeeting, useActionItems, useDecisions, useMeetingSummary } from "@/lib/hooks/use-meetings";
-import { generateMeetingSummary, deleteActionItem, updateActionItem, getMeetingRecording, refreshMeetingRecording } from "@/lib/api/meetings";
+import { generateMeetingSummary, waitForJob, deleteActionItem, updateActionItem, getMeetingRecording, refreshMeetingRecording } from "@/lib/api/meetings";
 
 interface SummaryPageProps {
   params: { id: string };
@@ -122,7 +122,8 @@ export default function SummaryPage({ params }: SummaryPageProps) {
   const handleGenerateSummary = async () => {
     setIsGeneratingSummary(true);
     try {
-      await generateMeetingSummary(params.id);
+      const job = await generateMeetingSummary(params.id);
+      await waitForJob(job.id);
       mutateSummary();
     } catch (error) {
       console.error('Failed to generate summary:', error);
@@ -1,17 +1,27 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
 import { AppHeader } from "@/components/layout/app-header";
 import { MeetingSidebar } from "@/components/layout/meeting-sidebar";
 import { mockMeetings } from "@/lib/mock-data";
+import { getAuthToken } from "@/lib/api/client";
 
 export default function MeetingsLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const router = useRouter();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
+  // All meeting pages need a session; expired tokens are handled by the API client
+  useEffect(() => {
+    if (!getAuthToken()) {
+      router.replace("/login");
+    }
+  }, [router]);
+
   return (
     <div className="flex h-screen flex-col">
       <AppHeader onMenuClick={() => setSidebarOpen(!sidebarOpen)} />
@@ -1,7 +1,18 @@
+import { randomBytes, scryptSync } from 'crypto';
 import { PrismaClient, MeetingType, MeetingPhase, AgendaItemStatus, Priority, QuestionCategory, DocumentType, ActionItemStatus, UserRole, OrgMemberRole } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
+// Password for seeded users (override in shared environments)
+const SEED_PASSWORD = process.env.SEED_USER_PASSWORD || 'board-observer';
+
+// Same `salt:key` scrypt format as src/services/auth/session.ts
+function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const key = scryptSync(password, salt, 64);
+  return `${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
 // ============================================
 // ORGANIZATION-SPECIFIC SEED DATA
 // ============================================
@@ -522,6 +533,7 @@ async function main() {
   await prisma.attendee.deleteMany();
   await prisma.organizationMember.deleteMany();
   await prisma.organization.deleteMany();
+  await prisma.session.deleteMany();
   await prisma.user.deleteMany();
 
   // Create admin user
@@ -530,10 +542,22 @@ async function main() {
       email: 'admin@boardobserver.ai',
       name: 'Admin User',
       role: UserRole.ADMIN,
+      passwordHash: hashPassword(SEED_PASSWORD),
     },
   });
   console.log('👤 Created admin user: admin@boardobserver.ai');
 
+  // Create a read-only user to exercise role checks
+  const viewerUser = await prisma.user.create({
+    data: {
+      email: 'viewer@boardobserver.ai',
+      name: 'Board Secretary (Read-only)',
+      role: UserRole.MEMBER,
+      passwordHash: hashPassword(SEED_PASSWORD),
+    },
+  });
+  console.log('👤 Created viewer user: viewer@boardobserver.ai');
+
   // Seed all organizations
   const orgs = await Promise.all([
     seedOrganization(emiratesPostData),
@@ -554,7 +578,17 @@ async function main() {
     });
   }
 
+  await prisma.organizationMember.create({
+    data: {
+      userId: viewerUser.id,
+      organizationId: orgs[0].id,
+      role: OrgMemberRole.VIEWER,
+    },
+  });
+
   console.log(`\n✅ Admin user added to all ${orgs.length} organizations`);
+  console.log(`✅ Viewer user added to ${orgs[0].name}`);
+  console.log(`🔑 Seed password for both users: ${SEED_PASSWORD}`);
 
   console.log('\n🎉 Multi-tenant database seeded successfully!');
   console.log('\n📋 Organizations created:');
@@ -0,0 +1,83 @@
+/**
+ * Tests for Public Fetch
+ *
+ * Covers telling public addresses from the server's own network, refusing
+ * host names at connection time when they resolve inside it, and giving up
+ * on bodies past their size limit.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Response } from 'undici';
+import { fetchPublic, isPublicAddress, readBody } from '../../lib/public-fetch';
+
+describe('Public Fetch', () => {
+  describe('isPublicAddress', () => {
+    it('should refuse private, loopback, link-local and reserved addresses', () => {
+      for (const address of [
+        '10.1.2.3', '127.0.0.1', '169.254.169.254', '172.20.0.1', '192.168.1.1', '100.64.0.1', '0.0.0.0',
+        '::', '::1', 'fd00::1', 'fe80::1%eth0', 'fec0::1', 'ff02::1',
+        '::ffff:10.0.0.1', '::ffff:7f00:1', '::7f00:1', '64:ff9b::a9fe:a9fe', '64:ff9b:1::1', '2002:c0a8:101::1',
+      ]) {
+        expect(isPublicAddress(address), address).toBe(false);
+      }
+    });
+
+    it('should accept public addresses, also when carried in IPv6', () => {
+      for (const address of ['93.184.216.34', '172.32.0.1', '2606:2800:220:1::1', '::ffff:5db8:d822', '64:ff9b::5db8:d822']) {
+        expect(isPublicAddress(address), address).toBe(true);
+      }
+    });
+  });
+
+  describe('fetchPublic', () => {
+    let server: http.Server;
+    let port: number;
+
+    beforeAll(async () => {
+      server = http.createServer((_req, res) => res.end('internal'));
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should refuse addresses inside the network', async () => {
+      await expect(fetchPublic(`http://127.0.0.1:${port}/`)).rejects.toThrow('127.0.0.1 is not a public address');
+    });
+
+    it('should refuse host names when the address it connects to is inside the network', async () => {
+      await expect(fetchPublic(`http://localhost:${port}/`)).rejects.toMatchObject({
+        cause: { name: 'PublicFetchError', message: 'localhost does not resolve to a public address' },
+      });
+    });
+  });
+
+  describe('readBody', () => {
+    it('should read bodies within the limit', async () => {
+      expect((await readBody(new Response('logo'), 10)).toString()).toBe('logo');
+    });
+
+    it('should refuse bodies declared larger than the limit without reading them', async () => {
+      const response = new Response('x'.repeat(20), { headers: { 'content-length': '20' } });
+
+      await expect(readBody(response, 10)).rejects.toThrow('Response larger than 10 bytes');
+    });
+
+    it('should stop reading once the limit is passed', async () => {
+      let pulled = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          pulled++;
+          controller.enqueue(new Uint8Array(8));
+        },
+      });
+
+      await expect(readBody(new Response(body), 20)).rejects.toThrow('Response larger than 20 bytes');
+      expect(pulled).toBeLessThan(5);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Tests for the tenant-scoped Prisma client
+ *
+ * The extension is exercised against a small in-memory dataset: the `query`
+ * callback filters rows with the `where` clause the extension produced, so
+ * the assertions show what each organization can actually read.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type Row = { id: string } & Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+// The part of the extension definition the tests drive
+interface TenantExtension {
+  query: {
+    $allModels: {
+      $allOperations(params: { model: string; operation: string; args: object; query: (args: object) => unknown }): Promise<unknown>;
+    };
+  };
+}
+
+const { mockPrisma, extension } = vi.hoisted(() => {
+  const extension = { current: null as unknown as TenantExtension };
+  return {
+    extension,
+    mockPrisma: {
+      $extends: vi.fn((definition: TenantExtension) => {
+        extension.current = definition;
+        return {};
+      }),
+      meeting: { count: vi.fn(), findUnique: vi.fn() },
+      attendee: { count: vi.fn(), findUnique: vi.fn() },
+      agendaItem: { count: vi.fn() },
+      meetingSummary: { count: vi.fn() },
+    },
+  };
+});
+
+vi.mock('../../lib/prisma', () => ({
+  default: mockPrisma,
+}));
+
+import { createTenantClient, scopeWhere, TenantAccessError } from '../../lib/tenant';
+
+// ============================================
+// IN-MEMORY DATA
+// ============================================
+
+const meetings = {
+  'meeting-a': { id: 'meeting-a', organizationId: 'org-a' },
+  'meeting-b': { id: 'meeting-b', organizationId: 'org-b' },
+};
+
+const transcriptEntries = [
+  { id: 'entry-a', meetingId: 'meeting-a', content: 'Org A discussion', meeting: meetings['meeting-a'] },
+  { id: 'entry-b', meetingId: 'meeting-b', content: 'Org B discussion', meeting: meetings['meeting-b'] },
+];
+
+const agentInsights = [
+  { id: 'insight-a', meetingId: 'meeting-a', content: 'Org A insight', meeting: meetings['meeting-a'] },
+  { id: 'insight-b', meetingId: 'meeting-b', content: 'Org B insight', meeting: meetings['meeting-b'] },
+];
+
+/**
+ * Minimal where-clause evaluator: equality, `in`, `AND` and nested relations
+ */
+function matches(row: Record<string, unknown>, where: Where | undefined): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') {
+      return (condition as Where[]).every((c) => matches(row, c));
+    }
+    if (condition && typeof condition === 'object' && 'in' in condition) {
+      return (condition.in as unknown[]).includes(row[key]);
+    }
+    if (condition && typeof condition === 'object') {
+      return matches(row[key] as Record<string, unknown>, condition as Where);
+    }
+    return row[key] === condition;
+  });
+}
+
+function runQuery(organizationIds: string[] | null, model: string, operation: string, args: object, rows: Row[]) {
+  createTenantClient(organizationIds);
+  const { $allOperations } = extension.current.query.$allModels;
+  const query = vi.fn(async (finalArgs: { where?: Where }) => {
+    const found = rows.filter((row) => matches(row, finalArgs.where));
+    return operation === 'findUnique' ? found[0] ?? null : found;
+  });
+  return $allOperations({ model, operation, args, query }) as Promise<Row[] | Row | null>;
+}
+
+describe('Tenant-scoped client', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('TranscriptEntry', () => {
+    it('should only list entries from the caller\'s organization', async () => {
+      const entries = await runQuery(['org-a'], 'TranscriptEntry', 'findMany', {}, transcriptEntries);
+
+      expect((entries as Row[]).map((e) => e.id)).toEqual(['entry-a']);
+    });
+
+    it('should not return another organization\'s entry by id', async () => {
+      const entry = await runQuery(['org-a'], 'TranscriptEntry', 'findUnique', {
+        where: { id: 'entry-b' },
+      }, transcriptEntries);
+
+      expect(entry).toBeNull();
+    });
+
+    it('should return nothing when filtering by another organization\'s meeting', async () => {
+      const entries = await runQuery(['org-a'], 'TranscriptEntry', 'findMany', {
+        where: { meetingId: 'meeting-b' },
+      }, transcriptEntries);
+
+      expect(entries).toEqual([]);
+    });
+  });
+
+  describe('AgentInsight', () => {
+    it('should only list insights from the caller\'s organization', async () => {
+      const insights = await runQuery(['org-b'], 'AgentInsight', 'findMany', {}, agentInsights);
+
+      expect((insights as Row[]).map((i) => i.id)).toEqual(['insight-b']);
+    });
+
+    it('should not return another organization\'s insight by id', async () => {
+      const insight = await runQuery(['org-b'], 'AgentInsight', 'findUnique', {
+        where: { id: 'insight-a' },
+      }, agentInsights);
+
+      expect(insight).toBeNull();
+    });
+
+    it('should scope updates so cross-tenant ids cannot be modified', async () => {
+      createTenantClient(['org-b']);
+      const query = vi.fn().mockResolvedValue({});
+
+      await extension.current.query.$allModels.$allOperations({
+        model: 'AgentInsight',
+        operation: 'update',
+        args: { where: { id: 'insight-a' }, data: { dismissed: true } },
+        query,
+      });
+
+      const { where } = query.mock.calls[0][0];
+      expect(where.id).toBe('insight-a');
+      expect(where.AND).toEqual([{ meeting: { organizationId: { in: ['org-b'] } } }]);
+    });
+  });
+
+  describe('writes', () => {
+    it('should reject references to another organization\'s rows', async () => {
+      mockPrisma.attendee.count.mockResolvedValue(0);
+      mockPrisma.meeting.count.mockResolvedValue(1);
+      createTenantClient(['org-a']);
+      const query = vi.fn();
+
+      await expect(extension.current.query.$allModels.$allOperations({
+        model: 'ActionItem',
+        operation: 'create',
+        args: { data: { meetingId: 'meeting-a', assigneeId: 'attendee-b', description: 'Follow up' } },
+        query,
+      })).rejects.toBeInstanceOf(TenantAccessError);
+
+      expect(mockPrisma.attendee.count).toHaveBeenCalledWith({
+        where: { id: 'attendee-b', organizationId: { in: ['org-a'] } },
+      });
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('should reject creating rows in another organization', async () => {
+      createTenantClient(['org-a']);
+
+      await expect(extension.current.query.$allModels.$allOperations({
+        model: 'Meeting',
+        operation: 'create',
+        args: { data: { organizationId: 'org-b', title: 'Board' } },
+        query: vi.fn(),
+      })).rejects.toThrow('Organization not found');
+    });
+  });
+
+  describe('nested writes', () => {
+    type UniqueArgs = { where: { id: string; AND?: unknown[] } };
+
+    // Attendees exist in both organizations; unique lookups honour the scope clause
+    const attendees: Record<string, { id: string; organizationId: string }> = {
+      'attendee-a': { id: 'attendee-a', organizationId: 'org-a' },
+      'attendee-b': { id: 'attendee-b', organizationId: 'org-b' },
+    };
+
+    beforeEach(() => {
+      mockPrisma.attendee.findUnique.mockImplementation(async ({ where }: UniqueArgs) => {
+        const row = attendees[where.id];
+        return row && matches(row, { AND: where.AND ?? [] }) ? row : null;
+      });
+      mockPrisma.meeting.findUnique.mockImplementation(async ({ where }: UniqueArgs) => {
+        const row = meetings[where.id as keyof typeof meetings];
+        return row && matches(row, { AND: where.AND ?? [] }) ? row : null;
+      });
+    });
+
+    function write(model: string, operation: string, args: object, query = vi.fn()) {
+      createTenantClient(['org-a']);
+      return extension.current.query.$allModels.$allOperations({ model, operation, args, query });
+    }
+
+    it('should reject connecting another organization\'s row', async () => {
+      const query = vi.fn();
+
+      await expect(write('ActionItem', 'create', {
+        data: {
+          description: 'Follow up',
+          meeting: { connect: { id: 'meeting-a' } },
+          assignee: { connect: { id: 'attendee-b' } },
+        },
+      }, query)).rejects.toThrow('Attendee not found');
+
+      expect(mockPrisma.attendee.findUnique).toHaveBeenCalledWith({
+        where: { id: 'attendee-b', AND: [{ organizationId: { in: ['org-a'] } }] },
+      });
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('should check connects inside nested creates', async () => {
+      await expect(write('Meeting', 'update', {
+        where: { id: 'meeting-a' },
+        data: { attendees: { create: [{ attendee: { connect: { id: 'attendee-b' } } }] } },
+      })).rejects.toBeInstanceOf(TenantAccessError);
+
+      const query = vi.fn().mockResolvedValue({});
+      await write('Meeting', 'update', {
+        where: { id: 'meeting-a' },
+        data: { attendees: { create: [{ attendee: { connect: { id: 'attendee-a' } } }] } },
+      }, query);
+      expect(query).toHaveBeenCalled();
+    });
+
+    it('should only connect-or-create rows that do not belong to another organization', async () => {
+      await expect(write('MeetingAttendee', 'create', {
+        data: {
+          meeting: { connect: { id: 'meeting-a' } },
+          attendee: { connectOrCreate: { where: { id: 'attendee-b' }, create: { name: 'Omar', organizationId: 'org-a' } } },
+        },
+      })).rejects.toThrow('Attendee not found');
+
+      await expect(write('MeetingAttendee', 'create', {
+        data: {
+          meeting: { connect: { id: 'meeting-a' } },
+          attendee: { connectOrCreate: { where: { id: 'attendee-new' }, create: { name: 'Omar', organizationId: 'org-b' } } },
+        },
+      })).rejects.toThrow('Organization not found');
+
+      const query = vi.fn().mockResolvedValue({});
+      await write('MeetingAttendee', 'create', {
+        data: {
+          meeting: { connect: { id: 'meeting-a' } },
+          attendee: { connectOrCreate: { where: { id: 'attendee-new' }, create: { name: 'Omar', organizationId: 'org-a' } } },
+        },
+      }, query);
+      expect(query).toHaveBeenCalled();
+    });
+  });
+
+  describe('unrestricted access', () => {
+    it('should pass queries through for platform admins', async () => {
+      const entries = await runQuery(null, 'TranscriptEntry', 'findMany', {}, transcriptEntries);
+
+      expect(entries).toHaveLength(2);
+    });
+
+    it('should not scope non-tenant models', async () => {
+      createTenantClient(['org-a']);
+      const query = vi.fn().mockResolvedValue(null);
+      const args = { where: { id: 'user-1' } };
+
+      await extension.current.query.$allModels.$allOperations({ model: 'User', operation: 'findUnique', args, query });
+
+      expect(query).toHaveBeenCalledWith(args);
+    });
+  });
+
+  describe('scopeWhere', () => {
+    it('should keep existing AND clauses', () => {
+      const where = scopeWhere({ id: 'x', AND: { status: 'OPEN' } }, { organizationId: 'org-a' });
+
+      expect(where).toEqual({ id: 'x', AND: [{ status: 'OPEN' }, { organizationId: 'org-a' }] });
+    });
+  });
+});
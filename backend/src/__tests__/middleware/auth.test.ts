@@ -0,0 +1,241 @@
+/**
+ * Tests for authentication and org-scoped authorization
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+const { mockMeeting, mockSession, mockUser, mockScrypt } = vi.hoisted(() => ({
+  mockMeeting: {
+    findUnique: vi.fn(),
+  },
+  mockSession: {
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  mockUser: {
+    findUnique: vi.fn(),
+  },
+  mockScrypt: vi.fn(),
+}));
+
+vi.mock('crypto', async (importOriginal) => {
+  const crypto = await importOriginal<typeof import('crypto')>();
+  mockScrypt.mockImplementation(crypto.scrypt);
+  return { ...crypto, scrypt: mockScrypt };
+});
+
+vi.mock('../../lib/prisma', () => ({
+  default: {
+    meeting: mockMeeting,
+    session: mockSession,
+    user: mockUser,
+  },
+}));
+
+import { authenticate, extractBearerToken, requireMeetingRole } from '../../middleware/auth';
+import { AuthContext, hasOrgRole, hashPassword, verifyPassword, hashToken, login } from '../../services/auth';
+
+function createAuth(overrides: Partial<AuthContext> = {}): AuthContext {
+  return {
+    sessionId: 'session-1',
+    user: { id: 'user-1', email: 'user@example.com', name: 'User', avatar: null, role: 'MEMBER' },
+    memberships: [{ organizationId: 'org-a', role: 'VIEWER' }],
+    ...overrides,
+  };
+}
+
+function createRes() {
+  const res = {} as Response & { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  res.status = vi.fn().mockReturnValue(res);
+  res.json = vi.fn().mockReturnValue(res);
+  return res;
+}
+
+describe('Auth', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Passwords', () => {
+    it('should verify a hashed password', async () => {
+      const hash = await hashPassword('correct horse');
+
+      expect(hash).toMatch(/^[0-9a-f]+:[0-9a-f]+$/);
+      expect(await verifyPassword('correct horse', hash)).toBe(true);
+      expect(await verifyPassword('wrong', hash)).toBe(false);
+    });
+
+    it('should reject malformed hashes', async () => {
+      expect(await verifyPassword('anything', 'not-a-hash')).toBe(false);
+    });
+  });
+
+  describe('login', () => {
+    it('should open a session for the right password', async () => {
+      mockUser.findUnique.mockResolvedValue({
+        id: 'user-1',
+        email: 'user@example.com',
+        name: 'User',
+        avatar: null,
+        role: 'MEMBER',
+        passwordHash: await hashPassword('correct horse'),
+      });
+
+      const result = await login('User@Example.com', 'correct horse');
+
+      expect(mockUser.findUnique).toHaveBeenCalledWith({ where: { email: 'user@example.com' } });
+      expect(mockSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-1', tokenHash: hashToken(result!.token) }),
+      });
+      expect(result?.user.id).toBe('user-1');
+    });
+
+    it('should check a password for unknown emails as for wrong passwords', async () => {
+      mockUser.findUnique.mockResolvedValue(null);
+
+      expect(await login('nobody@example.com', 'guess')).toBeNull();
+      expect(mockScrypt).toHaveBeenCalledWith('guess', expect.anything(), expect.any(Number), expect.any(Function));
+      expect(mockSession.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('extractBearerToken', () => {
+    it('should parse bearer tokens', () => {
+      expect(extractBearerToken('Bearer abc123')).toBe('abc123');
+      expect(extractBearerToken('bearer abc123')).toBe('abc123');
+    });
+
+    it('should ignore other schemes and empty headers', () => {
+      expect(extractBearerToken(undefined)).toBeNull();
+      expect(extractBearerToken('Basic abc123')).toBeNull();
+      expect(extractBearerToken('Bearer')).toBeNull();
+    });
+  });
+
+  describe('hasOrgRole', () => {
+    it('should rank organization roles', () => {
+      const auth = createAuth({ memberships: [{ organizationId: 'org-a', role: 'EDITOR' }] });
+
+      expect(hasOrgRole(auth, 'org-a', 'VIEWER')).toBe(true);
+      expect(hasOrgRole(auth, 'org-a', 'EDITOR')).toBe(true);
+      expect(hasOrgRole(auth, 'org-a', 'ADMIN')).toBe(false);
+    });
+
+    it('should deny organizations without membership', () => {
+      expect(hasOrgRole(createAuth(), 'org-b', 'VIEWER')).toBe(false);
+    });
+
+    it('should treat platform admins as owners everywhere', () => {
+      const auth = createAuth({
+        user: { id: 'admin', email: 'admin@example.com', name: 'Admin', avatar: null, role: 'ADMIN' },
+        memberships: [],
+      });
+
+      expect(hasOrgRole(auth, 'org-b', 'OWNER')).toBe(true);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should reject requests without a token', async () => {
+      const res = createRes();
+      const next = vi.fn();
+
+      await authenticate({ headers: {} } as Request, res, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired sessions', async () => {
+      mockSession.findUnique.mockResolvedValue({
+        id: 'session-1',
+        expiresAt: new Date(Date.now() - 1000),
+        lastUsedAt: new Date(),
+        user: { organizations: [] },
+      });
+      mockSession.delete.mockResolvedValue({});
+      const res = createRes();
+      const next = vi.fn();
+
+      await authenticate({ headers: { authorization: 'Bearer expired' } } as Request, res, next);
+
+      expect(mockSession.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { tokenHash: hashToken('expired') },
+      }));
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should attach the caller to the request', async () => {
+      mockSession.findUnique.mockResolvedValue({
+        id: 'session-1',
+        expiresAt: new Date(Date.now() + 60000),
+        lastUsedAt: new Date(),
+        user: {
+          id: 'user-1',
+          email: 'user@example.com',
+          name: 'User',
+          avatar: null,
+          role: 'MEMBER',
+          organizations: [{ organizationId: 'org-a', role: 'EDITOR' }],
+        },
+      });
+      const req = { headers: { authorization: 'Bearer valid' } } as Request;
+      const next = vi.fn();
+
+      await authenticate(req, createRes(), next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(req.auth?.user.id).toBe('user-1');
+      expect(req.auth?.memberships).toEqual([{ organizationId: 'org-a', role: 'EDITOR' }]);
+    });
+  });
+
+  describe('requireMeetingRole', () => {
+    it('should forbid viewers from editor routes', async () => {
+      mockMeeting.findUnique.mockResolvedValue({ organizationId: 'org-a' });
+      const res = createRes();
+      const next = vi.fn();
+
+      await requireMeetingRole('EDITOR')(
+        { auth: createAuth(), params: { id: 'meeting-1' } } as unknown as Request,
+        res,
+        next
+      );
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should allow viewers on read routes', async () => {
+      mockMeeting.findUnique.mockResolvedValue({ organizationId: 'org-a' });
+      const next = vi.fn();
+
+      await requireMeetingRole('VIEWER')(
+        { auth: createAuth(), params: { id: 'meeting-1' } } as unknown as Request,
+        createRes(),
+        next
+      );
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should hide meetings from other organizations', async () => {
+      mockMeeting.findUnique.mockResolvedValue({ organizationId: 'org-b' });
+      const res = createRes();
+      const next = vi.fn();
+
+      await requireMeetingRole('VIEWER')(
+        { auth: createAuth(), params: { id: 'meeting-2' } } as unknown as Request,
+        res,
+        next
+      );
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
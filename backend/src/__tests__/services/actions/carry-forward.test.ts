@@ -0,0 +1,114 @@
+/**
+ * Tests for Matters Arising
+ *
+ * Covers listing open actions of earlier meetings on the next meeting's
+ * agenda, moving the existing agenda down, and refreshing the item.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const agendaItem = {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'arising-1', ...data })),
+    update: vi.fn(),
+  };
+  const actionItem = { findMany: vi.fn(), update: vi.fn() };
+  const actionItemUpdate = { create: vi.fn() };
+  const tx = { agendaItem, actionItem, actionItemUpdate };
+  return {
+    mockPrisma: {
+      ...tx,
+      meeting: { findUniqueOrThrow: vi.fn() },
+      $transaction: vi.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+
+import { buildMattersArising } from '../../../services/actions/carry-forward';
+
+const openActions = [
+  {
+    id: 'action-1',
+    description: 'Publish the budget',
+    dueDate: new Date('2025-03-15T00:00:00Z'),
+    arisingItemId: null,
+    assignee: { name: 'Omar Director' },
+    meeting: { title: 'Q1 Board Meeting' },
+  },
+  {
+    id: 'action-2',
+    description: 'Review the risk register',
+    dueDate: null,
+    arisingItemId: 'arising-1',
+    assignee: null,
+    meeting: { title: 'Q4 Board Meeting' },
+  },
+];
+
+describe('Matters Arising', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.meeting.findUniqueOrThrow.mockResolvedValue({
+      id: 'meeting-2',
+      organizationId: 'org-1',
+      type: 'BOARD',
+      title: 'Q2 Board Meeting',
+      phase: 'UPCOMING',
+      scheduledStart: new Date('2025-06-01T05:00:00Z'),
+    });
+    mockPrisma.actionItem.findMany.mockResolvedValue(openActions);
+  });
+
+  it('should put open actions of earlier meetings first on the agenda', async () => {
+    mockPrisma.agendaItem.findFirst.mockResolvedValue(null);
+    mockPrisma.agendaItem.findMany.mockResolvedValue([{ id: 'item-2', order: 2 }, { id: 'item-1', order: 1 }]);
+
+    const result = await buildMattersArising('meeting-2');
+
+    expect(mockPrisma.actionItem.findMany.mock.calls[0][0].where).toEqual({
+      status: { in: ['PENDING', 'IN_PROGRESS', 'OVERDUE'] },
+      meeting: {
+        id: { not: 'meeting-2' },
+        organizationId: 'org-1',
+        type: 'BOARD',
+        scheduledStart: { lt: new Date('2025-06-01T05:00:00Z') },
+      },
+    });
+    expect(mockPrisma.agendaItem.update.mock.calls.map(([args]) => [args.where.id, args.data.order])).toEqual([
+      ['item-2', 3],
+      ['item-1', 2],
+    ]);
+    const created = mockPrisma.agendaItem.create.mock.calls[0][0].data;
+    expect(created).toMatchObject({ meetingId: 'meeting-2', order: 1, title: 'Matters Arising', mattersArising: true });
+    expect(created.description).toContain('- Publish the budget (Omar Director, due 2025-03-15; from Q1 Board Meeting)');
+    expect(created.description).toContain('- Review the risk register (Unassigned; from Q4 Board Meeting)');
+
+    // action-2 already points at an item with the new id, so only action-1 is carried
+    expect(result).toEqual({ meetingId: 'meeting-2', agendaItemId: 'arising-1', actions: 2, carried: 1 });
+    expect(mockPrisma.actionItemUpdate.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ actionItemId: 'action-1', type: 'CARRIED_FORWARD', note: 'Carried forward to Q2 Board Meeting' }),
+    });
+  });
+
+  it('should refresh an existing matters arising item in place', async () => {
+    mockPrisma.agendaItem.findFirst.mockResolvedValue({ id: 'arising-1' });
+
+    await buildMattersArising('meeting-2');
+
+    expect(mockPrisma.agendaItem.create).not.toHaveBeenCalled();
+    expect(mockPrisma.agendaItem.update).toHaveBeenCalledWith({
+      where: { id: 'arising-1' },
+      data: { description: expect.stringContaining('Publish the budget') },
+    });
+  });
+
+  it('should only add matters arising to upcoming meetings', async () => {
+    mockPrisma.meeting.findUniqueOrThrow.mockResolvedValue({ id: 'meeting-2', phase: 'LIVE' });
+
+    await expect(buildMattersArising('meeting-2')).rejects.toMatchObject({ status: 409 });
+  });
+});
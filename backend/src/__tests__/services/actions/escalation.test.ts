@@ -0,0 +1,122 @@
+/**
+ * Tests for Overdue Escalation
+ *
+ * Covers marking actions past their due date overdue, the history entry,
+ * socket event and email of each escalation, and reopening rescheduled actions.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockBus, mockRecordAuditEvent, mockNotifyActionOverdue } = vi.hoisted(() => {
+  const actionItem = {
+    findMany: vi.fn(),
+    updateMany: vi.fn(),
+  };
+  const actionItemUpdate = { create: vi.fn() };
+  const tx = { actionItem, actionItemUpdate };
+  return {
+    mockPrisma: {
+      actionItem,
+      actionItemUpdate,
+      user: { findFirst: vi.fn() },
+      $transaction: vi.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+    mockBus: { publish: vi.fn(async () => undefined), subscribe: vi.fn() },
+    mockRecordAuditEvent: vi.fn(),
+    mockNotifyActionOverdue: vi.fn(async () => []),
+  };
+});
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('../../../services/cluster/bus', () => ({ getBus: () => mockBus }));
+vi.mock('../../../services/audit/trail', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../services/audit/trail')>()),
+  recordAuditEvent: mockRecordAuditEvent,
+}));
+vi.mock('../../../services/notifications/triggers', () => ({ notifyActionOverdue: mockNotifyActionOverdue }));
+
+import { ACTION_OVERDUE_CHANNEL, markOverdueActions, reopenIfRescheduled } from '../../../services/actions/escalation';
+
+const now = new Date('2025-03-20T09:00:00Z');
+
+function action(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    meetingId: 'meeting-1',
+    description: `Action ${id}`,
+    status: 'PENDING',
+    priority: 'HIGH',
+    dueDate: new Date('2025-03-15T00:00:00Z'),
+    assignee: { id: 'attendee-1', name: 'Omar Director', email: 'omar@example.com' },
+    meeting: { id: 'meeting-1', title: 'Q1 Board Meeting', organizationId: 'org-1' },
+    ...overrides,
+  };
+}
+
+describe('Overdue Escalation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.actionItem.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.user.findFirst.mockResolvedValue({ id: 'user-1' });
+  });
+
+  describe('markOverdueActions', () => {
+    it('should mark open actions past their due date overdue and notify the assignee', async () => {
+      mockPrisma.actionItem.findMany.mockResolvedValue([action('action-1', { status: 'IN_PROGRESS' })]);
+
+      const result = await markOverdueActions(now);
+
+      expect(result).toEqual({ overdue: 1 });
+      expect(mockPrisma.actionItem.findMany.mock.calls[0][0].where).toEqual({
+        status: { in: ['PENDING', 'IN_PROGRESS'] },
+        dueDate: { lt: now },
+      });
+      expect(mockPrisma.actionItemUpdate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          actionItemId: 'action-1',
+          type: 'OVERDUE',
+          changes: { status: { from: 'IN_PROGRESS', to: 'OVERDUE' } },
+        }),
+      });
+      expect(mockRecordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({ action: 'action_item.overdue', entityId: 'action-1' }));
+      expect(mockBus.publish).toHaveBeenCalledWith(ACTION_OVERDUE_CHANNEL, expect.objectContaining({
+        id: 'action-1',
+        dueDate: '2025-03-15T00:00:00.000Z',
+        meeting: { id: 'meeting-1', title: 'Q1 Board Meeting' },
+        userId: 'user-1',
+      }));
+      expect(mockNotifyActionOverdue).toHaveBeenCalledWith('action-1');
+    });
+
+    it('should skip actions completed since they were read and assignees without an account', async () => {
+      mockPrisma.actionItem.findMany.mockResolvedValue([
+        action('action-1'),
+        action('action-2', { assignee: { id: 'attendee-2', name: 'Eve Auditor', email: null } }),
+      ]);
+      mockPrisma.actionItem.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await markOverdueActions(now);
+
+      expect(result).toEqual({ overdue: 1 });
+      expect(mockPrisma.actionItemUpdate.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.user.findFirst).not.toHaveBeenCalled();
+      expect(mockBus.publish).toHaveBeenCalledTimes(1);
+      expect(mockBus.publish).toHaveBeenCalledWith(ACTION_OVERDUE_CHANNEL, expect.objectContaining({ id: 'action-2', userId: null }));
+      // No address to email
+      expect(mockNotifyActionOverdue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reopenIfRescheduled', () => {
+    it('should return overdue actions with a later due date to pending', () => {
+      const later = new Date('2025-04-01T00:00:00Z');
+      const earlier = new Date('2025-03-18T00:00:00Z');
+
+      expect(reopenIfRescheduled({ status: 'OVERDUE' }, { dueDate: later }, now)).toBe('PENDING');
+      expect(reopenIfRescheduled({ status: 'OVERDUE' }, { dueDate: null }, now)).toBe('PENDING');
+      expect(reopenIfRescheduled({ status: 'OVERDUE' }, { dueDate: earlier }, now)).toBeUndefined();
+      expect(reopenIfRescheduled({ status: 'OVERDUE' }, { status: 'COMPLETED', dueDate: later }, now)).toBe('COMPLETED');
+      expect(reopenIfRescheduled({ status: 'PENDING' }, { dueDate: later }, now)).toBeUndefined();
+    });
+  });
+});
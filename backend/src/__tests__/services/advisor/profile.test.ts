@@ -0,0 +1,116 @@
+/**
+ * Tests for Advisor Profiles
+ *
+ * Covers inheriting fields from the organization's profile and the defaults,
+ * wake phrases for a renamed advisor, loading and caching a meeting's profile,
+ * and the persona instructions added to the advisor's prompts.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    meeting: { findUnique: vi.fn() },
+    advisorProfile: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+
+import {
+  buildPersonaInstructions,
+  defaultAdvisorProfile,
+  getAdvisorProfile,
+  invalidateAdvisorProfiles,
+  mergeAdvisorProfiles,
+} from '../../../services/advisor';
+
+describe('Advisor Profiles', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateAdvisorProfiles();
+    mockPrisma.meeting.findUnique.mockResolvedValue({ organizationId: 'org-1', advisorProfile: null });
+    mockPrisma.advisorProfile.findFirst.mockResolvedValue(null);
+  });
+
+  describe('mergeAdvisorProfiles', () => {
+    it('should let the meeting override the organization, and both the defaults', () => {
+      const profile = mergeAdvisorProfiles(
+        { name: 'Secretary', language: 'ar', voice: 'onyx', timing: { standardPause: 5000 }, wakePhrases: [] },
+        { speakPolicy: 'when_asked', timing: { longPause: 6000 }, voice: null },
+      );
+
+      expect(profile).toEqual({
+        ...defaultAdvisorProfile(),
+        name: 'Secretary',
+        language: 'ar',
+        voice: 'onyx',
+        wakePhrases: ['secretary', 'hey secretary', 'ok secretary'],
+        timing: { ...defaultAdvisorProfile().timing, standardPause: 5000, longPause: 6000 },
+        speakPolicy: 'when_asked',
+      });
+    });
+
+    it('should keep wake phrases set by the organization when a meeting renames the advisor', () => {
+      const profile = mergeAdvisorProfiles({ wakePhrases: ['Hey Secretary', 'يا سكرتير'] }, { name: 'Clerk' });
+
+      expect(profile.name).toBe('Clerk');
+      expect(profile.wakePhrases).toEqual(['hey secretary', 'يا سكرتير']);
+    });
+
+    it('should ignore stored values it does not know', () => {
+      const profile = mergeAdvisorProfiles({ speakPolicy: 'shout', ttsProvider: 'watson', timing: { minPause: 'soon' } });
+
+      expect(profile).toEqual(defaultAdvisorProfile());
+    });
+  });
+
+  describe('getAdvisorProfile', () => {
+    it('should combine the organization\'s profile with the meeting\'s overrides', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue({ organizationId: 'org-1', advisorProfile: { speakPolicy: 'silent' } });
+      mockPrisma.advisorProfile.findFirst.mockResolvedValue({ name: 'Secretary', persona: 'Be formal.' });
+
+      const profile = await getAdvisorProfile('meeting-1');
+
+      expect(mockPrisma.advisorProfile.findFirst).toHaveBeenCalledWith({ where: { organizationId: 'org-1', meetingId: null } });
+      expect(profile).toMatchObject({ name: 'Secretary', persona: 'Be formal.', speakPolicy: 'silent' });
+    });
+
+    it('should cache profiles until the organization\'s are invalidated', async () => {
+      await getAdvisorProfile('meeting-1');
+      await getAdvisorProfile('meeting-1');
+      expect(mockPrisma.meeting.findUnique).toHaveBeenCalledTimes(1);
+
+      invalidateAdvisorProfiles('org-2');
+      await getAdvisorProfile('meeting-1');
+      expect(mockPrisma.meeting.findUnique).toHaveBeenCalledTimes(1);
+
+      invalidateAdvisorProfiles('org-1');
+      await getAdvisorProfile('meeting-1');
+      expect(mockPrisma.meeting.findUnique).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to the defaults when the profile cannot be loaded', async () => {
+      mockPrisma.meeting.findUnique.mockRejectedValue(new Error('Connection lost'));
+
+      expect(await getAdvisorProfile('meeting-1')).toEqual(defaultAdvisorProfile());
+    });
+  });
+
+  describe('buildPersonaInstructions', () => {
+    it('should give the name, persona and answer language', () => {
+      const instructions = buildPersonaInstructions(mergeAdvisorProfiles({
+        name: 'Secretary',
+        persona: 'Address the chair as Your Excellency.',
+        language: 'ar',
+      }));
+
+      expect(instructions).toBe([
+        'ADVISOR PROFILE:',
+        'Your name is Secretary.',
+        'Address the chair as Your Excellency.',
+        'Always respond in Arabic, whatever language the meeting is held in.',
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for Transcript Segmentation
+ *
+ * Covers moving agenda item boundaries to where the topic changed, manual
+ * moves, and segmenting transcripts without live tags.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { segmentTranscript, SegmentEntry, SegmentItem } from '../../../services/agenda/segmentation';
+
+const items: SegmentItem[] = [
+  {
+    id: 'risk',
+    order: 1,
+    title: 'Risk register review',
+    description: 'Cyber security incidents and vendor risk',
+    status: 'COMPLETED',
+    aiAnalysis: { summary: 'Ransomware exposure rose this quarter', keyPoints: ['Vendor audits overdue'], documentsHash: 'abc123' },
+  },
+  {
+    id: 'budget',
+    order: 2,
+    title: 'Annual budget approval',
+    description: 'Operating budget and capital expenditure forecast',
+    status: 'COMPLETED',
+    aiAnalysis: null,
+    documents: [{ title: 'FY26 budget pack' }],
+  },
+];
+
+const riskLines = [
+  'The cyber security team logged two ransomware incidents.',
+  'Vendor risk audits are overdue for three suppliers.',
+  'We should escalate the vendor audits.',
+];
+const budgetLines = [
+  'Turning to the budget, operating costs are up four percent.',
+  'Capital expenditure in the forecast covers the new plant.',
+  'The budget forecast assumes flat revenue.',
+  'I move that we approve the annual budget.',
+];
+
+function entries(lines: string[], tags: Array<string | null>, manual: number[] = []): SegmentEntry[] {
+  return lines.map((content, index) => ({
+    id: `entry-${index}`,
+    content,
+    agendaItemId: tags[index],
+    agendaItemManual: manual.includes(index),
+  }));
+}
+
+describe('Transcript Segmentation', () => {
+  it('should move a late live boundary to where the topic changed', () => {
+    // The chair only moved the agenda on after two budget remarks
+    const transcript = entries(
+      [...riskLines, ...budgetLines],
+      ['risk', 'risk', 'risk', 'risk', 'risk', 'budget', 'budget']
+    );
+
+    expect(segmentTranscript(transcript, items)).toEqual(
+      ['risk', 'risk', 'risk', 'budget', 'budget', 'budget', 'budget']
+    );
+  });
+
+  it('should keep entries moved by a user', () => {
+    const transcript = entries(
+      [...riskLines, ...budgetLines],
+      ['risk', 'risk', 'risk', 'risk', 'risk', 'budget', 'budget'],
+      [3]
+    );
+
+    expect(segmentTranscript(transcript, items)[3]).toBe('risk');
+  });
+
+  it('should leave small talk before the first live tag alone', () => {
+    const transcript = entries(
+      ['Good morning everyone.', 'Can you hear me?', ...riskLines, ...budgetLines],
+      [null, null, 'risk', 'risk', 'risk', 'budget', 'budget', 'budget', 'budget']
+    );
+
+    const result = segmentTranscript(transcript, items);
+    expect(result.slice(0, 2)).toEqual([null, null]);
+    expect(result.slice(2)).toEqual(['risk', 'risk', 'risk', 'budget', 'budget', 'budget', 'budget']);
+  });
+
+  it('should segment an untagged transcript in agenda order', () => {
+    const transcript = entries([...riskLines, ...budgetLines], riskLines.concat(budgetLines).map(() => null));
+
+    expect(segmentTranscript(transcript, items)).toEqual(
+      ['risk', 'risk', 'risk', 'budget', 'budget', 'budget', 'budget']
+    );
+  });
+
+  it('should leave an untagged transcript unrelated to the agenda untagged', () => {
+    const transcript = entries(['Lovely weather today.', 'Indeed, very sunny.'], [null, null]);
+
+    expect(segmentTranscript(transcript, items)).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for the Agenda Timekeeper
+ *
+ * Covers status transitions with start/end times, timer ticks, overrun
+ * warnings and spoken time-checks.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockPrisma, mockQueueSpeak } = vi.hoisted(() => {
+  const client = {
+    agendaItem: {
+      findFirstOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => ({ id: where.id, ...data })),
+    },
+    meeting: {
+      findUnique: vi.fn(),
+    },
+  };
+  const mockPrisma = { ...client, $transaction: vi.fn(async (fn: (tx: typeof client) => unknown) => fn(client)) };
+  return { mockPrisma, mockQueueSpeak: vi.fn() };
+});
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('../../../services/recall/audio-output', () => ({ queueSpeak: mockQueueSpeak }));
+vi.mock('../../../services/cluster/meetings', () => ({ runOnMeetingOwner: vi.fn() }));
+
+import {
+  AgendaEvent,
+  agendaTimer,
+  onAgendaEvent,
+  setAgendaItemStatus,
+  stopTimekeeper,
+  syncTimekeeper,
+} from '../../../services/agenda/timekeeper';
+
+const start = new Date('2025-03-01T09:00:00Z');
+
+function liveMeeting(overrides: Record<string, unknown> = {}) {
+  return {
+    phase: 'LIVE',
+    spokenTimeChecks: false,
+    agendaItems: [{ id: 'item-1', title: 'Budget', duration: 10, startedAt: start }],
+    ...overrides,
+  };
+}
+
+describe('Agenda Timekeeper', () => {
+  let events: AgendaEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    events = [];
+    unsubscribe = onAgendaEvent((event) => events.push(event));
+  });
+
+  afterEach(() => {
+    stopTimekeeper('meeting-1');
+    unsubscribe();
+    vi.useRealTimers();
+  });
+
+  describe('setAgendaItemStatus', () => {
+    it('should start an item and complete the one in progress', async () => {
+      mockPrisma.agendaItem.findFirstOrThrow.mockResolvedValue({ id: 'item-2', status: 'PENDING', startedAt: null, endedAt: null });
+      mockPrisma.agendaItem.findMany.mockResolvedValue([{ id: 'item-1' }]);
+
+      const items = await setAgendaItemStatus('meeting-1', 'item-2', 'IN_PROGRESS', { at: start });
+
+      expect(items).toEqual([
+        { id: 'item-1', status: 'COMPLETED', endedAt: start },
+        { id: 'item-2', status: 'IN_PROGRESS', startedAt: start, endedAt: null },
+      ]);
+      expect(events).toEqual([{ type: 'updated', meetingId: 'meeting-1', items, autoAdvanced: false }]);
+    });
+
+    it('should keep the first start time when an item is resumed', async () => {
+      const first = new Date('2025-03-01T08:30:00Z');
+      mockPrisma.agendaItem.findFirstOrThrow.mockResolvedValue({ id: 'item-1', status: 'COMPLETED', startedAt: first, endedAt: start });
+      mockPrisma.agendaItem.findMany.mockResolvedValue([]);
+
+      await setAgendaItemStatus('meeting-1', 'item-1', 'IN_PROGRESS', { at: start });
+
+      expect(mockPrisma.agendaItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { status: 'IN_PROGRESS', startedAt: first, endedAt: null },
+      });
+    });
+
+    it('should record when an item ended', async () => {
+      mockPrisma.agendaItem.findFirstOrThrow.mockResolvedValue({ id: 'item-1', status: 'IN_PROGRESS', startedAt: start, endedAt: null });
+
+      await setAgendaItemStatus('meeting-1', 'item-1', 'COMPLETED', { at: start });
+
+      expect(mockPrisma.agendaItem.findMany).not.toHaveBeenCalled();
+      expect(mockPrisma.agendaItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: { status: 'COMPLETED', endedAt: start },
+      });
+    });
+  });
+
+  describe('agendaTimer', () => {
+    it('should report elapsed and remaining time against the planned duration', () => {
+      const item = { id: 'item-1', title: 'Budget', duration: 10, startedAt: start };
+
+      expect(agendaTimer(item, new Date(start.getTime() + 4 * 60000))).toMatchObject({
+        elapsedSeconds: 240,
+        plannedSeconds: 600,
+        remainingSeconds: 360,
+        overrun: false,
+      });
+      expect(agendaTimer(item, new Date(start.getTime() + 11 * 60000))).toMatchObject({
+        remainingSeconds: -60,
+        overrun: true,
+      });
+    });
+  });
+
+  describe('syncTimekeeper', () => {
+    it('should tick and warn once before the item runs over', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue(liveMeeting());
+      vi.setSystemTime(new Date(start.getTime() + 7 * 60000));
+
+      await syncTimekeeper('meeting-1');
+      expect(events.map((e) => e.type)).toEqual(['tick']);
+
+      vi.setSystemTime(new Date(start.getTime() + 8.5 * 60000));
+      await vi.advanceTimersByTimeAsync(15000);
+      await vi.advanceTimersByTimeAsync(15000);
+
+      expect(events.map((e) => e.type)).toEqual(['tick', 'tick', 'warning', 'tick']);
+      expect(mockQueueSpeak).not.toHaveBeenCalled();
+    });
+
+    it('should report an overrun and speak a time-check when enabled', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue(liveMeeting({ spokenTimeChecks: true }));
+      vi.setSystemTime(new Date(start.getTime() + 12 * 60000));
+
+      await syncTimekeeper('meeting-1');
+
+      const overrun = events.find((e) => e.type === 'overrun');
+      expect(overrun).toMatchObject({ timer: { itemId: 'item-1', overrun: true } });
+      expect(events.some((e) => e.type === 'warning')).toBe(false);
+      expect(mockQueueSpeak).toHaveBeenCalledWith('meeting-1', expect.stringContaining('"Budget"'), 1);
+    });
+
+    it('should stop when no item is in progress', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue(liveMeeting({ agendaItems: [] }));
+
+      await syncTimekeeper('meeting-1');
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(events).toEqual([]);
+      expect(mockPrisma.meeting.findUnique).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for Pre-Meeting Preparation
+ *
+ * Covers question ranking, skipping items whose papers are unchanged and
+ * replacing only unanswered AI questions.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockClient } = vi.hoisted(() => {
+  process.env.AI_MOCK_ENABLED = 'false';
+  return {
+    mockPrisma: {
+      meeting: { findUnique: vi.fn() },
+      agendaItem: { update: vi.fn(), findUnique: vi.fn() },
+      prepQuestion: { deleteMany: vi.fn(), createMany: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+      $transaction: vi.fn(),
+    },
+    mockClient: {
+      isConfigured: vi.fn(),
+      createCompletion: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('../../../services/openai/client', () => mockClient);
+
+import {
+  prepareMeeting,
+  rankQuestions,
+  documentsFingerprint,
+} from '../../../services/ai/preparation';
+
+interface Paper {
+  id: string;
+  title: string;
+  summary: string | null;
+  extractedText: string | null;
+}
+
+const capexPaper: Paper = { id: 'doc-1', title: 'Capex Paper', summary: null, extractedText: 'Capex of $12M against a $10M budget.' };
+const riskPaper: Paper = { id: 'doc-2', title: 'Risk Register', summary: 'Top ten risks', extractedText: null };
+
+function agendaItem(id: string, order: number, documents: Paper[], aiAnalysis: unknown = null) {
+  return { id, order, title: `Item ${order}`, description: null, presenter: null, aiAnalysis, documents };
+}
+
+const modelAnalysis = {
+  summary: 'The board is asked to approve $12M of capex.',
+  keyPoints: ['Capex $12M vs $10M budget'],
+  risks: ['Overspend not explained'],
+  opportunities: [],
+  relatedTopics: [],
+  confidence: 0.8,
+  questions: [
+    { question: 'Why is capex $2M over budget?', category: 'RISK', priority: 'HIGH', rationale: 'Capex Paper shows a 20% overspend.' },
+  ],
+};
+
+describe('Meeting Preparation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClient.isConfigured.mockResolvedValue(true);
+    mockClient.createCompletion.mockResolvedValue(JSON.stringify(modelAnalysis));
+    mockPrisma.$transaction.mockImplementation(async (operations: unknown[]) => Promise.all(operations));
+    mockPrisma.prepQuestion.findMany.mockResolvedValue([]);
+  });
+
+  describe('rankQuestions', () => {
+    it('should order by priority, then category, then agenda order', () => {
+      const ranked = rankQuestions([
+        { id: 'a', priority: 'MEDIUM', category: 'RISK', agendaOrder: 1 },
+        { id: 'b', priority: 'HIGH', category: 'OPERATIONAL', agendaOrder: 3 },
+        { id: 'c', priority: 'HIGH', category: 'RISK', agendaOrder: 2 },
+        { id: 'd', priority: 'HIGH', category: 'RISK', agendaOrder: 1 },
+      ] as const);
+
+      expect(ranked.map((q) => q.id)).toEqual(['d', 'c', 'b', 'a']);
+    });
+  });
+
+  describe('prepareMeeting', () => {
+    it('should analyze changed items and skip unchanged or paperless ones', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue({
+        id: 'meeting-1',
+        title: 'Q3 Board Meeting',
+        type: 'BOARD',
+        agendaItems: [
+          agendaItem('item-1', 1, [capexPaper]),
+          agendaItem('item-2', 2, [riskPaper], { documentsHash: documentsFingerprint([riskPaper]) }),
+          agendaItem('item-3', 3, []),
+        ],
+      });
+
+      const result = await prepareMeeting('meeting-1');
+
+      expect(result).toEqual({ analyzed: ['item-1'], unchanged: ['item-2'], skipped: ['item-3'], failed: [] });
+      expect(mockClient.createCompletion).toHaveBeenCalledTimes(1);
+      expect(mockClient.createCompletion.mock.calls[0][0][0].content).toContain('Capex of $12M');
+
+      expect(mockPrisma.agendaItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-1' },
+        data: {
+          aiAnalysis: expect.objectContaining({
+            summary: modelAnalysis.summary,
+            suggestedQuestions: ['Why is capex $2M over budget?'],
+            documentIds: ['doc-1'],
+            documentsHash: documentsFingerprint([capexPaper]),
+          }),
+        },
+      });
+      expect(mockPrisma.prepQuestion.deleteMany).toHaveBeenCalledWith({
+        where: { agendaItemId: 'item-1', aiGenerated: true, answered: false },
+      });
+      expect(mockPrisma.prepQuestion.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ category: 'RISK', priority: 'HIGH', aiGenerated: true })],
+      });
+    });
+
+    it('should re-run unchanged items when forced', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue({
+        id: 'meeting-1',
+        title: 'Q3 Board Meeting',
+        type: 'BOARD',
+        agendaItems: [agendaItem('item-2', 2, [riskPaper], { documentsHash: documentsFingerprint([riskPaper]) })],
+      });
+
+      const result = await prepareMeeting('meeting-1', { force: true });
+
+      expect(result.analyzed).toEqual(['item-2']);
+    });
+
+    it('should report the cause when no item could be analyzed', async () => {
+      mockClient.isConfigured.mockResolvedValue(false);
+      mockPrisma.meeting.findUnique.mockResolvedValue({
+        id: 'meeting-1',
+        title: 'Q3 Board Meeting',
+        type: 'BOARD',
+        agendaItems: [agendaItem('item-1', 1, [capexPaper])],
+      });
+
+      await expect(prepareMeeting('meeting-1')).rejects.toMatchObject({ status: 503 });
+      expect(mockPrisma.agendaItem.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a meeting without agenda items', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue({ id: 'meeting-1', title: 'Q3', type: 'BOARD', agendaItems: [] });
+
+      await expect(prepareMeeting('meeting-1')).rejects.toMatchObject({ status: 422 });
+    });
+  });
+});
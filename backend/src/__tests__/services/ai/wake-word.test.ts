@@ -7,10 +7,12 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 // Mock dependencies before importing the module
 vi.mock('../../../services/openai/advisor-agent', () => ({
   askAdvisor: vi.fn(),
+  streamAdvisorAnswer: vi.fn(),
 }));
 
 vi.mock('../../../services/recall/audio-output', () => ({
   speak: vi.fn(),
+  speakStream: vi.fn(),
   queueSpeak: vi.fn(),
 }));
 
@@ -18,6 +20,11 @@ vi.mock('../../../services/recall/transcription', () => ({
   getRecentTranscript: vi.fn(),
 }));
 
+vi.mock('../../../services/advisor', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../services/advisor')>()),
+  getAdvisorProfile: vi.fn(),
+}));
+
 vi.mock('../../../index', () => ({
   io: {
     to: vi.fn(() => ({
@@ -37,6 +44,7 @@ import {
 } from '../../../services/ai/wake-word';
 import { askAdvisor } from '../../../services/openai/advisor-agent';
 import { speak, queueSpeak } from '../../../services/recall/audio-output';
+import { defaultAdvisorProfile, getAdvisorProfile, mergeAdvisorProfiles } from '../../../services/advisor';
 
 // Helper to reset state between tests
 const resetState = (meetingId: string) => {
@@ -48,6 +56,7 @@ describe('Wake Word Service', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.useFakeTimers();
+    vi.mocked(getAdvisorProfile).mockResolvedValue(defaultAdvisorProfile());
   });
 
   afterEach(() => {
@@ -156,10 +165,33 @@ describe('Wake Word Service', () => {
     });
   });
 
+  describe('Advisor Profile', () => {
+    it('should answer to the wake phrases in the meeting\'s profile', async () => {
+      vi.mocked(getAdvisorProfile).mockResolvedValue(mergeAdvisorProfiles({ name: 'Secretary' }));
+      
+      const addressed = await processForWakeWord('profile-test-1', 'John', 'Hey, Secretary. What is next?');
+      const old = await processForWakeWord('profile-test-2', 'John', 'Board Observer, what is next?');
+      
+      expect(addressed.detected).toBe(true);
+      expect(old.detected).toBe(false);
+      expect(getAdvisorProfile).toHaveBeenCalledWith('profile-test-1');
+    });
+
+    it('should match wake phrases in Arabic as whole words', async () => {
+      vi.mocked(getAdvisorProfile).mockResolvedValue(mergeAdvisorProfiles({ wakePhrases: ['يا سكرتير'] }));
+      
+      const addressed = await processForWakeWord('profile-test-3', 'Omar', 'يا سكرتير، ما هو البند التالي؟');
+      const mentioned = await processForWakeWord('profile-test-4', 'Omar', 'يا سكرتيرة المجلس');
+      
+      expect(addressed.detected).toBe(true);
+      expect(mentioned.detected).toBe(false);
+    });
+  });
+
   describe('Speech Completion Detection', () => {
     it('should detect completion with question mark', async () => {
       vi.mocked(speak).mockResolvedValue();
-      vi.mocked(askAdvisor).mockResolvedValue('Here is my answer');
+      vi.mocked(askAdvisor).mockResolvedValue({ answer: 'Here is my answer', sources: [] });
       vi.mocked(queueSpeak).mockResolvedValue();
       
       // First call to trigger wake word
@@ -0,0 +1,132 @@
+/**
+ * Tests for Meeting Analytics
+ *
+ * Covers talk time (recorded and estimated), question counting, interruption
+ * detection and agenda timing against planned durations.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeMeetingAnalytics, countQuestions, MeetingAnalyticsInput } from '../../../services/analytics/meeting';
+
+const start = new Date('2025-03-01T09:00:00Z').getTime();
+const at = (seconds: number) => new Date(start + seconds * 1000);
+
+function entry(
+  speakerId: string | null,
+  speakerName: string,
+  content: string,
+  from: number,
+  to: number | null,
+  agendaItemId: string | null = 'item-1'
+) {
+  return { speakerId, speakerName, content, timestamp: at(from), endTimestamp: to === null ? null : at(to), agendaItemId };
+}
+
+function input(entries: MeetingAnalyticsInput['entries']): MeetingAnalyticsInput {
+  return {
+    meeting: {
+      id: 'meeting-1',
+      title: 'Q1 Board Meeting',
+      type: 'BOARD',
+      phase: 'COMPLETED',
+      scheduledStart: at(0),
+      scheduledEnd: at(60 * 60),
+      actualStart: at(0),
+      actualEnd: at(75 * 60),
+    },
+    attendees: [
+      { isPresent: true, joinedAt: at(0), leftAt: null, attendee: { id: 'att-1', name: 'Sarah Al Hashimi', title: 'Chair' } },
+      { isPresent: false, joinedAt: null, leftAt: null, attendee: { id: 'att-2', name: 'Ahmed Al Mansouri', title: 'CFO' } },
+      { isPresent: false, joinedAt: null, leftAt: null, attendee: { id: 'att-3', name: 'John Smith', title: 'Director' } },
+    ],
+    agendaItems: [
+      { id: 'item-2', order: 2, title: 'Budget', duration: 1, status: 'PENDING' },
+      { id: 'item-1', order: 1, title: 'Opening', duration: 5, status: 'COMPLETED' },
+    ],
+    entries,
+  };
+}
+
+describe('Meeting Analytics', () => {
+  describe('countQuestions', () => {
+    it('should count question marks in punctuated text', () => {
+      expect(countQuestions('What is the runway? And the burn rate? Thanks.')).toBe(2);
+      expect(countQuestions('We approved it.')).toBe(0);
+    });
+
+    it('should fall back to question words for unpunctuated captions', () => {
+      expect(countQuestions('how long is the runway')).toBe(1);
+      expect(countQuestions('the runway is long')).toBe(0);
+    });
+  });
+
+  describe('computeMeetingAnalytics', () => {
+    it('should compute talk time, turns and shares per attendee', () => {
+      const analytics = computeMeetingAnalytics(input([
+        entry('att-1', 'Sarah', 'Welcome everyone.', 0, 30),
+        entry('att-1', 'Sarah', 'Let us begin.', 30, 60),
+        entry('att-2', 'Ahmed', 'Thank you.', 61, 90),
+      ]));
+
+      const [sarah, ahmed, john] = analytics.speakers;
+      expect(sarah).toMatchObject({ attendeeId: 'att-1', talkTimeSeconds: 60, turns: 1, entries: 2, talkTimeShare: 0.674 });
+      expect(ahmed).toMatchObject({ attendeeId: 'att-2', talkTimeSeconds: 29, turns: 1, attended: true });
+      // Invited attendees who never spoke still get a row
+      expect(john).toMatchObject({ attendeeId: 'att-3', talkTimeSeconds: 0, attended: false });
+      expect(analytics.totals).toMatchObject({ entries: 3, talkTimeSeconds: 89, speakers: 2 });
+    });
+
+    it('should estimate talk time from the word count without running into the next entry', () => {
+      const analytics = computeMeetingAnalytics(input([
+        entry('att-1', 'Sarah', 'one two three four five', 0, null),
+        entry('att-2', 'Ahmed', 'one two three four five six seven eight nine ten', 10, null),
+        entry('att-1', 'Sarah', 'ok', 12, null),
+      ]));
+
+      // 5 words at 2.5 words a second; 10 words cut off by the next entry after 2 seconds
+      expect(analytics.speakers.find((s) => s.attendeeId === 'att-1')?.talkTimeSeconds).toBe(2);
+      expect(analytics.speakers.find((s) => s.attendeeId === 'att-2')?.talkTimeSeconds).toBe(2);
+      expect(analytics.totals.interruptions).toBe(0);
+    });
+
+    it('should detect overlaps and cut-off sentences as interruptions', () => {
+      const analytics = computeMeetingAnalytics(input([
+        entry('att-1', 'Sarah', 'The budget for next year, as you know,', 0, 10),
+        entry('att-2', 'Ahmed', 'Sorry, can I add something?', 10.2, 14),
+        entry('att-1', 'Sarah', 'Of course.', 13, 15),
+        entry('att-2', 'Ahmed', 'Thank you.', 15.1, 16),
+      ]));
+
+      const sarah = analytics.speakers.find((s) => s.attendeeId === 'att-1')!;
+      const ahmed = analytics.speakers.find((s) => s.attendeeId === 'att-2')!;
+      expect(ahmed).toMatchObject({ interruptionsMade: 1, interruptionsReceived: 1, questions: 1 });
+      expect(sarah).toMatchObject({ interruptionsMade: 1, interruptionsReceived: 1 });
+      expect(analytics.totals.interruptions).toBe(2);
+    });
+
+    it('should report unresolved speakers by name', () => {
+      const analytics = computeMeetingAnalytics(input([
+        entry(null, 'iPhone (2)', 'Hello?', 0, 5),
+      ]));
+
+      expect(analytics.speakers[0]).toMatchObject({ attendeeId: null, name: 'iPhone (2)', talkTimeSeconds: 5 });
+      expect(analytics.totals.unattributedEntries).toBe(1);
+    });
+
+    it('should compare time per agenda item with its planned duration', () => {
+      const analytics = computeMeetingAnalytics(input([
+        entry('att-1', 'Sarah', 'Welcome.', 0, 60, 'item-1'),
+        entry('att-2', 'Ahmed', 'Budget first.', 120, 180, 'item-2'),
+        entry('att-1', 'Sarah', 'An aside.', 180, 240, null),
+        entry('att-2', 'Ahmed', 'Back to the budget.', 240, 300, 'item-2'),
+      ]));
+
+      expect(analytics.agenda).toEqual([
+        expect.objectContaining({ id: 'item-1', plannedMinutes: 5, actualMinutes: 1, varianceMinutes: -4, overran: false, status: 'completed' }),
+        expect.objectContaining({ id: 'item-2', plannedMinutes: 1, actualMinutes: 2, varianceMinutes: 1, overran: true }),
+      ]);
+      expect(analytics.totals.untaggedMinutes).toBe(1);
+      expect(analytics.duration).toEqual({ scheduledMinutes: 60, actualMinutes: 75, overrunMinutes: 15, plannedAgendaMinutes: 6 });
+    });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Tests for the Minutes Approval Workflow
+ *
+ * Covers word and section diffs between versions, recording versions,
+ * circulation, sign-off by the chair and the secretary (and who may sign as
+ * them), and the lock on approved minutes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { MeetingSummary } from '@prisma/client';
+
+type Row = Record<string, unknown>;
+type SummaryRow = Row & Pick<MeetingSummary, 'status' | 'currentVersion'>;
+
+const { mockPrisma, state } = vi.hoisted(() => {
+  const state: { summary: SummaryRow; versions: Row[]; signoffs: Row[]; meeting: Row | null; roles: Record<string, string> } = {
+    summary: null as unknown as SummaryRow, versions: [], signoffs: [], meeting: null, roles: {},
+  };
+  const meetingSummary = {
+    findUnique: vi.fn(async () => state.summary && { ...state.summary }),
+    findUniqueOrThrow: vi.fn(async () => ({ ...state.summary })),
+    update: vi.fn(async ({ data }: { data: Row }) => Object.assign(state.summary, data)),
+  };
+  const minutesVersion = {
+    create: vi.fn(async ({ data }: { data: Row }) => {
+      const version = { ...data, id: `version-${data.version}`, createdAt: new Date() };
+      state.versions.push(version);
+      return version;
+    }),
+  };
+  const minutesSignoff = {
+    findMany: vi.fn(async ({ where }: { where: { version: number } }) => state.signoffs.filter((s) => s.version === where.version)),
+    create: vi.fn(async ({ data }: { data: Row }) => {
+      const signoff = { ...data, signedAt: new Date(), user: { id: data.userId } };
+      state.signoffs.push(signoff);
+      return signoff;
+    }),
+  };
+  const user = {
+    findUniqueOrThrow: vi.fn(async ({ where }: { where: { id: string } }) => ({ name: `Name of ${where.id}`, email: `${where.id}@example.com` })),
+  };
+  const tx = { meetingSummary, minutesVersion, minutesSignoff, user };
+  return {
+    state,
+    mockPrisma: {
+      ...tx,
+      meeting: { findUnique: vi.fn(async () => state.meeting) },
+      organizationMember: {
+        findUnique: vi.fn(async ({ where }: { where: { userId_organizationId: { userId: string } } }) => {
+          const role = state.roles[where.userId_organizationId.userId];
+          return role ? { role } : null;
+        }),
+      },
+      $transaction: vi.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+
+import {
+  assertEditable,
+  circulateMinutes,
+  diffMinutes,
+  diffWords,
+  editMinutes,
+  getApproval,
+  MinutesContent,
+  signMinutes,
+} from '../../../services/approval';
+
+function content(overrides: Partial<MinutesContent> = {}): MinutesContent {
+  return {
+    overview: 'The board approved the budget.',
+    attendanceNotes: null,
+    nextSteps: ['Publish the budget'],
+    discussions: [
+      { agendaItemId: 'item-1', title: 'Budget', summary: 'The CFO presented the budget.', keyPoints: [], outcome: 'Approved' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('Minutes Approval Workflow', () => {
+  describe('diff', () => {
+    it('should diff word by word and keep the unchanged text', () => {
+      const parts = diffWords('The board approved the budget.', 'The board rejected the revised budget.');
+
+      expect(parts[0]).toEqual({ type: 'equal', text: 'The board ' });
+      expect(parts.filter((p) => p.type === 'delete').map((p) => p.text.trim())).toEqual(['approved']);
+      expect(parts.filter((p) => p.type === 'insert').map((p) => p.text.trim())).toEqual(['rejected', 'revised']);
+      expect(parts.filter((p) => p.type !== 'insert').map((p) => p.text).join('')).toBe('The board approved the budget.');
+      expect(parts.filter((p) => p.type !== 'delete').map((p) => p.text).join('')).toBe('The board rejected the revised budget.');
+    });
+
+    it('should report added, changed and removed sections', () => {
+      const diffs = diffMinutes(
+        content(),
+        content({
+          overview: 'The board approved the amended budget.',
+          attendanceNotes: 'The CEO joined late.',
+          nextSteps: [],
+        })
+      );
+
+      expect(diffs.map((d) => [d.section, d.change])).toEqual([
+        ['overview', 'changed'],
+        ['attendanceNotes', 'added'],
+        ['nextSteps', 'removed'],
+      ]);
+      expect(diffMinutes(content(), content())).toEqual([]);
+    });
+  });
+
+  describe('workflow', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+      state.summary = {
+        id: 'summary-1',
+        meetingId: 'meeting-1',
+        overview: 'The board approved the budget.',
+        attendanceNotes: null,
+        nextSteps: [],
+        status: 'DRAFT',
+        currentVersion: 0,
+        circulatedAt: null,
+        approvedAt: null,
+        approvedVersion: null,
+        discussions: [],
+      };
+      state.versions = [];
+      state.signoffs = [];
+      state.meeting = { organizationId: 'org-1', chairId: null, secretaryId: null };
+      state.roles = { 'chair-1': 'ADMIN', 'chair-2': 'OWNER', 'secretary-1': 'ADMIN', 'editor-1': 'EDITOR' };
+    });
+
+    it('should record an edit as the next version and return circulated minutes to draft', async () => {
+      state.summary.status = 'CIRCULATED';
+      state.summary.currentVersion = 1;
+
+      const { version } = await editMinutes('meeting-1', 'user-1', { overview: 'The board deferred the budget.' });
+
+      expect(version).toMatchObject({ version: 2, source: 'edited', createdById: 'user-1' });
+      expect(version.content).toMatchObject({ overview: 'The board deferred the budget.' });
+      expect(state.summary).toMatchObject({ currentVersion: 2, status: 'DRAFT', circulatedAt: null });
+    });
+
+    it('should approve the minutes once the chair and the secretary have signed', async () => {
+      await circulateMinutes('meeting-1', 'user-1');
+      expect(state.summary).toMatchObject({ status: 'CIRCULATED', currentVersion: 1 });
+      expect(state.versions[0]).toMatchObject({ version: 1, source: 'initial' });
+
+      await signMinutes('meeting-1', 'chair-1', 'CHAIR');
+      expect(state.summary.status).toBe('CIRCULATED');
+      expect(state.signoffs[0]).toMatchObject({ userId: 'chair-1', signerName: 'Name of chair-1', signerEmail: 'chair-1@example.com' });
+
+      await signMinutes('meeting-1', 'secretary-1', 'SECRETARY');
+      expect(state.summary).toMatchObject({ status: 'APPROVED', approvedVersion: 1 });
+      expect(() => assertEditable(state.summary)).toThrow('The minutes are approved and locked');
+      await expect(editMinutes('meeting-1', 'user-1', { overview: 'Changed' })).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('should refuse signatures on drafts, repeated roles and one person signing twice', async () => {
+      await expect(signMinutes('meeting-1', 'chair-1', 'CHAIR')).rejects.toThrow('Only circulated minutes can be signed');
+
+      await circulateMinutes('meeting-1', 'user-1');
+      await signMinutes('meeting-1', 'chair-1', 'CHAIR');
+
+      await expect(signMinutes('meeting-1', 'chair-2', 'CHAIR')).rejects.toThrow('The chair has already signed this version');
+      await expect(signMinutes('meeting-1', 'chair-1', 'SECRETARY')).rejects.toThrow('must be different people');
+      expect(state.summary.status).toBe('CIRCULATED');
+    });
+
+    it('should only let the designated chair and secretary sign', async () => {
+      state.meeting = { organizationId: 'org-1', chairId: 'chair-1', secretaryId: 'secretary-1' };
+      await circulateMinutes('meeting-1', 'user-1');
+
+      await expect(signMinutes('meeting-1', 'editor-1', 'CHAIR')).rejects.toMatchObject({
+        status: 403,
+        message: "Only the meeting's chair can sign as chair",
+      });
+      await expect(signMinutes('meeting-1', 'chair-2', 'SECRETARY')).rejects.toMatchObject({ status: 403 });
+
+      await signMinutes('meeting-1', 'chair-1', 'CHAIR');
+      await signMinutes('meeting-1', 'secretary-1', 'SECRETARY');
+      expect(state.summary.status).toBe('APPROVED');
+    });
+
+    it('should only let organization admins sign for a role nobody is designated for', async () => {
+      state.meeting = { organizationId: 'org-1', chairId: 'chair-1', secretaryId: null };
+      await circulateMinutes('meeting-1', 'user-1');
+
+      await expect(signMinutes('meeting-1', 'editor-1', 'SECRETARY')).rejects.toMatchObject({ status: 403 });
+      await expect(signMinutes('meeting-1', 'outsider-1', 'SECRETARY')).rejects.toMatchObject({ status: 403 });
+      expect(state.signoffs).toEqual([]);
+
+      await signMinutes('meeting-1', 'secretary-1', 'SECRETARY');
+      expect(state.signoffs).toHaveLength(1);
+    });
+
+    it('should show the copied name and email of a signer whose account was deleted', async () => {
+      state.summary = { ...state.summary, status: 'CIRCULATED', currentVersion: 1 };
+      state.signoffs = [{
+        role: 'CHAIR', version: 1, userId: null, signerName: 'Sara Chair', signerEmail: 'sara@example.com', user: null, signedAt: new Date(),
+      }];
+
+      const approval = await getApproval('meeting-1');
+
+      expect(approval.signoffs[0].user).toEqual({ id: null, name: 'Sara Chair', email: 'sara@example.com' });
+      expect(approval.awaiting).toEqual(['secretary']);
+    });
+  });
+});
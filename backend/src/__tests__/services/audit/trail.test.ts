@@ -0,0 +1,156 @@
+/**
+ * Tests for the Audit Trail
+ *
+ * Covers field diffs, the per-organization hash chain, and detection of
+ * events edited or removed after they were recorded.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type StoredEvent = Record<string, unknown> & { sequence: number; after: Record<string, unknown> | null };
+
+const { mockPrisma, stored } = vi.hoisted(() => {
+  const stored: StoredEvent[] = [];
+  // Prisma.DbNull reads back as null
+  const readBack = <T>(value: T) => ((value as object | null)?.constructor?.name === 'DbNull' ? null : value);
+  const auditEvent = {
+    findFirst: vi.fn(async () => stored[stored.length - 1] ?? null),
+    create: vi.fn(async ({ data }: { data: StoredEvent }) => {
+      // What a read gives back: Json nulls as null, a generated id
+      const event = {
+        ...data,
+        id: `event-${stored.length + 1}`,
+        before: readBack(data.before),
+        after: readBack(data.after),
+        changes: readBack(data.changes),
+      };
+      stored.push(event);
+      return event;
+    }),
+    findMany: vi.fn(async ({ where, take }: { where: { sequence: { gt: number } }; take: number }) =>
+      stored.filter((e) => e.sequence > where.sequence.gt).slice(0, take)
+    ),
+  };
+  const tx = { $executeRaw: vi.fn(), auditEvent };
+  return {
+    stored,
+    mockPrisma: {
+      auditEvent,
+      meeting: { findUniqueOrThrow: vi.fn(async () => ({ organizationId: 'org-1' })) },
+      $transaction: vi.fn(async (fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+
+import { diffRecords, recordAuditEvent, verifyAuditChain } from '../../../services/audit/trail';
+
+const actor = { type: 'user' as const, id: 'user-1', email: 'secretary@example.com', requestId: 'req-1' };
+
+async function recordThree() {
+  await recordAuditEvent({
+    meetingId: 'meeting-1',
+    action: 'detected_decision.confirmed',
+    entityType: 'DetectedDecision',
+    entityId: 'dd-1',
+    after: { id: 'dd-1', status: 'CONFIRMED' },
+    actor,
+  });
+  await recordAuditEvent({
+    meetingId: 'meeting-1',
+    action: 'transcript_entry.updated',
+    entityType: 'TranscriptEntry',
+    entityId: 'te-1',
+    before: { id: 'te-1', content: 'We aprove the budget', updatedAt: new Date('2026-01-01') },
+    after: { id: 'te-1', content: 'We approve the budget', updatedAt: new Date('2026-01-02') },
+    actor,
+  });
+  await recordAuditEvent({
+    organizationId: 'org-1',
+    meetingId: 'meeting-1',
+    action: 'summary.generated',
+    entityType: 'MeetingSummary',
+    entityId: 'summary-1',
+    after: { id: 'summary-1', overview: 'Budget approved' },
+  });
+}
+
+describe('Audit Trail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stored.length = 0;
+  });
+
+  describe('diffRecords', () => {
+    it('should list changed fields, ignoring updatedAt and included relations', () => {
+      const changes = diffRecords(
+        { status: 'PENDING', notes: null, updatedAt: new Date('2026-01-01') },
+        { status: 'COMPLETED', notes: null, updatedAt: new Date('2026-01-02'), assignee: { name: 'A' } }
+      );
+
+      expect(changes).toEqual({ status: { from: 'PENDING', to: 'COMPLETED' } });
+    });
+
+    it('should not diff creations or deletions', () => {
+      expect(diffRecords(null, { status: 'PENDING' })).toBeNull();
+      expect(diffRecords({ status: 'PENDING' }, undefined)).toBeNull();
+    });
+  });
+
+  describe('recordAuditEvent', () => {
+    it('should chain events within the organization', async () => {
+      await recordThree();
+
+      expect(stored.map((e) => e.sequence)).toEqual([1, 2, 3]);
+      expect(stored[0].prevHash).toBeNull();
+      expect(stored[1].prevHash).toBe(stored[0].hash);
+      expect(stored[2].prevHash).toBe(stored[1].hash);
+      expect(stored[1].changes).toEqual({
+        content: { from: 'We aprove the budget', to: 'We approve the budget' },
+      });
+      expect(stored[2].actorType).toBe('system');
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not fail the caller when the event cannot be stored', async () => {
+      mockPrisma.$transaction.mockRejectedValueOnce(new Error('connection lost'));
+
+      const event = await recordAuditEvent({
+        organizationId: 'org-1',
+        action: 'decision.deleted',
+        entityType: 'Decision',
+        entityId: 'd-1',
+      });
+
+      expect(event).toBeNull();
+    });
+  });
+
+  describe('verifyAuditChain', () => {
+    it('should accept an untouched chain', async () => {
+      await recordThree();
+
+      await expect(verifyAuditChain('org-1')).resolves.toEqual({ valid: true, checked: 3 });
+    });
+
+    it('should detect an edited event', async () => {
+      await recordThree();
+      stored[1].after = { ...stored[1].after, content: 'We reject the budget' };
+
+      const result = await verifyAuditChain('org-1');
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenAt).toMatchObject({ sequence: 2, id: 'event-2', reason: 'Content does not match its hash' });
+    });
+
+    it('should detect a removed event', async () => {
+      await recordThree();
+      stored.splice(1, 1);
+
+      const result = await verifyAuditChain('org-1');
+
+      expect(result).toMatchObject({ valid: false, checked: 1, brokenAt: { sequence: 2, id: null } });
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for iCalendar Parsing & Recurrence Expansion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseIcs, expandOccurrences } from '../../../services/calendar/ics';
+
+function calendar(...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+const window = { from: new Date('2025-01-01T00:00:00Z'), to: new Date('2025-12-31T00:00:00Z') };
+
+describe('iCalendar Parsing', () => {
+  describe('parseIcs', () => {
+    it('should read event fields, unfolding lines and unescaping text', () => {
+      const [event] = parseIcs(calendar([
+        'UID:board-q1@example.com',
+        'SUMMARY:Board meeting\\, Q1',
+        'DESCRIPTION:Agenda attached.\\nJoin: https://zoom.us/j/12345',
+        ' 6789',
+        'LOCATION:HQ Boardroom',
+        'DTSTART:20250310T090000Z',
+        'DTEND:20250310T110000Z',
+        'ATTENDEE;CN="Smith, Jane";ROLE=REQ-PARTICIPANT:mailto:Jane.Smith@Example.com',
+        'ATTENDEE;CUTYPE=ROOM:urn:uuid:boardroom',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+      ]));
+
+      expect(event.uid).toBe('board-q1@example.com');
+      expect(event.summary).toBe('Board meeting, Q1');
+      expect(event.description).toBe('Agenda attached.\nJoin: https://zoom.us/j/123456789');
+      expect(event.location).toBe('HQ Boardroom');
+      expect(event.durationMs).toBe(2 * 60 * 60 * 1000);
+      expect(event.attendees).toEqual([{ email: 'jane.smith@example.com', name: 'Smith, Jane' }]);
+    });
+
+    it('should convert TZID times to UTC', () => {
+      const events = parseIcs(calendar(
+        ['UID:winter', 'DTSTART;TZID=Europe/London:20250115T100000', 'DURATION:PT1H30M'],
+        ['UID:summer', 'DTSTART;TZID=Europe/London:20250715T100000', 'DURATION:PT1H'],
+        ['UID:outlook', 'DTSTART;TZID=Arabian Standard Time:20250715T100000', 'DURATION:PT1H'],
+      ));
+      const [winter, outlook, summer] = expandOccurrences(events, window);
+
+      expect(winter.start.toISOString()).toBe('2025-01-15T10:00:00.000Z');
+      expect(winter.end.toISOString()).toBe('2025-01-15T11:30:00.000Z');
+      expect(summer.start.toISOString()).toBe('2025-07-15T09:00:00.000Z');
+      expect(outlook.start.toISOString()).toBe('2025-07-15T06:00:00.000Z');
+    });
+
+    it('should read floating times in the default time zone', () => {
+      const events = parseIcs(calendar(['UID:floating', 'DTSTART:20250301T090000']), {
+        defaultTimeZone: 'Asia/Dubai',
+      });
+
+      expect(expandOccurrences(events, window)[0].start.toISOString()).toBe('2025-03-01T05:00:00.000Z');
+    });
+
+    it('should treat date-only events as all-day', () => {
+      const [occurrence] = expandOccurrences(
+        parseIcs(calendar(['UID:offsite', 'DTSTART;VALUE=DATE:20250402'])),
+        window
+      );
+
+      expect(occurrence.allDay).toBe(true);
+      expect(occurrence.end.getTime() - occurrence.start.getTime()).toBe(24 * 60 * 60 * 1000);
+    });
+
+    it('should skip events without a UID or start', () => {
+      expect(parseIcs(calendar(['SUMMARY:No UID', 'DTSTART:20250301T090000Z'], ['UID:no-start']))).toEqual([]);
+    });
+  });
+
+  describe('expandOccurrences', () => {
+    it('should expand weekly rules on several days with a count', () => {
+      const occurrences = expandOccurrences(parseIcs(calendar([
+        'UID:standup',
+        'DTSTART:20250106T080000Z',
+        'DTEND:20250106T081500Z',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4',
+      ])), window);
+
+      expect(occurrences.map((o) => o.start.toISOString())).toEqual([
+        '2025-01-06T08:00:00.000Z',
+        '2025-01-08T08:00:00.000Z',
+        '2025-01-13T08:00:00.000Z',
+        '2025-01-15T08:00:00.000Z',
+      ]);
+      expect(occurrences[1].key).toBe('standup#2025-01-08T08:00:00.000Z');
+    });
+
+    it('should expand monthly rules on an ordinal weekday until the end date', () => {
+      const occurrences = expandOccurrences(parseIcs(calendar([
+        'UID:committee',
+        'DTSTART:20250107T140000Z',
+        'RRULE:FREQ=MONTHLY;BYDAY=1TU;UNTIL=20250430T000000Z',
+      ])), window);
+
+      expect(occurrences.map((o) => o.start.toISOString().slice(0, 10))).toEqual([
+        '2025-01-07', '2025-02-04', '2025-03-04', '2025-04-01',
+      ]);
+    });
+
+    it('should expand the last weekday of the month', () => {
+      const occurrences = expandOccurrences(parseIcs(calendar([
+        'UID:review',
+        'DTSTART:20250131T100000Z',
+        'RRULE:FREQ=MONTHLY;BYDAY=-1FR;COUNT=3',
+      ])), window);
+
+      expect(occurrences.map((o) => o.start.toISOString().slice(0, 10))).toEqual([
+        '2025-01-31', '2025-02-28', '2025-03-28',
+      ]);
+    });
+
+    it('should keep the local time of recurring events across DST changes', () => {
+      const occurrences = expandOccurrences(parseIcs(calendar([
+        'UID:weekly',
+        'DTSTART;TZID=America/New_York:20250303T090000',
+        'RRULE:FREQ=WEEKLY;COUNT=2',
+      ])), window);
+
+      expect(occurrences.map((o) => o.start.toISOString())).toEqual([
+        '2025-03-03T14:00:00.000Z',
+        '2025-03-10T13:00:00.000Z',
+      ]);
+    });
+
+    it('should apply EXDATE and RECURRENCE-ID overrides', () => {
+      const occurrences = expandOccurrences(parseIcs(calendar(
+        [
+          'UID:daily',
+          'SUMMARY:Daily sync',
+          'DTSTART:20250210T090000Z',
+          'DURATION:PT30M',
+          'RRULE:FREQ=DAILY;COUNT=4',
+          'EXDATE:20250211T090000Z',
+        ],
+        [
+          'UID:daily',
+          'SUMMARY:Daily sync (moved)',
+          'RECURRENCE-ID:20250212T090000Z',
+          'DTSTART:20250212T150000Z',
+          'DURATION:PT30M',
+        ],
+        [
+          'UID:daily',
+          'RECURRENCE-ID:20250213T090000Z',
+          'DTSTART:20250213T090000Z',
+          'STATUS:CANCELLED',
+        ],
+      )), window);
+
+      expect(occurrences.map((o) => [o.key, o.start.toISOString(), o.summary, o.status])).toEqual([
+        ['daily#2025-02-10T09:00:00.000Z', '2025-02-10T09:00:00.000Z', 'Daily sync', null],
+        ['daily#2025-02-12T09:00:00.000Z', '2025-02-12T15:00:00.000Z', 'Daily sync (moved)', null],
+        ['daily#2025-02-13T09:00:00.000Z', '2025-02-13T09:00:00.000Z', null, 'CANCELLED'],
+      ]);
+    });
+
+    it('should only return occurrences inside the window', () => {
+      const occurrences = expandOccurrences(parseIcs(calendar([
+        'UID:forever',
+        'DTSTART:20200101T090000Z',
+        'RRULE:FREQ=YEARLY',
+      ])), window);
+
+      expect(occurrences.map((o) => o.start.toISOString())).toEqual(['2025-01-01T09:00:00.000Z']);
+    });
+  });
+});
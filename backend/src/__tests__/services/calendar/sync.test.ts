@@ -0,0 +1,228 @@
+/**
+ * Tests for Calendar Sync
+ *
+ * Covers importing a feed's events as meetings, matching invitees to the
+ * organization's attendees, removing meetings whose event is gone unless
+ * someone prepared them, and keeping the feed's URL and credentials safe.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Response } from 'undici';
+
+const { mockPrisma, mockRecordAuditEvent, mockFetch } = vi.hoisted(() => ({
+  mockRecordAuditEvent: vi.fn(),
+  mockFetch: vi.fn(),
+  mockPrisma: {
+    calendarSource: { findUniqueOrThrow: vi.fn(), update: vi.fn() },
+    meeting: { findMany: vi.fn(), create: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+    attendee: { findMany: vi.fn() },
+    meetingAttendee: { createMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('undici', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('undici')>()),
+  fetch: mockFetch,
+}));
+vi.mock('../../../services/audit/trail', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../services/audit/trail')>()),
+  recordAuditEvent: mockRecordAuditEvent,
+}));
+
+import { encryptSecret } from '../../../lib/secrets';
+import { syncCalendarSource } from '../../../services/calendar/sync';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function icsTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function feed(...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+function boardMeeting(start: Date, ...lines: string[]): string[] {
+  return [
+    'UID:board@example.com',
+    'SUMMARY:Board meeting',
+    `DTSTART:${icsTime(start)}`,
+    `DTEND:${icsTime(new Date(start.getTime() + 2 * 60 * 60 * 1000))}`,
+    ...lines,
+  ];
+}
+
+describe('Calendar Sync', () => {
+  const start = new Date(Math.floor((Date.now() + 7 * DAY_MS) / 1000) * 1000);
+
+  function withSource(overrides: Record<string, unknown> = {}) {
+    mockPrisma.calendarSource.findUniqueOrThrow.mockResolvedValue({
+      id: 'source-1',
+      organizationId: 'org-1',
+      kind: 'ICS',
+      url: 'https://calendar.example.com/board.ics',
+      username: null,
+      password: null,
+      meetingType: 'BOARD',
+      autoJoinBot: false,
+      organization: { timezone: 'UTC' },
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    withSource();
+    mockPrisma.meeting.findMany.mockResolvedValue([]);
+    mockPrisma.meeting.create.mockImplementation(async ({ data }) => ({ id: 'meeting-1', ...data }));
+    mockPrisma.attendee.findMany.mockResolvedValue([]);
+    mockPrisma.meeting.deleteMany.mockResolvedValue({ count: 1 });
+  });
+
+  function serve(text: string) {
+    mockFetch.mockImplementation(async () => new Response(text));
+  }
+
+  it('should match invitees to attendees whatever the case of their stored email', async () => {
+    serve(feed(boardMeeting(
+      start,
+      'ATTENDEE;CN=Jane Smith:mailto:Jane.Smith@Example.com',
+      'ATTENDEE;CN=Guest:mailto:guest@example.com',
+    )));
+    mockPrisma.attendee.findMany.mockResolvedValue([{ id: 'attendee-1', email: 'JANE.SMITH@example.com' }]);
+
+    const result = await syncCalendarSource('source-1');
+
+    expect(mockPrisma.attendee.findMany).toHaveBeenCalledWith({
+      where: {
+        organizationId: 'org-1',
+        email: { in: ['jane.smith@example.com', 'guest@example.com'], mode: 'insensitive' },
+      },
+      select: { id: true, email: true },
+    });
+    expect(mockPrisma.meetingAttendee.createMany).toHaveBeenCalledWith({
+      data: [{ meetingId: 'meeting-1', attendeeId: 'attendee-1' }],
+      skipDuplicates: true,
+    });
+    expect(result).toMatchObject({ created: 1, unmatchedEmails: ['guest@example.com'] });
+  });
+
+  describe('removed events', () => {
+    function imported(id: string, externalEventId: string, prepared: Record<string, unknown> = {}) {
+      return {
+        id,
+        organizationId: 'org-1',
+        calendarSourceId: 'source-1',
+        externalEventId,
+        phase: 'UPCOMING',
+        scheduledStart: start,
+        chairId: null,
+        secretaryId: null,
+        advisorProfile: null,
+        _count: { agendaItems: 0, documents: 0, prepQuestions: 0, actionItems: 0, decisions: 0 },
+        ...prepared,
+      };
+    }
+
+    it('should delete and audit meetings nobody prepared, and keep prepared ones', async () => {
+      serve(feed(boardMeeting(start)));
+      const meetings = [
+        imported('meeting-1', 'board@example.com'),
+        imported('meeting-2', 'offsite@example.com'),
+        imported('meeting-3', 'strategy@example.com', {
+          _count: { agendaItems: 3, documents: 0, prepQuestions: 0, actionItems: 0, decisions: 0 },
+        }),
+        imported('meeting-4', 'audit@example.com', { chairId: 'user-1' }),
+      ];
+      mockPrisma.meeting.findMany
+        .mockResolvedValueOnce(meetings)
+        .mockResolvedValueOnce(meetings.slice(1));
+
+      const result = await syncCalendarSource('source-1');
+
+      expect(mockPrisma.meeting.deleteMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.meeting.deleteMany).toHaveBeenCalledWith({ where: { id: 'meeting-2', phase: 'UPCOMING' } });
+      expect(mockRecordAuditEvent).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'meeting.removed_from_calendar',
+        meetingId: 'meeting-2',
+        before: expect.objectContaining({ externalEventId: 'offsite@example.com' }),
+        actor: { type: 'system' },
+      }));
+      expect(result).toMatchObject({ updated: 1, removed: 1, kept: 2 });
+    });
+
+    it('should not audit a meeting that started before it could be deleted', async () => {
+      serve(feed(boardMeeting(start, 'STATUS:CANCELLED')));
+      const meeting = imported('meeting-1', 'board@example.com');
+      mockPrisma.meeting.findMany.mockResolvedValueOnce([meeting]).mockResolvedValueOnce([meeting]);
+      mockPrisma.meeting.deleteMany.mockResolvedValue({ count: 0 });
+
+      const result = await syncCalendarSource('source-1');
+
+      expect(mockRecordAuditEvent).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ removed: 0, kept: 0 });
+    });
+  });
+
+  describe('fetching', () => {
+    it('should send the decrypted password through the public-address dispatcher', async () => {
+      serve(feed());
+      withSource({ username: 'board', password: encryptSecret('s3cret') });
+
+      await syncCalendarSource('source-1');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://calendar.example.com/board.ics', expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: `Basic ${Buffer.from('board:s3cret').toString('base64')}` }),
+        dispatcher: expect.anything(),
+        redirect: 'error',
+      }));
+      expect(mockPrisma.calendarSource.update).not.toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ password: expect.anything() }),
+      }));
+    });
+
+    it('should encrypt a password stored before encryption', async () => {
+      serve(feed());
+      withSource({ username: 'board', password: 's3cret' });
+
+      await syncCalendarSource('source-1');
+
+      expect(mockPrisma.calendarSource.update).toHaveBeenCalledWith({
+        where: { id: 'source-1' },
+        data: { password: expect.stringMatching(/^enc:v1:/) },
+      });
+    });
+
+    it('should refuse to send credentials over plain http', async () => {
+      serve(feed());
+      withSource({ url: 'http://calendar.example.com/board.ics', username: 'board', password: encryptSecret('s3cret') });
+
+      await expect(syncCalendarSource('source-1')).rejects.toThrow('Calendars with a username or password must use https');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should not fetch addresses inside the network', async () => {
+      serve(feed());
+      withSource({ url: 'http://169.254.169.254/latest/meta-data/' });
+
+      await expect(syncCalendarSource('source-1')).rejects.toThrow('Calendar refused: 169.254.169.254 is not a public address');
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockPrisma.calendarSource.update).toHaveBeenCalledWith({
+        where: { id: 'source-1' },
+        data: { lastSyncError: 'Calendar refused: 169.254.169.254 is not a public address' },
+      });
+    });
+
+    it('should refuse feeds past the size limit', async () => {
+      mockFetch.mockImplementation(async () => new Response('', { headers: { 'content-length': String(50 * 1024 * 1024) } }));
+
+      await expect(syncCalendarSource('source-1')).rejects.toThrow('Calendar refused: Response larger than');
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for Meeting Work Routing
+ *
+ * Covers running actions locally, claiming unowned meetings, and forwarding
+ * work to the replica that owns the meeting over the cluster bus.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import type { LocalBus } from '../../../services/cluster/bus';
+
+const { mockPrisma, sharedBus } = vi.hoisted(() => ({
+  mockPrisma: {
+    $queryRaw: vi.fn(),
+    meetingLease: {
+      deleteMany: vi.fn(),
+    },
+  },
+  sharedBus: { current: null as unknown as LocalBus },
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+
+vi.mock('../../../services/cluster/bus', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../services/cluster/bus')>();
+  // An in-process bus that pretends to reach other replicas
+  sharedBus.current = new actual.LocalBus();
+  sharedBus.current.shared = true;
+  return { ...actual, getBus: () => sharedBus.current };
+});
+
+import {
+  ClusterError,
+  onMeetingClaimed,
+  registerMeetingAction,
+  runOnMeetingOwner,
+  startCluster,
+  stopCluster,
+} from '../../../services/cluster/meetings';
+import { INSTANCE_ID, ownsMeeting, releaseMeetingLease } from '../../../services/cluster/leases';
+
+const OTHER_REPLICA = 'other-replica:1';
+
+// Answer $queryRaw by the statement it runs
+function mockLeases(owner: string | null, acquire = false) {
+  mockPrisma.$queryRaw.mockImplementation(async (strings: TemplateStringsArray) => {
+    const sql = strings.join('?');
+    if (sql.includes('INSERT INTO "MeetingLease"')) {
+      return acquire ? [{ ownerId: INSTANCE_ID }] : [];
+    }
+    if (sql.includes('SELECT "ownerId"')) {
+      return owner ? [{ ownerId: owner }] : [];
+    }
+    return [];
+  });
+}
+
+// An action forwarded to the replica that owns the meeting
+interface ForwardedRequest {
+  id: string;
+  action: string;
+  replyTo: string;
+}
+
+type Answer = (request: ForwardedRequest) => { result?: unknown; error?: { message: string; status?: number } };
+
+// How the stand-in owning replica answers forwarded actions
+let otherReplicaAnswer: Answer;
+
+describe('Meeting Work Routing', () => {
+  const action = vi.fn();
+
+  beforeAll(async () => {
+    await startCluster();
+    await sharedBus.current.subscribe(`cluster:rpc:${OTHER_REPLICA}`, (message) => {
+      const request = message as ForwardedRequest;
+      sharedBus.current.publish(`cluster:reply:${request.replyTo}`, { id: request.id, ...otherReplicaAnswer(request) });
+    });
+  });
+
+  afterAll(async () => {
+    await stopCluster();
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockPrisma.meetingLease.deleteMany.mockResolvedValue({ count: 1 });
+    action.mockImplementation((meetingId: string, payload: unknown) => ({ meetingId, payload }));
+    registerMeetingAction('test.action', action);
+    await releaseMeetingLease('meeting-1');
+  });
+
+  it('should run locally when no replica owns the meeting', async () => {
+    mockLeases(null);
+
+    const result = await runOnMeetingOwner('meeting-1', 'test.action', { n: 1 });
+
+    expect(result).toEqual({ meetingId: 'meeting-1', payload: { n: 1 } });
+    expect(ownsMeeting('meeting-1')).toBe(false);
+  });
+
+  it('should claim an unowned meeting and notify claimed handlers first', async () => {
+    mockLeases(null, true);
+    const claimed = vi.fn();
+    const unsubscribe = onMeetingClaimed(claimed);
+
+    await runOnMeetingOwner('meeting-1', 'test.action', {}, { claim: true });
+    unsubscribe();
+
+    expect(ownsMeeting('meeting-1')).toBe(true);
+    expect(claimed).toHaveBeenCalledWith('meeting-1');
+    expect(claimed.mock.invocationCallOrder[0]).toBeLessThan(action.mock.invocationCallOrder[0]);
+  });
+
+  it('should forward the action to the owning replica', async () => {
+    mockLeases(OTHER_REPLICA);
+    otherReplicaAnswer = (request) => ({ result: { servedBy: OTHER_REPLICA, action: request.action } });
+
+    const result = await runOnMeetingOwner('meeting-1', 'test.action', {}, { claim: true });
+
+    expect(result).toEqual({ servedBy: OTHER_REPLICA, action: 'test.action' });
+    expect(action).not.toHaveBeenCalled();
+    expect(ownsMeeting('meeting-1')).toBe(false);
+  });
+
+  it('should surface errors raised on the owning replica', async () => {
+    mockLeases(OTHER_REPLICA);
+    otherReplicaAnswer = () => ({ error: { message: 'Agent not enabled', status: 409 } });
+
+    const result = runOnMeetingOwner('meeting-1', 'test.action');
+
+    await expect(result).rejects.toBeInstanceOf(ClusterError);
+    await expect(result).rejects.toMatchObject({ message: 'Agent not enabled', status: 409 });
+  });
+
+  it('should fail with 503 when the owning replica does not answer', async () => {
+    mockLeases('gone-replica:1');
+
+    const result = runOnMeetingOwner('meeting-1', 'test.action', {}, { timeoutMs: 20 });
+
+    await expect(result).rejects.toBeInstanceOf(ClusterError);
+    await expect(result).rejects.toMatchObject({ status: 503 });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for Document Type Detection & Text Extraction
+ *
+ * Builds minimal Office documents in memory with JSZip and checks that
+ * the type is detected from the bytes, the text comes out readable, and
+ * archives that unpack to too much are refused.
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  detectFileType,
+  extractText,
+  decodeXmlEntities,
+  declaredUnpackedSize,
+  DocumentTooLargeError,
+  UnsupportedDocumentError,
+} from '../../../services/documents/extraction';
+
+async function buildZip(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function buildDocx(): Promise<Buffer> {
+  return buildZip({
+    'word/document.xml': `<w:document><w:body>
+      <w:p><w:r><w:t>Q3 Financial Review</w:t></w:r></w:p>
+      <w:p><w:r><w:t xml:space="preserve">Revenue </w:t></w:r><w:r><w:t>up 12% &amp; margins stable</w:t></w:r></w:p>
+      <w:p><w:r><w:br w:type="page"/></w:r></w:p>
+      <w:p><w:r><w:t>Appendix</w:t></w:r></w:p>
+    </w:body></w:document>`,
+  });
+}
+
+function buildPptx(): Promise<Buffer> {
+  return buildZip({
+    'ppt/presentation.xml': '<p:presentation/>',
+    'ppt/slides/slide2.xml': '<p:sld><a:p><a:r><a:t>Risks</a:t></a:r></a:p></p:sld>',
+    'ppt/slides/slide1.xml': '<p:sld><a:p><a:r><a:t>Strategy 2026</a:t></a:r></a:p></p:sld>',
+  });
+}
+
+function buildXlsx(): Promise<Buffer> {
+  return buildZip({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Budget" sheetId="1"/></sheets></workbook>',
+    'xl/sharedStrings.xml': '<sst><si><t>Line item</t></si><si><t>Amount</t></si><si><t>Marketing</t></si></sst>',
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>
+      <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>
+      <row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>250000</v></c></row>
+      <row r="3"><c r="A3"/></row>
+    </sheetData></worksheet>`,
+  });
+}
+
+// Overwrite the unpacked size every central directory entry declares
+function declareUnpackedSize(zip: Buffer, size: number): Buffer {
+  const patched = Buffer.from(zip);
+  for (let at = 0; at <= patched.length - 4; at++) {
+    if (patched.readUInt32LE(at) === 0x02014b50) {
+      patched.writeUInt32LE(size, at + 24);
+    }
+  }
+  return patched;
+}
+
+describe('Document Extraction', () => {
+  describe('detectFileType', () => {
+    it('should detect PDF from the magic bytes', async () => {
+      const result = await detectFileType(Buffer.from('%PDF-1.7\n...'));
+
+      expect(result).toEqual({ type: 'PDF', mimeType: 'application/pdf', extension: 'pdf' });
+    });
+
+    it('should detect Office documents from their ZIP contents', async () => {
+      expect((await detectFileType(await buildDocx())).type).toBe('DOC');
+      expect((await detectFileType(await buildPptx())).type).toBe('PRESENTATION');
+      expect((await detectFileType(await buildXlsx())).type).toBe('SPREADSHEET');
+    });
+
+    it('should reject other files', async () => {
+      await expect(detectFileType(Buffer.from('MZ executable'))).rejects.toBeInstanceOf(UnsupportedDocumentError);
+    });
+
+    it('should reject ZIP archives that are not Office documents', async () => {
+      const zip = await buildZip({ 'readme.txt': 'hello' });
+
+      await expect(detectFileType(zip)).rejects.toMatchObject({ status: 415 });
+    });
+  });
+
+  describe('extractText', () => {
+    it('should extract paragraphs and count page breaks in DOCX', async () => {
+      const result = await extractText(await buildDocx(), 'DOC');
+
+      expect(result.text).toBe('Q3 Financial Review\nRevenue up 12% & margins stable\n\nAppendix');
+      expect(result.pageCount).toBe(2);
+    });
+
+    it('should extract slides in order from PPTX', async () => {
+      const result = await extractText(await buildPptx(), 'PRESENTATION');
+
+      expect(result.text).toBe('Slide 1\nStrategy 2026\n\nSlide 2\nRisks');
+      expect(result.pageCount).toBe(2);
+    });
+
+    it('should extract sheets as tab-separated rows from XLSX', async () => {
+      const result = await extractText(await buildXlsx(), 'SPREADSHEET');
+
+      expect(result.text).toBe('Sheet: Budget\nLine item\tAmount\nMarketing\t250000');
+      expect(result.pageCount).toBe(1);
+    });
+
+    it('should match sheet names to their parts through the workbook relationships', async () => {
+      const xlsx = await buildZip({
+        'xl/workbook.xml': `<workbook><sheets>
+          <sheet name="Summary" sheetId="2" r:id="rId2"/>
+          <sheet name="Chart" sheetId="3" r:id="rId3"/>
+          <sheet name="Budget" sheetId="1" r:id="rId1"/>
+        </sheets></workbook>`,
+        'xl/_rels/workbook.xml.rels': `<Relationships>
+          <Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>
+          <Relationship Id="rId2" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/>
+          <Relationship Id="rId3" Type="chartsheet" Target="chartsheets/sheet1.xml"/>
+        </Relationships>`,
+        'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Marketing</t></is></c></row></sheetData></worksheet>',
+        'xl/worksheets/sheet2.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Total</t></is></c></row></sheetData></worksheet>',
+        'xl/chartsheets/sheet1.xml': '<chartsheet/>',
+      });
+
+      const result = await extractText(xlsx, 'SPREADSHEET');
+
+      expect(result.text).toBe('Sheet: Summary\nTotal\n\nSheet: Budget\nMarketing');
+      expect(result.pageCount).toBe(2);
+    });
+
+    it('should refuse to extract linked documents', async () => {
+      await expect(extractText(Buffer.alloc(0), 'LINK')).rejects.toBeInstanceOf(UnsupportedDocumentError);
+    });
+  });
+
+  describe('unpacked size', () => {
+    it('should add up the sizes the archive declares', async () => {
+      const zip = await buildZip({ 'word/document.xml': 'x'.repeat(1000), 'docProps/app.xml': 'y'.repeat(24) });
+
+      expect(declaredUnpackedSize(zip)).toBe(1024);
+      expect(declaredUnpackedSize(Buffer.from('%PDF-1.7'))).toBe(0);
+    });
+
+    it('should refuse archives that declare too much before unpacking them', async () => {
+      const bomb = declareUnpackedSize(await buildDocx(), 0xfffffff0);
+
+      await expect(detectFileType(bomb)).rejects.toBeInstanceOf(DocumentTooLargeError);
+      await expect(extractText(bomb, 'DOC')).rejects.toMatchObject({ status: 413 });
+    });
+
+    it('should refuse parts that unpack to more than the archive declares', async () => {
+      const understated = declareUnpackedSize(await buildDocx(), 10);
+
+      await expect(extractText(understated, 'DOC')).rejects.toBeInstanceOf(UnsupportedDocumentError);
+    });
+  });
+
+  describe('decodeXmlEntities', () => {
+    it('should decode named and numeric entities', () => {
+      expect(decodeXmlEntities('&lt;b&gt; &quot;R&amp;D&quot; &#8364;5 &#x2014;')).toBe('<b> "R&D" €5 —');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for the Background Job Queue
+ *
+ * Covers idempotent enqueueing, retry backoff, how the worker records
+ * successful, retryable and permanent failures, and the lock it renews
+ * while a job runs.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Job, Prisma } from '@prisma/client';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    job: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+
+import { enqueueJob, LOCK_RENEW_INTERVAL_MS, onJobEnqueued, retryDelay } from '../../../services/jobs/queue';
+import { registerJobHandler, runJob } from '../../../services/jobs/worker';
+
+function claimedJob(overrides: Partial<Job> = {}): Job {
+  const now = new Date();
+  return {
+    id: 'job-1',
+    type: 'test.job',
+    status: 'RUNNING',
+    payload: { meetingId: 'meeting-1' },
+    result: null,
+    error: null,
+    progress: 0,
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: now,
+    idempotencyKey: null,
+    organizationId: null,
+    meetingId: null,
+    lockedBy: 'worker-1',
+    lockedAt: now,
+    startedAt: now,
+    completedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+describe('Job Queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.job.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('enqueueJob', () => {
+    it('should return the existing job for a known idempotency key', async () => {
+      const existing = { id: 'job-1', idempotencyKey: 'summary.generate:meeting-1:abc' };
+      mockPrisma.job.findUnique.mockResolvedValue(existing);
+
+      const job = await enqueueJob({ type: 'summary.generate', payload: {}, idempotencyKey: existing.idempotencyKey });
+
+      expect(job).toBe(existing);
+      expect(mockPrisma.job.create).not.toHaveBeenCalled();
+    });
+
+    it('should return the winning job when a concurrent request created the key first', async () => {
+      const winner = { id: 'job-2' };
+      mockPrisma.job.findUnique.mockResolvedValue(null);
+      mockPrisma.job.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+      mockPrisma.job.findUniqueOrThrow.mockResolvedValue(winner);
+
+      const job = await enqueueJob({ type: 'summary.generate', payload: {}, idempotencyKey: 'key' });
+
+      expect(job).toBe(winner);
+    });
+
+    it('should notify in-process workers of new jobs', async () => {
+      const handler = vi.fn();
+      const unsubscribe = onJobEnqueued(handler);
+      mockPrisma.job.create.mockResolvedValue({ id: 'job-3', type: 'summary.generate' });
+
+      await enqueueJob({ type: 'summary.generate', payload: {} });
+      unsubscribe();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retryDelay', () => {
+    it('should double the delay after each attempt up to a cap', () => {
+      expect(retryDelay(1)).toBe(5000);
+      expect(retryDelay(2)).toBe(10000);
+      expect(retryDelay(3)).toBe(20000);
+      expect(retryDelay(20)).toBe(10 * 60 * 1000);
+    });
+  });
+
+  describe('runJob', () => {
+    it('should store the handler result and report progress', async () => {
+      registerJobHandler<{ meetingId: string }>('test.job', async ({ payload, reportProgress }) => {
+        await reportProgress(50);
+        return { meetingId: payload.meetingId };
+      });
+
+      await runJob(claimedJob());
+
+      expect(mockPrisma.job.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', status: 'RUNNING', lockedBy: 'worker-1' },
+        data: expect.objectContaining({ progress: 50 }),
+      });
+      expect(mockPrisma.job.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'job-1', status: 'RUNNING', lockedBy: 'worker-1' },
+        data: expect.objectContaining({ status: 'COMPLETED', result: { meetingId: 'meeting-1' } }),
+      });
+    });
+
+    it('should re-queue a failed attempt with backoff', async () => {
+      registerJobHandler('test.job', async () => {
+        throw new Error('Recall.ai timeout');
+      });
+      const before = Date.now();
+
+      await runJob(claimedJob({ attempts: 2 }));
+
+      const { data } = mockPrisma.job.updateMany.mock.calls[0][0];
+      expect(data).toMatchObject({ status: 'QUEUED', error: 'Recall.ai timeout', lockedBy: null });
+      expect(data.runAt.getTime()).toBeGreaterThanOrEqual(before + 10000);
+    });
+
+    it('should fail for good on the last attempt or a client error', async () => {
+      registerJobHandler('test.job', async () => {
+        throw Object.assign(new Error('Meeting has no transcript to summarize'), { status: 422 });
+      });
+
+      await runJob(claimedJob({ attempts: 1 }));
+
+      expect(mockPrisma.job.updateMany.mock.calls[0][0].data).toMatchObject({
+        status: 'FAILED',
+        error: 'Meeting has no transcript to summarize',
+      });
+    });
+
+    it('should renew the lock while the handler runs and stop once it returns', async () => {
+      vi.useFakeTimers();
+      let finish!: () => void;
+      registerJobHandler('test.job', () => new Promise<void>((resolve) => { finish = resolve; }));
+
+      const run = runJob(claimedJob());
+      await vi.advanceTimersByTimeAsync(LOCK_RENEW_INTERVAL_MS * 2);
+      const renewals = mockPrisma.job.updateMany.mock.calls.filter(([{ data }]) => Object.keys(data).join() === 'lockedAt');
+      finish();
+      await run;
+      await vi.advanceTimersByTimeAsync(LOCK_RENEW_INTERVAL_MS * 2);
+      vi.useRealTimers();
+
+      expect(renewals).toHaveLength(2);
+      expect(renewals[0][0].where).toEqual({ id: 'job-1', status: 'RUNNING', lockedBy: 'worker-1' });
+      expect(mockPrisma.job.updateMany).toHaveBeenCalledTimes(3);
+      expect(mockPrisma.job.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'COMPLETED' }),
+      }));
+    });
+  });
+});
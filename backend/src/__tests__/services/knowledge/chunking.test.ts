@@ -0,0 +1,71 @@
+/**
+ * Tests for Knowledge Chunking & Scoring
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chunkText,
+  tokenize,
+  lexicalScore,
+  cosineSimilarity,
+} from '../../../services/knowledge/chunking';
+
+describe('Knowledge Chunking', () => {
+  describe('chunkText', () => {
+    it('should keep short text in a single chunk', () => {
+      expect(chunkText('Capex for Q3 is $12M.\n\nApproved by the committee.')).toEqual([
+        'Capex for Q3 is $12M.\n\nApproved by the committee.',
+      ]);
+    });
+
+    it('should return no chunks for empty text', () => {
+      expect(chunkText('  \n\n ')).toEqual([]);
+    });
+
+    it('should split long text into chunks no longer than the size', () => {
+      const paragraphs = Array.from({ length: 10 }, (_, i) => `Paragraph ${i} ${'word '.repeat(15).trim()}.`);
+      const chunks = chunkText(paragraphs.join('\n\n'), { size: 200, overlap: 0 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.length).toBeLessThanOrEqual(200);
+      }
+      expect(chunks.join('\n\n')).toContain('Paragraph 9');
+    });
+
+    it('should carry overlap from the previous chunk', () => {
+      const text = ['Alpha section about revenue growth.', 'Beta section about capital expenditure.', 'Gamma section about hiring plans.'].join('\n\n');
+      const chunks = chunkText(text, { size: 80, overlap: 30 });
+
+      expect(chunks[1]).toContain('capital expenditure');
+      expect(chunks[1].startsWith('Beta')).toBe(false);
+    });
+
+    it('should hard-split a paragraph with no sentence breaks', () => {
+      const chunks = chunkText('x'.repeat(250), { size: 100, overlap: 0 });
+
+      expect(chunks).toEqual(['x'.repeat(100), 'x'.repeat(100), 'x'.repeat(50)]);
+    });
+  });
+
+  describe('scoring', () => {
+    it('should drop stop words and short tokens when tokenizing', () => {
+      expect(tokenize('What did the pack say about Q3 capex?')).toEqual(['q3', 'capex']);
+    });
+
+    it('should score the share of query terms found in the text', () => {
+      const terms = tokenize('Q3 capex budget');
+
+      expect(lexicalScore(terms, 'The Q3 capex plan was approved')).toBeCloseTo(2 / 3);
+      expect(lexicalScore(terms, 'Unrelated passage')).toBe(0);
+      expect(lexicalScore([], 'Anything')).toBe(0);
+    });
+
+    it('should compute cosine similarity', () => {
+      expect(cosineSimilarity([1, 0], [1, 0])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+      expect(cosineSimilarity([], [])).toBe(0);
+      expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+    });
+  });
+});
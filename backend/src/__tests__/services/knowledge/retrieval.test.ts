@@ -0,0 +1,152 @@
+/**
+ * Tests for Knowledge Retrieval
+ *
+ * Covers ranking (vector and keyword fallback), the current-meeting boost
+ * and turning cited passages into chat sources (and out of spoken answers).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma, mockOpenAI } = vi.hoisted(() => ({
+  mockPrisma: {
+    meeting: { findUnique: vi.fn() },
+    knowledgeChunk: { findMany: vi.fn() },
+  },
+  mockOpenAI: {
+    isConfigured: vi.fn(),
+    createEmbeddings: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('../../../services/openai/client', () => mockOpenAI);
+
+import {
+  searchKnowledge,
+  extractCitations,
+  stripCitations,
+  stripCitationsStream,
+  toChatSource,
+  RetrievedChunk,
+} from '../../../services/knowledge/retrieval';
+
+function chunk(overrides: Record<string, unknown>) {
+  return {
+    id: 'chunk-1',
+    sourceType: 'DOCUMENT',
+    meetingId: 'meeting-1',
+    documentId: 'doc-1',
+    title: 'Q3 Board Pack',
+    reference: 'Part 1 of 3',
+    content: '',
+    embedding: [],
+    meeting: { title: 'Q3 Board Meeting' },
+    ...overrides,
+  };
+}
+
+describe('Knowledge Retrieval', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.meeting.findUnique.mockResolvedValue({ organizationId: 'org-1' });
+  });
+
+  describe('searchKnowledge', () => {
+    it('should rank by keyword overlap when OpenAI is not configured', async () => {
+      mockOpenAI.isConfigured.mockResolvedValue(false);
+      mockPrisma.knowledgeChunk.findMany.mockResolvedValue([
+        chunk({ id: 'a', title: 'People Update', content: 'Headcount plan for the year' }),
+        chunk({ id: 'b', content: 'Q3 capex came in at $12M against a $10M budget' }),
+        chunk({ id: 'c', content: 'Capex guidance unchanged' }),
+      ]);
+
+      const results = await searchKnowledge('meeting-1', 'What did the pack say about Q3 capex?');
+
+      expect(results.map((r) => r.id)).toEqual(['b', 'c']);
+      expect(mockOpenAI.createEmbeddings).not.toHaveBeenCalled();
+      expect(mockPrisma.knowledgeChunk.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { organizationId: 'org-1' } })
+      );
+    });
+
+    it('should rank by embedding similarity and boost the current meeting', async () => {
+      mockOpenAI.isConfigured.mockResolvedValue(true);
+      mockOpenAI.createEmbeddings.mockResolvedValue([[1, 0]]);
+      mockPrisma.knowledgeChunk.findMany.mockResolvedValue([
+        chunk({ id: 'past', meetingId: 'meeting-0', embedding: [0.9, 0.1] }),
+        chunk({ id: 'current', meetingId: 'meeting-1', embedding: [0.85, 0.2] }),
+        chunk({ id: 'unrelated', embedding: [0, 1] }),
+      ]);
+
+      const results = await searchKnowledge('meeting-1', 'capex');
+
+      expect(results.map((r) => r.id)).toEqual(['current', 'past']);
+    });
+
+    it('should fall back to keywords if embedding the question fails', async () => {
+      mockOpenAI.isConfigured.mockResolvedValue(true);
+      mockOpenAI.createEmbeddings.mockRejectedValue(new Error('rate limited'));
+      mockPrisma.knowledgeChunk.findMany.mockResolvedValue([
+        chunk({ id: 'a', content: 'Capex overview', embedding: [1, 0] }),
+      ]);
+
+      const results = await searchKnowledge('meeting-1', 'capex');
+
+      expect(results.map((r) => r.id)).toEqual(['a']);
+    });
+
+    it('should return nothing for an unknown meeting', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue(null);
+
+      expect(await searchKnowledge('missing', 'capex')).toEqual([]);
+      expect(mockPrisma.knowledgeChunk.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('citations', () => {
+    it('should extract cited source numbers within range', () => {
+      expect(extractCitations('Capex was $12M [2]. Budget was $10M [1, 2] [7].', 3)).toEqual([1, 2]);
+      expect(extractCitations('No sources here.', 3)).toEqual([]);
+    });
+
+    it('should strip citation markers for speech', () => {
+      expect(stripCitations('Capex was $12M [2], over budget [1, 3].')).toBe('Capex was $12M, over budget.');
+    });
+
+    it('should strip citation markers split across streamed pieces', async () => {
+      async function* pieces() {
+        yield* [' Capex was $12M ', '[', '2', '], over budget [1,', ' 3]. See [2023 figures]', ' [4'];
+      }
+      const out: string[] = [];
+      for await (const piece of stripCitationsStream(pieces())) {
+        out.push(piece);
+      }
+
+      expect(out.join('')).toBe('Capex was $12M, over budget. See [2023 figures] [4');
+      expect(out.join('')).toBe(stripCitations('Capex was $12M [2], over budget [1, 3]. See [2023 figures] [4'));
+    });
+
+    it('should label documents from other meetings with the meeting title', () => {
+      const retrieved: RetrievedChunk = {
+        id: 'chunk-9',
+        sourceType: 'DOCUMENT',
+        meetingId: 'meeting-0',
+        meetingTitle: 'Q2 Board Meeting',
+        documentId: 'doc-9',
+        title: 'Capex Paper',
+        reference: null,
+        content: 'Capex plan',
+        score: 0.8,
+      };
+
+      expect(toChatSource(retrieved, 'meeting-1')).toEqual({
+        id: 'chunk-9',
+        type: 'document',
+        name: 'Capex Paper (Q2 Board Meeting)',
+        meetingId: 'meeting-0',
+        documentId: 'doc-9',
+        excerpt: 'Capex plan',
+      });
+    });
+  });
+});
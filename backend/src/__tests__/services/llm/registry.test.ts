@@ -0,0 +1,175 @@
+/**
+ * Tests for the LLM Provider Registry
+ *
+ * Covers choosing a provider per organization from its settings, keeping
+ * platform keys and other organizations' keys out of reach, refusing to fall back when an organization's
+ * provider is misconfigured, whether a scope has a usable provider, and the
+ * deterministic fake provider.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    meeting: { findUnique: vi.fn() },
+    organization: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+
+import {
+  getFakeProvider,
+  getLlmProvider,
+  hasOwnLlmProvider,
+  invalidateLlmProviders,
+  isDefaultProviderConfigured,
+  isLlmProviderConfigured,
+  LlmProviderError,
+  OpenAIProvider,
+  organizationProviderConfig,
+} from '../../../services/llm';
+import { createCompletion, createEmbeddings, isConfigured } from '../../../services/openai/client';
+
+function withSettings(settings: unknown) {
+  mockPrisma.organization.findUnique.mockResolvedValue({ slug: 'health', settings });
+}
+
+describe('LLM Provider Registry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateLlmProviders();
+    getFakeProvider().reset();
+    mockPrisma.meeting.findUnique.mockResolvedValue({ organizationId: 'org-1' });
+    withSettings({});
+  });
+
+  afterEach(() => {
+    delete process.env.LLM_API_KEY_HEALTH;
+    process.env.LLM_PROVIDER = 'fake';
+    process.env.OPENAI_API_KEY = 'test-openai-key';
+    invalidateLlmProviders();
+  });
+
+  describe('getLlmProvider', () => {
+    it('should use the default provider for organizations without their own', async () => {
+      const provider = await getLlmProvider({ organizationId: 'org-1' });
+
+      expect(provider).toBe(getFakeProvider());
+      expect(isDefaultProviderConfigured()).toBe(true);
+      expect(await hasOwnLlmProvider({ organizationId: 'org-1' })).toBe(false);
+    });
+
+    it('should resolve a meeting to its organization\'s provider', async () => {
+      process.env.LLM_API_KEY_HEALTH = 'local-key';
+      withSettings({
+        timezone: 'Asia/Dubai',
+        llm: { provider: 'openai-compatible', baseUrl: 'http://llm.health.internal:8000/v1', apiKeyEnv: 'LLM_API_KEY_HEALTH', model: 'llama-3.1-70b' },
+      });
+
+      const provider = await getLlmProvider({ meetingId: 'meeting-1' });
+
+      expect(provider).toBeInstanceOf(OpenAIProvider);
+      expect(provider.kind).toBe('openai-compatible');
+      expect(provider.model).toBe('llama-3.1-70b');
+      expect(mockPrisma.meeting.findUnique).toHaveBeenCalledWith({ where: { id: 'meeting-1' }, select: { organizationId: true } });
+      expect(await hasOwnLlmProvider({ meetingId: 'meeting-1' })).toBe(true);
+    });
+
+    it('should cache providers until they are invalidated', async () => {
+      await getLlmProvider({ organizationId: 'org-1' });
+      await getLlmProvider({ organizationId: 'org-1' });
+      expect(mockPrisma.organization.findUnique).toHaveBeenCalledTimes(1);
+
+      invalidateLlmProviders('org-1');
+      await getLlmProvider({ organizationId: 'org-1' });
+      expect(mockPrisma.organization.findUnique).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail rather than fall back when the organization\'s provider is misconfigured', async () => {
+      withSettings({ llm: { provider: 'azure', baseUrl: 'https://uae-north.openai.azure.com', apiKeyEnv: 'LLM_API_KEY_HEALTH' } });
+
+      await expect(getLlmProvider({ organizationId: 'org-1' })).rejects.toBeInstanceOf(LlmProviderError);
+      await expect(createCompletion([{ role: 'user', content: 'Hello' }], { organizationId: 'org-1' }))
+        .rejects.toThrow('Azure OpenAI needs an endpoint (baseUrl) and an API key');
+      expect(getFakeProvider().calls).toHaveLength(0);
+    });
+  });
+
+  describe('isLlmProviderConfigured', () => {
+    it('should accept an organization\'s own provider when there is no default key', async () => {
+      process.env.LLM_PROVIDER = 'openai';
+      delete process.env.OPENAI_API_KEY;
+      invalidateLlmProviders();
+      process.env.LLM_API_KEY_HEALTH = 'local-key';
+      withSettings({ llm: { provider: 'openai-compatible', baseUrl: 'http://llm.health.internal:8000/v1', apiKeyEnv: 'LLM_API_KEY_HEALTH' } });
+
+      expect(isDefaultProviderConfigured()).toBe(false);
+      expect(await isConfigured()).toBe(false);
+      expect(await isConfigured({ organizationId: 'org-1' })).toBe(true);
+      expect(await isConfigured({ meetingId: 'meeting-1' })).toBe(true);
+    });
+
+    it('should refuse an organization whose provider is misconfigured', async () => {
+      withSettings({ llm: { provider: 'openai-compatible' } });
+
+      expect(await isLlmProviderConfigured({ organizationId: 'org-1' })).toBe(false);
+      expect(await isLlmProviderConfigured()).toBe(true);
+    });
+  });
+
+  describe('organizationProviderConfig', () => {
+    it('should only accept keys named LLM_API_KEY_*', () => {
+      expect(() => organizationProviderConfig({
+        llm: { provider: 'openai-compatible', baseUrl: 'https://attacker.example.com', apiKeyEnv: 'OPENAI_API_KEY' },
+      }, 'health')).toThrow('Must name an environment variable starting with LLM_API_KEY_');
+      expect(() => organizationProviderConfig({ llm: { provider: 'watson' } }, 'health')).toThrow(LlmProviderError);
+    });
+
+    it('should refuse a key belonging to another organization', () => {
+      const llm = { provider: 'openai-compatible', baseUrl: 'https://attacker.example.com', apiKeyEnv: 'LLM_API_KEY_AD_DEPT_FINANCE' };
+
+      expect(() => organizationProviderConfig({ llm }, 'ad-dept-health'))
+        .toThrow('apiKeyEnv must be the organization\'s own key, LLM_API_KEY_AD_DEPT_HEALTH');
+      expect(organizationProviderConfig({ llm }, 'ad-dept-finance')).toEqual(llm);
+    });
+
+    it('should only lend the platform key to api.openai.com', () => {
+      expect(organizationProviderConfig({ llm: { provider: 'openai', model: 'gpt-4o' } }, 'health'))
+        .toEqual({ provider: 'openai', model: 'gpt-4o', apiKeyEnv: 'OPENAI_API_KEY' });
+      expect(() => organizationProviderConfig({ llm: { provider: 'openai', baseUrl: 'https://proxy.example.com/v1' } }, 'health'))
+        .toThrow('a custom baseUrl needs the organization\'s own key, LLM_API_KEY_HEALTH');
+      expect(organizationProviderConfig({ theme: 'dark' }, 'health')).toBeNull();
+    });
+  });
+
+  describe('fake provider', () => {
+    it('should answer deterministically through the client helpers', async () => {
+      const fake = getFakeProvider();
+      fake.queueResponses({ insights: [] });
+
+      expect(await createCompletion([{ role: 'user', content: 'Any risks?' }], { responseFormat: 'json', meetingId: 'meeting-1' }))
+        .toBe('{"insights":[]}');
+      expect(await createCompletion([{ role: 'user', content: 'Any risks?' }], { responseFormat: 'json' })).toBe('{}');
+      expect(await createCompletion([{ role: 'user', content: 'Any risks?' }], { systemPrompt: 'Be brief.' }))
+        .toBe('Fake response to: Any risks?');
+
+      expect(fake.calls[2]).toMatchObject({
+        type: 'complete',
+        messages: [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'Any risks?' }],
+      });
+    });
+
+    it('should embed texts sharing words close together', async () => {
+      const [budget, budgetAgain, weather] = await createEmbeddings([
+        'Approve the capital budget',
+        'The capital budget was approved',
+        'Sunny weather tomorrow',
+      ], { organizationId: 'org-1' });
+      const similarity = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+      expect(budget).toEqual((await createEmbeddings(['Approve the capital budget']))[0]);
+      expect(similarity(budget, budgetAgain)).toBeGreaterThan(similarity(budget, weather));
+    });
+  });
+});
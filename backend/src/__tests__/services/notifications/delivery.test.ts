@@ -0,0 +1,177 @@
+/**
+ * Tests for Notification Delivery
+ *
+ * Covers queuing a rendered email per recipient, preferences, and the
+ * outcome of sending a delivery (sent, skipped without SMTP, failed).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockPrisma, mockEnqueueJob, mockSendMail } = vi.hoisted(() => ({
+  mockPrisma: {
+    user: { findMany: vi.fn() },
+    notificationDelivery: {
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> & { recipient: string } }) => ({ id: `delivery-${data.recipient}`, ...data })),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+  mockEnqueueJob: vi.fn(),
+  mockSendMail: vi.fn(),
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('../../../services/jobs/queue', () => ({ enqueueJob: mockEnqueueJob }));
+vi.mock('../../../services/notifications/smtp', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../services/notifications/smtp')>()),
+  sendMail: mockSendMail,
+}));
+
+import { notify, sendDelivery } from '../../../services/notifications/delivery';
+import { SmtpError } from '../../../services/notifications/smtp';
+import { NotificationContext, renderNotification } from '../../../services/notifications/templates';
+
+const context: NotificationContext = {
+  type: 'ACTION_ASSIGNED',
+  organization: { name: 'Emirates Post', timezone: 'Asia/Dubai' },
+  meeting: { id: 'meeting-1', title: 'Q1 Board Meeting', scheduledStart: new Date('2025-03-10T06:00:00Z') },
+  action: { description: 'Publish the <draft> budget', dueDate: new Date('2025-03-31T00:00:00Z'), priority: 'HIGH' },
+};
+
+const queuedDelivery = {
+  id: 'delivery-1',
+  type: 'ACTION_ASSIGNED',
+  status: 'QUEUED',
+  recipient: 'omar@example.com',
+  recipientName: 'Omar Director',
+  subject: 'Action assigned',
+  text: 'text',
+  html: '<p>html</p>',
+  data: null,
+  messageId: null,
+};
+
+describe('Notification Delivery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.SMTP_HOST = 'localhost';
+  });
+
+  afterEach(() => {
+    delete process.env.SMTP_HOST;
+  });
+
+  describe('renderNotification', () => {
+    it('should render the text and HTML versions of a template', () => {
+      const content = renderNotification(context, 'Omar Director');
+
+      expect(content.subject).toBe('Action assigned: Publish the <draft> budget');
+      expect(content.text).toContain('Dear Omar Director,');
+      expect(content.text).toContain('Due:      31 March 2025');
+      expect(content.text).toContain('View the meeting: http://localhost:3000/meeting-1/summary');
+      expect(content.html).toContain('Publish the &lt;draft&gt; budget');
+      expect(content.html).toContain('href="http://localhost:3000/meeting-1/summary"');
+    });
+
+    it('should link invitations to the board pack', () => {
+      const content = renderNotification({
+        type: 'MEETING_INVITE',
+        organization: context.organization,
+        meeting: { ...context.meeting, scheduledEnd: new Date('2025-03-10T08:00:00Z'), location: 'Board Room' },
+      });
+
+      expect(content.subject).toBe('Invitation: Q1 Board Meeting');
+      expect(content.text).toContain('Hello,');
+      expect(content.text).toContain('When:  10 March 2025 at 10:00–12:00');
+      expect(content.text).toContain('Open the board pack: http://localhost:3000/meeting-1/prepare');
+    });
+  });
+
+  describe('notify', () => {
+    it('should queue one email per address and skip recipients who turned the type off', async () => {
+      mockPrisma.user.findMany.mockResolvedValue([
+        { id: 'user-2', email: 'Eve@Example.com', notificationPreferences: [{ email: false }] },
+      ]);
+
+      const deliveries = await notify({
+        organizationId: 'org-1',
+        meetingId: 'meeting-1',
+        context,
+        recipients: [
+          { email: 'omar@example.com', name: 'Omar Director' },
+          { email: 'OMAR@example.com', name: 'Omar (duplicate)' },
+          { email: 'eve@example.com', name: 'Eve Auditor' },
+          { email: null, name: 'No Address' },
+        ],
+      });
+
+      expect(deliveries.map((d) => [d.recipient, d.status])).toEqual([
+        ['omar@example.com', 'QUEUED'],
+        ['eve@example.com', 'SKIPPED'],
+      ]);
+      expect(mockPrisma.notificationDelivery.create.mock.calls[1][0].data).toMatchObject({
+        userId: 'user-2',
+        error: 'Turned off by the recipient',
+      });
+      expect(mockEnqueueJob).toHaveBeenCalledTimes(1);
+      expect(mockEnqueueJob).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'notification.send',
+        payload: { deliveryId: 'delivery-omar@example.com' },
+        idempotencyKey: 'notification.send:delivery-omar@example.com',
+      }));
+    });
+
+    it('should do nothing without recipients', async () => {
+      expect(await notify({ organizationId: 'org-1', context, recipients: [{ email: '  ' }] })).toEqual([]);
+      expect(mockPrisma.user.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendDelivery', () => {
+    it('should send the email and mark the delivery sent', async () => {
+      mockPrisma.notificationDelivery.findUniqueOrThrow.mockResolvedValue(queuedDelivery);
+      mockSendMail.mockResolvedValue({ messageId: '<m1@example.com>', response: 'Ok' });
+
+      const result = await sendDelivery('delivery-1');
+
+      expect(result).toEqual({ deliveryId: 'delivery-1', status: 'SENT', messageId: '<m1@example.com>' });
+      expect(mockSendMail.mock.calls[0][0]).toMatchObject({
+        to: { email: 'omar@example.com', name: 'Omar Director' },
+        attachments: [],
+      });
+      expect(mockPrisma.notificationDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({ status: 'SENT', messageId: '<m1@example.com>' }),
+      });
+    });
+
+    it('should skip deliveries when no SMTP server is configured', async () => {
+      delete process.env.SMTP_HOST;
+      mockPrisma.notificationDelivery.findUniqueOrThrow.mockResolvedValue(queuedDelivery);
+
+      expect(await sendDelivery('delivery-1')).toEqual({ deliveryId: 'delivery-1', status: 'SKIPPED' });
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+
+    it('should retry transient errors and fail permanent ones', async () => {
+      mockPrisma.notificationDelivery.findUniqueOrThrow.mockResolvedValue(queuedDelivery);
+
+      mockSendMail.mockRejectedValueOnce(new SmtpError('Greeting failed: 421 Try again later', 421));
+      await expect(sendDelivery('delivery-1', false)).rejects.toThrow('421');
+      expect(mockPrisma.notificationDelivery.update.mock.calls[0][0].data).toEqual({
+        error: 'Greeting failed: 421 Try again later',
+      });
+
+      mockSendMail.mockRejectedValueOnce(new SmtpError('RCPT TO failed: 550 Mailbox unavailable', 550));
+      expect(await sendDelivery('delivery-1', false)).toEqual({ deliveryId: 'delivery-1', status: 'FAILED' });
+      expect(mockPrisma.notificationDelivery.update.mock.calls[1][0].data).toMatchObject({ status: 'FAILED' });
+    });
+
+    it('should not send a delivery twice', async () => {
+      mockPrisma.notificationDelivery.findUniqueOrThrow.mockResolvedValue({ ...queuedDelivery, status: 'SENT', messageId: '<m1@example.com>' });
+
+      expect(await sendDelivery('delivery-1')).toEqual({ deliveryId: 'delivery-1', status: 'SENT', messageId: '<m1@example.com>' });
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+  });
+});
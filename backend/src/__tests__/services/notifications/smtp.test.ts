@@ -0,0 +1,205 @@
+/**
+ * Tests for the SMTP Transport
+ *
+ * Runs the client against a fake SMTP server on localhost: the command
+ * sequence, authentication (and refusing it without TLS), dot-stuffing, MIME
+ * structure and errors.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { SmtpConfig, SmtpError, buildMimeMessage, dotStuff, formatAddress, sendMail } from '../../../services/notifications/smtp';
+
+// Minimal SMTP server: records commands and message data
+let server: net.Server;
+let port: number;
+let commands: string[] = [];
+let messages: string[] = [];
+
+function startServer(): Promise<void> {
+  return new Promise((resolve) => {
+    server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 fake.test ESMTP\r\n');
+
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 2.0.0 Ok: queued\r\n');
+        }
+
+        let index: number;
+        while (!inData && (index = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          commands.push(line);
+
+          if (line.startsWith('EHLO')) {
+            socket.write('250-fake.test\r\n250-AUTH PLAIN LOGIN\r\n250 SIZE 10240000\r\n');
+          } else if (line.startsWith('AUTH PLAIN')) {
+            socket.write('235 2.7.0 Authentication successful\r\n');
+          } else if (line.startsWith('MAIL FROM')) {
+            socket.write('250 2.1.0 Ok\r\n');
+          } else if (line.startsWith('RCPT TO')) {
+            socket.write(line.includes('unknown@') ? '550 5.1.1 Mailbox unavailable\r\n' : '250 2.1.5 Ok\r\n');
+          } else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+          } else if (line === 'QUIT') {
+            socket.end('221 2.0.0 Bye\r\n');
+          } else {
+            socket.write('502 5.5.2 Command not recognized\r\n');
+          }
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      port = (server.address() as AddressInfo).port;
+      resolve();
+    });
+  });
+}
+
+function config(overrides: Partial<SmtpConfig> = {}): SmtpConfig {
+  return {
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    from: 'Board Observer <no-reply@example.com>',
+    timeoutMs: 5000,
+    rejectUnauthorized: true,
+    allowInsecureAuth: false,
+    ...overrides,
+  };
+}
+
+// Decoded body of the MIME part with a content type
+function partBody(message: string, contentType: string): string {
+  const start = message.indexOf(`Content-Type: ${contentType}`);
+  const body = message.slice(message.indexOf('\r\n\r\n', start) + 4);
+  return Buffer.from(body.slice(0, body.indexOf('\r\n--')).replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+describe('SMTP Transport', () => {
+  beforeAll(startServer);
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+  beforeEach(() => {
+    commands = [];
+    messages = [];
+  });
+
+  it('should send a message through the SMTP conversation', async () => {
+    const result = await sendMail({
+      to: { email: 'omar@example.com', name: 'Omar Director' },
+      subject: 'Invitation: Q1 Board Meeting',
+      text: 'Dear Omar,\n\nYou are invited.',
+      html: '<p>Dear Omar,</p>',
+    }, config({ user: 'mailer', password: 'secret', allowInsecureAuth: true }));
+
+    expect(commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+      'MAIL FROM:<no-reply@example.com>',
+      'RCPT TO:<omar@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(result.messageId).toMatch(/^<[0-9a-f-]+@example\.com>$/);
+    expect(result.response).toBe('2.0.0 Ok: queued');
+
+    const [message] = messages;
+    expect(message).toContain('From: "Board Observer" <no-reply@example.com>');
+    expect(message).toContain('To: "Omar Director" <omar@example.com>');
+    expect(message).toContain(`Message-ID: ${result.messageId}`);
+    expect(partBody(message, 'text/plain')).toBe('Dear Omar,\n\nYou are invited.');
+    expect(partBody(message, 'text/html')).toBe('<p>Dear Omar,</p>');
+  });
+
+  it('should not send the password without TLS unless allowed', async () => {
+    const error = await sendMail({
+      to: { email: 'omar@example.com' },
+      subject: 'Invitation',
+      text: 'Hello',
+      html: '<p>Hello</p>',
+    }, config({ user: 'mailer', password: 'secret' })).catch((err) => err);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.message).toContain('refusing to send the password unencrypted');
+    expect(commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+    expect(messages).toEqual([]);
+  });
+
+  it('should fail with the server reply when a recipient is refused', async () => {
+    const error = await sendMail({
+      to: { email: 'unknown@example.com' },
+      subject: 'Test',
+      text: 'Test',
+      html: '<p>Test</p>',
+    }, config()).catch((err) => err);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.message).toBe('RCPT TO failed: 550 5.1.1 Mailbox unavailable');
+    expect(error.permanent).toBe(true);
+    expect(commands).not.toContain('DATA');
+  });
+
+  it('should fail when the server cannot be reached', async () => {
+    const closed = net.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', () => resolve()));
+    const unusedPort = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const error = await sendMail({
+      to: { email: 'omar@example.com' },
+      subject: 'Test',
+      text: 'Test',
+      html: '<p>Test</p>',
+    }, config({ port: unusedPort })).catch((err) => err);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.message).toContain('Could not connect');
+    expect(error.permanent).toBe(false);
+  });
+
+  describe('MIME', () => {
+    it('should attach files next to the text and HTML alternatives', () => {
+      const message = buildMimeMessage({
+        to: { email: 'omar@example.com' },
+        subject: 'Minutes: Q1 Board Meeting',
+        text: 'Attached.',
+        html: '<p>Attached.</p>',
+        attachments: [{ filename: 'minutes.pdf', contentType: 'application/pdf', content: Buffer.from('%PDF-1.4') }],
+      }, 'no-reply@example.com', '<id@example.com>');
+
+      expect(message).toMatch(/^Content-Type: multipart\/mixed; boundary="/m);
+      expect(message).toMatch(/Content-Type: multipart\/alternative; boundary="/);
+      expect(message).toContain('Content-Disposition: attachment; filename="minutes.pdf"');
+      expect(message).toContain(Buffer.from('%PDF-1.4').toString('base64'));
+    });
+
+    it('should encode non-ASCII headers and keep header values on one line', () => {
+      const message = buildMimeMessage({
+        to: { email: 'fatima@example.com', name: 'Fātima Al Nahyan' },
+        subject: 'Décision\r\nBcc: someone@example.com',
+        text: '',
+        html: '',
+      }, 'no-reply@example.com', '<id@example.com>');
+
+      expect(message).toContain(`To: =?UTF-8?B?${Buffer.from('Fātima Al Nahyan').toString('base64')}?= <fatima@example.com>`);
+      expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from('Décision Bcc: someone@example.com').toString('base64')}?=`);
+      expect(message).not.toMatch(/^Bcc:/m);
+      expect(formatAddress({ email: 'a@example.com', name: 'Chair "Acting"' })).toBe('"Chair \\"Acting\\"" <a@example.com>');
+    });
+
+    it('should double dots at the start of a line', () => {
+      expect(dotStuff('.first\r\nmiddle\r\n.\r\n..two')).toBe('..first\r\nmiddle\r\n..\r\n...two');
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for the OpenAI Advisor Agent
+ *
+ * Covers schema-validated insights from the transcript (confidence, rationale,
+ * cited transcript entries, agenda item), the minConfidence threshold and
+ * retrying responses that cite lines or agenda items that do not exist, and
+ * streaming answers to direct questions, and the persona, language and speak
+ * policy in the advisor profile. Model responses come from the fake LLM
+ * provider.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockPrisma, mockSpeak, mockBridge, transcriptHandlers } = vi.hoisted(() => ({
+  mockPrisma: {
+    meeting: { findUnique: vi.fn() },
+    organization: { findUnique: vi.fn() },
+    agendaItem: { findMany: vi.fn() },
+    agentInsight: { create: vi.fn() },
+    advisorProfile: { findFirst: vi.fn() },
+  },
+  mockSpeak: vi.fn(),
+  mockBridge: vi.fn(),
+  transcriptHandlers: new Map<string, (transcript: unknown) => Promise<void>>(),
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('../../../services/recall/transcription', () => ({
+  startTranscriptProcessing: (meetingId: string, handler: (transcript: unknown) => Promise<void>) => {
+    transcriptHandlers.set(meetingId, handler);
+    return () => transcriptHandlers.delete(meetingId);
+  },
+}));
+vi.mock('../../../services/recall/audio-output', () => ({ speak: mockSpeak, queueSpeak: vi.fn() }));
+vi.mock('../../../services/openai/analyst-agent', () => ({ bridgeAdvisorInsight: mockBridge }));
+vi.mock('../../../services/knowledge', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../services/knowledge')>()),
+  indexTranscript: vi.fn(),
+  searchKnowledge: vi.fn().mockResolvedValue([]),
+}));
+
+import {
+  enableAgent,
+  disableAgent,
+  getAgentConfig,
+  onInsight,
+  streamAdvisorAnswer,
+  AdvisorInsight,
+} from '../../../services/openai/advisor-agent';
+import { getFakeProvider, invalidateLlmProviders } from '../../../services/llm';
+import { invalidateAdvisorProfiles } from '../../../services/advisor';
+
+const agenda = [
+  { id: 'item-1', title: 'Minutes of the last meeting', status: 'COMPLETED' },
+  { id: 'item-2', title: 'Capex Plan', status: 'IN_PROGRESS' },
+];
+
+function buffer() {
+  const lines = [
+    ['CFO', 'The plant will cost twelve million against a ten million budget.'],
+    ['Chair', 'Can we approve it today?'],
+  ];
+  const chunks = lines.map(([speaker, text], i) => ({
+    meetingId: 'meeting-1',
+    entryId: `entry-${i + 1}`,
+    speaker,
+    speakerId: null,
+    text,
+    confidence: 0.95,
+    timestamp: new Date(),
+    isFinal: true,
+  }));
+  return { meetingId: 'meeting-1', chunks, fullText: '', speakers: new Set(), startTime: new Date(), endTime: new Date() };
+}
+
+const insight = {
+  type: 'risk_alert',
+  priority: 'medium',
+  content: 'The plan exceeds the approved budget by two million.',
+  rationale: 'The CFO gave a cost above the budget and the chair asked to approve it.',
+  confidence: 0.85,
+  sourceLines: [1, 2],
+  agendaItemId: null,
+};
+
+describe('Advisor Agent', () => {
+  const fake = getFakeProvider();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    invalidateLlmProviders();
+    invalidateAdvisorProfiles();
+    fake.reset();
+    mockPrisma.meeting.findUnique.mockResolvedValue({
+      id: 'meeting-1',
+      organizationId: 'org-1',
+      title: 'Q1 Board Meeting',
+      type: 'BOARD',
+      attendees: [{ attendee: { name: 'Omar Director' } }],
+      advisorProfile: null,
+    });
+    mockPrisma.advisorProfile.findFirst.mockResolvedValue(null);
+    mockPrisma.organization.findUnique.mockResolvedValue({ settings: {} });
+    mockPrisma.agendaItem.findMany.mockResolvedValue(agenda);
+    mockPrisma.agentInsight.create.mockImplementation(async ({ data }) => ({
+      id: 'agent-insight-1',
+      timestamp: new Date(),
+      dismissed: false,
+      ...data,
+    }));
+    mockBridge.mockResolvedValue({});
+    await enableAgent('meeting-1', { speakEnabled: false });
+  });
+
+  afterEach(() => {
+    disableAgent('meeting-1');
+  });
+
+  it('should store insights with their confidence, rationale and sources', async () => {
+    const received: AdvisorInsight[] = [];
+    onInsight('meeting-1', (i) => received.push(i));
+    fake.queueResponses({ insight });
+
+    await transcriptHandlers.get('meeting-1')!(buffer());
+
+    const call = fake.calls[0];
+    expect(call).toMatchObject({ type: 'complete', options: { responseFormat: 'json' } });
+    const input = call.type === 'complete' ? call.messages[1].content : '';
+    expect(input).toContain('- [item-2] Capex Plan (in progress)');
+    expect(input).toContain('[2] Chair: Can we approve it today?');
+
+    expect(mockPrisma.agentInsight.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'risk_alert',
+        confidence: 0.85,
+        rationale: insight.rationale,
+        agendaItemId: 'item-2',
+        transcriptEntryIds: ['entry-1', 'entry-2'],
+      }),
+    });
+    expect(received[0]).toMatchObject({ id: 'agent-insight-1', confidence: 0.85, agendaItemId: 'item-2' });
+  });
+
+  it('should discard insights below the minimum confidence', async () => {
+    fake.queueResponses({ insight: { ...insight, confidence: 0.6 } });
+
+    await transcriptHandlers.get('meeting-1')!(buffer());
+
+    expect(fake.calls).toHaveLength(1);
+    expect(mockPrisma.agentInsight.create).not.toHaveBeenCalled();
+  });
+
+  it('should send back responses citing lines or agenda items that do not exist', async () => {
+    fake.queueResponses(
+      { insight: { ...insight, sourceLines: [7] } },
+      { insight: { ...insight, agendaItemId: 'item-9' } },
+    );
+
+    await transcriptHandlers.get('meeting-1')!(buffer());
+
+    expect(fake.calls).toHaveLength(2);
+    const retry = fake.calls[1];
+    expect(retry.type === 'complete' && retry.messages.at(-1)!.content).toContain('insight.sourceLines.0');
+    expect(mockPrisma.agentInsight.create).not.toHaveBeenCalled();
+  });
+
+  it('should stay quiet when the model has nothing to add', async () => {
+    fake.queueResponses({ insight: null });
+
+    await transcriptHandlers.get('meeting-1')!(buffer());
+
+    expect(mockPrisma.agentInsight.create).not.toHaveBeenCalled();
+    expect(mockSpeak).not.toHaveBeenCalled();
+  });
+
+  it('should follow the persona, language and speak policy in the advisor profile', async () => {
+    disableAgent('meeting-1');
+    invalidateAdvisorProfiles();
+    mockPrisma.advisorProfile.findFirst.mockResolvedValue({
+      name: 'Secretary',
+      persona: 'Be formal and brief.',
+      language: 'ar',
+      speakPolicy: 'when_asked',
+    });
+    await enableAgent('meeting-1', { speakEnabled: true });
+    fake.queueResponses({ insight: { ...insight, priority: 'high' } });
+
+    await transcriptHandlers.get('meeting-1')!(buffer());
+
+    const call = fake.calls[0];
+    const systemPrompt = call.type === 'complete' ? call.messages[0].content : '';
+    expect(systemPrompt).toContain('Your name is Secretary.\nBe formal and brief.\nAlways respond in Arabic');
+    expect(mockPrisma.agentInsight.create).toHaveBeenCalled();
+    expect(mockSpeak).not.toHaveBeenCalled();
+    expect(getAgentConfig('meeting-1')).toMatchObject({ speakEnabled: false });
+  });
+
+  describe('streamAdvisorAnswer', () => {
+    it('should stream a spoken answer without citation markers', async () => {
+      fake.queueResponses('The plant costs twelve million [1]. That is over budget [1, 2].');
+
+      const stream = streamAdvisorAnswer('meeting-1', 'How much is the plant?', { spoken: true });
+      const pieces: string[] = [];
+      let result = await stream.next();
+      while (!result.done) {
+        pieces.push(result.value);
+        result = await stream.next();
+      }
+
+      expect(fake.calls.at(-1)).toMatchObject({ type: 'stream', options: { temperature: 0.7, maxTokens: 150 } });
+      expect(pieces.length).toBeGreaterThan(1);
+      expect(pieces.join('')).toBe('The plant costs twelve million. That is over budget.');
+      expect(result.value).toEqual({ answer: 'The plant costs twelve million. That is over budget.', sources: [] });
+    });
+
+    it('should stop when cancelled and return the answer so far', async () => {
+      fake.queueResponses('The plant costs twelve million against a ten million budget.');
+      const controller = new AbortController();
+
+      const stream = streamAdvisorAnswer('meeting-1', 'How much is the plant?', { signal: controller.signal });
+      const first = await stream.next();
+      controller.abort();
+      const result = await stream.next();
+
+      expect(first.value).toBe('The ');
+      expect(result).toEqual({ done: true, value: { answer: 'The ', sources: [], cancelled: true } });
+    });
+  });
+});
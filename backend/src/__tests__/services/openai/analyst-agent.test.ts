@@ -0,0 +1,143 @@
+/**
+ * Tests for the OpenAI Analyst Agent
+ *
+ * Covers agenda-aware live insights, the confidence threshold and bridging
+ * advisor insights into the live feed.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockPrisma, mockClient, transcriptHandlers } = vi.hoisted(() => ({
+  mockPrisma: {
+    agendaItem: { findFirst: vi.fn() },
+    liveInsight: { findMany: vi.fn(), create: vi.fn() },
+  },
+  mockClient: {
+    isConfigured: vi.fn(),
+    createCompletion: vi.fn(),
+  },
+  transcriptHandlers: new Map<string, (transcript: unknown) => Promise<void>>(),
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('../../../services/openai/client', () => mockClient);
+vi.mock('../../../services/recall/transcription', () => ({
+  startTranscriptProcessing: (meetingId: string, handler: (transcript: unknown) => Promise<void>) => {
+    transcriptHandlers.set(meetingId, handler);
+    return () => transcriptHandlers.delete(meetingId);
+  },
+}));
+
+import {
+  startAnalyst,
+  stopAnalyst,
+  onLiveInsight,
+  bridgeAdvisorInsight,
+  formatAnalysis,
+} from '../../../services/openai/analyst-agent';
+
+const agendaItem = {
+  id: 'item-3',
+  title: 'Capex Plan',
+  description: 'Approve FY27 capital plan',
+  aiAnalysis: {
+    summary: 'Capex of $12M against a $10M budget.',
+    keyPoints: ['Overspend driven by the new plant'],
+    risks: ['Vendor concentration'],
+    suggestedQuestions: [],
+  },
+};
+
+function buffer(count: number) {
+  const chunks = Array.from({ length: count }, (_, i) => ({
+    meetingId: 'meeting-1',
+    speaker: 'CFO',
+    speakerId: null,
+    text: `Capex line ${i + 1}`,
+    confidence: 0.95,
+    timestamp: new Date(),
+    isFinal: true,
+  }));
+  return { meetingId: 'meeting-1', chunks, fullText: '', speakers: new Set(), startTime: new Date(), endTime: new Date() };
+}
+
+describe('Analyst Agent', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockClient.isConfigured.mockResolvedValue(true);
+    mockPrisma.agendaItem.findFirst.mockResolvedValue(agendaItem);
+    mockPrisma.liveInsight.findMany.mockResolvedValue([
+      { type: 'CONTEXT', content: 'Last year capex came in on budget.' },
+    ]);
+    mockPrisma.liveInsight.create.mockImplementation(async ({ data }) => ({ id: 'insight-1', dismissed: false, ...data }));
+    await startAnalyst('meeting-1');
+  });
+
+  afterEach(() => {
+    stopAnalyst('meeting-1');
+  });
+
+  it('should wait for enough transcript before calling the model', async () => {
+    await transcriptHandlers.get('meeting-1')!(buffer(3));
+
+    expect(mockClient.createCompletion).not.toHaveBeenCalled();
+  });
+
+  it('should store confident insights for the agenda item in progress', async () => {
+    const received: unknown[] = [];
+    onLiveInsight('meeting-1', (insight) => received.push(insight));
+    mockClient.createCompletion.mockResolvedValue(JSON.stringify({
+      insights: [
+        { type: 'ALERT', priority: 'HIGH', content: 'Vendor concentration has not been addressed.', confidence: 0.9 },
+        { type: 'OBSERVATION', priority: 'LOW', content: 'Discussion is slow.', confidence: 0.4 },
+      ],
+    }));
+
+    await transcriptHandlers.get('meeting-1')!(buffer(8));
+
+    const [messages, options] = mockClient.createCompletion.mock.calls[0];
+    expect(options).toMatchObject({ responseFormat: 'json' });
+    expect(messages[0].content).toContain('AGENDA ITEM: Capex Plan');
+    expect(messages[0].content).toContain('- Vendor concentration');
+    expect(messages[0].content).toContain('Last year capex came in on budget.');
+
+    expect(mockPrisma.liveInsight.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.liveInsight.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        meetingId: 'meeting-1',
+        agendaItemId: 'item-3',
+        type: 'ALERT',
+        priority: 'HIGH',
+        agentId: 'analyst',
+      }),
+    });
+    expect(received).toHaveLength(1);
+  });
+
+  it('should bridge advisor insights into the live feed', async () => {
+    await bridgeAdvisorInsight({
+      id: 'agent-insight-1',
+      meetingId: 'meeting-1',
+      type: 'risk_alert',
+      priority: 'high',
+      content: 'The plan exceeds the approved budget.',
+      confidence: 0.9,
+    });
+
+    expect(mockPrisma.liveInsight.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        agendaItemId: 'item-3',
+        type: 'ALERT',
+        priority: 'HIGH',
+        agentId: 'advisor',
+        agentInsightId: 'agent-insight-1',
+      }),
+    });
+  });
+
+  it('should ignore analysis without usable fields', () => {
+    expect(formatAnalysis(null)).toBeNull();
+    expect(formatAnalysis({ confidence: 0.8 })).toBeNull();
+    expect(formatAnalysis({ summary: 'Short', risks: ['Liquidity'] })).toBe('Short\nRisks:\n- Liquidity');
+  });
+});
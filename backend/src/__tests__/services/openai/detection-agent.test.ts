@@ -0,0 +1,175 @@
+/**
+ * Tests for the OpenAI Detection Agent
+ *
+ * Covers attendee resolution, batching of transcript lines, linking to the
+ * source transcript entry and merging repeated mentions.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockPrisma, mockClient, transcriptHandlers } = vi.hoisted(() => ({
+  mockPrisma: {
+    meeting: { findUnique: vi.fn() },
+    detectedAction: { create: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
+    detectedDecision: { create: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
+  },
+  mockClient: {
+    isConfigured: vi.fn(),
+    createCompletion: vi.fn(),
+  },
+  transcriptHandlers: new Map<string, (transcript: unknown) => Promise<void>>(),
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('../../../services/openai/client', () => mockClient);
+vi.mock('../../../services/recall/transcription', () => ({
+  startTranscriptProcessing: (meetingId: string, handler: (transcript: unknown) => Promise<void>) => {
+    transcriptHandlers.set(meetingId, handler);
+    return () => transcriptHandlers.delete(meetingId);
+  },
+}));
+
+import {
+  startDetection,
+  stopDetection,
+  onDetection,
+  resolveAttendee,
+  Detection,
+} from '../../../services/openai/detection-agent';
+
+const attendees = [
+  { id: 'att-1', name: 'Victoria Blackwood' },
+  { id: 'att-2', name: 'William Okonkwo' },
+  { id: 'att-3', name: 'William Chen' },
+];
+
+function buffer(lines: [string, string][]) {
+  const chunks = lines.map(([speaker, text], i) => ({
+    meetingId: 'meeting-1',
+    entryId: `entry-${i + 1}`,
+    speaker,
+    speakerId: null,
+    text,
+    confidence: 0.95,
+    timestamp: new Date(),
+    isFinal: true,
+  }));
+  return { meetingId: 'meeting-1', chunks, fullText: '', speakers: new Set(), startTime: new Date(), endTime: new Date() };
+}
+
+async function sendTranscript(lines: [string, string][]) {
+  await transcriptHandlers.get('meeting-1')!(buffer(lines));
+  await vi.waitFor(() => expect(mockClient.createCompletion).toHaveBeenCalled());
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+const sixLines: [string, string][] = [
+  ['Victoria Blackwood', 'Moving on to the risk register.'],
+  ['William Okonkwo', 'I will circulate the updated register by Friday.'],
+  ['Victoria Blackwood', 'Thank you.'],
+  ['Victoria Blackwood', 'All in favour of the Q4 statements?'],
+  ['William Chen', 'Aye.'],
+  ['Victoria Blackwood', 'Carried unanimously.'],
+];
+
+describe('Detection Agent', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockClient.isConfigured.mockResolvedValue(true);
+    mockPrisma.meeting.findUnique.mockResolvedValue({
+      id: 'meeting-1',
+      attendees: attendees.map((attendee) => ({ attendee })),
+      detectedActions: [{ id: 'old-action', description: 'Prepare vendor concentration summary' }],
+      detectedDecisions: [],
+    });
+    mockPrisma.detectedAction.create.mockImplementation(async ({ data }) => ({ id: 'action-1', status: 'DETECTED', ...data }));
+    mockPrisma.detectedDecision.create.mockImplementation(async ({ data }) => ({ id: 'decision-1', status: 'DETECTED', ...data }));
+    await startDetection('meeting-1');
+  });
+
+  afterEach(async () => {
+    mockClient.createCompletion.mockResolvedValue('{"actions": [], "decisions": []}');
+    await stopDetection('meeting-1');
+  });
+
+  describe('resolveAttendee', () => {
+    it('should match full names, honorifics and unique name parts', () => {
+      expect(resolveAttendee('Victoria Blackwood', attendees)?.id).toBe('att-1');
+      expect(resolveAttendee('Ms. Blackwood', attendees)?.id).toBe('att-1');
+      expect(resolveAttendee('Okonkwo', attendees)?.id).toBe('att-2');
+    });
+
+    it('should not guess between attendees with the same first name', () => {
+      expect(resolveAttendee('William', attendees)).toBeNull();
+      expect(resolveAttendee('Finance team', attendees)).toBeNull();
+      expect(resolveAttendee(null, attendees)).toBeNull();
+    });
+  });
+
+  describe('live detection', () => {
+    it('should wait for enough transcript before calling the model', async () => {
+      await transcriptHandlers.get('meeting-1')!(buffer(sixLines.slice(0, 2)));
+
+      expect(mockClient.createCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should store confident detections linked to their transcript entry', async () => {
+      const detections: Detection[] = [];
+      onDetection('meeting-1', (d) => detections.push(d));
+      mockClient.createCompletion.mockResolvedValueOnce(JSON.stringify({
+        actions: [
+          { description: 'Circulate the updated risk register', assignee: 'William Okonkwo', dueDate: '2026-03-13', confidence: 0.92, sourceLine: 2 },
+          { description: 'Maybe look at something', assignee: null, dueDate: null, confidence: 0.5, sourceLine: 3 },
+        ],
+        decisions: [
+          { description: 'Approved the Q4 financial statements', votedFor: null, votedAgainst: null, abstained: null, confidence: 0.9, sourceLine: 6 },
+        ],
+      }));
+
+      await sendTranscript(sixLines);
+
+      const [messages, options] = mockClient.createCompletion.mock.calls[0];
+      expect(options).toMatchObject({ responseFormat: 'json' });
+      expect(messages[0].content).toContain('[2] William Okonkwo: I will circulate');
+      expect(messages[0].content).toContain('Prepare vendor concentration summary');
+
+      expect(mockPrisma.detectedAction.create).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.detectedAction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          assignee: 'William Okonkwo',
+          assigneeId: 'att-2',
+          dueDate: new Date('2026-03-13T00:00:00Z'),
+          sourceTranscriptId: 'entry-2',
+        }),
+      });
+      expect(mockPrisma.detectedDecision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sourceTranscriptId: 'entry-6', votedFor: null }),
+      });
+      expect(detections.map((d) => d.type)).toEqual(['action', 'decision']);
+    });
+
+    it('should merge a repeated mention into the pending detection', async () => {
+      mockPrisma.detectedAction.findUnique.mockResolvedValue({
+        id: 'old-action',
+        status: 'DETECTED',
+        assignee: null,
+        dueDate: null,
+        confidence: 0.82,
+      });
+      mockClient.createCompletion.mockResolvedValueOnce(JSON.stringify({
+        actions: [
+          { description: 'Prepare the vendor concentration summary', assignee: 'Blackwood', dueDate: null, confidence: 0.9, sourceLine: 1 },
+        ],
+        decisions: [],
+      }));
+
+      await sendTranscript(sixLines);
+
+      expect(mockPrisma.detectedAction.create).not.toHaveBeenCalled();
+      expect(mockPrisma.detectedAction.update).toHaveBeenCalledWith({
+        where: { id: 'old-action' },
+        data: { confidence: 0.9, assignee: 'Victoria Blackwood', assigneeId: 'att-1' },
+      });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for the OpenAI Summary Agent
+ *
+ * Validates transcript segmentation, the single-pass and map-reduce paths
+ * and the handling of invalid model output.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockClient } = vi.hoisted(() => {
+  // Small budget so a few transcript lines force the map-reduce path
+  process.env.SUMMARY_MAX_INPUT_TOKENS = '400';
+  return {
+    mockClient: {
+      isConfigured: vi.fn(),
+      createCompletion: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../../services/openai/client', () => mockClient);
+
+import {
+  summarizeMeeting,
+  segmentTranscript,
+  splitLines,
+  SummaryGenerationError,
+} from '../../../services/openai/summary-agent';
+import type { MeetingWithRelations } from '../../../services/ai/summary';
+
+const start = new Date('2026-03-10T09:00:00Z');
+
+function minutesAfter(minutes: number): Date {
+  return new Date(start.getTime() + minutes * 60000);
+}
+
+function entry(agendaItemId: string | null, minute: number, content: string) {
+  return {
+    id: `entry-${minute}`,
+    meetingId: 'meeting-1',
+    agendaItemId,
+    speakerId: null,
+    speakerName: 'Chair',
+    content,
+    timestamp: minutesAfter(minute),
+    confidence: 0.95,
+    highlights: null,
+  };
+}
+
+function buildMeeting(transcriptEntries: ReturnType<typeof entry>[]): MeetingWithRelations {
+  return {
+    id: 'meeting-1',
+    title: 'Q1 Board Meeting',
+    type: 'BOARD',
+    scheduledStart: start,
+    attendees: [
+      { attendee: { name: 'Alice Chair' }, isPresent: true },
+      { attendee: { name: 'Bob Director' }, isPresent: false },
+    ],
+    agendaItems: [
+      { id: 'item-2', order: 2, title: 'Capex Plan', duration: 20 },
+      { id: 'item-1', order: 1, title: 'CEO Report', duration: 15 },
+    ],
+    transcriptEntries,
+    decisions: [],
+    actionItems: [],
+  } as unknown as MeetingWithRelations;
+}
+
+describe('Summary Agent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClient.isConfigured.mockResolvedValue(true);
+  });
+
+  describe('segmentTranscript', () => {
+    it('should group entries by agenda item in agenda order, general discussion last', () => {
+      const segments = segmentTranscript(buildMeeting([
+        entry(null, 0, 'Welcome everyone'),
+        entry('item-2', 30, 'Capex is $12M'),
+        entry('item-1', 5, 'Revenue grew 8%'),
+        entry('item-2', 45, 'We recommend approval'),
+      ]));
+
+      expect(segments.map((s) => s.title)).toEqual(['CEO Report', 'Capex Plan', 'General discussion']);
+      expect(segments[1].lines).toEqual(['Chair: Capex is $12M', 'Chair: We recommend approval']);
+      expect(segments[1].endTime).toEqual(minutesAfter(45));
+    });
+  });
+
+  describe('splitLines', () => {
+    it('should split lines into parts within the token budget', () => {
+      const lines = Array.from({ length: 6 }, () => 'x'.repeat(36));
+
+      expect(splitLines(lines, 25).map((part) => part.length)).toEqual([2, 2, 2]);
+    });
+  });
+
+  describe('summarizeMeeting', () => {
+    it('should summarize a short meeting in one request', async () => {
+      mockClient.createCompletion.mockResolvedValue(JSON.stringify({
+        overview: 'The board reviewed performance and capex.',
+        attendanceNotes: 'Bob Director was absent.',
+        nextSteps: ['Circulate capex paper'],
+        discussions: [
+          { agendaItemId: 'item-1', summary: 'Revenue grew 8%.', keyPoints: ['Revenue +8%'], outcome: '' },
+          { agendaItemId: 'item-2', summary: 'Capex of $12M proposed.', keyPoints: [], outcome: 'Approved' },
+          { agendaItemId: 'made-up', summary: 'Ignored', keyPoints: [], outcome: '' },
+        ],
+      }));
+
+      const summary = await summarizeMeeting(buildMeeting([
+        entry('item-1', 0, 'Revenue grew 8%'),
+        entry('item-2', 20, 'Capex is $12M'),
+        entry('item-2', 32, 'Motion carried'),
+      ]));
+
+      expect(mockClient.createCompletion).toHaveBeenCalledTimes(1);
+      expect(mockClient.createCompletion.mock.calls[0][1]).toMatchObject({ responseFormat: 'json' });
+      expect(summary.overview).toBe('The board reviewed performance and capex.');
+      expect(summary.discussions).toEqual([
+        { agendaItemId: 'item-1', title: 'CEO Report', summary: 'Revenue grew 8%.', keyPoints: ['Revenue +8%'], outcome: '', duration: 15 },
+        { agendaItemId: 'item-2', title: 'Capex Plan', summary: 'Capex of $12M proposed.', keyPoints: [], outcome: 'Approved', duration: 12 },
+      ]);
+    });
+
+    it('should retry once when the model returns an invalid shape', async () => {
+      mockClient.createCompletion
+        .mockResolvedValueOnce('{"overview": 42}')
+        .mockResolvedValueOnce(JSON.stringify({ overview: 'Short meeting.', nextSteps: [], discussions: [] }));
+
+      const summary = await summarizeMeeting(buildMeeting([entry('item-1', 0, 'Revenue grew 8%')]));
+
+      expect(mockClient.createCompletion).toHaveBeenCalledTimes(2);
+      const retryMessages = mockClient.createCompletion.mock.calls[1][0];
+      expect(retryMessages[retryMessages.length - 1].content).toContain('overview');
+      expect(summary.overview).toBe('Short meeting.');
+      expect(summary.discussions).toEqual([]);
+    });
+
+    it('should fail after a second invalid response', async () => {
+      mockClient.createCompletion.mockResolvedValue('not json');
+
+      await expect(summarizeMeeting(buildMeeting([entry('item-1', 0, 'Hello')])))
+        .rejects.toBeInstanceOf(SummaryGenerationError);
+    });
+
+    it('should map-reduce a transcript that exceeds the budget', async () => {
+      const long = 'The committee reviewed the capital plan in detail. '.repeat(20);
+      mockClient.createCompletion.mockImplementation(async (messages: { content: string }[], options: { systemPrompt: string }) => {
+        if (options.systemPrompt.includes('single agenda item')) {
+          return JSON.stringify({ summary: `Notes (${messages[0].content.length})`, keyPoints: ['Point'], outcome: '' });
+        }
+        return JSON.stringify({ overview: 'Reduced overview.', attendanceNotes: '', nextSteps: ['Follow up'] });
+      });
+
+      const summary = await summarizeMeeting(buildMeeting([
+        entry('item-1', 0, 'Revenue grew 8%'),
+        entry('item-2', 10, long),
+        entry('item-2', 11, long),
+        entry('item-2', 12, long),
+      ]));
+
+      // item-1 (1 call) + item-2 split in 3 parts and merged (4 calls) + reduce (1 call)
+      expect(mockClient.createCompletion).toHaveBeenCalledTimes(6);
+      expect(summary.overview).toBe('Reduced overview.');
+      expect(summary.nextSteps).toEqual(['Follow up']);
+      expect(summary.discussions.map((d) => d.agendaItemId)).toEqual(['item-1', 'item-2']);
+    });
+
+    it('should reject a meeting without a transcript', async () => {
+      await expect(summarizeMeeting(buildMeeting([]))).rejects.toMatchObject({ status: 422 });
+      expect(mockClient.createCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should report when OpenAI is not configured', async () => {
+      mockClient.isConfigured.mockResolvedValue(false);
+
+      await expect(summarizeMeeting(buildMeeting([entry('item-1', 0, 'Hello')]))).rejects.toMatchObject({ status: 503 });
+    });
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Tests for Recall.ai Audio Output
+ *
+ * Covers speaking streamed text sentence by sentence: splitting sentences,
+ * starting to speak before the text is complete, stopping part way and
+ * timing clips by their MP3 length; and cutting the bot off when someone
+ * talks over it; and the voice and speak policy in the advisor profile,
+ * for queued announcements as well as direct speech.
+ * Speech comes from the fake LLM provider.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockPrisma, mockRecall } = vi.hoisted(() => ({
+  mockPrisma: {
+    meeting: { findUnique: vi.fn() },
+    organization: { findUnique: vi.fn() },
+    meetingBot: { findUnique: vi.fn() },
+    agentInsight: { update: vi.fn() },
+    advisorProfile: { findFirst: vi.fn() },
+  },
+  mockRecall: {
+    outputAudio: vi.fn(),
+    stopOutputAudio: vi.fn(),
+    sendChatMessage: vi.fn(),
+  },
+}));
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+vi.mock('../../../services/recall/client', () => mockRecall);
+
+import {
+  clearSpeakQueue,
+  handleHumanSpeech,
+  onSpeechInterrupted,
+  queueSpeak,
+  speak,
+  speakStream,
+  splitSentences,
+  SpeechInterruptedEvent,
+} from '../../../services/recall/audio-output';
+import { getFakeProvider, invalidateLlmProviders } from '../../../services/llm';
+import { invalidateAdvisorProfiles } from '../../../services/advisor';
+import { mp3Duration } from '../../../lib/mp3';
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const out: string[] = [];
+  for await (const item of stream) {
+    out.push(item);
+  }
+  return out;
+}
+
+async function* pieces(...texts: string[]) {
+  yield* texts;
+}
+
+function spokenTexts(): string[] {
+  return mockRecall.outputAudio.mock.calls.map(([, audio]) =>
+    Buffer.from(audio.b64_data, 'base64').toString('utf8').replace('fake-audio:nova:', ''));
+}
+
+describe('Audio Output', () => {
+  const fake = getFakeProvider();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    invalidateLlmProviders();
+    invalidateAdvisorProfiles();
+    fake.reset();
+    mockPrisma.meeting.findUnique.mockResolvedValue({ organizationId: 'org-1', advisorProfile: null });
+    mockPrisma.advisorProfile.findFirst.mockResolvedValue(null);
+    mockPrisma.organization.findUnique.mockResolvedValue({ settings: {} });
+    mockPrisma.meetingBot.findUnique.mockResolvedValue({ recallBotId: 'bot-1', botName: 'Board Observer AI', status: 'in_meeting' });
+    mockRecall.outputAudio.mockResolvedValue({});
+    mockRecall.sendChatMessage.mockResolvedValue({});
+    mockRecall.stopOutputAudio.mockResolvedValue({});
+    mockPrisma.agentInsight.update.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    clearSpeakQueue('meeting-1');
+  });
+
+  describe('splitSentences', () => {
+    it('should yield sentences as they complete, joining short fragments', async () => {
+      expect(await collect(splitSentences(pieces('Mr. Chen ', 'presented the plan. Capex is ', '$12.5M! Approve', ' it?')))).toEqual([
+        'Mr. Chen presented the plan.',
+        'Capex is $12.5M!',
+        'Approve it?',
+      ]);
+    });
+
+    it('should cut long runs without a full stop at a space', async () => {
+      const sentences = await collect(splitSentences(pieces(`${'word '.repeat(80)}end`)));
+
+      expect(sentences.length).toBe(2);
+      expect(sentences[0].length).toBeLessThanOrEqual(250);
+      expect(sentences.join(' ')).toBe(`${'word '.repeat(80)}end`);
+    });
+  });
+
+  describe('speakStream', () => {
+    it('should start speaking before the text is complete', async () => {
+      let finish!: () => void;
+      const rest = new Promise<void>((resolve) => { finish = resolve; });
+      async function* answer() {
+        yield 'The plant costs twelve million. ';
+        await rest;
+        yield 'That is over the budget.';
+      }
+
+      const speaking = speakStream({ meetingId: 'meeting-1', text: answer(), force: true });
+      await vi.waitFor(() => expect(mockRecall.outputAudio).toHaveBeenCalledTimes(1));
+      finish();
+      const result = await speaking;
+
+      expect(spokenTexts()).toEqual(['The plant costs twelve million.', 'That is over the budget.']);
+      expect(mockRecall.sendChatMessage).toHaveBeenCalledWith(
+        'bot-1', 'The plant costs twelve million. That is over the budget.', 'everyone');
+      expect(result).toEqual({
+        success: true,
+        spoken: true,
+        chatSent: true,
+        text: 'The plant costs twelve million. That is over the budget.',
+      });
+    });
+
+    it('should stop speaking when aborted', async () => {
+      const controller = new AbortController();
+      async function* answer() {
+        yield 'The plant costs twelve million. ';
+        controller.abort();
+        yield 'That is over the budget. ';
+      }
+
+      const result = await speakStream({ meetingId: 'meeting-1', text: answer(), force: true, signal: controller.signal });
+
+      expect(mockRecall.outputAudio).not.toHaveBeenCalled();
+      expect(result.text).toBe('The plant costs twelve million.');
+    });
+
+    it('should pass on the text when the bot is not in the meeting', async () => {
+      mockPrisma.meetingBot.findUnique.mockResolvedValue({ recallBotId: 'bot-1', status: 'done' });
+
+      const result = await speakStream({ meetingId: 'meeting-1', text: pieces('Approved. Thank you all.'), force: true });
+
+      expect(fake.calls).toHaveLength(0);
+      expect(result).toMatchObject({ success: false, text: 'Approved. Thank you all.', reason: 'Bot not in meeting (status: done)' });
+    });
+  });
+
+  describe('advisor profile', () => {
+    it('should speak in the profile\'s voice and speed', async () => {
+      mockPrisma.advisorProfile.findFirst.mockResolvedValue({ voice: 'onyx', speechSpeed: 1.2 });
+
+      await speak({ meetingId: 'meeting-1', text: 'The motion is carried.' });
+
+      expect(fake.calls).toEqual([{ type: 'speech', text: 'The motion is carried.', options: { voice: 'onyx', speed: 1.2 } }]);
+    });
+
+    it('should only post to the chat when the profile is silent', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue({ organizationId: 'org-1', advisorProfile: { speakPolicy: 'silent' } });
+
+      const spoken = await speak({ meetingId: 'meeting-1', text: 'The motion is carried.' });
+      const streamed = await speakStream({ meetingId: 'meeting-1', text: pieces('Approved. Thank you all.'), force: true });
+
+      expect(fake.calls).toHaveLength(0);
+      expect(mockRecall.outputAudio).not.toHaveBeenCalled();
+      expect(mockRecall.sendChatMessage.mock.calls).toEqual([
+        ['bot-1', 'The motion is carried.', 'everyone'],
+        ['bot-1', 'Approved. Thank you all.', 'everyone'],
+      ]);
+      expect(spoken).toMatchObject({ success: true, spoken: false, chatSent: true });
+      expect(streamed).toMatchObject({ success: true, spoken: false, chatSent: true, reason: 'Speaking is turned off in the advisor profile' });
+    });
+
+    it('should only speak answers to questions when the profile speaks when asked', async () => {
+      mockPrisma.meeting.findUnique.mockResolvedValue({ organizationId: 'org-1', advisorProfile: { speakPolicy: 'when_asked' } });
+
+      // A timekeeper warning goes through the speak queue
+      queueSpeak('meeting-1', 'Two minutes remain for the budget item.', 2);
+      await vi.waitFor(() => expect(mockRecall.sendChatMessage).toHaveBeenCalled());
+      expect(mockRecall.outputAudio).not.toHaveBeenCalled();
+
+      const answer = await speak({ meetingId: 'meeting-1', text: 'The budget is 2 million.', force: true, asked: true });
+
+      expect(answer).toMatchObject({ spoken: true });
+      expect(spokenTexts()).toEqual(['The budget is 2 million.']);
+      expect(mockRecall.sendChatMessage.mock.calls[0]).toEqual(['bot-1', 'Two minutes remain for the budget item.', 'everyone']);
+    });
+  });
+
+  describe('mp3Duration', () => {
+    it('should add up the length of MPEG-1 Layer III frames after an ID3 tag', () => {
+      // 128 kbps, 44.1 kHz: 417 bytes and 1152 samples per frame
+      const frame = Buffer.alloc(417);
+      frame.set([0xff, 0xfb, 0x90, 0x00]);
+      const id3 = Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 0x0a, ...new Array(10).fill(0xff)]);
+
+      expect(mp3Duration(Buffer.concat([id3, ...new Array(100).fill(frame)]))).toBeCloseTo(100 * 1152 / 44100, 5);
+      expect(mp3Duration(Buffer.from('fake-audio:nova:Hello'))).toBe(0);
+    });
+  });
+
+  describe('barge-in', () => {
+    it('should cut the bot off, drop the queue and mark the insight', async () => {
+      const events: SpeechInterruptedEvent[] = [];
+      const unsubscribe = onSpeechInterrupted((event) => events.push(event));
+
+      await speak({ meetingId: 'meeting-1', text: 'The capex plan is two million over budget.', insightId: 'insight-1' });
+      queueSpeak('meeting-1', 'Also, the auditors have not signed off.');
+      const stopped = await handleHumanSpeech('meeting-1', 'Chair', 'Thank you, we will come back to that');
+      unsubscribe();
+
+      expect(stopped).toBe(true);
+      expect(mockRecall.stopOutputAudio).toHaveBeenCalledWith('bot-1');
+      expect(mockPrisma.agentInsight.update).toHaveBeenCalledWith({
+        where: { id: 'insight-1' },
+        data: { interruptedAt: expect.any(Date), interruptedBy: 'Chair' },
+      });
+      expect(events).toEqual([{ meetingId: 'meeting-1', reason: 'barge_in', by: 'Chair', insightId: 'insight-1', dropped: 1 }]);
+      expect(await handleHumanSpeech('meeting-1', 'Chair', 'As I was saying')).toBe(false);
+    });
+
+    it('should ignore single words and speech from before the bot started', async () => {
+      const before = new Date(Date.now() - 5000);
+      await speak({ meetingId: 'meeting-1', text: 'The capex plan is two million over budget.' });
+
+      expect(await handleHumanSpeech('meeting-1', 'CFO', 'Mm')).toBe(false);
+      expect(await handleHumanSpeech('meeting-1', 'CFO', 'What is the total cost?', before)).toBe(false);
+      expect(mockRecall.stopOutputAudio).not.toHaveBeenCalled();
+    });
+
+    it('should not be cut off by its own speech in the transcript', async () => {
+      await speak({ meetingId: 'meeting-1', text: 'The capex plan is two million over budget.' });
+
+      expect(await handleHumanSpeech('meeting-1', 'Board Observer AI', 'The capex plan is two million')).toBe(false);
+      expect(mockRecall.stopOutputAudio).not.toHaveBeenCalled();
+    });
+
+    it('should be cut off by attendees whose name resembles its own', async () => {
+      await speak({ meetingId: 'meeting-1', text: 'The capex plan is two million over budget.' });
+
+      expect(await handleHumanSpeech('meeting-1', 'Sara (Board Observer)', 'Sorry, one question first')).toBe(true);
+    });
+
+    it('should stop a streamed answer part way without posting it to the chat', async () => {
+      let resume!: () => void;
+      const paused = new Promise<void>((resolve) => { resume = resolve; });
+      const read: string[] = [];
+      async function* answer() {
+        for (const sentence of ['The plant costs twelve million. ', 'That is over the budget. ', 'The board should ask why. ']) {
+          read.push(sentence);
+          yield sentence;
+          await paused;
+        }
+      }
+
+      const speaking = speakStream({ meetingId: 'meeting-1', text: answer(), force: true });
+      await vi.waitFor(() => expect(mockRecall.outputAudio).toHaveBeenCalledTimes(1));
+      await handleHumanSpeech('meeting-1', 'Chair', 'Sorry to interrupt');
+      resume();
+      const result = await speaking;
+
+      expect(mockRecall.outputAudio).toHaveBeenCalledTimes(1);
+      expect(read).toHaveLength(2);
+      expect(mockRecall.sendChatMessage).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, spoken: true, chatSent: false, reason: 'Interrupted' });
+    });
+  });
+});
@@ -40,6 +40,12 @@ vi.mock('../../../lib/logger', () => ({
     error: vi.fn(),
     debug: vi.fn(),
   },
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
 }));
 
 // Import after mocking
@@ -93,6 +99,10 @@ describe('Bot Service', () => {
           bot_name: 'Board Observer',
         })
       );
+      expect(prisma.meetingBot.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ botName: 'Board Observer' }),
+        update: expect.objectContaining({ botName: 'Board Observer' }),
+      }));
       expect(result.recallBotId).toBe('recall-bot-123');
     });
 
@@ -0,0 +1,217 @@
+/**
+ * Tests for Speaker Resolution
+ *
+ * Covers recognizing the bot's own speech, fuzzy name matching, aliases,
+ * manual overrides with back-fill, and presence updates from participant
+ * events.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockPrisma } = vi.hoisted(() => {
+  const client = {
+    speakerAlias: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      upsert: vi.fn(async ({ create }: { create: Record<string, unknown> }) => ({ id: 'alias-1', ...create })),
+    },
+    meetingAttendee: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    transcriptEntry: {
+      updateMany: vi.fn(async () => ({ count: 3 })),
+    },
+  };
+  const mockPrisma = { ...client, $transaction: vi.fn(async (fn: (tx: typeof client) => unknown) => fn(client)) };
+  return { mockPrisma };
+});
+
+vi.mock('../../../lib/prisma', () => ({ default: mockPrisma }));
+
+import {
+  isBotSpeaker,
+  matchAttendee,
+  nameSimilarity,
+  nameTokens,
+  resolveSpeaker,
+  setSpeakerAlias,
+  updatePresence,
+} from '../../../services/recall/speakers';
+
+const attendees = [
+  { id: 'att-1', name: 'Sarah Al Hashimi', email: 'sarah.alhashimi@example.gov' },
+  { id: 'att-2', name: 'Ahmed Al Mansouri', email: 'a.mansouri@example.gov' },
+  { id: 'att-3', name: 'John Smith', email: null },
+];
+
+describe('Speaker Resolution', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.speakerAlias.findUnique.mockResolvedValue(null);
+    mockPrisma.meetingAttendee.findMany.mockResolvedValue(attendees.map((attendee) => ({ attendee })));
+  });
+
+  describe('nameSimilarity', () => {
+    it('should ignore case, accents, honorifics, punctuation and suffixes', () => {
+      expect(nameSimilarity('Dr. Sarah Al-Hashimi (Guest)', 'Sarah Al Hashimi')).toBe(1);
+      expect(nameSimilarity('JOSÉ GARCÍA', 'Jose Garcia')).toBe(1);
+    });
+
+    it('should tolerate typos and initials', () => {
+      expect(nameSimilarity('Jon Smith', 'John Smith')).toBeGreaterThan(0.75);
+      expect(nameSimilarity('J. Smith', 'John Smith')).toBeGreaterThan(0.75);
+    });
+
+    it('should score partial names lower than full names', () => {
+      const partial = nameSimilarity('Ahmed', 'Ahmed Al Mansouri');
+      expect(partial).toBeGreaterThan(0.75);
+      expect(partial).toBeLessThan(nameSimilarity('Ahmed Al Mansouri', 'Ahmed Al Mansouri'));
+    });
+
+    it('should not match different people', () => {
+      expect(nameSimilarity('Sarah Smith', 'John Smith')).toBe(0);
+    });
+
+    it('should match names in Arabic script, without vowel or hamza marks', () => {
+      expect(nameTokens('أحمد المنصوري (ضيف)')).toEqual(['احمد', 'المنصوري']);
+      expect(nameSimilarity('أحمد المنصوري', 'احمد المنصوري')).toBe(1);
+      expect(nameSimilarity('مُحَمَّد علي', 'محمد علي')).toBe(1);
+      expect(nameSimilarity('سارة الهاشمي', 'أحمد المنصوري')).toBe(0);
+    });
+  });
+
+  describe('isBotSpeaker', () => {
+    it('should only match the name the bot joined with', () => {
+      expect(isBotSpeaker('Board Observer AI', 'Board Observer AI')).toBe(true);
+      expect(isBotSpeaker('Secretary ', 'Secretary')).toBe(true);
+      expect(isBotSpeaker('Omar (Observer)', 'Board Observer AI')).toBe(false);
+      expect(isBotSpeaker('Secretary General', 'Secretary')).toBe(false);
+    });
+  });
+
+  describe('matchAttendee', () => {
+    it('should pick the closest attendee', () => {
+      expect(matchAttendee('Sarah Hashimi', attendees)?.attendeeId).toBe('att-1');
+    });
+
+    it('should match on the email local part', () => {
+      expect(matchAttendee('a.mansouri', attendees)?.attendeeId).toBe('att-2');
+    });
+
+    it('should leave ambiguous names unresolved', () => {
+      const twoAhmeds = [...attendees, { id: 'att-4', name: 'Ahmed Khalil', email: null }];
+      expect(matchAttendee('Ahmed', twoAhmeds)).toBeNull();
+    });
+
+    it('should leave unknown names unresolved', () => {
+      expect(matchAttendee('iPhone (2)', attendees)).toBeNull();
+    });
+  });
+
+  describe('resolveSpeaker', () => {
+    it('should use an existing alias', async () => {
+      mockPrisma.speakerAlias.findUnique.mockResolvedValue({ id: 'alias-9', attendeeId: 'att-3', participantId: '7' });
+
+      await expect(resolveSpeaker('meeting-1', { id: 7, name: 'Johnny' })).resolves.toBe('att-3');
+      expect(mockPrisma.meetingAttendee.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should keep names mapped to nobody unresolved', async () => {
+      mockPrisma.speakerAlias.findUnique.mockResolvedValue({ id: 'alias-9', attendeeId: null, participantId: null });
+
+      await expect(resolveSpeaker('meeting-1', { name: 'John Smith' })).resolves.toBeNull();
+    });
+
+    it('should store fuzzy matches as aliases', async () => {
+      await expect(resolveSpeaker('meeting-1', { id: 12, name: 'Dr. Sarah Al-Hashimi' })).resolves.toBe('att-1');
+
+      expect(mockPrisma.speakerAlias.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({
+          meetingId: 'meeting-1',
+          participantName: 'Dr. Sarah Al-Hashimi',
+          participantId: '12',
+          attendeeId: 'att-1',
+        }),
+      }));
+    });
+
+    it('should fall back to the participant id when the name is missing', async () => {
+      mockPrisma.speakerAlias.findFirst.mockResolvedValue({ attendeeId: 'att-2' });
+
+      await expect(resolveSpeaker('meeting-1', { id: 5, name: '' })).resolves.toBe('att-2');
+      expect(mockPrisma.speakerAlias.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { meetingId: 'meeting-1', participantId: '5' },
+      }));
+    });
+  });
+
+  describe('setSpeakerAlias', () => {
+    it('should store a manual alias and back-fill transcript entries', async () => {
+      mockPrisma.speakerAlias.findUnique.mockResolvedValue({ attendeeId: 'att-1' });
+
+      const result = await setSpeakerAlias('meeting-1', 'Board Room Mic', 'att-2');
+
+      expect(result.previousAttendeeId).toBe('att-1');
+      expect(result.updatedEntries).toBe(3);
+      expect(mockPrisma.speakerAlias.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { attendeeId: 'att-2', isManual: true, confidence: null },
+      }));
+      expect(mockPrisma.transcriptEntry.updateMany).toHaveBeenCalledWith({
+        where: { meetingId: 'meeting-1', speakerName: 'Board Room Mic' },
+        data: { speakerId: 'att-2' },
+      });
+    });
+  });
+
+  describe('updatePresence', () => {
+    beforeEach(() => {
+      mockPrisma.speakerAlias.findUnique.mockResolvedValue({ id: 'alias-1', attendeeId: 'att-1', participantId: '1' });
+      mockPrisma.meetingAttendee.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({
+        isPresent: false,
+        isSpeaking: false,
+        ...data,
+        attendee: { name: 'Sarah Al Hashimi' },
+      }));
+    });
+
+    it('should mark the attendee present on join, keeping the first join time', async () => {
+      const at = new Date('2025-03-01T09:00:00Z');
+      mockPrisma.meetingAttendee.findUnique.mockResolvedValue({ id: 'ma-1', joinedAt: null });
+
+      const update = await updatePresence('meeting-1', { id: 1, name: 'Sarah' }, 'join', at);
+
+      expect(mockPrisma.meetingAttendee.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'ma-1' },
+        data: { isPresent: true, leftAt: null, joinedAt: at },
+      }));
+      expect(update).toEqual({
+        meetingId: 'meeting-1',
+        attendeeId: 'att-1',
+        name: 'Sarah Al Hashimi',
+        isPresent: true,
+        isSpeaking: false,
+      });
+    });
+
+    it('should clear presence and speaking on leave', async () => {
+      const at = new Date('2025-03-01T10:00:00Z');
+      mockPrisma.meetingAttendee.findUnique.mockResolvedValue({ id: 'ma-1', joinedAt: new Date() });
+
+      await updatePresence('meeting-1', { id: 1, name: 'Sarah' }, 'leave', at);
+
+      expect(mockPrisma.meetingAttendee.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { isPresent: false, isSpeaking: false, leftAt: at },
+      }));
+    });
+
+    it('should ignore participants who are not meeting attendees', async () => {
+      mockPrisma.speakerAlias.findUnique.mockResolvedValue(null);
+
+      await expect(updatePresence('meeting-1', { id: 9, name: 'Unknown Caller' }, 'join')).resolves.toBeNull();
+      expect(mockPrisma.meetingAttendee.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for the Letterhead Logo
+ *
+ * Covers loading logos from data URIs and the frontend, and refusing URLs
+ * that would make the server fetch from its own network or read too much.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Response } from 'undici';
+
+const { mockFetch } = vi.hoisted(() => ({ mockFetch: vi.fn() }));
+
+vi.mock('undici', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('undici')>()),
+  fetch: mockFetch,
+}));
+
+import { loadLogo } from '../../../services/reports/logo';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+describe('Letterhead Logo', () => {
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  function serve(body: Buffer = PNG) {
+    mockFetch.mockImplementation(async () => new Response(body));
+  }
+
+  it('should read data URIs and fetch paths from the frontend', async () => {
+    serve();
+
+    expect(await loadLogo(`data:image/png;base64,${PNG.toString('base64')}`)).toMatchObject({ format: 'png', width: 1, height: 1 });
+    expect(await loadLogo('/logos/acme.png')).toMatchObject({ format: 'png' });
+    expect(mockFetch).toHaveBeenCalledWith('http://localhost:3000/logos/acme.png', expect.objectContaining({ redirect: 'error' }));
+  });
+
+  it('should fetch https URLs through the public-address dispatcher', async () => {
+    serve();
+
+    expect(await loadLogo('https://cdn.example.com/acme.png')).toMatchObject({ format: 'png' });
+    expect(mockFetch).toHaveBeenCalledWith('https://cdn.example.com/acme.png', expect.objectContaining({
+      redirect: 'error',
+      dispatcher: expect.anything(),
+    }));
+  });
+
+  it('should not fetch plain http or addresses inside the network', async () => {
+    serve();
+
+    expect(await loadLogo('http://cdn.example.com/acme.png')).toBeNull();
+    expect(await loadLogo('https://10.0.0.5/logo.png')).toBeNull();
+    expect(await loadLogo('https://[::ffff:7f00:1]/logo.png')).toBeNull();
+    expect(await loadLogo('//192.168.1.1/logo.png')).toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should refuse logos past the size limit', async () => {
+    serve(Buffer.concat([PNG, Buffer.alloc(3 * 1024 * 1024)]));
+
+    expect(await loadLogo('https://cdn.example.com/huge.png')).toBeNull();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Tests for Board Minutes
+ *
+ * Covers attendance and quorum, resolutions with vote tallies, the action
+ * register, and rendering the minutes to HTML, DOCX and PDF.
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { PDFParse } from 'pdf-parse';
+import {
+  composeMinutes,
+  MinutesInput,
+  PdfEncodingError,
+  renderDocx,
+  renderHtml,
+  renderPdf,
+  wrapText,
+} from '../../../services/reports';
+import { shapeArabic, visualOrder } from '../../../services/reports/bidi';
+
+async function pdfText(pdf: Buffer): Promise<string> {
+  const parser = new PDFParse({ data: pdf });
+  try {
+    return (await parser.getText()).text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+function input(overrides: Partial<MinutesInput> = {}): MinutesInput {
+  return {
+    organization: { name: 'Acme Holdings', logo: null, timezone: 'Asia/Dubai' },
+    template: null,
+    meeting: {
+      id: 'meeting-1',
+      title: 'Q1 Board Meeting',
+      type: 'BOARD',
+      location: 'Boardroom',
+      isVirtual: false,
+      scheduledStart: new Date('2025-03-01T05:00:00Z'),
+      actualStart: new Date('2025-03-01T05:05:00Z'),
+      actualEnd: new Date('2025-03-01T07:00:00Z'),
+    },
+    attendees: [
+      { isPresent: true, joinedAt: null, attendee: { name: 'Sara Chair', title: 'Chair', isExternal: false } },
+      { isPresent: false, joinedAt: new Date('2025-03-01T05:06:00Z'), attendee: { name: 'Omar Director', title: 'Director', isExternal: false } },
+      { isPresent: false, joinedAt: null, attendee: { name: 'Lina Director', title: 'Director', isExternal: false } },
+      { isPresent: false, joinedAt: null, attendee: { name: 'Mark Member', title: 'Director', isExternal: false } },
+      { isPresent: true, joinedAt: null, attendee: { name: 'Eve Auditor', title: 'External auditor', isExternal: true } },
+    ],
+    agendaItems: [
+      { id: 'item-2', order: 2, title: 'Budget <FY26>', presenter: 'CFO', status: 'COMPLETED' },
+      { id: 'item-1', order: 1, title: 'Risk review', presenter: null, status: 'COMPLETED' },
+      { id: 'item-3', order: 3, title: 'Any other business', presenter: null, status: 'SKIPPED' },
+    ],
+    summary: {
+      overview: 'The board approved the budget.',
+      nextSteps: ['Circulate the final budget'],
+      status: 'CIRCULATED',
+      currentVersion: 2,
+      approvedVersion: null,
+      approvedAt: null,
+      discussions: [
+        { agendaItemId: 'item-2', summary: 'The CFO presented the budget.', keyPoints: ['Costs up 4%'], outcome: 'Approved' },
+      ],
+      signoffs: [],
+    },
+    decisions: [
+      { description: 'Approve the FY26 budget', rationale: 'In line with plan', votedFor: 3, votedAgainst: 1, abstained: 0, timestamp: new Date('2025-03-01T06:00:00Z') },
+      { description: 'Appoint Eve Auditor', rationale: null, votedFor: 0, votedAgainst: 0, abstained: 0, timestamp: new Date('2025-03-01T05:30:00Z') },
+      { description: 'Sell the head office', rationale: null, votedFor: 1, votedAgainst: 2, abstained: 1, timestamp: new Date('2025-03-01T06:30:00Z') },
+    ],
+    actionItems: [
+      { description: 'Publish the budget', dueDate: new Date('2025-03-15T00:00:00Z'), priority: 'HIGH', status: 'IN_PROGRESS', agendaItemId: 'item-2', assignee: { name: 'Omar Director' } },
+    ],
+    ...overrides,
+  };
+}
+
+describe('Board Minutes', () => {
+  describe('composeMinutes', () => {
+    it('should separate members present, apologies and those in attendance', () => {
+      const minutes = composeMinutes(input());
+
+      expect(minutes.attendance.present.map((p) => p.name)).toEqual(['Omar Director', 'Sara Chair']);
+      expect(minutes.attendance.apologies.map((p) => p.name)).toEqual(['Lina Director', 'Mark Member']);
+      expect(minutes.attendance.inAttendance.map((p) => p.name)).toEqual(['Eve Auditor']);
+    });
+
+    it('should require a majority of members for a quorum unless the template sets one', () => {
+      expect(composeMinutes(input()).quorum).toEqual({ required: 3, present: 2, met: false });
+
+      const template = {
+        heading: null, letterhead: null, footer: null, accentColor: '#1f2937', showLogo: true, quorum: 2, signatories: null,
+      };
+      expect(composeMinutes(input({ template })).quorum).toEqual({ required: 2, present: 2, met: true });
+    });
+
+    it('should number resolutions in the order they were passed with their result', () => {
+      const { resolutions } = composeMinutes(input());
+
+      expect(resolutions.map((r) => [r.number, r.text, r.result])).toEqual([
+        ['R1', 'Appoint Eve Auditor', 'resolved'],
+        ['R2', 'Approve the FY26 budget', 'carried'],
+        ['R3', 'Sell the head office', 'not carried'],
+      ]);
+    });
+
+    it('should lay out agenda items in order with their discussion and deferred items', () => {
+      const minutes = composeMinutes(input());
+
+      expect(minutes.agendaItems.map((i) => [i.number, i.title, i.deferred])).toEqual([
+        [1, 'Risk review', false],
+        [2, 'Budget <FY26>', false],
+        [3, 'Any other business', true],
+      ]);
+      expect(minutes.agendaItems[1]).toMatchObject({ summary: 'The CFO presented the budget.', keyPoints: ['Costs up 4%'], outcome: 'Approved' });
+      expect(minutes.actions[0]).toMatchObject({ owner: 'Omar Director', agendaItem: '2. Budget <FY26>', status: 'in progress' });
+    });
+
+    it('should apply the organization template', () => {
+      const minutes = composeMinutes(input({
+        template: {
+          heading: 'Minutes of the Board of Directors',
+          letterhead: 'Acme Holdings PJSC\n\nPO Box 1, Dubai',
+          footer: 'Confidential',
+          accentColor: '#0f766e',
+          showLogo: false,
+          quorum: null,
+          signatories: [{ role: 'Chair', name: 'Sara Chair' }, { bogus: true }],
+        },
+      }));
+
+      expect(minutes.template).toMatchObject({
+        heading: 'Minutes of the Board of Directors',
+        letterhead: ['Acme Holdings PJSC', 'PO Box 1, Dubai'],
+        accentColor: '#0f766e',
+        signatories: [{ role: 'Chair', name: 'Sara Chair' }],
+      });
+      expect(composeMinutes(input()).template).toMatchObject({
+        heading: 'Minutes of the Board Meeting',
+        letterhead: ['Acme Holdings'],
+        signatories: [{ role: 'Chair' }, { role: 'Secretary' }],
+      });
+    });
+
+    it('should sign the signature blocks from the sign-offs of the approved version', () => {
+      const base = input();
+      const minutes = composeMinutes(input({
+        summary: {
+          ...base.summary!,
+          status: 'APPROVED',
+          currentVersion: 3,
+          approvedVersion: 3,
+          approvedAt: new Date('2025-03-10T08:00:00Z'),
+          signoffs: [
+            { role: 'CHAIR', version: 3, signedAt: new Date('2025-03-09T08:00:00Z'), signerName: 'Sara Chair', user: { name: 'Sara Chair' } },
+            { role: 'SECRETARY', version: 2, signedAt: new Date('2025-03-05T08:00:00Z'), signerName: 'Old Secretary', user: { name: 'Old Secretary' } },
+          ],
+        },
+      }));
+
+      expect(minutes.approval).toMatchObject({ status: 'APPROVED', version: 3 });
+      expect(minutes.template.signatories).toEqual([
+        { role: 'Chair', name: 'Sara Chair', signedAt: new Date('2025-03-09T08:00:00Z') },
+        { role: 'Secretary' },
+      ]);
+
+      const html = renderHtml(minutes, null);
+      expect(html).toContain('Approved on 10 March 2025 (version 3)');
+      expect(html).toContain('Sara Chair, Chair');
+      expect(html).toContain('Date: 9 March 2025');
+    });
+
+    it('should keep the name of a signer whose account was deleted', () => {
+      const base = input();
+      const minutes = composeMinutes(input({
+        summary: {
+          ...base.summary!,
+          currentVersion: 2,
+          signoffs: [{ role: 'CHAIR', version: 2, signedAt: new Date('2025-03-09T08:00:00Z'), signerName: 'Sara Chair', user: null }],
+        },
+      }));
+
+      expect(minutes.template.signatories[0]).toMatchObject({ role: 'Chair', name: 'Sara Chair' });
+    });
+  });
+
+  describe('rendering', () => {
+    it('should render escaped HTML in the organization timezone', () => {
+      const html = renderHtml(composeMinutes(input()), null);
+
+      expect(html).toContain('Held on 1 March 2025 at 09:05, Boardroom');
+      expect(html).toContain('Circulated for approval (version 2)');
+      expect(html).toContain('2. Budget &lt;FY26&gt;');
+      expect(html).toContain('The meeting was not quorate.');
+      expect(html).toContain('the meeting closed at 11:00');
+      expect(html).not.toContain('<FY26>');
+    });
+
+    it('should render a Word document', async () => {
+      const zip = await JSZip.loadAsync(await renderDocx(composeMinutes(input()), null));
+
+      const document = await zip.file('word/document.xml')!.async('string');
+      expect(document).toContain('Approve the FY26 budget');
+      expect(document).toContain('Budget &lt;FY26&gt;');
+      expect(zip.file('word/footer1.xml')).not.toBeNull();
+    });
+
+    it('should render a PDF with a valid cross-reference table', async () => {
+      const pdf = renderPdf(composeMinutes(input()), null);
+      const text = pdf.toString('latin1');
+
+      expect(text.startsWith('%PDF-1.4')).toBe(true);
+      const xref = parseInt(text.slice(text.lastIndexOf('startxref') + 10));
+      const rows = text.slice(xref).split('\n');
+      const count = parseInt(rows[1].split(' ')[1]);
+      for (let object = 1; object < count; object++) {
+        const offset = parseInt(rows[2 + object].slice(0, 10));
+        expect(text.slice(offset, offset + 12)).toMatch(new RegExp(`^${object} 0 obj`));
+      }
+
+      const extracted = await pdfText(pdf);
+      expect(extracted).toContain('Minutes of the Board Meeting');
+      expect(extracted).toContain('2. Budget <FY26>');
+    });
+
+    it('should embed a Unicode font with a map back to the text', async () => {
+      const pdf = renderPdf(composeMinutes(input({
+        meeting: { ...input().meeting, title: 'Łukasz → ≥ 5 – Заседание' },
+      })), null);
+      const text = pdf.toString('latin1');
+
+      expect(text).toContain('/Subtype /Type0');
+      expect(text).toContain('/Subtype /CIDFontType2');
+      expect(text).toContain('/FontFile2');
+      expect(text).toContain('/ToUnicode');
+      expect(text).not.toContain('/Helvetica');
+      expect(await pdfText(pdf)).toContain('Łukasz → ≥ 5 – Заседание');
+      expect(wrapText('Café – “approved” €5', 500)).toEqual(['Café – “approved” €5']);
+    });
+
+    it('should render Arabic minutes', () => {
+      const minutes = composeMinutes(input({ meeting: { ...input().meeting, title: 'اجتماع مجلس الإدارة' } }));
+
+      expect(renderPdf(minutes, null).toString('latin1')).toContain('/CIDFontType2');
+    });
+
+    it('should refuse text the PDF fonts cannot show', () => {
+      const minutes = composeMinutes(input({ meeting: { ...input().meeting, title: '董事会会议' } }));
+
+      expect(() => renderPdf(minutes, null)).toThrow(PdfEncodingError);
+      expect(() => renderPdf(minutes, null)).toThrow('export them as DOCX or HTML instead');
+    });
+
+    it('should shape Arabic letters and draw right-to-left text in visual order', () => {
+      // Lam-alef ligature, then a final meem: "لام"
+      expect(shapeArabic('لام')).toBe('\ufefb\ufee1');
+      expect(visualOrder('abc')).toEqual(['a', 'b', 'c']);
+      expect(visualOrder('אב 12 (ג)').join('')).toBe('(ג) 12 בא');
+      expect(visualOrder('Vote: אב').join('')).toBe('Vote: בא');
+    });
+
+    it('should wrap text to the width and break overlong words', () => {
+      const lines = wrapText('The board approved the budget and the risk register', 100);
+
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.join(' ')).toBe('The board approved the budget and the risk register');
+      expect(wrapText('x'.repeat(100), 50).every((line) => line.length < 100)).toBe(true);
+    });
+  });
+});
@@ -12,7 +12,9 @@ process.env.FRONTEND_URL = 'http://localhost:3000';
 process.env.AI_MOCK_ENABLED = 'true';
 process.env.RECALL_API_KEY = 'test-recall-key';
 process.env.OPENAI_API_KEY = 'test-openai-key';
+process.env.LLM_PROVIDER = 'fake'; // Deterministic model responses, no network
 process.env.ELEVENLABS_API_KEY = 'test-elevenlabs-key';
+process.env.SECRETS_ENCRYPTION_KEY = Buffer.alloc(32, 7).toString('base64');
 
 // Create mock functions for Prisma
 const createMockModel = () => ({
@@ -68,18 +70,6 @@ vi.mock('../../services/recall/client', () => ({
   }),
 }));
 
-vi.mock('../../services/openai/client', () => ({
-  openai: {
-    chat: {
-      completions: {
-        create: vi.fn().mockResolvedValue({
-          choices: [{ message: { content: 'Test response' } }],
-        }),
-      },
-    },
-  },
-}));
-
 vi.mock('../../services/elevenlabs/client', () => ({
   textToSpeech: vi.fn().mockResolvedValue(Buffer.from('audio-data')),
   isConfigured: vi.fn(() => true),
@@ -1,4 +1,5 @@
 import express from 'express';
+import { Prisma } from '@prisma/client';
 import cors from 'cors';
 import helmet from 'helmet';
 import { createServer } from 'http';
@@ -8,10 +9,13 @@ import { Server as SocketIOServer } from 'socket.io';
 import logger from './lib/logger';
 
 // Middleware
-import { apiRateLimit, webhookRateLimit, aiRateLimit } from './middleware/rate-limit';
+import { apiRateLimit, webhookRateLimit, aiRateLimit, authRateLimit } from './middleware/rate-limit';
 import { auditLog } from './middleware/audit-log';
+import { authenticate } from './middleware/auth';
+import { tenantScope } from './middleware/tenant';
 
 // Routes
+import authRouter from './routes/auth';
 import organizationsRouter from './routes/organizations';
 import meetingsRouter from './routes/meetings';
 import attendeesRouter from './routes/attendees';
@@ -24,6 +28,14 @@ import transcriptRouter from './routes/transcript';
 import insightsRouter from './routes/insights';
 import webhooksRouter from './routes/webhooks';
 import agentRouter from './routes/agent';
+import jobsRouter from './routes/jobs';
+import auditRouter from './routes/audit';
+import calendarsRouter from './routes/calendars';
+import analyticsRouter from './routes/analytics';
+import reportsRouter from './routes/reports';
+import advisorRouter from './routes/advisor';
+import actionRegisterRouter from './routes/action-register';
+import notificationsRouter from './routes/notifications';
 
 // WebSocket handlers
 import { setupWebSocket } from './websocket/server';
@@ -31,6 +43,17 @@ import { setupWebSocket } from './websocket/server';
 // Transcript processing
 import { initTranscriptWebhooks } from './services/recall/transcription';
 
+// Background jobs
+import { startWorker, stopWorker } from './services/jobs';
+import { registerJobHandlers } from './services/jobs/handlers';
+import { startCalendarScheduler, stopCalendarScheduler } from './services/calendar/scheduler';
+import { startActionScheduler, stopActionScheduler } from './services/actions/scheduler';
+import { startSessionScheduler, stopSessionScheduler } from './services/auth/scheduler';
+
+// Multi-replica coordination
+import { setupSocketAdapter, startCluster, stopCluster } from './services/cluster';
+import { registerMeetingActions } from './services/cluster/actions';
+
 const app = express();
 const httpServer = createServer(app);
 
@@ -46,6 +69,7 @@ const io = new SocketIOServer(httpServer, {
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
+  exposedHeaders: ['Content-Disposition'],  // file names of report downloads
 }));
 
 // Security headers
@@ -91,8 +115,16 @@ app.get('/health', (req, res) => {
 // Higher rate limit for webhooks from Recall.ai
 app.use('/webhooks', webhookRateLimit, webhooksRouter);
 
+// Auth routes (login is the only unauthenticated API endpoint)
+app.use('/api/auth', authRateLimit, authRouter);
+
+// Everything else under /api requires a valid session and is scoped to the caller's organizations
+app.use('/api', authenticate, tenantScope);
+
 // API Routes with standard rate limiting
 app.use('/api/organizations', apiRateLimit, organizationsRouter);
+app.use('/api/organizations', auditRouter);  // /api/organizations/:slug/audit
+app.use('/api/organizations', apiRateLimit, calendarsRouter);  // /api/organizations/:slug/calendars
 app.use('/api/meetings', apiRateLimit, meetingsRouter);
 app.use('/api/attendees', attendeesRouter);
 app.use('/api/meetings', agendaRouter);      // /api/meetings/:id/agenda
@@ -102,18 +134,43 @@ app.use('/api/meetings', decisionsRouter);   // /api/meetings/:id/decisions
 app.use('/api/meetings', summariesRouter);   // /api/meetings/:id/summary
 app.use('/api/meetings', transcriptRouter);  // /api/meetings/:id/transcript
 app.use('/api/meetings', insightsRouter);    // /api/meetings/:id/insights
+app.use('/api', apiRateLimit, jobsRouter);   // /api/jobs/:jobId, /api/meetings/:id/jobs
+app.use('/api', apiRateLimit, analyticsRouter);  // /api/meetings/:id/analytics, /api/organizations/:slug/analytics
+app.use('/api', apiRateLimit, reportsRouter);    // /api/meetings/:id/report, /api/organizations/:slug/minutes-template
+app.use('/api', apiRateLimit, advisorRouter);    // /api/organizations/:slug/advisor-profile, /api/meetings/:id/advisor-profile
+app.use('/api', apiRateLimit, actionRegisterRouter);  // /api/organizations/:slug/actions
+app.use('/api', apiRateLimit, notificationsRouter);   // /api/notifications/preferences, /api/meetings/:id/invitations, ...
 
 // Agent routes with stricter rate limiting for AI endpoints
 app.use('/api', aiRateLimit, agentRouter);   // /api/meetings/:id/bot/*, /api/meetings/:id/agent/*
 
+// Share Socket.io rooms between replicas (Redis) and route meeting work to its owner
+setupSocketAdapter(io);
+registerMeetingActions();
+startCluster().catch((error) => logger.error({ err: error }, 'Failed to start cluster coordination'));
+
 // Setup WebSocket handlers
 setupWebSocket(io);
 
 // Initialize transcript webhook listeners
 initTranscriptWebhooks();
 
+// Run background jobs in this process unless dedicated workers do (npm run worker)
+if (process.env.JOB_WORKER_ENABLED !== 'false') {
+  registerJobHandlers();
+  startWorker();
+  startCalendarScheduler();
+  startActionScheduler();
+  startSessionScheduler();
+}
+
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Record not found (including rows outside the caller's organizations)
+  if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2025') {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
   logger.error({ err, path: req.path, method: req.method }, 'Request error');
   res.status(err.status || 500).json({
     error: err.message || 'Internal server error',
@@ -134,4 +191,19 @@ httpServer.listen(PORT, () => {
   logger.info({ healthCheck: `http://localhost:${PORT}/health` }, 'Health check endpoint available');
 });
 
+// Hand owned meetings over to other replicas and finish running jobs before exiting
+async function shutdown(signal: string) {
+  logger.info({ signal }, 'Shutting down');
+  httpServer.close();
+  stopCalendarScheduler();
+  stopActionScheduler();
+  stopSessionScheduler();
+  await stopWorker();
+  await stopCluster();
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
 export { io };
@@ -0,0 +1,56 @@
+/**
+ * MP3 Helpers
+ */
+
+// Kbps by bitrate index, for MPEG-1 and MPEG-2/2.5 Layer III
+const BITRATES_MPEG1 = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const BITRATES_MPEG2 = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+// Hz by version bits, then sample rate index
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],   // MPEG-1
+  2: [22050, 24000, 16000],   // MPEG-2
+  0: [11025, 12000, 8000],    // MPEG-2.5
+};
+
+/**
+ * Playing time of an MP3 clip in seconds, from its Layer III frame headers.
+ * Returns 0 for anything that is not MP3.
+ */
+export function mp3Duration(audio: Buffer): number {
+  let offset = 0;
+
+  // Skip an ID3v2 tag (its size is stored as four 7-bit bytes)
+  if (audio.length >= 10 && audio.toString('latin1', 0, 3) === 'ID3') {
+    offset = 10 + ((audio[6] & 0x7f) << 21 | (audio[7] & 0x7f) << 14 | (audio[8] & 0x7f) << 7 | (audio[9] & 0x7f));
+  }
+
+  let seconds = 0;
+  while (offset + 4 <= audio.length) {
+    const version = (audio[offset + 1] >> 3) & 0x03;
+    const layer = (audio[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = audio[offset + 2] >> 4;
+    const sampleRateIndex = (audio[offset + 2] >> 2) & 0x03;
+
+    const isFrame = audio[offset] === 0xff
+      && (audio[offset + 1] & 0xe0) === 0xe0
+      && version !== 1
+      && layer === 1
+      && bitrateIndex > 0 && bitrateIndex < 15
+      && sampleRateIndex < 3;
+    if (!isFrame) {
+      offset++;
+      continue;
+    }
+
+    const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+    const bitrate = (version === 3 ? BITRATES_MPEG1 : BITRATES_MPEG2)[bitrateIndex] * 1000;
+    const samples = version === 3 ? 1152 : 576;
+    const padding = (audio[offset + 2] >> 1) & 0x01;
+
+    seconds += samples / sampleRate;
+    offset += Math.floor((samples / 8) * bitrate / sampleRate) + padding;
+  }
+
+  return seconds;
+}
@@ -0,0 +1,178 @@
+/**
+ * Public Fetch
+ *
+ * Fetches URLs that organization admins supply (logos, calendar feeds)
+ * without letting them point the server at its own network. Addresses are
+ * checked when each connection is made, on the very addresses it connects
+ * to, so a host name that resolves differently the second time (DNS
+ * rebinding) cannot get through. Bodies are read up to a size limit.
+ */
+
+import { lookup, LookupAddress, LookupOptions } from 'dns';
+import net from 'net';
+import { Agent, fetch, RequestInit, Response } from 'undici';
+
+// ============================================
+// TYPES
+// ============================================
+
+export class PublicFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PublicFetchError';
+  }
+}
+
+// ============================================
+// ADDRESSES
+// ============================================
+
+function isPublicIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number);
+  return !(
+    a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113)
+  );
+}
+
+// The eight 16-bit words of an IPv6 address, with "::" and a dotted IPv4 tail expanded
+function ipv6Words(address: string): number[] {
+  let text = address;
+  const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const words = (part: string | undefined) => (part ? part.split(':').map((word) => parseInt(word, 16)) : []);
+  if (tail === undefined) {
+    return words(head);
+  }
+  const before = words(head);
+  const after = words(tail);
+  return [...before, ...new Array(8 - before.length - after.length).fill(0), ...after];
+}
+
+// Dotted form of the IPv4 address held in two IPv6 words
+function embeddedIPv4(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Whether an IP address is on the public internet (not private, loopback,
+ * link-local, shared, multicast or otherwise reserved). IPv6 addresses that
+ * carry an IPv4 address (mapped, compatible, NAT64, 6to4) are judged by it.
+ */
+export function isPublicAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    return isPublicIPv4(address);
+  }
+
+  const bare = address.replace(/%.*$/, '');
+  if (!net.isIPv6(bare)) {
+    return false;
+  }
+
+  const w = ipv6Words(bare.toLowerCase());
+  const zeros = (from: number, to: number) => w.slice(from, to).every((word) => word === 0);
+
+  // ::ffff:0:0/96 mapped, ::/96 compatible (also :: and ::1), 64:ff9b::/96 NAT64
+  if ((zeros(0, 5) && (w[5] === 0xffff || w[5] === 0)) || (w[0] === 0x64 && w[1] === 0xff9b && zeros(2, 6))) {
+    return isPublicIPv4(embeddedIPv4(w[6], w[7]));
+  }
+  // 2002::/16 6to4
+  if (w[0] === 0x2002) {
+    return isPublicIPv4(embeddedIPv4(w[1], w[2]));
+  }
+
+  return !(
+    (w[0] === 0x64 && w[1] === 0xff9b) ||           // 64:ff9b:1::/48 local-use NAT64
+    (w[0] === 0x100 && zeros(1, 4)) ||              // 100::/64 discard
+    (w[0] === 0x2001 && w[1] < 0x200) ||            // 2001::/23 Teredo and protocol assignments
+    (w[0] === 0x2001 && w[1] === 0xdb8) ||          // Documentation
+    (w[0] & 0xfe00) === 0xfc00 ||                   // Unique local
+    (w[0] & 0xffc0) === 0xfe80 ||                   // Link-local
+    (w[0] & 0xffc0) === 0xfec0 ||                   // Site-local
+    (w[0] & 0xff00) === 0xff00                      // Multicast
+  );
+}
+
+// ============================================
+// FETCHING
+// ============================================
+
+// Resolve as usual, but fail the connection unless every address is public
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+    } else if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      callback(new PublicFetchError(`${hostname} does not resolve to a public address`), []);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Fetch a URL from public addresses only. Redirects are refused, since the
+ * caller checked the URL it asked for and not where it leads.
+ */
+export async function fetchPublic(url: string, init: RequestInit = {}): Promise<Response> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  // IP addresses are connected to without a lookup
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw new PublicFetchError(`${host} is not a public address`);
+  }
+  return fetch(url, { ...init, redirect: 'error', dispatcher: publicAgent });
+}
+
+/**
+ * Read a response body, giving up as soon as it is known to pass maxBytes:
+ * from its Content-Length, or once that much has arrived
+ */
+export async function readBody(response: Response, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new PublicFetchError(`Response larger than ${maxBytes} bytes`);
+
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(Buffer.from(value));
+  }
+}
+
+export default fetchPublic;
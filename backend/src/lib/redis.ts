@@ -0,0 +1,33 @@
+/**
+ * Redis Connections
+ *
+ * Redis is optional. It is used in production when REDIS_URL is set, for
+ * state shared between backend replicas: rate limits, the cluster message
+ * bus and the Socket.io adapter. Without it every replica works alone.
+ */
+
+import Redis from 'ioredis';
+import logger from './logger';
+
+/**
+ * Whether shared state should live in Redis
+ */
+export function isRedisEnabled(): boolean {
+  return Boolean(process.env.REDIS_URL) && process.env.NODE_ENV === 'production';
+}
+
+/**
+ * Open a Redis connection (subscribers need a connection of their own)
+ */
+export function createRedisClient(purpose: string): Redis {
+  const redis = new Redis(process.env.REDIS_URL!);
+  redis.on('error', (err) => {
+    logger.error({ err, purpose }, 'Redis connection error');
+  });
+  redis.on('connect', () => {
+    logger.info({ purpose }, 'Redis connected');
+  });
+  return redis;
+}
+
+export default createRedisClient;
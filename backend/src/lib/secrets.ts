@@ -0,0 +1,67 @@
+/**
+ * Secrets at Rest
+ *
+ * Encrypts credentials the server must send on later (such as a CalDAV
+ * password) before they are stored, with AES-256-GCM under
+ * SECRETS_ENCRYPTION_KEY (32 bytes, base64). Stored values look like
+ * `enc:v1:<iv>:<tag>:<ciphertext>`; values stored before encryption was
+ * added are read as they are.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+
+export class SecretsError extends Error {
+  status = 500;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsError';
+  }
+}
+
+function encryptionKey(): Buffer {
+  const key = Buffer.from(process.env.SECRETS_ENCRYPTION_KEY || '', 'base64');
+  if (key.length !== 32) {
+    throw new SecretsError('SECRETS_ENCRYPTION_KEY must be set to 32 random bytes in base64');
+  }
+  return key;
+}
+
+/**
+ * Whether a stored value is encrypted (false for values stored before encryption)
+ */
+export function isEncryptedSecret(stored: string): boolean {
+  return stored.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a secret for storage
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return PREFIX + [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a stored secret
+ */
+export function decryptSecret(stored: string): string {
+  if (!isEncryptedSecret(stored)) {
+    return stored;
+  }
+
+  const [iv, tag, ciphertext] = stored.slice(PREFIX.length).split(':').map((part) => Buffer.from(part, 'base64'));
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch (error) {
+    if (error instanceof SecretsError) throw error;
+    throw new SecretsError('Stored secret cannot be decrypted; was SECRETS_ENCRYPTION_KEY changed?');
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Tenant-scoped Prisma Client
+ *
+ * Wraps the shared client in a Prisma extension that constrains every query
+ * to a set of organizations:
+ * - reads, updates and deletes get an extra `where` clause, so rows from other
+ *   organizations behave as if they did not exist (findUnique → null,
+ *   update/delete → P2025, which the API maps to 404)
+ * - creates and updates that reference another row are rejected unless that
+ *   row is in scope, whether by id (meetingId, attendeeId, agendaItemId, ...)
+ *   or through a nested relation input (connect, connectOrCreate, set), at
+ *   any depth of nested creates and updates
+ *
+ * Routes get a client per request as `req.db` (see middleware/tenant.ts).
+ * Background services that act on behalf of the system keep using `prisma`.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+
+// ============================================
+// SCOPE DEFINITIONS
+// ============================================
+
+type ScopeBuilder = (organizationIds: string[]) => Record<string, unknown>;
+
+const byOrganization: ScopeBuilder = (ids) => ({ organizationId: { in: ids } });
+const byMeeting: ScopeBuilder = (ids) => ({ meeting: { organizationId: { in: ids } } });
+
+/**
+ * How each tenant-owned model reaches its organization.
+ * Models not listed here (User, Session, OrganizationMember, NotificationPreference)
+ * are not tenant data.
+ */
+const TENANT_SCOPES: Record<string, ScopeBuilder> = {
+  Organization: (ids) => ({ id: { in: ids } }),
+  Meeting: byOrganization,
+  Attendee: byOrganization,
+  MeetingAttendee: byMeeting,
+  AgendaItem: byMeeting,
+  BriefingDocument: byMeeting,
+  PrepQuestion: byMeeting,
+  MeetingBot: byMeeting,
+  AgentInsight: byMeeting,
+  TranscriptEntry: byMeeting,
+  SpeakerAlias: byMeeting,
+  LiveInsight: byMeeting,
+  DetectedAction: byMeeting,
+  DetectedDecision: byMeeting,
+  ActionItem: byMeeting,
+  ActionItemUpdate: (ids) => ({ actionItem: { meeting: { organizationId: { in: ids } } } }),
+  Decision: byMeeting,
+  MeetingSummary: byMeeting,
+  DiscussionSummary: (ids) => ({ meetingSummary: { meeting: { organizationId: { in: ids } } } }),
+  MinutesVersion: (ids) => ({ summary: { meeting: { organizationId: { in: ids } } } }),
+  MinutesComment: (ids) => ({ summary: { meeting: { organizationId: { in: ids } } } }),
+  MinutesSignoff: (ids) => ({ summary: { meeting: { organizationId: { in: ids } } } }),
+  KnowledgeChunk: byOrganization,
+  Job: byOrganization,
+  MeetingLease: byMeeting,
+  AuditEvent: byOrganization,
+  CalendarSource: byOrganization,
+  MinutesTemplate: byOrganization,
+  AdvisorProfile: byOrganization,
+  NotificationDelivery: byOrganization,
+};
+
+/**
+ * Foreign keys that may appear in write payloads, and the model they point to
+ */
+const REFERENCE_FIELDS: Record<string, string> = {
+  meetingId: 'Meeting',
+  attendeeId: 'Attendee',
+  speakerId: 'Attendee',
+  assigneeId: 'Attendee',
+  agendaItemId: 'AgendaItem',
+  arisingItemId: 'AgendaItem',
+  actionItemId: 'ActionItem',
+  summaryId: 'MeetingSummary',
+  documentId: 'BriefingDocument',
+  calendarSourceId: 'CalendarSource',
+};
+
+/**
+ * Relation fields of each model and the model they point to, from the schema
+ */
+const RELATION_FIELDS: Record<string, Record<string, string>> = Object.fromEntries(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    Object.fromEntries(model.fields.filter((field) => field.kind === 'object').map((field) => [field.name, field.type])),
+  ])
+);
+
+const WHERE_OPERATIONS = new Set([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+]);
+
+// ============================================
+// ERRORS
+// ============================================
+
+export class TenantAccessError extends Error {
+  status = 404;
+
+  constructor(model: string) {
+    super(`${model} not found`);
+    this.name = 'TenantAccessError';
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function delegateName(model: string): string {
+  return model.charAt(0).toLowerCase() + model.slice(1);
+}
+
+/**
+ * Add the tenant scope to a where clause without disturbing its unique fields
+ * (Prisma only accepts extra filters next to them, not around them)
+ */
+export function scopeWhere(where: Record<string, unknown> | undefined, scope: Record<string, unknown>) {
+  const existing = where?.AND;
+  const and = existing === undefined ? [] : Array.isArray(existing) ? existing : [existing];
+  return { ...where, AND: [...and, scope] };
+}
+
+type WriteData = Record<string, unknown>;
+
+// The parts of an operation's arguments the scope reads or changes
+interface OperationArgs {
+  where?: WriteData;
+  data?: WriteData | WriteData[];
+  create?: WriteData;
+  update?: WriteData;
+}
+
+function collectWritePayloads(operation: string, args: OperationArgs): WriteData[] {
+  switch (operation) {
+    case 'create':
+    case 'update':
+    case 'updateMany':
+    case 'createMany':
+      return Array.isArray(args.data) ? args.data : args.data ? [args.data] : [];
+    case 'upsert':
+      return [args.create, args.update].filter((data): data is WriteData => Boolean(data));
+    default:
+      return [];
+  }
+}
+
+// The parts of a nested relation input that link, create or update rows
+interface RelationInput {
+  connect?: unknown;
+  set?: unknown;
+  connectOrCreate?: unknown;
+  create?: unknown;
+  createMany?: { data?: unknown };
+  update?: unknown;
+  updateMany?: unknown;
+  upsert?: unknown;
+}
+
+interface LookupDelegate {
+  count(args: { where: WriteData }): Promise<number>;
+  findUnique(args: { where: WriteData }): Promise<unknown>;
+}
+
+function delegate(model: string): LookupDelegate {
+  return (prisma as unknown as Record<string, LookupDelegate>)[delegateName(model)];
+}
+
+// Relation inputs take one object or a list of them
+function inputList(value: unknown): WriteData[] {
+  if (Array.isArray(value)) return value;
+  return value && typeof value === 'object' ? [value as WriteData] : [];
+}
+
+// Whether the row a unique where clause names is in scope (rows of non-tenant models always are)
+async function isInScope(model: string, unique: WriteData, organizationIds: string[]): Promise<boolean> {
+  const scope = TENANT_SCOPES[model];
+  if (!scope) return true;
+
+  const row = await delegate(model).findUnique({ where: scopeWhere(unique, scope(organizationIds)) });
+  return row !== null;
+}
+
+async function rowExists(model: string, unique: WriteData): Promise<boolean> {
+  return (await delegate(model).findUnique({ where: unique })) !== null;
+}
+
+/**
+ * Check the rows a nested relation input links to, and what it creates or updates
+ */
+async function assertRelationInScope(model: string, input: RelationInput, organizationIds: string[]): Promise<void> {
+  for (const unique of [...inputList(input.connect), ...inputList(input.set)]) {
+    if (!(await isInScope(model, unique, organizationIds))) {
+      throw new TenantAccessError(model);
+    }
+  }
+
+  // Connects to the row when it exists, so it must not exist elsewhere
+  for (const { where, create } of inputList(input.connectOrCreate)) {
+    const unique = where as WriteData;
+    if (!(await isInScope(model, unique, organizationIds)) && (await rowExists(model, unique))) {
+      throw new TenantAccessError(model);
+    }
+    await assertWriteInScope(model, create, organizationIds);
+  }
+
+  const writes = [
+    ...inputList(input.create),
+    ...inputList(input.createMany?.data),
+    ...[...inputList(input.update), ...inputList(input.updateMany)].map((update) => update.data ?? update),
+    ...inputList(input.upsert).flatMap((upsert) => [upsert.create, upsert.update]),
+  ];
+  for (const data of writes) {
+    await assertWriteInScope(model, data, organizationIds);
+  }
+}
+
+/**
+ * Reject write data for `model` that points at rows outside the organizations
+ */
+async function assertWriteInScope(model: string, data: unknown, organizationIds: string[]): Promise<void> {
+  if (!data || typeof data !== 'object') return;
+  const fields = data as WriteData;
+
+  if (typeof fields.organizationId === 'string' && !organizationIds.includes(fields.organizationId)) {
+    throw new TenantAccessError('Organization');
+  }
+
+  for (const [field, target] of Object.entries(REFERENCE_FIELDS)) {
+    const value = fields[field];
+    if (typeof value !== 'string') continue;
+
+    const count = await delegate(target).count({
+      where: { id: value, ...TENANT_SCOPES[target](organizationIds) },
+    });
+    if (count === 0) {
+      throw new TenantAccessError(target);
+    }
+  }
+
+  for (const [field, target] of Object.entries(RELATION_FIELDS[model] ?? {})) {
+    const input = fields[field];
+    if (input && typeof input === 'object') {
+      await assertRelationInScope(target, input as RelationInput, organizationIds);
+    }
+  }
+}
+
+// ============================================
+// CLIENT FACTORY
+// ============================================
+
+/**
+ * Create a client restricted to `organizationIds`.
+ * `null` means unrestricted (platform admins).
+ */
+export function createTenantClient(organizationIds: string[] | null) {
+  return prisma.$extends({
+    name: 'tenant-scope',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const scope = TENANT_SCOPES[model];
+          if (!organizationIds || !scope) {
+            return query(args);
+          }
+
+          const scopedArgs: OperationArgs = { ...(args as OperationArgs) };
+
+          if (WHERE_OPERATIONS.has(operation)) {
+            scopedArgs.where = scopeWhere(scopedArgs.where, scope(organizationIds));
+          }
+
+          for (const data of collectWritePayloads(operation, scopedArgs)) {
+            await assertWriteInScope(model, data, organizationIds);
+          }
+
+          return query(scopedArgs as typeof args);
+        },
+      },
+    },
+  });
+}
+
+export type TenantClient = ReturnType<typeof createTenantClient>;
+
+export default createTenantClient;
@@ -3,14 +3,30 @@
  * 
  * Logs all API requests and responses for security auditing.
  * Particularly important for AI agent actions and sensitive operations.
+ * 
+ * Request logs go to the application log. Governance actions are recorded
+ * durably in the audit trail (services/audit); getAuditActor() ties those
+ * events to the request that made them.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { apiLogger as logger } from '../lib/logger';
+import { AuditActor, userActor } from '../services/audit';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      // Set by auditLog, echoed in the X-Request-ID header
+      requestId?: string;
+    }
+  }
+}
 
 export interface AuditLogEntry {
   timestamp: Date;
   requestId: string;
+  userId?: string;
   method: string;
   path: string;
   ip: string;
@@ -23,12 +39,6 @@ export interface AuditLogEntry {
   category: 'api' | 'webhook' | 'ai-agent' | 'auth' | 'admin';
 }
 
-// In production, write to a proper logging service (e.g., CloudWatch, Datadog)
-const auditLogs: AuditLogEntry[] = [];
-
-// Keep only last 1000 logs in memory
-const MAX_LOGS = 1000;
-
 function generateRequestId(): string {
   return `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
@@ -77,7 +87,7 @@ export function auditLog(options: {
     const startTime = Date.now();
 
     // Attach request ID for tracing
-    (req as any).requestId = requestId;
+    req.requestId = requestId;
     res.setHeader('X-Request-ID', requestId);
 
     // Capture original end function
@@ -103,6 +113,7 @@ export function auditLog(options: {
       const entry: AuditLogEntry = {
         timestamp: new Date(),
         requestId,
+        userId: req.auth?.user.id,
         method: req.method,
         path: req.path,
         ip: req.ip || req.connection.remoteAddress || 'unknown',
@@ -124,12 +135,6 @@ export function auditLog(options: {
         entry.error = res.statusMessage;
       }
 
-      // Store log
-      auditLogs.push(entry);
-      if (auditLogs.length > MAX_LOGS) {
-        auditLogs.shift();
-      }
-
       // Log request
       const logData = {
         category: entry.category,
@@ -138,6 +143,7 @@ export function auditLog(options: {
         statusCode: res.statusCode,
         duration,
         requestId,
+        userId: entry.userId,
       };
 
       if (res.statusCode >= 500) {
@@ -160,44 +166,13 @@ export function auditLog(options: {
 }
 
 /**
- * Get recent audit logs (for admin dashboard)
- */
-export function getRecentLogs(options: {
-  limit?: number;
-  category?: AuditLogEntry['category'];
-  statusCode?: number;
-} = {}): AuditLogEntry[] {
-  let logs = [...auditLogs].reverse();
-
-  if (options.category) {
-    logs = logs.filter(l => l.category === options.category);
-  }
-
-  if (options.statusCode) {
-    logs = logs.filter(l => l.statusCode === options.statusCode);
-  }
-
-  return logs.slice(0, options.limit || 100);
-}
-
-/**
- * Get AI agent audit logs
- */
-export function getAIAgentLogs(limit: number = 50): AuditLogEntry[] {
-  return auditLogs
-    .filter(l => l.category === 'ai-agent')
-    .reverse()
-    .slice(0, limit);
-}
-
-/**
- * Get error logs
+ * Actor of an audit trail event made by this request
  */
-export function getErrorLogs(limit: number = 50): AuditLogEntry[] {
-  return auditLogs
-    .filter(l => l.statusCode >= 400)
-    .reverse()
-    .slice(0, limit);
+export function getAuditActor(req: Request): AuditActor {
+  return userActor(req.auth, {
+    requestId: req.requestId,
+    ipAddress: req.ip || req.socket.remoteAddress,
+  });
 }
 
 export default auditLog;
@@ -0,0 +1,136 @@
+/**
+ * Authentication & Authorization Middleware
+ *
+ * `authenticate` resolves the bearer token on every /api request and
+ * attaches the caller to `req.auth`. The `require*Role` guards then check
+ * the caller's OrganizationMember role for the organization that owns the
+ * resource being touched (VIEWER < EDITOR < ADMIN < OWNER).
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { OrgMemberRole, UserRole } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { createLogger } from '../lib/logger';
+import { AuthContext, hasOrgRole, getOrgRole, resolveSession } from '../services/auth';
+
+const logger = createLogger('auth');
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+// ============================================
+// AUTHENTICATION
+// ============================================
+
+/**
+ * Read the bearer token from the Authorization header
+ */
+export function extractBearerToken(header: string | undefined): string | null {
+  if (!header) return null;
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) return null;
+  return token;
+}
+
+/**
+ * Require a valid session. Responds 401 otherwise.
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = extractBearerToken(req.headers.authorization);
+    if (!token) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const auth = await resolveSession(token);
+    if (!auth) {
+      return res.status(401).json({ error: 'Invalid or expired session' });
+    }
+
+    req.auth = auth;
+    next();
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to authenticate request');
+    next(error);
+  }
+}
+
+// ============================================
+// AUTHORIZATION
+// ============================================
+
+type OrganizationResolver = (req: Request) => Promise<string | null>;
+
+/**
+ * Require at least `minRole` in the organization returned by `resolveOrganizationId`.
+ *
+ * Non-members get the same 404 as a missing resource so that ids from other
+ * organizations cannot be probed. Members without the required role get 403.
+ */
+export function requireOrgRole(
+  minRole: OrgMemberRole,
+  resolveOrganizationId: OrganizationResolver,
+  notFoundMessage = 'Not found'
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.auth) {
+        return res.status(401).json({ error: 'Authentication required' });
+      }
+
+      const organizationId = await resolveOrganizationId(req);
+      if (!organizationId || !getOrgRole(req.auth, organizationId)) {
+        return res.status(404).json({ error: notFoundMessage });
+      }
+
+      if (!hasOrgRole(req.auth, organizationId, minRole)) {
+        logger.warn({
+          userId: req.auth.user.id,
+          organizationId,
+          requiredRole: minRole,
+          method: req.method,
+          path: req.path,
+        }, 'Insufficient role');
+        return res.status(403).json({ error: 'Insufficient permissions', requiredRole: minRole.toLowerCase() });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Require a role in the organization that owns meeting `req.params.id`
+ */
+export function requireMeetingRole(minRole: OrgMemberRole) {
+  return requireOrgRole(minRole, async (req) => {
+    const meeting = await prisma.meeting.findUnique({
+      where: { id: req.params.id },
+      select: { organizationId: true },
+    });
+    return meeting?.organizationId ?? null;
+  }, 'Meeting not found');
+}
+
+/**
+ * Require a platform administrator (UserRole.ADMIN)
+ */
+export function requirePlatformAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  if (req.auth.user.role !== UserRole.ADMIN) {
+    return res.status(403).json({ error: 'Insufficient permissions' });
+  }
+  next();
+}
+
+export default authenticate;
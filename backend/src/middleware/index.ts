@@ -4,3 +4,5 @@
 
 export * from './rate-limit';
 export * from './audit-log';
+export * from './auth';
+export * from './tenant';
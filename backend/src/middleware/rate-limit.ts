@@ -8,6 +8,7 @@
 import { Request, Response, NextFunction } from 'express';
 import Redis from 'ioredis';
 import logger from '../lib/logger';
+import { createRedisClient, isRedisEnabled } from '../lib/redis';
 
 // ============================================
 // TYPES
@@ -87,14 +88,8 @@ class MemoryStore implements RateLimitStore {
 class RedisStore implements RateLimitStore {
   private redis: Redis;
 
-  constructor(redisUrl: string) {
-    this.redis = new Redis(redisUrl);
-    this.redis.on('error', (err) => {
-      logger.error({ err }, 'Redis connection error');
-    });
-    this.redis.on('connect', () => {
-      logger.info('Redis connected for rate limiting');
-    });
+  constructor() {
+    this.redis = createRedisClient('rate-limit');
   }
 
   async get(key: string): Promise<RateLimitEntry | null> {
@@ -138,13 +133,11 @@ let store: RateLimitStore;
 function getStore(): RateLimitStore {
   if (store) return store;
 
-  const redisUrl = process.env.REDIS_URL;
-  
-  if (redisUrl && process.env.NODE_ENV === 'production') {
+  if (isRedisEnabled()) {
     logger.info('Using Redis for rate limiting');
-    store = new RedisStore(redisUrl);
+    store = new RedisStore();
   } else {
-    if (process.env.NODE_ENV === 'production' && !redisUrl) {
+    if (process.env.NODE_ENV === 'production') {
       logger.warn('REDIS_URL not set in production - using in-memory rate limiting (not recommended for multiple instances)');
     }
     store = new MemoryStore();
@@ -226,6 +219,16 @@ export const apiRateLimit = rateLimit({
   keyPrefix: 'rl:api:',
 });
 
+/**
+ * Login rate limit (per IP, slows down credential guessing)
+ */
+export const authRateLimit = rateLimit({
+  windowMs: 900000,  // 15 minutes
+  maxRequests: 20,   // 20 attempts per window
+  keyPrefix: 'rl:auth:',
+  message: 'Too many login attempts. Please try again later.',
+});
+
 /**
  * Webhook rate limit (more permissive for Recall.ai)
  */
@@ -0,0 +1,32 @@
+/**
+ * Tenant Scoping Middleware
+ *
+ * Gives every authenticated request a Prisma client (`req.db`) that can only
+ * see the caller's organizations. Route handlers use it instead of the shared
+ * client so that a record id from another organization resolves to 404.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { createTenantClient, TenantClient } from '../lib/tenant';
+import { getAccessibleOrganizationIds } from '../services/auth';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      // Set by tenantScope for every /api route after authenticate
+      db: TenantClient;
+    }
+  }
+}
+
+export function tenantScope(req: Request, res: Response, next: NextFunction) {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  req.db = createTenantClient(getAccessibleOrganizationIds(req.auth));
+  next();
+}
+
+export default tenantScope;
@@ -0,0 +1,75 @@
+/**
+ * Action Register Routes
+ *
+ * The organization-wide register of action items from all of its meetings,
+ * filtered by assignee, status, due window and source meeting.
+ */
+
+import { Request, Router } from 'express';
+import { z } from 'zod';
+import { requireOrgRole } from '../middleware/auth';
+import { listActionRegister } from '../services/actions';
+
+const router = Router();
+
+const STATUSES = ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'OVERDUE'] as const;
+
+const registerQuerySchema = z.object({
+  assigneeId: z.string().optional(),
+  status: z.array(z.enum(STATUSES)).optional(),
+  dueFrom: z.coerce.date().optional(),
+  dueTo: z.coerce.date().optional(),
+  meetingId: z.string().optional(),
+  type: z.enum(['BOARD', 'COMMITTEE', 'REVIEW', 'STRATEGY', 'OPERATIONS']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+async function resolveOrganizationId(req: Request): Promise<string | null> {
+  const organization = await req.db.organization.findUnique({
+    where: { slug: req.params.slug },
+    select: { id: true },
+  });
+  return organization?.id ?? null;
+}
+
+// Statuses as the API writes them (in-progress), comma separated
+function parseStatuses(value: unknown): string[] | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  return value.split(',').map((status) => status.trim().toUpperCase().replace('-', '_'));
+}
+
+// GET /api/organizations/:slug/actions - Action register (?assigneeId=&status=pending,overdue&dueFrom=&dueTo=&meetingId=&type=&limit=&offset=)
+router.get(
+  '/organizations/:slug/actions',
+  requireOrgRole('VIEWER', resolveOrganizationId, 'Organization not found'),
+  async (req, res, next) => {
+    try {
+      const query = registerQuerySchema.parse({
+        ...req.query,
+        status: parseStatuses(req.query.status),
+        type: typeof req.query.type === 'string' ? req.query.type.toUpperCase() : undefined,
+      });
+
+      const organizationId = (await resolveOrganizationId(req))!;
+
+      res.json(await listActionRegister(organizationId, {
+        assigneeId: query.assigneeId,
+        status: query.status,
+        dueFrom: query.dueFrom,
+        dueTo: query.dueTo,
+        meetingId: query.meetingId,
+        meetingType: query.type,
+        limit: query.limit,
+        offset: query.offset,
+      }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
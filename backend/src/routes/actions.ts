@@ -1,5 +1,15 @@
 import { Router } from 'express';
-import prisma from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+import { requireMeetingRole } from '../middleware/auth';
+import { getAuditActor } from '../middleware/audit-log';
+import { recordAuditEvent } from '../services/audit';
+import {
+  buildMattersArising,
+  getActionHistory,
+  recordActionUpdate,
+  reopenIfRescheduled,
+} from '../services/actions';
+import { notifyActionAssigned } from '../services/notifications';
 import { z } from 'zod';
 
 const router = Router();
@@ -19,11 +29,11 @@ const updateActionSchema = createActionSchema.partial().extend({
 });
 
 // GET /api/meetings/:id/actions - Get all action items for a meeting
-router.get('/:id/actions', async (req, res, next) => {
+router.get('/:id/actions', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const actions = await prisma.actionItem.findMany({
+    const actions = await req.db.actionItem.findMany({
       where: { meetingId: id },
       include: {
         assignee: {
@@ -65,12 +75,12 @@ router.get('/:id/actions', async (req, res, next) => {
 });
 
 // POST /api/meetings/:id/actions - Create new action item
-router.post('/:id/actions', async (req, res, next) => {
+router.post('/:id/actions', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const data = createActionSchema.parse(req.body);
 
-    const action = await prisma.actionItem.create({
+    const action = await req.db.actionItem.create({
       data: {
         meetingId: id,
         description: data.description,
@@ -98,6 +108,25 @@ router.post('/:id/actions', async (req, res, next) => {
       },
     });
 
+    await recordActionUpdate({
+      actionItemId: action.id,
+      type: 'CREATED',
+      userId: req.auth!.user.id,
+    });
+
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'action_item.created',
+      entityType: 'ActionItem',
+      entityId: action.id,
+      after: action,
+      actor: getAuditActor(req),
+    });
+
+    if (action.assigneeId) {
+      notifyActionAssigned(action.id).catch((error) => console.error('Failed to notify assignee:', error));
+    }
+
     res.status(201).json({
       id: action.id,
       description: action.description,
@@ -120,22 +149,30 @@ router.post('/:id/actions', async (req, res, next) => {
 });
 
 // PUT /api/meetings/:id/actions/:actionId - Update action item
-router.put('/:id/actions/:actionId', async (req, res, next) => {
+router.put('/:id/actions/:actionId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { actionId } = req.params;
+    const { id, actionId } = req.params;
     const data = updateActionSchema.parse(req.body);
 
-    const updateData: any = {};
+    const updateData: Prisma.ActionItemUncheckedUpdateInput = {};
     if (data.description) updateData.description = data.description;
     if (data.assigneeId !== undefined) updateData.assigneeId = data.assigneeId;
     if (data.agendaItemId !== undefined) updateData.agendaItemId = data.agendaItemId;
-    if (data.dueDate !== undefined) updateData.dueDate = data.dueDate ? new Date(data.dueDate) : null;
+    const dueDate = data.dueDate === undefined ? undefined : data.dueDate ? new Date(data.dueDate) : null;
+    if (dueDate !== undefined) updateData.dueDate = dueDate;
     if (data.priority) updateData.priority = data.priority;
-    if (data.status) updateData.status = data.status;
     if (data.notes !== undefined) updateData.notes = data.notes;
 
-    const action = await prisma.actionItem.update({
-      where: { id: actionId },
+    const before = await req.db.actionItem.findUnique({
+      where: { id: actionId, meetingId: id },
+    });
+
+    // An overdue action given a new due date is pending again
+    const status = before ? reopenIfRescheduled(before, { status: data.status, dueDate }) : data.status;
+    if (status) updateData.status = status;
+
+    const action = await req.db.actionItem.update({
+      where: { id: actionId, meetingId: id },
       data: updateData,
       include: {
         assignee: {
@@ -155,6 +192,29 @@ router.put('/:id/actions/:actionId', async (req, res, next) => {
       },
     });
 
+    await recordActionUpdate({
+      actionItemId: action.id,
+      type: 'UPDATED',
+      before,
+      after: action,
+      userId: req.auth!.user.id,
+    });
+
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'action_item.updated',
+      entityType: 'ActionItem',
+      entityId: action.id,
+      before,
+      after: action,
+      actor: getAuditActor(req),
+    });
+
+    // Reassigned: tell the new assignee
+    if (action.assigneeId && action.assigneeId !== before?.assigneeId) {
+      notifyActionAssigned(action.id).catch((error) => console.error('Failed to notify assignee:', error));
+    }
+
     res.json({
       id: action.id,
       description: action.description,
@@ -176,13 +236,62 @@ router.put('/:id/actions/:actionId', async (req, res, next) => {
   }
 });
 
+// GET /api/meetings/:id/actions/:actionId/history - Edits, overdue escalations and carry-forwards
+router.get('/:id/actions/:actionId/history', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const { id, actionId } = req.params;
+
+    await req.db.actionItem.findUniqueOrThrow({
+      where: { id: actionId, meetingId: id },
+      select: { id: true },
+    });
+
+    res.json(await getActionHistory(actionId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/meetings/:id/matters-arising - List open actions of earlier meetings of the same type on the agenda
+router.post('/:id/matters-arising', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const result = await buildMattersArising(id);
+
+    if (result.agendaItemId) {
+      await recordAuditEvent({
+        meetingId: id,
+        action: 'agenda_item.matters_arising',
+        entityType: 'AgendaItem',
+        entityId: result.agendaItemId,
+        after: result,
+        actor: getAuditActor(req),
+      });
+    }
+
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // DELETE /api/meetings/:id/actions/:actionId - Delete action item
-router.delete('/:id/actions/:actionId', async (req, res, next) => {
+router.delete('/:id/actions/:actionId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { actionId } = req.params;
+    const { id, actionId } = req.params;
+
+    const action = await req.db.actionItem.delete({
+      where: { id: actionId, meetingId: id },
+    });
 
-    await prisma.actionItem.delete({
-      where: { id: actionId },
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'action_item.deleted',
+      entityType: 'ActionItem',
+      entityId: action.id,
+      before: action,
+      actor: getAuditActor(req),
     });
 
     res.status(204).send();
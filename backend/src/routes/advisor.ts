@@ -0,0 +1,192 @@
+/**
+ * Advisor Profile Routes
+ *
+ * How the advisor presents itself and when it talks (name, persona, language,
+ * wake phrases, pause timing, voice and speak policy): the organization's
+ * profile, and a meeting's overrides of it. Responses carry the stored fields
+ * (null when inherited) and the `effective` profile that applies.
+ */
+
+import { Request, Router } from 'express';
+import { AdvisorProfile as AdvisorProfileRecord, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { requireMeetingRole, requireOrgRole } from '../middleware/auth';
+import { getAuditActor } from '../middleware/audit-log';
+import { recordAuditEvent } from '../services/audit';
+import {
+  AdvisorProfile,
+  AdvisorProfileInput,
+  advisorProfileSchema,
+  invalidateAdvisorProfiles,
+  mergeAdvisorProfiles,
+} from '../services/advisor';
+
+const router = Router();
+
+async function resolveOrganizationId(req: Request): Promise<string | null> {
+  const organization = await req.db.organization.findUnique({
+    where: { slug: req.params.slug },
+    select: { id: true },
+  });
+  return organization?.id ?? null;
+}
+
+// Resolve :slug to an organization id for role checks
+const requireOrgViewer = requireOrgRole('VIEWER', resolveOrganizationId, 'Organization not found');
+const requireOrgAdmin = requireOrgRole('ADMIN', resolveOrganizationId, 'Organization not found');
+
+// API shape of a stored profile and the profile that applies
+function formatProfile(profile: AdvisorProfileRecord | null, effective: AdvisorProfile) {
+  return {
+    name: profile?.name ?? null,
+    persona: profile?.persona ?? null,
+    language: profile?.language ?? null,
+    wakePhrases: profile?.wakePhrases ?? [],
+    timing: profile?.timing ?? null,
+    ttsProvider: profile?.ttsProvider ?? null,
+    voice: profile?.voice ?? null,
+    speechSpeed: profile?.speechSpeed ?? null,
+    speakPolicy: profile?.speakPolicy ?? null,
+    updatedAt: profile?.updatedAt ?? null,
+    effective,
+  };
+}
+
+// Columns to write; null timing clears the overrides
+function profileFields(input: AdvisorProfileInput) {
+  const { timing, ...fields } = input;
+  return {
+    ...fields,
+    ...(timing !== undefined && { timing: timing ?? Prisma.DbNull }),
+  };
+}
+
+async function organizationProfile(req: Request, organizationId: string) {
+  return req.db.advisorProfile.findFirst({ where: { organizationId, meetingId: null } });
+}
+
+// GET /api/organizations/:slug/advisor-profile - The organization's advisor profile
+router.get('/organizations/:slug/advisor-profile', requireOrgViewer, async (req, res, next) => {
+  try {
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const profile = await organizationProfile(req, organizationId);
+
+    res.json(formatProfile(profile, mergeAdvisorProfiles(profile)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/organizations/:slug/advisor-profile - Update the organization's advisor profile
+router.put('/organizations/:slug/advisor-profile', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const fields = profileFields(advisorProfileSchema.parse(req.body));
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const before = await organizationProfile(req, organizationId);
+    const profile = before
+      ? await req.db.advisorProfile.update({ where: { id: before.id }, data: fields })
+      : await req.db.advisorProfile.create({ data: { ...fields, organizationId } });
+    invalidateAdvisorProfiles(organizationId);
+
+    await recordAuditEvent({
+      organizationId,
+      action: 'advisor_profile.updated',
+      entityType: 'AdvisorProfile',
+      entityId: profile.id,
+      before,
+      after: profile,
+      actor: getAuditActor(req),
+    });
+
+    res.json(formatProfile(profile, mergeAdvisorProfiles(profile)));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /api/meetings/:id/advisor-profile - The meeting's overrides and the profile that applies
+router.get('/meetings/:id/advisor-profile', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const meeting = await req.db.meeting.findUniqueOrThrow({
+      where: { id: req.params.id },
+      select: { organizationId: true, advisorProfile: true },
+    });
+
+    const inherited = await organizationProfile(req, meeting.organizationId);
+
+    res.json(formatProfile(meeting.advisorProfile, mergeAdvisorProfiles(inherited, meeting.advisorProfile)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/meetings/:id/advisor-profile - Override the organization's profile for this meeting
+router.put('/meetings/:id/advisor-profile', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const fields = profileFields(advisorProfileSchema.parse(req.body));
+    const { id } = req.params;
+
+    const meeting = await req.db.meeting.findUniqueOrThrow({
+      where: { id },
+      select: { organizationId: true, advisorProfile: true },
+    });
+
+    const profile = await req.db.advisorProfile.upsert({
+      where: { meetingId: id },
+      create: { ...fields, organizationId: meeting.organizationId, meetingId: id },
+      update: fields,
+    });
+    invalidateAdvisorProfiles(meeting.organizationId);
+
+    await recordAuditEvent({
+      organizationId: meeting.organizationId,
+      meetingId: id,
+      action: 'advisor_profile.updated',
+      entityType: 'AdvisorProfile',
+      entityId: profile.id,
+      before: meeting.advisorProfile,
+      after: profile,
+      actor: getAuditActor(req),
+    });
+
+    const inherited = await organizationProfile(req, meeting.organizationId);
+    res.json(formatProfile(profile, mergeAdvisorProfiles(inherited, profile)));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// DELETE /api/meetings/:id/advisor-profile - Go back to the organization's profile
+router.delete('/meetings/:id/advisor-profile', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const profile = await req.db.advisorProfile.delete({ where: { meetingId: id } });
+    invalidateAdvisorProfiles(profile.organizationId);
+
+    await recordAuditEvent({
+      organizationId: profile.organizationId,
+      meetingId: id,
+      action: 'advisor_profile.reset',
+      entityType: 'AdvisorProfile',
+      entityId: profile.id,
+      before: profile,
+      actor: getAuditActor(req),
+    });
+
+    const inherited = await organizationProfile(req, profile.organizationId);
+    res.json(formatProfile(null, mergeAdvisorProfiles(inherited)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
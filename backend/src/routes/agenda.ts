@@ -1,6 +1,8 @@
 import { Router } from 'express';
-import prisma from '../lib/prisma';
+import { requireMeetingRole } from '../middleware/auth';
 import { z } from 'zod';
+import { prepareMeeting } from '../services/ai/preparation';
+import { requestTimekeeperSync, setAgendaItemStatus } from '../services/agenda';
 
 const router = Router();
 
@@ -13,21 +15,28 @@ const createAgendaItemSchema = z.object({
   order: z.number().optional(),
 });
 
+const analyzeAgendaSchema = z.object({
+  agendaItemId: z.string().optional(),
+  force: z.boolean().default(false),
+});
+
 const updateAgendaItemSchema = createAgendaItemSchema.partial().extend({
   status: z.enum(['PENDING', 'IN_PROGRESS', 'COMPLETED', 'SKIPPED']).optional(),
   aiAnalysis: z.any().optional(),
 });
 
 // GET /api/meetings/:id/agenda - Get all agenda items for a meeting
-router.get('/:id/agenda', async (req, res, next) => {
+router.get('/:id/agenda', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const items = await prisma.agendaItem.findMany({
+    const items = await req.db.agendaItem.findMany({
       where: { meetingId: id },
       include: {
         documents: true,
-        prepQuestions: true,
+        prepQuestions: {
+          orderBy: [{ rank: 'asc' }, { createdAt: 'asc' }],
+        },
       },
       orderBy: { order: 'asc' },
     });
@@ -44,7 +53,7 @@ router.get('/:id/agenda', async (req, res, next) => {
 });
 
 // POST /api/meetings/:id/agenda - Create new agenda item
-router.post('/:id/agenda', async (req, res, next) => {
+router.post('/:id/agenda', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const data = createAgendaItemSchema.parse(req.body);
@@ -52,7 +61,7 @@ router.post('/:id/agenda', async (req, res, next) => {
     // Get the next order number if not provided
     let order = data.order;
     if (order === undefined) {
-      const maxOrder = await prisma.agendaItem.findFirst({
+      const maxOrder = await req.db.agendaItem.findFirst({
         where: { meetingId: id },
         orderBy: { order: 'desc' },
         select: { order: true },
@@ -60,7 +69,7 @@ router.post('/:id/agenda', async (req, res, next) => {
       order = (maxOrder?.order ?? 0) + 1;
     }
 
-    const item = await prisma.agendaItem.create({
+    const item = await req.db.agendaItem.create({
       data: {
         meetingId: id,
         title: data.title,
@@ -88,9 +97,9 @@ router.post('/:id/agenda', async (req, res, next) => {
 });
 
 // PUT /api/meetings/:id/agenda/:itemId - Update agenda item
-router.put('/:id/agenda/:itemId', async (req, res, next) => {
+router.put('/:id/agenda/:itemId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { itemId } = req.params;
+    const { id, itemId } = req.params;
     const data = updateAgendaItemSchema.parse(req.body);
 
     const updateData: any = {};
@@ -99,11 +108,10 @@ router.put('/:id/agenda/:itemId', async (req, res, next) => {
     if (data.duration) updateData.duration = data.duration;
     if (data.presenter !== undefined) updateData.presenter = data.presenter;
     if (data.order) updateData.order = data.order;
-    if (data.status) updateData.status = data.status;
     if (data.aiAnalysis !== undefined) updateData.aiAnalysis = data.aiAnalysis;
 
-    const item = await prisma.agendaItem.update({
-      where: { id: itemId },
+    let item = await req.db.agendaItem.update({
+      where: { id: itemId, meetingId: id },
       data: updateData,
       include: {
         documents: true,
@@ -111,6 +119,20 @@ router.put('/:id/agenda/:itemId', async (req, res, next) => {
       },
     });
 
+    // Status changes are timed and pushed to the meeting room like the live controls
+    if (data.status && data.status !== item.status) {
+      await setAgendaItemStatus(id, itemId, data.status);
+      await requestTimekeeperSync(id);
+
+      item = await req.db.agendaItem.findUniqueOrThrow({
+        where: { id: itemId },
+        include: {
+          documents: true,
+          prepQuestions: true,
+        },
+      });
+    }
+
     res.json({
       ...item,
       status: item.status.toLowerCase().replace('_', '-'),
@@ -124,12 +146,12 @@ router.put('/:id/agenda/:itemId', async (req, res, next) => {
 });
 
 // DELETE /api/meetings/:id/agenda/:itemId - Delete agenda item
-router.delete('/:id/agenda/:itemId', async (req, res, next) => {
+router.delete('/:id/agenda/:itemId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { itemId } = req.params;
+    const { id, itemId } = req.params;
 
-    await prisma.agendaItem.delete({
-      where: { id: itemId },
+    await req.db.agendaItem.delete({
+      where: { id: itemId, meetingId: id },
     });
 
     res.status(204).send();
@@ -139,21 +161,21 @@ router.delete('/:id/agenda/:itemId', async (req, res, next) => {
 });
 
 // POST /api/meetings/:id/agenda/reorder - Reorder agenda items
-router.post('/:id/agenda/reorder', async (req, res, next) => {
+router.post('/:id/agenda/reorder', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { items } = req.body; // Array of { id, order }
 
-    await prisma.$transaction(
+    await req.db.$transaction(
       items.map((item: { id: string; order: number }) =>
-        prisma.agendaItem.update({
-          where: { id: item.id },
+        req.db.agendaItem.update({
+          where: { id: item.id, meetingId: id },
           data: { order: item.order },
         })
       )
     );
 
-    const updated = await prisma.agendaItem.findMany({
+    const updated = await req.db.agendaItem.findMany({
       where: { meetingId: id },
       orderBy: { order: 'asc' },
     });
@@ -167,13 +189,53 @@ router.post('/:id/agenda/reorder', async (req, res, next) => {
   }
 });
 
+// POST /api/meetings/:id/agenda/analyze - Analyze briefing papers and generate prep questions
+// Re-runnable: items whose papers have not changed are left alone unless `force` is set
+router.post('/:id/agenda/analyze', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const data = analyzeAgendaSchema.parse(req.body ?? {});
+
+    const result = await prepareMeeting(id, data);
+
+    const [items, prepQuestions] = await Promise.all([
+      req.db.agendaItem.findMany({
+        where: { meetingId: id },
+        orderBy: { order: 'asc' },
+      }),
+      req.db.prepQuestion.findMany({
+        where: { meetingId: id },
+        orderBy: [{ rank: 'asc' }, { createdAt: 'asc' }],
+      }),
+    ]);
+
+    res.json({
+      ...result,
+      agenda: items.map((item) => ({
+        ...item,
+        status: item.status.toLowerCase().replace('_', '-'),
+      })),
+      prepQuestions: prepQuestions.map((q) => ({
+        ...q,
+        category: q.category.toLowerCase(),
+        priority: q.priority.toLowerCase(),
+      })),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
 // POST /api/meetings/:id/agenda/:itemId/questions - Add prep question
-router.post('/:id/agenda/:itemId/questions', async (req, res, next) => {
+router.post('/:id/agenda/:itemId/questions', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id, itemId } = req.params;
     const { question, category, priority, aiGenerated = false } = req.body;
 
-    const prepQuestion = await prisma.prepQuestion.create({
+    const prepQuestion = await req.db.prepQuestion.create({
       data: {
         meetingId: id,
         agendaItemId: itemId,
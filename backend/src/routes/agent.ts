@@ -5,36 +5,39 @@
  */
 
 import { Router, Request, Response } from 'express';
-import prisma from '../lib/prisma';
+import { z } from 'zod';
+import { requireMeetingRole } from '../middleware/auth';
 import { 
   joinMeeting, 
   leaveMeeting, 
   getBotStatus, 
   sendBotMessage,
   getRecordingInfo,
-  fetchAndStoreRecording,
+  queueRecordingFetch,
+  recallWebhookUrl,
 } from '../services/recall/bot';
-import { speak, sendMessage } from '../services/recall/audio-output';
+import { formatJob } from '../services/jobs';
+import { sendMessage, SpeakResult, StopSpeakingResult } from '../services/recall/audio-output';
 import {
-  enableAgent,
-  disableAgent,
-  updateAgentConfig,
-  isAgentEnabled,
-  getAgentConfig,
   getInsights,
   askAdvisor,
-  forceSpeak,
-  AdvisorConfig,
 } from '../services/openai/advisor-agent';
-import {
-  muteBot,
-  unmuteBot,
-  isMuted,
-  toggleMute,
-} from '../services/ai/wake-word';
+import { runOnMeetingOwner } from '../services/cluster';
+import { searchKnowledge, reindexMeeting, toChatSource } from '../services/knowledge';
 
 const router = Router();
 
+// Agent and bot state live on the replica that owns the meeting (see services/cluster);
+// speaking waits for text-to-speech on the owner
+const SPEAK_TIMEOUT_MS = 30000;
+
+const advisorConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  speakEnabled: z.boolean().optional(),
+  speakHighPriorityOnly: z.boolean().optional(),
+  minConfidence: z.number().min(0).max(1).optional(),
+});
+
 // ============================================
 // BOT MANAGEMENT
 // ============================================
@@ -43,7 +46,7 @@ const router = Router();
  * POST /api/meetings/:id/bot/join
  * Send Recall.ai bot to join the meeting
  */
-router.post('/meetings/:id/bot/join', async (req: Request, res: Response) => {
+router.post('/meetings/:id/bot/join', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
     const { meetingUrl, botName } = req.body;
@@ -52,23 +55,19 @@ router.post('/meetings/:id/bot/join', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'meetingUrl is required' });
     }
 
-    // Build webhook URL
-    const baseUrl = process.env.WEBHOOK_BASE_URL || `http://localhost:${process.env.PORT || 3001}`;
-    const webhookUrl = `${baseUrl}/webhooks/recall`;
-
     const botStatus = await joinMeeting({
       meetingId,
       meetingUrl,
       botName,
-      webhookUrl,
+      webhookUrl: recallWebhookUrl(),
       enableTranscription: true,
       enableChat: true,
     });
 
     res.status(200).json(botStatus);
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to join meeting:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -76,16 +75,16 @@ router.post('/meetings/:id/bot/join', async (req: Request, res: Response) => {
  * POST /api/meetings/:id/bot/leave
  * Remove bot from the meeting
  */
-router.post('/meetings/:id/bot/leave', async (req: Request, res: Response) => {
+router.post('/meetings/:id/bot/leave', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
 
     await leaveMeeting(meetingId);
 
     res.status(200).json({ success: true });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to leave meeting:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -93,7 +92,7 @@ router.post('/meetings/:id/bot/leave', async (req: Request, res: Response) => {
  * GET /api/meetings/:id/bot/status
  * Get current bot status
  */
-router.get('/meetings/:id/bot/status', async (req: Request, res: Response) => {
+router.get('/meetings/:id/bot/status', requireMeetingRole('VIEWER'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
 
@@ -104,9 +103,9 @@ router.get('/meetings/:id/bot/status', async (req: Request, res: Response) => {
     }
 
     res.status(200).json(status);
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to get bot status:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -114,34 +113,45 @@ router.get('/meetings/:id/bot/status', async (req: Request, res: Response) => {
  * GET /api/meetings/:id/bot/recording
  * Get meeting recording info (URL, transcript, duration)
  */
-router.get('/meetings/:id/bot/recording', async (req: Request, res: Response) => {
+router.get('/meetings/:id/bot/recording', requireMeetingRole('VIEWER'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
 
     const recordingInfo = await getRecordingInfo(meetingId);
     res.status(200).json(recordingInfo);
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to get recording info:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
 /**
  * POST /api/meetings/:id/bot/recording/refresh
- * Refresh recording info from Recall.ai
+ * Queue a job that refreshes the recording info from Recall.ai
  */
-router.post('/meetings/:id/bot/recording/refresh', async (req: Request, res: Response) => {
+router.post('/meetings/:id/bot/recording/refresh', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
 
-    const result = await fetchAndStoreRecording(meetingId);
-    res.status(200).json({
-      ...result,
-      status: result.recordingUrl ? 'available' : 'processing',
+    const meeting = await req.db.meeting.findUnique({
+      where: { id: meetingId },
+      include: { bot: true },
     });
-  } catch (error: any) {
+    if (!meeting?.bot) {
+      return res.status(404).json({ error: 'No bot found for this meeting' });
+    }
+
+    const job = await queueRecordingFetch(meetingId, meeting.organizationId);
+    res.status(202).json({
+      recordingUrl: meeting.recordingUrl,
+      transcriptUrl: meeting.transcriptUrl,
+      duration: meeting.recordingDuration,
+      status: 'processing',
+      job: formatJob(job),
+    });
+  } catch (error) {
     console.error('Failed to refresh recording:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -149,7 +159,7 @@ router.post('/meetings/:id/bot/recording/refresh', async (req: Request, res: Res
  * POST /api/meetings/:id/bot/speak
  * Make the bot speak in the meeting
  */
-router.post('/meetings/:id/bot/speak', async (req: Request, res: Response) => {
+router.post('/meetings/:id/bot/speak', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
     const { text, voice, speed, force } = req.body;
@@ -158,19 +168,40 @@ router.post('/meetings/:id/bot/speak', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'text is required' });
     }
 
-    const result = await speak({
-      meetingId,
+    const result = await runOnMeetingOwner<SpeakResult>(meetingId, 'bot.speak', {
       text,
       voice,
       speed,
       force,
       alsoChatMessage: true,
-    });
+      asked: true,
+    }, { timeoutMs: SPEAK_TIMEOUT_MS });
 
     res.status(200).json(result);
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to speak:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/meetings/:id/bot/stop-speaking
+ * Cut the bot off: stop its audio and drop what it was going to say
+ */
+router.post('/meetings/:id/bot/stop-speaking', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
+  try {
+    const { id: meetingId } = req.params;
+    const { user } = req.auth!;
+
+    const result = await runOnMeetingOwner<StopSpeakingResult>(meetingId, 'bot.stop-speaking', {
+      reason: 'manual',
+      by: user.name,
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Failed to stop speaking:', error);
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -178,7 +209,7 @@ router.post('/meetings/:id/bot/speak', async (req: Request, res: Response) => {
  * POST /api/meetings/:id/bot/message
  * Send a chat message (without speaking)
  */
-router.post('/meetings/:id/bot/message', async (req: Request, res: Response) => {
+router.post('/meetings/:id/bot/message', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
     const { message } = req.body;
@@ -190,9 +221,9 @@ router.post('/meetings/:id/bot/message', async (req: Request, res: Response) =>
     const success = await sendMessage(meetingId, message);
 
     res.status(200).json({ success });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to send message:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -204,20 +235,23 @@ router.post('/meetings/:id/bot/message', async (req: Request, res: Response) =>
  * POST /api/meetings/:id/agent/enable
  * Enable the advisor agent for a meeting
  */
-router.post('/meetings/:id/agent/enable', async (req: Request, res: Response) => {
+router.post('/meetings/:id/agent/enable', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
-    const config: Partial<AdvisorConfig> = req.body;
+    const config = advisorConfigSchema.parse(req.body ?? {});
 
-    await enableAgent(meetingId, config);
+    const agentConfig = await runOnMeetingOwner(meetingId, 'agent.enable', config, { claim: true });
 
     res.status(200).json({ 
       enabled: true,
-      config: getAgentConfig(meetingId),
+      config: agentConfig,
     });
-  } catch (error: any) {
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
     console.error('Failed to enable agent:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -225,16 +259,16 @@ router.post('/meetings/:id/agent/enable', async (req: Request, res: Response) =>
  * POST /api/meetings/:id/agent/disable
  * Disable the advisor agent for a meeting
  */
-router.post('/meetings/:id/agent/disable', async (req: Request, res: Response) => {
+router.post('/meetings/:id/agent/disable', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
 
-    disableAgent(meetingId);
+    await runOnMeetingOwner(meetingId, 'agent.disable');
 
     res.status(200).json({ enabled: false });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to disable agent:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -242,17 +276,16 @@ router.post('/meetings/:id/agent/disable', async (req: Request, res: Response) =
  * GET /api/meetings/:id/agent/status
  * Get agent status and configuration
  */
-router.get('/meetings/:id/agent/status', async (req: Request, res: Response) => {
+router.get('/meetings/:id/agent/status', requireMeetingRole('VIEWER'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
 
-    const enabled = isAgentEnabled(meetingId);
-    const config = getAgentConfig(meetingId);
+    const status = await runOnMeetingOwner(meetingId, 'agent.status');
 
-    res.status(200).json({ enabled, config });
-  } catch (error: any) {
+    res.status(200).json(status);
+  } catch (error) {
     console.error('Failed to get agent status:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -260,20 +293,23 @@ router.get('/meetings/:id/agent/status', async (req: Request, res: Response) =>
  * PUT /api/meetings/:id/agent/config
  * Update agent configuration
  */
-router.put('/meetings/:id/agent/config', async (req: Request, res: Response) => {
+router.put('/meetings/:id/agent/config', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
-    const config: Partial<AdvisorConfig> = req.body;
+    const config = advisorConfigSchema.parse(req.body);
 
-    updateAgentConfig(meetingId, config);
+    const agentConfig = await runOnMeetingOwner(meetingId, 'agent.config', config);
 
     res.status(200).json({ 
       success: true,
-      config: getAgentConfig(meetingId),
+      config: agentConfig,
     });
-  } catch (error: any) {
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
     console.error('Failed to update agent config:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -281,7 +317,7 @@ router.put('/meetings/:id/agent/config', async (req: Request, res: Response) =>
  * GET /api/meetings/:id/agent/insights
  * Get agent insights for a meeting
  */
-router.get('/meetings/:id/agent/insights', async (req: Request, res: Response) => {
+router.get('/meetings/:id/agent/insights', requireMeetingRole('VIEWER'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
     const limit = parseInt(req.query.limit as string) || 50;
@@ -289,9 +325,9 @@ router.get('/meetings/:id/agent/insights', async (req: Request, res: Response) =
     const insights = await getInsights(meetingId, limit);
 
     res.status(200).json(insights);
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to get insights:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -299,7 +335,7 @@ router.get('/meetings/:id/agent/insights', async (req: Request, res: Response) =
  * POST /api/meetings/:id/agent/ask
  * Ask the advisor a direct question
  */
-router.post('/meetings/:id/agent/ask', async (req: Request, res: Response) => {
+router.post('/meetings/:id/agent/ask', requireMeetingRole('VIEWER'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
     const { question } = req.body;
@@ -308,12 +344,12 @@ router.post('/meetings/:id/agent/ask', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'question is required' });
     }
 
-    const answer = await askAdvisor(meetingId, question);
+    const { answer, sources } = await askAdvisor(meetingId, question);
 
-    res.status(200).json({ answer });
-  } catch (error: any) {
+    res.status(200).json({ answer, sources });
+  } catch (error) {
     console.error('Failed to ask advisor:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -321,7 +357,7 @@ router.post('/meetings/:id/agent/ask', async (req: Request, res: Response) => {
  * POST /api/meetings/:id/agent/speak
  * Force the agent to speak a specific message
  */
-router.post('/meetings/:id/agent/speak', async (req: Request, res: Response) => {
+router.post('/meetings/:id/agent/speak', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
     const { text } = req.body;
@@ -330,12 +366,60 @@ router.post('/meetings/:id/agent/speak', async (req: Request, res: Response) =>
       return res.status(400).json({ error: 'text is required' });
     }
 
-    const success = await forceSpeak(meetingId, text);
+    const success = await runOnMeetingOwner<boolean>(meetingId, 'agent.speak', { text }, { timeoutMs: SPEAK_TIMEOUT_MS });
 
     res.status(200).json({ success });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to force speak:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// ============================================
+// KNOWLEDGE INDEX
+// ============================================
+
+/**
+ * GET /api/meetings/:id/agent/knowledge/search?q=
+ * Search indexed documents, transcripts and summaries (this meeting and the org's past meetings)
+ */
+router.get('/meetings/:id/agent/knowledge/search', requireMeetingRole('VIEWER'), async (req: Request, res: Response) => {
+  try {
+    const { id: meetingId } = req.params;
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    if (!query) {
+      return res.status(400).json({ error: 'q is required' });
+    }
+
+    const results = await searchKnowledge(meetingId, query, {
+      currentMeetingOnly: req.query.scope === 'meeting',
+    });
+
+    res.status(200).json(results.map((chunk) => ({
+      ...toChatSource(chunk, meetingId),
+      score: chunk.score,
+    })));
+  } catch (error) {
+    console.error('Failed to search knowledge:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/meetings/:id/agent/knowledge/reindex
+ * Rebuild the meeting's chunks (documents, summary, transcript)
+ */
+router.post('/meetings/:id/agent/knowledge/reindex', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
+  try {
+    const { id: meetingId } = req.params;
+
+    const result = await reindexMeeting(meetingId);
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Failed to reindex meeting knowledge:', error);
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -347,11 +431,11 @@ router.post('/meetings/:id/agent/speak', async (req: Request, res: Response) =>
  * GET /api/meetings/:id/bot
  * Get bot information for a meeting
  */
-router.get('/meetings/:id/bot', async (req: Request, res: Response) => {
+router.get('/meetings/:id/bot', requireMeetingRole('VIEWER'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
 
-    const bot = await prisma.meetingBot.findUnique({
+    const bot = await req.db.meetingBot.findUnique({
       where: { meetingId },
     });
 
@@ -360,9 +444,9 @@ router.get('/meetings/:id/bot', async (req: Request, res: Response) => {
     }
 
     res.status(200).json(bot);
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to get bot:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -374,14 +458,14 @@ router.get('/meetings/:id/bot', async (req: Request, res: Response) => {
  * POST /api/meetings/:id/bot/mute
  * Mute the bot (stops responding to wake words)
  */
-router.post('/meetings/:id/bot/mute', async (req: Request, res: Response) => {
+router.post('/meetings/:id/bot/mute', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
-    muteBot(meetingId);
+    await runOnMeetingOwner(meetingId, 'bot.mute');
     res.status(200).json({ muted: true });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to mute bot:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -389,14 +473,14 @@ router.post('/meetings/:id/bot/mute', async (req: Request, res: Response) => {
  * POST /api/meetings/:id/bot/unmute
  * Unmute the bot (resumes responding to wake words)
  */
-router.post('/meetings/:id/bot/unmute', async (req: Request, res: Response) => {
+router.post('/meetings/:id/bot/unmute', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
-    unmuteBot(meetingId);
+    await runOnMeetingOwner(meetingId, 'bot.unmute');
     res.status(200).json({ muted: false });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to unmute bot:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -404,14 +488,14 @@ router.post('/meetings/:id/bot/unmute', async (req: Request, res: Response) => {
  * POST /api/meetings/:id/bot/toggle-mute
  * Toggle the bot's mute state
  */
-router.post('/meetings/:id/bot/toggle-mute', async (req: Request, res: Response) => {
+router.post('/meetings/:id/bot/toggle-mute', requireMeetingRole('EDITOR'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
-    const newMuteState = toggleMute(meetingId);
+    const newMuteState = await runOnMeetingOwner<boolean>(meetingId, 'bot.toggle-mute');
     res.status(200).json({ muted: newMuteState });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to toggle mute:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
@@ -419,14 +503,14 @@ router.post('/meetings/:id/bot/toggle-mute', async (req: Request, res: Response)
  * GET /api/meetings/:id/bot/mute-status
  * Get the bot's current mute status
  */
-router.get('/meetings/:id/bot/mute-status', async (req: Request, res: Response) => {
+router.get('/meetings/:id/bot/mute-status', requireMeetingRole('VIEWER'), async (req: Request, res: Response) => {
   try {
     const { id: meetingId } = req.params;
-    const muted = isMuted(meetingId);
+    const muted = await runOnMeetingOwner<boolean>(meetingId, 'bot.mute-status');
     res.status(200).json({ muted });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Failed to get mute status:', error);
-    res.status(500).json({ error: error.message });
+    res.status(500).json({ error: (error as Error).message });
   }
 });
 
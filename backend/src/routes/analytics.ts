@@ -0,0 +1,61 @@
+/**
+ * Analytics Routes
+ *
+ * Participation analytics for a meeting (talk time, interruptions, questions,
+ * agenda timing) and an organization rollup over a date range (attendance,
+ * overruns by meeting type), as evidence for board effectiveness reviews.
+ */
+
+import { Request, Router } from 'express';
+import { z } from 'zod';
+import { requireMeetingRole, requireOrgRole } from '../middleware/auth';
+import { getMeetingAnalytics, getOrganizationAnalytics } from '../services/analytics';
+
+const router = Router();
+
+const organizationAnalyticsSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  type: z.enum(['BOARD', 'COMMITTEE', 'REVIEW', 'STRATEGY', 'OPERATIONS']).optional(),
+});
+
+async function resolveOrganizationId(req: Request): Promise<string | null> {
+  const organization = await req.db.organization.findUnique({
+    where: { slug: req.params.slug },
+    select: { id: true },
+  });
+  return organization?.id ?? null;
+}
+
+// Resolve :slug to an organization id for role checks
+const requireOrgViewer = requireOrgRole('VIEWER', resolveOrganizationId, 'Organization not found');
+
+// GET /api/meetings/:id/analytics - Talk time, interruptions, questions and agenda timing
+router.get('/meetings/:id/analytics', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    res.json(await getMeetingAnalytics(req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/organizations/:slug/analytics - Attendance and overruns (?from=&to=&type=)
+router.get('/organizations/:slug/analytics', requireOrgViewer, async (req, res, next) => {
+  try {
+    const query = organizationAnalyticsSchema.parse({
+      ...req.query,
+      type: typeof req.query.type === 'string' ? req.query.type.toUpperCase() : undefined,
+    });
+
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    res.json(await getOrganizationAnalytics(organizationId, query));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
-import prisma from '../lib/prisma';
+import { requireOrgRole } from '../middleware/auth';
+import { hasOrgRole } from '../services/auth';
 import { z } from 'zod';
 
 const router = Router();
@@ -15,7 +16,17 @@ const createAttendeeSchema = z.object({
   isExternal: z.boolean().default(false),
 });
 
-const updateAttendeeSchema = createAttendeeSchema.partial();
+const updateAttendeeSchema = createAttendeeSchema.partial().omit({ organizationId: true });
+
+// Resolve attendee :id to its organization for role checks
+const requireAttendeeRole = (minRole: 'VIEWER' | 'EDITOR') =>
+  requireOrgRole(minRole, async (req) => {
+    const attendee = await req.db.attendee.findUnique({
+      where: { id: req.params.id },
+      select: { organizationId: true },
+    });
+    return attendee?.organizationId ?? null;
+  }, 'Attendee not found');
 
 // GET /api/attendees - List all attendees
 router.get('/', async (req, res, next) => {
@@ -28,12 +39,13 @@ router.get('/', async (req, res, next) => {
     if (organizationId) {
       where.organizationId = organizationId;
     } else if (organizationSlug) {
-      const org = await prisma.organization.findUnique({
+      const org = await req.db.organization.findUnique({
         where: { slug: organizationSlug as string },
       });
-      if (org) {
-        where.organizationId = org.id;
+      if (!org) {
+        return res.status(404).json({ error: 'Organization not found' });
       }
+      where.organizationId = org.id;
     }
     
     if (search) {
@@ -45,7 +57,7 @@ router.get('/', async (req, res, next) => {
       ];
     }
 
-    const attendees = await prisma.attendee.findMany({
+    const attendees = await req.db.attendee.findMany({
       where,
       include: {
         organization: {
@@ -64,11 +76,11 @@ router.get('/', async (req, res, next) => {
 });
 
 // GET /api/attendees/:id - Get single attendee
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', requireAttendeeRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const attendee = await prisma.attendee.findUnique({
+    const attendee = await req.db.attendee.findUnique({
       where: { id },
       include: {
         meetings: {
@@ -127,7 +139,11 @@ router.post('/', async (req, res, next) => {
   try {
     const data = createAttendeeSchema.parse(req.body);
 
-    const attendee = await prisma.attendee.create({
+    if (!hasOrgRole(req.auth!, data.organizationId, 'EDITOR')) {
+      return res.status(403).json({ error: 'Insufficient permissions', requiredRole: 'editor' });
+    }
+
+    const attendee = await req.db.attendee.create({
       data,
     });
 
@@ -141,12 +157,12 @@ router.post('/', async (req, res, next) => {
 });
 
 // PUT /api/attendees/:id - Update attendee
-router.put('/:id', async (req, res, next) => {
+router.put('/:id', requireAttendeeRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const data = updateAttendeeSchema.parse(req.body);
 
-    const attendee = await prisma.attendee.update({
+    const attendee = await req.db.attendee.update({
       where: { id },
       data,
     });
@@ -161,11 +177,11 @@ router.put('/:id', async (req, res, next) => {
 });
 
 // DELETE /api/attendees/:id - Delete attendee
-router.delete('/:id', async (req, res, next) => {
+router.delete('/:id', requireAttendeeRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    await prisma.attendee.delete({
+    await req.db.attendee.delete({
       where: { id },
     });
 
@@ -0,0 +1,134 @@
+/**
+ * Audit Routes
+ *
+ * The organization's audit trail of governance actions, for organization
+ * admins: query it, export it for regulators, and check that its hash chain
+ * is intact.
+ */
+
+import { Router, Request } from 'express';
+import { z } from 'zod';
+import { requireOrgRole } from '../middleware/auth';
+import {
+  AuditFilters,
+  auditWhere,
+  formatAuditEvent,
+  iterateAuditEvents,
+  verifyAuditChain,
+} from '../services/audit';
+
+const router = Router();
+
+const filtersSchema = z.object({
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  action: z.string().optional(),
+  meetingId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const listAuditSchema = filtersSchema.extend({
+  // Sequence number to page back from (exclusive)
+  before: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const exportAuditSchema = filtersSchema.extend({
+  format: z.enum(['ndjson', 'csv']).default('ndjson'),
+});
+
+const CSV_COLUMNS = [
+  'sequence', 'createdAt', 'actorType', 'actorId', 'actorEmail', 'action', 'entityType',
+  'entityId', 'meetingId', 'changes', 'before', 'after', 'requestId', 'ipAddress', 'prevHash', 'hash',
+] as const;
+
+async function resolveOrganizationId(req: Request): Promise<string | null> {
+  const organization = await req.db.organization.findUnique({
+    where: { slug: req.params.slug },
+    select: { id: true },
+  });
+  return organization?.id ?? null;
+}
+
+// Resolve :slug to an organization id for role checks
+const requireOrgAdmin = requireOrgRole('ADMIN', resolveOrganizationId, 'Organization not found');
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// GET /api/organizations/:slug/audit - Audit events, newest first
+router.get('/:slug/audit', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const { before, limit, ...filters } = listAuditSchema.parse(req.query);
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const events = await req.db.auditEvent.findMany({
+      where: {
+        ...auditWhere(organizationId, filters),
+        ...(before && { sequence: { lt: before } }),
+      },
+      orderBy: { sequence: 'desc' },
+      take: limit,
+    });
+
+    res.json(events.map(formatAuditEvent));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /api/organizations/:slug/audit/export - Download audit events, oldest first (?format=ndjson|csv)
+router.get('/:slug/audit/export', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const { format, ...filters } = exportAuditSchema.parse(req.query);
+    const organizationId = (await resolveOrganizationId(req))!;
+    const events = iterateAuditEvents(organizationId, filters as AuditFilters);
+    const filename = `audit-${req.params.slug}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (format === 'csv') {
+      res.type('text/csv');
+      res.write(`${CSV_COLUMNS.join(',')}\n`);
+      for await (const event of events) {
+        res.write(`${CSV_COLUMNS.map((column) => csvCell(event[column])).join(',')}\n`);
+      }
+    } else {
+      res.type('application/x-ndjson');
+      for await (const event of events) {
+        res.write(`${JSON.stringify(formatAuditEvent(event))}\n`);
+      }
+    }
+
+    res.end();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    // Headers are gone once streaming started; cut the download short instead
+    if (res.headersSent) {
+      return res.destroy(error as Error);
+    }
+    next(error);
+  }
+});
+
+// GET /api/organizations/:slug/audit/verify - Check the hash chain
+router.get('/:slug/audit/verify', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const organizationId = (await resolveOrganizationId(req))!;
+    res.json(await verifyAuditChain(organizationId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { authenticate } from '../middleware/auth';
+import { login, revokeSession } from '../services/auth';
+
+const router = Router();
+
+// Validation schemas
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+// POST /api/auth/login - Exchange credentials for a bearer token
+router.post('/login', async (req, res, next) => {
+  try {
+    const { email, password } = loginSchema.parse(req.body);
+
+    const session = await login(email, password, {
+      userAgent: req.headers['user-agent'],
+      ipAddress: req.ip,
+    });
+
+    if (!session) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    res.json({
+      token: session.token,
+      expiresAt: session.expiresAt,
+      user: {
+        ...session.user,
+        role: session.user.role.toLowerCase(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// POST /api/auth/logout - Revoke the current session
+router.post('/logout', authenticate, async (req, res, next) => {
+  try {
+    await revokeSession(req.auth!.sessionId);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/auth/me - Current user and organization memberships
+router.get('/me', authenticate, async (req, res, next) => {
+  try {
+    const { user } = req.auth!;
+
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId: user.id },
+      include: {
+        organization: {
+          select: { id: true, name: true, slug: true, logo: true },
+        },
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    res.json({
+      ...user,
+      role: user.role.toLowerCase(),
+      memberships: memberships.map((m) => ({
+        organization: m.organization,
+        role: m.role.toLowerCase(),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,173 @@
+/**
+ * Calendar Routes
+ *
+ * Calendars an organization imports its meetings from (ICS feeds and CalDAV
+ * collections), for organization admins. Syncs run as background jobs: on a
+ * schedule (see services/calendar/scheduler) or on demand.
+ */
+
+import { Router, Request } from 'express';
+import { CalendarSource } from '@prisma/client';
+import { z } from 'zod';
+import { requireOrgRole } from '../middleware/auth';
+import { encryptSecret } from '../lib/secrets';
+import { queueCalendarSync, sendsCredentialsInClear } from '../services/calendar';
+import { formatJob } from '../services/jobs';
+
+const router = Router();
+
+const createCalendarSchema = z.object({
+  name: z.string().min(1),
+  kind: z.enum(['ICS', 'CALDAV']),
+  url: z.string().url().refine((url) => /^(https?|webcal):\/\//i.test(url), 'Must be an http(s) or webcal URL'),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  meetingType: z.enum(['BOARD', 'COMMITTEE', 'REVIEW', 'STRATEGY', 'OPERATIONS']).default('BOARD'),
+  autoJoinBot: z.boolean().default(true),
+  syncEnabled: z.boolean().default(true),
+});
+
+const updateCalendarSchema = createCalendarSchema.partial().extend({
+  // null clears the stored credentials
+  username: z.string().nullable().optional(),
+  password: z.string().nullable().optional(),
+});
+
+async function resolveOrganizationId(req: Request): Promise<string | null> {
+  const organization = await req.db.organization.findUnique({
+    where: { slug: req.params.slug },
+    select: { id: true },
+  });
+  return organization?.id ?? null;
+}
+
+// Resolve :slug to an organization id for role checks
+const requireOrgAdmin = requireOrgRole('ADMIN', resolveOrganizationId, 'Organization not found');
+
+const CLEAR_CREDENTIALS_ERROR = 'Calendars with a username or password must use https';
+
+// The password is stored encrypted
+function withEncryptedPassword<T extends { password?: string | null }>(data: T): T {
+  return data.password ? { ...data, password: encryptSecret(data.password) } : data;
+}
+
+// API shape of a calendar (the password never leaves the server)
+function formatCalendar(calendar: CalendarSource & { _count?: { meetings: number } }) {
+  const { password, ...rest } = calendar;
+  return {
+    ...rest,
+    kind: calendar.kind.toLowerCase(),
+    meetingType: calendar.meetingType.toLowerCase(),
+    hasPassword: password !== null,
+  };
+}
+
+// GET /api/organizations/:slug/calendars - Calendars of the organization
+router.get('/:slug/calendars', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const calendars = await req.db.calendarSource.findMany({
+      where: { organizationId },
+      include: { _count: { select: { meetings: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(calendars.map(formatCalendar));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/organizations/:slug/calendars - Add a calendar and run its first sync
+router.post('/:slug/calendars', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const data = createCalendarSchema.parse(req.body);
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    if (sendsCredentialsInClear({ url: data.url, username: data.username ?? null, password: data.password ?? null })) {
+      return res.status(400).json({ error: CLEAR_CREDENTIALS_ERROR });
+    }
+
+    const calendar = await req.db.calendarSource.create({
+      data: { ...withEncryptedPassword(data), organizationId },
+    });
+
+    const job = calendar.syncEnabled ? await queueCalendarSync(calendar) : null;
+
+    res.status(201).json({ ...formatCalendar(calendar), job: job && formatJob(job) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// PUT /api/organizations/:slug/calendars/:calendarId - Update a calendar
+router.put('/:slug/calendars/:calendarId', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const data = updateCalendarSchema.parse(req.body);
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const before = await req.db.calendarSource.findFirst({
+      where: { id: req.params.calendarId, organizationId },
+      select: { url: true, username: true, password: true },
+    });
+    if (!before) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+    if (sendsCredentialsInClear({ ...before, ...data })) {
+      return res.status(400).json({ error: CLEAR_CREDENTIALS_ERROR });
+    }
+
+    const calendar = await req.db.calendarSource.update({
+      where: { id: req.params.calendarId, organizationId },
+      data: withEncryptedPassword(data),
+    });
+
+    res.json(formatCalendar(calendar));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// DELETE /api/organizations/:slug/calendars/:calendarId - Stop importing (meetings are kept)
+router.delete('/:slug/calendars/:calendarId', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    await req.db.calendarSource.delete({
+      where: { id: req.params.calendarId, organizationId },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/organizations/:slug/calendars/:calendarId/sync - Sync now
+router.post('/:slug/calendars/:calendarId/sync', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const calendar = await req.db.calendarSource.findFirst({
+      where: { id: req.params.calendarId, organizationId },
+    });
+
+    if (!calendar) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+
+    const job = await queueCalendarSync(calendar);
+    res.status(202).json(formatJob(job));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
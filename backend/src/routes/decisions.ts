@@ -1,5 +1,8 @@
 import { Router } from 'express';
-import prisma from '../lib/prisma';
+import { requireMeetingRole } from '../middleware/auth';
+import { getAuditActor } from '../middleware/audit-log';
+import { recordAuditEvent } from '../services/audit';
+import { notifyDecisionRecorded } from '../services/notifications';
 import { z } from 'zod';
 
 const router = Router();
@@ -16,11 +19,11 @@ const createDecisionSchema = z.object({
 const updateDecisionSchema = createDecisionSchema.partial();
 
 // GET /api/meetings/:id/decisions - Get all decisions for a meeting
-router.get('/:id/decisions', async (req, res, next) => {
+router.get('/:id/decisions', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const decisions = await prisma.decision.findMany({
+    const decisions = await req.db.decision.findMany({
       where: { meetingId: id },
       orderBy: { timestamp: 'desc' },
     });
@@ -32,12 +35,12 @@ router.get('/:id/decisions', async (req, res, next) => {
 });
 
 // POST /api/meetings/:id/decisions - Record a decision
-router.post('/:id/decisions', async (req, res, next) => {
+router.post('/:id/decisions', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const data = createDecisionSchema.parse(req.body);
 
-    const decision = await prisma.decision.create({
+    const decision = await req.db.decision.create({
       data: {
         meetingId: id,
         description: data.description,
@@ -48,6 +51,17 @@ router.post('/:id/decisions', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'decision.created',
+      entityType: 'Decision',
+      entityId: decision.id,
+      after: decision,
+      actor: getAuditActor(req),
+    });
+
+    notifyDecisionRecorded(decision.id).catch((error) => console.error('Failed to notify attendees:', error));
+
     res.status(201).json(decision);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -58,16 +72,30 @@ router.post('/:id/decisions', async (req, res, next) => {
 });
 
 // PUT /api/meetings/:id/decisions/:decisionId - Update decision
-router.put('/:id/decisions/:decisionId', async (req, res, next) => {
+router.put('/:id/decisions/:decisionId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { decisionId } = req.params;
+    const { id, decisionId } = req.params;
     const data = updateDecisionSchema.parse(req.body);
 
-    const decision = await prisma.decision.update({
-      where: { id: decisionId },
+    const before = await req.db.decision.findUnique({
+      where: { id: decisionId, meetingId: id },
+    });
+
+    const decision = await req.db.decision.update({
+      where: { id: decisionId, meetingId: id },
       data,
     });
 
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'decision.updated',
+      entityType: 'Decision',
+      entityId: decision.id,
+      before,
+      after: decision,
+      actor: getAuditActor(req),
+    });
+
     res.json(decision);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -78,12 +106,21 @@ router.put('/:id/decisions/:decisionId', async (req, res, next) => {
 });
 
 // DELETE /api/meetings/:id/decisions/:decisionId - Delete decision
-router.delete('/:id/decisions/:decisionId', async (req, res, next) => {
+router.delete('/:id/decisions/:decisionId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { decisionId } = req.params;
+    const { id, decisionId } = req.params;
+
+    const decision = await req.db.decision.delete({
+      where: { id: decisionId, meetingId: id },
+    });
 
-    await prisma.decision.delete({
-      where: { id: decisionId },
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'decision.deleted',
+      entityType: 'Decision',
+      entityId: decision.id,
+      before: decision,
+      actor: getAuditActor(req),
     });
 
     res.status(204).send();
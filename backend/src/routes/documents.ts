@@ -1,80 +1,181 @@
-import { Router } from 'express';
-import prisma from '../lib/prisma';
+import { Router, Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import multer from 'multer';
+import { requireMeetingRole } from '../middleware/auth';
 import { z } from 'zod';
+import {
+  getStorage,
+  detectFileType,
+  buildStorageKey,
+  queueDocumentExtraction,
+  deleteStoredFile,
+} from '../services/documents';
+import { formatJob } from '../services/jobs';
+import { indexDocument } from '../services/knowledge';
+import { scheduleAnalysisRefresh } from '../services/ai/preparation';
 
 const router = Router();
 
-// Validation schema
-const createDocumentSchema = z.object({
+const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_SIZE_MB || '100') * 1024 * 1024;
+
+// Files are held in memory just long enough to detect, store and extract them
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+function uploadSingleFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ error: error.message });
+    }
+    next(error);
+  });
+}
+
+// Validation schemas
+const createLinkSchema = z.object({
   title: z.string().min(1),
-  type: z.enum(['PDF', 'DOC', 'SPREADSHEET', 'PRESENTATION', 'LINK']),
   url: z.string().url(),
   agendaItemId: z.string().optional(),
   summary: z.string().optional(),
-  fileSize: z.number().optional(),
 });
 
+const uploadDocumentSchema = z.object({
+  title: z.string().min(1).optional(),
+  agendaItemId: z.string().optional(),
+});
+
+// Everything except the extracted text, which can be megabytes per board pack
+const documentSelect = {
+  id: true,
+  meetingId: true,
+  agendaItemId: true,
+  title: true,
+  type: true,
+  url: true,
+  summary: true,
+  uploadedAt: true,
+  fileSize: true,
+  originalName: true,
+  mimeType: true,
+  pageCount: true,
+  extractionStatus: true,
+  extractionError: true,
+  agendaItem: {
+    select: {
+      id: true,
+      title: true,
+      order: true,
+    },
+  },
+} as const;
+
+function transformDocument<T extends { type: string; extractionStatus: string | null }>(doc: T) {
+  return {
+    ...doc,
+    type: doc.type.toLowerCase(),
+    extractionStatus: doc.extractionStatus?.toLowerCase() ?? null,
+  };
+}
+
 // GET /api/meetings/:id/documents - Get all documents for a meeting
-router.get('/:id/documents', async (req, res, next) => {
+router.get('/:id/documents', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const documents = await prisma.briefingDocument.findMany({
+    const documents = await req.db.briefingDocument.findMany({
       where: { meetingId: id },
-      include: {
-        agendaItem: {
-          select: {
-            id: true,
-            title: true,
-            order: true,
-          },
-        },
-      },
+      select: documentSelect,
       orderBy: { uploadedAt: 'desc' },
     });
 
-    const transformed = documents.map((doc) => ({
-      ...doc,
-      type: doc.type.toLowerCase(),
-    }));
-
-    res.json(transformed);
+    res.json(documents.map(transformDocument));
   } catch (error) {
     next(error);
   }
 });
 
-// POST /api/meetings/:id/documents - Upload a document
-router.post('/:id/documents', async (req, res, next) => {
+// POST /api/meetings/:id/documents - Register a linked document (SharePoint, web page, ...)
+router.post('/:id/documents', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
-    const data = createDocumentSchema.parse(req.body);
+    const data = createLinkSchema.parse(req.body);
 
-    const document = await prisma.briefingDocument.create({
+    const document = await req.db.briefingDocument.create({
       data: {
         meetingId: id,
         title: data.title,
-        type: data.type,
+        type: 'LINK',
         url: data.url,
         agendaItemId: data.agendaItemId,
         summary: data.summary,
-        fileSize: data.fileSize,
-      },
-      include: {
-        agendaItem: {
-          select: {
-            id: true,
-            title: true,
-            order: true,
-          },
-        },
       },
+      select: documentSelect,
+    });
+
+    scheduleAnalysisRefresh(document.agendaItemId);
+
+    res.status(201).json(transformDocument(document));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// POST /api/meetings/:id/documents/upload - Upload a PDF/DOCX/XLSX/PPTX file (multipart field "file")
+router.post('/:id/documents/upload', requireMeetingRole('EDITOR'), uploadSingleFile, async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const data = uploadDocumentSchema.parse(req.body);
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'file is required' });
+    }
+
+    // Type comes from the file contents, not the client's name or MIME type
+    const detected = await detectFileType(req.file.buffer);
+
+    const meeting = await req.db.meeting.findUniqueOrThrow({
+      where: { id },
+      select: { organizationId: true },
     });
 
-    res.status(201).json({
-      ...document,
-      type: document.type.toLowerCase(),
+    const documentId = randomUUID();
+    const storageKey = buildStorageKey(meeting.organizationId, id, documentId, detected.extension);
+    await getStorage().put(storageKey, req.file.buffer, detected.mimeType);
+
+    const originalName = Buffer.from(req.file.originalname, 'latin1').toString('utf8');
+
+    const document = await req.db.briefingDocument.create({
+      data: {
+        id: documentId,
+        meetingId: id,
+        title: data.title || path.parse(originalName).name,
+        type: detected.type,
+        url: `/api/meetings/${id}/documents/${documentId}/file`,
+        agendaItemId: data.agendaItemId,
+        fileSize: req.file.size,
+        storageKey,
+        originalName,
+        mimeType: detected.mimeType,
+        extractionStatus: 'PENDING',
+      },
+      select: documentSelect,
+    }).catch(async (error) => {
+      await deleteStoredFile(storageKey);
+      throw error;
     });
+
+    // Extract in the background on the job queue
+    // @AI-INTEGRATION-POINT: extracted text feeds the advisor and document agents
+    await queueDocumentExtraction(documentId, meeting.organizationId, id);
+
+    res.status(201).json(transformDocument(document));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: 'Validation error', details: error.errors });
@@ -83,48 +184,134 @@ router.post('/:id/documents', async (req, res, next) => {
   }
 });
 
+// GET /api/meetings/:id/documents/:docId/file - Download the uploaded file
+router.get('/:id/documents/:docId/file', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const { id, docId } = req.params;
+
+    const document = await req.db.briefingDocument.findUnique({
+      where: { id: docId, meetingId: id },
+      select: { storageKey: true, mimeType: true, originalName: true, title: true },
+    });
+
+    if (!document?.storageKey) {
+      return res.status(404).json({ error: 'No file stored for this document' });
+    }
+
+    const stream = await getStorage().stream(document.storageKey);
+    const filename = document.originalName || document.title;
+
+    res.setHeader('Content-Type', document.mimeType || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    stream.on('error', next);
+    stream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/meetings/:id/documents/:docId/text - Get extracted text
+router.get('/:id/documents/:docId/text', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const { id, docId } = req.params;
+
+    const document = await req.db.briefingDocument.findUnique({
+      where: { id: docId, meetingId: id },
+      select: { id: true, extractedText: true, pageCount: true, extractionStatus: true, extractionError: true },
+    });
+
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    res.json({
+      id: document.id,
+      text: document.extractedText,
+      pageCount: document.pageCount,
+      extractionStatus: document.extractionStatus?.toLowerCase() ?? null,
+      extractionError: document.extractionError,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/meetings/:id/documents/:docId/extract - Re-run text extraction
+router.post('/:id/documents/:docId/extract', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id, docId } = req.params;
+
+    const document = await req.db.briefingDocument.findUnique({
+      where: { id: docId, meetingId: id },
+      select: { storageKey: true, meeting: { select: { organizationId: true } } },
+    });
+
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    if (!document.storageKey) {
+      return res.status(400).json({ error: 'Linked documents have no file to extract' });
+    }
+
+    const job = await queueDocumentExtraction(docId, document.meeting.organizationId, id);
+
+    res.status(202).json({ id: docId, extractionStatus: 'pending', job: formatJob(job) });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // PUT /api/meetings/:id/documents/:docId - Update document
-router.put('/:id/documents/:docId', async (req, res, next) => {
+router.put('/:id/documents/:docId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { docId } = req.params;
+    const { id, docId } = req.params;
     const { title, summary, agendaItemId } = req.body;
 
-    const document = await prisma.briefingDocument.update({
-      where: { id: docId },
+    const previous = await req.db.briefingDocument.findUnique({
+      where: { id: docId, meetingId: id },
+      select: { agendaItemId: true },
+    });
+
+    const document = await req.db.briefingDocument.update({
+      where: { id: docId, meetingId: id },
       data: {
         ...(title && { title }),
         ...(summary !== undefined && { summary }),
         ...(agendaItemId !== undefined && { agendaItemId }),
       },
-      include: {
-        agendaItem: {
-          select: {
-            id: true,
-            title: true,
-            order: true,
-          },
-        },
-      },
+      select: documentSelect,
     });
 
-    res.json({
-      ...document,
-      type: document.type.toLowerCase(),
-    });
+    // Linked documents are indexed from their summary
+    if (summary !== undefined && document.type === 'LINK') {
+      indexDocument(docId).catch((error) => console.error('Failed to index document:', error));
+    }
+
+    // Agenda analyses built from this paper (or that should now include it)
+    scheduleAnalysisRefresh(previous?.agendaItemId, document.agendaItemId);
+
+    res.json(transformDocument(document));
   } catch (error) {
     next(error);
   }
 });
 
 // DELETE /api/meetings/:id/documents/:docId - Delete document
-router.delete('/:id/documents/:docId', async (req, res, next) => {
+router.delete('/:id/documents/:docId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { docId } = req.params;
+    const { id, docId } = req.params;
 
-    await prisma.briefingDocument.delete({
-      where: { id: docId },
+    const document = await req.db.briefingDocument.delete({
+      where: { id: docId, meetingId: id },
+      select: { storageKey: true, agendaItemId: true },
     });
 
+    if (document.storageKey) {
+      await deleteStoredFile(document.storageKey);
+    }
+
+    scheduleAnalysisRefresh(document.agendaItemId);
+
     res.status(204).send();
   } catch (error) {
     next(error);
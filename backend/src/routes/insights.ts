@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import prisma from '../lib/prisma';
+import { requireMeetingRole } from '../middleware/auth';
 import { z } from 'zod';
 
 const router = Router();
@@ -14,7 +14,7 @@ const createInsightSchema = z.object({
 });
 
 // GET /api/meetings/:id/insights - Get live insights
-router.get('/:id/insights', async (req, res, next) => {
+router.get('/:id/insights', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { dismissed = 'false', limit = '50' } = req.query;
@@ -22,7 +22,7 @@ router.get('/:id/insights', async (req, res, next) => {
     const where: any = { meetingId: id };
     if (dismissed === 'false') where.dismissed = false;
 
-    const insights = await prisma.liveInsight.findMany({
+    const insights = await req.db.liveInsight.findMany({
       where,
       orderBy: { timestamp: 'desc' },
       take: parseInt(limit as string),
@@ -38,14 +38,13 @@ router.get('/:id/insights', async (req, res, next) => {
   }
 });
 
-// POST /api/meetings/:id/insights - Create insight (from AI or manual)
-// @AI-INTEGRATION-POINT: AI analyst agent would POST here
-router.post('/:id/insights', async (req, res, next) => {
+// POST /api/meetings/:id/insights - Create insight (manual or external agent)
+router.post('/:id/insights', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const data = createInsightSchema.parse(req.body);
 
-    const insight = await prisma.liveInsight.create({
+    const insight = await req.db.liveInsight.create({
       data: {
         meetingId: id,
         type: data.type,
@@ -70,15 +69,23 @@ router.post('/:id/insights', async (req, res, next) => {
 });
 
 // PUT /api/meetings/:id/insights/:insightId/dismiss - Dismiss an insight
-router.put('/:id/insights/:insightId/dismiss', async (req, res, next) => {
+router.put('/:id/insights/:insightId/dismiss', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { insightId } = req.params;
+    const { id, insightId } = req.params;
 
-    const insight = await prisma.liveInsight.update({
-      where: { id: insightId },
+    const insight = await req.db.liveInsight.update({
+      where: { id: insightId, meetingId: id },
       data: { dismissed: true },
     });
 
+    // Keep the advisor's copy in step when the insight came from the advisor
+    if (insight.agentInsightId) {
+      await req.db.agentInsight.update({
+        where: { id: insight.agentInsightId },
+        data: { dismissed: true },
+      });
+    }
+
     res.json({
       ...insight,
       type: insight.type.toLowerCase(),
@@ -90,12 +97,12 @@ router.put('/:id/insights/:insightId/dismiss', async (req, res, next) => {
 });
 
 // DELETE /api/meetings/:id/insights/:insightId - Delete insight
-router.delete('/:id/insights/:insightId', async (req, res, next) => {
+router.delete('/:id/insights/:insightId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { insightId } = req.params;
+    const { id, insightId } = req.params;
 
-    await prisma.liveInsight.delete({
-      where: { id: insightId },
+    await req.db.liveInsight.delete({
+      where: { id: insightId, meetingId: id },
     });
 
     res.status(204).send();
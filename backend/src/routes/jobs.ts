@@ -0,0 +1,102 @@
+/**
+ * Job Routes
+ *
+ * Status of background jobs (summary generation, recording fetches, advisor
+ * responses). Clients poll GET /api/jobs/:jobId or listen for `job-updated`
+ * on the meeting's Socket.io room.
+ */
+
+import { Router } from 'express';
+import { OrgMemberRole } from '@prisma/client';
+import { z } from 'zod';
+import prisma from '../lib/prisma';
+import { requireMeetingRole, requireOrgRole } from '../middleware/auth';
+import { cancelJob, formatJob, retryJob } from '../services/jobs';
+
+const router = Router();
+
+const listJobsSchema = z.object({
+  status: z.enum(['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED']).optional(),
+  type: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Require a role in the organization that owns job `req.params.jobId`
+ */
+function requireJobRole(minRole: OrgMemberRole) {
+  return requireOrgRole(minRole, async (req) => {
+    const job = await prisma.job.findUnique({
+      where: { id: req.params.jobId },
+      select: { organizationId: true },
+    });
+    return job?.organizationId ?? null;
+  }, 'Job not found');
+}
+
+// GET /api/meetings/:id/jobs - Recent jobs of a meeting
+router.get('/meetings/:id/jobs', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const query = listJobsSchema.parse({
+      ...req.query,
+      status: typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined,
+    });
+
+    const jobs = await req.db.job.findMany({
+      where: {
+        meetingId: id,
+        ...(query.status && { status: query.status }),
+        ...(query.type && { type: query.type }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit,
+    });
+
+    res.json(jobs.map(formatJob));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /api/jobs/:jobId - Job status
+router.get('/jobs/:jobId', requireJobRole('VIEWER'), async (req, res, next) => {
+  try {
+    const job = await req.db.job.findUnique({
+      where: { id: req.params.jobId },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(formatJob(job));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/jobs/:jobId/cancel - Cancel a job that has not started
+router.post('/jobs/:jobId/cancel', requireJobRole('EDITOR'), async (req, res, next) => {
+  try {
+    const job = await cancelJob(req.params.jobId);
+    res.json(formatJob(job));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/jobs/:jobId/retry - Queue a failed or cancelled job again
+router.post('/jobs/:jobId/retry', requireJobRole('EDITOR'), async (req, res, next) => {
+  try {
+    const job = await retryJob(req.params.jobId);
+    res.status(202).json(formatJob(job));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
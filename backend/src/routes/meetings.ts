@@ -1,5 +1,11 @@
 import { Router } from 'express';
-import prisma from '../lib/prisma';
+import { requireMeetingRole } from '../middleware/auth';
+import { getAuditActor } from '../middleware/audit-log';
+import { recordAuditEvent } from '../services/audit';
+import { hasOrgRole } from '../services/auth';
+import { indexTranscript } from '../services/knowledge';
+import { queueTranscriptSegmentation, setAgendaItemStatus } from '../services/agenda';
+import { queueCarryForward } from '../services/actions';
 import { z } from 'zod';
 
 const router = Router();
@@ -14,14 +20,22 @@ const createMeetingSchema = z.object({
   isVirtual: z.boolean().default(false),
   organizationId: z.string().uuid().optional(), // For multi-tenant support
   meetingUrl: z.string().url().optional(), // External meeting link
+  autoJoinBot: z.boolean().default(false), // Send the bot BOT_JOIN_LEAD_MINUTES before the start
+  spokenTimeChecks: z.boolean().default(false), // Advisor speaks a time-check when an agenda item overruns
+  autoAdvanceAgenda: z.boolean().default(false), // Apply agenda transitions detected in the transcript
 });
 
 const updateMeetingSchema = createMeetingSchema.partial().extend({
+  autoJoinBot: z.boolean().optional(),
+  spokenTimeChecks: z.boolean().optional(),
+  autoAdvanceAgenda: z.boolean().optional(),
   phase: z.enum(['UPCOMING', 'LIVE', 'COMPLETED']).optional(),
   actualStart: z.string().datetime().optional(),
   actualEnd: z.string().datetime().optional(),
   isRecording: z.boolean().optional(),
   recordingDuration: z.number().optional(),
+  chairId: z.string().uuid().nullable().optional(), // Signs the minutes as chair
+  secretaryId: z.string().uuid().nullable().optional(), // Signs the minutes as secretary
 });
 
 // GET /api/meetings - List all meetings (with optional organization filter)
@@ -37,15 +51,16 @@ router.get('/', async (req, res, next) => {
     if (organizationId) {
       where.organizationId = organizationId;
     } else if (organizationSlug) {
-      const org = await prisma.organization.findUnique({
+      const org = await req.db.organization.findUnique({
         where: { slug: organizationSlug as string },
       });
-      if (org) {
-        where.organizationId = org.id;
+      if (!org) {
+        return res.status(404).json({ error: 'Organization not found' });
       }
+      where.organizationId = org.id;
     }
 
-    const meetings = await prisma.meeting.findMany({
+    const meetings = await req.db.meeting.findMany({
       where,
       include: {
         organization: {
@@ -90,6 +105,9 @@ router.get('/', async (req, res, next) => {
       location: m.location,
       isVirtual: m.isVirtual,
       meetingUrl: m.meetingUrl,
+      autoJoinBot: m.autoJoinBot,
+      spokenTimeChecks: m.spokenTimeChecks,
+      autoAdvanceAgenda: m.autoAdvanceAgenda,
       isRecording: m.isRecording,
       recordingDuration: m.recordingDuration,
       organization: m.organization,
@@ -112,11 +130,11 @@ router.get('/', async (req, res, next) => {
 });
 
 // GET /api/meetings/:id - Get single meeting with all details
-router.get('/:id', async (req, res, next) => {
+router.get('/:id', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const meeting = await prisma.meeting.findUnique({
+    const meeting = await req.db.meeting.findUnique({
       where: { id },
       include: {
         attendees: {
@@ -132,7 +150,9 @@ router.get('/:id', async (req, res, next) => {
           },
         },
         documents: true,
-        prepQuestions: true,
+        prepQuestions: {
+          orderBy: [{ rank: 'asc' }, { createdAt: 'asc' }],
+        },
         actionItems: {
           include: {
             assignee: true,
@@ -173,6 +193,10 @@ router.get('/:id', async (req, res, next) => {
       actualEnd: meeting.actualEnd,
       location: meeting.location,
       isVirtual: meeting.isVirtual,
+      meetingUrl: meeting.meetingUrl,
+      autoJoinBot: meeting.autoJoinBot,
+      spokenTimeChecks: meeting.spokenTimeChecks,
+      autoAdvanceAgenda: meeting.autoAdvanceAgenda,
       recording: {
         isRecording: meeting.isRecording,
         duration: meeting.recordingDuration,
@@ -232,17 +256,20 @@ router.post('/', async (req, res, next) => {
   try {
     const data = createMeetingSchema.parse(req.body);
 
-    // Get organizationId from body or find first org (for backwards compatibility)
+    // Get organizationId from body or fall back to the caller's first editable org
     let organizationId = data.organizationId;
     if (!organizationId) {
-      const firstOrg = await prisma.organization.findFirst();
-      if (!firstOrg) {
-        return res.status(400).json({ error: 'No organization found. Please create an organization first.' });
+      organizationId = req.auth!.memberships.find((m) => hasOrgRole(req.auth!, m.organizationId, 'EDITOR'))?.organizationId;
+      if (!organizationId) {
+        return res.status(400).json({ error: 'organizationId is required' });
       }
-      organizationId = firstOrg.id;
     }
 
-    const meeting = await prisma.meeting.create({
+    if (!hasOrgRole(req.auth!, organizationId, 'EDITOR')) {
+      return res.status(403).json({ error: 'Insufficient permissions', requiredRole: 'editor' });
+    }
+
+    const meeting = await req.db.meeting.create({
       data: {
         organizationId,
         title: data.title,
@@ -252,6 +279,9 @@ router.post('/', async (req, res, next) => {
         location: data.location,
         isVirtual: data.isVirtual,
         meetingUrl: data.meetingUrl,
+        autoJoinBot: data.autoJoinBot,
+        spokenTimeChecks: data.spokenTimeChecks,
+        autoAdvanceAgenda: data.autoAdvanceAgenda,
       },
       include: {
         organization: {
@@ -279,7 +309,7 @@ router.post('/', async (req, res, next) => {
 });
 
 // PUT /api/meetings/:id - Update meeting
-router.put('/:id', async (req, res, next) => {
+router.put('/:id', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const data = updateMeetingSchema.parse(req.body);
@@ -294,10 +324,39 @@ router.put('/:id', async (req, res, next) => {
     if (data.actualEnd) updateData.actualEnd = new Date(data.actualEnd);
     if (data.location !== undefined) updateData.location = data.location;
     if (data.isVirtual !== undefined) updateData.isVirtual = data.isVirtual;
+    if (data.meetingUrl !== undefined) updateData.meetingUrl = data.meetingUrl;
+    if (data.autoJoinBot !== undefined) updateData.autoJoinBot = data.autoJoinBot;
+    if (data.spokenTimeChecks !== undefined) updateData.spokenTimeChecks = data.spokenTimeChecks;
+    if (data.autoAdvanceAgenda !== undefined) updateData.autoAdvanceAgenda = data.autoAdvanceAgenda;
     if (data.isRecording !== undefined) updateData.isRecording = data.isRecording;
     if (data.recordingDuration !== undefined) updateData.recordingDuration = data.recordingDuration;
 
-    const meeting = await prisma.meeting.update({
+    // Who signs the minutes: only organization admins choose, and only members
+    const signatoryChange = data.chairId !== undefined || data.secretaryId !== undefined;
+    const before = signatoryChange
+      ? await req.db.meeting.findUniqueOrThrow({
+        where: { id },
+        select: { organizationId: true, chairId: true, secretaryId: true },
+      })
+      : null;
+    if (before) {
+      if (!hasOrgRole(req.auth!, before.organizationId, 'ADMIN')) {
+        return res.status(403).json({ error: 'Only organization admins can set the chair and secretary' });
+      }
+      for (const userId of [data.chairId, data.secretaryId]) {
+        if (!userId) continue;
+        const member = await req.db.organizationMember.findUnique({
+          where: { userId_organizationId: { userId, organizationId: before.organizationId } },
+        });
+        if (!member) {
+          return res.status(400).json({ error: 'The chair and secretary must be members of the organization' });
+        }
+      }
+      if (data.chairId !== undefined) updateData.chairId = data.chairId;
+      if (data.secretaryId !== undefined) updateData.secretaryId = data.secretaryId;
+    }
+
+    const meeting = await req.db.meeting.update({
       where: { id },
       data: updateData,
       include: {
@@ -309,6 +368,19 @@ router.put('/:id', async (req, res, next) => {
       },
     });
 
+    if (before) {
+      await recordAuditEvent({
+        organizationId: meeting.organizationId,
+        meetingId: id,
+        action: 'meeting.signatories_updated',
+        entityType: 'Meeting',
+        entityId: id,
+        before: { chairId: before.chairId, secretaryId: before.secretaryId },
+        after: { chairId: meeting.chairId, secretaryId: meeting.secretaryId },
+        actor: getAuditActor(req),
+      });
+    }
+
     res.json({
       ...meeting,
       type: meeting.type.toLowerCase(),
@@ -323,14 +395,24 @@ router.put('/:id', async (req, res, next) => {
 });
 
 // DELETE /api/meetings/:id - Delete meeting
-router.delete('/:id', async (req, res, next) => {
+router.delete('/:id', requireMeetingRole('ADMIN'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    await prisma.meeting.delete({
+    const meeting = await req.db.meeting.delete({
       where: { id },
     });
 
+    await recordAuditEvent({
+      organizationId: meeting.organizationId,
+      meetingId: id,
+      action: 'meeting.deleted',
+      entityType: 'Meeting',
+      entityId: id,
+      before: meeting,
+      actor: getAuditActor(req),
+    });
+
     res.status(204).send();
   } catch (error) {
     next(error);
@@ -338,11 +420,11 @@ router.delete('/:id', async (req, res, next) => {
 });
 
 // POST /api/meetings/:id/start - Start a meeting (transition to LIVE)
-router.post('/:id/start', async (req, res, next) => {
+router.post('/:id/start', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const meeting = await prisma.meeting.update({
+    const meeting = await req.db.meeting.update({
       where: { id },
       data: {
         phase: 'LIVE',
@@ -351,6 +433,16 @@ router.post('/:id/start', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent({
+      organizationId: meeting.organizationId,
+      meetingId: id,
+      action: 'meeting.started',
+      entityType: 'Meeting',
+      entityId: id,
+      after: { phase: meeting.phase, actualStart: meeting.actualStart },
+      actor: getAuditActor(req),
+    });
+
     res.json({
       ...meeting,
       type: meeting.type.toLowerCase(),
@@ -362,11 +454,11 @@ router.post('/:id/start', async (req, res, next) => {
 });
 
 // POST /api/meetings/:id/end - End a meeting (transition to COMPLETED)
-router.post('/:id/end', async (req, res, next) => {
+router.post('/:id/end', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const meeting = await prisma.meeting.update({
+    const meeting = await req.db.meeting.update({
       where: { id },
       data: {
         phase: 'COMPLETED',
@@ -375,6 +467,37 @@ router.post('/:id/end', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent({
+      organizationId: meeting.organizationId,
+      meetingId: id,
+      action: 'meeting.ended',
+      entityType: 'Meeting',
+      entityId: id,
+      after: { phase: meeting.phase, actualEnd: meeting.actualEnd },
+      actor: getAuditActor(req),
+    });
+
+    // Close the agenda item still in progress (its timer stops with the meeting)
+    const inProgress = await req.db.agendaItem.findMany({
+      where: { meetingId: id, status: 'IN_PROGRESS' },
+      select: { id: true },
+    });
+    for (const item of inProgress) {
+      await setAgendaItemStatus(id, item.id, 'COMPLETED', { at: meeting.actualEnd! });
+    }
+
+    // Index the rest of the transcript for future questions (async, don't wait)
+    indexTranscript(id, { flush: true })
+      .catch((error) => console.error('Failed to index transcript:', error));
+
+    // Fix the agenda item boundaries in the transcript now that it is complete
+    queueTranscriptSegmentation(id, meeting.organizationId)
+      .catch((error) => console.error('Failed to queue transcript segmentation:', error));
+
+    // List the actions still open under matters arising of the next meeting of this type
+    queueCarryForward(id)
+      .catch((error) => console.error('Failed to queue action carry-forward:', error));
+
     res.json({
       ...meeting,
       type: meeting.type.toLowerCase(),
@@ -386,12 +509,12 @@ router.post('/:id/end', async (req, res, next) => {
 });
 
 // POST /api/meetings/:id/attendees - Add attendee to meeting
-router.post('/:id/attendees', async (req, res, next) => {
+router.post('/:id/attendees', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { attendeeId } = req.body;
 
-    const meetingAttendee = await prisma.meetingAttendee.create({
+    const meetingAttendee = await req.db.meetingAttendee.create({
       data: {
         meetingId: id,
         attendeeId,
@@ -416,12 +539,12 @@ router.post('/:id/attendees', async (req, res, next) => {
 });
 
 // PUT /api/meetings/:id/attendees/:attendeeId - Update attendee status
-router.put('/:id/attendees/:attendeeId', async (req, res, next) => {
+router.put('/:id/attendees/:attendeeId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id, attendeeId } = req.params;
     const { isPresent, isSpeaking } = req.body;
 
-    const meetingAttendee = await prisma.meetingAttendee.update({
+    const meetingAttendee = await req.db.meetingAttendee.update({
       where: {
         meetingId_attendeeId: {
           meetingId: id,
@@ -452,11 +575,11 @@ router.put('/:id/attendees/:attendeeId', async (req, res, next) => {
 });
 
 // DELETE /api/meetings/:id/attendees/:attendeeId - Remove attendee from meeting
-router.delete('/:id/attendees/:attendeeId', async (req, res, next) => {
+router.delete('/:id/attendees/:attendeeId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id, attendeeId } = req.params;
 
-    await prisma.meetingAttendee.delete({
+    await req.db.meetingAttendee.delete({
       where: {
         meetingId_attendeeId: {
           meetingId: id,
@@ -0,0 +1,176 @@
+/**
+ * Notification Routes
+ *
+ * Email notifications: the signed-in user's preferences, meeting invitations
+ * and minutes sent to the attendees on request, and the organization's
+ * delivery log.
+ */
+
+import { Request, Router } from 'express';
+import { NotificationDelivery } from '@prisma/client';
+import { z } from 'zod';
+import { requireMeetingRole, requireOrgRole } from '../middleware/auth';
+import { getAuditActor } from '../middleware/audit-log';
+import { recordAuditEvent } from '../services/audit';
+import {
+  emailMinutesReport,
+  getNotificationPreferences,
+  listDeliveries,
+  parseNotificationType,
+  sendMeetingInvitations,
+  updateNotificationPreferences,
+} from '../services/notifications';
+
+const router = Router();
+
+const notificationTypeSchema = z.string().transform((value, ctx) => {
+  const type = parseNotificationType(value);
+  if (!type) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown notification type: ${value}` });
+    return z.NEVER;
+  }
+  return type;
+});
+
+const preferencesSchema = z.object({
+  preferences: z.array(z.object({
+    type: notificationTypeSchema,
+    email: z.boolean(),
+  })).min(1),
+});
+
+const invitationSchema = z.object({
+  attendeeIds: z.array(z.string()).min(1).optional(),
+  message: z.string().max(2000).optional(),
+});
+
+const reportEmailSchema = z.object({
+  format: z.enum(['pdf', 'docx', 'html']).default('pdf'),
+  message: z.string().max(2000).optional(),
+});
+
+const deliveryQuerySchema = z.object({
+  type: notificationTypeSchema.optional(),
+  status: z.enum(['QUEUED', 'SENT', 'FAILED', 'SKIPPED']).optional(),
+  meetingId: z.string().optional(),
+  recipient: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+async function resolveOrganizationId(req: Request): Promise<string | null> {
+  const organization = await req.db.organization.findUnique({
+    where: { slug: req.params.slug },
+    select: { id: true },
+  });
+  return organization?.id ?? null;
+}
+
+// Counts of what was queued for a request that emails several people
+function summarizeDeliveries(deliveries: NotificationDelivery[]) {
+  return {
+    queued: deliveries.filter((d) => d.status === 'QUEUED').length,
+    skipped: deliveries.filter((d) => d.status === 'SKIPPED').length,
+    recipients: deliveries.map((d) => ({ email: d.recipient, name: d.recipientName, status: d.status.toLowerCase() })),
+  };
+}
+
+// GET /api/notifications/preferences - Which emails the current user receives
+router.get('/notifications/preferences', async (req, res, next) => {
+  try {
+    res.json(await getNotificationPreferences(req.auth!.user.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/notifications/preferences - Turn emails on or off ({ preferences: [{ type: 'action-assigned', email: false }] })
+router.put('/notifications/preferences', async (req, res, next) => {
+  try {
+    const { preferences } = preferencesSchema.parse(req.body);
+
+    res.json(await updateNotificationPreferences(req.auth!.user.id, preferences));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// POST /api/meetings/:id/invitations - Email the attendees (or some of them) an invitation with the board pack link
+router.post('/meetings/:id/invitations', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const data = invitationSchema.parse(req.body);
+
+    const deliveries = await sendMeetingInvitations(id, data);
+
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'meeting.invitations_sent',
+      entityType: 'Meeting',
+      entityId: id,
+      after: { recipients: deliveries.map((d) => d.recipient) },
+      actor: getAuditActor(req),
+    });
+
+    res.status(202).json(summarizeDeliveries(deliveries));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// POST /api/meetings/:id/report/email - Email the formal minutes to the attendees ({ format: pdf|docx|html })
+router.post('/meetings/:id/report/email', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const data = reportEmailSchema.parse(req.body);
+
+    const deliveries = await emailMinutesReport(id, data.format, data.message);
+
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'minutes.emailed',
+      entityType: 'Meeting',
+      entityId: id,
+      after: { format: data.format, recipients: deliveries.map((d) => d.recipient) },
+      actor: getAuditActor(req),
+    });
+
+    res.status(202).json(summarizeDeliveries(deliveries));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /api/organizations/:slug/notifications - Delivery log (?type=&status=&meetingId=&recipient=&limit=&offset=)
+router.get(
+  '/organizations/:slug/notifications',
+  requireOrgRole('ADMIN', resolveOrganizationId, 'Organization not found'),
+  async (req, res, next) => {
+    try {
+      const query = deliveryQuerySchema.parse({
+        ...req.query,
+        status: typeof req.query.status === 'string' ? req.query.status.toUpperCase() : undefined,
+      });
+
+      const organizationId = (await resolveOrganizationId(req))!;
+
+      res.json(await listDeliveries(organizationId, query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -1,12 +1,67 @@
 import { Router, Request, Response } from 'express';
-import prisma from '../lib/prisma';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { requireOrgRole } from '../middleware/auth';
+import { getAuditActor } from '../middleware/audit-log';
+import { recordAuditEvent } from '../services/audit';
+import {
+  createProvider,
+  invalidateLlmProviders,
+  llmProviderConfigSchema,
+  LlmProviderConfig,
+  LlmProviderError,
+  organizationProviderConfig,
+} from '../services/llm';
 
 const router = Router();
 
-// GET /api/organizations - List all organizations (admin only for now)
-router.get('/', async (_req: Request, res: Response) => {
+async function resolveOrganizationId(req: Request): Promise<string | null> {
+  const organization = await req.db.organization.findUnique({
+    where: { slug: req.params.slug },
+    select: { id: true },
+  });
+  return organization?.id ?? null;
+}
+
+// Resolve :slug to an organization id for role checks
+const requireOrgViewer = requireOrgRole('VIEWER', resolveOrganizationId, 'Organization not found');
+const requireOrgAdmin = requireOrgRole('ADMIN', resolveOrganizationId, 'Organization not found');
+
+function settingsObject(settings: Prisma.JsonValue): Prisma.JsonObject {
+  return settings && typeof settings === 'object' && !Array.isArray(settings) ? { ...settings } : {};
+}
+
+// The provider stored in the settings, if any
+function storedLlmProvider(settings: Prisma.JsonValue): Prisma.JsonObject | null {
+  const llm = settingsObject(settings).llm;
+  return llm && typeof llm === 'object' && !Array.isArray(llm) ? llm : null;
+}
+
+// API shape of the organization's LLM provider; `error` explains why it cannot be used
+function formatLlmProvider(settings: Prisma.JsonValue, slug: string) {
+  let config: LlmProviderConfig | null = null;
+  let error: string | null = null;
+  try {
+    config = organizationProviderConfig(settings, slug);
+    if (config) {
+      createProvider(config);
+    }
+  } catch (e) {
+    error = (e as Error).message;
+  }
+
+  const stored = storedLlmProvider(settings);
+  return {
+    useDefault: stored === null,
+    ...stored,
+    error,
+  };
+}
+
+// GET /api/organizations - List organizations the caller belongs to (all for platform admins)
+router.get('/', async (req: Request, res: Response) => {
   try {
-    const organizations = await prisma.organization.findMany({
+    const organizations = await req.db.organization.findMany({
       orderBy: { name: 'asc' },
       include: {
         _count: {
@@ -26,11 +81,11 @@ router.get('/', async (_req: Request, res: Response) => {
 });
 
 // GET /api/organizations/:slug - Get organization by slug
-router.get('/:slug', async (req: Request, res: Response) => {
+router.get('/:slug', requireOrgViewer, async (req: Request, res: Response) => {
   try {
     const { slug } = req.params;
 
-    const organization = await prisma.organization.findUnique({
+    const organization = await req.db.organization.findUnique({
       where: { slug },
       include: {
         _count: {
@@ -54,11 +109,11 @@ router.get('/:slug', async (req: Request, res: Response) => {
 });
 
 // GET /api/organizations/:slug/stats - Get organization statistics
-router.get('/:slug/stats', async (req: Request, res: Response) => {
+router.get('/:slug/stats', requireOrgViewer, async (req: Request, res: Response) => {
   try {
     const { slug } = req.params;
 
-    const organization = await prisma.organization.findUnique({
+    const organization = await req.db.organization.findUnique({
       where: { slug },
     });
 
@@ -67,11 +122,11 @@ router.get('/:slug/stats', async (req: Request, res: Response) => {
     }
 
     const [totalMeetings, liveMeetings, upcomingMeetings, completedMeetings, totalAttendees] = await Promise.all([
-      prisma.meeting.count({ where: { organizationId: organization.id } }),
-      prisma.meeting.count({ where: { organizationId: organization.id, phase: 'LIVE' } }),
-      prisma.meeting.count({ where: { organizationId: organization.id, phase: 'UPCOMING' } }),
-      prisma.meeting.count({ where: { organizationId: organization.id, phase: 'COMPLETED' } }),
-      prisma.attendee.count({ where: { organizationId: organization.id } }),
+      req.db.meeting.count({ where: { organizationId: organization.id } }),
+      req.db.meeting.count({ where: { organizationId: organization.id, phase: 'LIVE' } }),
+      req.db.meeting.count({ where: { organizationId: organization.id, phase: 'UPCOMING' } }),
+      req.db.meeting.count({ where: { organizationId: organization.id, phase: 'COMPLETED' } }),
+      req.db.attendee.count({ where: { organizationId: organization.id } }),
     ]);
 
     res.json({
@@ -87,4 +142,90 @@ router.get('/:slug/stats', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/organizations/:slug/llm-provider - Model service used for the organization's AI features
+router.get('/:slug/llm-provider', requireOrgAdmin, async (req: Request, res: Response) => {
+  try {
+    const organization = await req.db.organization.findUniqueOrThrow({
+      where: { id: (await resolveOrganizationId(req))! },
+      select: { settings: true },
+    });
+
+    res.json(formatLlmProvider(organization.settings, req.params.slug));
+  } catch (error) {
+    console.error('Error fetching LLM provider:', error);
+    res.status(500).json({ error: 'Failed to fetch LLM provider' });
+  }
+});
+
+// PUT /api/organizations/:slug/llm-provider - Use an OpenAI, Azure OpenAI or self-hosted model service
+router.put('/:slug/llm-provider', requireOrgAdmin, async (req: Request, res: Response) => {
+  try {
+    const llm = llmProviderConfigSchema.parse(req.body);
+    // Refuse keys of other organizations before saving them
+    organizationProviderConfig({ llm }, req.params.slug);
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const before = await req.db.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { settings: true },
+    });
+    const settings = { ...settingsObject(before.settings), llm };
+
+    await req.db.organization.update({ where: { id: organizationId }, data: { settings } });
+    invalidateLlmProviders(organizationId);
+
+    await recordAuditEvent({
+      organizationId,
+      action: 'llm_provider.updated',
+      entityType: 'Organization',
+      entityId: organizationId,
+      before: storedLlmProvider(before.settings),
+      after: llm,
+      actor: getAuditActor(req),
+    });
+
+    res.json(formatLlmProvider(settings, req.params.slug));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    if (error instanceof LlmProviderError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating LLM provider:', error);
+    res.status(500).json({ error: 'Failed to update LLM provider' });
+  }
+});
+
+// DELETE /api/organizations/:slug/llm-provider - Go back to the deployment's default provider
+router.delete('/:slug/llm-provider', requireOrgAdmin, async (req: Request, res: Response) => {
+  try {
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const before = await req.db.organization.findUniqueOrThrow({
+      where: { id: organizationId },
+      select: { settings: true },
+    });
+    const settings = settingsObject(before.settings);
+    delete settings.llm;
+
+    await req.db.organization.update({ where: { id: organizationId }, data: { settings } });
+    invalidateLlmProviders(organizationId);
+
+    await recordAuditEvent({
+      organizationId,
+      action: 'llm_provider.reset',
+      entityType: 'Organization',
+      entityId: organizationId,
+      before: storedLlmProvider(before.settings),
+      actor: getAuditActor(req),
+    });
+
+    res.json(formatLlmProvider(settings, req.params.slug));
+  } catch (error) {
+    console.error('Error resetting LLM provider:', error);
+    res.status(500).json({ error: 'Failed to reset LLM provider' });
+  }
+});
+
 export default router;
@@ -0,0 +1,134 @@
+/**
+ * Report Routes
+ *
+ * Formal minutes of a meeting as a downloadable PDF, DOCX or HTML file, and
+ * the organization's minutes template (heading, letterhead, footer, accent
+ * color, quorum and signatories) that lays them out.
+ */
+
+import { Request, Router } from 'express';
+import { MinutesTemplate, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { requireMeetingRole, requireOrgRole } from '../middleware/auth';
+import { getAuditActor } from '../middleware/audit-log';
+import { recordAuditEvent } from '../services/audit';
+import { renderMinutes } from '../services/reports';
+
+const router = Router();
+
+const reportQuerySchema = z.object({
+  format: z.enum(['pdf', 'docx', 'html']).default('pdf'),
+});
+
+const minutesTemplateSchema = z.object({
+  heading: z.string().max(200).nullable().optional(),
+  letterhead: z.string().max(1000).nullable().optional(),
+  footer: z.string().max(500).nullable().optional(),
+  accentColor: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Must be a hex color like #1f2937').optional(),
+  showLogo: z.boolean().optional(),
+  quorum: z.number().int().min(1).nullable().optional(),
+  signatories: z.array(z.object({
+    role: z.string().min(1).max(100),
+    name: z.string().max(200).optional(),
+  })).max(4).nullable().optional(),
+});
+
+async function resolveOrganizationId(req: Request): Promise<string | null> {
+  const organization = await req.db.organization.findUnique({
+    where: { slug: req.params.slug },
+    select: { id: true },
+  });
+  return organization?.id ?? null;
+}
+
+// Resolve :slug to an organization id for role checks
+const requireOrgViewer = requireOrgRole('VIEWER', resolveOrganizationId, 'Organization not found');
+const requireOrgAdmin = requireOrgRole('ADMIN', resolveOrganizationId, 'Organization not found');
+
+// API shape of a template (defaults when the organization has none)
+function formatTemplate(template: MinutesTemplate | null) {
+  return {
+    heading: template?.heading ?? null,
+    letterhead: template?.letterhead ?? null,
+    footer: template?.footer ?? null,
+    accentColor: template?.accentColor ?? '#1f2937',
+    showLogo: template?.showLogo ?? true,
+    quorum: template?.quorum ?? null,
+    signatories: template?.signatories ?? null,
+    updatedAt: template?.updatedAt ?? null,
+  };
+}
+
+// GET /api/meetings/:id/report - Formal minutes (?format=pdf|docx|html)
+router.get('/meetings/:id/report', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const { format } = reportQuerySchema.parse({
+      format: typeof req.query.format === 'string' ? req.query.format.toLowerCase() : undefined,
+    });
+
+    const report = await renderMinutes(req.params.id, format);
+
+    res.setHeader('Content-Type', report.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${report.filename}"`);
+    res.setHeader('Content-Length', report.buffer.length);
+    res.send(report.buffer);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /api/organizations/:slug/minutes-template - Layout of the organization's minutes
+router.get('/organizations/:slug/minutes-template', requireOrgViewer, async (req, res, next) => {
+  try {
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const template = await req.db.minutesTemplate.findUnique({ where: { organizationId } });
+
+    res.json(formatTemplate(template));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/organizations/:slug/minutes-template - Update the minutes layout
+router.put('/organizations/:slug/minutes-template', requireOrgAdmin, async (req, res, next) => {
+  try {
+    const { signatories, ...data } = minutesTemplateSchema.parse(req.body);
+    const organizationId = (await resolveOrganizationId(req))!;
+
+    const before = await req.db.minutesTemplate.findUnique({ where: { organizationId } });
+    const fields = {
+      ...data,
+      // null resets the signatories to the default Chair and Secretary
+      ...(signatories !== undefined && { signatories: signatories ?? Prisma.DbNull }),
+    };
+
+    const template = await req.db.minutesTemplate.upsert({
+      where: { organizationId },
+      create: { ...fields, organizationId },
+      update: fields,
+    });
+
+    await recordAuditEvent({
+      organizationId,
+      action: 'minutes_template.updated',
+      entityType: 'MinutesTemplate',
+      entityId: template.id,
+      before,
+      after: template,
+      actor: getAuditActor(req),
+    });
+
+    res.json(formatTemplate(template));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+export default router;
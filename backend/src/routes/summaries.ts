@@ -1,154 +1,305 @@
+/**
+ * Summary Routes
+ *
+ * A meeting's minutes (its summary) and their approval workflow: versions
+ * and diffs between them, review comments per section, circulation, and
+ * chair and secretary sign-off (see services/approval).
+ */
+
 import { Router } from 'express';
-import prisma from '../lib/prisma';
-import { generateMeetingSummary } from '../services/ai/summary';
+import { z } from 'zod';
+import { requireMeetingRole } from '../middleware/auth';
+import { getAuditActor } from '../middleware/audit-log';
+import { recordAuditEvent } from '../services/audit';
+import { indexSummary } from '../services/knowledge';
+import { enqueueJob, findActiveJob, formatJob } from '../services/jobs';
+import {
+  addComment,
+  assertEditable,
+  circulateMinutes,
+  diffVersions,
+  editMinutes,
+  getApproval,
+  getVersion,
+  listComments,
+  listVersions,
+  resolveComment,
+  signMinutes,
+} from '../services/approval';
+import { notifyMinutesCirculated } from '../services/notifications';
 
 const router = Router();
 
+const updateSummarySchema = z.object({
+  overview: z.string().min(1).optional(),
+  attendanceNotes: z.string().nullable().optional(),
+  nextSteps: z.array(z.string()).optional(),
+});
+
+const signoffSchema = z.object({
+  role: z.enum(['chair', 'secretary']),
+});
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+const commentSchema = z.object({
+  section: z.string().min(1),
+  body: z.string().min(1).max(5000),
+  parentId: z.string().uuid().optional(),
+});
+
+const resolveCommentSchema = z.object({
+  resolved: z.boolean(),
+});
+
+const summaryInclude = {
+  discussions: {
+    include: {
+      agendaItem: {
+        select: {
+          id: true,
+          title: true,
+          order: true,
+        },
+      },
+    },
+  },
+} as const;
+
 // GET /api/meetings/:id/summary - Get meeting summary
-router.get('/:id/summary', async (req, res, next) => {
+router.get('/:id/summary', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const summary = await prisma.meetingSummary.findUnique({
+    const summary = await req.db.meetingSummary.findUnique({
       where: { meetingId: id },
-      include: {
-        discussions: {
-          include: {
-            agendaItem: {
-              select: {
-                id: true,
-                title: true,
-                order: true,
-              },
-            },
-          },
-        },
-      },
+      include: summaryInclude,
     });
 
     if (!summary) {
       return res.status(404).json({ error: 'Summary not found' });
     }
 
-    res.json(summary);
+    res.json({ ...summary, status: summary.status.toLowerCase() });
   } catch (error) {
     next(error);
   }
 });
 
-// POST /api/meetings/:id/summary/generate - Generate AI summary
-// @AI-INTEGRATION-POINT: This endpoint triggers AI-generated meeting summary
-router.post('/:id/summary/generate', async (req, res, next) => {
+// POST /api/meetings/:id/summary/generate - Queue AI summary generation from the transcript
+// Returns the summary.generate job; poll GET /api/jobs/:jobId or listen for `job-updated`.
+// An Idempotency-Key header makes retries of the same request return the same job.
+router.post('/:id/summary/generate', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
+    const idempotencyKey = req.header('Idempotency-Key');
 
-    // Get meeting with all data needed for summary
-    const meeting = await prisma.meeting.findUnique({
+    const meeting = await req.db.meeting.findUnique({
       where: { id },
-      include: {
-        attendees: {
-          include: {
-            attendee: true,
-          },
-        },
-        agendaItems: {
-          orderBy: { order: 'asc' },
-        },
-        transcriptEntries: {
-          orderBy: { timestamp: 'asc' },
-        },
-        decisions: true,
-        actionItems: {
-          include: {
-            assignee: true,
-          },
-        },
-      },
+      select: { id: true, organizationId: true, summary: { select: { status: true } } },
     });
 
     if (!meeting) {
       return res.status(404).json({ error: 'Meeting not found' });
     }
+    assertEditable(meeting.summary);
 
-    // @AI-INTEGRATION-POINT: Replace with real AI summary generation
-    const summaryData = await generateMeetingSummary(meeting);
+    // Without a key, a generation already in progress is reused
+    const job = (!idempotencyKey && await findActiveJob('summary.generate', id)) || await enqueueJob({
+      type: 'summary.generate',
+      payload: { meetingId: id },
+      organizationId: meeting.organizationId,
+      meetingId: id,
+      idempotencyKey: idempotencyKey ? `summary.generate:${id}:${idempotencyKey}` : undefined,
+    });
 
-    // Delete existing summary if any
-    await prisma.meetingSummary.deleteMany({
+    res.status(202).json(formatJob(job));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/meetings/:id/summary - Edit the minutes by hand (stored as a new version)
+router.put('/:id/summary', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const edit = updateSummarySchema.parse(req.body);
+
+    const { before, version } = await editMinutes(id, req.auth!.user.id, edit);
+
+    const summary = await req.db.meetingSummary.findUniqueOrThrow({
       where: { meetingId: id },
+      include: summaryInclude,
     });
 
-    // Create new summary
-    const summary = await prisma.meetingSummary.create({
-      data: {
-        meetingId: id,
-        overview: summaryData.overview,
-        attendanceNotes: summaryData.attendanceNotes,
-        nextSteps: summaryData.nextSteps,
-        discussions: {
-          create: summaryData.discussions.map((d) => ({
-            agendaItemId: d.agendaItemId,
-            title: d.title,
-            summary: d.summary,
-            keyPoints: d.keyPoints,
-            outcome: d.outcome,
-            duration: d.duration,
-          })),
-        },
-      },
-      include: {
-        discussions: {
-          include: {
-            agendaItem: {
-              select: {
-                id: true,
-                title: true,
-                order: true,
-              },
-            },
-          },
-        },
-      },
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'summary.updated',
+      entityType: 'MeetingSummary',
+      entityId: summary.id,
+      before,
+      after: { ...summary, version: version.version },
+      actor: getAuditActor(req),
     });
 
-    res.status(201).json(summary);
+    // Re-index for the chat assistant (async, don't wait)
+    indexSummary(id).catch((error) => console.error('Failed to index summary:', error));
+
+    res.json({ ...summary, status: summary.status.toLowerCase() });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
     next(error);
   }
 });
 
-// PUT /api/meetings/:id/summary - Update summary manually
-router.put('/:id/summary', async (req, res, next) => {
+// GET /api/meetings/:id/summary/approval - Status, current version and sign-offs
+router.get('/:id/summary/approval', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    res.json(await getApproval(req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/meetings/:id/summary/circulate - Send the current version to the board for review
+router.post('/:id/summary/circulate', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
-    const { overview, attendanceNotes, nextSteps } = req.body;
 
-    const summary = await prisma.meetingSummary.update({
-      where: { meetingId: id },
-      data: {
-        ...(overview && { overview }),
-        ...(attendanceNotes !== undefined && { attendanceNotes }),
-        ...(nextSteps && { nextSteps }),
-      },
-      include: {
-        discussions: {
-          include: {
-            agendaItem: {
-              select: {
-                id: true,
-                title: true,
-                order: true,
-              },
-            },
-          },
-        },
-      },
+    const approval = await circulateMinutes(id, req.auth!.user.id);
+
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'summary.circulated',
+      entityType: 'MeetingSummary',
+      entityId: approval.summaryId,
+      after: { version: approval.currentVersion, circulatedAt: approval.circulatedAt },
+      actor: getAuditActor(req),
+    });
+
+    notifyMinutesCirculated(id, approval.currentVersion)
+      .catch((error) => console.error('Failed to notify attendees:', error));
+
+    res.json(approval);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/meetings/:id/summary/signoff - Sign the circulated version as chair or secretary
+router.post('/:id/summary/signoff', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { role } = signoffSchema.parse(req.body);
+
+    const approval = await signMinutes(id, req.auth!.user.id, role === 'chair' ? 'CHAIR' : 'SECRETARY');
+
+    await recordAuditEvent({
+      meetingId: id,
+      action: approval.status === 'approved' ? 'summary.approved' : 'summary.signed',
+      entityType: 'MeetingSummary',
+      entityId: approval.summaryId,
+      after: { role, version: approval.currentVersion, status: approval.status },
+      actor: getAuditActor(req),
     });
 
-    res.json(summary);
+    res.json(approval);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /api/meetings/:id/summary/versions - Versions of the minutes, newest first
+router.get('/:id/summary/versions', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    res.json(await listVersions(req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/meetings/:id/summary/versions/:version - One version with its content
+router.get('/:id/summary/versions/:version', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const version = parseInt(req.params.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ error: 'Invalid version' });
+    }
+
+    res.json(await getVersion(req.params.id, version));
   } catch (error) {
     next(error);
   }
 });
 
+// GET /api/meetings/:id/summary/diff - Changes between versions (?from=&to=, default: the last change)
+router.get('/:id/summary/diff', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const query = diffQuerySchema.parse(req.query);
+
+    const to = query.to ?? (await getApproval(id)).currentVersion;
+    const from = query.from ?? to - 1;
+    if (from < 1 || to < 1) {
+      return res.status(400).json({ error: 'The minutes have no earlier version to compare with' });
+    }
+
+    res.json(await diffVersions(id, from, to));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// GET /api/meetings/:id/summary/comments - Review threads (?section=)
+router.get('/:id/summary/comments', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const section = typeof req.query.section === 'string' ? req.query.section : undefined;
+
+    res.json(await listComments(req.params.id, section));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/meetings/:id/summary/comments - Comment on a section, or reply to a thread (parentId)
+router.post('/:id/summary/comments', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    const data = commentSchema.parse(req.body);
+
+    const comment = await addComment(req.params.id, req.auth!.user.id, data);
+
+    res.status(201).json(comment);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// PUT /api/meetings/:id/summary/comments/:commentId - Resolve or reopen a thread
+router.put('/:id/summary/comments/:commentId', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { resolved } = resolveCommentSchema.parse(req.body);
+
+    res.json(await resolveComment(req.params.id, req.params.commentId, resolved));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
 export default router;
@@ -1,5 +1,12 @@
 import { Router } from 'express';
-import prisma from '../lib/prisma';
+import { requireMeetingRole } from '../middleware/auth';
+import { getAuditActor } from '../middleware/audit-log';
+import { recordAuditEvent } from '../services/audit';
+import { listMeetingSpeakers, setSpeakerAlias } from '../services/recall/speakers';
+import { agendaItemAt, queueTranscriptSegmentation } from '../services/agenda/segmentation';
+import { formatJob } from '../services/jobs';
+import { recordActionUpdate } from '../services/actions';
+import { notifyActionAssigned, notifyDecisionRecorded } from '../services/notifications';
 import { z } from 'zod';
 
 const router = Router();
@@ -14,8 +21,21 @@ const createTranscriptEntrySchema = z.object({
   highlights: z.array(z.string()).optional(),
 });
 
+// Move the entries from one entry to another (inclusive) to an agenda item (null: to none)
+const moveEntriesSchema = z.object({
+  fromEntryId: z.string(),
+  toEntryId: z.string(),
+  agendaItemId: z.string().nullable(),
+});
+
+// Map a name shown in the call to an attendee (null: to nobody)
+const setSpeakerSchema = z.object({
+  participantName: z.string().min(1),
+  attendeeId: z.string().nullable(),
+});
+
 // GET /api/meetings/:id/transcript - Get transcript entries
-router.get('/:id/transcript', async (req, res, next) => {
+router.get('/:id/transcript', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const { limit = '100', offset = '0', agendaItemId } = req.query;
@@ -23,7 +43,7 @@ router.get('/:id/transcript', async (req, res, next) => {
     const where: any = { meetingId: id };
     if (agendaItemId) where.agendaItemId = agendaItemId;
 
-    const entries = await prisma.transcriptEntry.findMany({
+    const entries = await req.db.transcriptEntry.findMany({
       where,
       include: {
         speaker: {
@@ -54,18 +74,18 @@ router.get('/:id/transcript', async (req, res, next) => {
 
 // POST /api/meetings/:id/transcript - Add transcript entry (manual or from AI)
 // @AI-INTEGRATION-POINT: Real-time transcription service would POST here
-router.post('/:id/transcript', async (req, res, next) => {
+router.post('/:id/transcript', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const data = createTranscriptEntrySchema.parse(req.body);
 
-    const entry = await prisma.transcriptEntry.create({
+    const entry = await req.db.transcriptEntry.create({
       data: {
         meetingId: id,
         speakerId: data.speakerId,
         speakerName: data.speakerName,
         content: data.content,
-        agendaItemId: data.agendaItemId,
+        agendaItemId: data.agendaItemId ?? await agendaItemAt(id, new Date()),
         confidence: data.confidence,
         highlights: data.highlights,
       },
@@ -100,13 +120,17 @@ router.post('/:id/transcript', async (req, res, next) => {
 });
 
 // PUT /api/meetings/:id/transcript/:entryId - Update transcript entry
-router.put('/:id/transcript/:entryId', async (req, res, next) => {
+router.put('/:id/transcript/:entryId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { entryId } = req.params;
+    const { id, entryId } = req.params;
     const { content, speakerName, highlights } = req.body;
 
-    const entry = await prisma.transcriptEntry.update({
-      where: { id: entryId },
+    const before = await req.db.transcriptEntry.findUnique({
+      where: { id: entryId, meetingId: id },
+    });
+
+    const entry = await req.db.transcriptEntry.update({
+      where: { id: entryId, meetingId: id },
       data: {
         ...(content && { content }),
         ...(speakerName && { speakerName }),
@@ -130,6 +154,16 @@ router.put('/:id/transcript/:entryId', async (req, res, next) => {
       },
     });
 
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'transcript_entry.updated',
+      entityType: 'TranscriptEntry',
+      entityId: entry.id,
+      before,
+      after: entry,
+      actor: getAuditActor(req),
+    });
+
     res.json(entry);
   } catch (error) {
     next(error);
@@ -137,12 +171,21 @@ router.put('/:id/transcript/:entryId', async (req, res, next) => {
 });
 
 // DELETE /api/meetings/:id/transcript/:entryId - Delete transcript entry
-router.delete('/:id/transcript/:entryId', async (req, res, next) => {
+router.delete('/:id/transcript/:entryId', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { entryId } = req.params;
+    const { id, entryId } = req.params;
+
+    const entry = await req.db.transcriptEntry.delete({
+      where: { id: entryId, meetingId: id },
+    });
 
-    await prisma.transcriptEntry.delete({
-      where: { id: entryId },
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'transcript_entry.deleted',
+      entityType: 'TranscriptEntry',
+      entityId: entry.id,
+      before: entry,
+      actor: getAuditActor(req),
     });
 
     res.status(204).send();
@@ -151,13 +194,132 @@ router.delete('/:id/transcript/:entryId', async (req, res, next) => {
   }
 });
 
+// POST /api/meetings/:id/transcript/move - Move a range of entries to another agenda item
+// Moved entries keep their agenda item when the transcript is re-segmented.
+router.post('/:id/transcript/move', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const data = moveEntriesSchema.parse(req.body);
+
+    const bounds = await req.db.transcriptEntry.findMany({
+      where: { id: { in: [data.fromEntryId, data.toEntryId] }, meetingId: id },
+      select: { timestamp: true },
+    });
+    if (bounds.length !== new Set([data.fromEntryId, data.toEntryId]).size) {
+      return res.status(404).json({ error: 'Transcript entry not found' });
+    }
+
+    if (data.agendaItemId) {
+      const item = await req.db.agendaItem.findFirst({
+        where: { id: data.agendaItemId, meetingId: id },
+        select: { id: true },
+      });
+      if (!item) {
+        return res.status(404).json({ error: 'Agenda item not found' });
+      }
+    }
+
+    const times = bounds.map((b) => b.timestamp.getTime());
+    const { count } = await req.db.transcriptEntry.updateMany({
+      where: {
+        meetingId: id,
+        timestamp: { gte: new Date(Math.min(...times)), lte: new Date(Math.max(...times)) },
+      },
+      data: { agendaItemId: data.agendaItemId, agendaItemManual: true },
+    });
+
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'transcript.moved',
+      entityType: 'TranscriptEntry',
+      entityId: data.fromEntryId,
+      after: { ...data, moved: count },
+      actor: getAuditActor(req),
+    });
+
+    res.json({ moved: count, agendaItemId: data.agendaItemId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
+// POST /api/meetings/:id/transcript/segment - Queue re-segmentation of the transcript by agenda item
+// Returns the transcript.segment job; it also runs when the meeting ends.
+router.post('/:id/transcript/segment', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const meeting = await req.db.meeting.findUniqueOrThrow({
+      where: { id },
+      select: { organizationId: true },
+    });
+
+    const job = await queueTranscriptSegmentation(id, meeting.organizationId);
+    res.status(202).json(formatJob(job));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/meetings/:id/speakers - Names in the transcript and the attendees they map to
+router.get('/:id/speakers', requireMeetingRole('VIEWER'), async (req, res, next) => {
+  try {
+    res.json(await listMeetingSpeakers(req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/meetings/:id/speakers - Override a speaker mapping and re-attribute past entries
+router.put('/:id/speakers', requireMeetingRole('EDITOR'), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const data = setSpeakerSchema.parse(req.body);
+
+    if (data.attendeeId) {
+      const meeting = await req.db.meeting.findUniqueOrThrow({
+        where: { id },
+        select: { organizationId: true },
+      });
+      const attendee = await req.db.attendee.findFirst({
+        where: { id: data.attendeeId, organizationId: meeting.organizationId },
+      });
+      if (!attendee) {
+        return res.status(404).json({ error: 'Attendee not found' });
+      }
+    }
+
+    const { alias, previousAttendeeId, updatedEntries } = await setSpeakerAlias(id, data.participantName, data.attendeeId);
+
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'speaker.mapped',
+      entityType: 'SpeakerAlias',
+      entityId: alias.id,
+      before: { participantName: alias.participantName, attendeeId: previousAttendeeId },
+      after: { participantName: alias.participantName, attendeeId: alias.attendeeId, updatedEntries },
+      actor: getAuditActor(req),
+    });
+
+    res.json({ ...alias, updatedEntries });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    next(error);
+  }
+});
+
 // GET /api/meetings/:id/detected-actions - Get AI-detected actions
 // @AI-INTEGRATION-POINT: These are populated by AI action detection agent
-router.get('/:id/detected-actions', async (req, res, next) => {
+router.get('/:id/detected-actions', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const actions = await prisma.detectedAction.findMany({
+    const actions = await req.db.detectedAction.findMany({
       where: { meetingId: id },
       orderBy: { timestamp: 'desc' },
     });
@@ -172,23 +334,24 @@ router.get('/:id/detected-actions', async (req, res, next) => {
 });
 
 // PUT /api/meetings/:id/detected-actions/:actionId/confirm - Confirm detected action
-router.put('/:id/detected-actions/:actionId/confirm', async (req, res, next) => {
+router.put('/:id/detected-actions/:actionId/confirm', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id, actionId } = req.params;
     const { assigneeId, dueDate, priority = 'MEDIUM' } = req.body;
 
-    const detected = await prisma.detectedAction.update({
-      where: { id: actionId },
+    const detected = await req.db.detectedAction.update({
+      where: { id: actionId, meetingId: id },
       data: { status: 'CONFIRMED' },
     });
 
     // Create actual action item from detected action
-    const action = await prisma.actionItem.create({
+    const action = await req.db.actionItem.create({
       data: {
         meetingId: id,
         description: detected.description,
-        assigneeId,
-        dueDate: dueDate ? new Date(dueDate) : undefined,
+        // Fall back to what was detected when the caller does not override it
+        assigneeId: assigneeId ?? detected.assigneeId,
+        dueDate: dueDate ? new Date(dueDate) : detected.dueDate,
         priority,
       },
       include: {
@@ -196,6 +359,26 @@ router.put('/:id/detected-actions/:actionId/confirm', async (req, res, next) =>
       },
     });
 
+    await recordActionUpdate({
+      actionItemId: action.id,
+      type: 'CREATED',
+      note: 'Confirmed from a detected action',
+      userId: req.auth!.user.id,
+    });
+
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'detected_action.confirmed',
+      entityType: 'DetectedAction',
+      entityId: detected.id,
+      after: { ...detected, actionItemId: action.id },
+      actor: getAuditActor(req),
+    });
+
+    if (action.assigneeId) {
+      notifyActionAssigned(action.id).catch((error) => console.error('Failed to notify assignee:', error));
+    }
+
     res.json({
       detected: { ...detected, status: 'confirmed' },
       actionItem: {
@@ -211,15 +394,24 @@ router.put('/:id/detected-actions/:actionId/confirm', async (req, res, next) =>
 });
 
 // PUT /api/meetings/:id/detected-actions/:actionId/dismiss - Dismiss detected action
-router.put('/:id/detected-actions/:actionId/dismiss', async (req, res, next) => {
+router.put('/:id/detected-actions/:actionId/dismiss', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
-    const { actionId } = req.params;
+    const { id, actionId } = req.params;
 
-    const action = await prisma.detectedAction.update({
-      where: { id: actionId },
+    const action = await req.db.detectedAction.update({
+      where: { id: actionId, meetingId: id },
       data: { status: 'REJECTED' },
     });
 
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'detected_action.dismissed',
+      entityType: 'DetectedAction',
+      entityId: action.id,
+      after: action,
+      actor: getAuditActor(req),
+    });
+
     res.json({ ...action, status: 'rejected' });
   } catch (error) {
     next(error);
@@ -227,11 +419,11 @@ router.put('/:id/detected-actions/:actionId/dismiss', async (req, res, next) =>
 });
 
 // GET /api/meetings/:id/detected-decisions - Get AI-detected decisions
-router.get('/:id/detected-decisions', async (req, res, next) => {
+router.get('/:id/detected-decisions', requireMeetingRole('VIEWER'), async (req, res, next) => {
   try {
     const { id } = req.params;
 
-    const decisions = await prisma.detectedDecision.findMany({
+    const decisions = await req.db.detectedDecision.findMany({
       where: { meetingId: id },
       orderBy: { timestamp: 'desc' },
     });
@@ -246,18 +438,18 @@ router.get('/:id/detected-decisions', async (req, res, next) => {
 });
 
 // PUT /api/meetings/:id/detected-decisions/:decisionId/confirm - Confirm detected decision
-router.put('/:id/detected-decisions/:decisionId/confirm', async (req, res, next) => {
+router.put('/:id/detected-decisions/:decisionId/confirm', requireMeetingRole('EDITOR'), async (req, res, next) => {
   try {
     const { id, decisionId } = req.params;
-    const { rationale, votedFor = 0, votedAgainst = 0, abstained = 0 } = req.body;
+    const { rationale, votedFor, votedAgainst, abstained } = req.body;
 
-    const detected = await prisma.detectedDecision.update({
-      where: { id: decisionId },
+    const detected = await req.db.detectedDecision.update({
+      where: { id: decisionId, meetingId: id },
       data: { status: 'CONFIRMED' },
     });
 
     // Create actual decision from detected decision
-    const decision = await prisma.decision.create({
+    const decision = await req.db.decision.create({
       data: {
         meetingId: id,
         description: detected.description,
@@ -268,6 +460,17 @@ router.put('/:id/detected-decisions/:decisionId/confirm', async (req, res, next)
       },
     });
 
+    await recordAuditEvent({
+      meetingId: id,
+      action: 'detected_decision.confirmed',
+      entityType: 'DetectedDecision',
+      entityId: detected.id,
+      after: { ...detected, decisionId: decision.id },
+      actor: getAuditActor(req),
+    });
+
+    notifyDecisionRecorded(decision.id).catch((error) => console.error('Failed to notify attendees:', error));
+
     res.json({
       detected: { ...detected, status: 'confirmed' },
       decision,
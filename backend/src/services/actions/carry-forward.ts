@@ -0,0 +1,203 @@
+/**
+ * Matters Arising
+ *
+ * Carries open action items forward to the next meeting of the same type:
+ * the upcoming meeting gets a "Matters Arising" agenda item (first on the
+ * agenda) listing every action still open from earlier meetings of that type
+ * in the organization, and each action points at it (arisingItemId) until it
+ * is carried into a later meeting.
+ *
+ * Ending a meeting queues actions.carry-forward for the next one; the item
+ * is rebuilt each time, so it stays current until the meeting starts.
+ */
+
+import { Job } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { enqueueJob, findActiveJob } from '../jobs/queue';
+import { OPEN_ACTION_STATUSES, recordActionUpdate } from './register';
+
+const logger = createLogger('actions');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const MATTERS_ARISING_TITLE = 'Matters Arising';
+const MATTERS_ARISING_MINUTES = 10;
+
+// ============================================
+// TYPES
+// ============================================
+
+export class ActionRegisterError extends Error {
+  status: number;
+
+  constructor(message: string, status = 409) {
+    super(message);
+    this.name = 'ActionRegisterError';
+    this.status = status;
+  }
+}
+
+export interface MattersArisingResult {
+  meetingId: string;
+  agendaItemId: string | null;
+  actions: number;
+  carried: number;
+}
+
+// ============================================
+// CARRY-FORWARD
+// ============================================
+
+function actionLine(action: {
+  description: string;
+  dueDate: Date | null;
+  assignee: { name: string } | null;
+  meeting: { title: string };
+}): string {
+  const due = action.dueDate ? `, due ${action.dueDate.toISOString().slice(0, 10)}` : '';
+  return `- ${action.description} (${action.assignee?.name ?? 'Unassigned'}${due}; from ${action.meeting.title})`;
+}
+
+/**
+ * Next upcoming meeting of the same type in the organization
+ */
+export async function findNextMeeting(meetingId: string) {
+  const meeting = await prisma.meeting.findUniqueOrThrow({
+    where: { id: meetingId },
+    select: { organizationId: true, type: true, scheduledStart: true },
+  });
+
+  return prisma.meeting.findFirst({
+    where: {
+      id: { not: meetingId },
+      organizationId: meeting.organizationId,
+      type: meeting.type,
+      phase: 'UPCOMING',
+      scheduledStart: { gt: meeting.scheduledStart },
+    },
+    orderBy: { scheduledStart: 'asc' },
+    select: { id: true, organizationId: true, title: true },
+  });
+}
+
+/**
+ * Create or refresh the matters arising item of an upcoming meeting
+ */
+export async function buildMattersArising(meetingId: string): Promise<MattersArisingResult> {
+  const meeting = await prisma.meeting.findUniqueOrThrow({
+    where: { id: meetingId },
+    select: { id: true, organizationId: true, type: true, title: true, phase: true, scheduledStart: true },
+  });
+  if (meeting.phase !== 'UPCOMING') {
+    throw new ActionRegisterError('Matters arising can only be added to an upcoming meeting');
+  }
+
+  const open = await prisma.actionItem.findMany({
+    where: {
+      status: { in: OPEN_ACTION_STATUSES },
+      meeting: {
+        id: { not: meeting.id },
+        organizationId: meeting.organizationId,
+        type: meeting.type,
+        scheduledStart: { lt: meeting.scheduledStart },
+      },
+    },
+    include: {
+      assignee: { select: { name: true } },
+      meeting: { select: { title: true } },
+    },
+    orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+  });
+
+  const existing = await prisma.agendaItem.findFirst({
+    where: { meetingId, mattersArising: true },
+    select: { id: true },
+  });
+  if (open.length === 0 && !existing) {
+    return { meetingId, agendaItemId: null, actions: 0, carried: 0 };
+  }
+
+  const description = open.length > 0
+    ? `Open actions from earlier meetings:\n${open.map(actionLine).join('\n')}`
+    : 'No open actions from earlier meetings.';
+
+  const { agendaItemId, carried } = await prisma.$transaction(async (tx) => {
+    let agendaItemId = existing?.id;
+    if (agendaItemId) {
+      await tx.agendaItem.update({ where: { id: agendaItemId }, data: { description } });
+    } else {
+      // First on the agenda: move the other items down, last first to keep orders unique
+      const items = await tx.agendaItem.findMany({
+        where: { meetingId },
+        select: { id: true, order: true },
+        orderBy: { order: 'desc' },
+      });
+      for (const item of items) {
+        await tx.agendaItem.update({ where: { id: item.id }, data: { order: item.order + 1 } });
+      }
+
+      const created = await tx.agendaItem.create({
+        data: {
+          meetingId,
+          order: items.length > 0 ? items[items.length - 1].order : 1,
+          title: MATTERS_ARISING_TITLE,
+          description,
+          duration: MATTERS_ARISING_MINUTES,
+          mattersArising: true,
+        },
+      });
+      agendaItemId = created.id;
+    }
+
+    const newlyCarried = open.filter((action) => action.arisingItemId !== agendaItemId);
+    for (const action of newlyCarried) {
+      await tx.actionItem.update({ where: { id: action.id }, data: { arisingItemId: agendaItemId } });
+      await recordActionUpdate({
+        actionItemId: action.id,
+        type: 'CARRIED_FORWARD',
+        before: { arisingItemId: action.arisingItemId },
+        after: { arisingItemId: agendaItemId },
+        note: `Carried forward to ${meeting.title}`,
+      }, tx);
+    }
+
+    return { agendaItemId, carried: newlyCarried.length };
+  });
+
+  logger.info({ meetingId, actions: open.length, carried }, 'Matters arising updated');
+  return { meetingId, agendaItemId, actions: open.length, carried };
+}
+
+/**
+ * Queue carrying open actions forward to the meeting after this one, if any
+ */
+export async function queueCarryForward(meetingId: string): Promise<Job | null> {
+  const next = await findNextMeeting(meetingId);
+  if (!next) {
+    return null;
+  }
+
+  const active = await findActiveJob('actions.carry-forward', next.id);
+  if (active) {
+    return active;
+  }
+
+  return enqueueJob({
+    type: 'actions.carry-forward',
+    payload: { meetingId: next.id },
+    organizationId: next.organizationId,
+    meetingId: next.id,
+  });
+}
+
+// Export service
+export const carryForward = {
+  findNextMeeting,
+  buildMattersArising,
+  queueCarryForward,
+};
+
+export default carryForward;
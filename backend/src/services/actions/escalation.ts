@@ -0,0 +1,165 @@
+/**
+ * Overdue Escalation
+ *
+ * Marks open action items past their due date as OVERDUE (run by the
+ * actions.overdue job, see scheduler.ts) and notifies their assignees:
+ * every overdue action is published on the cluster bus, and the WebSocket
+ * server passes it on to the assignee's user (matched by email among the
+ * organization's members) and to the meeting the action came from, and
+ * assignees with an email address are sent an overdue notification.
+ *
+ * Each action is escalated once; moving its due date into the future
+ * returns it to pending (see reopenIfRescheduled).
+ */
+
+import { ActionItemStatus } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../audit/trail';
+import { getBus } from '../cluster/bus';
+import { notifyActionOverdue } from '../notifications/triggers';
+import { recordActionUpdate } from './register';
+
+const logger = createLogger('actions');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const ACTION_OVERDUE_CHANNEL = 'actions:overdue';
+
+// Statuses an action is escalated from
+const ESCALATED_STATUSES: ActionItemStatus[] = ['PENDING', 'IN_PROGRESS'];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface OverdueActionEvent {
+  id: string;
+  description: string;
+  dueDate: string;
+  priority: string;
+  organizationId: string;
+  meeting: { id: string; title: string };
+  assignee: { id: string; name: string; email: string | null } | null;
+  // Member account of the assignee, if they have one
+  userId: string | null;
+}
+
+export type OverdueActionHandler = (event: OverdueActionEvent) => void;
+
+// ============================================
+// ESCALATION
+// ============================================
+
+async function findAssigneeUser(organizationId: string, email: string | null | undefined): Promise<string | null> {
+  if (!email) return null;
+
+  const user = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: 'insensitive' }, organizations: { some: { organizationId } } },
+    select: { id: true },
+  });
+  return user?.id ?? null;
+}
+
+/**
+ * Mark open actions past their due date as overdue and notify their assignees
+ */
+export async function markOverdueActions(now = new Date()): Promise<{ overdue: number }> {
+  const due = await prisma.actionItem.findMany({
+    where: { status: { in: ESCALATED_STATUSES }, dueDate: { lt: now } },
+    include: {
+      assignee: { select: { id: true, name: true, email: true } },
+      meeting: { select: { id: true, title: true, organizationId: true } },
+    },
+  });
+
+  let overdue = 0;
+  for (const action of due) {
+    const marked = await prisma.$transaction(async (tx) => {
+      // Skip actions completed since they were read
+      const { count } = await tx.actionItem.updateMany({
+        where: { id: action.id, status: { in: ESCALATED_STATUSES } },
+        data: { status: 'OVERDUE' },
+      });
+      if (count > 0) {
+        await recordActionUpdate({
+          actionItemId: action.id,
+          type: 'OVERDUE',
+          before: { status: action.status },
+          after: { status: 'OVERDUE' },
+        }, tx);
+      }
+      return count > 0;
+    });
+    if (!marked) continue;
+    overdue++;
+
+    await recordAuditEvent({
+      organizationId: action.meeting.organizationId,
+      meetingId: action.meetingId,
+      action: 'action_item.overdue',
+      entityType: 'ActionItem',
+      entityId: action.id,
+      before: { status: action.status },
+      after: { status: 'OVERDUE' },
+      actor: SYSTEM_ACTOR,
+    });
+
+    const event: OverdueActionEvent = {
+      id: action.id,
+      description: action.description,
+      dueDate: action.dueDate!.toISOString(),
+      priority: action.priority.toLowerCase(),
+      organizationId: action.meeting.organizationId,
+      meeting: { id: action.meeting.id, title: action.meeting.title },
+      assignee: action.assignee,
+      userId: await findAssigneeUser(action.meeting.organizationId, action.assignee?.email),
+    };
+    await getBus().publish(ACTION_OVERDUE_CHANNEL, event).catch((error) => {
+      logger.error({ err: error, actionItemId: action.id }, 'Failed to publish overdue action');
+    });
+    if (action.assignee?.email) {
+      await notifyActionOverdue(action.id).catch((error) => {
+        logger.error({ err: error, actionItemId: action.id }, 'Failed to notify overdue action');
+      });
+    }
+  }
+
+  if (overdue > 0) {
+    logger.info({ overdue }, 'Marked actions overdue');
+  }
+  return { overdue };
+}
+
+/**
+ * Status for an update that moves an overdue action's due date into the future
+ * (undefined when the status stays as it is)
+ */
+export function reopenIfRescheduled(
+  current: { status: ActionItemStatus },
+  update: { status?: ActionItemStatus; dueDate?: Date | null },
+  now = new Date()
+): ActionItemStatus | undefined {
+  if (update.status || current.status !== 'OVERDUE' || update.dueDate === undefined) {
+    return update.status;
+  }
+  return update.dueDate === null || update.dueDate > now ? 'PENDING' : undefined;
+}
+
+/**
+ * Register a handler for overdue actions escalated by any process
+ */
+export async function onOverdueAction(handler: OverdueActionHandler): Promise<void> {
+  await getBus().subscribe(ACTION_OVERDUE_CHANNEL, handler);
+}
+
+// Export service
+export const escalation = {
+  markOverdueActions,
+  reopenIfRescheduled,
+  onOverdueAction,
+};
+
+export default escalation;
@@ -0,0 +1,13 @@
+/**
+ * Action Services - Central Export
+ */
+
+export * from './register';
+export * from './escalation';
+export * from './carry-forward';
+export * from './scheduler';
+
+export { default as actionRegister } from './register';
+export { default as escalation } from './escalation';
+export { default as carryForward } from './carry-forward';
+export { default as actionScheduler } from './scheduler';
@@ -0,0 +1,174 @@
+/**
+ * Action Register
+ *
+ * The organization's action items across all of its meetings, filtered by
+ * assignee, status, due window and source meeting, and the history of each
+ * action (ActionItemUpdate): edits, overdue escalations and carry-forwards.
+ */
+
+import { ActionItemStatus, ActionItemUpdateType, MeetingType, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { diffRecords } from '../audit/trail';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEFAULT_PAGE_SIZE = 100;
+
+// Statuses of actions still to be done
+export const OPEN_ACTION_STATUSES: ActionItemStatus[] = ['PENDING', 'IN_PROGRESS', 'OVERDUE'];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ActionRegisterFilters {
+  assigneeId?: string;
+  status?: ActionItemStatus[];
+  dueFrom?: Date;
+  dueTo?: Date;
+  meetingId?: string;
+  meetingType?: MeetingType;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ActionUpdateInput {
+  actionItemId: string;
+  type: ActionItemUpdateType;
+  before?: object | null;
+  after?: object | null;
+  note?: string;
+  userId?: string | null;
+}
+
+const registerInclude = {
+  assignee: { select: { id: true, name: true, title: true } },
+  agendaItem: { select: { id: true, title: true, order: true } },
+  meeting: { select: { id: true, title: true, type: true, scheduledStart: true } },
+  arisingItem: { select: { id: true, meetingId: true, title: true } },
+} satisfies Prisma.ActionItemInclude;
+
+type RegisterAction = Prisma.ActionItemGetPayload<{ include: typeof registerInclude }>;
+
+// ============================================
+// REGISTER
+// ============================================
+
+function formatRegisterAction(action: RegisterAction) {
+  return {
+    id: action.id,
+    description: action.description,
+    assignee: action.assignee?.name,
+    assigneeId: action.assigneeId,
+    agendaItem: action.agendaItem,
+    meeting: { ...action.meeting, type: action.meeting.type.toLowerCase() },
+    carriedTo: action.arisingItem,
+    dueDate: action.dueDate,
+    priority: action.priority.toLowerCase(),
+    status: action.status.toLowerCase().replace('_', '-'),
+    notes: action.notes,
+    createdAt: action.createdAt,
+    updatedAt: action.updatedAt,
+  };
+}
+
+/**
+ * Action items of an organization's meetings, earliest due first
+ * (actions without a due date last)
+ */
+export async function listActionRegister(organizationId: string, filters: ActionRegisterFilters = {}) {
+  const where: Prisma.ActionItemWhereInput = {
+    meeting: {
+      organizationId,
+      ...(filters.meetingType && { type: filters.meetingType }),
+    },
+    ...(filters.meetingId && { meetingId: filters.meetingId }),
+    ...(filters.assigneeId && { assigneeId: filters.assigneeId }),
+    ...(filters.status && { status: { in: filters.status } }),
+    ...((filters.dueFrom || filters.dueTo) && {
+      dueDate: {
+        ...(filters.dueFrom && { gte: filters.dueFrom }),
+        ...(filters.dueTo && { lte: filters.dueTo }),
+      },
+    }),
+  };
+
+  const [total, byStatus, actions] = await Promise.all([
+    prisma.actionItem.count({ where }),
+    prisma.actionItem.groupBy({ by: ['status'], where, _count: { _all: true } }),
+    prisma.actionItem.findMany({
+      where,
+      include: registerInclude,
+      orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+      take: filters.limit ?? DEFAULT_PAGE_SIZE,
+      skip: filters.offset ?? 0,
+    }),
+  ]);
+
+  return {
+    total,
+    counts: Object.fromEntries(
+      byStatus.map((group) => [group.status.toLowerCase().replace('_', '-'), group._count._all])
+    ),
+    actions: actions.map(formatRegisterAction),
+  };
+}
+
+// ============================================
+// HISTORY
+// ============================================
+
+/**
+ * Add an entry to an action's history (edits without changed fields are skipped);
+ * pass the transaction client when the change is made in a transaction
+ */
+export async function recordActionUpdate(
+  input: ActionUpdateInput,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const changes = diffRecords(input.before, input.after);
+  if (input.type === 'UPDATED' && (!changes || Object.keys(changes).length === 0)) {
+    return;
+  }
+
+  await client.actionItemUpdate.create({
+    data: {
+      actionItemId: input.actionItemId,
+      type: input.type,
+      changes: changes && Object.keys(changes).length > 0 ? (changes as Prisma.InputJsonValue) : Prisma.DbNull,
+      note: input.note,
+      userId: input.userId ?? null,
+    },
+  });
+}
+
+/**
+ * History of an action, oldest first
+ */
+export async function getActionHistory(actionItemId: string) {
+  const updates = await prisma.actionItemUpdate.findMany({
+    where: { actionItemId },
+    include: { user: { select: { id: true, name: true, email: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return updates.map((update) => ({
+    id: update.id,
+    type: update.type.toLowerCase().replace('_', '-'),
+    changes: update.changes,
+    note: update.note,
+    user: update.user,
+    createdAt: update.createdAt,
+  }));
+}
+
+// Export service
+export const actionRegister = {
+  listActionRegister,
+  recordActionUpdate,
+  getActionHistory,
+};
+
+export default actionRegister;
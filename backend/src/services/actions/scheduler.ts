@@ -0,0 +1,77 @@
+/**
+ * Action Scheduler
+ *
+ * Runs next to the job worker and queues actions.overdue once per check
+ * interval. Every replica may run it; the idempotency key makes sure each
+ * check is queued once.
+ */
+
+import { Job } from '@prisma/client';
+import { createLogger } from '../../lib/logger';
+import { enqueueJob } from '../jobs/queue';
+
+const logger = createLogger('actions');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const TICK_INTERVAL_MS = 60000;
+const OVERDUE_CHECK_INTERVAL_MS = parseInt(process.env.ACTION_OVERDUE_CHECK_MINUTES || '60') * 60000;
+
+let tickInterval: NodeJS.Timeout | null = null;
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+/**
+ * Queue the overdue check of the current check interval
+ */
+export async function scheduleOverdueCheck(now = new Date()): Promise<Job> {
+  const bucket = Math.floor(now.getTime() / OVERDUE_CHECK_INTERVAL_MS);
+
+  return enqueueJob({
+    type: 'actions.overdue',
+    payload: {},
+    idempotencyKey: `actions.overdue:${bucket}`,
+    maxAttempts: 3,
+  });
+}
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+function tick(): void {
+  scheduleOverdueCheck().catch((error) => {
+    logger.error({ err: error }, 'Action scheduler tick failed');
+  });
+}
+
+/**
+ * Start queuing overdue checks
+ */
+export function startActionScheduler(intervalMs = TICK_INTERVAL_MS): void {
+  if (tickInterval) return;
+
+  tickInterval = setInterval(tick, intervalMs);
+  tick();
+  logger.info({ overdueCheckIntervalMs: OVERDUE_CHECK_INTERVAL_MS }, 'Action scheduler started');
+}
+
+export function stopActionScheduler(): void {
+  if (tickInterval) {
+    clearInterval(tickInterval);
+    tickInterval = null;
+  }
+}
+
+// Export service
+export const actionScheduler = {
+  scheduleOverdueCheck,
+  startActionScheduler,
+  stopActionScheduler,
+};
+
+export default actionScheduler;
@@ -0,0 +1,7 @@
+/**
+ * Advisor Services - Central Export
+ */
+
+export * from './profile';
+
+export { default as advisorProfiles } from './profile';
@@ -0,0 +1,295 @@
+/**
+ * Advisor Profiles
+ *
+ * How the advisor presents itself and when it talks: its name and persona,
+ * the language it answers in, the phrases that address it, how long it waits
+ * for a speaker to finish, its voice and its speak policy. Each organization
+ * can have a profile, and a meeting can override parts of it; fields a meeting
+ * leaves unset come from the organization's profile, and fields neither sets
+ * from the built-in Board Observer defaults.
+ *
+ * Resolved profiles are cached per meeting for a minute, so changes made on
+ * another replica apply shortly after.
+ */
+
+import { AdvisorProfile as AdvisorProfileRecord } from '@prisma/client';
+import { z } from 'zod';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+
+const logger = createLogger('advisor');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_CACHED_MEETINGS = 1000;
+
+export const SPEAK_POLICIES = ['proactive', 'high_priority', 'when_asked', 'silent'] as const;
+export const TTS_PROVIDERS = ['llm', 'elevenlabs'] as const;
+
+const DEFAULT_NAME = 'Board Observer AI';
+
+// Phrases that address the default advisor (case-insensitive)
+const DEFAULT_WAKE_PHRASES = [
+  'board observer',
+  'hey board observer',
+  'hey observer',
+  'observer',
+  'board observer ai',
+  'hey ai',
+  'ok observer',
+];
+
+// Timing in milliseconds.
+// IMPORTANT: Google Meet captions can be delayed 2-5 seconds!
+const DEFAULT_TIMING: AdvisorTiming = {
+  minPause: 1500,
+  standardPause: 3000,
+  longPause: 4000,
+  quickResponsePause: 2000,
+  maxListenTime: 30000,
+  responseCooldown: 5000,
+  // Google Meet captions can have 5+ second gaps between chunks!
+  speechContinuityWindow: 8000,
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SpeakPolicy = typeof SPEAK_POLICIES[number];
+export type TtsProvider = typeof TTS_PROVIDERS[number];
+
+export interface AdvisorTiming {
+  minPause: number;                // Shortest pause taken as a possible end of speech
+  standardPause: number;           // Pause for most utterances
+  longPause: number;               // Pause for complex or unfinished-sounding speech
+  quickResponsePause: number;      // Pause after a clear ending (question mark, ...)
+  maxListenTime: number;           // Longest the advisor listens to one question
+  responseCooldown: number;        // Between answers
+  speechContinuityWindow: number;  // Gap within which speech continues the question
+}
+
+/**
+ * A meeting's advisor profile with inherited fields and defaults filled in
+ */
+export interface AdvisorProfile {
+  name: string;
+  persona: string | null;
+  language: string | null;         // null: answer in the language of the question
+  wakePhrases: string[];           // Lowercase
+  timing: AdvisorTiming;
+  ttsProvider: TtsProvider;
+  voice: string | null;            // null: the provider's default voice
+  speechSpeed: number;
+  speakPolicy: SpeakPolicy;
+}
+
+const timingSchema = z.object({
+  minPause: z.number().int().min(500).max(10000),
+  standardPause: z.number().int().min(500).max(15000),
+  longPause: z.number().int().min(500).max(20000),
+  quickResponsePause: z.number().int().min(500).max(10000),
+  maxListenTime: z.number().int().min(5000).max(120000),
+  responseCooldown: z.number().int().min(0).max(60000),
+  speechContinuityWindow: z.number().int().min(1000).max(30000),
+});
+
+/**
+ * Editable fields of a profile; null clears a field so it is inherited again
+ */
+export const advisorProfileSchema = z.object({
+  name: z.string().trim().min(2).max(60).nullable().optional(),
+  persona: z.string().max(4000).nullable().optional(),
+  language: z.string()
+    .regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/, 'Must be a language tag like en or ar-AE')
+    .nullable()
+    .optional(),
+  wakePhrases: z.array(z.string().trim().min(2).max(60)).max(10).optional(),
+  timing: timingSchema.partial().nullable().optional(),
+  ttsProvider: z.enum(TTS_PROVIDERS).nullable().optional(),
+  voice: z.string().min(1).max(100).nullable().optional(),
+  speechSpeed: z.number().min(0.25).max(4).nullable().optional(),
+  speakPolicy: z.enum(SPEAK_POLICIES).nullable().optional(),
+});
+
+export type AdvisorProfileInput = z.infer<typeof advisorProfileSchema>;
+
+interface CachedProfile {
+  profile: AdvisorProfile;
+  organizationId: string | null;
+  expiresAt: number;
+}
+
+const meetingProfiles = new Map<string, CachedProfile>();
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * The built-in profile, with the TTS provider chosen by the environment
+ */
+export function defaultAdvisorProfile(): AdvisorProfile {
+  return {
+    name: DEFAULT_NAME,
+    persona: null,
+    language: null,
+    wakePhrases: [...DEFAULT_WAKE_PHRASES],
+    timing: { ...DEFAULT_TIMING },
+    ttsProvider: (process.env.TTS_PROVIDER || '').toLowerCase() === 'elevenlabs' ? 'elevenlabs' : 'llm',
+    voice: null,
+    speechSpeed: 1.0,
+    speakPolicy: 'proactive',
+  };
+}
+
+/**
+ * Wake phrases for an advisor renamed without phrases of its own
+ */
+function phrasesForName(name: string): string[] {
+  const lower = name.toLowerCase();
+  return [lower, `hey ${lower}`, `ok ${lower}`];
+}
+
+/**
+ * Apply stored profiles (organization first, then the meeting) over the defaults
+ */
+export function mergeAdvisorProfiles(
+  ...records: Array<Partial<AdvisorProfileRecord> | null | undefined>
+): AdvisorProfile {
+  const profile = defaultAdvisorProfile();
+  let phrasesSet = false;
+
+  for (const record of records) {
+    if (!record) {
+      continue;
+    }
+    if (record.name) {
+      profile.name = record.name;
+      if (!phrasesSet) {
+        profile.wakePhrases = phrasesForName(record.name);
+      }
+    }
+    if (record.wakePhrases && record.wakePhrases.length > 0) {
+      profile.wakePhrases = record.wakePhrases.map((phrase) => phrase.toLowerCase());
+      phrasesSet = true;
+    }
+    if (record.timing) {
+      const timing = timingSchema.partial().safeParse(record.timing);
+      if (timing.success) {
+        profile.timing = { ...profile.timing, ...timing.data };
+      }
+    }
+    profile.persona = record.persona ?? profile.persona;
+    profile.language = record.language ?? profile.language;
+    profile.voice = record.voice ?? profile.voice;
+    profile.speechSpeed = record.speechSpeed ?? profile.speechSpeed;
+    if (record.ttsProvider && (TTS_PROVIDERS as readonly string[]).includes(record.ttsProvider)) {
+      profile.ttsProvider = record.ttsProvider as TtsProvider;
+    }
+    if (record.speakPolicy && (SPEAK_POLICIES as readonly string[]).includes(record.speakPolicy)) {
+      profile.speakPolicy = record.speakPolicy as SpeakPolicy;
+    }
+  }
+
+  return profile;
+}
+
+async function loadAdvisorProfile(meetingId: string): Promise<CachedProfile> {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    select: { organizationId: true, advisorProfile: true },
+  });
+  const organizationProfile = meeting
+    ? await prisma.advisorProfile.findFirst({ where: { organizationId: meeting.organizationId, meetingId: null } })
+    : null;
+
+  return {
+    profile: mergeAdvisorProfiles(organizationProfile, meeting?.advisorProfile),
+    organizationId: meeting?.organizationId ?? null,
+    expiresAt: Date.now() + CACHE_TTL_MS,
+  };
+}
+
+/**
+ * The advisor profile that applies in a meeting. Falls back to the defaults
+ * when it cannot be loaded, so the advisor keeps working.
+ */
+export async function getAdvisorProfile(meetingId: string): Promise<AdvisorProfile> {
+  const cached = meetingProfiles.get(meetingId);
+  if (cached && cached.expiresAt >= Date.now()) {
+    return cached.profile;
+  }
+
+  try {
+    const loaded = await loadAdvisorProfile(meetingId);
+    if (meetingProfiles.size >= MAX_CACHED_MEETINGS) {
+      meetingProfiles.clear();
+    }
+    meetingProfiles.set(meetingId, loaded);
+    return loaded.profile;
+  } catch (error) {
+    logger.warn({ err: error, meetingId }, 'Failed to load advisor profile, using defaults');
+    return cached?.profile ?? defaultAdvisorProfile();
+  }
+}
+
+/**
+ * Forget cached profiles (for one organization's meetings, or all of them)
+ */
+export function invalidateAdvisorProfiles(organizationId?: string): void {
+  if (!organizationId) {
+    meetingProfiles.clear();
+    return;
+  }
+  for (const [meetingId, cached] of meetingProfiles) {
+    if (cached.organizationId === organizationId) {
+      meetingProfiles.delete(meetingId);
+    }
+  }
+}
+
+// ============================================
+// PROMPTS
+// ============================================
+
+/**
+ * English name of a language tag ("ar" → "Arabic")
+ */
+export function languageName(language: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+/**
+ * Instructions added to the advisor's system prompts: its name, persona and
+ * the language it answers in
+ */
+export function buildPersonaInstructions(profile: AdvisorProfile): string {
+  const lines = [`Your name is ${profile.name}.`];
+  if (profile.persona) {
+    lines.push(profile.persona.trim());
+  }
+  if (profile.language) {
+    lines.push(`Always respond in ${languageName(profile.language)}, whatever language the meeting is held in.`);
+  }
+  return `ADVISOR PROFILE:\n${lines.join('\n')}`;
+}
+
+// Export service
+export const advisorProfiles = {
+  getAdvisorProfile,
+  mergeAdvisorProfiles,
+  defaultAdvisorProfile,
+  invalidateAdvisorProfiles,
+  buildPersonaInstructions,
+  languageName,
+};
+
+export default advisorProfiles;
@@ -0,0 +1,9 @@
+/**
+ * Agenda Services - Central Export
+ */
+
+export * from './timekeeper';
+export * from './segmentation';
+
+export { default as timekeeper } from './timekeeper';
+export { default as segmentation } from './segmentation';
@@ -0,0 +1,352 @@
+/**
+ * Transcript Segmentation
+ *
+ * Ties transcript entries to the agenda item they were spoken under, so
+ * summaries and per-item analysis are grounded in what was said:
+ * - agendaItemAt() tags entries live with the item in progress when spoken
+ * - resegmentMeeting() runs after the meeting and moves the boundaries
+ *   between items to where the discussion's topic actually changed
+ * - entries moved by a user (agendaItemManual) are never re-tagged
+ *
+ * Re-segmentation keeps the order in which items were discussed (from the
+ * live tags, or the agenda order when nothing was tagged) and assigns each
+ * entry to one of them in sequence, scoring the lexical similarity of the
+ * entry and its neighbours to each item's title, description, papers and
+ * pre-meeting analysis, with a bonus for the item it was tagged with live.
+ */
+
+import { AgendaItem, Job } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { tokenize } from '../knowledge/chunking';
+import { enqueueJob, findActiveJob } from '../jobs/queue';
+
+const logger = createLogger('agenda');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Neighbouring entries on each side that count towards an entry's topic
+const CONTEXT_ENTRIES = 2;
+
+// Score bonus for keeping an entry under its live tag (similarities are 0..1)
+const LIVE_TAG_WEIGHT = 0.1;
+
+// Without live tags, transcripts this unlike the agenda are left untagged
+const MIN_SIMILARITY = 0.05;
+
+// Fields of a stored pre-meeting analysis that describe the item's subject
+const ANALYSIS_FIELDS = ['summary', 'keyPoints', 'risks', 'opportunities', 'relatedTopics', 'suggestedQuestions'];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SegmentEntry {
+  id: string;
+  content: string;
+  agendaItemId: string | null;
+  agendaItemManual: boolean;
+}
+
+export interface SegmentItem extends Pick<AgendaItem, 'id' | 'order' | 'title' | 'description' | 'status' | 'aiAnalysis'> {
+  presenter?: string | null;
+  documents?: Array<{ title: string }>;
+}
+
+export interface SegmentationResult {
+  entries: number;
+  changed: number;
+  // Entries per agenda item after re-segmentation
+  items: Array<{ agendaItemId: string; entries: number }>;
+}
+
+type TermVector = Map<string, number>;
+
+// ============================================
+// LIVE TAGGING
+// ============================================
+
+/**
+ * Agenda item in progress at a point of the meeting (null before the agenda starts)
+ */
+export async function agendaItemAt(meetingId: string, at: Date): Promise<string | null> {
+  // Entries can arrive after the chair has moved on; go by when they were spoken
+  const item = await prisma.agendaItem.findFirst({
+    where: {
+      meetingId,
+      startedAt: { lte: at },
+      OR: [{ endedAt: null }, { endedAt: { gt: at } }],
+    },
+    orderBy: { startedAt: 'desc' },
+    select: { id: true },
+  });
+  if (item) {
+    return item.id;
+  }
+
+  const current = await prisma.agendaItem.findFirst({
+    where: { meetingId, status: 'IN_PROGRESS' },
+    orderBy: { order: 'asc' },
+    select: { id: true },
+  });
+  return current?.id ?? null;
+}
+
+// ============================================
+// TOPIC SIMILARITY
+// ============================================
+
+function countTerms(tokens: string[]): TermVector {
+  const counts: TermVector = new Map();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function weigh(counts: TermVector, idf: Map<string, number>): TermVector {
+  const weighted: TermVector = new Map();
+  for (const [term, count] of counts) {
+    const weight = idf.get(term);
+    if (weight) weighted.set(term, count * weight);
+  }
+  return weighted;
+}
+
+function sparseCosine(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, weight] of a) {
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other) dot += weight * other;
+  }
+  for (const weight of b.values()) {
+    normB += weight * weight;
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Text of a stored pre-meeting analysis
+ */
+function analysisText(aiAnalysis: unknown): string {
+  if (!aiAnalysis || typeof aiAnalysis !== 'object') return '';
+
+  const analysis = aiAnalysis as Record<string, unknown>;
+  return ANALYSIS_FIELDS
+    .flatMap((field) => Array.isArray(analysis[field]) ? analysis[field] as unknown[] : [analysis[field]])
+    .filter((value): value is string => typeof value === 'string')
+    .join('\n');
+}
+
+/**
+ * Term vectors of the agenda items; terms shared by every item weigh least
+ */
+function itemProfiles(items: SegmentItem[]): { profiles: Map<string, TermVector>; idf: Map<string, number> } {
+  const counts = new Map(items.map((item) => {
+    const text = [
+      item.title,
+      item.title,  // titles are short but the most telling
+      item.description,
+      item.presenter,
+      ...(item.documents ?? []).map((d) => d.title),
+      analysisText(item.aiAnalysis),
+    ].filter(Boolean).join('\n');
+    return [item.id, countTerms(tokenize(text))] as const;
+  }));
+
+  const documentFrequency = new Map<string, number>();
+  for (const vector of counts.values()) {
+    for (const term of vector.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const idf = new Map([...documentFrequency].map(([term, df]) => [term, Math.log(1 + items.length / df)]));
+
+  const profiles = new Map([...counts].map(([id, vector]) => [id, weigh(vector, idf)]));
+  return { profiles, idf };
+}
+
+// ============================================
+// SEGMENTATION
+// ============================================
+
+/**
+ * Agenda item of every entry (in timestamp order) after re-segmentation
+ */
+export function segmentTranscript(entries: SegmentEntry[], items: SegmentItem[]): Array<string | null> {
+  const result = entries.map((entry) => entry.agendaItemId);
+  const known = new Set(items.map((item) => item.id));
+
+  const candidates = entries
+    .map((_, index) => index)
+    .filter((index) => !entries[index].agendaItemManual);
+  const tagged = candidates.filter((index) => {
+    const id = entries[index].agendaItemId;
+    return id !== null && known.has(id);
+  });
+
+  // Items in the order they were discussed, and the entries to place among them.
+  // Entries before the first live tag and after the last are small talk; they stay.
+  let sequence: string[];
+  let range: number[];
+  const liveRun = new Map<number, number>();
+  if (tagged.length > 0) {
+    sequence = [];
+    for (const index of tagged) {
+      const id = entries[index].agendaItemId!;
+      if (sequence[sequence.length - 1] !== id) sequence.push(id);
+      liveRun.set(index, sequence.length - 1);
+    }
+    range = candidates.filter((index) => index >= tagged[0] && index <= tagged[tagged.length - 1]);
+  } else {
+    sequence = [...items]
+      .filter((item) => item.status !== 'SKIPPED')
+      .sort((a, b) => a.order - b.order)
+      .map((item) => item.id);
+    range = candidates;
+  }
+
+  if (sequence.length === 0 || range.length === 0) {
+    return result;
+  }
+
+  const { profiles, idf } = itemProfiles(items);
+  const similarity = range.map((index) => {
+    const context = entries
+      .slice(Math.max(0, index - CONTEXT_ENTRIES), index + CONTEXT_ENTRIES + 1)
+      .map((entry) => entry.content)
+      .join(' ');
+    const vector = weigh(countTerms(tokenize(context)), idf);
+    return sequence.map((id) => sparseCosine(vector, profiles.get(id)!));
+  });
+
+  if (tagged.length === 0 && Math.max(...similarity.flat()) < MIN_SIMILARITY) {
+    return result;
+  }
+
+  // Best monotone assignment of entries to the sequence (items may get no entries)
+  const best: number[][] = [];
+  const from: number[][] = [];
+  range.forEach((index, position) => {
+    const scores = sequence.map((_, s) =>
+      similarity[position][s] + (liveRun.get(index) === s ? LIVE_TAG_WEIGHT : 0)
+    );
+
+    if (position === 0) {
+      best.push(scores);
+      from.push(sequence.map(() => -1));
+      return;
+    }
+
+    const previous = best[position - 1];
+    const row: number[] = [];
+    const back: number[] = [];
+    let bestBefore = -1;
+    sequence.forEach((_, s) => {
+      if (bestBefore < 0 || previous[s] >= previous[bestBefore]) bestBefore = s;
+      row.push(scores[s] + previous[bestBefore]);
+      back.push(bestBefore);
+    });
+    best.push(row);
+    from.push(back);
+  });
+
+  const last = best[best.length - 1];
+  let segment = last.indexOf(Math.max(...last));
+  for (let position = range.length - 1; position >= 0; position--) {
+    result[range[position]] = sequence[segment];
+    segment = from[position][segment];
+  }
+
+  return result;
+}
+
+/**
+ * Re-segment a meeting's transcript and store the new agenda items
+ */
+export async function resegmentMeeting(meetingId: string): Promise<SegmentationResult> {
+  const [items, entries] = await Promise.all([
+    prisma.agendaItem.findMany({
+      where: { meetingId },
+      select: {
+        id: true,
+        order: true,
+        title: true,
+        description: true,
+        presenter: true,
+        status: true,
+        aiAnalysis: true,
+        documents: { select: { title: true } },
+      },
+    }),
+    prisma.transcriptEntry.findMany({
+      where: { meetingId },
+      orderBy: { timestamp: 'asc' },
+      select: { id: true, content: true, agendaItemId: true, agendaItemManual: true },
+    }),
+  ]);
+
+  const assignments = segmentTranscript(entries, items);
+
+  const moves = new Map<string | null, string[]>();
+  entries.forEach((entry, index) => {
+    if (assignments[index] !== entry.agendaItemId) {
+      moves.set(assignments[index], [...(moves.get(assignments[index]) ?? []), entry.id]);
+    }
+  });
+
+  await prisma.$transaction(
+    [...moves].map(([agendaItemId, ids]) =>
+      prisma.transcriptEntry.updateMany({
+        where: { id: { in: ids }, agendaItemManual: false },
+        data: { agendaItemId },
+      })
+    )
+  );
+
+  const changed = [...moves.values()].reduce((sum, ids) => sum + ids.length, 0);
+  logger.info({ meetingId, entries: entries.length, changed }, 'Transcript re-segmented');
+
+  return {
+    entries: entries.length,
+    changed,
+    items: [...items]
+      .sort((a, b) => a.order - b.order)
+      .map((item) => ({
+        agendaItemId: item.id,
+        entries: assignments.filter((id) => id === item.id).length,
+      })),
+  };
+}
+
+/**
+ * Queue a transcript.segment job, reusing one already queued or running
+ */
+export async function queueTranscriptSegmentation(meetingId: string, organizationId: string): Promise<Job> {
+  const active = await findActiveJob('transcript.segment', meetingId);
+  if (active) {
+    return active;
+  }
+
+  return enqueueJob({
+    type: 'transcript.segment',
+    payload: { meetingId },
+    organizationId,
+    meetingId,
+  });
+}
+
+// Export service
+export const segmentation = {
+  agendaItemAt,
+  segmentTranscript,
+  resegmentMeeting,
+  queueTranscriptSegmentation,
+};
+
+export default segmentation;
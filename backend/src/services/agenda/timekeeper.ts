@@ -0,0 +1,315 @@
+/**
+ * Agenda Timekeeper
+ *
+ * Tracks the actual start and end of each agenda item and keeps time on the
+ * item in progress:
+ * - setAgendaItemStatus() moves an item to a new status, stamping
+ *   startedAt/endedAt and completing the item that was in progress
+ * - syncTimekeeper() runs a timer for the meeting's item in progress that
+ *   reports elapsed and remaining time every AGENDA_TICK_SECONDS, warns when
+ *   the item is about to run over and again when it has, and (when the
+ *   meeting enables spokenTimeChecks) has the advisor give a short time-check
+ *
+ * Timers are per-meeting in-memory state, so they run on the meeting's owner
+ * (see services/cluster); other replicas call requestTimekeeperSync().
+ */
+
+import { AgendaItem, AgendaItemStatus } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { queueSpeak } from '../recall/audio-output';
+import { runOnMeetingOwner } from '../cluster/meetings';
+
+const logger = createLogger('agenda');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const TICK_INTERVAL_MS = parseInt(process.env.AGENDA_TICK_SECONDS || '15') * 1000;
+
+// Warn this many minutes before an item's planned duration runs out
+const WARNING_MINUTES = parseFloat(process.env.AGENDA_WARNING_MINUTES || '2');
+
+// Time-checks go ahead of routine advisor remarks in the speak queue
+const TIME_CHECK_PRIORITY = 1;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AgendaTimer {
+  itemId: string;
+  title: string;
+  startedAt: Date;
+  elapsedSeconds: number;
+  plannedSeconds: number;
+  remainingSeconds: number;  // negative once overrun
+  overrun: boolean;
+}
+
+export interface AgendaSuggestion {
+  fromItemId: string | null;
+  toItemId: string;
+  title: string;
+  confidence: number;
+  reason: string;
+}
+
+export type AgendaEvent =
+  | { type: 'updated'; meetingId: string; items: AgendaItem[]; autoAdvanced: boolean }
+  | { type: 'tick'; meetingId: string; timer: AgendaTimer }
+  | { type: 'warning' | 'overrun'; meetingId: string; timer: AgendaTimer }
+  | { type: 'suggestion'; meetingId: string; suggestion: AgendaSuggestion };
+
+type AgendaEventHandler = (event: AgendaEvent) => void;
+
+// Per-meeting timer state
+interface TimekeeperState {
+  interval: NodeJS.Timeout;
+  itemId: string | null;
+  warned: boolean;
+  overran: boolean;
+  checking: boolean;
+}
+
+// ============================================
+// STATE MANAGEMENT
+// ============================================
+
+const timekeepers: Map<string, TimekeeperState> = new Map();
+const eventHandlers: AgendaEventHandler[] = [];
+
+// ============================================
+// STATUS TRANSITIONS
+// ============================================
+
+/**
+ * Move an agenda item to a status, recording when it started and ended.
+ * Starting an item completes the one in progress. Returns the changed items.
+ */
+export async function setAgendaItemStatus(
+  meetingId: string,
+  itemId: string,
+  status: AgendaItemStatus,
+  options: { at?: Date; autoAdvanced?: boolean } = {}
+): Promise<AgendaItem[]> {
+  const at = options.at ?? new Date();
+
+  const items = await prisma.$transaction(async (tx) => {
+    const item = await tx.agendaItem.findFirstOrThrow({ where: { id: itemId, meetingId } });
+    const changed: AgendaItem[] = [];
+
+    if (status === 'IN_PROGRESS') {
+      const current = await tx.agendaItem.findMany({
+        where: { meetingId, status: 'IN_PROGRESS', id: { not: itemId } },
+      });
+      for (const other of current) {
+        changed.push(await tx.agendaItem.update({
+          where: { id: other.id },
+          data: { status: 'COMPLETED', endedAt: at },
+        }));
+      }
+    }
+
+    const timing =
+      status === 'IN_PROGRESS' ? { startedAt: item.startedAt ?? at, endedAt: null } :
+      status === 'PENDING' ? { startedAt: null, endedAt: null } :
+      { endedAt: item.endedAt && item.status === status ? item.endedAt : at };
+
+    changed.push(await tx.agendaItem.update({
+      where: { id: itemId },
+      data: { status, ...timing },
+    }));
+
+    return changed;
+  });
+
+  emitAgendaEvent({ type: 'updated', meetingId, items, autoAdvanced: options.autoAdvanced ?? false });
+  return items;
+}
+
+// ============================================
+// TIMEKEEPING
+// ============================================
+
+/**
+ * Time spent on an item in progress against its planned duration
+ */
+export function agendaTimer(
+  item: Pick<AgendaItem, 'id' | 'title' | 'duration'> & { startedAt: Date },
+  now: Date = new Date()
+): AgendaTimer {
+  const elapsedSeconds = Math.max(0, Math.floor((now.getTime() - item.startedAt.getTime()) / 1000));
+  const plannedSeconds = item.duration * 60;
+
+  return {
+    itemId: item.id,
+    title: item.title,
+    startedAt: item.startedAt,
+    elapsedSeconds,
+    plannedSeconds,
+    remainingSeconds: plannedSeconds - elapsedSeconds,
+    overrun: elapsedSeconds > plannedSeconds,
+  };
+}
+
+/**
+ * What the advisor says when an item has run over
+ */
+export function timeCheckMessage(timer: AgendaTimer): string {
+  const elapsed = Math.round(timer.elapsedSeconds / 60);
+  const planned = Math.round(timer.plannedSeconds / 60);
+  return `A brief time check, if I may: we have spent ${elapsed} minutes on "${timer.title}", ` +
+    `which was planned for ${planned}. Would the chair like to continue or move to the next item?`;
+}
+
+/**
+ * Start, restart or stop the meeting's timer to match its item in progress
+ */
+export async function syncTimekeeper(meetingId: string): Promise<void> {
+  if (!timekeepers.has(meetingId)) {
+    const interval = setInterval(() => {
+      checkTimer(meetingId).catch((error) => logger.error({ err: error, meetingId }, 'Agenda timer check failed'));
+    }, TICK_INTERVAL_MS);
+    timekeepers.set(meetingId, { interval, itemId: null, warned: false, overran: false, checking: false });
+  }
+
+  await checkTimer(meetingId);
+}
+
+/**
+ * Ask the meeting's owner to sync its timer (after a status change on any replica)
+ */
+export async function requestTimekeeperSync(meetingId: string): Promise<void> {
+  try {
+    await runOnMeetingOwner(meetingId, 'agenda.sync', {}, { claim: true });
+  } catch (error) {
+    // The status change stands; the timer catches up on the owner's next tick
+    logger.warn({ err: error, meetingId }, 'Failed to sync agenda timer');
+  }
+}
+
+/**
+ * Stop the meeting's timer
+ */
+export function stopTimekeeper(meetingId: string): void {
+  const state = timekeepers.get(meetingId);
+  if (state) {
+    clearInterval(state.interval);
+    timekeepers.delete(meetingId);
+    logger.info({ meetingId }, 'Agenda timer stopped');
+  }
+}
+
+/**
+ * Check if a timer is running for a meeting
+ */
+export function isTimekeeperRunning(meetingId: string): boolean {
+  return timekeepers.has(meetingId);
+}
+
+async function checkTimer(meetingId: string): Promise<void> {
+  const state = timekeepers.get(meetingId);
+  if (!state || state.checking) {
+    return;
+  }
+  state.checking = true;
+
+  try {
+    const meeting = await prisma.meeting.findUnique({
+      where: { id: meetingId },
+      select: {
+        phase: true,
+        spokenTimeChecks: true,
+        agendaItems: {
+          where: { status: 'IN_PROGRESS' },
+          orderBy: { order: 'asc' },
+          take: 1,
+          select: { id: true, title: true, duration: true, startedAt: true },
+        },
+      },
+    });
+
+    const item = meeting?.phase === 'LIVE' ? meeting.agendaItems[0] : undefined;
+    if (!item) {
+      stopTimekeeper(meetingId);
+      return;
+    }
+
+    if (state.itemId !== item.id) {
+      state.itemId = item.id;
+      state.warned = false;
+      state.overran = false;
+      logger.info({ meetingId, agendaItemId: item.id }, 'Agenda timer started');
+    }
+
+    // Items started before timekeeping existed have no start time yet
+    const startedAt = item.startedAt ?? (await prisma.agendaItem.update({
+      where: { id: item.id },
+      data: { startedAt: new Date() },
+    })).startedAt!;
+
+    const timer = agendaTimer({ ...item, startedAt });
+    emitAgendaEvent({ type: 'tick', meetingId, timer });
+
+    if (!state.warned && !timer.overrun && timer.remainingSeconds <= WARNING_MINUTES * 60
+      && timer.plannedSeconds > WARNING_MINUTES * 60) {
+      state.warned = true;
+      emitAgendaEvent({ type: 'warning', meetingId, timer });
+    }
+
+    if (!state.overran && timer.overrun) {
+      state.warned = true;
+      state.overran = true;
+      emitAgendaEvent({ type: 'overrun', meetingId, timer });
+
+      if (meeting!.spokenTimeChecks) {
+        queueSpeak(meetingId, timeCheckMessage(timer), TIME_CHECK_PRIORITY);
+      }
+    }
+  } finally {
+    state.checking = false;
+  }
+}
+
+// ============================================
+// EVENT HANDLING
+// ============================================
+
+/**
+ * Register a handler for agenda changes, timer ticks, overrun warnings and
+ * transition suggestions of every meeting timed by this replica
+ */
+export function onAgendaEvent(handler: AgendaEventHandler): () => void {
+  eventHandlers.push(handler);
+
+  return () => {
+    const index = eventHandlers.indexOf(handler);
+    if (index > -1) {
+      eventHandlers.splice(index, 1);
+    }
+  };
+}
+
+export function emitAgendaEvent(event: AgendaEvent): void {
+  for (const handler of eventHandlers) {
+    try {
+      handler(event);
+    } catch (error) {
+      logger.error({ err: error, meetingId: event.meetingId }, 'Error in agenda event handler');
+    }
+  }
+}
+
+// Export service
+export const timekeeper = {
+  setAgendaItemStatus,
+  syncTimekeeper,
+  requestTimekeeperSync,
+  stopTimekeeper,
+  isTimekeeperRunning,
+  onAgendaEvent,
+};
+
+export default timekeeper;
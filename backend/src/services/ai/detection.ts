@@ -1,22 +1,11 @@
 /**
- * AI Action & Decision Detection Service
+ * AI Action & Decision Detection Service (mock mode)
  * 
- * @AI-INTEGRATION-POINT
- * This module detects action items and decisions from meeting transcripts.
- * 
- * To integrate with real AI service:
- * 1. Process transcript chunks for pattern detection
- * 2. Expected endpoint: POST /agents/detect
- * 3. Input: { transcript, context, type: 'action' | 'decision' }
- * 4. Output: { description, confidence, assignee?, votingResult? }
- * 
- * Detection patterns:
- * - Actions: "we need to", "action item", "follow up on", "assigned to"
- * - Decisions: "approved", "motion passed", "agreed to", "resolved that"
+ * Simulates the tracker agent when AI_MOCK_ENABLED is set: random detections
+ * from a fixed list, unrelated to what is said in the meeting.
  * 
- * Environment variables for real integration:
- * - AI_SERVICE_URL: Base URL of the agentic platform
- * - AI_DETECTION_THRESHOLD: Minimum confidence (default: 0.80)
+ * Real detection from the live transcript lives in
+ * services/openai/detection-agent.ts.
  */
 
 import prisma from '../../lib/prisma';
@@ -1,13 +1,8 @@
 /**
- * AI Insights Generation Service
+ * AI Insights Generation Service (mock mode)
  * 
- * @AI-INTEGRATION-POINT
- * This module generates real-time insights during live meetings.
- * 
- * To integrate with real AI service:
- * 1. Subscribe to transcript stream
- * 2. Send chunks for analysis: POST /agents/analyze
- * 3. Expected response: { type, content, priority, confidence }
+ * Simulates the analyst agent when AI_MOCK_ENABLED is set: canned insights
+ * from a fixed list, unrelated to what is said in the meeting.
  * 
  * Insight types:
  * - OBSERVATION: Factual observations from discussion
@@ -15,9 +10,7 @@
  * - ALERT: Risk or compliance concerns
  * - CONTEXT: Historical context or relevant data
  * 
- * Environment variables for real integration:
- * - AI_SERVICE_URL: Base URL of the agentic platform
- * - AI_INSIGHT_THRESHOLD: Minimum confidence for insight (default: 0.75)
+ * Real live insights come from services/openai/analyst-agent.ts.
  */
 
 import prisma from '../../lib/prisma';
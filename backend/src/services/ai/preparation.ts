@@ -0,0 +1,312 @@
+/**
+ * Pre-Meeting Preparation Service
+ *
+ * Fills AgendaItem.aiAnalysis and the AI-generated PrepQuestions of a meeting
+ * from the briefing documents linked to each agenda item. Every analysis
+ * records a fingerprint of the papers it was built from, so a re-run only
+ * redoes the items whose papers changed (unless forced).
+ *
+ * AI-generated questions are ranked across the whole meeting: priority first,
+ * then category (risk before strategic, clarification, opportunity and
+ * operational), then agenda order. Questions a director added by hand or
+ * already marked answered are never replaced.
+ *
+ * With AI_MOCK_ENABLED the analysis is templated from the document titles and
+ * summaries instead of calling OpenAI.
+ */
+
+import crypto from 'crypto';
+import { Prisma, Priority, QuestionCategory } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { mapWithConcurrency } from '../../lib/concurrency';
+import {
+  analyzeAgendaItem,
+  AgendaItemAnalysis,
+  AgendaItemBriefing,
+  PreparationError,
+} from '../openai/prep-agent';
+
+const logger = createLogger('preparation');
+
+const AI_MOCK_ENABLED = process.env.AI_MOCK_ENABLED !== 'false';
+const ANALYSIS_CONCURRENCY = 3;
+
+const PRIORITY_WEIGHT: Record<Priority, number> = { HIGH: 3, MEDIUM: 2, LOW: 1 };
+const CATEGORY_WEIGHT: Record<QuestionCategory, number> = {
+  RISK: 5,
+  STRATEGIC: 4,
+  CLARIFICATION: 3,
+  OPPORTUNITY: 2,
+  OPERATIONAL: 1,
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PreparationOptions {
+  agendaItemId?: string;
+  force?: boolean;
+}
+
+export interface PreparationResult {
+  analyzed: string[];
+  unchanged: string[];
+  skipped: string[];      // No briefing documents
+  failed: Array<{ agendaItemId: string; error: string }>;
+}
+
+interface BriefingDocumentText {
+  id: string;
+  title: string;
+  summary: string | null;
+  extractedText: string | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Fingerprint of the papers an analysis is built from
+ */
+export function documentsFingerprint(documents: BriefingDocumentText[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const doc of [...documents].sort((a, b) => a.id.localeCompare(b.id))) {
+    hash.update(`${doc.id}\0${doc.title}\0${doc.summary ?? ''}\0${doc.extractedText ?? ''}\0`);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Order questions by priority, then category, then agenda order
+ */
+export function rankQuestions<T extends { priority: Priority; category: QuestionCategory; agendaOrder: number }>(
+  questions: T[]
+): T[] {
+  return [...questions].sort((a, b) =>
+    PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority] ||
+    CATEGORY_WEIGHT[b.category] - CATEGORY_WEIGHT[a.category] ||
+    a.agendaOrder - b.agendaOrder
+  );
+}
+
+/**
+ * Templated analysis for mock mode
+ */
+function generateMockAnalysis(briefing: AgendaItemBriefing): AgendaItemAnalysis {
+  const titles = briefing.documents.map((d) => d.title);
+
+  return {
+    summary: `The board will consider ${briefing.title}, supported by ${titles.join(', ')}.`,
+    keyPoints: briefing.documents.flatMap((d) => (d.summary ? [d.summary] : [])).slice(0, 3),
+    risks: [],
+    opportunities: [],
+    relatedTopics: [],
+    confidence: 0.5,
+    questions: [
+      {
+        question: `What are the key assumptions behind ${titles[0]}?`,
+        category: 'CLARIFICATION',
+        priority: 'MEDIUM',
+        rationale: null,
+      },
+      {
+        question: `What are the main risks in ${briefing.title} and how will they be mitigated?`,
+        category: 'RISK',
+        priority: 'HIGH',
+        rationale: null,
+      },
+    ],
+  };
+}
+
+// ============================================
+// PREPARATION
+// ============================================
+
+/**
+ * Analyze a meeting's agenda items and regenerate their prep questions
+ */
+export async function prepareMeeting(
+  meetingId: string,
+  options: PreparationOptions = {}
+): Promise<PreparationResult> {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    include: {
+      agendaItems: {
+        orderBy: { order: 'asc' },
+        include: {
+          documents: {
+            select: { id: true, title: true, summary: true, extractedText: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!meeting) {
+    throw new PreparationError('Meeting not found', 404);
+  }
+
+  const items = options.agendaItemId
+    ? meeting.agendaItems.filter((item) => item.id === options.agendaItemId)
+    : meeting.agendaItems;
+
+  if (options.agendaItemId && items.length === 0) {
+    throw new PreparationError('Agenda item not found', 404);
+  }
+  if (items.length === 0) {
+    throw new PreparationError('Meeting has no agenda items to analyze', 422);
+  }
+
+  const result: PreparationResult = { analyzed: [], unchanged: [], skipped: [], failed: [] };
+  const pending: Array<{ item: typeof items[number]; fingerprint: string }> = [];
+
+  for (const item of items) {
+    if (item.documents.length === 0) {
+      result.skipped.push(item.id);
+      continue;
+    }
+
+    const fingerprint = documentsFingerprint(item.documents);
+    const previous = item.aiAnalysis as { documentsHash?: string } | null;
+    if (!options.force && previous?.documentsHash === fingerprint) {
+      result.unchanged.push(item.id);
+      continue;
+    }
+    pending.push({ item, fingerprint });
+  }
+
+  const errors: unknown[] = [];
+
+  await mapWithConcurrency(pending, ANALYSIS_CONCURRENCY, async ({ item, fingerprint }) => {
+    const briefing: AgendaItemBriefing = {
+      meetingTitle: meeting.title,
+      meetingType: meeting.type,
+      title: item.title,
+      description: item.description,
+      presenter: item.presenter,
+      documents: item.documents.map((d) => ({ title: d.title, summary: d.summary, text: d.extractedText })),
+    };
+
+    try {
+      const analysis = AI_MOCK_ENABLED ? generateMockAnalysis(briefing) : await analyzeAgendaItem(briefing, { meetingId });
+      await saveAnalysis(meetingId, item.id, item.documents.map((d) => d.id), fingerprint, analysis);
+      result.analyzed.push(item.id);
+    } catch (error) {
+      logger.error({ err: error, meetingId, agendaItemId: item.id }, 'Agenda item analysis failed');
+      errors.push(error);
+      result.failed.push({ agendaItemId: item.id, error: (error as Error).message });
+    }
+  });
+
+  // Nothing succeeded: surface the cause (e.g. OpenAI not configured)
+  if (errors.length > 0 && result.analyzed.length === 0) {
+    throw errors[0];
+  }
+
+  if (result.analyzed.length > 0) {
+    await rerankQuestions(meetingId);
+  }
+
+  logger.info({ meetingId, ...result, failed: result.failed.length }, 'Meeting preparation complete');
+  return result;
+}
+
+/**
+ * Store an item's analysis and replace its unanswered AI questions
+ */
+async function saveAnalysis(
+  meetingId: string,
+  agendaItemId: string,
+  documentIds: string[],
+  documentsHash: string,
+  analysis: AgendaItemAnalysis
+): Promise<void> {
+  const aiAnalysis = {
+    id: agendaItemId,
+    summary: analysis.summary,
+    keyPoints: analysis.keyPoints,
+    risks: analysis.risks,
+    opportunities: analysis.opportunities,
+    relatedTopics: analysis.relatedTopics,
+    suggestedQuestions: analysis.questions.map((q) => q.question),
+    confidence: analysis.confidence,
+    documentIds,
+    documentsHash,
+    generatedAt: new Date().toISOString(),
+  };
+
+  await prisma.$transaction([
+    prisma.agendaItem.update({
+      where: { id: agendaItemId },
+      data: { aiAnalysis: aiAnalysis as Prisma.InputJsonValue },
+    }),
+    prisma.prepQuestion.deleteMany({
+      where: { agendaItemId, aiGenerated: true, answered: false },
+    }),
+    prisma.prepQuestion.createMany({
+      data: analysis.questions.map((q) => ({
+        meetingId,
+        agendaItemId,
+        question: q.question,
+        category: q.category,
+        priority: q.priority,
+        rationale: q.rationale,
+        aiGenerated: true,
+      })),
+    }),
+  ]);
+}
+
+/**
+ * Renumber the meeting's AI-generated questions in ranked order
+ */
+async function rerankQuestions(meetingId: string): Promise<void> {
+  const questions = await prisma.prepQuestion.findMany({
+    where: { meetingId, aiGenerated: true },
+    select: { id: true, priority: true, category: true, agendaItem: { select: { order: true } } },
+  });
+
+  const ranked = rankQuestions(questions.map((q) => ({
+    ...q,
+    agendaOrder: q.agendaItem?.order ?? Number.MAX_SAFE_INTEGER,
+  })));
+
+  await prisma.$transaction(ranked.map((q, i) =>
+    prisma.prepQuestion.update({ where: { id: q.id }, data: { rank: i + 1 } })
+  ));
+}
+
+/**
+ * Re-run the analysis of an agenda item after its papers changed.
+ * Only items that were analyzed before, in meetings still being prepared.
+ */
+export async function refreshAgendaItemAnalysis(agendaItemId: string): Promise<void> {
+  const item = await prisma.agendaItem.findUnique({
+    where: { id: agendaItemId },
+    select: { meetingId: true, aiAnalysis: true, meeting: { select: { phase: true } } },
+  });
+
+  if (!item?.aiAnalysis || item.meeting.phase !== 'UPCOMING') {
+    return;
+  }
+
+  await prepareMeeting(item.meetingId, { agendaItemId });
+}
+
+/**
+ * Refresh the analyses of agenda items whose papers changed, in the background
+ */
+export function scheduleAnalysisRefresh(...agendaItemIds: Array<string | null | undefined>): void {
+  for (const agendaItemId of new Set(agendaItemIds)) {
+    if (!agendaItemId) continue;
+    refreshAgendaItemAnalysis(agendaItemId)
+      .catch((error) => logger.error({ err: error, agendaItemId }, 'Failed to refresh agenda analysis'));
+  }
+}
+
+export default prepareMeeting;
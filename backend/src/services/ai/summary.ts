@@ -1,23 +1,32 @@
 /**
  * AI Meeting Summary Service
  * 
- * @AI-INTEGRATION-POINT
- * This module provides MOCKED AI summary generation.
+ * Generates the post-meeting summary from the recorded transcript using the
+ * OpenAI summary agent (see ../openai/summary-agent.ts).
  * 
- * To integrate with real AI service:
- * 1. Replace the mock generateMeetingSummary function
- * 2. Expected endpoint: POST /agents/summarize
- * 3. Expected request body: { meetingId, transcript, agendaItems, decisions, actions }
- * 4. Expected response: { overview, attendanceNotes, nextSteps, discussions[] }
+ * With AI_MOCK_ENABLED (the default in development) a templated summary is
+ * built from the meeting's records instead, so the flow can be exercised
+ * offline. The mock is never used as a silent fallback for AI failures.
  * 
- * Environment variables for real integration:
- * - AI_SERVICE_URL: Base URL of the agentic platform
+ * Generation runs as a `summary.generate` background job (see ../jobs);
+ * generateAndStoreSummary() is the job's body. Each run stores a new version
+ * of the minutes (see ../approval); approved minutes are never regenerated.
+ *
+ * Environment variables:
  * - AI_MOCK_ENABLED: Set to 'false' to use real AI
+ * - SUMMARY_MAX_INPUT_TOKENS / SUMMARY_MAX_OUTPUT_TOKENS: per-request budgets
  */
 
 import { Meeting, Attendee, AgendaItem, TranscriptEntry, Decision, ActionItem } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { summarizeMeeting, SummaryGenerationError } from '../openai/summary-agent';
+import { indexSummary } from '../knowledge';
+import { recordAuditEvent } from '../audit';
+import { recordVersion } from '../approval';
 
-// Interface for expected AI response
+const AI_MOCK_ENABLED = process.env.AI_MOCK_ENABLED !== 'false';
+
+// Summary shape stored as MeetingSummary + DiscussionSummary rows
 export interface SummaryData {
   overview: string;
   attendanceNotes: string;
@@ -33,7 +42,7 @@ export interface SummaryData {
 }
 
 // Type for meeting with relations
-type MeetingWithRelations = Meeting & {
+export type MeetingWithRelations = Meeting & {
   attendees: { attendee: Attendee; isPresent: boolean }[];
   agendaItems: AgendaItem[];
   transcriptEntries: TranscriptEntry[];
@@ -42,29 +51,115 @@ type MeetingWithRelations = Meeting & {
 };
 
 /**
- * Generate meeting summary
- * 
- * @AI-INTEGRATION-POINT
- * Replace this function with real AI service call:
- * 
- * async function generateMeetingSummary(meeting: MeetingWithRelations): Promise<SummaryData> {
- *   const response = await fetch(`${process.env.AI_SERVICE_URL}/agents/summarize`, {
- *     method: 'POST',
- *     headers: { 'Content-Type': 'application/json' },
- *     body: JSON.stringify({
- *       meetingId: meeting.id,
- *       transcript: meeting.transcriptEntries,
- *       agendaItems: meeting.agendaItems,
- *       decisions: meeting.decisions,
- *       actions: meeting.actionItems,
- *     }),
- *   });
- *   return response.json();
- * }
+ * Generate meeting summary (LLM pipeline, or the offline mock when AI_MOCK_ENABLED)
  */
 export async function generateMeetingSummary(meeting: MeetingWithRelations): Promise<SummaryData> {
-  // @AI-INTEGRATION-POINT: This is MOCKED data. Replace with real AI call.
-  
+  if (AI_MOCK_ENABLED) {
+    return generateMockSummary(meeting);
+  }
+  return summarizeMeeting(meeting);
+}
+
+/**
+ * Generate the summary of a meeting and store it as the next version of its minutes
+ */
+export async function generateAndStoreSummary(
+  meetingId: string,
+  onProgress?: (progress: number) => Promise<void>
+): Promise<{ summaryId: string; version: number }> {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    include: {
+      attendees: {
+        include: {
+          attendee: true,
+        },
+      },
+      agendaItems: {
+        orderBy: { order: 'asc' },
+      },
+      transcriptEntries: {
+        orderBy: { timestamp: 'asc' },
+      },
+      decisions: true,
+      actionItems: {
+        include: {
+          assignee: true,
+        },
+      },
+    },
+  });
+
+  if (!meeting) {
+    throw new SummaryGenerationError('Meeting not found', 404);
+  }
+
+  await onProgress?.(10);
+  const summaryData = await generateMeetingSummary(meeting);
+  await onProgress?.(90);
+
+  const { previous, summary, version } = await prisma.$transaction(async (tx) => {
+    const previous = await tx.meetingSummary.findUnique({
+      where: { meetingId },
+    });
+    if (previous?.status === 'APPROVED') {
+      throw new SummaryGenerationError('The minutes are approved and locked', 409);
+    }
+
+    const fields = {
+      overview: summaryData.overview,
+      attendanceNotes: summaryData.attendanceNotes,
+      nextSteps: summaryData.nextSteps,
+      generatedAt: new Date(),
+    };
+
+    // The summary row is kept so its versions, comments and sign-offs survive
+    const summary = await tx.meetingSummary.upsert({
+      where: { meetingId },
+      create: { meetingId, ...fields },
+      update: fields,
+    });
+
+    await tx.discussionSummary.deleteMany({
+      where: { summaryId: summary.id },
+    });
+    await tx.discussionSummary.createMany({
+      data: summaryData.discussions.map((d) => ({
+        summaryId: summary.id,
+        agendaItemId: d.agendaItemId,
+        title: d.title,
+        summary: d.summary,
+        keyPoints: d.keyPoints,
+        outcome: d.outcome,
+        duration: d.duration,
+      })),
+    });
+
+    const version = await recordVersion(tx, summary.id, 'generated');
+
+    return { previous, summary, version };
+  });
+
+  await recordAuditEvent({
+    organizationId: meeting.organizationId,
+    meetingId,
+    action: 'summary.generated',
+    entityType: 'MeetingSummary',
+    entityId: summary.id,
+    before: previous,
+    after: { ...summary, version: version.version },
+  });
+
+  // Re-index for the chat assistant (async, don't wait)
+  indexSummary(meetingId).catch((error) => console.error('Failed to index summary:', error));
+
+  return { summaryId: summary.id, version: version.version };
+}
+
+/**
+ * Templated summary built from the meeting's records (offline development only)
+ */
+export async function generateMockSummary(meeting: MeetingWithRelations): Promise<SummaryData> {
   // Simulate AI processing delay
   await new Promise(resolve => setTimeout(resolve, 1500));
 
@@ -6,27 +6,21 @@
  * - Understands speech patterns and natural pauses
  * - Waits for complete thoughts before responding
  * - Handles interruptions gracefully
+ *
+ * The wake phrases and pause timing come from the meeting's advisor profile
+ * (see services/advisor), loaded as transcript arrives.
  */
 
 import prisma from '../../lib/prisma';
-import { askAdvisor } from '../openai/advisor-agent';
-import { speak } from '../recall/audio-output';
+import { streamAdvisorAnswer } from '../openai/advisor-agent';
+import { speak, speakStream } from '../recall/audio-output';
+import { enqueueJob } from '../jobs/queue';
+import { AdvisorProfile, defaultAdvisorProfile, getAdvisorProfile } from '../advisor';
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
-// Wake word phrases (case-insensitive)
-const WAKE_PHRASES = [
-  'board observer',
-  'hey board observer',
-  'hey observer',
-  'observer',
-  'board observer ai',
-  'hey ai',
-  'ok observer',
-];
-
 // Patterns that indicate the speaker is still talking
 const CONTINUATION_PATTERNS = [
   /\b(and|but|or|so|because|however|also|then|if|when|while|although|though|unless|since|before|after|that|which|who|where|what|how|why)\s*$/i,
@@ -37,7 +31,7 @@ const CONTINUATION_PATTERNS = [
 
 // Patterns that indicate the speaker has finished
 const COMPLETION_PATTERNS = [
-  /\?\s*$/,  // Question mark - strong completion signal
+  /[?؟]\s*$/,  // Question mark (Latin or Arabic) - strong completion signal
   /\.\s*$/,  // Period - statement complete
   /!\s*$/,  // Exclamation
   /please\s*$/i,  // "please" often ends requests
@@ -45,32 +39,6 @@ const COMPLETION_PATTERNS = [
   /thank you\s*$/i,
 ];
 
-// Timing configuration (in milliseconds)
-// IMPORTANT: Google Meet captions can be delayed 2-5 seconds!
-const TIMING = {
-  // Minimum pause to consider as potential end of speech
-  MIN_PAUSE: 1500,
-  
-  // Standard pause for most utterances (wait longer for delayed captions)
-  STANDARD_PAUSE: 3000,
-  
-  // Longer pause for complex questions/statements
-  LONG_PAUSE: 4000,
-  
-  // Quick response pause if we detect clear completion (question mark, etc)
-  QUICK_RESPONSE_PAUSE: 2000,
-  
-  // Maximum time to wait for speech
-  MAX_LISTEN_TIME: 30000,
-  
-  // Cooldown between responses
-  RESPONSE_COOLDOWN: 5000,
-  
-  // Time window to consider speech as "continuous" from same speaker
-  // Google Meet captions can have 5+ second gaps between chunks!
-  SPEECH_CONTINUITY_WINDOW: 8000,
-};
-
 // ============================================
 // TYPES
 // ============================================
@@ -112,6 +80,9 @@ interface MeetingState {
   
   // Current listening session
   session: ListeningSession | null;
+  
+  // Advisor profile (wake phrases, timing), refreshed as transcript arrives
+  profile: AdvisorProfile;
 }
 
 // ============================================
@@ -127,6 +98,7 @@ function getState(meetingId: string): MeetingState {
       lastResponseTime: 0,
       isProcessing: false,
       session: null,
+      profile: defaultAdvisorProfile(),
     });
   }
   return meetingStates.get(meetingId)!;
@@ -180,46 +152,42 @@ export function toggleMute(meetingId: string): boolean {
 // WAKE WORD DETECTION
 // ============================================
 
-function containsWakePhrase(text: string): boolean {
-  const lowerText = text.toLowerCase().replace(/[,\.]/g, ' ').replace(/\s+/g, ' ');
-  
-  // Direct matching
-  for (const phrase of WAKE_PHRASES) {
-    if (lowerText.includes(phrase)) {
-      return true;
-    }
-  }
-  
-  // Fuzzy matching for caption variations
-  const patterns = [
-    /\bboard\s+observer\b/i,
-    /\bhey\s+observer\b/i,
-    /\bok\s+observer\b/i,
-    /\bobserver\s+ai\b/i,
-  ];
-  
-  return patterns.some(p => p.test(text));
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a wake phrase as whole words, allowing the punctuation captions put
+ * between them ("Hey, board observer"). Works for any script (e.g. Arabic).
+ */
+function wakePhrasePattern(phrase: string): string {
+  const words = phrase.split(/\s+/).filter(w => w.length > 0).map(escapeRegExp);
+  return `(?<![\\p{L}\\p{N}])${words.join('[\\s,.،]*')}(?![\\p{L}\\p{N}])`;
+}
+
+function containsWakePhrase(text: string, phrases: string[]): boolean {
+  return phrases.some(phrase => new RegExp(wakePhrasePattern(phrase), 'iu').test(text));
 }
 
-function removeWakePhrase(text: string): string {
+function removeWakePhrase(text: string, phrases: string[]): string {
   let result = text;
   
-  // Remove wake phrases - be more careful to not remove too much
-  const patterns = [
-    /^hey\s*,?\s*board\s*,?\s*observer\s*[,.\s]*/i,
-    /^board\s*,?\s*observer\s*,?\s*ai\s*[,.\s]*/i,
-    /^board\s*[,.]?\s*observer\s*[,.\s]*/i,
-    /^hey\s*,?\s*observer\s*[,.\s]*/i,
-    /^ok\s*,?\s*observer\s*[,.\s]*/i,
-    /^observer\s*,?\s*ai\s*[,.\s]*/i,
-    /^observer\s*[,.\s]*/i,
-    // Also handle wake phrase in the middle (less common)
-    /\bhey\s*,?\s*board\s*,?\s*observer\s*[,.\s]*/gi,
-    /\bboard\s*[,.]?\s*observer\s*[,.\s]*/gi,
-  ];
-  
-  for (const pattern of patterns) {
-    result = result.replace(pattern, ' ');
+  // Longest first, so "hey board observer" goes before "observer"
+  const sorted = [...phrases].sort((a, b) => b.length - a.length);
+  
+  // Remove a leading wake phrase
+  for (const phrase of sorted) {
+    const leading = new RegExp(`^\\s*${wakePhrasePattern(phrase)}[\\s,.،!?]*`, 'iu');
+    if (leading.test(result)) {
+      result = result.replace(leading, ' ');
+      break;
+    }
+  }
+  
+  // Also handle wake phrase in the middle (less common); single words like
+  // "observer" may be part of the question there, so only longer phrases
+  for (const phrase of sorted.filter(p => /\s/.test(p.trim()))) {
+    result = result.replace(new RegExp(`${wakePhrasePattern(phrase)}[\\s,.،]*`, 'giu'), ' ');
   }
   
   // Clean up extra spaces
@@ -241,13 +209,15 @@ function removeWakePhrase(text: string): string {
 /**
  * Analyze speech to determine if the speaker has finished
  */
-function analyzeCompletion(chunks: SpeechChunk[]): { 
+function analyzeCompletion(chunks: SpeechChunk[], profile: AdvisorProfile): { 
   isComplete: boolean; 
   confidence: number; 
   suggestedPause: number;
 } {
+  const { timing } = profile;
+  
   if (chunks.length === 0) {
-    return { isComplete: false, confidence: 0, suggestedPause: TIMING.STANDARD_PAUSE };
+    return { isComplete: false, confidence: 0, suggestedPause: timing.standardPause };
   }
   
   // Get full text
@@ -255,17 +225,17 @@ function analyzeCompletion(chunks: SpeechChunk[]): {
   const lastChunk = chunks[chunks.length - 1].text.trim();
   
   // Remove wake phrase for analysis
-  const questionText = removeWakePhrase(fullText);
+  const questionText = removeWakePhrase(fullText, profile.wakePhrases);
   const wordCount = questionText.split(/\s+/).filter(w => w.length > 0).length;
   
   let confidence = 0;
-  let suggestedPause = TIMING.STANDARD_PAUSE;
+  let suggestedPause = timing.standardPause;
   
   // Check for strong completion signals
   for (const pattern of COMPLETION_PATTERNS) {
     if (pattern.test(lastChunk) || pattern.test(fullText)) {
       confidence += 0.4;
-      suggestedPause = TIMING.QUICK_RESPONSE_PAUSE;
+      suggestedPause = timing.quickResponsePause;
     }
   }
   
@@ -273,7 +243,7 @@ function analyzeCompletion(chunks: SpeechChunk[]): {
   for (const pattern of CONTINUATION_PATTERNS) {
     if (pattern.test(lastChunk)) {
       confidence -= 0.3;
-      suggestedPause = TIMING.LONG_PAUSE;
+      suggestedPause = timing.longPause;
     }
   }
   
@@ -286,13 +256,13 @@ function analyzeCompletion(chunks: SpeechChunk[]): {
   }
   if (wordCount < 3) {
     confidence -= 0.2; // Very short - probably not done
-    suggestedPause = TIMING.LONG_PAUSE;
+    suggestedPause = timing.longPause;
   }
   
   // Question detection
-  if (/\?/.test(fullText)) {
+  if (/[?؟]/.test(fullText)) {
     confidence += 0.3;
-    suggestedPause = TIMING.QUICK_RESPONSE_PAUSE;
+    suggestedPause = timing.quickResponsePause;
   }
   
   // Common question starters that need completion
@@ -313,18 +283,6 @@ function analyzeCompletion(chunks: SpeechChunk[]): {
   return { isComplete, confidence, suggestedPause };
 }
 
-/**
- * Check if new speech is from the same speaker within continuity window
- */
-function isContinuousSpeech(session: ListeningSession, speaker: string, now: number): boolean {
-  if (speaker !== session.primarySpeaker) {
-    return false;
-  }
-  
-  const timeSinceLastSpeech = now - session.lastSpeechTime;
-  return timeSinceLastSpeech < TIMING.SPEECH_CONTINUITY_WINDOW;
-}
-
 // ============================================
 // SESSION MANAGEMENT
 // ============================================
@@ -357,7 +315,7 @@ function startSession(meetingId: string, speaker: string, initialText: string):
   session.maxTimeTimer = setTimeout(() => {
     console.log(`[LISTEN] ⏰ Max listen time reached`);
     processAndRespond(meetingId);
-  }, TIMING.MAX_LISTEN_TIME);
+  }, state.profile.timing.maxListenTime);
   
   // Start pause detection
   schedulePauseCheck(meetingId);
@@ -374,17 +332,11 @@ function addSpeech(meetingId: string, speaker: string, text: string): void {
   
   const now = Date.now();
   
-  // Skip bot's own speech
-  if (speaker === 'Unknown' || speaker.toLowerCase().includes('observer')) {
-    console.log(`[LISTEN] 🤖 Skipping bot speech: "${text.substring(0, 30)}..."`);
-    return;
-  }
-  
   // Accept speech from the primary speaker OR if very close in time
   // (Google Meet sometimes mis-attributes speakers)
   const timeSinceLastSpeech = now - session.lastSpeechTime;
   const isFromPrimarySpeaker = speaker === session.primarySpeaker;
-  const isCloseInTime = timeSinceLastSpeech < TIMING.SPEECH_CONTINUITY_WINDOW;
+  const isCloseInTime = timeSinceLastSpeech < state.profile.timing.speechContinuityWindow;
   
   if (isFromPrimarySpeaker || isCloseInTime) {
     session.chunks.push({ text, speaker, timestamp: now });
@@ -420,13 +372,13 @@ function schedulePauseCheck(meetingId: string): void {
   }
   
   // Analyze current state
-  const analysis = analyzeCompletion(session.chunks);
+  const analysis = analyzeCompletion(session.chunks, state.profile);
   session.detectedCompletion = analysis.isComplete;
   session.completionConfidence = analysis.confidence;
   
   const pauseDuration = analysis.isComplete 
     ? analysis.suggestedPause 
-    : TIMING.STANDARD_PAUSE;
+    : state.profile.timing.standardPause;
   
   console.log(`[LISTEN] 🔍 Completion: ${(analysis.confidence * 100).toFixed(0)}% confident, pause: ${pauseDuration}ms`);
   
@@ -449,29 +401,30 @@ function checkPauseAndRespond(meetingId: string): void {
   const timeSinceLastSpeech = now - session.lastSpeechTime;
   
   // Re-analyze for final decision
-  const analysis = analyzeCompletion(session.chunks);
+  const { timing, wakePhrases } = state.profile;
+  const analysis = analyzeCompletion(session.chunks, state.profile);
   
   console.log(`[LISTEN] ⏸️ Pause detected: ${timeSinceLastSpeech}ms, confidence: ${(analysis.confidence * 100).toFixed(0)}%`);
   
   // Get the question text
   const fullText = session.chunks.map(c => c.text).join(' ');
-  const questionText = removeWakePhrase(fullText).trim();
+  const questionText = removeWakePhrase(fullText, wakePhrases).trim();
   const wordCount = questionText.split(/\s+/).filter(w => w.length > 0).length;
   
   // Decision logic
-  if (wordCount < 2 && timeSinceLastSpeech < TIMING.LONG_PAUSE) {
+  if (wordCount < 2 && timeSinceLastSpeech < timing.longPause) {
     // Very short and pause not long enough - keep waiting
     console.log(`[LISTEN] ⏳ Short utterance, waiting longer...`);
     schedulePauseCheck(meetingId);
     return;
   }
   
-  if (analysis.confidence < 0.3 && timeSinceLastSpeech < TIMING.LONG_PAUSE) {
+  if (analysis.confidence < 0.3 && timeSinceLastSpeech < timing.longPause) {
     // Low confidence and not a long pause - keep waiting
     console.log(`[LISTEN] ⏳ Low confidence, waiting longer...`);
     session.pauseTimer = setTimeout(() => {
       checkPauseAndRespond(meetingId);
-    }, TIMING.MIN_PAUSE);
+    }, timing.minPause);
     return;
   }
   
@@ -481,7 +434,7 @@ function checkPauseAndRespond(meetingId: string): void {
 }
 
 /**
- * Process buffered speech and respond
+ * Hand the buffered speech to the advisor as a background job
  */
 async function processAndRespond(meetingId: string): Promise<void> {
   const state = getState(meetingId);
@@ -494,18 +447,50 @@ async function processAndRespond(meetingId: string): Promise<void> {
   
   // Get full text
   const fullText = session.chunks.map(c => c.text).join(' ');
-  const questionText = removeWakePhrase(fullText).trim();
+  const questionText = removeWakePhrase(fullText, state.profile.wakePhrases).trim();
   
   console.log(`[LISTEN] 💬 Full utterance: "${fullText}"`);
   console.log(`[LISTEN] ❓ Question: "${questionText}"`);
   
+  // Cooldown starts now; the answer is produced by the advisor.respond job
+  state.lastResponseTime = Date.now();
+  
+  try {
+    const meeting = await prisma.meeting.findUnique({
+      where: { id: meetingId },
+      select: { organizationId: true },
+    });
+    
+    await enqueueJob({
+      type: 'advisor.respond',
+      payload: { meetingId, question: questionText },
+      organizationId: meeting?.organizationId,
+      meetingId,
+      // A late answer is worse than none, and a retry would repeat what was already said
+      maxAttempts: 1,
+    });
+  } catch (error) {
+    console.error('[LISTEN] ❌ Failed to queue response:', error);
+  }
+}
+
+/**
+ * Answer a question addressed to the bot, out loud (advisor.respond job)
+ */
+export async function respondToQuestion(
+  meetingId: string,
+  question: string,
+  options: { isLastAttempt?: boolean } = {}
+): Promise<{ answer: string | null }> {
+  const state = getState(meetingId);
+  
   // Check if there's a real question
-  const wordCount = questionText.split(/\s+/).filter(w => w.length > 0).length;
+  const wordCount = question.split(/\s+/).filter(w => w.length > 0).length;
   
-  console.log(`[LISTEN] 📊 Word count: ${wordCount}, question: "${questionText}"`);
+  console.log(`[LISTEN] 📊 Word count: ${wordCount}, question: "${question}"`);
   
   // Be more lenient - even 1 word like "summarize" or "help" is enough
-  if (wordCount < 1 || questionText.length < 3) {
+  if (wordCount < 1 || question.length < 3) {
     // Just wake word, no question
     console.log(`[LISTEN] 👋 Just wake word (${wordCount} words), prompting for question`);
     
@@ -514,10 +499,11 @@ async function processAndRespond(meetingId: string): Promise<void> {
       text: "Yes, I'm here. Go ahead with your question.",
       force: true,
       alsoChatMessage: true,
+      asked: true,
     });
     
     state.lastResponseTime = Date.now();
-    return;
+    return { answer: null };
   }
   
   // Process the question
@@ -526,29 +512,35 @@ async function processAndRespond(meetingId: string): Promise<void> {
   try {
     console.log(`[LISTEN] 🤖 Processing question...`);
     
-    const response = await askAdvisor(meetingId, questionText);
+    // Speak the answer sentence by sentence while the rest is still being written
+    const { text: response } = await speakStream({
+      meetingId,
+      text: streamAdvisorAnswer(meetingId, question, { spoken: true }),
+      force: true,
+      alsoChatMessage: true,
+      asked: true,
+    });
     
-    if (response && response.length > 0) {
-      await speak({
-        meetingId,
-        text: response,
-        force: true,
-        alsoChatMessage: true,
-      });
-      
+    if (response) {
       console.log(`[LISTEN] ✨ Responded: "${response.substring(0, 60)}..."`);
     }
     
     state.lastResponseTime = Date.now();
+    return { answer: response || null };
   } catch (error) {
     console.error('[LISTEN] ❌ Error processing:', error);
     
-    await speak({
-      meetingId,
-      text: "I'm sorry, I had trouble understanding that. Could you please repeat?",
-      force: true,
-      alsoChatMessage: true,
-    });
+    // Apologize only once the job will not be retried
+    if (options.isLastAttempt !== false) {
+      await speak({
+        meetingId,
+        text: "I'm sorry, I had trouble understanding that. Could you please repeat?",
+        force: true,
+        alsoChatMessage: true,
+        asked: true,
+      });
+    }
+    throw error;
   } finally {
     state.isProcessing = false;
   }
@@ -582,7 +574,8 @@ function endSession(meetingId: string, reason: string): void {
 // ============================================
 
 /**
- * Process incoming transcript for wake words and questions
+ * Process incoming transcript for wake words and questions. The bot's own
+ * speech is left out before it gets here (see the Recall webhooks).
  */
 export async function processForWakeWord(
   meetingId: string,
@@ -601,6 +594,9 @@ export async function processForWakeWord(
     return { detected: false, responded: false };
   }
   
+  // Pick up changes to the advisor profile (cached, so this is cheap)
+  state.profile = await getAdvisorProfile(meetingId);
+  
   // If we have an active session, add to it
   if (state.session?.isActive) {
     addSpeech(meetingId, speaker, text);
@@ -608,7 +604,7 @@ export async function processForWakeWord(
   }
   
   // Check for wake phrase
-  const hasWakePhrase = containsWakePhrase(text);
+  const hasWakePhrase = containsWakePhrase(text, state.profile.wakePhrases);
   
   if (!hasWakePhrase) {
     return { detected: false, responded: false };
@@ -616,8 +612,9 @@ export async function processForWakeWord(
   
   // Check cooldown
   const now = Date.now();
-  if (now - state.lastResponseTime < TIMING.RESPONSE_COOLDOWN) {
-    const remaining = Math.round((TIMING.RESPONSE_COOLDOWN - (now - state.lastResponseTime)) / 1000);
+  const { responseCooldown } = state.profile.timing;
+  if (now - state.lastResponseTime < responseCooldown) {
+    const remaining = Math.round((responseCooldown - (now - state.lastResponseTime)) / 1000);
     console.log(`[LISTEN] ⏳ Cooldown active (${remaining}s remaining)`);
     return { detected: true, responded: false };
   }
@@ -647,6 +644,7 @@ export async function acknowledgeWake(meetingId: string): Promise<void> {
     text: "Yes?",
     force: true,
     alsoChatMessage: false,
+    asked: true,
   });
 }
 
@@ -665,6 +663,7 @@ export const wakeWordService = {
   isMuted,
   toggleMute,
   processForWakeWord,
+  respondToQuestion,
   isListening,
   cancelListening,
   acknowledgeWake,
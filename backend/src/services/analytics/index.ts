@@ -0,0 +1,9 @@
+/**
+ * Analytics Services - Central Export
+ */
+
+export * from './meeting';
+export * from './organization';
+
+export { default as meetingAnalytics } from './meeting';
+export { default as organizationAnalytics } from './organization';
@@ -0,0 +1,316 @@
+/**
+ * Meeting Analytics
+ *
+ * Participation figures for one meeting, computed from its transcript:
+ * talk time and share per attendee, speaking turns, interruptions, questions
+ * asked, and time spent per agenda item against its planned duration.
+ *
+ * Talk time uses each entry's end time when Recall.ai provided it and
+ * otherwise estimates it from the word count (never past the next entry).
+ * Interruptions are speaker changes that overlap the previous entry, or that
+ * follow it immediately while it ended mid-sentence (entries with an end time only).
+ */
+
+import { AgendaItem, Attendee, Meeting, MeetingAttendee, TranscriptEntry } from '@prisma/client';
+import prisma from '../../lib/prisma';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Speaking rate used to estimate entries without an end time (150 words a minute)
+const WORDS_PER_SECOND = 2.5;
+
+// A speaker change starting this close to (or before) the end of an unfinished sentence
+const INTERRUPTION_GAP_MS = 500;
+
+// Overlap that counts as talking over someone, rather than timestamp jitter
+const OVERLAP_TOLERANCE_MS = 300;
+
+const QUESTION_WORDS = new Set([
+  'what', 'why', 'how', 'when', 'where', 'who', 'whom', 'whose', 'which',
+  'can', 'could', 'would', 'should', 'shall', 'will', 'do', 'does', 'did', 'is', 'are', 'have', 'has',
+]);
+
+// ============================================
+// TYPES
+// ============================================
+
+type AnalyticsEntry = Pick<TranscriptEntry, 'speakerId' | 'speakerName' | 'content' | 'timestamp' | 'endTimestamp' | 'agendaItemId'>;
+
+export interface MeetingAnalyticsInput {
+  meeting: Pick<Meeting, 'id' | 'title' | 'type' | 'phase' | 'scheduledStart' | 'scheduledEnd' | 'actualStart' | 'actualEnd'>;
+  attendees: Array<Pick<MeetingAttendee, 'isPresent' | 'joinedAt' | 'leftAt'> & { attendee: Pick<Attendee, 'id' | 'name' | 'title'> }>;
+  agendaItems: Array<Pick<AgendaItem, 'id' | 'order' | 'title' | 'duration' | 'status'>>;
+  entries: AnalyticsEntry[];
+}
+
+export interface SpeakerAnalytics {
+  attendeeId: string | null;
+  name: string;
+  title: string | null;
+  attended: boolean;
+  talkTimeSeconds: number;
+  talkTimeShare: number;  // 0..1 of all talk time
+  turns: number;
+  entries: number;
+  questions: number;
+  interruptionsMade: number;
+  interruptionsReceived: number;
+}
+
+export interface AgendaItemAnalytics {
+  id: string;
+  order: number;
+  title: string;
+  status: string;
+  plannedMinutes: number;
+  actualMinutes: number;
+  varianceMinutes: number;  // positive when over time
+  overran: boolean;
+}
+
+// ============================================
+// HEURISTICS
+// ============================================
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Questions in a transcript entry: sentences ending in "?", or (for captions
+ * without punctuation) an entry that opens with a question word
+ */
+export function countQuestions(text: string): number {
+  const trimmed = text.trim();
+  if (!trimmed) return 0;
+
+  if (/[.!?]/.test(trimmed)) {
+    return (trimmed.match(/\?+(\s|$)/g) ?? []).length;
+  }
+
+  const first = trimmed.split(/\s+/)[0].toLowerCase().replace(/[^a-z]/g, '');
+  return QUESTION_WORDS.has(first) ? 1 : 0;
+}
+
+function endsSentence(text: string): boolean {
+  return /[.!?…]["')\]]?\s*$/.test(text.trim());
+}
+
+/**
+ * End of each entry: its recorded end, or an estimate from the word count
+ * that stops at the next entry's start
+ */
+function entryEnds(entries: AnalyticsEntry[]): number[] {
+  return entries.map((entry, index) => {
+    const start = entry.timestamp.getTime();
+    if (entry.endTimestamp && entry.endTimestamp.getTime() >= start) {
+      return entry.endTimestamp.getTime();
+    }
+
+    const estimated = start + (wordCount(entry.content) / WORDS_PER_SECOND) * 1000;
+    const next = entries[index + 1]?.timestamp.getTime();
+    return next !== undefined && next >= start ? Math.min(estimated, next) : estimated;
+  });
+}
+
+function speakerKey(entry: Pick<TranscriptEntry, 'speakerId' | 'speakerName'>): string {
+  return entry.speakerId ?? `name:${entry.speakerName}`;
+}
+
+function minutes(ms: number): number {
+  return Math.round((ms / 60000) * 10) / 10;
+}
+
+// ============================================
+// COMPUTATION
+// ============================================
+
+/**
+ * Analytics of a meeting from its attendees, agenda and transcript
+ */
+export function computeMeetingAnalytics(input: MeetingAnalyticsInput) {
+  const { meeting } = input;
+  const entries = [...input.entries].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const ends = entryEnds(entries);
+
+  // Every attendee of the meeting gets a row, including those who never spoke
+  const speakers = new Map<string, SpeakerAnalytics>();
+  for (const { attendee, isPresent, joinedAt } of input.attendees) {
+    speakers.set(attendee.id, {
+      attendeeId: attendee.id,
+      name: attendee.name,
+      title: attendee.title,
+      attended: isPresent || joinedAt !== null,
+      talkTimeSeconds: 0,
+      talkTimeShare: 0,
+      turns: 0,
+      entries: 0,
+      questions: 0,
+      interruptionsMade: 0,
+      interruptionsReceived: 0,
+    });
+  }
+
+  const speakerFor = (entry: AnalyticsEntry): SpeakerAnalytics => {
+    const key = speakerKey(entry);
+    let speaker = speakers.get(key);
+    if (!speaker) {
+      // Unresolved names (see services/recall/speakers) are reported by name
+      speaker = {
+        attendeeId: entry.speakerId,
+        name: entry.speakerName,
+        title: null,
+        attended: true,
+        talkTimeSeconds: 0,
+        talkTimeShare: 0,
+        turns: 0,
+        entries: 0,
+        questions: 0,
+        interruptionsMade: 0,
+        interruptionsReceived: 0,
+      };
+      speakers.set(key, speaker);
+    }
+    return speaker;
+  };
+
+  let totalTalkMs = 0;
+  entries.forEach((entry, index) => {
+    const speaker = speakerFor(entry);
+    const talkMs = ends[index] - entry.timestamp.getTime();
+    speaker.talkTimeSeconds += talkMs / 1000;
+    speaker.entries++;
+    speaker.questions += countQuestions(entry.content);
+    speaker.attended = true;
+    totalTalkMs += talkMs;
+
+    const previous = entries[index - 1];
+    if (!previous || speakerKey(previous) !== speakerKey(entry)) {
+      speaker.turns++;
+    }
+
+    if (previous && speakerKey(previous) !== speakerKey(entry)) {
+      const gap = entry.timestamp.getTime() - ends[index - 1];
+      const measured = previous.endTimestamp !== null;
+      const overlapped = measured && gap < -OVERLAP_TOLERANCE_MS;
+      // Only for punctuated transcripts with real end times: estimates always touch the next entry
+      const cutOff = measured && gap < INTERRUPTION_GAP_MS && /[.!?,]/.test(previous.content) && !endsSentence(previous.content);
+      if (overlapped || cutOff) {
+        speaker.interruptionsMade++;
+        speakerFor(previous).interruptionsReceived++;
+      }
+    }
+  });
+
+  for (const speaker of speakers.values()) {
+    speaker.talkTimeShare = totalTalkMs > 0 ? Math.round((speaker.talkTimeSeconds * 1000 / totalTalkMs) * 1000) / 1000 : 0;
+    speaker.talkTimeSeconds = Math.round(speaker.talkTimeSeconds);
+  }
+
+  // Time per agenda item: contiguous runs of entries tagged with the item
+  const agendaMs = new Map<string, number>();
+  let runStart = 0;
+  entries.forEach((entry, index) => {
+    const itemId = entry.agendaItemId;
+    if (index === 0 || entries[index - 1].agendaItemId !== itemId) {
+      runStart = entry.timestamp.getTime();
+    }
+    const runEnds = index === entries.length - 1 || entries[index + 1].agendaItemId !== itemId;
+    if (itemId && runEnds) {
+      agendaMs.set(itemId, (agendaMs.get(itemId) ?? 0) + (ends[index] - runStart));
+    }
+  });
+
+  const agenda: AgendaItemAnalytics[] = [...input.agendaItems]
+    .sort((a, b) => a.order - b.order)
+    .map((item) => {
+      const actualMinutes = minutes(agendaMs.get(item.id) ?? 0);
+      return {
+        id: item.id,
+        order: item.order,
+        title: item.title,
+        status: item.status.toLowerCase().replace('_', '-'),
+        plannedMinutes: item.duration,
+        actualMinutes,
+        varianceMinutes: Math.round((actualMinutes - item.duration) * 10) / 10,
+        overran: actualMinutes > item.duration,
+      };
+    });
+
+  const scheduledMinutes = minutes(meeting.scheduledEnd.getTime() - meeting.scheduledStart.getTime());
+  const actualMinutes = meeting.actualStart && meeting.actualEnd
+    ? minutes(meeting.actualEnd.getTime() - meeting.actualStart.getTime())
+    : null;
+
+  return {
+    meetingId: meeting.id,
+    title: meeting.title,
+    type: meeting.type.toLowerCase(),
+    phase: meeting.phase.toLowerCase(),
+    duration: {
+      scheduledMinutes,
+      actualMinutes,
+      overrunMinutes: actualMinutes !== null ? Math.round((actualMinutes - scheduledMinutes) * 10) / 10 : null,
+      plannedAgendaMinutes: input.agendaItems.reduce((sum, item) => sum + item.duration, 0),
+    },
+    totals: {
+      entries: entries.length,
+      talkTimeSeconds: Math.round(totalTalkMs / 1000),
+      speakers: [...speakers.values()].filter((s) => s.entries > 0).length,
+      questions: [...speakers.values()].reduce((sum, s) => sum + s.questions, 0),
+      interruptions: [...speakers.values()].reduce((sum, s) => sum + s.interruptionsMade, 0),
+      unattributedEntries: entries.filter((e) => !e.speakerId).length,
+      untaggedMinutes: minutes(
+        entries.reduce((sum, entry, index) => sum + (entry.agendaItemId ? 0 : ends[index] - entry.timestamp.getTime()), 0)
+      ),
+    },
+    speakers: [...speakers.values()].sort((a, b) => b.talkTimeSeconds - a.talkTimeSeconds),
+    agenda,
+  };
+}
+
+export type MeetingAnalytics = ReturnType<typeof computeMeetingAnalytics>;
+
+/**
+ * Load a meeting and compute its analytics
+ */
+export async function getMeetingAnalytics(meetingId: string): Promise<MeetingAnalytics> {
+  const meeting = await prisma.meeting.findUniqueOrThrow({
+    where: { id: meetingId },
+    include: {
+      attendees: { include: { attendee: { select: { id: true, name: true, title: true } } } },
+      agendaItems: { select: { id: true, order: true, title: true, duration: true, status: true } },
+    },
+  });
+
+  const entries = await prisma.transcriptEntry.findMany({
+    where: { meetingId },
+    select: {
+      speakerId: true,
+      speakerName: true,
+      content: true,
+      timestamp: true,
+      endTimestamp: true,
+      agendaItemId: true,
+    },
+    orderBy: { timestamp: 'asc' },
+  });
+
+  return computeMeetingAnalytics({
+    meeting,
+    attendees: meeting.attendees,
+    agendaItems: meeting.agendaItems,
+    entries,
+  });
+}
+
+// Export service
+export const meetingAnalytics = {
+  countQuestions,
+  computeMeetingAnalytics,
+  getMeetingAnalytics,
+};
+
+export default meetingAnalytics;
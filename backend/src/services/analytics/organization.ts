@@ -0,0 +1,168 @@
+/**
+ * Organization Analytics
+ *
+ * Rollup over an organization's completed meetings in a date range, for board
+ * effectiveness reviews: attendance per attendee and meeting overruns by
+ * meeting type.
+ *
+ * An invited attendee counts as attending when they were marked present,
+ * joined the call (participant events) or spoke in the transcript.
+ */
+
+import { MeetingType, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Default range when the caller gives none
+const DEFAULT_RANGE_DAYS = 365;
+
+// Meetings ending within this many minutes of the scheduled end are on time
+const OVERRUN_TOLERANCE_MINUTES = 5;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AnalyticsRange {
+  from?: Date;
+  to?: Date;
+  type?: MeetingType;
+}
+
+export interface AttendanceRow {
+  attendeeId: string;
+  name: string;
+  title: string;
+  invited: number;
+  attended: number;
+  attendanceRate: number;  // 0..1
+  spokeIn: number;         // meetings with at least one attributed transcript entry
+}
+
+export interface OverrunRow {
+  type: string;
+  meetings: number;
+  // Meetings with both an actual start and end
+  timed: number;
+  overran: number;
+  overrunRate: number;  // 0..1 of timed meetings
+  avgScheduledMinutes: number | null;
+  avgActualMinutes: number | null;
+  avgOverrunMinutes: number | null;  // over the meetings that overran
+}
+
+// ============================================
+// ROLLUP
+// ============================================
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+}
+
+/**
+ * Attendance and overruns for the organization's completed meetings scheduled in the range
+ */
+export async function getOrganizationAnalytics(organizationId: string, range: AnalyticsRange = {}) {
+  const to = range.to ?? new Date();
+  const from = range.from ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+
+  const where: Prisma.MeetingWhereInput = {
+    organizationId,
+    phase: 'COMPLETED',
+    scheduledStart: { gte: from, lte: to },
+    ...(range.type && { type: range.type }),
+  };
+
+  const meetings = await prisma.meeting.findMany({
+    where,
+    select: {
+      id: true,
+      type: true,
+      scheduledStart: true,
+      scheduledEnd: true,
+      actualStart: true,
+      actualEnd: true,
+      attendees: {
+        select: {
+          isPresent: true,
+          joinedAt: true,
+          attendee: { select: { id: true, name: true, title: true } },
+        },
+      },
+    },
+  });
+  const meetingIds = meetings.map((m) => m.id);
+
+  // (speaker, meeting) pairs with attributed speech
+  const spoke = await prisma.transcriptEntry.groupBy({
+    by: ['speakerId', 'meetingId'],
+    where: { meetingId: { in: meetingIds }, speakerId: { not: null } },
+  });
+  const spokeIn = new Set(spoke.map((row) => `${row.speakerId}:${row.meetingId}`));
+
+  const attendance = new Map<string, AttendanceRow>();
+  for (const meeting of meetings) {
+    for (const { attendee, isPresent, joinedAt } of meeting.attendees) {
+      let row = attendance.get(attendee.id);
+      if (!row) {
+        row = { attendeeId: attendee.id, name: attendee.name, title: attendee.title, invited: 0, attended: 0, attendanceRate: 0, spokeIn: 0 };
+        attendance.set(attendee.id, row);
+      }
+
+      const spoken = spokeIn.has(`${attendee.id}:${meeting.id}`);
+      row.invited++;
+      if (isPresent || joinedAt !== null || spoken) row.attended++;
+      if (spoken) row.spokeIn++;
+    }
+  }
+  for (const row of attendance.values()) {
+    row.attendanceRate = round(row.attended / row.invited, 3);
+  }
+
+  const byType = new Map<string, typeof meetings>();
+  for (const meeting of meetings) {
+    byType.set(meeting.type, [...(byType.get(meeting.type) ?? []), meeting]);
+  }
+
+  const overruns: OverrunRow[] = [...byType.entries()].map(([type, group]) => {
+    const timed = group.filter((m) => m.actualStart && m.actualEnd);
+    const scheduled = timed.map((m) => (m.scheduledEnd.getTime() - m.scheduledStart.getTime()) / 60000);
+    const actual = timed.map((m) => (m.actualEnd!.getTime() - m.actualStart!.getTime()) / 60000);
+    const over = actual.map((minutes, i) => minutes - scheduled[i]).filter((delta) => delta > OVERRUN_TOLERANCE_MINUTES);
+
+    return {
+      type: type.toLowerCase(),
+      meetings: group.length,
+      timed: timed.length,
+      overran: over.length,
+      overrunRate: timed.length > 0 ? round(over.length / timed.length, 3) : 0,
+      avgScheduledMinutes: average(scheduled),
+      avgActualMinutes: average(actual),
+      avgOverrunMinutes: average(over),
+    };
+  });
+
+  return {
+    range: { from, to },
+    meetings: meetings.length,
+    attendance: [...attendance.values()].sort((a, b) => a.attendanceRate - b.attendanceRate || a.name.localeCompare(b.name)),
+    overrunsByType: overruns.sort((a, b) => a.type.localeCompare(b.type)),
+  };
+}
+
+export type OrganizationAnalytics = Awaited<ReturnType<typeof getOrganizationAnalytics>>;
+
+// Export service
+export const organizationAnalytics = {
+  getOrganizationAnalytics,
+};
+
+export default organizationAnalytics;
@@ -0,0 +1,180 @@
+/**
+ * Minutes Diff
+ *
+ * Compares two versions of a meeting's minutes section by section (overview,
+ * attendance notes, next steps and each agenda item's discussion), with a
+ * word-level diff of every section that changed.
+ */
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Largest token grid diffed word by word; bigger rewrites show as replaced whole
+const MAX_DIFF_CELLS = 4_000_000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MinutesContent {
+  overview: string;
+  attendanceNotes: string | null;
+  nextSteps: string[];
+  discussions: Array<{
+    agendaItemId: string;
+    title: string;
+    summary: string;
+    keyPoints: string[];
+    outcome: string | null;
+  }>;
+}
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface SectionDiff {
+  section: string;
+  title: string;
+  change: 'added' | 'removed' | 'changed';
+  parts: DiffPart[];
+}
+
+// ============================================
+// SECTIONS
+// ============================================
+
+/**
+ * Sections of the minutes as comparable text, keyed like comment sections
+ */
+export function minutesSections(content: MinutesContent): Map<string, { title: string; text: string }> {
+  const sections = new Map<string, { title: string; text: string }>();
+
+  sections.set('overview', { title: 'Overview', text: content.overview });
+  if (content.attendanceNotes) {
+    sections.set('attendanceNotes', { title: 'Attendance notes', text: content.attendanceNotes });
+  }
+  if (content.nextSteps.length > 0) {
+    sections.set('nextSteps', { title: 'Next steps', text: content.nextSteps.map((step) => `- ${step}`).join('\n') });
+  }
+  for (const discussion of content.discussions) {
+    sections.set(`discussion:${discussion.agendaItemId}`, {
+      title: discussion.title,
+      text: [
+        discussion.summary,
+        ...discussion.keyPoints.map((point) => `- ${point}`),
+        discussion.outcome ? `Outcome: ${discussion.outcome}` : '',
+      ].filter(Boolean).join('\n'),
+    });
+  }
+
+  return sections;
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+function push(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff (whitespace is kept with the words)
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const parts: DiffPart[] = [];
+
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  push(parts, 'equal', a.slice(0, start).join(''));
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_DIFF_CELLS) {
+    push(parts, 'delete', a.slice(start, endA).join(''));
+    push(parts, 'insert', b.slice(start, endB).join(''));
+  } else {
+    // Longest common subsequence, filled from the end so the walk runs forwards
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        push(parts, 'equal', a[start + i]);
+        i++;
+        j++;
+      } else if (j < m && (i === n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+        push(parts, 'insert', b[start + j]);
+        j++;
+      } else {
+        push(parts, 'delete', a[start + i]);
+        i++;
+      }
+    }
+  }
+
+  push(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
+
+/**
+ * Sections that differ between two versions, in the order of the newer one
+ */
+export function diffMinutes(from: MinutesContent, to: MinutesContent): SectionDiff[] {
+  const before = minutesSections(from);
+  const after = minutesSections(to);
+  const diffs: SectionDiff[] = [];
+
+  for (const [section, { title, text }] of after) {
+    const previous = before.get(section);
+    if (!previous) {
+      diffs.push({ section, title, change: 'added', parts: [{ type: 'insert', text }] });
+    } else if (previous.text !== text) {
+      diffs.push({ section, title, change: 'changed', parts: diffWords(previous.text, text) });
+    }
+  }
+
+  for (const [section, { title, text }] of before) {
+    if (!after.has(section)) {
+      diffs.push({ section, title, change: 'removed', parts: [{ type: 'delete', text }] });
+    }
+  }
+
+  return diffs;
+}
+
+// Export service
+export const minutesDiff = {
+  minutesSections,
+  diffWords,
+  diffMinutes,
+};
+
+export default minutesDiff;
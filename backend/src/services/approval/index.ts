@@ -0,0 +1,9 @@
+/**
+ * Minutes Approval Services - Central Export
+ */
+
+export * from './diff';
+export * from './workflow';
+
+export { default as minutesDiff } from './diff';
+export { default as approvalWorkflow } from './workflow';
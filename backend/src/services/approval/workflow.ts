@@ -0,0 +1,481 @@
+/**
+ * Minutes Approval Workflow
+ *
+ * Takes a meeting's minutes (its MeetingSummary) from draft to approval:
+ * - every change (generation or a manual edit) is stored as an immutable
+ *   MinutesVersion; changing circulated minutes returns them to draft
+ * - circulating sends the current version to the board for review, where
+ *   members comment on its sections (threads of MinutesComment)
+ * - the chair and the secretary sign the circulated version (two different
+ *   users); with both signatures it is approved and locked, so it can no
+ *   longer be edited or regenerated. Only the meeting's designated chair and
+ *   secretary (Meeting.chairId, Meeting.secretaryId) may sign in those roles;
+ *   a role nobody is designated for can be signed by an organization admin
+ */
+
+import {
+  DiscussionSummary,
+  MeetingSummary,
+  MinutesSignoffRole,
+  MinutesVersion,
+  Prisma,
+} from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { ORG_ROLE_RANK } from '../auth/session';
+import { diffMinutes, MinutesContent, minutesSections, SectionDiff } from './diff';
+
+const logger = createLogger('approval');
+
+// ============================================
+// TYPES
+// ============================================
+
+export class MinutesWorkflowError extends Error {
+  status: number;
+
+  constructor(message: string, status = 409) {
+    super(message);
+    this.name = 'MinutesWorkflowError';
+    this.status = status;
+  }
+}
+
+// generated by the summary job, edited by hand, initial for minutes that predate versioning
+export type VersionSource = 'generated' | 'edited' | 'initial';
+
+type SummaryWithDiscussions = MeetingSummary & {
+  discussions: Array<DiscussionSummary & { agendaItem?: { order: number } | null }>;
+};
+
+export interface MinutesEdit {
+  overview?: string;
+  attendanceNotes?: string | null;
+  nextSteps?: string[];
+}
+
+export interface CommentInput {
+  section: string;
+  body: string;
+  parentId?: string;
+}
+
+const SIGNOFF_ROLES: MinutesSignoffRole[] = ['CHAIR', 'SECRETARY'];
+
+const userSelect = { select: { id: true, name: true, email: true } } as const;
+
+interface PersonRef {
+  id: string | null;
+  name: string | null;
+  email: string | null;
+}
+
+// ============================================
+// VERSIONS
+// ============================================
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/**
+ * Content of a summary as stored in its versions
+ */
+export function summaryContent(summary: SummaryWithDiscussions): MinutesContent {
+  return {
+    overview: summary.overview,
+    attendanceNotes: summary.attendanceNotes,
+    nextSteps: stringList(summary.nextSteps),
+    discussions: [...summary.discussions]
+      .sort((a, b) => (a.agendaItem?.order ?? 0) - (b.agendaItem?.order ?? 0))
+      .map((d) => ({
+        agendaItemId: d.agendaItemId,
+        title: d.title,
+        summary: d.summary,
+        keyPoints: stringList(d.keyPoints),
+        outcome: d.outcome,
+      })),
+  };
+}
+
+/**
+ * Refuse changes to approved minutes
+ */
+export function assertEditable(summary: Pick<MeetingSummary, 'status'> | null): void {
+  if (summary?.status === 'APPROVED') {
+    throw new MinutesWorkflowError('The minutes are approved and locked');
+  }
+}
+
+async function findSummary(meetingId: string) {
+  const summary = await prisma.meetingSummary.findUnique({ where: { meetingId } });
+  if (!summary) {
+    throw new MinutesWorkflowError('Summary not found', 404);
+  }
+  return summary;
+}
+
+/**
+ * Snapshot a summary as its next version (run inside the transaction that changed it)
+ */
+export async function recordVersion(
+  tx: Prisma.TransactionClient,
+  summaryId: string,
+  source: VersionSource,
+  userId: string | null = null
+): Promise<MinutesVersion> {
+  const summary = await tx.meetingSummary.findUniqueOrThrow({
+    where: { id: summaryId },
+    include: { discussions: { include: { agendaItem: { select: { order: true } } } } },
+  });
+
+  const version = await tx.minutesVersion.create({
+    data: {
+      summaryId,
+      version: summary.currentVersion + 1,
+      source,
+      content: summaryContent(summary) as unknown as Prisma.InputJsonValue,
+      createdById: userId,
+    },
+  });
+
+  await tx.meetingSummary.update({
+    where: { id: summaryId },
+    data: {
+      currentVersion: version.version,
+      // Amended minutes have to be circulated again
+      ...(summary.status === 'CIRCULATED' && { status: 'DRAFT', circulatedAt: null }),
+    },
+  });
+
+  return version;
+}
+
+/**
+ * Edit draft or circulated minutes by hand, as a new version
+ */
+export async function editMinutes(meetingId: string, userId: string, edit: MinutesEdit) {
+  return prisma.$transaction(async (tx) => {
+    const before = await tx.meetingSummary.findUnique({ where: { meetingId } });
+    if (!before) {
+      throw new MinutesWorkflowError('Summary not found', 404);
+    }
+    assertEditable(before);
+
+    await tx.meetingSummary.update({
+      where: { id: before.id },
+      data: {
+        ...(edit.overview && { overview: edit.overview }),
+        ...(edit.attendanceNotes !== undefined && { attendanceNotes: edit.attendanceNotes }),
+        ...(edit.nextSteps && { nextSteps: edit.nextSteps }),
+      },
+    });
+    const version = await recordVersion(tx, before.id, 'edited', userId);
+
+    return { before, version };
+  });
+}
+
+/**
+ * Versions of a meeting's minutes, newest first (without their content)
+ */
+export async function listVersions(meetingId: string) {
+  const summary = await findSummary(meetingId);
+
+  const [versions, signoffs] = await Promise.all([
+    prisma.minutesVersion.findMany({
+      where: { summaryId: summary.id },
+      select: { id: true, version: true, source: true, createdAt: true, createdBy: userSelect },
+      orderBy: { version: 'desc' },
+    }),
+    prisma.minutesSignoff.findMany({
+      where: { summaryId: summary.id },
+      include: { user: userSelect },
+    }),
+  ]);
+
+  return versions.map((version) => ({
+    ...version,
+    signoffs: signoffs
+      .filter((s) => s.version === version.version)
+      .map((s) => ({ role: s.role.toLowerCase(), user: s.user, signedAt: s.signedAt })),
+  }));
+}
+
+/**
+ * One version with its content
+ */
+export async function getVersion(meetingId: string, version: number) {
+  const summary = await findSummary(meetingId);
+
+  const found = await prisma.minutesVersion.findUnique({
+    where: { summaryId_version: { summaryId: summary.id, version } },
+    include: { createdBy: userSelect },
+  });
+  if (!found) {
+    throw new MinutesWorkflowError('Version not found', 404);
+  }
+  return found;
+}
+
+/**
+ * Section-by-section differences between two versions
+ */
+export async function diffVersions(meetingId: string, from: number, to: number): Promise<{ from: number; to: number; sections: SectionDiff[] }> {
+  const [before, after] = await Promise.all([getVersion(meetingId, from), getVersion(meetingId, to)]);
+
+  return {
+    from,
+    to,
+    sections: diffMinutes(before.content as unknown as MinutesContent, after.content as unknown as MinutesContent),
+  };
+}
+
+// ============================================
+// CIRCULATION AND SIGN-OFF
+// ============================================
+
+// The user, or the name and email copied onto the record once their account is deleted
+function person(user: PersonRef | null, name: string | null, email: string | null): PersonRef {
+  return user ?? { id: null, name, email };
+}
+
+/**
+ * Approval state of a meeting's minutes
+ */
+export async function getApproval(meetingId: string) {
+  const summary = await findSummary(meetingId);
+
+  const signoffs = await prisma.minutesSignoff.findMany({
+    where: { summaryId: summary.id, version: summary.approvedVersion ?? summary.currentVersion },
+    include: { user: userSelect },
+    orderBy: { signedAt: 'asc' },
+  });
+
+  return {
+    summaryId: summary.id,
+    status: summary.status.toLowerCase(),
+    currentVersion: summary.currentVersion,
+    circulatedAt: summary.circulatedAt,
+    approvedAt: summary.approvedAt,
+    approvedVersion: summary.approvedVersion,
+    signoffs: signoffs.map((s) => ({
+      role: s.role.toLowerCase(),
+      user: person(s.user, s.signerName, s.signerEmail),
+      signedAt: s.signedAt,
+    })),
+    awaiting: SIGNOFF_ROLES
+      .filter((role) => !signoffs.some((s) => s.role === role))
+      .map((role) => role.toLowerCase()),
+  };
+}
+
+/**
+ * Send the current version of draft minutes to the board for review
+ */
+export async function circulateMinutes(meetingId: string, userId: string) {
+  const summary = await findSummary(meetingId);
+  if (summary.status !== 'DRAFT') {
+    throw new MinutesWorkflowError(`Minutes are already ${summary.status.toLowerCase()}`);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    // Minutes written before versioning get their first version now
+    if (summary.currentVersion === 0) {
+      await recordVersion(tx, summary.id, 'initial', userId);
+    }
+    await tx.meetingSummary.update({
+      where: { id: summary.id },
+      data: { status: 'CIRCULATED', circulatedAt: new Date() },
+    });
+  });
+
+  logger.info({ meetingId, userId }, 'Minutes circulated');
+  return getApproval(meetingId);
+}
+
+/**
+ * Check that a user may sign as chair or secretary: the meeting's designated
+ * one, or an organization admin when nobody is designated
+ */
+async function assertSignatory(meetingId: string, userId: string, role: MinutesSignoffRole): Promise<void> {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    select: { organizationId: true, chairId: true, secretaryId: true },
+  });
+  if (!meeting) {
+    throw new MinutesWorkflowError('Meeting not found', 404);
+  }
+
+  const name = role.toLowerCase();
+  const designated = role === 'CHAIR' ? meeting.chairId : meeting.secretaryId;
+  if (designated) {
+    if (designated !== userId) {
+      throw new MinutesWorkflowError(`Only the meeting's ${name} can sign as ${name}`, 403);
+    }
+    return;
+  }
+
+  const member = await prisma.organizationMember.findUnique({
+    where: { userId_organizationId: { userId, organizationId: meeting.organizationId } },
+    select: { role: true },
+  });
+  if (!member || ORG_ROLE_RANK[member.role] < ORG_ROLE_RANK.ADMIN) {
+    throw new MinutesWorkflowError(`No ${name} is set for this meeting, so only an organization admin can sign as ${name}`, 403);
+  }
+}
+
+/**
+ * Sign the circulated version as chair or secretary; approves it once both have signed
+ */
+export async function signMinutes(meetingId: string, userId: string, role: MinutesSignoffRole) {
+  const { id: summaryId } = await findSummary(meetingId);
+  await assertSignatory(meetingId, userId, role);
+
+  const { version, approved } = await prisma.$transaction(async (tx) => {
+    // Checked in the transaction so an edit cannot slip in between
+    const summary = await tx.meetingSummary.findUniqueOrThrow({ where: { id: summaryId } });
+    if (summary.status !== 'CIRCULATED') {
+      throw new MinutesWorkflowError('Only circulated minutes can be signed');
+    }
+
+    const version = summary.currentVersion;
+    const existing = await tx.minutesSignoff.findMany({ where: { summaryId, version } });
+    if (existing.some((s) => s.role === role)) {
+      throw new MinutesWorkflowError(`The ${role.toLowerCase()} has already signed this version`);
+    }
+    if (existing.some((s) => s.userId === userId)) {
+      throw new MinutesWorkflowError('The chair and the secretary must be different people');
+    }
+
+    const signer = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { name: true, email: true } });
+    await tx.minutesSignoff.create({
+      data: { summaryId, version, role, userId, signerName: signer.name, signerEmail: signer.email },
+    });
+
+    const signed = new Set([...existing.map((s) => s.role), role]);
+    if (!SIGNOFF_ROLES.every((r) => signed.has(r))) {
+      return { version, approved: false };
+    }
+
+    await tx.meetingSummary.update({
+      where: { id: summaryId },
+      data: { status: 'APPROVED', approvedAt: new Date(), approvedVersion: version },
+    });
+    return { version, approved: true };
+  });
+
+  logger.info({ meetingId, userId, role, version, approved }, 'Minutes signed');
+  return getApproval(meetingId);
+}
+
+// ============================================
+// COMMENTS
+// ============================================
+
+/**
+ * Comment threads on the minutes (optionally of one section), oldest first
+ */
+export async function listComments(meetingId: string, section?: string) {
+  const summary = await findSummary(meetingId);
+
+  const threads = await prisma.minutesComment.findMany({
+    where: { summaryId: summary.id, parentId: null, ...(section && { section }) },
+    include: {
+      author: userSelect,
+      replies: { include: { author: userSelect }, orderBy: { createdAt: 'asc' } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return threads.map((thread) => ({
+    ...withAuthor(thread),
+    replies: thread.replies.map(withAuthor),
+  }));
+}
+
+function withAuthor<T extends { author: PersonRef | null; authorName: string | null; authorEmail: string | null }>(comment: T) {
+  return { ...comment, author: person(comment.author, comment.authorName, comment.authorEmail) };
+}
+
+/**
+ * Start a thread on a section, or reply to one
+ */
+export async function addComment(meetingId: string, userId: string, input: CommentInput) {
+  const summary = await prisma.meetingSummary.findUnique({
+    where: { meetingId },
+    include: { discussions: true },
+  });
+  if (!summary) {
+    throw new MinutesWorkflowError('Summary not found', 404);
+  }
+  assertEditable(summary);
+
+  let section = input.section;
+  if (input.parentId) {
+    const parent = await prisma.minutesComment.findFirst({
+      where: { id: input.parentId, summaryId: summary.id, parentId: null },
+    });
+    if (!parent) {
+      throw new MinutesWorkflowError('Comment thread not found', 404);
+    }
+    section = parent.section;
+  } else if (!minutesSections(summaryContent(summary)).has(section)) {
+    throw new MinutesWorkflowError(`Unknown section: ${section}`, 400);
+  }
+
+  const author = await prisma.user.findUniqueOrThrow({ where: { id: userId }, select: { name: true, email: true } });
+  return prisma.minutesComment.create({
+    data: {
+      summaryId: summary.id,
+      section,
+      parentId: input.parentId ?? null,
+      version: summary.currentVersion,
+      body: input.body,
+      authorId: userId,
+      authorName: author.name,
+      authorEmail: author.email,
+    },
+    include: { author: userSelect },
+  });
+}
+
+/**
+ * Mark a thread resolved (or reopen it)
+ */
+export async function resolveComment(meetingId: string, commentId: string, resolved: boolean) {
+  const summary = await findSummary(meetingId);
+  assertEditable(summary);
+
+  const comment = await prisma.minutesComment.findFirst({
+    where: { id: commentId, summaryId: summary.id, parentId: null },
+  });
+  if (!comment) {
+    throw new MinutesWorkflowError('Comment thread not found', 404);
+  }
+
+  return withAuthor(await prisma.minutesComment.update({
+    where: { id: commentId },
+    data: { resolvedAt: resolved ? comment.resolvedAt ?? new Date() : null },
+    include: { author: userSelect },
+  }));
+}
+
+// Export service
+export const approvalWorkflow = {
+  summaryContent,
+  assertEditable,
+  recordVersion,
+  editMinutes,
+  listVersions,
+  getVersion,
+  diffVersions,
+  getApproval,
+  circulateMinutes,
+  signMinutes,
+  listComments,
+  addComment,
+  resolveComment,
+};
+
+export default approvalWorkflow;
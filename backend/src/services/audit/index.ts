@@ -0,0 +1,7 @@
+/**
+ * Audit Services - Central Export
+ */
+
+export * from './trail';
+
+export { default as auditTrail } from './trail';
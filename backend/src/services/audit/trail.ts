@@ -0,0 +1,379 @@
+/**
+ * Audit Trail
+ *
+ * Durable record of governance actions: who confirmed a detected decision,
+ * edited a transcript entry, changed a summary, ended a meeting, ...
+ *
+ * Events are appended per organization with a sequence number and a hash
+ * chain: each event's hash covers its content and the previous event's hash.
+ * Appends for one organization are serialized with a Postgres advisory lock,
+ * and verifyAuditChain() recomputes the chain to detect rows that were edited
+ * or removed after the fact.
+ */
+
+import { createHash } from 'crypto';
+import { AuditEvent, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { AuthContext } from '../auth';
+
+const logger = createLogger('audit');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Bookkeeping columns that would show up as a change on every update
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const VERIFY_BATCH_SIZE = 500;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AuditActor {
+  type: 'user' | 'system';
+  id?: string;
+  email?: string;
+  requestId?: string;
+  ipAddress?: string;
+}
+
+export interface AuditEventInput {
+  // Resolved from the meeting when omitted
+  organizationId?: string;
+  meetingId?: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before?: object | null;
+  after?: object | null;
+  // Omitted for work the system does on its own (jobs, webhooks)
+  actor?: AuditActor;
+}
+
+export interface AuditFilters {
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  action?: string;
+  meetingId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface AuditChainResult {
+  valid: boolean;
+  checked: number;
+  // First event that does not match the chain
+  brokenAt?: { sequence: number; id: string | null; reason: string };
+}
+
+type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// ============================================
+// ACTORS
+// ============================================
+
+/**
+ * Actor for an authenticated user (REST request or socket)
+ */
+export function userActor(
+  auth: AuthContext | undefined,
+  extras: { requestId?: string; ipAddress?: string } = {}
+): AuditActor {
+  if (!auth) {
+    return { type: 'system', ...extras };
+  }
+  return { type: 'user', id: auth.user.id, email: auth.user.email, ...extras };
+}
+
+export const SYSTEM_ACTOR: AuditActor = { type: 'system' };
+
+// ============================================
+// HASHING
+// ============================================
+
+/**
+ * Convert a value to what a Json column gives back (dates as ISO strings,
+ * no undefined), so hashes computed before and after storage agree
+ */
+function toJsonValue(value: unknown): any {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * JSON with object keys sorted at every level (Postgres jsonb reorders keys)
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+type HashedFields = Pick<AuditEvent,
+  'organizationId' | 'sequence' | 'actorType' | 'actorId' | 'actorEmail' | 'action' |
+  'entityType' | 'entityId' | 'meetingId' | 'before' | 'after' | 'changes' |
+  'requestId' | 'ipAddress' | 'prevHash' | 'createdAt'
+>;
+
+/**
+ * SHA-256 over every stored field of the event except its id and hash
+ */
+export function computeAuditHash(event: HashedFields): string {
+  const content = canonicalJson({
+    organizationId: event.organizationId,
+    sequence: event.sequence,
+    actorType: event.actorType,
+    actorId: event.actorId,
+    actorEmail: event.actorEmail,
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    meetingId: event.meetingId,
+    before: event.before,
+    after: event.after,
+    changes: event.changes,
+    requestId: event.requestId,
+    ipAddress: event.ipAddress,
+    prevHash: event.prevHash,
+    createdAt: event.createdAt.toISOString(),
+  });
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// ============================================
+// DIFFS
+// ============================================
+
+/**
+ * Top-level fields that differ between two versions of a record
+ * (fields only one version has, such as included relations, are ignored)
+ */
+export function diffRecords(before: object | null | undefined, after: object | null | undefined): FieldChanges | null {
+  if (!before || !after) {
+    return null;
+  }
+
+  const from = toJsonValue(before) as Record<string, unknown>;
+  const to = toJsonValue(after) as Record<string, unknown>;
+  const changes: FieldChanges = {};
+
+  for (const key of Object.keys(to)) {
+    if (IGNORED_FIELDS.has(key) || !(key in from)) continue;
+    if (canonicalJson(from[key]) !== canonicalJson(to[key])) {
+      changes[key] = { from: from[key], to: to[key] };
+    }
+  }
+
+  return changes;
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * Append an event to the organization's chain.
+ *
+ * Called after the change itself succeeded. A failure here is logged with the
+ * full event (for reconciliation) rather than failing a change that is
+ * already committed; the returned event is null in that case.
+ */
+export async function recordAuditEvent(input: AuditEventInput): Promise<AuditEvent | null> {
+  try {
+    return await appendAuditEvent(input);
+  } catch (error) {
+    logger.error({ err: error, event: input }, 'Failed to record audit event');
+    return null;
+  }
+}
+
+async function appendAuditEvent(input: AuditEventInput): Promise<AuditEvent> {
+  const organizationId = input.organizationId ?? await resolveOrganizationId(input.meetingId);
+  const actor = input.actor ?? SYSTEM_ACTOR;
+  const before = toJsonValue(input.before);
+  const after = toJsonValue(input.after);
+  const changes = diffRecords(before, after);
+
+  return prisma.$transaction(async (tx) => {
+    // One writer per organization at a time, so sequence numbers and links do not fork
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`audit:${organizationId}`}))`;
+
+    const previous = await tx.auditEvent.findFirst({
+      where: { organizationId },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    });
+
+    const fields: HashedFields = {
+      organizationId,
+      sequence: (previous?.sequence ?? 0) + 1,
+      actorType: actor.type,
+      actorId: actor.id ?? null,
+      actorEmail: actor.email ?? null,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      meetingId: input.meetingId ?? null,
+      before,
+      after,
+      changes: changes as Prisma.JsonValue,
+      requestId: actor.requestId ?? null,
+      ipAddress: actor.ipAddress ?? null,
+      prevHash: previous?.hash ?? null,
+      createdAt: new Date(),
+    };
+
+    return tx.auditEvent.create({
+      data: {
+        ...fields,
+        before: before ?? Prisma.DbNull,
+        after: after ?? Prisma.DbNull,
+        changes: (changes as Prisma.InputJsonObject | null) ?? Prisma.DbNull,
+        hash: computeAuditHash(fields),
+      },
+    });
+  });
+}
+
+async function resolveOrganizationId(meetingId: string | null | undefined): Promise<string> {
+  if (!meetingId) {
+    throw new Error('Audit event needs an organizationId or a meetingId');
+  }
+
+  const meeting = await prisma.meeting.findUniqueOrThrow({
+    where: { id: meetingId },
+    select: { organizationId: true },
+  });
+  return meeting.organizationId;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Where clause for an organization's events
+ */
+export function auditWhere(organizationId: string, filters: AuditFilters = {}): Prisma.AuditEventWhereInput {
+  return {
+    organizationId,
+    ...(filters.entityType && { entityType: filters.entityType }),
+    ...(filters.entityId && { entityId: filters.entityId }),
+    ...(filters.actorId && { actorId: filters.actorId }),
+    ...(filters.action && { action: filters.action }),
+    ...(filters.meetingId && { meetingId: filters.meetingId }),
+    ...((filters.from || filters.to) && {
+      createdAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to }),
+      },
+    }),
+  };
+}
+
+/**
+ * Events in sequence order, a batch at a time (for exports and verification)
+ */
+export async function* iterateAuditEvents(
+  organizationId: string,
+  filters: AuditFilters = {},
+  batchSize = VERIFY_BATCH_SIZE
+): AsyncGenerator<AuditEvent> {
+  let after = 0;
+
+  for (;;) {
+    const batch = await prisma.auditEvent.findMany({
+      where: { ...auditWhere(organizationId, filters), sequence: { gt: after } },
+      orderBy: { sequence: 'asc' },
+      take: batchSize,
+    });
+
+    yield* batch;
+
+    if (batch.length < batchSize) {
+      return;
+    }
+    after = batch[batch.length - 1].sequence;
+  }
+}
+
+/**
+ * Recompute the organization's chain from the first event
+ */
+export async function verifyAuditChain(organizationId: string): Promise<AuditChainResult> {
+  let checked = 0;
+  let previous: AuditEvent | null = null;
+
+  for await (const event of iterateAuditEvents(organizationId)) {
+    const expectedSequence = (previous?.sequence ?? 0) + 1;
+    const reason =
+      event.sequence !== expectedSequence ? `Missing event ${expectedSequence}` :
+      event.prevHash !== (previous?.hash ?? null) ? 'Link to the previous event does not match' :
+      event.hash !== computeAuditHash(event) ? 'Content does not match its hash' :
+      null;
+
+    if (reason) {
+      return {
+        valid: false,
+        checked,
+        brokenAt: { sequence: expectedSequence, id: event.sequence === expectedSequence ? event.id : null, reason },
+      };
+    }
+
+    checked++;
+    previous = event;
+  }
+
+  return { valid: true, checked };
+}
+
+/**
+ * API shape of an event
+ */
+export function formatAuditEvent(event: AuditEvent) {
+  return {
+    id: event.id,
+    sequence: event.sequence,
+    createdAt: event.createdAt,
+    actor: {
+      type: event.actorType,
+      id: event.actorId,
+      email: event.actorEmail,
+    },
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    meetingId: event.meetingId,
+    before: event.before,
+    after: event.after,
+    changes: event.changes,
+    requestId: event.requestId,
+    ipAddress: event.ipAddress,
+    prevHash: event.prevHash,
+    hash: event.hash,
+  };
+}
+
+// Export service
+export const auditTrail = {
+  userActor,
+  recordAuditEvent,
+  diffRecords,
+  computeAuditHash,
+  iterateAuditEvents,
+  verifyAuditChain,
+  formatAuditEvent,
+};
+
+export default auditTrail;
@@ -0,0 +1,9 @@
+/**
+ * Auth Services - Central Export
+ */
+
+export * from './session';
+export * from './scheduler';
+
+export { default as authService } from './session';
+export { default as sessionScheduler } from './scheduler';
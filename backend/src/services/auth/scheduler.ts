@@ -0,0 +1,77 @@
+/**
+ * Session Scheduler
+ *
+ * Runs next to the job worker and queues sessions.purge once per purge
+ * interval, so expired sessions do not pile up. Every replica may run it;
+ * the idempotency key makes sure each purge is queued once.
+ */
+
+import { Job } from '@prisma/client';
+import { createLogger } from '../../lib/logger';
+import { enqueueJob } from '../jobs/queue';
+
+const logger = createLogger('auth');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const TICK_INTERVAL_MS = 60000;
+const PURGE_INTERVAL_MS = parseInt(process.env.SESSION_PURGE_INTERVAL_MINUTES || '60') * 60000;
+
+let tickInterval: NodeJS.Timeout | null = null;
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+/**
+ * Queue the session purge of the current purge interval
+ */
+export async function scheduleSessionPurge(now = new Date()): Promise<Job> {
+  const bucket = Math.floor(now.getTime() / PURGE_INTERVAL_MS);
+
+  return enqueueJob({
+    type: 'sessions.purge',
+    payload: {},
+    idempotencyKey: `sessions.purge:${bucket}`,
+    maxAttempts: 3,
+  });
+}
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+function tick(): void {
+  scheduleSessionPurge().catch((error) => {
+    logger.error({ err: error }, 'Session scheduler tick failed');
+  });
+}
+
+/**
+ * Start queuing session purges
+ */
+export function startSessionScheduler(intervalMs = TICK_INTERVAL_MS): void {
+  if (tickInterval) return;
+
+  tickInterval = setInterval(tick, intervalMs);
+  tick();
+  logger.info({ purgeIntervalMs: PURGE_INTERVAL_MS }, 'Session scheduler started');
+}
+
+export function stopSessionScheduler(): void {
+  if (tickInterval) {
+    clearInterval(tickInterval);
+    tickInterval = null;
+  }
+}
+
+// Export service
+export const sessionScheduler = {
+  scheduleSessionPurge,
+  startSessionScheduler,
+  stopSessionScheduler,
+};
+
+export default sessionScheduler;
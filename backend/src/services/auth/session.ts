@@ -0,0 +1,262 @@
+/**
+ * Authentication Service
+ *
+ * Password hashing and bearer-token sessions.
+ * Tokens are random and opaque; only their SHA-256 hash is stored, so a
+ * leaked database row cannot be replayed as a credential. Expired sessions
+ * are removed by the sessions.purge job (see scheduler.ts).
+ */
+
+import { randomBytes, scrypt, createHash, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { OrgMemberRole, User, UserRole } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+
+const logger = createLogger('auth');
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const SESSION_TTL_HOURS = parseInt(process.env.SESSION_TTL_HOURS || '12');
+const TOKEN_BYTES = 32;
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+// Avoid a database write on every request just to bump lastUsedAt
+const LAST_USED_RESOLUTION_MS = 60000;
+
+// Checked for unknown emails, so they take as long to refuse as wrong passwords
+let dummyHash: Promise<string> | null = null;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AuthMembership {
+  organizationId: string;
+  role: OrgMemberRole;
+}
+
+export interface AuthContext {
+  sessionId: string;
+  user: Pick<User, 'id' | 'email' | 'name' | 'avatar' | 'role'>;
+  memberships: AuthMembership[];
+}
+
+export interface CreateSessionOptions {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// ============================================
+// ROLES
+// ============================================
+
+/**
+ * Organization roles ordered from least to most privileged
+ */
+export const ORG_ROLE_RANK: Record<OrgMemberRole, number> = {
+  VIEWER: 0,
+  EDITOR: 1,
+  ADMIN: 2,
+  OWNER: 3,
+};
+
+/**
+ * Resolve the caller's effective role in an organization.
+ * Platform admins (UserRole.ADMIN) act as OWNER everywhere.
+ */
+export function getOrgRole(auth: AuthContext, organizationId: string): OrgMemberRole | null {
+  if (auth.user.role === UserRole.ADMIN) {
+    return OrgMemberRole.OWNER;
+  }
+
+  const membership = auth.memberships.find((m) => m.organizationId === organizationId);
+  return membership?.role ?? null;
+}
+
+/**
+ * Check whether the caller has at least `minRole` in an organization
+ */
+export function hasOrgRole(auth: AuthContext, organizationId: string, minRole: OrgMemberRole): boolean {
+  const role = getOrgRole(auth, organizationId);
+  if (!role) return false;
+  return ORG_ROLE_RANK[role] >= ORG_ROLE_RANK[minRole];
+}
+
+/**
+ * Organization IDs the caller may read, or null when unrestricted (platform admin)
+ */
+export function getAccessibleOrganizationIds(auth: AuthContext): string[] | null {
+  if (auth.user.role === UserRole.ADMIN) {
+    return null;
+  }
+  return auth.memberships.map((m) => m.organizationId);
+}
+
+// ============================================
+// PASSWORDS
+// ============================================
+
+/**
+ * Hash a password as `salt:key` (both hex encoded)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+/**
+ * Verify a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [saltHex, keyHex] = storedHash.split(':');
+  if (!saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Hash of a random password, for verifying against when there is no user
+function dummyPasswordHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomBytes(SALT_BYTES).toString('hex'));
+  return dummyHash;
+}
+
+// ============================================
+// SESSIONS
+// ============================================
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Verify credentials and open a new session.
+ * Returns null for unknown users and wrong passwords alike, in the same time.
+ */
+export async function login(
+  email: string,
+  password: string,
+  options: CreateSessionOptions = {}
+): Promise<{ token: string; expiresAt: Date; user: AuthContext['user'] } | null> {
+  const user = await prisma.user.findUnique({
+    where: { email: email.toLowerCase() },
+  });
+
+  const valid = await verifyPassword(password, user?.passwordHash ?? await dummyPasswordHash());
+  if (!user?.passwordHash || !valid) {
+    logger.warn({ email }, 'Failed login attempt');
+    return null;
+  }
+
+  const token = randomBytes(TOKEN_BYTES).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 3600000);
+
+  await prisma.session.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt,
+      userAgent: options.userAgent,
+      ipAddress: options.ipAddress,
+    },
+  });
+
+  logger.info({ userId: user.id }, 'User logged in');
+
+  return {
+    token,
+    expiresAt,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+      role: user.role,
+    },
+  };
+}
+
+/**
+ * Resolve a bearer token to the session's user and memberships
+ */
+export async function resolveSession(token: string): Promise<AuthContext | null> {
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      user: {
+        include: {
+          organizations: {
+            select: { organizationId: true, role: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!session) return null;
+
+  if (session.expiresAt.getTime() <= Date.now()) {
+    await prisma.session.delete({ where: { id: session.id } }).catch(() => undefined);
+    return null;
+  }
+
+  if (Date.now() - session.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  const { user } = session;
+
+  return {
+    sessionId: session.id,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      avatar: user.avatar,
+      role: user.role,
+    },
+    memberships: user.organizations,
+  };
+}
+
+/**
+ * Revoke a single session (logout)
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await prisma.session.deleteMany({ where: { id: sessionId } });
+}
+
+/**
+ * Remove expired sessions
+ */
+export async function purgeExpiredSessions(): Promise<number> {
+  const { count } = await prisma.session.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return count;
+}
+
+// Export service object
+export const authService = {
+  hashPassword,
+  verifyPassword,
+  login,
+  resolveSession,
+  revokeSession,
+  purgeExpiredSessions,
+  getOrgRole,
+  hasOrgRole,
+  getAccessibleOrganizationIds,
+};
+
+export default authService;
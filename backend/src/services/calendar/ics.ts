@@ -0,0 +1,527 @@
+/**
+ * iCalendar (RFC 5545) Parsing
+ *
+ * Reads the VEVENTs of an ICS feed or CalDAV response and expands them into
+ * occurrences within a time window. Covers what calendar servers publish for
+ * meetings: TZID and UTC times, all-day events, DURATION, attendees, EXDATE,
+ * moved or cancelled occurrences (RECURRENCE-ID), and RRULEs with FREQ,
+ * INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYSETPOS.
+ */
+
+import { createLogger } from '../../lib/logger';
+
+const logger = createLogger('calendar');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Stop expanding a rule after this many periods (a daily rule started 25 years ago)
+const MAX_RECURRENCE_PERIODS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Windows zone names used by Exchange/Outlook feeds
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'E. Europe Standard Time': 'Europe/Bucharest',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'Arab Standard Time': 'Asia/Riyadh',
+  'India Standard Time': 'Asia/Kolkata',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'UTC': 'UTC',
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsDate {
+  // Wall-clock time as a UTC-based Date (its UTC fields are the local fields)
+  wall: Date;
+  // IANA zone of the wall-clock time; null for UTC
+  timeZone: string | null;
+  allDay: boolean;
+}
+
+export interface IcsAttendee {
+  email: string;
+  name: string | null;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  url: string | null;
+  status: string | null;  // TENTATIVE, CONFIRMED, CANCELLED
+  start: IcsDate;
+  durationMs: number;
+  attendees: IcsAttendee[];
+  // Other properties, by name (e.g. X-GOOGLE-CONFERENCE)
+  extra: Record<string, string>;
+  rrule: Record<string, string> | null;
+  exdates: number[];
+  recurrenceId: number | null;
+}
+
+export interface IcsOccurrence {
+  uid: string;
+  // Unique per occurrence: the UID, plus the original start for recurring events
+  key: string;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  url: string | null;
+  status: string | null;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  attendees: IcsAttendee[];
+  extra: Record<string, string>;
+}
+
+export interface ParseOptions {
+  // Zone for "floating" times that carry neither Z nor TZID
+  defaultTimeZone?: string;
+}
+
+// ============================================
+// TIME ZONES
+// ============================================
+
+function resolveTimeZone(tzid: string | undefined, fallback: string | null): string | null {
+  if (!tzid) return fallback;
+
+  // Some servers prefix the zone with a path, e.g. /mozilla.org/20050126_1/Europe/London
+  const name = WINDOWS_TIME_ZONES[tzid] ?? tzid.replace(/^\/.*?\/.*?\//, '');
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: name });
+    return name === 'UTC' ? null : name;
+  } catch {
+    logger.warn({ tzid }, 'Unknown time zone in calendar, using the default');
+    return fallback;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset of `timeZone` from UTC at `instant`, in milliseconds
+ */
+function zoneOffset(instant: number, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(instant));
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)!.value);
+  const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return local - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Instant of a wall-clock time in a zone
+ */
+export function wallToInstant(wall: Date, timeZone: string | null): Date {
+  if (!timeZone) return new Date(wall.getTime());
+
+  const guess = wall.getTime() - zoneOffset(wall.getTime(), timeZone);
+  // Correct once for a DST change between the guess and the real instant
+  return new Date(wall.getTime() - zoneOffset(guess, timeZone));
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseDate(line: ContentLine, defaultTimeZone: string | null): IcsDate | null {
+  const match = line.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const allDay = line.params.VALUE === 'DATE' || h === undefined;
+  const wall = new Date(Date.UTC(+y, +mo - 1, +d, +(h ?? 0), +(mi ?? 0), +(s ?? 0)));
+
+  return {
+    wall,
+    // All-day events are dates, not instants; keep them in the default zone
+    timeZone: utc ? null : resolveTimeZone(allDay ? undefined : line.params.TZID, defaultTimeZone),
+    allDay,
+  };
+}
+
+function parseDuration(value: string): number {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 0;
+  const [, sign, w, d, h, m, s] = match;
+  const ms = ((+(w ?? 0) * 7 + +(d ?? 0)) * 24 * 3600 + +(h ?? 0) * 3600 + +(m ?? 0) * 60 + +(s ?? 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseRule(value: string): Record<string, string> {
+  const rule: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) rule[key.toUpperCase()] = val.toUpperCase();
+  }
+  return rule;
+}
+
+function instantOf(date: IcsDate): number {
+  return wallToInstant(date.wall, date.timeZone).getTime();
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar document
+ */
+export function parseIcs(text: string, options: ParseOptions = {}): IcsEvent[] {
+  const defaultTimeZone = resolveTimeZone(options.defaultTimeZone, null);
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+
+  let current: ContentLine[] | null = null;
+  let depth = 0;
+
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === 'BEGIN') {
+      if (line.value.toUpperCase() === 'VEVENT' && !current) {
+        current = [];
+        depth = 0;
+      } else if (current) {
+        depth++;  // VALARM and other nested components
+      }
+      continue;
+    }
+
+    if (line.name === 'END' && current) {
+      if (depth > 0) {
+        depth--;
+      } else {
+        const event = buildEvent(current, defaultTimeZone);
+        if (event) events.push(event);
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && depth === 0) {
+      current.push(line);
+    }
+  }
+
+  return events;
+}
+
+function buildEvent(lines: ContentLine[], defaultTimeZone: string | null): IcsEvent | null {
+  const find = (name: string) => lines.find((l) => l.name === name);
+  const text = (name: string) => {
+    const line = find(name);
+    return line ? unescapeText(line.value).trim() || null : null;
+  };
+
+  const uid = text('UID');
+  const dtstart = find('DTSTART');
+  const start = dtstart && parseDate(dtstart, defaultTimeZone);
+  if (!uid || !start) return null;
+
+  let durationMs = start.allDay ? DAY_MS : 0;
+  const dtend = find('DTEND');
+  const end = dtend && parseDate(dtend, defaultTimeZone);
+  if (end) {
+    durationMs = instantOf(end) - instantOf(start);
+  } else if (find('DURATION')) {
+    durationMs = parseDuration(find('DURATION')!.value.trim());
+  }
+
+  const attendees: IcsAttendee[] = lines
+    .filter((l) => l.name === 'ATTENDEE' && /^mailto:/i.test(l.value))
+    .map((l) => ({
+      email: l.value.replace(/^mailto:/i, '').trim().toLowerCase(),
+      name: l.params.CN ? unescapeText(l.params.CN) : null,
+    }));
+
+  const exdates = lines
+    .filter((l) => l.name === 'EXDATE')
+    .flatMap((l) => l.value.split(',').map((value) => parseDate({ ...l, value }, start.timeZone ?? defaultTimeZone)))
+    .filter((d): d is IcsDate => d !== null)
+    .map(instantOf);
+
+  const recurrence = find('RECURRENCE-ID');
+  const recurrenceDate = recurrence && parseDate(recurrence, start.timeZone ?? defaultTimeZone);
+
+  const extra: Record<string, string> = {};
+  for (const line of lines) {
+    if (line.name.startsWith('X-')) extra[line.name] = unescapeText(line.value);
+  }
+
+  const rrule = find('RRULE');
+
+  return {
+    uid,
+    summary: text('SUMMARY'),
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    url: text('URL'),
+    status: text('STATUS')?.toUpperCase() ?? null,
+    start,
+    durationMs: Math.max(durationMs, 0),
+    attendees,
+    extra,
+    rrule: rrule ? parseRule(rrule.value) : null,
+    exdates,
+    recurrenceId: recurrenceDate ? instantOf(recurrenceDate) : null,
+  };
+}
+
+// ============================================
+// RECURRENCE
+// ============================================
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function withTimeOf(date: Date, time: Date): Date {
+  return new Date(Date.UTC(
+    date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(),
+    time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds()
+  ));
+}
+
+function parseByDay(value: string | undefined): Array<{ ordinal: number; weekday: number }> {
+  if (!value) return [];
+  return value.split(',').flatMap((part) => {
+    const match = part.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match ? [{ ordinal: match[1] ? parseInt(match[1]) : 0, weekday: WEEKDAYS.indexOf(match[2]) }] : [];
+  });
+}
+
+/**
+ * Candidate wall-clock starts of one period of the rule (a day, week, month or year)
+ */
+function periodCandidates(rule: Record<string, string>, dtstart: Date, period: number): Date[] {
+  const interval = Math.max(parseInt(rule.INTERVAL || '1') || 1, 1);
+  const byDay = parseByDay(rule.BYDAY);
+  const step = period * interval;
+
+  switch (rule.FREQ) {
+    case 'DAILY':
+      return [addDays(dtstart, step)];
+
+    case 'WEEKLY': {
+      // Weeks start on Monday unless WKST says otherwise
+      const weekStart = WEEKDAYS.indexOf(rule.WKST || 'MO');
+      const offset = (dtstart.getUTCDay() - weekStart + 7) % 7;
+      const firstDay = addDays(dtstart, step * 7 - offset);
+      const weekdays = byDay.length > 0 ? byDay.map((d) => d.weekday) : [dtstart.getUTCDay()];
+      return weekdays.map((weekday) => addDays(firstDay, (weekday - weekStart + 7) % 7));
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = dtstart.getUTCMonth() + step;
+      const year = dtstart.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = ((monthIndex % 12) + 12) % 12;
+      const length = daysInMonth(year, month);
+      const day = (d: number) => withTimeOf(new Date(Date.UTC(year, month, d)), dtstart);
+
+      let candidates: Date[];
+      if (rule.BYMONTHDAY) {
+        candidates = rule.BYMONTHDAY.split(',')
+          .map((v) => parseInt(v))
+          .map((d) => (d < 0 ? length + d + 1 : d))
+          .filter((d) => d >= 1 && d <= length)
+          .map(day);
+      } else if (byDay.length > 0) {
+        candidates = byDay.flatMap(({ ordinal, weekday }) => {
+          const matching: number[] = [];
+          for (let d = 1; d <= length; d++) {
+            if (new Date(Date.UTC(year, month, d)).getUTCDay() === weekday) matching.push(d);
+          }
+          if (ordinal === 0) return matching.map(day);
+          const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+          return picked ? [day(picked)] : [];
+        });
+      } else {
+        candidates = dtstart.getUTCDate() <= length ? [day(dtstart.getUTCDate())] : [];
+      }
+
+      candidates.sort((a, b) => a.getTime() - b.getTime());
+      if (rule.BYSETPOS) {
+        const pos = parseInt(rule.BYSETPOS);
+        const picked = pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos];
+        return picked ? [picked] : [];
+      }
+      return candidates;
+    }
+
+    case 'YEARLY': {
+      const year = dtstart.getUTCFullYear() + step;
+      const month = dtstart.getUTCMonth();
+      return dtstart.getUTCDate() <= daysInMonth(year, month)
+        ? [withTimeOf(new Date(Date.UTC(year, month, dtstart.getUTCDate())), dtstart)]
+        : [];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Wall-clock starts of a recurring event up to `until` (instant)
+ */
+function expandRule(event: IcsEvent, until: number): Date[] {
+  const rule = event.rrule!;
+  const count = rule.COUNT ? parseInt(rule.COUNT) : Infinity;
+  const ruleUntil = rule.UNTIL ? parseDate({ name: 'UNTIL', params: {}, value: rule.UNTIL }, event.start.timeZone) : null;
+  const last = Math.min(until, ruleUntil ? instantOf(ruleUntil) : Infinity);
+  const dtstart = event.start.wall;
+
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(rule.FREQ)) {
+    logger.warn({ uid: event.uid, freq: rule.FREQ }, 'Unsupported recurrence, using the first occurrence only');
+    return [dtstart];
+  }
+
+  const starts: Date[] = [];
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+    const candidates = periodCandidates(rule, dtstart, period).sort((a, b) => a.getTime() - b.getTime());
+    for (const candidate of candidates) {
+      if (candidate.getTime() < dtstart.getTime()) continue;
+      if (wallToInstant(candidate, event.start.timeZone).getTime() > last || starts.length >= count) {
+        return starts;
+      }
+      starts.push(candidate);
+    }
+  }
+  return starts;
+}
+
+function toOccurrence(event: IcsEvent, start: Date, key: string): IcsOccurrence {
+  return {
+    uid: event.uid,
+    key,
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    url: event.url,
+    status: event.status,
+    start,
+    end: new Date(start.getTime() + event.durationMs),
+    allDay: event.start.allDay,
+    attendees: event.attendees,
+    extra: event.extra,
+  };
+}
+
+/**
+ * Occurrences of the events that overlap [from, to], in start order
+ */
+export function expandOccurrences(events: IcsEvent[], window: { from: Date; to: Date }): IcsOccurrence[] {
+  const from = window.from.getTime();
+  const to = window.to.getTime();
+  const occurrences: IcsOccurrence[] = [];
+
+  // Moved or cancelled instances of recurring events, by UID and original start
+  const overrides = new Map<string, IcsEvent>();
+  for (const event of events) {
+    if (event.recurrenceId !== null) {
+      overrides.set(`${event.uid}#${event.recurrenceId}`, event);
+    }
+  }
+
+  for (const event of events) {
+    if (event.recurrenceId !== null) continue;
+
+    if (!event.rrule) {
+      const start = wallToInstant(event.start.wall, event.start.timeZone);
+      occurrences.push(toOccurrence(event, start, event.uid));
+      continue;
+    }
+
+    const excluded = new Set(event.exdates);
+    for (const wall of expandRule(event, to)) {
+      const original = wallToInstant(wall, event.start.timeZone).getTime();
+      if (excluded.has(original)) continue;
+
+      const key = `${event.uid}#${new Date(original).toISOString()}`;
+      const override = overrides.get(`${event.uid}#${original}`);
+      const source = override ?? event;
+      const start = override ? wallToInstant(override.start.wall, override.start.timeZone) : new Date(original);
+      occurrences.push(toOccurrence(source, start, key));
+    }
+  }
+
+  return occurrences
+    .filter((o) => o.end.getTime() >= from && o.start.getTime() <= to)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+export default parseIcs;
@@ -0,0 +1,10 @@
+/**
+ * Calendar Services - Central Export
+ */
+
+export * from './ics';
+export * from './sync';
+export * from './scheduler';
+
+export { default as calendarSync } from './sync';
+export { default as calendarScheduler } from './scheduler';
@@ -0,0 +1,146 @@
+/**
+ * Calendar Scheduler
+ *
+ * Runs next to the job worker and turns the clock into jobs:
+ * - calendar.sync for every enabled calendar source, once per sync interval
+ * - bot.join for meetings with autoJoinBot, BOT_JOIN_LEAD_MINUTES before they start
+ *
+ * Every replica may run it; idempotency keys make sure each job is queued once.
+ */
+
+import { Job } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { enqueueJob } from '../jobs/queue';
+
+const logger = createLogger('calendar');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const TICK_INTERVAL_MS = 60000;
+const SYNC_INTERVAL_MS = parseInt(process.env.CALENDAR_SYNC_INTERVAL_MINUTES || '15') * 60000;
+const BOT_JOIN_LEAD_MS = parseInt(process.env.BOT_JOIN_LEAD_MINUTES || '2') * 60000;
+
+// Bot statuses that mean a bot is already on its way or in the call
+const ACTIVE_BOT_STATUSES = ['created', 'joining', 'in_meeting'];
+
+let tickInterval: NodeJS.Timeout | null = null;
+let ticking = false;
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+/**
+ * Queue a sync of one calendar source (idempotencyKey dedupes scheduled runs)
+ */
+export async function queueCalendarSync(
+  source: { id: string; organizationId: string },
+  idempotencyKey?: string
+): Promise<Job> {
+  return enqueueJob({
+    type: 'calendar.sync',
+    payload: { calendarSourceId: source.id },
+    organizationId: source.organizationId,
+    idempotencyKey,
+    maxAttempts: 3,
+  });
+}
+
+/**
+ * Queue syncs of the sources due in the current sync interval
+ */
+export async function scheduleCalendarSyncs(now = new Date()): Promise<number> {
+  const sources = await prisma.calendarSource.findMany({
+    where: { syncEnabled: true },
+    select: { id: true, organizationId: true },
+  });
+
+  const bucket = Math.floor(now.getTime() / SYNC_INTERVAL_MS);
+  for (const source of sources) {
+    await queueCalendarSync(source, `calendar.sync:${source.id}:${bucket}`);
+  }
+  return sources.length;
+}
+
+/**
+ * Queue bot.join for auto-join meetings starting within the lead time
+ */
+export async function scheduleBotJoins(now = new Date()): Promise<number> {
+  const meetings = await prisma.meeting.findMany({
+    where: {
+      autoJoinBot: true,
+      phase: 'UPCOMING',
+      meetingUrl: { not: null },
+      scheduledStart: { lte: new Date(now.getTime() + BOT_JOIN_LEAD_MS) },
+      scheduledEnd: { gt: now },
+      OR: [
+        { bot: { is: null } },
+        { bot: { status: { notIn: ACTIVE_BOT_STATUSES } } },
+      ],
+    },
+    select: { id: true, organizationId: true, scheduledStart: true },
+  });
+
+  for (const meeting of meetings) {
+    // Keyed on the start time: a rescheduled meeting gets a new join
+    await enqueueJob({
+      type: 'bot.join',
+      payload: { meetingId: meeting.id },
+      organizationId: meeting.organizationId,
+      meetingId: meeting.id,
+      idempotencyKey: `bot.join:${meeting.id}:${meeting.scheduledStart.toISOString()}`,
+      maxAttempts: 3,
+    });
+  }
+  return meetings.length;
+}
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+
+  try {
+    await scheduleCalendarSyncs();
+    await scheduleBotJoins();
+  } catch (error) {
+    logger.error({ err: error }, 'Calendar scheduler tick failed');
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Start queuing calendar syncs and bot joins
+ */
+export function startCalendarScheduler(intervalMs = TICK_INTERVAL_MS): void {
+  if (tickInterval) return;
+
+  tickInterval = setInterval(tick, intervalMs);
+  tick();
+  logger.info({ syncIntervalMs: SYNC_INTERVAL_MS, botJoinLeadMs: BOT_JOIN_LEAD_MS }, 'Calendar scheduler started');
+}
+
+export function stopCalendarScheduler(): void {
+  if (tickInterval) {
+    clearInterval(tickInterval);
+    tickInterval = null;
+  }
+}
+
+// Export service
+export const calendarScheduler = {
+  queueCalendarSync,
+  scheduleCalendarSyncs,
+  scheduleBotJoins,
+  startCalendarScheduler,
+  stopCalendarScheduler,
+};
+
+export default calendarScheduler;
@@ -0,0 +1,416 @@
+/**
+ * Calendar Sync
+ *
+ * Imports an organization's meetings from an ICS feed or a CalDAV calendar.
+ * Each event occurrence becomes a Meeting keyed by (calendarSourceId,
+ * externalEventId), so repeated syncs update the same rows. Only UPCOMING
+ * meetings follow the calendar: once a meeting started, its record is ours.
+ * Meetings whose event is gone are deleted only if nobody prepared them yet.
+ *
+ * Calendar URLs are set by organization admins, so they are only fetched from
+ * public addresses (see lib/public-fetch), and credentials are never sent
+ * over plain http.
+ */
+
+import { CalendarSource, CalendarSourceKind } from '@prisma/client';
+import { RequestInit } from 'undici';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { fetchPublic, PublicFetchError, readBody } from '../../lib/public-fetch';
+import { decryptSecret, encryptSecret, isEncryptedSecret } from '../../lib/secrets';
+import { recordAuditEvent, SYSTEM_ACTOR } from '../audit/trail';
+import { expandOccurrences, IcsOccurrence, parseIcs } from './ics';
+
+const logger = createLogger('calendar');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// How far ahead occurrences of recurring events are imported
+const SYNC_WINDOW_DAYS = parseInt(process.env.CALENDAR_SYNC_WINDOW_DAYS || '60');
+
+// Keep meetings that ended recently in the window, so they are not treated as removed
+const SYNC_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+const FETCH_TIMEOUT_MS = 30000;
+const MAX_CALENDAR_BYTES = 20 * 1024 * 1024;
+
+// Calendar events without an end get the default meeting length
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+
+// Join links of the meeting platforms the Recall.ai bot supports
+const MEETING_URL_PATTERN =
+  /https:\/\/(?:[\w-]+\.)*(?:zoom\.us\/(?:j|my|w)\/|meet\.google\.com\/[a-z]|teams\.microsoft\.com\/l\/meetup-join\/|teams\.live\.com\/meet\/|webex\.com\/)[^\s<>"')\]]*/i;
+
+// Properties where calendar servers put the conference link
+const CONFERENCE_PROPERTIES = [
+  'X-GOOGLE-CONFERENCE',
+  'X-MICROSOFT-SKYPETEAMSMEETINGURL',
+  'X-MICROSOFT-ONLINEMEETINGEXTERNALLINK',
+];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CalendarSyncResult {
+  calendarSourceId: string;
+  occurrences: number;
+  created: number;
+  updated: number;
+  removed: number;
+  // Meetings whose event is gone but that were prepared (left as they are)
+  kept: number;
+  // Occurrences of meetings that already started (left as they are)
+  skipped: number;
+  // Invitee emails with no Attendee in the organization
+  unmatchedEmails: string[];
+}
+
+export class CalendarSyncError extends Error {
+  status = 502;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarSyncError';
+  }
+}
+
+// ============================================
+// FETCHING
+// ============================================
+
+/**
+ * Whether syncing would send the source's credentials unencrypted
+ */
+export function sendsCredentialsInClear(source: Pick<CalendarSource, 'url' | 'username' | 'password'>): boolean {
+  return /^http:\/\//i.test(source.url) && Boolean(source.username || source.password);
+}
+
+function authHeaders(source: CalendarSource): Record<string, string> {
+  if (!source.username) return {};
+  const password = source.password ? decryptSecret(source.password) : '';
+  const credentials = Buffer.from(`${source.username}:${password}`).toString('base64');
+  return { Authorization: `Basic ${credentials}` };
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+async function request(source: CalendarSource, init: RequestInit): Promise<string> {
+  if (sendsCredentialsInClear(source)) {
+    throw new CalendarSyncError('Calendars with a username or password must use https');
+  }
+  const url = source.url.replace(/^webcal:\/\//i, 'https://');
+
+  try {
+    const response = await fetchPublic(url, {
+      ...init,
+      headers: { ...authHeaders(source), ...init.headers },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new CalendarSyncError(`Calendar server responded ${response.status} ${response.statusText}`);
+    }
+    return (await readBody(response, MAX_CALENDAR_BYTES)).toString('utf8');
+  } catch (error) {
+    if (error instanceof CalendarSyncError) throw error;
+    const refusal = [error, (error as Error).cause].find((e) => e instanceof PublicFetchError);
+    throw new CalendarSyncError(refusal
+      ? `Calendar refused: ${refusal.message}`
+      : `Calendar unreachable: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * iCalendar documents of the source: the feed itself, or one per CalDAV event resource
+ */
+export async function fetchCalendarData(
+  source: CalendarSource,
+  window: { from: Date; to: Date }
+): Promise<string[]> {
+  if (source.kind === CalendarSourceKind.ICS) {
+    return [await request(source, { headers: { Accept: 'text/calendar' } })];
+  }
+
+  // RFC 4791 calendar-query; the server expands nothing, we get the master events
+  const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><c:calendar-data/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${icsTimestamp(window.from)}" end="${icsTimestamp(window.to)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+  const xml = await request(source, {
+    method: 'REPORT',
+    headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+    body,
+  });
+
+  const documents: string[] = [];
+  for (const match of xml.matchAll(/<(?:[\w-]+:)?calendar-data[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/gi)) {
+    documents.push(decodeXml(match[1].trim()));
+  }
+  return documents;
+}
+
+// ============================================
+// MAPPING
+// ============================================
+
+/**
+ * Video call link of an event (Zoom, Google Meet, Teams, Webex), if any
+ */
+export function findMeetingUrl(occurrence: IcsOccurrence): string | null {
+  const candidates = [
+    occurrence.url,
+    ...CONFERENCE_PROPERTIES.map((name) => occurrence.extra[name]),
+    occurrence.location,
+    occurrence.description,
+  ];
+
+  for (const text of candidates) {
+    const match = text?.match(MEETING_URL_PATTERN);
+    if (match) return match[0];
+  }
+  return null;
+}
+
+function meetingFields(occurrence: IcsOccurrence) {
+  const meetingUrl = findMeetingUrl(occurrence);
+  const end = occurrence.end > occurrence.start
+    ? occurrence.end
+    : new Date(occurrence.start.getTime() + DEFAULT_DURATION_MS);
+
+  return {
+    title: occurrence.summary ?? 'Untitled meeting',
+    scheduledStart: occurrence.start,
+    scheduledEnd: end,
+    // A bare link in the location field is not a place
+    location: occurrence.location && occurrence.location !== meetingUrl ? occurrence.location : null,
+    meetingUrl,
+    isVirtual: meetingUrl !== null,
+  };
+}
+
+// ============================================
+// SYNC
+// ============================================
+
+/**
+ * Pull the source's events and create, update or remove its meetings
+ */
+export async function syncCalendarSource(calendarSourceId: string): Promise<CalendarSyncResult> {
+  const source = await prisma.calendarSource.findUniqueOrThrow({
+    where: { id: calendarSourceId },
+    include: { organization: { select: { timezone: true } } },
+  });
+
+  try {
+    // Passwords stored before they were encrypted are encrypted on their next sync
+    if (source.password && !isEncryptedSecret(source.password)) {
+      await prisma.calendarSource.update({
+        where: { id: source.id },
+        data: { password: encryptSecret(source.password) },
+      });
+    }
+
+    const result = await importOccurrences(source);
+
+    await prisma.calendarSource.update({
+      where: { id: source.id },
+      data: { lastSyncedAt: new Date(), lastSyncError: null },
+    });
+
+    logger.info({ ...result, unmatchedEmails: result.unmatchedEmails.length }, 'Calendar synced');
+    return result;
+  } catch (error) {
+    await prisma.calendarSource.update({
+      where: { id: source.id },
+      data: { lastSyncError: (error as Error).message },
+    });
+    throw error;
+  }
+}
+
+async function importOccurrences(
+  source: CalendarSource & { organization: { timezone: string } }
+): Promise<CalendarSyncResult> {
+  const now = Date.now();
+  const window = {
+    from: new Date(now - SYNC_LOOKBACK_MS),
+    to: new Date(now + SYNC_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+  };
+
+  const documents = await fetchCalendarData(source, window);
+  const events = documents.flatMap((text) => parseIcs(text, { defaultTimeZone: source.organization.timezone }));
+  const occurrences = expandOccurrences(events, window);
+
+  const existing = await prisma.meeting.findMany({
+    where: { calendarSourceId: source.id },
+    select: { id: true, externalEventId: true, phase: true, scheduledStart: true },
+  });
+  const byEventId = new Map(existing.map((meeting) => [meeting.externalEventId, meeting]));
+
+  // Invitees matched to the organization's attendees by (organizationId, email);
+  // invitee emails are lowercase, stored ones as typed
+  const emails = [...new Set(occurrences.flatMap((o) => o.attendees.map((a) => a.email)))];
+  const attendees = await prisma.attendee.findMany({
+    where: { organizationId: source.organizationId, email: { in: emails, mode: 'insensitive' } },
+    select: { id: true, email: true },
+  });
+  const attendeeIds = new Map(attendees.map((attendee) => [attendee.email!.toLowerCase(), attendee.id]));
+
+  const result: CalendarSyncResult = {
+    calendarSourceId: source.id,
+    occurrences: occurrences.length,
+    created: 0,
+    updated: 0,
+    removed: 0,
+    kept: 0,
+    skipped: 0,
+    unmatchedEmails: emails.filter((email) => !attendeeIds.has(email)),
+  };
+
+  const seen = new Set<string>();
+  const removedIds: string[] = [];
+
+  for (const occurrence of occurrences) {
+    const meeting = byEventId.get(occurrence.key);
+    const cancelled = occurrence.status === 'CANCELLED';
+    seen.add(occurrence.key);
+
+    if (meeting && meeting.phase !== 'UPCOMING') {
+      result.skipped++;
+      continue;
+    }
+
+    if (cancelled) {
+      if (meeting) removedIds.push(meeting.id);
+      continue;
+    }
+
+    const fields = meetingFields(occurrence);
+    const saved = meeting
+      ? await prisma.meeting.update({ where: { id: meeting.id }, data: fields })
+      : await prisma.meeting.create({
+          data: {
+            ...fields,
+            organizationId: source.organizationId,
+            type: source.meetingType,
+            autoJoinBot: source.autoJoinBot,
+            calendarSourceId: source.id,
+            externalEventId: occurrence.key,
+          },
+        });
+    result[meeting ? 'updated' : 'created']++;
+
+    const invited = occurrence.attendees
+      .map((attendee) => attendeeIds.get(attendee.email))
+      .filter((id): id is string => id !== undefined);
+    if (invited.length > 0) {
+      await prisma.meetingAttendee.createMany({
+        data: invited.map((attendeeId) => ({ meetingId: saved.id, attendeeId })),
+        skipDuplicates: true,
+      });
+    }
+  }
+
+  // Occurrences that disappeared from the calendar within the window were deleted there
+  for (const meeting of existing) {
+    if (
+      meeting.phase === 'UPCOMING' &&
+      meeting.externalEventId &&
+      !seen.has(meeting.externalEventId) &&
+      meeting.scheduledStart >= window.from &&
+      meeting.scheduledStart <= window.to
+    ) {
+      removedIds.push(meeting.id);
+    }
+  }
+
+  if (removedIds.length > 0) {
+    Object.assign(result, await removeMeetings(removedIds));
+  }
+
+  return result;
+}
+
+/**
+ * Delete meetings whose event is gone from the calendar. Meetings someone
+ * prepared (agenda, papers, questions, actions, decisions, advisor profile or
+ * signatories) are kept, so that work is not lost with a calendar edit.
+ */
+async function removeMeetings(meetingIds: string[]): Promise<{ removed: number; kept: number }> {
+  const meetings = await prisma.meeting.findMany({
+    where: { id: { in: meetingIds }, phase: 'UPCOMING' },
+    include: {
+      advisorProfile: { select: { id: true } },
+      _count: {
+        select: { agendaItems: true, documents: true, prepQuestions: true, actionItems: true, decisions: true },
+      },
+    },
+  });
+
+  let removed = 0;
+  let kept = 0;
+  for (const { _count: counts, advisorProfile, ...meeting } of meetings) {
+    const prepared = Object.values(counts).some((count) => count > 0)
+      || advisorProfile !== null
+      || meeting.chairId !== null
+      || meeting.secretaryId !== null;
+    if (prepared) {
+      logger.info({ meetingId: meeting.id }, 'Calendar event removed, keeping the prepared meeting');
+      kept++;
+      continue;
+    }
+
+    // Unless it started since
+    const { count } = await prisma.meeting.deleteMany({ where: { id: meeting.id, phase: 'UPCOMING' } });
+    if (count === 0) continue;
+    removed++;
+
+    await recordAuditEvent({
+      organizationId: meeting.organizationId,
+      meetingId: meeting.id,
+      action: 'meeting.removed_from_calendar',
+      entityType: 'Meeting',
+      entityId: meeting.id,
+      before: meeting,
+      actor: SYSTEM_ACTOR,
+    });
+  }
+
+  return { removed, kept };
+}
+
+// Export service
+export const calendarSync = {
+  fetchCalendarData,
+  findMeetingUrl,
+  sendsCredentialsInClear,
+  syncCalendarSource,
+};
+
+export default calendarSync;
@@ -0,0 +1,86 @@
+/**
+ * Meeting Actions
+ *
+ * Work on per-meeting in-memory state (advisor agent, wake-word sessions,
+ * speech throttling, transcript buffers) that must run on the meeting's owner:
+ * - transcript.final: buffer a transcript entry and check it for the wake word
+ * - agent.enable / agent.disable / agent.config / agent.status: advisor agent control
+ * - agent.speak / bot.speak: speak in the meeting
+ * - bot.stop-speaking / bot.human-speech: cut the bot off (by a user, or when an attendee talks over it)
+ * - bot.mute / bot.unmute / bot.toggle-mute / bot.mute-status: wake-word mute
+ * - advisor.respond: answer a question addressed to the bot (advisor.respond job)
+ * - agenda.sync: start or stop the agenda timer to match the item in progress
+ *
+ * live.start and live.stop are registered by the WebSocket server.
+ * Call registerMeetingActions() in every process that joins the cluster.
+ */
+
+import { registerMeetingAction } from './meetings';
+import { processTranscriptEntry } from '../recall/webhooks';
+import { speak, SpeakOptions, stopSpeaking, handleHumanSpeech, Interruption } from '../recall/audio-output';
+import {
+  enableAgent,
+  disableAgent,
+  updateAgentConfig,
+  isAgentEnabled,
+  getAgentConfig,
+  forceSpeak,
+  AdvisorConfig,
+} from '../openai/advisor-agent';
+import {
+  muteBot,
+  unmuteBot,
+  isMuted,
+  toggleMute,
+  respondToQuestion,
+} from '../ai/wake-word';
+import { syncTimekeeper } from '../agenda/timekeeper';
+
+/**
+ * Register every meeting action
+ */
+export function registerMeetingActions(): void {
+  registerMeetingAction('transcript.final', processTranscriptEntry);
+
+  // Advisor agent
+  registerMeetingAction('agent.enable', async (meetingId, config: Partial<AdvisorConfig>) => {
+    await enableAgent(meetingId, config);
+    return getAgentConfig(meetingId);
+  });
+  registerMeetingAction('agent.disable', (meetingId) => disableAgent(meetingId));
+  registerMeetingAction('agent.config', (meetingId, config: Partial<AdvisorConfig>) => {
+    updateAgentConfig(meetingId, config);
+    return getAgentConfig(meetingId);
+  });
+  registerMeetingAction('agent.status', (meetingId) => ({
+    enabled: isAgentEnabled(meetingId),
+    config: getAgentConfig(meetingId),
+  }));
+
+  // Speech
+  registerMeetingAction('agent.speak', (meetingId, { text }: { text: string }) => forceSpeak(meetingId, text));
+  registerMeetingAction('bot.speak', (meetingId, options: Omit<SpeakOptions, 'meetingId'>) =>
+    speak({ ...options, meetingId })
+  );
+  registerMeetingAction('bot.stop-speaking', (meetingId, interruption: Interruption) =>
+    stopSpeaking(meetingId, interruption)
+  );
+  registerMeetingAction('bot.human-speech', (meetingId, { speaker, text, startedAt }: { speaker: string; text: string; startedAt: string }) =>
+    handleHumanSpeech(meetingId, speaker, text, new Date(startedAt))
+  );
+
+  // Wake-word mute
+  registerMeetingAction('bot.mute', (meetingId) => muteBot(meetingId));
+  registerMeetingAction('bot.unmute', (meetingId) => unmuteBot(meetingId));
+  registerMeetingAction('bot.toggle-mute', (meetingId) => toggleMute(meetingId));
+  registerMeetingAction('bot.mute-status', (meetingId) => isMuted(meetingId));
+
+  registerMeetingAction('advisor.respond', (meetingId, { question, isLastAttempt }: { question: string; isLastAttempt?: boolean }) =>
+    respondToQuestion(meetingId, question, { isLastAttempt })
+  );
+
+  // Agenda timekeeping
+  registerMeetingAction('agenda.sync', (meetingId) => syncTimekeeper(meetingId));
+}
+
+export default registerMeetingActions;
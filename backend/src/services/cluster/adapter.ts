@@ -0,0 +1,25 @@
+/**
+ * Socket.io Cluster Adapter
+ *
+ * With Redis enabled, room broadcasts (`io.to('meeting:...')`) reach clients
+ * connected to any replica, so the meeting's owner can publish events no
+ * matter where the clients are.
+ */
+
+import { Server as SocketIOServer } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createLogger } from '../../lib/logger';
+import { createRedisClient, isRedisEnabled } from '../../lib/redis';
+
+const logger = createLogger('cluster');
+
+export function setupSocketAdapter(io: SocketIOServer): void {
+  if (!isRedisEnabled()) {
+    return;
+  }
+
+  io.adapter(createAdapter(createRedisClient('socket-publisher'), createRedisClient('socket-subscriber')));
+  logger.info('Using Redis adapter for Socket.io');
+}
+
+export default setupSocketAdapter;
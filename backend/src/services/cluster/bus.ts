@@ -0,0 +1,131 @@
+/**
+ * Cluster Message Bus
+ *
+ * Publish/subscribe between backend replicas, used to forward meeting work
+ * to the replica that owns the meeting (see meetings.ts).
+ *
+ * Uses Redis pub/sub when Redis is enabled (see lib/redis.ts). Otherwise an
+ * in-process bus is used and the backend runs as a single replica.
+ */
+
+import Redis from 'ioredis';
+import { createLogger } from '../../lib/logger';
+import { createRedisClient, isRedisEnabled } from '../../lib/redis';
+
+const logger = createLogger('cluster');
+
+// ============================================
+// TYPES
+// ============================================
+
+export type BusHandler = (message: any) => void;
+
+export interface ClusterBus {
+  // True when messages reach other replicas
+  shared: boolean;
+  publish(channel: string, message: unknown): Promise<void>;
+  subscribe(channel: string, handler: BusHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+// ============================================
+// BUSES
+// ============================================
+
+/**
+ * In-process bus for single-replica deployments
+ */
+export class LocalBus implements ClusterBus {
+  shared = false;
+  private handlers = new Map<string, BusHandler[]>();
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    // Round-trip through JSON so handlers see what Redis would deliver
+    const payload = JSON.parse(JSON.stringify(message));
+    for (const handler of this.handlers.get(channel) || []) {
+      setImmediate(() => handler(payload));
+    }
+  }
+
+  async subscribe(channel: string, handler: BusHandler): Promise<void> {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, []);
+    }
+    this.handlers.get(channel)!.push(handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
+
+/**
+ * Redis pub/sub bus shared by all replicas
+ */
+class RedisBus implements ClusterBus {
+  shared = true;
+  private publisher: Redis;
+  private subscriber: Redis;
+  private handlers = new Map<string, BusHandler[]>();
+
+  constructor() {
+    this.publisher = createRedisClient('cluster-publisher');
+    this.subscriber = createRedisClient('cluster-subscriber');
+
+    this.subscriber.on('message', (channel: string, raw: string) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(raw);
+      } catch (error) {
+        logger.warn({ channel }, 'Ignoring malformed cluster message');
+        return;
+      }
+
+      for (const handler of this.handlers.get(channel) || []) {
+        try {
+          handler(message);
+        } catch (error) {
+          logger.error({ err: error, channel }, 'Error in cluster message handler');
+        }
+      }
+    });
+  }
+
+  async publish(channel: string, message: unknown): Promise<void> {
+    await this.publisher.publish(channel, JSON.stringify(message));
+  }
+
+  async subscribe(channel: string, handler: BusHandler): Promise<void> {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, []);
+      await this.subscriber.subscribe(channel);
+    }
+    this.handlers.get(channel)!.push(handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+    await Promise.all([this.publisher.quit(), this.subscriber.quit()]);
+  }
+}
+
+// ============================================
+// BUS FACTORY
+// ============================================
+
+let bus: ClusterBus;
+
+export function getBus(): ClusterBus {
+  if (bus) return bus;
+
+  if (isRedisEnabled()) {
+    logger.info('Using Redis for cluster messaging');
+    bus = new RedisBus();
+  } else {
+    bus = new LocalBus();
+  }
+
+  return bus;
+}
+
+export default getBus;
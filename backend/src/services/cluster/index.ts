@@ -0,0 +1,8 @@
+/**
+ * Cluster Services - Central Export
+ */
+
+export * from './bus';
+export * from './leases';
+export * from './meetings';
+export * from './adapter';
@@ -0,0 +1,174 @@
+/**
+ * Meeting Leases
+ *
+ * A live meeting is owned by one backend replica at a time, recorded as a
+ * MeetingLease row. The owner renews its leases every LEASE_TTL_MS / 3; if it
+ * stops (crash, deploy) the lease expires and the next replica that receives
+ * work for the meeting takes it over.
+ *
+ * Lease checks use the database clock, so replicas need not agree on time.
+ */
+
+import os from 'os';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+
+const logger = createLogger('cluster');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const INSTANCE_ID = process.env.INSTANCE_ID || `${os.hostname()}:${process.pid}`;
+
+const LEASE_TTL_MS = parseInt(process.env.MEETING_LEASE_TTL_MS || '30000');
+
+// ============================================
+// STATE MANAGEMENT
+// ============================================
+
+type LeaseLostHandler = (meetingId: string) => void;
+
+const ownedMeetings: Set<string> = new Set();
+const lostHandlers: LeaseLostHandler[] = [];
+let renewInterval: NodeJS.Timeout | null = null;
+
+// ============================================
+// LEASES
+// ============================================
+
+/**
+ * Take the lease of a meeting unless another replica holds a valid one
+ */
+export async function acquireMeetingLease(meetingId: string): Promise<boolean> {
+  const rows = await prisma.$queryRaw<Array<{ ownerId: string }>>`
+    INSERT INTO "MeetingLease" ("meetingId", "ownerId", "expiresAt", "acquiredAt")
+    VALUES (${meetingId}, ${INSTANCE_ID}, now() + make_interval(secs => ${LEASE_TTL_MS / 1000}), now())
+    ON CONFLICT ("meetingId") DO UPDATE
+      SET "ownerId" = EXCLUDED."ownerId",
+          "expiresAt" = EXCLUDED."expiresAt",
+          "acquiredAt" = CASE
+            WHEN "MeetingLease"."ownerId" = EXCLUDED."ownerId" THEN "MeetingLease"."acquiredAt"
+            ELSE now()
+          END
+      WHERE "MeetingLease"."ownerId" = EXCLUDED."ownerId" OR "MeetingLease"."expiresAt" < now()
+    RETURNING "ownerId"
+  `;
+
+  const acquired = rows.length > 0;
+  if (acquired && !ownedMeetings.has(meetingId)) {
+    ownedMeetings.add(meetingId);
+    logger.info({ meetingId, instanceId: INSTANCE_ID }, 'Meeting lease acquired');
+  }
+  return acquired;
+}
+
+/**
+ * Give up the lease of a meeting this replica owns
+ */
+export async function releaseMeetingLease(meetingId: string): Promise<void> {
+  if (!ownedMeetings.delete(meetingId)) {
+    return;
+  }
+
+  await prisma.meetingLease.deleteMany({
+    where: { meetingId, ownerId: INSTANCE_ID },
+  });
+  logger.info({ meetingId }, 'Meeting lease released');
+}
+
+/**
+ * Instance id of the replica holding a valid lease on the meeting, if any
+ */
+export async function getMeetingOwner(meetingId: string): Promise<string | null> {
+  const rows = await prisma.$queryRaw<Array<{ ownerId: string }>>`
+    SELECT "ownerId" FROM "MeetingLease"
+    WHERE "meetingId" = ${meetingId} AND "expiresAt" > now()
+  `;
+  return rows[0]?.ownerId ?? null;
+}
+
+/**
+ * Check if this replica owns the meeting
+ */
+export function ownsMeeting(meetingId: string): boolean {
+  return ownedMeetings.has(meetingId);
+}
+
+/**
+ * Extend every lease this replica owns; leases taken over meanwhile are dropped
+ */
+export async function renewMeetingLeases(): Promise<void> {
+  if (ownedMeetings.size === 0) {
+    return;
+  }
+
+  const owned = [...ownedMeetings];
+  const rows = await prisma.$queryRaw<Array<{ meetingId: string }>>`
+    UPDATE "MeetingLease"
+    SET "expiresAt" = now() + make_interval(secs => ${LEASE_TTL_MS / 1000})
+    WHERE "meetingId" = ANY(${owned}) AND "ownerId" = ${INSTANCE_ID}
+    RETURNING "meetingId"
+  `;
+
+  const renewed = new Set(rows.map((r) => r.meetingId));
+  for (const meetingId of owned) {
+    if (renewed.has(meetingId) || !ownedMeetings.has(meetingId)) continue;
+
+    ownedMeetings.delete(meetingId);
+    logger.warn({ meetingId }, 'Meeting lease lost to another replica');
+    for (const handler of lostHandlers) {
+      try {
+        handler(meetingId);
+      } catch (error) {
+        logger.error({ err: error, meetingId }, 'Error in lease lost handler');
+      }
+    }
+  }
+}
+
+/**
+ * Register a handler for leases this replica lost (its local state is stale)
+ */
+export function onLeaseLost(handler: LeaseLostHandler): () => void {
+  lostHandlers.push(handler);
+
+  return () => {
+    const index = lostHandlers.indexOf(handler);
+    if (index > -1) {
+      lostHandlers.splice(index, 1);
+    }
+  };
+}
+
+// ============================================
+// RENEWAL
+// ============================================
+
+export function startLeaseRenewal(): void {
+  if (renewInterval) {
+    return;
+  }
+
+  renewInterval = setInterval(() => {
+    renewMeetingLeases().catch((error) => logger.error({ err: error }, 'Failed to renew meeting leases'));
+  }, LEASE_TTL_MS / 3);
+}
+
+/**
+ * Stop renewing and release every lease, so other replicas take over at once
+ */
+export async function stopLeaseRenewal(): Promise<void> {
+  if (renewInterval) {
+    clearInterval(renewInterval);
+    renewInterval = null;
+  }
+
+  const owned = [...ownedMeetings];
+  ownedMeetings.clear();
+  if (owned.length > 0) {
+    await prisma.meetingLease.deleteMany({
+      where: { meetingId: { in: owned }, ownerId: INSTANCE_ID },
+    });
+  }
+}
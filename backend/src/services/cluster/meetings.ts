@@ -0,0 +1,263 @@
+/**
+ * Meeting Work Routing
+ *
+ * Runs meeting work on the replica that owns the meeting's live state.
+ * Work is registered by name (registerMeetingAction) on every replica;
+ * runOnMeetingOwner() runs it locally when this replica owns the meeting (or
+ * claims it), and otherwise sends it to the owner over the cluster bus and
+ * waits for the reply.
+ *
+ * Events emitted by the owner reach clients on every replica through the
+ * Socket.io adapter (see adapter.ts).
+ */
+
+import crypto from 'crypto';
+import { createLogger } from '../../lib/logger';
+import { getBus } from './bus';
+import {
+  INSTANCE_ID,
+  acquireMeetingLease,
+  getMeetingOwner,
+  ownsMeeting,
+  startLeaseRenewal,
+  stopLeaseRenewal,
+} from './leases';
+
+const logger = createLogger('cluster');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const RPC_TIMEOUT_MS = 10000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MeetingAction = (meetingId: string, payload: any) => unknown;
+type MeetingClaimedHandler = (meetingId: string) => Promise<void> | void;
+
+export interface RunOptions {
+  // Take the meeting over when no replica owns it
+  claim?: boolean;
+  timeoutMs?: number;
+}
+
+interface ActionRequest {
+  id: string;
+  meetingId: string;
+  action: string;
+  payload: unknown;
+  replyTo: string;
+}
+
+interface ActionReply {
+  id: string;
+  result?: unknown;
+  error?: { message: string; status?: number };
+}
+
+export class ClusterError extends Error {
+  status: number;
+
+  constructor(message: string, status = 503) {
+    super(message);
+    this.name = 'ClusterError';
+    this.status = status;
+  }
+}
+
+// ============================================
+// STATE MANAGEMENT
+// ============================================
+
+const meetingActions: Map<string, MeetingAction> = new Map();
+const claimedHandlers: MeetingClaimedHandler[] = [];
+const pendingRequests: Map<string, {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}> = new Map();
+let started = false;
+let warnedUnshared = false;
+
+const requestChannel = (instanceId: string) => `cluster:rpc:${instanceId}`;
+const replyChannel = (instanceId: string) => `cluster:reply:${instanceId}`;
+
+/**
+ * Register work that must run on the meeting's owner
+ */
+export function registerMeetingAction(name: string, action: MeetingAction): void {
+  meetingActions.set(name, action);
+}
+
+/**
+ * Register a handler called when this replica takes a meeting over
+ * (e.g. to restart live processing after the previous owner went away)
+ */
+export function onMeetingClaimed(handler: MeetingClaimedHandler): () => void {
+  claimedHandlers.push(handler);
+
+  return () => {
+    const index = claimedHandlers.indexOf(handler);
+    if (index > -1) {
+      claimedHandlers.splice(index, 1);
+    }
+  };
+}
+
+// ============================================
+// ROUTING
+// ============================================
+
+/**
+ * Run a registered action on the replica that owns the meeting
+ */
+export async function runOnMeetingOwner<T = unknown>(
+  meetingId: string,
+  action: string,
+  payload: unknown = {},
+  options: RunOptions = {}
+): Promise<T> {
+  if (ownsMeeting(meetingId)) {
+    return runLocally(meetingId, action, payload) as Promise<T>;
+  }
+
+  let owner = await getMeetingOwner(meetingId);
+
+  if (!owner && options.claim) {
+    if (await acquireMeetingLease(meetingId)) {
+      await notifyClaimed(meetingId);
+      return runLocally(meetingId, action, payload) as Promise<T>;
+    }
+    owner = await getMeetingOwner(meetingId);
+  }
+
+  if (!owner || owner === INSTANCE_ID) {
+    return runLocally(meetingId, action, payload) as Promise<T>;
+  }
+
+  const bus = getBus();
+  if (!bus.shared) {
+    // Replicas cannot reach each other without Redis; behave as a single replica
+    if (!warnedUnshared) {
+      logger.warn({ meetingId, owner }, 'Meeting owned by another replica but cluster messaging is not shared (set REDIS_URL)');
+      warnedUnshared = true;
+    }
+    return runLocally(meetingId, action, payload) as Promise<T>;
+  }
+
+  return callOwner(owner, meetingId, action, payload, options.timeoutMs ?? RPC_TIMEOUT_MS) as Promise<T>;
+}
+
+async function runLocally(meetingId: string, action: string, payload: unknown): Promise<unknown> {
+  const handler = meetingActions.get(action);
+  if (!handler) {
+    throw new ClusterError(`Unknown meeting action ${action}`, 500);
+  }
+  return handler(meetingId, payload);
+}
+
+async function notifyClaimed(meetingId: string): Promise<void> {
+  for (const handler of claimedHandlers) {
+    try {
+      await handler(meetingId);
+    } catch (error) {
+      logger.error({ err: error, meetingId }, 'Error in meeting claimed handler');
+    }
+  }
+}
+
+/**
+ * Send an action to the owning replica and wait for its reply
+ */
+function callOwner(
+  owner: string,
+  meetingId: string,
+  action: string,
+  payload: unknown,
+  timeoutMs: number
+): Promise<unknown> {
+  const request: ActionRequest = { id: crypto.randomUUID(), meetingId, action, payload, replyTo: INSTANCE_ID };
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingRequests.delete(request.id);
+      reject(new ClusterError('The replica serving this meeting did not respond'));
+    }, timeoutMs);
+
+    pendingRequests.set(request.id, { resolve, reject, timer });
+
+    getBus().publish(requestChannel(owner), request).catch((error) => {
+      clearTimeout(timer);
+      pendingRequests.delete(request.id);
+      reject(error);
+    });
+  });
+}
+
+async function handleRequest(request: ActionRequest): Promise<void> {
+  let reply: ActionReply;
+  try {
+    const result = await runLocally(request.meetingId, request.action, request.payload);
+    reply = { id: request.id, result: result ?? null };
+  } catch (error) {
+    const { message, status } = error as Error & { status?: number };
+    reply = { id: request.id, error: { message, status } };
+  }
+
+  await getBus().publish(replyChannel(request.replyTo), reply);
+}
+
+function handleReply(reply: ActionReply): void {
+  const pending = pendingRequests.get(reply.id);
+  if (!pending) {
+    return;
+  }
+
+  clearTimeout(pending.timer);
+  pendingRequests.delete(reply.id);
+
+  if (reply.error) {
+    pending.reject(new ClusterError(reply.error.message, reply.error.status ?? 500));
+  } else {
+    pending.resolve(reply.result);
+  }
+}
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+/**
+ * Join the cluster: answer forwarded work and keep leases renewed
+ */
+export async function startCluster(): Promise<void> {
+  if (started) {
+    return;
+  }
+  started = true;
+
+  const bus = getBus();
+  await bus.subscribe(requestChannel(INSTANCE_ID), (request: ActionRequest) => {
+    handleRequest(request).catch((error) => logger.error({ err: error, action: request.action }, 'Failed to answer meeting action'));
+  });
+  await bus.subscribe(replyChannel(INSTANCE_ID), handleReply);
+
+  startLeaseRenewal();
+  logger.info({ instanceId: INSTANCE_ID, shared: bus.shared }, 'Cluster coordination started');
+}
+
+/**
+ * Leave the cluster, handing owned meetings over to other replicas
+ */
+export async function stopCluster(): Promise<void> {
+  if (!started) {
+    return;
+  }
+  started = false;
+
+  await stopLeaseRenewal();
+  await getBus().close();
+}
@@ -0,0 +1,354 @@
+/**
+ * Document Type Detection & Text Extraction
+ *
+ * Detects the real file type from its contents (not the client's filename or
+ * MIME type) and pulls plain text out of it so the AI agents can read it.
+ *
+ * Supported: PDF, DOCX, XLSX, PPTX. The Office formats are ZIP archives of
+ * XML parts, so they are read directly with JSZip. Archives that unpack to
+ * more than MAX_UNPACKED_SIZE_MB are refused before anything is inflated,
+ * going by the sizes their directory declares, and each part is read only up
+ * to that size in case the directory understates it.
+ */
+
+import path from 'path';
+import JSZip from 'jszip';
+import { PDFParse } from 'pdf-parse';
+import { DocumentType } from '@prisma/client';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const MAX_UNPACKED_BYTES = parseInt(process.env.MAX_UNPACKED_SIZE_MB || '200') * 1024 * 1024;
+
+// ZIP record signatures
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DetectedFile {
+  type: DocumentType;
+  mimeType: string;
+  extension: string;
+}
+
+export interface ExtractionResult {
+  text: string;
+  pageCount: number;
+}
+
+export class UnsupportedDocumentError extends Error {
+  status = 415;
+
+  constructor(message = 'Unsupported file type. Upload a PDF, DOCX, XLSX or PPTX file.') {
+    super(message);
+    this.name = 'UnsupportedDocumentError';
+  }
+}
+
+export class DocumentTooLargeError extends Error {
+  status = 413;
+
+  constructor(message = `File unpacks to more than ${MAX_UNPACKED_BYTES / 1024 / 1024} MB`) {
+    super(message);
+    this.name = 'DocumentTooLargeError';
+  }
+}
+
+const MIME_TYPES = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+// ============================================
+// DETECTION
+// ============================================
+
+const PDF_MAGIC = Buffer.from('%PDF-');
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/**
+ * Identify a file from its bytes
+ */
+export async function detectFileType(data: Buffer): Promise<DetectedFile> {
+  if (data.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC)) {
+    return { type: 'PDF', mimeType: MIME_TYPES.pdf, extension: 'pdf' };
+  }
+
+  if (data.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC)) {
+    const zip = await loadZip(data);
+    if (zip.file('word/document.xml')) {
+      return { type: 'DOC', mimeType: MIME_TYPES.docx, extension: 'docx' };
+    }
+    if (zip.file('xl/workbook.xml')) {
+      return { type: 'SPREADSHEET', mimeType: MIME_TYPES.xlsx, extension: 'xlsx' };
+    }
+    if (zip.file('ppt/presentation.xml')) {
+      return { type: 'PRESENTATION', mimeType: MIME_TYPES.pptx, extension: 'pptx' };
+    }
+  }
+
+  throw new UnsupportedDocumentError();
+}
+
+/**
+ * Total size the entries of a ZIP archive declare once unpacked, read from its
+ * central directory without inflating anything (0 when there is none)
+ */
+export function declaredUnpackedSize(data: Buffer): number {
+  // The end record is the last 22 bytes, unless followed by a comment of up to 64 KB
+  const earliest = Math.max(0, data.length - 22 - 0xffff);
+  for (let end = data.length - 22; end >= earliest; end--) {
+    if (data.readUInt32LE(end) !== END_OF_CENTRAL_DIRECTORY) {
+      continue;
+    }
+
+    const entries = data.readUInt16LE(end + 10);
+    let record = data.readUInt32LE(end + 16);
+    let total = 0;
+    for (let i = 0; i < entries && record + 46 <= data.length; i++) {
+      if (data.readUInt32LE(record) !== CENTRAL_DIRECTORY_ENTRY) {
+        break;
+      }
+      // ZIP64 entries declare 0xffffffff here, which is over any limit anyway
+      total += data.readUInt32LE(record + 24);
+      record += 46 + data.readUInt16LE(record + 28) + data.readUInt16LE(record + 30) + data.readUInt16LE(record + 32);
+    }
+    return total;
+  }
+  return 0;
+}
+
+async function loadZip(data: Buffer): Promise<JSZip> {
+  if (declaredUnpackedSize(data) > MAX_UNPACKED_BYTES) {
+    throw new DocumentTooLargeError();
+  }
+
+  try {
+    return await JSZip.loadAsync(data);
+  } catch {
+    throw new UnsupportedDocumentError('File looks like an Office document but could not be opened.');
+  }
+}
+
+/**
+ * Read a part of an archive as text, giving up once it passes the unpacked limit
+ */
+function readPart(zip: JSZip, name: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = zip.file(name)!.nodeStream('nodebuffer');
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_UNPACKED_BYTES) {
+        stream.pause();
+        stream.removeAllListeners('data');
+        reject(new DocumentTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    // JSZip also fails a part that unpacks to another size than its directory says
+    stream.on('error', () => reject(new UnsupportedDocumentError('File looks like an Office document but could not be opened.')));
+  });
+}
+
+// ============================================
+// XML HELPERS
+// ============================================
+
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Collect the text runs (`<prefix:t>`) of an OOXML part, one line per paragraph
+ */
+function extractParagraphs(xml: string, prefix: 'w' | 'a'): string {
+  const pattern = new RegExp(`<${prefix}:t(?:\\s[^>]*)?>([^<]*)</${prefix}:t>|</${prefix}:p>|<${prefix}:tab/>`, 'g');
+  let text = '';
+  for (const match of xml.matchAll(pattern)) {
+    if (match[1] !== undefined) {
+      text += decodeXmlEntities(match[1]);
+    } else if (match[0].endsWith('tab/>')) {
+      text += '\t';
+    } else {
+      text += '\n';
+    }
+  }
+  return text;
+}
+
+// Attributes of an XML start tag by name, prefixes included ("r:id")
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of tag.matchAll(/([\w:.-]+)="([^"]*)"/g)) {
+    attributes[name] = decodeXmlEntities(value);
+  }
+  return attributes;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function numberedParts(zip: JSZip, pattern: RegExp): string[] {
+  return Object.keys(zip.files)
+    .filter((name) => pattern.test(name))
+    .sort((a, b) => Number(a.match(pattern)![1]) - Number(b.match(pattern)![1]));
+}
+
+// ============================================
+// EXTRACTORS
+// ============================================
+
+async function extractPdf(data: Buffer): Promise<ExtractionResult> {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getText();
+    return { text: normalizeWhitespace(result.text), pageCount: result.total };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function extractDocx(data: Buffer): Promise<ExtractionResult> {
+  const zip = await loadZip(data);
+  const xml = await readPart(zip, 'word/document.xml');
+  // Word has no fixed pages; count explicit page breaks as a rough guide
+  const pageBreaks = (xml.match(/<w:br [^>]*w:type="page"/g) || []).length;
+  return { text: normalizeWhitespace(extractParagraphs(xml, 'w')), pageCount: pageBreaks + 1 };
+}
+
+async function extractPptx(data: Buffer): Promise<ExtractionResult> {
+  const zip = await loadZip(data);
+  const slides = numberedParts(zip, /^ppt\/slides\/slide(\d+)\.xml$/);
+
+  const sections: string[] = [];
+  for (const [index, name] of slides.entries()) {
+    const xml = await readPart(zip, name);
+    sections.push(`Slide ${index + 1}\n${extractParagraphs(xml, 'a').trim()}`);
+  }
+
+  return { text: normalizeWhitespace(sections.join('\n\n')), pageCount: slides.length };
+}
+
+/**
+ * Worksheets of a workbook in tab order, each with the part that holds it.
+ * Sheets are tied to their parts by relationship id, since part numbers need
+ * not follow the tabs; workbooks without relationships fall back to the numbering.
+ */
+async function worksheets(zip: JSZip): Promise<Array<{ name: string; part: string }>> {
+  const workbookXml = await readPart(zip, 'xl/workbook.xml');
+  const sheets = [...workbookXml.matchAll(/<sheet\s[^>]*>/g)].map((match) => xmlAttributes(match[0]));
+
+  if (!zip.file('xl/_rels/workbook.xml.rels')) {
+    const parts = numberedParts(zip, /^xl\/worksheets\/sheet(\d+)\.xml$/);
+    return parts.map((part, index) => ({ name: sheets[index]?.name || String(index + 1), part }));
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of (await readPart(zip, 'xl/_rels/workbook.xml.rels')).matchAll(/<Relationship\s[^>]*>/g)) {
+    const relationship = xmlAttributes(match[0]);
+    if (!relationship.Id || !relationship.Target) {
+      continue;
+    }
+    // Targets are relative to xl/, or absolute within the package
+    targets.set(relationship.Id, relationship.Target.startsWith('/')
+      ? relationship.Target.slice(1)
+      : path.posix.join('xl', relationship.Target));
+  }
+
+  return sheets.flatMap((sheet, index) => {
+    const id = Object.entries(sheet).find(([attribute]) => attribute.endsWith(':id'))?.[1];
+    const part = id && targets.get(id);
+    // Chart sheets have no cells to read
+    return part && /^xl\/worksheets\//.test(part) && zip.file(part) ? [{ name: sheet.name || String(index + 1), part }] : [];
+  });
+}
+
+async function extractXlsx(data: Buffer): Promise<ExtractionResult> {
+  const zip = await loadZip(data);
+
+  // Shared string table: cells with t="s" store an index into it
+  const sharedStrings: string[] = [];
+  if (zip.file('xl/sharedStrings.xml')) {
+    const sharedXml = await readPart(zip, 'xl/sharedStrings.xml');
+    for (const item of sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+      const runs = [...item[1].matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)].map((m) => m[1]);
+      sharedStrings.push(decodeXmlEntities(runs.join('')));
+    }
+  }
+
+  const sheets = await worksheets(zip);
+
+  const sections: string[] = [];
+  for (const sheet of sheets) {
+    const xml = await readPart(zip, sheet.part);
+    const rows: string[] = [];
+
+    for (const row of xml.matchAll(/<row[^>]*>([\s\S]*?)<\/row>/g)) {
+      const cells: string[] = [];
+      for (const cell of row[1].matchAll(/<c ([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const attributes = cell[1];
+        const body = cell[2] || '';
+        const value = body.match(/<v>([^<]*)<\/v>/)?.[1];
+        const inline = body.match(/<t(?:\s[^>]*)?>([^<]*)<\/t>/)?.[1];
+
+        if (/t="s"/.test(attributes) && value !== undefined) {
+          cells.push(sharedStrings[parseInt(value, 10)] ?? '');
+        } else if (inline !== undefined) {
+          cells.push(decodeXmlEntities(inline));
+        } else {
+          cells.push(value !== undefined ? decodeXmlEntities(value) : '');
+        }
+      }
+      if (cells.some((c) => c !== '')) {
+        rows.push(cells.join('\t'));
+      }
+    }
+
+    sections.push(`Sheet: ${sheet.name}\n${rows.join('\n')}`);
+  }
+
+  return { text: normalizeWhitespace(sections.join('\n\n')), pageCount: sheets.length };
+}
+
+/**
+ * Extract plain text from a detected document
+ */
+export async function extractText(data: Buffer, type: DocumentType): Promise<ExtractionResult> {
+  switch (type) {
+    case 'PDF':
+      return extractPdf(data);
+    case 'DOC':
+      return extractDocx(data);
+    case 'PRESENTATION':
+      return extractPptx(data);
+    case 'SPREADSHEET':
+      return extractXlsx(data);
+    default:
+      throw new UnsupportedDocumentError(`Cannot extract text from ${type} documents`);
+  }
+}
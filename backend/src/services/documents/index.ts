@@ -0,0 +1,7 @@
+/**
+ * Document Services - Central Export
+ */
+
+export * from './storage';
+export * from './extraction';
+export * from './processing';
@@ -0,0 +1,124 @@
+/**
+ * Briefing Document Processing
+ *
+ * Runs text extraction for uploaded documents and records the outcome on the
+ * BriefingDocument row. Extraction runs as a document.extract job (board
+ * packs can be hundreds of pages), queued after upload and again on demand,
+ * so it is retried after a crash or a storage error and spread over workers.
+ */
+
+import { Job } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { getStorage } from './storage';
+import { extractText } from './extraction';
+import { indexDocument } from '../knowledge';
+import { scheduleAnalysisRefresh } from '../ai/preparation';
+import { enqueueJob } from '../jobs/queue';
+
+const logger = createLogger('documents');
+
+/**
+ * Storage key for an uploaded file: one folder per organization and meeting
+ */
+export function buildStorageKey(
+  organizationId: string,
+  meetingId: string,
+  documentId: string,
+  extension: string
+): string {
+  return `${organizationId}/${meetingId}/${documentId}.${extension}`;
+}
+
+/**
+ * Queue text extraction for a stored document and mark it pending
+ */
+export async function queueDocumentExtraction(documentId: string, organizationId: string, meetingId: string): Promise<Job> {
+  await prisma.briefingDocument.update({
+    where: { id: documentId },
+    data: { extractionStatus: 'PENDING', extractionError: null },
+  });
+
+  return enqueueJob({
+    type: 'document.extract',
+    payload: { documentId },
+    organizationId,
+    meetingId,
+  });
+}
+
+/**
+ * Extract text from a stored document and save it (the document.extract job).
+ * Files that cannot be read are recorded as failed at once; other errors are
+ * thrown for the job to retry, and recorded once the last attempt fails.
+ */
+export async function processDocumentText(documentId: string, isLastAttempt = true) {
+  const document = await prisma.briefingDocument.findUnique({
+    where: { id: documentId },
+    select: { id: true, storageKey: true, type: true, agendaItemId: true },
+  });
+
+  if (!document?.storageKey) {
+    logger.warn({ documentId }, 'No stored file to extract');
+    return { skipped: 'No stored file' };
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const file = await getStorage().get(document.storageKey);
+    const { text, pageCount } = await extractText(file, document.type);
+
+    await prisma.briefingDocument.update({
+      where: { id: documentId },
+      data: {
+        extractedText: text,
+        pageCount,
+        extractionStatus: 'COMPLETED',
+        extractionError: null,
+      },
+    });
+
+    logger.info({
+      documentId,
+      pageCount,
+      characters: text.length,
+      duration: Date.now() - startTime,
+    }, 'Document text extracted');
+
+    // Make the new text searchable by the chat assistant
+    indexDocument(documentId)
+      .catch((error) => logger.error({ err: error, documentId }, 'Failed to index document'));
+
+    // Bring an existing agenda analysis up to date with the new paper
+    scheduleAnalysisRefresh(document.agendaItemId);
+
+    return { pageCount, characters: text.length };
+  } catch (error) {
+    logger.error({ err: error, documentId }, 'Document text extraction failed');
+
+    // Unsupported or oversized files (4xx) fail the same way on every attempt
+    const { message, status = 0 } = error as Error & { status?: number };
+    if (isLastAttempt || (status >= 400 && status < 500)) {
+      await prisma.briefingDocument.update({
+        where: { id: documentId },
+        data: {
+          extractionStatus: 'FAILED',
+          extractionError: message?.slice(0, 500) || 'Extraction failed',
+        },
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove a document's file from storage (ignores missing files)
+ */
+export async function deleteStoredFile(storageKey: string): Promise<void> {
+  try {
+    await getStorage().delete(storageKey);
+  } catch (error) {
+    logger.warn({ err: error, storageKey }, 'Failed to delete stored document');
+  }
+}
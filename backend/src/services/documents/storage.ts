@@ -0,0 +1,183 @@
+/**
+ * Document Storage
+ *
+ * Pluggable storage for uploaded briefing documents.
+ * - local: files on disk under STORAGE_LOCAL_DIR (default)
+ * - s3:    any S3-compatible object store (AWS S3, MinIO, R2, ...)
+ *
+ * Select with STORAGE_DRIVER=local|s3.
+ */
+
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { createLogger } from '../../lib/logger';
+
+const logger = createLogger('storage');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface StorageAdapter {
+  readonly driver: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+// ============================================
+// LOCAL DISK
+// ============================================
+
+export class LocalStorage implements StorageAdapter {
+  readonly driver = 'local';
+
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.rootDir, key);
+    // Keys are generated server-side, but never allow them to escape the root
+    if (!fullPath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const fullPath = this.resolve(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const fullPath = this.resolve(key);
+    await fs.access(fullPath);
+    return createReadStream(fullPath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// ============================================
+// S3-COMPATIBLE
+// ============================================
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}
+
+export class S3Storage implements StorageAdapter {
+  readonly driver = 's3';
+  private client: S3Client;
+
+  constructor(private readonly options: S3StorageOptions) {
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      ...(options.accessKeyId && options.secretAccessKey && {
+        credentials: {
+          accessKeyId: options.accessKeyId,
+          secretAccessKey: options.secretAccessKey,
+        },
+      }),
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+    }));
+    if (!response.Body) {
+      throw new Error(`Empty object: ${key}`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+    }));
+    if (!response.Body) {
+      throw new Error(`Empty object: ${key}`);
+    }
+    return response.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+    }));
+  }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+let storage: StorageAdapter | null = null;
+
+function createStorage(): StorageAdapter {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  if (driver === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+    }
+    logger.info({ bucket, endpoint: process.env.S3_ENDPOINT }, 'Using S3 document storage');
+    return new S3Storage({
+      bucket,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+  }
+
+  const rootDir = path.resolve(process.env.STORAGE_LOCAL_DIR || './uploads');
+  logger.info({ rootDir }, 'Using local document storage');
+  return new LocalStorage(rootDir);
+}
+
+/**
+ * Get the configured storage adapter (created on first use)
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = createStorage();
+  }
+  return storage;
+}
@@ -0,0 +1,157 @@
+/**
+ * Job Handlers
+ *
+ * The work the queue runs in the background:
+ * - summary.generate: post-meeting summary from the transcript
+ * - recording.fetch: recording and transcript URLs once Recall.ai has them
+ * - advisor.respond: answer a question addressed to the bot, with text-to-speech
+ * - calendar.sync: import meetings from an ICS feed or CalDAV calendar
+ * - bot.join: send the Recall.ai bot to an auto-join meeting about to start
+ * - transcript.segment: move transcript entries to the agenda item under discussion
+ * - actions.overdue: mark action items past their due date overdue and notify assignees
+ * - actions.carry-forward: list open actions under matters arising of the next meeting
+ * - notification.send: send a queued notification email over SMTP
+ * - sessions.purge: remove expired login sessions
+ * - document.extract: pull the text out of an uploaded briefing document
+ *
+ * Call registerJobHandlers() in every process that starts a worker.
+ */
+
+import { registerJobHandler } from './worker';
+import { generateAndStoreSummary } from '../ai/summary';
+import prisma from '../../lib/prisma';
+import { fetchAndStoreRecording, joinMeeting, recallWebhookUrl } from '../recall/bot';
+import { runOnMeetingOwner } from '../cluster/meetings';
+import { syncCalendarSource } from '../calendar/sync';
+import { resegmentMeeting } from '../agenda/segmentation';
+import { markOverdueActions } from '../actions/escalation';
+import { buildMattersArising } from '../actions/carry-forward';
+import { sendDelivery } from '../notifications/delivery';
+import { purgeExpiredSessions } from '../auth/session';
+import { processDocumentText } from '../documents/processing';
+
+// Answering includes an LLM call and text-to-speech
+const ADVISOR_TIMEOUT_MS = 60000;
+
+export interface SummaryJobPayload {
+  meetingId: string;
+}
+
+export interface RecordingJobPayload {
+  meetingId: string;
+}
+
+export interface AdvisorJobPayload {
+  meetingId: string;
+  question: string;
+}
+
+export interface CalendarSyncJobPayload {
+  calendarSourceId: string;
+}
+
+export interface BotJoinJobPayload {
+  meetingId: string;
+}
+
+export interface SegmentationJobPayload {
+  meetingId: string;
+}
+
+export interface CarryForwardJobPayload {
+  meetingId: string;
+}
+
+export interface NotificationJobPayload {
+  deliveryId: string;
+}
+
+export interface DocumentExtractionJobPayload {
+  documentId: string;
+}
+
+/**
+ * Register the handler of every job type
+ */
+export function registerJobHandlers(): void {
+  registerJobHandler<SummaryJobPayload>('summary.generate', async ({ payload, reportProgress }) => {
+    return generateAndStoreSummary(payload.meetingId, reportProgress);
+  });
+
+  registerJobHandler<RecordingJobPayload>('recording.fetch', async ({ payload }) => {
+    const recording = await fetchAndStoreRecording(payload.meetingId);
+    // Recall.ai processes the media after the call; retry with backoff until it is ready
+    if (!recording.recordingUrl) {
+      throw new Error('Recording not available yet');
+    }
+    return recording;
+  });
+
+  registerJobHandler<AdvisorJobPayload>('advisor.respond', async ({ payload, isLastAttempt }) => {
+    // The wake-word session lives on the meeting's owner, which may be another process
+    return runOnMeetingOwner(payload.meetingId, 'advisor.respond', {
+      question: payload.question,
+      isLastAttempt,
+    }, { timeoutMs: ADVISOR_TIMEOUT_MS });
+  });
+
+  registerJobHandler<CalendarSyncJobPayload>('calendar.sync', async ({ payload }) => {
+    return { ...(await syncCalendarSource(payload.calendarSourceId)) };
+  });
+
+  registerJobHandler<BotJoinJobPayload>('bot.join', async ({ payload }) => {
+    const meeting = await prisma.meeting.findUniqueOrThrow({
+      where: { id: payload.meetingId },
+      include: { bot: true },
+    });
+
+    // The meeting may have changed since the scheduler queued the join
+    if (!meeting.autoJoinBot || !meeting.meetingUrl || meeting.phase === 'COMPLETED') {
+      return { skipped: 'Auto-join no longer applies' };
+    }
+    if (meeting.bot && ['created', 'joining', 'in_meeting'].includes(meeting.bot.status)) {
+      return { skipped: 'Bot already active' };
+    }
+
+    const bot = await joinMeeting({
+      meetingId: meeting.id,
+      meetingUrl: meeting.meetingUrl,
+      webhookUrl: recallWebhookUrl(),
+    });
+    return { botId: bot.id, recallBotId: bot.recallBotId, status: bot.status };
+  });
+
+  registerJobHandler<SegmentationJobPayload>('transcript.segment', async ({ payload }) => {
+    return { ...(await resegmentMeeting(payload.meetingId)) };
+  });
+
+  registerJobHandler('actions.overdue', async () => {
+    return markOverdueActions();
+  });
+
+  registerJobHandler<CarryForwardJobPayload>('actions.carry-forward', async ({ payload }) => {
+    const meeting = await prisma.meeting.findUniqueOrThrow({
+      where: { id: payload.meetingId },
+      select: { phase: true },
+    });
+    // The meeting may have started since the carry-forward was queued
+    if (meeting.phase !== 'UPCOMING') {
+      return { skipped: 'Meeting already started' };
+    }
+    return { ...(await buildMattersArising(payload.meetingId)) };
+  });
+
+  registerJobHandler<NotificationJobPayload>('notification.send', async ({ payload, isLastAttempt }) => {
+    return { ...(await sendDelivery(payload.deliveryId, isLastAttempt)) };
+  });
+
+  registerJobHandler('sessions.purge', async () => {
+    return { purged: await purgeExpiredSessions() };
+  });
+
+  registerJobHandler<DocumentExtractionJobPayload>('document.extract', async ({ payload, isLastAttempt }) => {
+    return processDocumentText(payload.documentId, isLastAttempt);
+  });
+}
+
+export default registerJobHandlers;
@@ -0,0 +1,6 @@
+/**
+ * Background Job Services - Central Export
+ */
+
+export * from './queue';
+export * from './worker';
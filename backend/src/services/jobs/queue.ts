@@ -0,0 +1,433 @@
+/**
+ * Background Job Queue
+ *
+ * Durable queue for long-running work, stored in the Job table so it survives
+ * restarts and needs no broker besides Postgres:
+ * - enqueueJob() stores a job; an idempotency key returns the existing job
+ *   instead of creating a duplicate
+ * - workers claim due jobs with FOR UPDATE SKIP LOCKED (see worker.ts), so
+ *   several processes can drain the same table
+ * - failed attempts are retried with exponential backoff until maxAttempts
+ * - a worker renews its lock while a handler runs (see worker.ts), so jobs
+ *   left RUNNING by a crashed worker are re-queued once their lock expires,
+ *   and long jobs are not
+ *
+ * Job changes made by any process are published through watchJobs(), which
+ * polls the table, so clients can follow a job over Socket.io.
+ */
+
+import { Job, JobStatus, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+
+const logger = createLogger('jobs');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const BACKOFF_BASE_MS = parseInt(process.env.JOB_BACKOFF_BASE_MS || '5000');
+const BACKOFF_MAX_MS = 10 * 60 * 1000;
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || String(15 * 60 * 1000));
+// Running jobs renew their lock this often, well inside the timeout
+export const LOCK_RENEW_INTERVAL_MS = Math.floor(LOCK_TIMEOUT_MS / 3);
+const RETENTION_DAYS = parseInt(process.env.JOB_RETENTION_DAYS || '7');
+const WATCH_INTERVAL_MS = 1000;
+// Re-read rows this far back so updates committed slightly out of order are not missed
+const WATCH_OVERLAP_MS = 5000;
+
+const ACTIVE_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING'];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EnqueueOptions {
+  type: string;
+  payload: Prisma.InputJsonValue;
+  organizationId?: string | null;
+  meetingId?: string | null;
+  idempotencyKey?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export class JobStateError extends Error {
+  status = 409;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobStateError';
+  }
+}
+
+type JobHandler = (job: Job) => void;
+
+const enqueueHandlers: Array<() => void> = [];
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+/**
+ * Add a job to the queue (or return the job already stored under its idempotency key)
+ */
+export async function enqueueJob(options: EnqueueOptions): Promise<Job> {
+  if (options.idempotencyKey) {
+    const existing = await prisma.job.findUnique({ where: { idempotencyKey: options.idempotencyKey } });
+    if (existing) {
+      return existing;
+    }
+  }
+
+  let job: Job;
+  try {
+    job = await prisma.job.create({
+      data: {
+        type: options.type,
+        payload: options.payload,
+        organizationId: options.organizationId ?? null,
+        meetingId: options.meetingId ?? null,
+        idempotencyKey: options.idempotencyKey,
+        ...(options.maxAttempts && { maxAttempts: options.maxAttempts }),
+        ...(options.runAt && { runAt: options.runAt }),
+      },
+    });
+  } catch (error) {
+    // Lost a race with another request using the same key
+    if (
+      options.idempotencyKey &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return prisma.job.findUniqueOrThrow({ where: { idempotencyKey: options.idempotencyKey } });
+    }
+    throw error;
+  }
+
+  logger.info({ jobId: job.id, type: job.type, meetingId: job.meetingId }, 'Job enqueued');
+
+  for (const handler of enqueueHandlers) {
+    handler();
+  }
+
+  return job;
+}
+
+/**
+ * Find a queued or running job of a type for a meeting
+ */
+export async function findActiveJob(type: string, meetingId: string): Promise<Job | null> {
+  return prisma.job.findFirst({
+    where: { type, meetingId, status: { in: ACTIVE_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Register a handler called whenever this process enqueues a job
+ * (lets an in-process worker start it without waiting for the next poll)
+ */
+export function onJobEnqueued(handler: () => void): () => void {
+  enqueueHandlers.push(handler);
+
+  return () => {
+    const index = enqueueHandlers.indexOf(handler);
+    if (index > -1) {
+      enqueueHandlers.splice(index, 1);
+    }
+  };
+}
+
+// ============================================
+// WORKER OPERATIONS
+// ============================================
+
+/**
+ * Claim the next due job of one of `types` for a worker
+ */
+export async function claimNextJob(workerId: string, types: string[]): Promise<Job | null> {
+  if (types.length === 0) {
+    return null;
+  }
+
+  const rows = await prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING',
+        "attempts" = "attempts" + 1,
+        "lockedBy" = ${workerId},
+        "lockedAt" = now(),
+        "startedAt" = now(),
+        "updatedAt" = now()
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'QUEUED' AND "runAt" <= now() AND "type" = ANY(${types})
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Record progress (0-100) and extend the worker's lock
+ */
+export async function updateJobProgress(job: Job, progress: number): Promise<void> {
+  await prisma.job.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+    data: { progress: Math.max(0, Math.min(100, Math.round(progress))), lockedAt: new Date() },
+  });
+}
+
+/**
+ * Extend the worker's lock on a running job; false when the lock was lost
+ * (the job was recovered as stale or cancelled)
+ */
+export async function renewJobLock(job: Job): Promise<boolean> {
+  const { count } = await prisma.job.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+    data: { lockedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Mark a claimed job as done
+ */
+export async function completeJob(job: Job, result?: Prisma.InputJsonValue): Promise<void> {
+  await prisma.job.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+    data: {
+      status: 'COMPLETED',
+      result: result ?? Prisma.DbNull,
+      error: null,
+      progress: 100,
+      lockedBy: null,
+      lockedAt: null,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Record a failed attempt: re-queue with backoff, or fail the job for good
+ */
+export async function failJob(job: Job, error: Error, retryable = true): Promise<'retry' | 'failed'> {
+  const retry = retryable && job.attempts < job.maxAttempts;
+
+  await prisma.job.updateMany({
+    where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+    data: retry
+      ? {
+          status: 'QUEUED',
+          error: error.message,
+          runAt: new Date(Date.now() + retryDelay(job.attempts)),
+          lockedBy: null,
+          lockedAt: null,
+        }
+      : {
+          status: 'FAILED',
+          error: error.message,
+          lockedBy: null,
+          lockedAt: null,
+          completedAt: new Date(),
+        },
+  });
+
+  return retry ? 'retry' : 'failed';
+}
+
+/**
+ * Delay before the next attempt, doubling after each failure
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+/**
+ * Re-queue jobs whose worker stopped without finishing them
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const cutoff = new Date(Date.now() - LOCK_TIMEOUT_MS);
+  const stale = { status: 'RUNNING' as const, lockedAt: { lt: cutoff } };
+
+  const [requeued, failed] = await prisma.$transaction([
+    prisma.job.updateMany({
+      where: { ...stale, attempts: { lt: prisma.job.fields.maxAttempts } },
+      data: { status: 'QUEUED', error: 'Worker stopped before the job finished', lockedBy: null, lockedAt: null },
+    }),
+    prisma.job.updateMany({
+      where: stale,
+      data: {
+        status: 'FAILED',
+        error: 'Worker stopped before the job finished',
+        lockedBy: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      },
+    }),
+  ]);
+
+  if (requeued.count + failed.count > 0) {
+    logger.warn({ requeued: requeued.count, failed: failed.count }, 'Recovered stale jobs');
+  }
+  return requeued.count + failed.count;
+}
+
+/**
+ * Delete finished jobs past the retention period (their idempotency keys expire with them)
+ */
+export async function purgeFinishedJobs(): Promise<number> {
+  const { count } = await prisma.job.deleteMany({
+    where: {
+      status: { in: ['COMPLETED', 'FAILED', 'CANCELLED'] },
+      completedAt: { lt: new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+    },
+  });
+  return count;
+}
+
+// ============================================
+// MANAGEMENT
+// ============================================
+
+/**
+ * Cancel a job that has not started yet
+ */
+export async function cancelJob(jobId: string): Promise<Job> {
+  const { count } = await prisma.job.updateMany({
+    where: { id: jobId, status: 'QUEUED' },
+    data: { status: 'CANCELLED', completedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new JobStateError('Only queued jobs can be cancelled');
+  }
+  return prisma.job.findUniqueOrThrow({ where: { id: jobId } });
+}
+
+/**
+ * Queue a failed or cancelled job again with a fresh set of attempts
+ */
+export async function retryJob(jobId: string): Promise<Job> {
+  const { count } = await prisma.job.updateMany({
+    where: { id: jobId, status: { in: ['FAILED', 'CANCELLED'] } },
+    data: {
+      status: 'QUEUED',
+      attempts: 0,
+      progress: 0,
+      error: null,
+      runAt: new Date(),
+      startedAt: null,
+      completedAt: null,
+    },
+  });
+  if (count === 0) {
+    throw new JobStateError('Only failed or cancelled jobs can be retried');
+  }
+
+  for (const handler of enqueueHandlers) {
+    handler();
+  }
+
+  return prisma.job.findUniqueOrThrow({ where: { id: jobId } });
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+/**
+ * Call `handler` for every job created or changed by any process.
+ * Returns a function that stops watching.
+ */
+export function watchJobs(handler: JobHandler, intervalMs = WATCH_INTERVAL_MS): () => void {
+  let cursor = new Date();
+  let polling = false;
+  // Last version seen per job, to skip rows re-read in the overlap window
+  const seen = new Map<string, number>();
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+
+    try {
+      const since = new Date(cursor.getTime() - WATCH_OVERLAP_MS);
+      const jobs = await prisma.job.findMany({
+        where: { updatedAt: { gt: since } },
+        orderBy: { updatedAt: 'asc' },
+        take: 500,
+      });
+
+      for (const job of jobs) {
+        const version = job.updatedAt.getTime();
+        if (seen.get(job.id) === version) continue;
+        seen.set(job.id, version);
+        if (version > cursor.getTime()) cursor = job.updatedAt;
+
+        try {
+          handler(job);
+        } catch (error) {
+          logger.error({ err: error, jobId: job.id }, 'Error in job watch handler');
+        }
+      }
+
+      for (const [id, version] of seen) {
+        if (version < since.getTime()) seen.delete(id);
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to poll job updates');
+    } finally {
+      polling = false;
+    }
+  };
+
+  const interval = setInterval(poll, intervalMs);
+  return () => clearInterval(interval);
+}
+
+// ============================================
+// SERIALIZATION
+// ============================================
+
+/**
+ * API shape of a job (status lowercased, internal lock fields omitted)
+ */
+export function formatJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status.toLowerCase(),
+    progress: job.progress,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    result: job.result,
+    meetingId: job.meetingId,
+    runAt: job.runAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    createdAt: job.createdAt,
+  };
+}
+
+export const jobQueue = {
+  enqueueJob,
+  findActiveJob,
+  onJobEnqueued,
+  claimNextJob,
+  updateJobProgress,
+  renewJobLock,
+  completeJob,
+  failJob,
+  recoverStaleJobs,
+  purgeFinishedJobs,
+  cancelJob,
+  retryJob,
+  watchJobs,
+  formatJob,
+};
+
+export default jobQueue;
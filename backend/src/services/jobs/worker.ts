@@ -0,0 +1,236 @@
+/**
+ * Background Job Worker
+ *
+ * Runs queued jobs with the handler registered for their type. The API
+ * process runs a worker by default; set JOB_WORKER_ENABLED=false there and
+ * start `npm run worker` to move the work to dedicated processes.
+ *
+ * A handler that throws is retried with backoff (see queue.ts), except for
+ * errors carrying a 4xx `status`, which would fail the same way again.
+ * While a handler runs, the worker renews the job's lock every
+ * LOCK_RENEW_INTERVAL_MS, so only jobs whose worker has stopped are
+ * recovered as stale, however long they take.
+ */
+
+import { Job, Prisma } from '@prisma/client';
+import { createLogger } from '../../lib/logger';
+import { INSTANCE_ID } from '../cluster/leases';
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  LOCK_RENEW_INTERVAL_MS,
+  onJobEnqueued,
+  purgeFinishedJobs,
+  recoverStaleJobs,
+  renewJobLock,
+  updateJobProgress,
+} from './queue';
+
+const logger = createLogger('worker');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || '4');
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000');
+const MAINTENANCE_INTERVAL_MS = 60000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface JobContext<TPayload = any> {
+  job: Job;
+  payload: TPayload;
+  attempt: number;
+  isLastAttempt: boolean;
+  reportProgress: (progress: number) => Promise<void>;
+}
+
+export type JobHandler<TPayload = any> = (
+  context: JobContext<TPayload>
+) => Promise<Prisma.InputJsonValue | void>;
+
+interface WorkerState {
+  id: string;
+  concurrency: number;
+  running: Set<Promise<void>>;
+  claiming: boolean;
+  stopping: boolean;
+  pollInterval: NodeJS.Timeout;
+  maintenanceInterval: NodeJS.Timeout;
+  unsubscribe: () => void;
+}
+
+// ============================================
+// STATE MANAGEMENT
+// ============================================
+
+const jobHandlers: Map<string, JobHandler> = new Map();
+let worker: WorkerState | null = null;
+
+/**
+ * Register the handler for a job type
+ */
+export function registerJobHandler<TPayload>(type: string, handler: JobHandler<TPayload>): void {
+  jobHandlers.set(type, handler as JobHandler);
+}
+
+// ============================================
+// WORKER CONTROL
+// ============================================
+
+/**
+ * Start claiming and running jobs in this process
+ */
+export function startWorker(options: { concurrency?: number; pollIntervalMs?: number } = {}): void {
+  if (worker) {
+    return;
+  }
+
+  const state: WorkerState = {
+    id: INSTANCE_ID,
+    concurrency: options.concurrency ?? CONCURRENCY,
+    running: new Set(),
+    claiming: false,
+    stopping: false,
+    pollInterval: setInterval(() => fillSlots(state), options.pollIntervalMs ?? POLL_INTERVAL_MS),
+    maintenanceInterval: setInterval(() => runMaintenance(), MAINTENANCE_INTERVAL_MS),
+    unsubscribe: onJobEnqueued(() => fillSlots(state)),
+  };
+  worker = state;
+
+  runMaintenance();
+  fillSlots(state);
+
+  logger.info({ workerId: state.id, concurrency: state.concurrency, types: [...jobHandlers.keys()] }, 'Job worker started');
+}
+
+/**
+ * Stop claiming jobs and wait for the running ones to finish
+ */
+export async function stopWorker(): Promise<void> {
+  const state = worker;
+  if (!state) {
+    return;
+  }
+
+  state.stopping = true;
+  clearInterval(state.pollInterval);
+  clearInterval(state.maintenanceInterval);
+  state.unsubscribe();
+
+  await Promise.allSettled([...state.running]);
+  worker = null;
+
+  logger.info({ workerId: state.id }, 'Job worker stopped');
+}
+
+/**
+ * Check if this process is running a worker
+ */
+export function isWorkerRunning(): boolean {
+  return worker !== null;
+}
+
+// ============================================
+// JOB EXECUTION
+// ============================================
+
+/**
+ * Claim jobs until every concurrency slot is busy or nothing is due
+ */
+async function fillSlots(state: WorkerState): Promise<void> {
+  if (state.claiming || state.stopping) {
+    return;
+  }
+  state.claiming = true;
+
+  try {
+    while (!state.stopping && state.running.size < state.concurrency) {
+      const job = await claimNextJob(state.id, [...jobHandlers.keys()]);
+      if (!job) break;
+
+      const run = runJob(job).finally(() => {
+        state.running.delete(run);
+        fillSlots(state);
+      });
+      state.running.add(run);
+    }
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to claim jobs');
+  } finally {
+    state.claiming = false;
+  }
+}
+
+/**
+ * Run one claimed job and record the outcome
+ */
+export async function runJob(job: Job): Promise<void> {
+  const handler = jobHandlers.get(job.type);
+  const startTime = Date.now();
+  const heartbeat = setInterval(() => {
+    renewJobLock(job)
+      .then((held) => {
+        if (!held) logger.warn({ jobId: job.id, type: job.type }, 'Lost the lock on a running job');
+      })
+      .catch((error) => logger.error({ err: error, jobId: job.id }, 'Failed to renew job lock'));
+  }, LOCK_RENEW_INTERVAL_MS);
+
+  try {
+    if (!handler) {
+      throw Object.assign(new Error(`No handler registered for job type ${job.type}`), { status: 400 });
+    }
+
+    const result = await handler({
+      job,
+      payload: job.payload,
+      attempt: job.attempts,
+      isLastAttempt: job.attempts >= job.maxAttempts,
+      reportProgress: (progress) => updateJobProgress(job, progress),
+    });
+
+    await completeJob(job, result ?? undefined);
+    logger.info({ jobId: job.id, type: job.type, duration: Date.now() - startTime }, 'Job completed');
+  } catch (error) {
+    const { status = 0 } = error as Error & { status?: number };
+    const retryable = !(status >= 400 && status < 500);
+    const outcome = await failJob(job, error as Error, retryable).catch((err) => {
+      logger.error({ err, jobId: job.id }, 'Failed to record job failure');
+      return 'failed';
+    });
+
+    logger.warn({
+      err: error,
+      jobId: job.id,
+      type: job.type,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      outcome,
+    }, 'Job attempt failed');
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function runMaintenance(): Promise<void> {
+  try {
+    await recoverStaleJobs();
+    await purgeFinishedJobs();
+  } catch (error) {
+    logger.error({ err: error }, 'Job maintenance failed');
+  }
+}
+
+export const jobWorker = {
+  registerJobHandler,
+  startWorker,
+  stopWorker,
+  isWorkerRunning,
+  runJob,
+};
+
+export default jobWorker;
@@ -0,0 +1,144 @@
+/**
+ * Text Chunking & Scoring
+ *
+ * Splits long texts into overlapping passages small enough to embed and to
+ * quote back to the model, and scores passages against a question.
+ */
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const CHUNK_SIZE = parseInt(process.env.KNOWLEDGE_CHUNK_SIZE || '1200');
+export const CHUNK_OVERLAP = parseInt(process.env.KNOWLEDGE_CHUNK_OVERLAP || '200');
+
+export interface ChunkOptions {
+  size?: number;
+  overlap?: number;
+}
+
+// ============================================
+// CHUNKING
+// ============================================
+
+/**
+ * Break a piece of text into units no longer than `size`:
+ * paragraphs first, then sentences, then hard splits on whitespace.
+ */
+function splitUnits(text: string, size: number): string[] {
+  const units: string[] = [];
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    if (trimmed.length <= size) {
+      units.push(trimmed);
+      continue;
+    }
+
+    for (const sentence of trimmed.split(/(?<=[.!?])\s+|\n/)) {
+      let rest = sentence.trim();
+      while (rest.length > size) {
+        const cut = rest.lastIndexOf(' ', size);
+        const at = cut > size / 2 ? cut : size;
+        units.push(rest.slice(0, at).trim());
+        rest = rest.slice(at).trim();
+      }
+      if (rest) units.push(rest);
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Tail of a chunk carried into the next one, starting on a word boundary
+ */
+function overlapTail(chunk: string, overlap: number): string {
+  if (overlap <= 0 || chunk.length <= overlap) return '';
+  const tail = chunk.slice(-overlap);
+  const space = tail.indexOf(' ');
+  return space === -1 ? tail : tail.slice(space + 1);
+}
+
+/**
+ * Split text into chunks of roughly `size` characters. Consecutive chunks
+ * share about `overlap` characters so a passage cut at a boundary is still
+ * found whole in one of them.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const size = options.size ?? CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? CHUNK_OVERLAP, Math.floor(size / 2));
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const unit of splitUnits(text, size)) {
+    const separator = current ? '\n\n' : '';
+    if (current && current.length + separator.length + unit.length > size) {
+      chunks.push(current);
+      const tail = overlapTail(current, overlap);
+      current = tail && tail.length + 2 + unit.length <= size ? `${tail}\n\n${unit}` : unit;
+    } else {
+      current += separator + unit;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'what', 'which', 'who', 'whom', 'this', 'that',
+  'these', 'those', 'with', 'from', 'about', 'into', 'than', 'then', 'they', 'them', 'their',
+  'there', 'have', 'has', 'had', 'did', 'does', 'doing', 'will', 'would', 'could', 'should',
+  'can', 'our', 'you', 'your', 'how', 'why', 'when', 'where', 'any', 'all', 'say', 'said',
+  'tell', 'please', 'pack',
+]);
+
+/**
+ * Lowercased content words of a text (no stop words or very short tokens)
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Share of the question's distinct terms that appear in the passage (0-1).
+ * Used when embeddings are unavailable.
+ */
+export function lexicalScore(queryTerms: string[], text: string): number {
+  const terms = new Set(queryTerms);
+  if (terms.size === 0) return 0;
+
+  const words = new Set(tokenize(text));
+  let hits = 0;
+  for (const term of terms) {
+    if (words.has(term)) hits++;
+  }
+  return hits / terms.size;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
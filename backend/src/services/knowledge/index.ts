@@ -0,0 +1,7 @@
+/**
+ * Knowledge Services - Central Export
+ */
+
+export * from './chunking';
+export * from './indexer';
+export * from './retrieval';
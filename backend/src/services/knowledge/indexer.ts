@@ -0,0 +1,319 @@
+/**
+ * Knowledge Indexer
+ *
+ * Keeps the KnowledgeChunk index in step with the sources the chat assistant
+ * can cite:
+ * - Briefing documents: re-indexed whenever text extraction completes
+ * - Meeting summaries: re-indexed when generated or edited
+ * - Transcripts: indexed incrementally in windows of consecutive entries
+ *
+ * Chunks are embedded with OpenAI when it is configured; otherwise they are
+ * stored without a vector and found by keyword search only.
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { createEmbeddings, isConfigured } from '../openai/client';
+import { chunkText, CHUNK_SIZE } from './chunking';
+
+const logger = createLogger('knowledge');
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface IndexResult {
+  chunks: number;
+}
+
+export interface MeetingIndexResult {
+  documents: number;
+  summary: number;
+  transcript: number;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+// One indexing run per source at a time (e.g. two extractions finishing together)
+const runningJobs: Map<string, Promise<unknown>> = new Map();
+
+function serialize<T>(key: string, job: () => Promise<T>): Promise<T> {
+  const previous = runningJobs.get(key) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(job);
+  runningJobs.set(key, next);
+  next.finally(() => {
+    if (runningJobs.get(key) === next) {
+      runningJobs.delete(key);
+    }
+  }).catch(() => undefined);
+  return next;
+}
+
+/**
+ * Embed chunk texts with the organization's provider, falling back to no
+ * vectors if it is unavailable
+ */
+async function embedChunks(texts: string[], organizationId: string): Promise<number[][]> {
+  if (texts.length === 0) {
+    return [];
+  }
+
+  try {
+    if (!(await isConfigured({ organizationId }))) {
+      return texts.map(() => []);
+    }
+    return await createEmbeddings(texts, { organizationId });
+  } catch (error) {
+    logger.warn({ err: error, count: texts.length }, 'Embedding failed, indexing for keyword search only');
+    return texts.map(() => []);
+  }
+}
+
+/**
+ * Embed and store a set of chunks. Each chunk is embedded with its source
+ * title in front so short passages keep their context.
+ */
+async function storeChunks(chunks: Prisma.KnowledgeChunkCreateManyInput[]): Promise<number> {
+  if (chunks.length === 0) return 0;
+
+  // Chunks stored together always belong to one organization
+  const embeddings = await embedChunks(chunks.map((c) => `${c.title}\n${c.content}`), chunks[0].organizationId);
+  await prisma.knowledgeChunk.createMany({
+    data: chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })),
+  });
+
+  return chunks.length;
+}
+
+function formatTime(date: Date, timeZone: string): string {
+  try {
+    return date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone });
+  } catch {
+    return date.toISOString().slice(11, 16);
+  }
+}
+
+// ============================================
+// DOCUMENTS
+// ============================================
+
+/**
+ * (Re)index a briefing document's extracted text, or its summary for
+ * linked documents that have no file
+ */
+export function indexDocument(documentId: string): Promise<IndexResult> {
+  return serialize(`document:${documentId}`, async () => {
+    const document = await prisma.briefingDocument.findUnique({
+      where: { id: documentId },
+      select: {
+        id: true,
+        meetingId: true,
+        title: true,
+        extractedText: true,
+        summary: true,
+        meeting: { select: { organizationId: true } },
+      },
+    });
+
+    if (!document) {
+      return { chunks: 0 };
+    }
+
+    await prisma.knowledgeChunk.deleteMany({ where: { documentId } });
+
+    const parts = chunkText(document.extractedText || document.summary || '');
+    const chunks = await storeChunks(parts.map((content, index) => ({
+      organizationId: document.meeting.organizationId,
+      meetingId: document.meetingId,
+      sourceType: 'DOCUMENT' as const,
+      documentId,
+      title: document.title,
+      reference: parts.length > 1 ? `Part ${index + 1} of ${parts.length}` : null,
+      chunkIndex: index,
+      content,
+    })));
+
+    logger.info({ documentId, chunks }, 'Document indexed');
+    return { chunks };
+  });
+}
+
+// ============================================
+// SUMMARIES
+// ============================================
+
+function asStringArray(value: Prisma.JsonValue): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/**
+ * (Re)index a meeting's summary: overview, per-agenda discussions and next steps
+ */
+export function indexSummary(meetingId: string): Promise<IndexResult> {
+  return serialize(`summary:${meetingId}`, async () => {
+    const summary = await prisma.meetingSummary.findUnique({
+      where: { meetingId },
+      include: {
+        meeting: { select: { title: true, organizationId: true } },
+        discussions: { include: { agendaItem: { select: { order: true } } } },
+      },
+    });
+
+    await prisma.knowledgeChunk.deleteMany({ where: { meetingId, sourceType: 'SUMMARY' } });
+
+    if (!summary) {
+      return { chunks: 0 };
+    }
+
+    const sections = [`Overview: ${summary.overview}`];
+    if (summary.attendanceNotes) {
+      sections.push(`Attendance: ${summary.attendanceNotes}`);
+    }
+    for (const discussion of [...summary.discussions].sort((a, b) => a.agendaItem.order - b.agendaItem.order)) {
+      const keyPoints = asStringArray(discussion.keyPoints);
+      sections.push([
+        `${discussion.title}: ${discussion.summary}`,
+        keyPoints.length > 0 && `Key points: ${keyPoints.join('; ')}`,
+        discussion.outcome && `Outcome: ${discussion.outcome}`,
+      ].filter(Boolean).join('\n'));
+    }
+    const nextSteps = asStringArray(summary.nextSteps);
+    if (nextSteps.length > 0) {
+      sections.push(`Next steps: ${nextSteps.join('; ')}`);
+    }
+
+    const parts = chunkText(sections.join('\n\n'));
+    const chunks = await storeChunks(parts.map((content, index) => ({
+      organizationId: summary.meeting.organizationId,
+      meetingId,
+      sourceType: 'SUMMARY' as const,
+      summaryId: summary.id,
+      title: `${summary.meeting.title} summary`,
+      reference: parts.length > 1 ? `Part ${index + 1} of ${parts.length}` : null,
+      chunkIndex: index,
+      content,
+    })));
+
+    logger.info({ meetingId, chunks }, 'Meeting summary indexed');
+    return { chunks };
+  });
+}
+
+// ============================================
+// TRANSCRIPTS
+// ============================================
+
+/**
+ * Index transcript entries recorded since the last indexed window.
+ * Without `flush`, a trailing window shorter than a full chunk is left for
+ * a later run (the advisor reads the latest entries directly anyway).
+ */
+export function indexTranscript(
+  meetingId: string,
+  options: { flush?: boolean } = {}
+): Promise<IndexResult> {
+  return serialize(`transcript:${meetingId}`, async () => {
+    const meeting = await prisma.meeting.findUnique({
+      where: { id: meetingId },
+      select: {
+        title: true,
+        organizationId: true,
+        organization: { select: { timezone: true } },
+      },
+    });
+
+    if (!meeting) {
+      return { chunks: 0 };
+    }
+
+    const last = await prisma.knowledgeChunk.findFirst({
+      where: { meetingId, sourceType: 'TRANSCRIPT' },
+      orderBy: { chunkIndex: 'desc' },
+      select: { chunkIndex: true, endTime: true },
+    });
+
+    const entries = await prisma.transcriptEntry.findMany({
+      where: {
+        meetingId,
+        ...(last?.endTime && { timestamp: { gt: last.endTime } }),
+      },
+      orderBy: { timestamp: 'asc' },
+      select: { speakerName: true, content: true, timestamp: true },
+    });
+
+    // Group consecutive entries into windows of about one chunk each
+    const windows: typeof entries[] = [];
+    let current: typeof entries = [];
+    let length = 0;
+    for (const entry of entries) {
+      current.push(entry);
+      length += entry.speakerName.length + entry.content.length + 3;
+      if (length >= CHUNK_SIZE) {
+        windows.push(current);
+        current = [];
+        length = 0;
+      }
+    }
+    if (options.flush && current.length > 0) {
+      windows.push(current);
+    }
+
+    const firstIndex = last ? last.chunkIndex + 1 : 0;
+    const timeZone = meeting.organization.timezone;
+    const chunks = await storeChunks(windows.map((window, i) => {
+      const startTime = window[0].timestamp;
+      const endTime = window[window.length - 1].timestamp;
+      return {
+        organizationId: meeting.organizationId,
+        meetingId,
+        sourceType: 'TRANSCRIPT' as const,
+        title: `${meeting.title} transcript`,
+        reference: `${formatTime(startTime, timeZone)}-${formatTime(endTime, timeZone)}`,
+        chunkIndex: firstIndex + i,
+        content: window.map((e) => `${e.speakerName}: ${e.content}`).join('\n'),
+        startTime,
+        endTime,
+      };
+    }));
+
+    if (chunks > 0) {
+      logger.info({ meetingId, chunks }, 'Transcript indexed');
+    }
+    return { chunks };
+  });
+}
+
+// ============================================
+// FULL REBUILD
+// ============================================
+
+/**
+ * Rebuild every chunk for a meeting from scratch
+ */
+export async function reindexMeeting(meetingId: string): Promise<MeetingIndexResult> {
+  const documents = await prisma.briefingDocument.findMany({
+    where: { meetingId },
+    select: { id: true },
+  });
+
+  let documentChunks = 0;
+  for (const document of documents) {
+    documentChunks += (await indexDocument(document.id)).chunks;
+  }
+
+  const summary = await indexSummary(meetingId);
+
+  await serialize(`transcript:${meetingId}`, () =>
+    prisma.knowledgeChunk.deleteMany({ where: { meetingId, sourceType: 'TRANSCRIPT' } })
+  );
+  const transcript = await indexTranscript(meetingId, { flush: true });
+
+  return {
+    documents: documentChunks,
+    summary: summary.chunks,
+    transcript: transcript.chunks,
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Knowledge Retrieval
+ *
+ * Finds the passages most relevant to a question across the meeting's own
+ * documents, transcript and summary and those of the organization's other
+ * meetings, and turns the ones the model cited into ChatSource entries.
+ */
+
+import { KnowledgeSourceType } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { createEmbeddings, isConfigured } from '../openai/client';
+import { cosineSimilarity, lexicalScore, tokenize } from './chunking';
+
+const logger = createLogger('knowledge');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const TOP_K = parseInt(process.env.KNOWLEDGE_TOP_K || '6');
+// Most recent chunks in the organization considered per question
+const MAX_CANDIDATES = parseInt(process.env.KNOWLEDGE_MAX_CANDIDATES || '2000');
+const MIN_SIMILARITY = 0.2;
+const CURRENT_MEETING_BOOST = 1.15;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RetrievedChunk {
+  id: string;
+  sourceType: KnowledgeSourceType;
+  meetingId: string;
+  meetingTitle: string;
+  documentId: string | null;
+  title: string;
+  reference: string | null;
+  content: string;
+  score: number;
+}
+
+/**
+ * Citation returned to the chat UI (matches the frontend ChatSource type)
+ */
+export interface ChatSource {
+  id: string;
+  type: 'transcript' | 'document' | 'summary';
+  name: string;
+  reference?: string;
+  meetingId: string;
+  documentId?: string;
+  excerpt: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  currentMeetingOnly?: boolean;
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+async function embedQuery(query: string, organizationId: string): Promise<number[] | null> {
+  try {
+    if (!(await isConfigured({ organizationId }))) return null;
+
+    const [vector] = await createEmbeddings([query], { organizationId });
+    return vector;
+  } catch (error) {
+    logger.warn({ err: error }, 'Query embedding failed, using keyword search');
+    return null;
+  }
+}
+
+/**
+ * Rank indexed passages for a question asked in `meetingId`.
+ * Passages from the current meeting get a small boost over past meetings.
+ */
+export async function searchKnowledge(
+  meetingId: string,
+  query: string,
+  options: SearchOptions = {}
+): Promise<RetrievedChunk[]> {
+  const { limit = TOP_K, currentMeetingOnly = false } = options;
+
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    select: { organizationId: true },
+  });
+
+  if (!meeting) {
+    return [];
+  }
+
+  const [queryVector, candidates] = await Promise.all([
+    embedQuery(query, meeting.organizationId),
+    prisma.knowledgeChunk.findMany({
+      where: currentMeetingOnly ? { meetingId } : { organizationId: meeting.organizationId },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_CANDIDATES,
+      select: {
+        id: true,
+        sourceType: true,
+        meetingId: true,
+        documentId: true,
+        title: true,
+        reference: true,
+        content: true,
+        embedding: true,
+        meeting: { select: { title: true } },
+      },
+    }),
+  ]);
+
+  const queryTerms = tokenize(query);
+
+  const scored = candidates.map((chunk) => {
+    const useVector = queryVector !== null && chunk.embedding.length === queryVector.length;
+    const raw = useVector
+      ? cosineSimilarity(queryVector, chunk.embedding)
+      : lexicalScore(queryTerms, `${chunk.title} ${chunk.content}`);
+    const passes = useVector ? raw >= MIN_SIMILARITY : raw > 0;
+    const score = chunk.meetingId === meetingId ? raw * CURRENT_MEETING_BOOST : raw;
+
+    return {
+      passes,
+      chunk: {
+        id: chunk.id,
+        sourceType: chunk.sourceType,
+        meetingId: chunk.meetingId,
+        meetingTitle: chunk.meeting.title,
+        documentId: chunk.documentId,
+        title: chunk.title,
+        reference: chunk.reference,
+        content: chunk.content,
+        score,
+      },
+    };
+  });
+
+  return scored
+    .filter((s) => s.passes)
+    .map((s) => s.chunk)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// ============================================
+// CITATIONS
+// ============================================
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * 1-based source numbers cited in an answer as [1] or [1, 3]
+ */
+export function extractCitations(answer: string, sourceCount: number): number[] {
+  const cited = new Set<number>();
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    for (const part of match[1].split(',')) {
+      const n = parseInt(part.trim(), 10);
+      if (n >= 1 && n <= sourceCount) cited.add(n);
+    }
+  }
+  return [...cited].sort((a, b) => a - b);
+}
+
+const CITATION_MARKERS = /\s*\[\d+(?:\s*,\s*\d+)*\]/g;
+// Trailing whitespace or an unfinished marker, which may still become a citation
+const PENDING_CITATION = /\s*(?:\[[\d,\s]*)?$/;
+
+/**
+ * Remove [n] markers (for text that will be spoken aloud)
+ */
+export function stripCitations(answer: string): string {
+  return answer.replace(CITATION_MARKERS, '').trim();
+}
+
+/**
+ * Remove [n] markers from text as it streams in. Text that could be the
+ * start of a marker is held back until the next piece shows what it is.
+ */
+export async function* stripCitationsStream(text: AsyncIterable<string>): AsyncGenerator<string> {
+  let pending = '';
+  let started = false;
+
+  for await (const delta of text) {
+    pending = (pending + delta).replace(CITATION_MARKERS, '');
+    const held = pending.search(PENDING_CITATION);
+    const ready = started ? pending.slice(0, held) : pending.slice(0, held).trimStart();
+    pending = pending.slice(held);
+    if (ready) {
+      started = true;
+      yield ready;
+    }
+  }
+
+  const rest = started ? pending.trimEnd() : pending.trim();
+  if (rest) {
+    yield rest;
+  }
+}
+
+export function toChatSource(chunk: RetrievedChunk, currentMeetingId: string): ChatSource {
+  const fromOtherMeeting = chunk.meetingId !== currentMeetingId && chunk.sourceType === 'DOCUMENT';
+
+  return {
+    id: chunk.id,
+    type: chunk.sourceType.toLowerCase() as ChatSource['type'],
+    name: fromOtherMeeting ? `${chunk.title} (${chunk.meetingTitle})` : chunk.title,
+    ...(chunk.reference && { reference: chunk.reference }),
+    meetingId: chunk.meetingId,
+    ...(chunk.documentId && { documentId: chunk.documentId }),
+    excerpt: chunk.content.length > 240 ? `${chunk.content.slice(0, 240).trimEnd()}…` : chunk.content,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Fake LLM Provider
+ *
+ * Deterministic stand-in for a model service, used by the test suite
+ * (LLM_PROVIDER=fake) and for development without network access:
+ * - completions return queued responses in order, then a fixed reply
+ *   derived from the last user message ("{}" when JSON is requested)
+ * - streaming yields the same completion word by word
+ * - embeddings are hashed bags of words, so texts sharing words are similar
+ * - speech returns a small fixed buffer naming the text
+ *
+ * Every request is recorded in `calls` for assertions.
+ */
+
+import { createHash } from 'crypto';
+import { ChatMessage, LlmProvider, ProviderCompletionOptions, SpeechOptions } from './provider';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const FAKE_MODEL = 'fake-model';
+export const FAKE_EMBEDDING_DIMENSIONS = 64;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FakeCall =
+  | { type: 'complete' | 'stream'; messages: ChatMessage[]; options: ProviderCompletionOptions }
+  | { type: 'embed'; texts: string[] }
+  | { type: 'speech'; text: string; options: SpeechOptions };
+
+// ============================================
+// PROVIDER
+// ============================================
+
+function bucket(word: string): number {
+  return createHash('sha1').update(word).digest().readUInt32BE(0) % FAKE_EMBEDDING_DIMENSIONS;
+}
+
+export class FakeProvider implements LlmProvider {
+  readonly kind = 'fake' as const;
+  readonly model = FAKE_MODEL;
+  readonly calls: FakeCall[] = [];
+  private responses: string[] = [];
+
+  /**
+   * Responses for the next completions, in order
+   */
+  queueResponses(...responses: Array<string | object>): void {
+    this.responses.push(...responses.map((r) => (typeof r === 'string' ? r : JSON.stringify(r))));
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+    this.responses = [];
+  }
+
+  private respond(messages: ChatMessage[], options: ProviderCompletionOptions): string {
+    const queued = this.responses.shift();
+    if (queued !== undefined) {
+      return queued;
+    }
+    if (options.responseFormat === 'json') {
+      return '{}';
+    }
+    const question = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+    return `Fake response to: ${question.slice(0, 200)}`;
+  }
+
+  async complete(messages: ChatMessage[], options: ProviderCompletionOptions): Promise<string> {
+    this.calls.push({ type: 'complete', messages, options });
+    return this.respond(messages, options);
+  }
+
+  async *stream(messages: ChatMessage[], options: ProviderCompletionOptions): AsyncGenerator<string, void, unknown> {
+    this.calls.push({ type: 'stream', messages, options });
+    const words = this.respond(messages, options).split(/(?<=\s)/);
+    for (const word of words) {
+      yield word;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.calls.push({ type: 'embed', texts });
+    return texts.map((text) => {
+      const vector = new Array<number>(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+        vector[bucket(word)] += 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+      return norm > 0 ? vector.map((v) => v / norm) : vector;
+    });
+  }
+
+  async speech(text: string, options: SpeechOptions): Promise<Buffer> {
+    this.calls.push({ type: 'speech', text, options });
+    return Buffer.from(`fake-audio:${options.voice}:${text}`, 'utf8');
+  }
+}
+
+// One instance, so tests can queue responses for code that resolves the provider itself
+let fakeProvider: FakeProvider | null = null;
+
+export function getFakeProvider(): FakeProvider {
+  if (!fakeProvider) {
+    fakeProvider = new FakeProvider();
+  }
+  return fakeProvider;
+}
+
+export default getFakeProvider;
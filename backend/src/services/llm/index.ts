@@ -0,0 +1,10 @@
+/**
+ * LLM Provider Services - Central Export
+ */
+
+export * from './provider';
+export * from './openai';
+export * from './fake';
+export * from './registry';
+
+export { default as llmRegistry } from './registry';
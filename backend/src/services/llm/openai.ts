@@ -0,0 +1,171 @@
+/**
+ * OpenAI-protocol Providers
+ *
+ * One adapter over the OpenAI SDK serves three kinds of endpoint:
+ * - openai: api.openai.com
+ * - azure: an Azure OpenAI resource (models are deployment names)
+ * - openai-compatible: a self-hosted server speaking the OpenAI API, for
+ *   tenants whose data must stay on their own infrastructure
+ *
+ * Local servers often implement only chat completions; embeddings and speech
+ * then fail, and callers fall back (keyword search, chat-only answers).
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import {
+  ChatMessage,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderError,
+  LlmProviderKind,
+  ProviderCompletionOptions,
+  SpeechOptions,
+} from './provider';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Voices of the OpenAI speech API
+const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'] as const;
+type OpenAIVoice = typeof OPENAI_VOICES[number];
+
+interface OpenAIModels {
+  model: string;
+  embeddingModel: string;
+  speechModel: string;
+}
+
+// ============================================
+// ADAPTER
+// ============================================
+
+export class OpenAIProvider implements LlmProvider {
+  readonly model: string;
+
+  constructor(
+    readonly kind: LlmProviderKind,
+    private client: OpenAI,
+    private models: OpenAIModels
+  ) {
+    this.model = models.model;
+  }
+
+  async complete(messages: ChatMessage[], options: ProviderCompletionOptions): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: options.model ?? this.models.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      ...(options.responseFormat === 'json' && { response_format: { type: 'json_object' as const } }),
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new LlmProviderError(`No response from ${this.kind} model`, 502);
+    }
+    return content;
+  }
+
+  async *stream(messages: ChatMessage[], options: ProviderCompletionOptions): AsyncGenerator<string, void, unknown> {
+    const stream = await this.client.chat.completions.create({
+      model: options.model ?? this.models.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.models.embeddingModel,
+        input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+      });
+      const batch = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(...batch.map((item) => item.embedding));
+    }
+    return vectors;
+  }
+
+  async speech(text: string, options: SpeechOptions): Promise<Buffer> {
+    const voice: OpenAIVoice = (OPENAI_VOICES as readonly string[]).includes(options.voice)
+      ? (options.voice as OpenAIVoice)
+      : 'nova';
+
+    const response = await this.client.audio.speech.create({
+      model: this.models.speechModel,
+      voice,
+      input: text,
+      speed: options.speed,
+      response_format: 'mp3',
+    });
+    return Buffer.from(await response.arrayBuffer());
+  }
+}
+
+// ============================================
+// FACTORIES
+// ============================================
+
+function models(config: LlmProviderConfig, defaults: OpenAIModels): OpenAIModels {
+  return {
+    model: config.model || defaults.model,
+    embeddingModel: config.embeddingModel || defaults.embeddingModel,
+    speechModel: config.speechModel || defaults.speechModel,
+  };
+}
+
+/**
+ * Provider for an OpenAI, Azure OpenAI or OpenAI-compatible endpoint
+ */
+export function createOpenAIProvider(
+  config: LlmProviderConfig,
+  apiKey: string | undefined,
+  defaults: OpenAIModels
+): OpenAIProvider {
+  switch (config.provider) {
+    case 'azure':
+      if (!config.baseUrl || !apiKey) {
+        throw new LlmProviderError('Azure OpenAI needs an endpoint (baseUrl) and an API key');
+      }
+      return new OpenAIProvider('azure', new AzureOpenAI({
+        endpoint: config.baseUrl,
+        apiKey,
+        apiVersion: config.apiVersion || DEFAULT_AZURE_API_VERSION,
+      }), models(config, defaults));
+
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new LlmProviderError('An OpenAI-compatible provider needs a baseUrl');
+      }
+      // Local servers usually ignore the key, but the SDK requires one
+      return new OpenAIProvider('openai-compatible', new OpenAI({
+        baseURL: config.baseUrl,
+        apiKey: apiKey || 'not-needed',
+      }), models(config, defaults));
+
+    default:
+      if (!apiKey) {
+        throw new LlmProviderError('OpenAI API key not configured');
+      }
+      return new OpenAIProvider('openai', new OpenAI({
+        apiKey,
+        ...(config.baseUrl && { baseURL: config.baseUrl }),
+      }), models(config, defaults));
+  }
+}
+
+export default createOpenAIProvider;
@@ -0,0 +1,70 @@
+/**
+ * LLM Provider Interface
+ *
+ * What the agents need from a language model service: chat completion (whole
+ * or streamed), embeddings for the knowledge index, and text-to-speech for
+ * the bot's voice. Adapters implement it for OpenAI, Azure OpenAI and any
+ * OpenAI-compatible server (vLLM, Ollama, LM Studio, ...), and a fake
+ * provider answers deterministically for tests and offline development.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type LlmProviderKind = 'openai' | 'azure' | 'openai-compatible' | 'fake';
+
+export const LLM_PROVIDER_KINDS: LlmProviderKind[] = ['openai', 'azure', 'openai-compatible', 'fake'];
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderCompletionOptions {
+  model?: string;           // Overrides the provider's chat model
+  maxTokens: number;
+  temperature: number;
+  responseFormat: 'text' | 'json';
+}
+
+export interface SpeechOptions {
+  voice: string;
+  speed: number;
+}
+
+/**
+ * Where a provider's requests go. Secrets are never part of it: the API key
+ * is read from the environment variable named by apiKeyEnv.
+ */
+export interface LlmProviderConfig {
+  provider: LlmProviderKind;
+  baseUrl?: string;         // Azure resource endpoint, or the base URL of a compatible server
+  apiKeyEnv?: string;       // Environment variable holding the API key
+  apiVersion?: string;      // Azure API version
+  model?: string;           // Chat model (Azure: deployment name)
+  embeddingModel?: string;  // Embedding model (Azure: deployment name)
+  speechModel?: string;     // Text-to-speech model (Azure: deployment name)
+}
+
+export interface LlmProvider {
+  readonly kind: LlmProviderKind;
+  readonly model: string;
+
+  complete(messages: ChatMessage[], options: ProviderCompletionOptions): Promise<string>;
+  stream(messages: ChatMessage[], options: ProviderCompletionOptions): AsyncGenerator<string, void, unknown>;
+  // One vector per input, in order
+  embed(texts: string[]): Promise<number[][]>;
+  // MP3 audio
+  speech(text: string, options: SpeechOptions): Promise<Buffer>;
+}
+
+export class LlmProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 503) {
+    super(message);
+    this.name = 'LlmProviderError';
+    this.status = status;
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * LLM Provider Registry
+ *
+ * Picks the provider for a request. An organization can have its own in
+ * `Organization.settings.llm` (e.g. an Azure resource in its region or a
+ * model server on its premises); everyone else uses the deployment default
+ * from the environment (LLM_PROVIDER, LLM_BASE_URL, ...).
+ *
+ * An organization's provider is never swapped for the default when it is
+ * misconfigured: requests fail instead, so its data does not leave the
+ * service it chose. Organization providers are cached for a minute, so
+ * settings changed on another replica apply shortly after.
+ */
+
+import { z } from 'zod';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { LLM_PROVIDER_KINDS, LlmProvider, LlmProviderConfig, LlmProviderError, LlmProviderKind } from './provider';
+import { createOpenAIProvider } from './openai';
+import { getFakeProvider } from './fake';
+
+const logger = createLogger('llm');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_CACHED_MEETINGS = 1000;
+
+// Keys an organization may point at; the platform's own keys stay out of reach,
+// and each organization only reaches its own (see organizationKeyEnv)
+const ORGANIZATION_KEY_PATTERN = /^LLM_API_KEY_[A-Z0-9_]+$/;
+
+function defaultModels() {
+  return {
+    model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
+    embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+    speechModel: process.env.OPENAI_TTS_MODEL || 'tts-1',
+  };
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ProviderScope {
+  organizationId?: string | null;
+  meetingId?: string | null;      // Resolved to its organization
+}
+
+export const llmProviderConfigSchema = z.object({
+  // The fake provider is for the deployment default only
+  provider: z.enum(['openai', 'azure', 'openai-compatible']),
+  baseUrl: z.string().url().optional(),
+  apiKeyEnv: z.string()
+    .regex(ORGANIZATION_KEY_PATTERN, 'Must name an environment variable starting with LLM_API_KEY_')
+    .optional(),
+  apiVersion: z.string().max(40).optional(),
+  model: z.string().max(200).optional(),
+  embeddingModel: z.string().max(200).optional(),
+  speechModel: z.string().max(200).optional(),
+});
+
+interface CachedProvider {
+  provider: LlmProvider | LlmProviderError | null;   // null: the organization uses the default
+  expiresAt: number;
+}
+
+const organizationProviders = new Map<string, CachedProvider>();
+const meetingOrganizations = new Map<string, string>();
+// The environment only changes on restart, so the default is built once
+let defaultProvider: LlmProvider | LlmProviderError | null = null;
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+/**
+ * The deployment default, from the environment
+ */
+export function defaultProviderConfig(): LlmProviderConfig {
+  const provider = (process.env.LLM_PROVIDER || 'openai') as LlmProviderKind;
+  return {
+    provider,
+    baseUrl: process.env.LLM_BASE_URL || undefined,
+    apiKeyEnv: process.env.LLM_API_KEY ? 'LLM_API_KEY' : 'OPENAI_API_KEY',
+    apiVersion: process.env.LLM_API_VERSION || undefined,
+  };
+}
+
+/**
+ * Build a provider; apiKeyEnv names the variable holding its key
+ */
+export function createProvider(config: LlmProviderConfig): LlmProvider {
+  if (config.provider === 'fake') {
+    return getFakeProvider();
+  }
+  if (!LLM_PROVIDER_KINDS.includes(config.provider)) {
+    throw new LlmProviderError(`Unknown LLM provider: ${config.provider}`);
+  }
+  const apiKey = config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined;
+  return createOpenAIProvider(config, apiKey, defaultModels());
+}
+
+function build(config: LlmProviderConfig): LlmProvider | LlmProviderError {
+  try {
+    return createProvider(config);
+  } catch (error) {
+    return error instanceof LlmProviderError ? error : new LlmProviderError(String(error));
+  }
+}
+
+function getDefaultProvider(): LlmProvider | LlmProviderError {
+  if (!defaultProvider) {
+    defaultProvider = build(defaultProviderConfig());
+  }
+  return defaultProvider;
+}
+
+/**
+ * The environment variable holding an organization's own key: LLM_API_KEY_
+ * followed by its slug in upper case (LLM_API_KEY_AD_DEPT_HEALTH)
+ */
+export function organizationKeyEnv(slug: string): string {
+  return `LLM_API_KEY_${slug.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * An organization's provider settings, or null when it uses the default.
+ * Only the organization's own key may be named, and a custom baseUrl needs
+ * it, so no other key is ever sent to a host an admin chose.
+ */
+export function organizationProviderConfig(settings: unknown, slug: string): LlmProviderConfig | null {
+  const llm = settings && typeof settings === 'object' ? (settings as Record<string, unknown>).llm : undefined;
+  if (llm === undefined || llm === null) {
+    return null;
+  }
+
+  const parsed = llmProviderConfigSchema.safeParse(llm);
+  if (!parsed.success) {
+    throw new LlmProviderError(`Invalid LLM provider settings: ${parsed.error.errors.map((e) => e.message).join('; ')}`);
+  }
+
+  const config = parsed.data;
+  const ownKeyEnv = organizationKeyEnv(slug);
+  if (config.apiKeyEnv && config.apiKeyEnv !== ownKeyEnv) {
+    throw new LlmProviderError(`Invalid LLM provider settings: apiKeyEnv must be the organization's own key, ${ownKeyEnv}`);
+  }
+  if (config.baseUrl && !config.apiKeyEnv) {
+    throw new LlmProviderError(`Invalid LLM provider settings: a custom baseUrl needs the organization's own key, ${ownKeyEnv}`);
+  }
+
+  // The platform's OpenAI key only serves api.openai.com
+  if (config.provider === 'openai' && !config.apiKeyEnv) {
+    return { ...config, apiKeyEnv: defaultProviderConfig().apiKeyEnv };
+  }
+  return config;
+}
+
+async function organizationOfMeeting(meetingId: string): Promise<string | null> {
+  const cached = meetingOrganizations.get(meetingId);
+  if (cached) {
+    return cached;
+  }
+
+  const meeting = await prisma.meeting.findUnique({ where: { id: meetingId }, select: { organizationId: true } });
+  if (!meeting) {
+    return null;
+  }
+  if (meetingOrganizations.size >= MAX_CACHED_MEETINGS) {
+    meetingOrganizations.clear();
+  }
+  meetingOrganizations.set(meetingId, meeting.organizationId);
+  return meeting.organizationId;
+}
+
+async function loadOrganizationProvider(organizationId: string): Promise<LlmProvider | LlmProviderError | null> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { slug: true, settings: true },
+  });
+  if (!organization) {
+    return null;
+  }
+
+  try {
+    const config = organizationProviderConfig(organization.settings, organization.slug);
+    return config ? build(config) : null;
+  } catch (error) {
+    logger.warn({ err: error, organizationId }, 'Organization LLM provider misconfigured');
+    return error as LlmProviderError;
+  }
+}
+
+/**
+ * The organization's own provider, or null when it uses the default
+ */
+async function organizationProvider(scope: ProviderScope): Promise<LlmProvider | LlmProviderError | null> {
+  const organizationId = scope.organizationId
+    ?? (scope.meetingId ? await organizationOfMeeting(scope.meetingId) : null);
+  if (!organizationId) {
+    return null;
+  }
+
+  const cached = organizationProviders.get(organizationId);
+  if (cached && cached.expiresAt >= Date.now()) {
+    return cached.provider;
+  }
+
+  const provider = await loadOrganizationProvider(organizationId);
+  organizationProviders.set(organizationId, { provider, expiresAt: Date.now() + CACHE_TTL_MS });
+  return provider;
+}
+
+/**
+ * The provider for an organization (or a meeting's organization), falling
+ * back to the deployment default when it has none
+ */
+export async function getLlmProvider(scope: ProviderScope = {}): Promise<LlmProvider> {
+  const provider = (await organizationProvider(scope)) ?? getDefaultProvider();
+  if (provider instanceof LlmProviderError) {
+    throw provider;
+  }
+  return provider;
+}
+
+/**
+ * Whether the organization set up its own provider (even a misconfigured one)
+ */
+export async function hasOwnLlmProvider(scope: ProviderScope): Promise<boolean> {
+  return (await organizationProvider(scope)) !== null;
+}
+
+/**
+ * Whether requests for an organization (or a meeting's organization) have a
+ * usable provider: its own, or the default when it has none
+ */
+export async function isLlmProviderConfigured(scope: ProviderScope = {}): Promise<boolean> {
+  const provider = (await organizationProvider(scope)) ?? getDefaultProvider();
+  return !(provider instanceof LlmProviderError);
+}
+
+/**
+ * Whether the deployment default provider can be used
+ */
+export function isDefaultProviderConfigured(): boolean {
+  return !(getDefaultProvider() instanceof LlmProviderError);
+}
+
+/**
+ * Forget cached providers (after an organization's settings change, or all of them)
+ */
+export function invalidateLlmProviders(organizationId?: string): void {
+  if (organizationId) {
+    organizationProviders.delete(organizationId);
+  } else {
+    organizationProviders.clear();
+    defaultProvider = null;
+  }
+}
+
+// Export service
+export const llmRegistry = {
+  getLlmProvider,
+  hasOwnLlmProvider,
+  isLlmProviderConfigured,
+  createProvider,
+  defaultProviderConfig,
+  organizationKeyEnv,
+  organizationProviderConfig,
+  isDefaultProviderConfigured,
+  invalidateLlmProviders,
+};
+
+export default llmRegistry;
@@ -0,0 +1,261 @@
+/**
+ * Notification Delivery
+ *
+ * notify() renders a notification for each recipient and records it in the
+ * delivery log (NotificationDelivery); the email itself is sent by the
+ * notification.send job, so a slow or unavailable SMTP server never holds up
+ * a request and failed sends are retried with the queue's backoff.
+ *
+ * Recipients who turned the type off get a SKIPPED entry instead of an email.
+ */
+
+import { NotificationDelivery, NotificationType, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { enqueueJob } from '../jobs/queue';
+import { PdfEncodingError, REPORT_FORMATS, ReportFormat, renderMinutes } from '../reports';
+import { MailAttachment, SmtpError, sendMail, smtpConfigFromEnv } from './smtp';
+import { NotificationContext, renderNotification } from './templates';
+import { formatNotificationType } from './preferences';
+
+const logger = createLogger('notifications');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_ERROR_LENGTH = 1000;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface NotificationRecipient {
+  email: string | null | undefined;
+  name?: string | null;
+}
+
+export interface NotifyInput {
+  organizationId: string;
+  meetingId?: string | null;
+  context: NotificationContext;
+  recipients: NotificationRecipient[];
+}
+
+export interface DeliveryLogFilters {
+  type?: NotificationType;
+  status?: NotificationDelivery['status'];
+  meetingId?: string;
+  recipient?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SendDeliveryResult {
+  deliveryId: string;
+  status: NotificationDelivery['status'];
+  messageId?: string | null;
+}
+
+// Send-time input kept with the delivery
+interface DeliveryData {
+  report?: { meetingId: string; format: ReportFormat };
+}
+
+// ============================================
+// NOTIFY
+// ============================================
+
+/**
+ * Queue a notification email to each recipient with an address
+ * (one per address; recipients without one are ignored)
+ */
+export async function notify(input: NotifyInput): Promise<NotificationDelivery[]> {
+  const recipients = new Map<string, NotificationRecipient & { email: string }>();
+  for (const recipient of input.recipients) {
+    const email = recipient.email?.trim();
+    if (email && !recipients.has(email.toLowerCase())) {
+      recipients.set(email.toLowerCase(), { ...recipient, email });
+    }
+  }
+  if (recipients.size === 0) {
+    return [];
+  }
+
+  const { type } = input.context;
+  const users = await prisma.user.findMany({
+    where: { email: { in: [...recipients.values()].map((r) => r.email), mode: 'insensitive' } },
+    select: { id: true, email: true, notificationPreferences: { where: { type }, select: { email: true } } },
+  });
+  const usersByEmail = new Map(users.map((user) => [user.email.toLowerCase(), user]));
+
+  const data: DeliveryData | undefined = input.context.type === 'MINUTES_REPORT' && input.meetingId
+    ? { report: { meetingId: input.meetingId, format: input.context.format } }
+    : undefined;
+
+  const deliveries: NotificationDelivery[] = [];
+  for (const [key, recipient] of recipients) {
+    const user = usersByEmail.get(key);
+    const enabled = user?.notificationPreferences[0]?.email ?? true;
+    const content = renderNotification(input.context, recipient.name);
+
+    const delivery = await prisma.notificationDelivery.create({
+      data: {
+        organizationId: input.organizationId,
+        meetingId: input.meetingId ?? null,
+        type,
+        recipient: recipient.email,
+        recipientName: recipient.name ?? null,
+        userId: user?.id ?? null,
+        ...content,
+        data: data ? (data as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        status: enabled ? 'QUEUED' : 'SKIPPED',
+        error: enabled ? null : 'Turned off by the recipient',
+      },
+    });
+    deliveries.push(delivery);
+
+    if (enabled) {
+      await enqueueJob({
+        type: 'notification.send',
+        payload: { deliveryId: delivery.id },
+        organizationId: input.organizationId,
+        meetingId: input.meetingId ?? null,
+        idempotencyKey: `notification.send:${delivery.id}`,
+      });
+    }
+  }
+
+  logger.info({
+    type,
+    meetingId: input.meetingId,
+    queued: deliveries.filter((d) => d.status === 'QUEUED').length,
+    skipped: deliveries.filter((d) => d.status === 'SKIPPED').length,
+  }, 'Notification queued');
+
+  return deliveries;
+}
+
+// ============================================
+// SENDING
+// ============================================
+
+async function attachmentsFor(data: DeliveryData | null): Promise<MailAttachment[]> {
+  if (!data?.report || !REPORT_FORMATS.includes(data.report.format)) {
+    return [];
+  }
+  // Rendered at send time so the attachment matches the latest minutes
+  const report = await renderMinutes(data.report.meetingId, data.report.format);
+  return [{ filename: report.filename, contentType: report.contentType, content: report.buffer }];
+}
+
+/**
+ * Send a queued delivery (run by the notification.send job). Transient SMTP
+ * errors are thrown so the job retries; permanent ones, and the last attempt,
+ * mark the delivery FAILED.
+ */
+export async function sendDelivery(deliveryId: string, isLastAttempt = true): Promise<SendDeliveryResult> {
+  const delivery = await prisma.notificationDelivery.findUniqueOrThrow({ where: { id: deliveryId } });
+  if (delivery.status !== 'QUEUED') {
+    return { deliveryId, status: delivery.status, messageId: delivery.messageId };
+  }
+
+  const config = smtpConfigFromEnv();
+  if (!config) {
+    logger.warn({ deliveryId, type: delivery.type }, 'SMTP_HOST not configured, notification not sent');
+    await prisma.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'SKIPPED', error: 'No SMTP server configured' },
+    });
+    return { deliveryId, status: 'SKIPPED' };
+  }
+
+  try {
+    const result = await sendMail({
+      to: { email: delivery.recipient, name: delivery.recipientName },
+      subject: delivery.subject,
+      text: delivery.text,
+      html: delivery.html,
+      attachments: await attachmentsFor(delivery.data as DeliveryData | null),
+    }, config);
+
+    await prisma.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'SENT', messageId: result.messageId, error: null, sentAt: new Date() },
+    });
+    logger.info({ deliveryId, type: delivery.type, messageId: result.messageId }, 'Notification sent');
+    return { deliveryId, status: 'SENT', messageId: result.messageId };
+  } catch (error) {
+    // Minutes the PDF cannot show will not render on a retry either
+    const permanent = (error instanceof SmtpError && error.permanent) || error instanceof PdfEncodingError;
+    await prisma.notificationDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        error: String((error as Error).message).slice(0, MAX_ERROR_LENGTH),
+        ...((permanent || isLastAttempt) && { status: 'FAILED' }),
+      },
+    });
+
+    if (permanent) {
+      logger.warn({ deliveryId, err: error }, 'Notification rejected by the SMTP server');
+      return { deliveryId, status: 'FAILED' };
+    }
+    throw error;
+  }
+}
+
+// ============================================
+// DELIVERY LOG
+// ============================================
+
+function formatDelivery(delivery: NotificationDelivery) {
+  return {
+    id: delivery.id,
+    type: formatNotificationType(delivery.type),
+    meetingId: delivery.meetingId,
+    recipient: delivery.recipient,
+    recipientName: delivery.recipientName,
+    userId: delivery.userId,
+    subject: delivery.subject,
+    status: delivery.status.toLowerCase(),
+    error: delivery.error,
+    messageId: delivery.messageId,
+    sentAt: delivery.sentAt,
+    createdAt: delivery.createdAt,
+  };
+}
+
+/**
+ * An organization's notification emails, newest first
+ */
+export async function listDeliveries(organizationId: string, filters: DeliveryLogFilters = {}) {
+  const where: Prisma.NotificationDeliveryWhereInput = {
+    organizationId,
+    ...(filters.type && { type: filters.type }),
+    ...(filters.status && { status: filters.status }),
+    ...(filters.meetingId && { meetingId: filters.meetingId }),
+    ...(filters.recipient && { recipient: { contains: filters.recipient, mode: 'insensitive' } }),
+  };
+
+  const [total, deliveries] = await Promise.all([
+    prisma.notificationDelivery.count({ where }),
+    prisma.notificationDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? DEFAULT_PAGE_SIZE,
+      skip: filters.offset ?? 0,
+    }),
+  ]);
+
+  return { total, deliveries: deliveries.map(formatDelivery) };
+}
+
+// Export service
+export const notificationDelivery = {
+  notify,
+  sendDelivery,
+  listDeliveries,
+};
+
+export default notificationDelivery;
@@ -0,0 +1,15 @@
+/**
+ * Notification Services - Central Export
+ */
+
+export * from './smtp';
+export * from './templates';
+export * from './preferences';
+export * from './delivery';
+export * from './triggers';
+
+export { default as smtp } from './smtp';
+export { default as templates } from './templates';
+export { default as notificationPreferences } from './preferences';
+export { default as notificationDelivery } from './delivery';
+export { default as notificationTriggers } from './triggers';
@@ -0,0 +1,79 @@
+/**
+ * Notification Preferences
+ *
+ * Which notification emails each user receives. Every type is on until the
+ * user turns it off; only the types a user has changed are stored.
+ */
+
+import { NotificationType } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { NOTIFICATION_LABELS } from './templates';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_LABELS) as NotificationType[];
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface NotificationPreferenceView {
+  type: string;             // API form, e.g. action-assigned
+  label: string;
+  email: boolean;
+}
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+export function formatNotificationType(type: NotificationType): string {
+  return type.toLowerCase().replace(/_/g, '-');
+}
+
+export function parseNotificationType(value: string): NotificationType | null {
+  const type = value.toUpperCase().replace(/-/g, '_') as NotificationType;
+  return NOTIFICATION_TYPES.includes(type) ? type : null;
+}
+
+/**
+ * Every notification type with the user's choice
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferenceView[]> {
+  const stored = await prisma.notificationPreference.findMany({ where: { userId } });
+  const byType = new Map(stored.map((preference) => [preference.type, preference.email]));
+
+  return NOTIFICATION_TYPES.map((type) => ({
+    type: formatNotificationType(type),
+    label: NOTIFICATION_LABELS[type],
+    email: byType.get(type) ?? true,
+  }));
+}
+
+/**
+ * Turn email on or off for some notification types
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  changes: Array<{ type: NotificationType; email: boolean }>
+): Promise<NotificationPreferenceView[]> {
+  await prisma.$transaction(changes.map(({ type, email }) =>
+    prisma.notificationPreference.upsert({
+      where: { userId_type: { userId, type } },
+      create: { userId, type, email },
+      update: { email },
+    })
+  ));
+
+  return getNotificationPreferences(userId);
+}
+
+// Export service
+export const notificationPreferences = {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+};
+
+export default notificationPreferences;
@@ -0,0 +1,456 @@
+/**
+ * SMTP Transport
+ *
+ * Minimal SMTP client for outbound notification email:
+ * - plain connection upgraded with STARTTLS when the server offers it, or
+ *   implicit TLS (SMTP_SECURE, usually port 465)
+ * - AUTH PLAIN or LOGIN when SMTP_USER is set, only over TLS unless
+ *   SMTP_ALLOW_INSECURE_AUTH opts in (a relay on a trusted network)
+ * - one multipart MIME message per recipient: text and HTML alternatives,
+ *   plus attachments
+ *
+ * For local development point SMTP_HOST at a mail catcher such as Mailpit
+ * (see docker-compose.yml): it accepts everything and shows the messages in
+ * a browser instead of delivering them.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { randomUUID } from 'crypto';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEFAULT_FROM = 'Board Observer <no-reply@localhost>';
+const DEFAULT_TIMEOUT_MS = 30000;
+// Base64 bodies are wrapped well below the 998 character line limit
+const BASE64_LINE_LENGTH = 76;
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;           // Implicit TLS from the first byte
+  user?: string;
+  password?: string;
+  from: string;              // "Name <address>" or a bare address
+  timeoutMs: number;
+  rejectUnauthorized: boolean;
+  allowInsecureAuth: boolean;  // Send credentials over a connection without TLS
+}
+
+export interface MailAddress {
+  email: string;
+  name?: string | null;
+}
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  to: MailAddress;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: MailAttachment[];
+}
+
+export interface SendResult {
+  messageId: string;
+  response: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  code: number | null;
+
+  constructor(message: string, code: number | null = null) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = code;
+  }
+
+  // 5xx replies will not succeed on a retry
+  get permanent(): boolean {
+    return this.code !== null && this.code >= 500;
+  }
+}
+
+/**
+ * SMTP settings from the environment, or null when no server is configured
+ */
+export function smtpConfigFromEnv(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? '465' : '587')),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from: process.env.SMTP_FROM || DEFAULT_FROM,
+    timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || String(DEFAULT_TIMEOUT_MS)),
+    rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+  };
+}
+
+// ============================================
+// MIME
+// ============================================
+
+// Header values must not break out of their line
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+// RFC 2047 encoded word for non-ASCII header text
+function encodeWord(value: string): string {
+  const clean = headerValue(value);
+  // eslint-disable-next-line no-control-regex
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf8').toString('base64')}?=`;
+}
+
+export function formatAddress(address: MailAddress): string {
+  const email = headerValue(address.email);
+  if (!address.name) {
+    return `<${email}>`;
+  }
+  const name = encodeWord(address.name);
+  return name.startsWith('=?') ? `${name} <${email}>` : `"${name.replace(/(["\\])/g, '\\$1')}" <${email}>`;
+}
+
+/**
+ * Bare address of "Name <address>" (the envelope sender)
+ */
+export function parseAddress(value: string): MailAddress {
+  const match = value.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  if (!match) {
+    return { email: value.trim() };
+  }
+  return { email: match[2].trim(), name: match[1].replace(/^"|"$/g, '') || null };
+}
+
+function base64Body(content: Buffer): string {
+  const encoded = content.toString('base64');
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += BASE64_LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + BASE64_LINE_LENGTH));
+  }
+  return lines.join('\r\n');
+}
+
+function boundary(): string {
+  return `----=_Part_${randomUUID().replace(/-/g, '')}`;
+}
+
+function part(headers: string[], body: string): string {
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+function multipart(subtype: string, parts: string[]): { contentType: string; body: string } {
+  const marker = boundary();
+  return {
+    contentType: `multipart/${subtype}; boundary="${marker}"`,
+    body: `${parts.map((p) => `--${marker}\r\n${p}`).join('\r\n')}\r\n--${marker}--`,
+  };
+}
+
+/**
+ * The message as it goes after DATA (before dot-stuffing)
+ */
+export function buildMimeMessage(message: MailMessage, from: string, messageId: string, date = new Date()): string {
+  const alternative = multipart('alternative', [
+    part(['Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64'], base64Body(Buffer.from(message.text, 'utf8'))),
+    part(['Content-Type: text/html; charset=utf-8', 'Content-Transfer-Encoding: base64'], base64Body(Buffer.from(message.html, 'utf8'))),
+  ]);
+
+  const attachments = message.attachments ?? [];
+  const content = attachments.length === 0
+    ? alternative
+    : multipart('mixed', [
+      part([`Content-Type: ${alternative.contentType}`], alternative.body),
+      ...attachments.map((attachment) => {
+        const filename = headerValue(attachment.filename).replace(/"/g, '');
+        return part([
+          `Content-Type: ${attachment.contentType}; name="${filename}"`,
+          'Content-Transfer-Encoding: base64',
+          `Content-Disposition: attachment; filename="${filename}"`,
+        ], base64Body(attachment.content));
+      }),
+    ]);
+
+  const sender = parseAddress(from);
+  const headers = [
+    `From: ${formatAddress(sender)}`,
+    `To: ${formatAddress(message.to)}`,
+    `Subject: ${encodeWord(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: ${content.contentType}`,
+  ];
+
+  return `${headers.join('\r\n')}\r\n\r\n${content.body}`;
+}
+
+// Lines starting with a dot would end DATA early (RFC 5321 4.5.2)
+export function dotStuff(data: string): string {
+  return data.replace(/\r\n\./g, '\r\n..').replace(/^\./, '..');
+}
+
+// ============================================
+// CONNECTION
+// ============================================
+
+/**
+ * One SMTP session: commands written in turn, replies read as they complete
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpResponse[] = [];
+  private waiting: { resolve: (reply: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket, private config: SmtpConfig) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  static open(config: SmtpConfig): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host, rejectUnauthorized: config.rejectUnauthorized })
+        : net.connect({ host: config.host, port: config.port });
+      const ready = config.secure ? 'secureConnect' : 'connect';
+
+      const onError = (error: Error) => reject(new SmtpError(`Could not connect to ${config.host}:${config.port}: ${error.message}`));
+      socket.once('error', onError);
+      socket.once(ready, () => {
+        socket.off('error', onError);
+        resolve(new SmtpConnection(socket, config));
+      });
+      socket.setTimeout(config.timeoutMs, () => socket.destroy(new SmtpError('SMTP connection timed out')));
+    });
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', this.onData);
+    socket.on('error', this.onClose);
+    socket.on('close', this.onClose);
+    socket.setTimeout(this.config.timeoutMs, () => socket.destroy(new SmtpError('SMTP connection timed out')));
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.off('data', this.onData);
+    socket.off('error', this.onClose);
+    socket.off('close', this.onClose);
+    socket.setTimeout(0);
+  }
+
+  private onData = (chunk: string): void => {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line.slice(4));
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  };
+
+  private onClose = (error?: Error | boolean): void => {
+    this.failure = error instanceof Error ? error : new SmtpError('SMTP connection closed');
+    if (this.waiting) {
+      this.waiting.reject(this.failure);
+      this.waiting = null;
+    }
+  };
+
+  read(): Promise<SmtpResponse> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * Send a command (or DATA payload) and read the reply, which must have one of the expected codes
+   */
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected, label);
+  }
+
+  async expect(expected: number[], label: string): Promise<SmtpResponse> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`${label} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * Switch the session to TLS after STARTTLS
+   */
+  upgrade(): Promise<void> {
+    const plain = this.socket;
+    this.detach(plain);
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({
+        socket: plain,
+        servername: this.config.host,
+        rejectUnauthorized: this.config.rejectUnauthorized,
+      });
+      const onError = (error: Error) => reject(new SmtpError(`STARTTLS failed: ${error.message}`));
+      secure.once('error', onError);
+      secure.once('secureConnect', () => {
+        secure.off('error', onError);
+        this.socket = secure;
+        this.attach(secure);
+        resolve();
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.command('QUIT', [221]);
+    } catch {
+      // The message was already accepted
+    }
+    this.socket.destroy();
+  }
+
+  destroy(): void {
+    this.socket.destroy();
+  }
+}
+
+// ============================================
+// SENDING
+// ============================================
+
+function capabilities(reply: SmtpResponse): string[] {
+  return reply.lines.slice(1).map((line) => line.toUpperCase());
+}
+
+async function greet(connection: SmtpConnection): Promise<string[]> {
+  const name = os.hostname() || 'localhost';
+  try {
+    return capabilities(await connection.command(`EHLO ${name}`, [250]));
+  } catch (error) {
+    if (error instanceof SmtpError && error.code !== null) {
+      await connection.command(`HELO ${name}`, [250]);
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function authenticate(connection: SmtpConnection, config: SmtpConfig, extensions: string[]): Promise<void> {
+  const auth = extensions.find((line) => line.startsWith('AUTH')) ?? '';
+  const user = config.user!;
+  const password = config.password ?? '';
+
+  if (auth.includes('LOGIN') && !auth.includes('PLAIN')) {
+    await connection.command('AUTH LOGIN', [334]);
+    await connection.command(Buffer.from(user).toString('base64'), [334], 'AUTH LOGIN');
+    await connection.command(Buffer.from(password).toString('base64'), [235], 'AUTH LOGIN');
+    return;
+  }
+
+  const token = Buffer.from(`\0${user}\0${password}`).toString('base64');
+  await connection.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+}
+
+/**
+ * Send one message over a new SMTP session
+ */
+export async function sendMail(message: MailMessage, config: SmtpConfig): Promise<SendResult> {
+  const sender = parseAddress(config.from);
+  const domain = sender.email.split('@')[1] || 'localhost';
+  const messageId = `<${randomUUID()}@${domain}>`;
+
+  const connection = await SmtpConnection.open(config);
+  try {
+    await connection.expect([220], 'Greeting');
+    let extensions = await greet(connection);
+    let encrypted = config.secure;
+
+    if (!config.secure && extensions.includes('STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade();
+      extensions = await greet(connection);
+      encrypted = true;
+    }
+
+    if (config.user) {
+      if (!encrypted && !config.allowInsecureAuth) {
+        throw new SmtpError(
+          'SMTP server does not offer STARTTLS; refusing to send the password unencrypted (set SMTP_ALLOW_INSECURE_AUTH=true to allow it)'
+        );
+      }
+      await authenticate(connection, config, extensions);
+    }
+
+    await connection.command(`MAIL FROM:<${sender.email}>`, [250], 'MAIL FROM');
+    await connection.command(`RCPT TO:<${headerValue(message.to.email)}>`, [250, 251], 'RCPT TO');
+    await connection.command('DATA', [354]);
+
+    const data = dotStuff(buildMimeMessage(message, config.from, messageId));
+    const accepted = await connection.command(`${data}\r\n.`, [250], 'Message');
+
+    await connection.close();
+    return { messageId, response: accepted.lines.join(' ') };
+  } catch (error) {
+    connection.destroy();
+    throw error;
+  }
+}
+
+// Export service
+export const smtp = {
+  smtpConfigFromEnv,
+  buildMimeMessage,
+  sendMail,
+};
+
+export default smtp;
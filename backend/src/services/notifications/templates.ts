@@ -0,0 +1,224 @@
+/**
+ * Notification Templates
+ *
+ * Subject, plain text and HTML of each notification email. Every template
+ * fills the same simple layout (greeting, paragraphs, a table of details and
+ * a link into the app), so the text and HTML versions always say the same.
+ */
+
+import { NotificationType } from '@prisma/client';
+import { escapeHtml } from '../reports/html';
+import { formatDate, formatTime } from '../reports/layout';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const APP_NAME = 'Board Observer';
+
+function appUrl(path: string): string {
+  return new URL(path, process.env.FRONTEND_URL || 'http://localhost:3000').toString();
+}
+
+// ============================================
+// TYPES
+// ============================================
+
+interface OrganizationContext {
+  name: string;
+  timezone: string;
+}
+
+interface MeetingContext {
+  id: string;
+  title: string;
+  scheduledStart: Date;
+  scheduledEnd?: Date;
+  location?: string | null;
+  meetingUrl?: string | null;
+}
+
+interface ActionContext {
+  description: string;
+  dueDate: Date | null;
+  priority: string;
+}
+
+/**
+ * What a notification is about (rendered when it is queued)
+ */
+export type NotificationContext =
+  | { type: 'MEETING_INVITE'; organization: OrganizationContext; meeting: MeetingContext; message?: string | null }
+  | { type: 'MINUTES_CIRCULATED'; organization: OrganizationContext; meeting: MeetingContext; version: number; message?: string | null }
+  | { type: 'MINUTES_REPORT'; organization: OrganizationContext; meeting: MeetingContext; format: 'pdf' | 'docx' | 'html'; message?: string | null }
+  | { type: 'ACTION_ASSIGNED'; organization: OrganizationContext; meeting: MeetingContext; action: ActionContext }
+  | { type: 'ACTION_OVERDUE'; organization: OrganizationContext; meeting: MeetingContext; action: ActionContext }
+  | { type: 'DECISION_RECORDED'; organization: OrganizationContext; meeting: MeetingContext; decision: { description: string; rationale?: string | null } };
+
+export interface NotificationContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailLayout {
+  subject: string;
+  paragraphs: string[];
+  details: Array<[string, string]>;
+  link: { label: string; url: string };
+}
+
+// Shown on the preferences page
+export const NOTIFICATION_LABELS: Record<NotificationType, string> = {
+  MEETING_INVITE: 'Meeting invitations',
+  MINUTES_CIRCULATED: 'Minutes circulated for approval',
+  MINUTES_REPORT: 'Minutes sent as a report',
+  ACTION_ASSIGNED: 'Action items assigned to me',
+  ACTION_OVERDUE: 'My overdue action items',
+  DECISION_RECORDED: 'Decisions recorded in my meetings',
+};
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+function when(meeting: MeetingContext, timezone: string): string {
+  const start = `${formatDate(meeting.scheduledStart, timezone)} at ${formatTime(meeting.scheduledStart, timezone)}`;
+  return meeting.scheduledEnd ? `${start}–${formatTime(meeting.scheduledEnd, timezone)}` : start;
+}
+
+function actionDetails(context: { organization: OrganizationContext; meeting: MeetingContext; action: ActionContext }): Array<[string, string]> {
+  return [
+    ['Action', context.action.description],
+    ['Due', context.action.dueDate ? formatDate(context.action.dueDate, context.organization.timezone) : 'No due date'],
+    ['Priority', context.action.priority.toLowerCase()],
+    ['Meeting', context.meeting.title],
+  ];
+}
+
+function layout(context: NotificationContext): EmailLayout {
+  const { organization, meeting } = context;
+
+  switch (context.type) {
+    case 'MEETING_INVITE':
+      return {
+        subject: `Invitation: ${meeting.title}`,
+        paragraphs: [
+          `You are invited to ${meeting.title} of ${organization.name}.`,
+          ...(context.message ? [context.message] : []),
+          'The board pack is ready for you to review before the meeting.',
+        ],
+        details: [
+          ['When', when(meeting, organization.timezone)],
+          ...(meeting.location ? [['Where', meeting.location] as [string, string]] : []),
+          ...(meeting.meetingUrl ? [['Join online', meeting.meetingUrl] as [string, string]] : []),
+        ],
+        link: { label: 'Open the board pack', url: appUrl(`/${meeting.id}/prepare`) },
+      };
+    case 'MINUTES_CIRCULATED':
+      return {
+        subject: `Minutes for approval: ${meeting.title}`,
+        paragraphs: [
+          `Version ${context.version} of the minutes of ${meeting.title} has been circulated for approval.`,
+          ...(context.message ? [context.message] : []),
+          'Please review them and leave your comments or sign-off in Board Observer.',
+        ],
+        details: [['Meeting', `${meeting.title}, ${formatDate(meeting.scheduledStart, organization.timezone)}`]],
+        link: { label: 'Review the minutes', url: appUrl(`/${meeting.id}/summary`) },
+      };
+    case 'MINUTES_REPORT':
+      return {
+        subject: `Minutes: ${meeting.title}`,
+        paragraphs: [
+          `The minutes of ${meeting.title} are attached (${context.format.toUpperCase()}).`,
+          ...(context.message ? [context.message] : []),
+        ],
+        details: [['Meeting', `${meeting.title}, ${formatDate(meeting.scheduledStart, organization.timezone)}`]],
+        link: { label: 'View the meeting summary', url: appUrl(`/${meeting.id}/summary`) },
+      };
+    case 'ACTION_ASSIGNED':
+      return {
+        subject: `Action assigned: ${context.action.description}`,
+        paragraphs: [`An action from ${meeting.title} has been assigned to you.`],
+        details: actionDetails(context),
+        link: { label: 'View the meeting', url: appUrl(`/${meeting.id}/summary`) },
+      };
+    case 'ACTION_OVERDUE':
+      return {
+        subject: `Overdue action: ${context.action.description}`,
+        paragraphs: [
+          `An action assigned to you at ${meeting.title} is past its due date.`,
+          'Please complete it or agree a new due date with the secretary.',
+        ],
+        details: actionDetails(context),
+        link: { label: 'View the meeting', url: appUrl(`/${meeting.id}/summary`) },
+      };
+    case 'DECISION_RECORDED':
+      return {
+        subject: `Decision recorded: ${meeting.title}`,
+        paragraphs: [`A decision was recorded at ${meeting.title}.`],
+        details: [
+          ['Decision', context.decision.description],
+          ...(context.decision.rationale ? [['Rationale', context.decision.rationale] as [string, string]] : []),
+        ],
+        link: { label: 'View the meeting', url: appUrl(`/${meeting.id}/summary`) },
+      };
+  }
+}
+
+function renderText(email: EmailLayout, greeting: string, footer: string): string {
+  const width = Math.max(...email.details.map(([label]) => label.length));
+  return [
+    greeting,
+    '',
+    ...email.paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...(email.details.length > 0
+      ? [...email.details.map(([label, value]) => `${`${label}:`.padEnd(width + 2)}${value}`), '']
+      : []),
+    `${email.link.label}: ${email.link.url}`,
+    '',
+    '--',
+    footer,
+  ].join('\n');
+}
+
+function renderHtml(email: EmailLayout, greeting: string, footer: string): string {
+  const details = email.details.map(([label, value]) =>
+    `<tr><td style="padding:4px 16px 4px 0;color:#6b7280;vertical-align:top">${escapeHtml(label)}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(email.subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,'Segoe UI',Helvetica,Arial,sans-serif;color:#111827">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+<p>${escapeHtml(greeting)}</p>
+${email.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n')}
+${details ? `<table style="border-collapse:collapse;margin:16px 0;font-size:14px">${details}</table>` : ''}
+<p><a href="${escapeHtml(email.link.url)}" style="display:inline-block;background:#1f2937;color:#ffffff;text-decoration:none;padding:10px 16px;border-radius:6px">${escapeHtml(email.link.label)}</a></p>
+<p style="margin-top:32px;font-size:12px;color:#6b7280">${escapeHtml(footer)}</p>
+</div>
+</body></html>`;
+}
+
+/**
+ * Subject, text and HTML of a notification to one recipient
+ */
+export function renderNotification(context: NotificationContext, recipientName?: string | null): NotificationContent {
+  const email = layout(context);
+  const greeting = recipientName ? `Dear ${recipientName},` : 'Hello,';
+  const footer = `Sent by ${APP_NAME} for ${context.organization.name}. ` +
+    'You can turn off each kind of email in your notification preferences.';
+
+  return {
+    subject: email.subject,
+    text: renderText(email, greeting, footer),
+    html: renderHtml(email, greeting, footer),
+  };
+}
+
+// Export service
+export const templates = {
+  renderNotification,
+};
+
+export default templates;
@@ -0,0 +1,170 @@
+/**
+ * Notification Triggers
+ *
+ * The events that email people, each loading what its template needs:
+ * - meeting invitation with the board pack link (sent on request)
+ * - minutes circulated for approval, and minutes emailed as a report
+ * - action item assigned, and action item overdue (to the assignee)
+ * - decision recorded (to the meeting's attendees)
+ *
+ * Callers trigger them once the change is saved and only log a failure: the
+ * change stands even when no email could be queued.
+ */
+
+import { NotificationDelivery } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { ReportFormat } from '../reports';
+import { NotificationRecipient, notify } from './delivery';
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function loadMeeting(meetingId: string, attendeeIds?: string[]) {
+  return prisma.meeting.findUniqueOrThrow({
+    where: { id: meetingId },
+    include: {
+      organization: { select: { name: true, timezone: true } },
+      attendees: {
+        ...(attendeeIds && { where: { attendeeId: { in: attendeeIds } } }),
+        include: { attendee: { select: { name: true, email: true } } },
+      },
+    },
+  });
+}
+
+type LoadedMeeting = Awaited<ReturnType<typeof loadMeeting>>;
+
+function meetingContext(meeting: LoadedMeeting) {
+  return {
+    organization: meeting.organization,
+    meeting: {
+      id: meeting.id,
+      title: meeting.title,
+      scheduledStart: meeting.scheduledStart,
+      scheduledEnd: meeting.scheduledEnd,
+      location: meeting.location,
+      meetingUrl: meeting.meetingUrl,
+    },
+  };
+}
+
+function attendeeRecipients(meeting: LoadedMeeting): NotificationRecipient[] {
+  return meeting.attendees.map(({ attendee }) => ({ email: attendee.email, name: attendee.name }));
+}
+
+// ============================================
+// TRIGGERS
+// ============================================
+
+/**
+ * Invite a meeting's attendees (or some of them) with a link to the board pack
+ */
+export async function sendMeetingInvitations(
+  meetingId: string,
+  options: { attendeeIds?: string[]; message?: string | null } = {}
+): Promise<NotificationDelivery[]> {
+  const meeting = await loadMeeting(meetingId, options.attendeeIds);
+  return notify({
+    organizationId: meeting.organizationId,
+    meetingId,
+    context: { type: 'MEETING_INVITE', ...meetingContext(meeting), message: options.message },
+    recipients: attendeeRecipients(meeting),
+  });
+}
+
+/**
+ * Tell the attendees that a version of the minutes awaits their approval
+ */
+export async function notifyMinutesCirculated(meetingId: string, version: number): Promise<NotificationDelivery[]> {
+  const meeting = await loadMeeting(meetingId);
+  return notify({
+    organizationId: meeting.organizationId,
+    meetingId,
+    context: { type: 'MINUTES_CIRCULATED', ...meetingContext(meeting), version },
+    recipients: attendeeRecipients(meeting),
+  });
+}
+
+/**
+ * Email the formal minutes to the attendees as an attachment
+ */
+export async function emailMinutesReport(
+  meetingId: string,
+  format: ReportFormat,
+  message?: string | null
+): Promise<NotificationDelivery[]> {
+  const meeting = await loadMeeting(meetingId);
+  return notify({
+    organizationId: meeting.organizationId,
+    meetingId,
+    context: { type: 'MINUTES_REPORT', ...meetingContext(meeting), format, message },
+    recipients: attendeeRecipients(meeting),
+  });
+}
+
+async function notifyAssignee(actionItemId: string, type: 'ACTION_ASSIGNED' | 'ACTION_OVERDUE'): Promise<NotificationDelivery[]> {
+  const action = await prisma.actionItem.findUniqueOrThrow({
+    where: { id: actionItemId },
+    include: { assignee: { select: { name: true, email: true } } },
+  });
+  if (!action.assignee?.email) {
+    return [];
+  }
+
+  const meeting = await loadMeeting(action.meetingId, []);
+  return notify({
+    organizationId: meeting.organizationId,
+    meetingId: meeting.id,
+    context: {
+      type,
+      ...meetingContext(meeting),
+      action: { description: action.description, dueDate: action.dueDate, priority: action.priority },
+    },
+    recipients: [action.assignee],
+  });
+}
+
+/**
+ * Tell an action's assignee it is theirs
+ */
+export async function notifyActionAssigned(actionItemId: string): Promise<NotificationDelivery[]> {
+  return notifyAssignee(actionItemId, 'ACTION_ASSIGNED');
+}
+
+/**
+ * Tell an action's assignee it is past its due date
+ */
+export async function notifyActionOverdue(actionItemId: string): Promise<NotificationDelivery[]> {
+  return notifyAssignee(actionItemId, 'ACTION_OVERDUE');
+}
+
+/**
+ * Tell a meeting's attendees about a decision recorded at it
+ */
+export async function notifyDecisionRecorded(decisionId: string): Promise<NotificationDelivery[]> {
+  const decision = await prisma.decision.findUniqueOrThrow({ where: { id: decisionId } });
+  const meeting = await loadMeeting(decision.meetingId);
+  return notify({
+    organizationId: meeting.organizationId,
+    meetingId: meeting.id,
+    context: {
+      type: 'DECISION_RECORDED',
+      ...meetingContext(meeting),
+      decision: { description: decision.description, rationale: decision.rationale },
+    },
+    recipients: attendeeRecipients(meeting),
+  });
+}
+
+// Export service
+export const notificationTriggers = {
+  sendMeetingInvitations,
+  notifyMinutesCirculated,
+  emailMinutesReport,
+  notifyActionAssigned,
+  notifyActionOverdue,
+  notifyDecisionRecorded,
+};
+
+export default notificationTriggers;
@@ -6,24 +6,62 @@
  * - Risk alerts
  * - Clarifying questions
  * - Contextual information
+ *
+ * Insights come back as JSON validated against a schema (sent back to the
+ * model once when invalid) with the model's confidence, its rationale, the
+ * transcript entries that prompted it and the agenda item it concerns.
+ * Insights below the meeting's `minConfidence` are discarded.
+ *
+ * The meeting's advisor profile (see services/advisor) adds its name, persona
+ * and answer language to the prompts, and its speak policy caps when insights
+ * are spoken: `high_priority` only speaks high-priority ones, `when_asked` and
+ * `silent` never speak them.
  */
 
+import { z } from 'zod';
 import prisma from '../../lib/prisma';
-import { createCompletion, ChatMessage, isConfigured } from './client';
+import { createLogger } from '../../lib/logger';
+import { createCompletion, createStreamingCompletion, ChatMessage, CompletionOptions, isConfigured } from './client';
+import { createStructuredCompletion, StructuredOutputError } from './structured';
 import { 
   ADVISOR_SYSTEM_PROMPT,
   CHAT_ASSISTANT_PROMPT, 
+  CITATION_INSTRUCTIONS,
   buildMeetingContext, 
-  parseAgentResponse,
-  ParsedAgentResponse,
+  buildSourcesContext,
 } from './prompts';
-import { BufferedTranscript, startTranscriptProcessing, stopTranscriptProcessing } from '../recall/transcription';
-import { speak, queueSpeak } from '../recall/audio-output';
+import { BufferedTranscript, startTranscriptProcessing } from '../recall/transcription';
+import { speak } from '../recall/audio-output';
+import { bridgeAdvisorInsight } from './analyst-agent';
+import {
+  ChatSource,
+  RetrievedChunk,
+  indexTranscript,
+  searchKnowledge,
+  extractCitations,
+  stripCitations,
+  stripCitationsStream,
+  toChatSource,
+} from '../knowledge';
+import { AdvisorProfile, SpeakPolicy, buildPersonaInstructions, getAdvisorProfile } from '../advisor';
+
+const logger = createLogger('advisor');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const INSIGHT_INTERVAL_MS = 10000;   // Minimum time between insights
+const CONTEXT_LINES = 30;            // Earlier transcript lines given for context
+const RECENT_INSIGHTS = 5;           // Insights listed as already raised
 
 // ============================================
 // TYPES
 // ============================================
 
+export type AdvisorInsightType = 'recommendation' | 'question' | 'risk_alert' | 'context';
+export type AdvisorPriority = 'high' | 'medium' | 'low';
+
 export interface AdvisorConfig {
   enabled: boolean;
   speakEnabled: boolean;
@@ -34,21 +72,65 @@ export interface AdvisorConfig {
 export interface AdvisorInsight {
   id: string;
   meetingId: string;
-  type: ParsedAgentResponse['type'];
-  priority: ParsedAgentResponse['priority'];
+  type: AdvisorInsightType;
+  priority: AdvisorPriority;
   content: string;
+  rationale: string | null;
+  confidence: number;
+  agendaItemId: string | null;
+  transcriptEntryIds: string[];
   wasSpoken: boolean;
+  interruptedAt: Date | null;   // Cut off while speaking it
+  interruptedBy: string | null;
   timestamp: Date;
 }
 
+export interface AdvisorAnswer {
+  answer: string;
+  sources: ChatSource[];
+  cancelled?: boolean;          // Streaming stopped before the answer was complete
+}
+
 // Per-meeting agent state
 interface AgentState {
-  config: AdvisorConfig;
-  conversationHistory: ChatMessage[];
+  config: AdvisorConfig;        // As requested; the profile's speak policy applies on top
+  profile: AdvisorProfile;
+  meeting: { title: string; type: string; attendees: string[] };
+  context: string[];            // Earlier transcript lines
+  raised: string[];             // Insights already raised, oldest first
   lastInsightTime: number;
+  running: boolean;
   cleanup: () => void;
 }
 
+interface AgendaEntry {
+  id: string;
+  title: string;
+  status: string;
+}
+
+/**
+ * Response shape for one batch of transcript lines. Line numbers and agenda
+ * ids must exist, so a reference the model made up is rejected and retried.
+ */
+function advisorSchema(lineCount: number, agendaIds: string[]) {
+  return z.object({
+    insight: z.object({
+      type: z.enum(['recommendation', 'question', 'risk_alert', 'context']),
+      priority: z.enum(['high', 'medium', 'low']),
+      content: z.string().min(1),
+      rationale: z.string().min(1),
+      confidence: z.number().min(0).max(1),
+      sourceLines: z.array(z.number().int().min(1).max(lineCount)).min(1),
+      agendaItemId: agendaIds.length > 0
+        ? z.enum(agendaIds as [string, ...string[]]).nullable().default(null)
+        : z.null().default(null),
+    }).nullable(),
+  });
+}
+
+type AdvisorResult = NonNullable<z.infer<ReturnType<typeof advisorSchema>>['insight']>;
+
 // ============================================
 // STATE MANAGEMENT
 // ============================================
@@ -62,6 +144,21 @@ const DEFAULT_CONFIG: AdvisorConfig = {
   minConfidence: 0.7,
 };
 
+/**
+ * Limit speaking to what the advisor profile's speak policy allows
+ */
+function applySpeakPolicy(config: AdvisorConfig, policy: SpeakPolicy): AdvisorConfig {
+  switch (policy) {
+    case 'high_priority':
+      return { ...config, speakHighPriorityOnly: true };
+    case 'when_asked':
+    case 'silent':
+      return { ...config, speakEnabled: false };
+    default:
+      return config;
+  }
+}
+
 // ============================================
 // AGENT CONTROL
 // ============================================
@@ -73,7 +170,7 @@ export async function enableAgent(
   meetingId: string,
   config: Partial<AdvisorConfig> = {}
 ): Promise<void> {
-  if (!isConfigured()) {
+  if (!(await isConfigured({ meetingId }))) {
     throw new Error('OpenAI not configured');
   }
 
@@ -92,9 +189,6 @@ export async function enableAgent(
       attendees: {
         include: { attendee: true },
       },
-      agendaItems: {
-        orderBy: { order: 'asc' },
-      },
     },
   });
 
@@ -102,22 +196,7 @@ export async function enableAgent(
     throw new Error(`Meeting ${meetingId} not found`);
   }
 
-  // Build initial context
-  const attendeeNames = meeting.attendees.map(a => a.attendee.name);
-  const currentAgenda = meeting.agendaItems.find(a => a.status === 'IN_PROGRESS');
-
-  const initialContext = buildMeetingContext({
-    meetingTitle: meeting.title,
-    meetingType: meeting.type,
-    attendees: attendeeNames,
-    currentAgendaItem: currentAgenda?.title,
-    recentTranscript: '[Meeting starting...]',
-  });
-
-  // Initialize conversation history
-  const conversationHistory: ChatMessage[] = [
-    { role: 'user', content: initialContext },
-  ];
+  const profile = await getAdvisorProfile(meetingId);
 
   // Start transcript processing
   const cleanup = startTranscriptProcessing(meetingId, async (transcript) => {
@@ -127,8 +206,16 @@ export async function enableAgent(
   // Store state
   agentStates.set(meetingId, {
     config: mergedConfig,
-    conversationHistory,
+    profile,
+    meeting: {
+      title: meeting.title,
+      type: meeting.type,
+      attendees: meeting.attendees.map(a => a.attendee.name),
+    },
+    context: [],
+    raised: [],
     lastInsightTime: 0,
+    running: false,
     cleanup,
   });
 
@@ -171,13 +258,44 @@ export function isAgentEnabled(meetingId: string): boolean {
  * Get agent configuration
  */
 export function getAgentConfig(meetingId: string): AdvisorConfig | null {
-  return agentStates.get(meetingId)?.config || null;
+  const state = agentStates.get(meetingId);
+  return state ? applySpeakPolicy(state.config, state.profile.speakPolicy) : null;
 }
 
 // ============================================
 // TRANSCRIPT PROCESSING
 // ============================================
 
+/**
+ * Model input: meeting context, agenda, insights already raised and the
+ * latest lines numbered for citation
+ */
+function buildAdvisorInput(state: AgentState, agenda: AgendaEntry[], lines: string[]): string {
+  const current = agenda.find((item) => item.status === 'IN_PROGRESS');
+
+  const sections = [
+    buildMeetingContext({
+      meetingTitle: state.meeting.title,
+      meetingType: state.meeting.type,
+      attendees: state.meeting.attendees,
+      currentAgendaItem: current?.title,
+      recentTranscript: state.context.length > 0 ? state.context.join('\n') : '[Meeting starting...]',
+    }),
+  ];
+
+  if (agenda.length > 0) {
+    sections.push(`AGENDA:\n${agenda
+      .map((item) => `- [${item.id}] ${item.title}${item.status === 'IN_PROGRESS' ? ' (in progress)' : ''}`)
+      .join('\n')}`);
+  }
+  if (state.raised.length > 0) {
+    sections.push(`ALREADY RAISED:\n${state.raised.map((content) => `- ${content}`).join('\n')}`);
+  }
+  sections.push(`LATEST LINES:\n${lines.map((line, i) => `[${i + 1}] ${line}`).join('\n')}`);
+
+  return sections.join('\n\n');
+}
+
 /**
  * Process a buffered transcript and generate insights
  */
@@ -190,62 +308,81 @@ async function processTranscript(
     return;
   }
 
-  // Rate limit insights (minimum 10 seconds between)
+  const chunks = transcript.chunks.filter((c) => c.isFinal && c.text.trim());
+  const lines = chunks.map((c) => `${c.speaker}: ${c.text}`);
+  if (lines.length === 0) {
+    return;
+  }
+
+  // Rate limit insights; the lines still serve as context for the next run
   const now = Date.now();
-  if (now - state.lastInsightTime < 10000) {
+  if (state.running || now - state.lastInsightTime < INSIGHT_INTERVAL_MS) {
+    state.context = [...state.context, ...lines].slice(-CONTEXT_LINES);
     return;
   }
 
+  state.running = true;
   try {
-    // Add transcript to conversation
-    state.conversationHistory.push({
-      role: 'user',
-      content: `NEW TRANSCRIPT:\n${transcript.fullText}`,
-    });
+    // Pick up changes to the advisor profile (cached, so this is cheap)
+    state.profile = await getAdvisorProfile(meetingId);
+    const config = applySpeakPolicy(state.config, state.profile.speakPolicy);
 
-    // Keep conversation history manageable (last 10 exchanges)
-    if (state.conversationHistory.length > 20) {
-      state.conversationHistory = state.conversationHistory.slice(-20);
-    }
-
-    // Get advisor response
-    const response = await createCompletion(state.conversationHistory, {
-      systemPrompt: ADVISOR_SYSTEM_PROMPT,
-      temperature: 0.7,
+    const agenda = await prisma.agendaItem.findMany({
+      where: { meetingId },
+      orderBy: { order: 'asc' },
+      select: { id: true, title: true, status: true },
     });
 
-    // Parse response
-    const parsed = parseAgentResponse(response);
+    const input = buildAdvisorInput(state, agenda, lines);
+    state.context = [...state.context, ...lines].slice(-CONTEXT_LINES);
+
+    const { insight: result } = await createStructuredCompletion(
+      advisorSchema(lines.length, agenda.map((item) => item.id)),
+      [{ role: 'user', content: input }],
+      {
+        systemPrompt: `${ADVISOR_SYSTEM_PROMPT}\n\n${buildPersonaInstructions(state.profile)}`,
+        temperature: 0.4,
+        meetingId,
+      }
+    );
 
     // Skip if no input
-    if (parsed.type === 'none') {
+    if (!result) {
+      return;
+    }
+    if (result.confidence < config.minConfidence) {
+      logger.debug({ meetingId, confidence: result.confidence, minConfidence: config.minConfidence }, 'Advisor insight below confidence threshold');
       return;
     }
-
-    // Add response to history
-    state.conversationHistory.push({
-      role: 'assistant',
-      content: response,
-    });
 
     state.lastInsightTime = now;
+    state.raised = [...state.raised, result.content].slice(-RECENT_INSIGHTS);
 
     // Store insight
-    const insight = await storeInsight(meetingId, parsed);
+    const insight = await storeInsight(meetingId, {
+      ...result,
+      agendaItemId: result.agendaItemId ?? agenda.find((item) => item.status === 'IN_PROGRESS')?.id ?? null,
+      transcriptEntryIds: [...new Set(result.sourceLines.flatMap((line) => chunks[line - 1].entryId ?? []))],
+    });
 
     // Handle speaking
-    if (state.config.speakEnabled && parsed.shouldSpeak) {
-      if (state.config.speakHighPriorityOnly && parsed.priority !== 'high') {
+    const shouldSpeak = result.priority === 'high' || result.type === 'risk_alert';
+    if (config.speakEnabled && shouldSpeak) {
+      if (config.speakHighPriorityOnly && result.priority !== 'high') {
         // Queue for chat only
         emitInsight(meetingId, insight);
       } else {
         // Speak and emit
-        const result = await speak({
+        const spoken = await speak({
           meetingId,
-          text: parsed.content,
+          text: result.content,
           alsoChatMessage: true,
+          insightId: insight.id,
         });
-        insight.wasSpoken = result.spoken;
+        if (spoken.spoken) {
+          insight.wasSpoken = true;
+          await prisma.agentInsight.update({ where: { id: insight.id }, data: { wasSpoken: true } });
+        }
         emitInsight(meetingId, insight);
       }
     } else {
@@ -253,9 +390,15 @@ async function processTranscript(
       emitInsight(meetingId, insight);
     }
 
-    console.log(`Advisor insight for ${meetingId}: [${parsed.type}] ${parsed.content.substring(0, 50)}...`);
-  } catch (error: any) {
-    console.error('Error processing transcript:', error.message);
+    console.log(`Advisor insight for ${meetingId}: [${result.type}] ${result.content.substring(0, 50)}...`);
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      logger.warn({ meetingId, problem: error.problem }, 'Invalid advisor response from model');
+    } else {
+      console.error('Error processing transcript:', (error as Error).message);
+    }
+  } finally {
+    state.running = false;
   }
 }
 
@@ -268,26 +411,58 @@ async function processTranscript(
  */
 async function storeInsight(
   meetingId: string,
-  parsed: ParsedAgentResponse
+  result: Omit<AdvisorResult, 'sourceLines'> & { transcriptEntryIds: string[] }
 ): Promise<AdvisorInsight> {
   const insight = await prisma.agentInsight.create({
     data: {
       meetingId,
-      type: parsed.type,
-      priority: parsed.priority,
-      content: parsed.content,
+      type: result.type,
+      priority: result.priority,
+      content: result.content,
+      rationale: result.rationale,
+      confidence: result.confidence,
+      agendaItemId: result.agendaItemId,
+      transcriptEntryIds: result.transcriptEntryIds,
       wasSpoken: false,
-      confidence: parsed.priority === 'high' ? 0.9 : 0.7,
     },
   });
 
+  // Show it in the live insights feed alongside the analyst's insights
+  await bridgeAdvisorInsight(insight).catch((error) =>
+    console.error('Failed to add advisor insight to the live feed:', error)
+  );
+
+  return formatInsight(insight);
+}
+
+function formatInsight(insight: {
+  id: string;
+  meetingId: string;
+  type: string;
+  priority: string;
+  content: string;
+  rationale: string | null;
+  confidence: number;
+  agendaItemId: string | null;
+  transcriptEntryIds: string[];
+  wasSpoken: boolean;
+  interruptedAt: Date | null;
+  interruptedBy: string | null;
+  timestamp: Date;
+}): AdvisorInsight {
   return {
     id: insight.id,
     meetingId: insight.meetingId,
-    type: parsed.type,
-    priority: parsed.priority,
-    content: parsed.content,
-    wasSpoken: false,
+    type: insight.type as AdvisorInsightType,
+    priority: insight.priority as AdvisorPriority,
+    content: insight.content,
+    rationale: insight.rationale,
+    confidence: insight.confidence,
+    agendaItemId: insight.agendaItemId,
+    transcriptEntryIds: insight.transcriptEntryIds,
+    wasSpoken: insight.wasSpoken,
+    interruptedAt: insight.interruptedAt,
+    interruptedBy: insight.interruptedBy,
     timestamp: insight.timestamp,
   };
 }
@@ -305,15 +480,7 @@ export async function getInsights(
     take: limit,
   });
 
-  return insights.map(i => ({
-    id: i.id,
-    meetingId: i.meetingId,
-    type: i.type as ParsedAgentResponse['type'],
-    priority: i.priority as ParsedAgentResponse['priority'],
-    content: i.content,
-    wasSpoken: i.wasSpoken,
-    timestamp: i.timestamp,
-  }));
+  return insights.map(formatInsight);
 }
 
 // ============================================
@@ -364,14 +531,25 @@ function emitInsight(meetingId: string, insight: AdvisorInsight): void {
 // MANUAL INTERACTION
 // ============================================
 
+interface AdvisorRequest {
+  messages: ChatMessage[];
+  options: CompletionOptions;
+  retrieved: RetrievedChunk[];
+}
+
 /**
- * Ask the advisor a direct question
+ * Build the completion request for a direct question.
+ *
+ * Relevant passages from briefing documents, transcripts and summaries (this
+ * meeting and the organization's earlier ones) are retrieved and given to the
+ * model as numbered sources.
  */
-export async function askAdvisor(
+async function buildAdvisorRequest(
   meetingId: string,
-  question: string
-): Promise<string> {
-  if (!isConfigured()) {
+  question: string,
+  spoken: boolean
+): Promise<AdvisorRequest> {
+  if (!(await isConfigured({ meetingId }))) {
     throw new Error('OpenAI not configured');
   }
 
@@ -392,7 +570,20 @@ export async function askAdvisor(
     lowerQuestion.includes('who said') ||
     lowerQuestion.includes('what did');
 
-  let messageContent: string;
+  // Retrieve supporting passages (index any transcript recorded since the last run first)
+  let retrieved: RetrievedChunk[] = [];
+  try {
+    await indexTranscript(meetingId);
+    retrieved = await searchKnowledge(meetingId, question);
+  } catch (error) {
+    console.error('Knowledge retrieval failed:', (error as Error).message);
+  }
+
+  const contextParts: string[] = [];
+
+  if (retrieved.length > 0) {
+    contextParts.push(`SOURCES:\n${buildSourcesContext(retrieved)}`);
+  }
 
   if (needsTranscriptContext) {
     // Get recent transcript for context
@@ -407,19 +598,28 @@ export async function askAdvisor(
       .map(e => `[${e.speakerName}]: ${e.content}`)
       .join('\n');
 
-    messageContent = transcriptContext 
-      ? `Here's what was recently discussed:\n${transcriptContext}\n\nQuestion: ${question}`
-      : question;
-  } else {
-    // General question - just answer directly
-    messageContent = question;
+    if (transcriptContext) {
+      contextParts.push(`Here's what was recently discussed:\n${transcriptContext}`);
+    }
   }
 
-  const systemPrompt = `You are Board Observer AI, a friendly voice assistant in a meeting. 
+  const messageContent = contextParts.length > 0
+    ? `${contextParts.join('\n\n')}\n\nQuestion: ${question}`
+    : question;
+
+  const profile = await getAdvisorProfile(meetingId);
+  const basePrompt = spoken
+    ? `You are ${profile.name}, a friendly voice assistant in a meeting. 
 Answer questions directly and briefly (1-2 sentences). 
 Be conversational - you're speaking out loud, not writing.
 If you don't know something, just say so simply.
-Don't overthink or over-explain.`;
+Don't overthink or over-explain.`
+    : CHAT_ASSISTANT_PROMPT;
+
+  const personaPrompt = `${basePrompt}\n\n${buildPersonaInstructions(profile)}`;
+  const systemPrompt = retrieved.length > 0
+    ? `${personaPrompt}\n\n${CITATION_INSTRUCTIONS}`
+    : personaPrompt;
 
   const messages: ChatMessage[] = [
     {
@@ -428,13 +628,92 @@ Don't overthink or over-explain.`;
     },
   ];
 
-  const response = await createCompletion(messages, {
-    systemPrompt,
-    temperature: 0.7,
-    maxTokens: 150,
-  });
+  return {
+    messages,
+    options: {
+      systemPrompt,
+      temperature: spoken ? 0.7 : 0.3,
+      maxTokens: spoken ? 150 : undefined,
+      meetingId,
+    },
+    retrieved,
+  };
+}
+
+function citedSources(meetingId: string, response: string, retrieved: RetrievedChunk[]): ChatSource[] {
+  return extractCitations(response, retrieved.length)
+    .map((n) => toChatSource(retrieved[n - 1], meetingId));
+}
+
+/**
+ * Ask the advisor a direct question.
+ *
+ * The sources the model cites are returned with the answer. `spoken` answers
+ * are kept short and have the [n] markers removed.
+ */
+export async function askAdvisor(
+  meetingId: string,
+  question: string,
+  options: { spoken?: boolean } = {}
+): Promise<AdvisorAnswer> {
+  const { messages, options: completionOptions, retrieved } =
+    await buildAdvisorRequest(meetingId, question, !!options.spoken);
+
+  const response = await createCompletion(messages, completionOptions);
+
+  return {
+    answer: options.spoken ? stripCitations(response) : response,
+    sources: citedSources(meetingId, response, retrieved),
+  };
+}
 
-  return response;
+/**
+ * Ask the advisor a direct question and stream the answer as it is written.
+ *
+ * Yields the answer in pieces and returns the complete answer with its
+ * sources, like askAdvisor. Aborting `signal` stops the completion; the
+ * answer so far is returned with `cancelled` set. `spoken` answers have their
+ * [n] markers removed before they are yielded.
+ */
+export async function* streamAdvisorAnswer(
+  meetingId: string,
+  question: string,
+  options: { spoken?: boolean; signal?: AbortSignal } = {}
+): AsyncGenerator<string, AdvisorAnswer, unknown> {
+  const { signal } = options;
+  const { messages, options: completionOptions, retrieved } =
+    await buildAdvisorRequest(meetingId, question, !!options.spoken);
+
+  let response = '';
+  let cancelled = false;
+
+  async function* tokens(): AsyncGenerator<string> {
+    for await (const delta of createStreamingCompletion(messages, completionOptions)) {
+      if (signal?.aborted) {
+        cancelled = true;
+        return;
+      }
+      response += delta;
+      yield delta;
+    }
+  }
+
+  const deltas = options.spoken ? stripCitationsStream(tokens()) : tokens();
+  for await (const delta of deltas) {
+    if (signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+    if (delta) {
+      yield delta;
+    }
+  }
+
+  return {
+    answer: options.spoken ? stripCitations(response) : response,
+    sources: citedSources(meetingId, response, retrieved),
+    ...(cancelled && { cancelled }),
+  };
 }
 
 /**
@@ -449,6 +728,7 @@ export async function forceSpeak(
     text,
     force: true,
     alsoChatMessage: true,
+    asked: true,
   });
 
   return result.success;
@@ -464,6 +744,7 @@ export const advisorAgent = {
   getInsights,
   onInsight,
   askAdvisor,
+  streamAdvisorAnswer,
   forceSpeak,
 };
 
@@ -0,0 +1,232 @@
+/**
+ * OpenAI Agenda Agent
+ *
+ * Notices when a live meeting moves on to the next agenda item:
+ * - Subscribes to the buffered transcript of a recording meeting
+ * - Asks the model whether the discussion has left the item in progress for
+ *   the next pending one
+ * - Applies the transition when the meeting enables autoAdvanceAgenda, and
+ *   otherwise suggests it to the room (once per pair of items)
+ *
+ * Transitions below AGENDA_TRANSITION_THRESHOLD are ignored.
+ */
+
+import { z } from 'zod';
+import { createLogger } from '../../lib/logger';
+import prisma from '../../lib/prisma';
+import { isConfigured } from './client';
+import { createStructuredCompletion } from './structured';
+import { AGENDA_PROMPT } from './prompts';
+import { BufferedTranscript, startTranscriptProcessing } from '../recall/transcription';
+import { emitAgendaEvent, setAgendaItemStatus, syncTimekeeper } from '../agenda/timekeeper';
+import { recordAuditEvent } from '../audit';
+
+const logger = createLogger('agenda');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const TRANSITION_THRESHOLD = parseFloat(process.env.AGENDA_TRANSITION_THRESHOLD || '0.85');
+const BATCH_MIN_LINES = 6;
+const BATCH_MAX_WAIT_MS = 45000;
+const TRANSCRIPT_WINDOW = 20;
+
+// ============================================
+// TYPES
+// ============================================
+
+// Per-meeting agenda agent state
+interface AgendaAgentState {
+  transcript: string[];
+  pendingLines: number;
+  lastRunTime: number;
+  running: boolean;
+  // "from->to" transitions already suggested
+  suggested: Set<string>;
+  cleanup: () => void;
+}
+
+const transitionSchema = z.object({
+  movedOn: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  reason: z.string().default(''),
+});
+
+// ============================================
+// STATE MANAGEMENT
+// ============================================
+
+const agendaStates: Map<string, AgendaAgentState> = new Map();
+
+// ============================================
+// AGENT CONTROL
+// ============================================
+
+/**
+ * Start watching a meeting's transcript for agenda transitions
+ */
+export async function startAgendaAgent(meetingId: string): Promise<void> {
+  if (!(await isConfigured({ meetingId }))) {
+    throw new Error('OpenAI not configured');
+  }
+
+  if (agendaStates.has(meetingId)) {
+    return;
+  }
+
+  const cleanup = startTranscriptProcessing(meetingId, async (transcript) => {
+    await processTranscript(meetingId, transcript);
+  });
+
+  agendaStates.set(meetingId, {
+    transcript: [],
+    pendingLines: 0,
+    lastRunTime: Date.now(),
+    running: false,
+    suggested: new Set(),
+    cleanup,
+  });
+
+  logger.info({ meetingId }, 'Agenda agent started');
+}
+
+/**
+ * Stop watching a meeting's transcript
+ */
+export function stopAgendaAgent(meetingId: string): void {
+  const state = agendaStates.get(meetingId);
+  if (state) {
+    state.cleanup();
+    agendaStates.delete(meetingId);
+    logger.info({ meetingId }, 'Agenda agent stopped');
+  }
+}
+
+// ============================================
+// TRANSCRIPT PROCESSING
+// ============================================
+
+async function processTranscript(meetingId: string, transcript: BufferedTranscript): Promise<void> {
+  const state = agendaStates.get(meetingId);
+  if (!state) {
+    return;
+  }
+
+  const lines = transcript.chunks
+    .filter((c) => c.isFinal && c.text.trim())
+    .map((c) => `${c.speaker}: ${c.text}`);
+
+  state.transcript = [...state.transcript, ...lines].slice(-TRANSCRIPT_WINDOW);
+  state.pendingLines += lines.length;
+
+  if (state.running || state.pendingLines === 0) {
+    return;
+  }
+
+  const waited = Date.now() - state.lastRunTime;
+  if (state.pendingLines < BATCH_MIN_LINES && waited < BATCH_MAX_WAIT_MS) {
+    return;
+  }
+
+  state.running = true;
+  state.pendingLines = 0;
+  state.lastRunTime = Date.now();
+
+  try {
+    await checkTransition(meetingId, state);
+  } catch (error) {
+    logger.error({ err: error, meetingId }, 'Agenda transition check failed');
+  } finally {
+    state.running = false;
+  }
+}
+
+async function checkTransition(meetingId: string, state: AgendaAgentState): Promise<void> {
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    select: {
+      autoAdvanceAgenda: true,
+      agendaItems: {
+        orderBy: { order: 'asc' },
+        select: { id: true, order: true, title: true, description: true, presenter: true, status: true },
+      },
+    },
+  });
+  if (!meeting) {
+    return;
+  }
+
+  const current = meeting.agendaItems.find((item) => item.status === 'IN_PROGRESS') ?? null;
+  const next = meeting.agendaItems.find((item) =>
+    item.status === 'PENDING' && (!current || item.order > current.order)
+  );
+  if (!next) {
+    return;
+  }
+
+  const key = `${current?.id ?? ''}->${next.id}`;
+  if (!meeting.autoAdvanceAgenda && state.suggested.has(key)) {
+    return;
+  }
+
+  const describe = (item: typeof next) =>
+    [item.title, item.presenter && `Presenter: ${item.presenter}`, item.description].filter(Boolean).join('\n');
+
+  const result = await createStructuredCompletion(
+    transitionSchema,
+    [{
+      role: 'user',
+      content: [
+        `IN PROGRESS:\n${current ? describe(current) : 'none (the meeting has not reached the agenda yet)'}`,
+        `NEXT ITEM:\n${describe(next)}`,
+        `TRANSCRIPT:\n${state.transcript.join('\n')}`,
+      ].join('\n\n'),
+    }],
+    { systemPrompt: AGENDA_PROMPT, temperature: 0.1, meetingId }
+  );
+
+  if (!result.movedOn || result.confidence < TRANSITION_THRESHOLD) {
+    return;
+  }
+
+  if (meeting.autoAdvanceAgenda) {
+    const items = await setAgendaItemStatus(meetingId, next.id, 'IN_PROGRESS', { autoAdvanced: true });
+    await syncTimekeeper(meetingId);
+
+    await recordAuditEvent({
+      meetingId,
+      action: 'agenda.advanced',
+      entityType: 'AgendaItem',
+      entityId: next.id,
+      before: { status: next.status, previousItemId: current?.id ?? null },
+      after: { status: 'IN_PROGRESS', confidence: result.confidence, reason: result.reason },
+    });
+
+    logger.info({ meetingId, agendaItemId: next.id, changed: items.length }, 'Agenda advanced from transcript');
+  } else {
+    state.suggested.add(key);
+    emitAgendaEvent({
+      type: 'suggestion',
+      meetingId,
+      suggestion: {
+        fromItemId: current?.id ?? null,
+        toItemId: next.id,
+        title: next.title,
+        confidence: result.confidence,
+        reason: result.reason,
+      },
+    });
+  }
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export const agendaAgent = {
+  startAgendaAgent,
+  stopAgendaAgent,
+};
+
+export default agendaAgent;
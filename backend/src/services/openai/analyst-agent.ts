@@ -0,0 +1,349 @@
+/**
+ * OpenAI Analyst Agent
+ *
+ * Produces the live insights feed during a meeting:
+ * - Subscribes to the buffered transcript of a recording meeting
+ * - Reads the agenda item in progress and its pre-meeting analysis
+ * - Asks the model for observations, suggestions, alerts and context,
+ *   stored as LiveInsight rows tied to the agenda item
+ *
+ * The advisor's insights (AgentInsight) are bridged into the same feed, so
+ * clients read one stream of LiveInsight records.
+ */
+
+import { z } from 'zod';
+import { InsightType, LiveInsight, Priority } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { isConfigured } from './client';
+import { createStructuredCompletion } from './structured';
+import { ANALYST_PROMPT } from './prompts';
+import { BufferedTranscript, startTranscriptProcessing } from '../recall/transcription';
+import { incrementAgentProcessed, updateAgentStatus } from '../ai/agents';
+
+const logger = createLogger('analyst');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const INSIGHT_THRESHOLD = parseFloat(process.env.AI_INSIGHT_THRESHOLD || '0.75');
+const BATCH_MIN_LINES = 8;
+const BATCH_MAX_WAIT_MS = 60000;
+const TRANSCRIPT_WINDOW = 30;
+const RECENT_INSIGHTS = 10;
+
+// Advisor insight types as shown in the live feed
+const ADVISOR_TYPE_MAP: Record<string, InsightType> = {
+  recommendation: 'SUGGESTION',
+  question: 'SUGGESTION',
+  risk_alert: 'ALERT',
+  context: 'CONTEXT',
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+type LiveInsightHandler = (insight: LiveInsight) => void;
+
+export interface NewLiveInsight {
+  meetingId: string;
+  agendaItemId?: string | null;
+  type: InsightType;
+  priority: Priority;
+  agentId: string;
+  content: string;
+  confidence?: number;
+  agentInsightId?: string;
+}
+
+// Per-meeting analyst state
+interface AnalystState {
+  transcript: string[];
+  pendingLines: number;
+  lastRunTime: number;
+  running: boolean;
+  cleanup: () => void;
+}
+
+const analystSchema = z.object({
+  insights: z.array(z.object({
+    type: z.enum(['OBSERVATION', 'SUGGESTION', 'ALERT', 'CONTEXT']),
+    priority: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+    content: z.string().min(1),
+    confidence: z.number().min(0).max(1),
+  })).default([]),
+});
+
+// ============================================
+// STATE MANAGEMENT
+// ============================================
+
+const analystStates: Map<string, AnalystState> = new Map();
+const insightHandlers: Map<string, LiveInsightHandler[]> = new Map();
+
+// ============================================
+// ANALYST CONTROL
+// ============================================
+
+/**
+ * Start live analysis for a meeting
+ */
+export async function startAnalyst(meetingId: string): Promise<void> {
+  if (!(await isConfigured({ meetingId }))) {
+    throw new Error('OpenAI not configured');
+  }
+
+  if (analystStates.has(meetingId)) {
+    return;
+  }
+
+  const cleanup = startTranscriptProcessing(meetingId, async (transcript) => {
+    await processTranscript(meetingId, transcript);
+  });
+
+  analystStates.set(meetingId, {
+    transcript: [],
+    pendingLines: 0,
+    lastRunTime: Date.now(),
+    running: false,
+    cleanup,
+  });
+
+  logger.info({ meetingId }, 'Analyst started');
+}
+
+/**
+ * Stop live analysis for a meeting
+ */
+export function stopAnalyst(meetingId: string): void {
+  const state = analystStates.get(meetingId);
+  if (state) {
+    state.cleanup();
+    analystStates.delete(meetingId);
+    logger.info({ meetingId }, 'Analyst stopped');
+  }
+}
+
+/**
+ * Check if the analyst is running for a meeting
+ */
+export function isAnalystEnabled(meetingId: string): boolean {
+  return analystStates.has(meetingId);
+}
+
+// ============================================
+// TRANSCRIPT PROCESSING
+// ============================================
+
+/**
+ * Add a buffered transcript to the window and analyze once enough was said
+ */
+async function processTranscript(meetingId: string, transcript: BufferedTranscript): Promise<void> {
+  const state = analystStates.get(meetingId);
+  if (!state) {
+    return;
+  }
+
+  const lines = transcript.chunks
+    .filter((c) => c.isFinal && c.text.trim())
+    .map((c) => `${c.speaker}: ${c.text}`);
+
+  state.transcript = [...state.transcript, ...lines].slice(-TRANSCRIPT_WINDOW);
+  state.pendingLines += lines.length;
+
+  if (state.running || state.pendingLines === 0) {
+    return;
+  }
+
+  const waited = Date.now() - state.lastRunTime;
+  if (state.pendingLines < BATCH_MIN_LINES && waited < BATCH_MAX_WAIT_MS) {
+    return;
+  }
+
+  state.running = true;
+  state.pendingLines = 0;
+  state.lastRunTime = Date.now();
+  updateAgentStatus('analyst', 'processing');
+
+  try {
+    await analyze(meetingId, state.transcript);
+    incrementAgentProcessed('analyst');
+  } catch (error) {
+    logger.error({ err: error, meetingId }, 'Live analysis failed');
+  } finally {
+    state.running = false;
+    updateAgentStatus('analyst', 'listening');
+  }
+}
+
+async function analyze(meetingId: string, transcript: string[]): Promise<void> {
+  const [agendaItem, recent] = await Promise.all([
+    getCurrentAgendaItem(meetingId),
+    prisma.liveInsight.findMany({
+      where: { meetingId },
+      orderBy: { timestamp: 'desc' },
+      take: RECENT_INSIGHTS,
+      select: { type: true, content: true },
+    }),
+  ]);
+
+  const sections = [
+    agendaItem
+      ? `AGENDA ITEM: ${agendaItem.title}${agendaItem.description ? `\n${agendaItem.description}` : ''}`
+      : 'AGENDA ITEM: none in progress',
+  ];
+  const analysis = formatAnalysis(agendaItem?.aiAnalysis);
+  if (analysis) {
+    sections.push(`PRE-MEETING ANALYSIS:\n${analysis}`);
+  }
+  if (recent.length > 0) {
+    sections.push(`ALREADY SHOWN:\n${recent.map((i) => `- (${i.type}) ${i.content}`).join('\n')}`);
+  }
+  sections.push(`TRANSCRIPT:\n${transcript.join('\n')}`);
+
+  const result = await createStructuredCompletion(
+    analystSchema,
+    [{ role: 'user', content: sections.join('\n\n') }],
+    { systemPrompt: ANALYST_PROMPT, temperature: 0.4, meetingId }
+  );
+
+  for (const insight of result.insights.slice(0, 2)) {
+    if (insight.confidence < INSIGHT_THRESHOLD) continue;
+
+    await recordLiveInsight({
+      meetingId,
+      agendaItemId: agendaItem?.id ?? null,
+      type: insight.type,
+      priority: insight.priority,
+      agentId: 'analyst',
+      content: insight.content,
+      confidence: insight.confidence,
+    });
+  }
+}
+
+async function getCurrentAgendaItem(meetingId: string) {
+  return prisma.agendaItem.findFirst({
+    where: { meetingId, status: 'IN_PROGRESS' },
+    orderBy: { order: 'asc' },
+    select: { id: true, title: true, description: true, aiAnalysis: true },
+  });
+}
+
+/**
+ * Render an agenda item's stored AI analysis for the prompt
+ */
+export function formatAnalysis(aiAnalysis: unknown): string | null {
+  if (!aiAnalysis || typeof aiAnalysis !== 'object') {
+    return null;
+  }
+
+  const analysis = aiAnalysis as Record<string, unknown>;
+  const list = (label: string, value: unknown) =>
+    Array.isArray(value) && value.length > 0
+      ? `${label}:\n${value.map((v) => `- ${String(v)}`).join('\n')}`
+      : null;
+
+  const parts = [
+    typeof analysis.summary === 'string' ? analysis.summary : null,
+    list('Key points', analysis.keyPoints),
+    list('Risks', analysis.risks),
+    list('Opportunities', analysis.opportunities),
+    list('Suggested questions', analysis.suggestedQuestions),
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join('\n') : null;
+}
+
+// ============================================
+// INSIGHT STORAGE
+// ============================================
+
+/**
+ * Store a live insight and publish it to the meeting's feed
+ */
+export async function recordLiveInsight(data: NewLiveInsight): Promise<LiveInsight> {
+  const insight = await prisma.liveInsight.create({ data });
+  emitLiveInsight(insight);
+  return insight;
+}
+
+/**
+ * Show an advisor insight in the live feed, tied to its agenda item (or the one in progress)
+ */
+export async function bridgeAdvisorInsight(agentInsight: {
+  id: string;
+  meetingId: string;
+  type: string;
+  priority: string;
+  content: string;
+  confidence: number;
+  agendaItemId?: string | null;
+}): Promise<LiveInsight> {
+  const agendaItemId = agentInsight.agendaItemId
+    ?? (await getCurrentAgendaItem(agentInsight.meetingId))?.id
+    ?? null;
+
+  return recordLiveInsight({
+    meetingId: agentInsight.meetingId,
+    agendaItemId,
+    type: ADVISOR_TYPE_MAP[agentInsight.type] ?? 'OBSERVATION',
+    priority: agentInsight.priority.toUpperCase() as Priority,
+    agentId: 'advisor',
+    content: agentInsight.content,
+    confidence: agentInsight.confidence,
+    agentInsightId: agentInsight.id,
+  });
+}
+
+// ============================================
+// EVENT HANDLING
+// ============================================
+
+/**
+ * Register a handler for new live insights
+ */
+export function onLiveInsight(meetingId: string, handler: LiveInsightHandler): () => void {
+  if (!insightHandlers.has(meetingId)) {
+    insightHandlers.set(meetingId, []);
+  }
+  insightHandlers.get(meetingId)!.push(handler);
+
+  return () => {
+    const handlers = insightHandlers.get(meetingId);
+    if (handlers) {
+      const index = handlers.indexOf(handler);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  };
+}
+
+function emitLiveInsight(insight: LiveInsight): void {
+  const handlers = insightHandlers.get(insight.meetingId) || [];
+  for (const handler of handlers) {
+    try {
+      handler(insight);
+    } catch (error) {
+      console.error('Error in live insight handler:', error);
+    }
+  }
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export const analystAgent = {
+  startAnalyst,
+  stopAnalyst,
+  isAnalystEnabled,
+  onLiveInsight,
+  recordLiveInsight,
+  bridgeAdvisorInsight,
+};
+
+export default analystAgent;
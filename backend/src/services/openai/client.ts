@@ -1,51 +1,50 @@
 /**
- * OpenAI Client Configuration
- * 
- * Configures the OpenAI client for use across the application.
+ * LLM Client
+ *
+ * Completion and embedding helpers used across the application. Requests go
+ * to the provider of the organization they are made for (see services/llm),
+ * so pass `meetingId` or `organizationId` with every call that handles
+ * tenant data.
  */
 
-import OpenAI from 'openai';
+import { ChatMessage, getLlmProvider, isDefaultProviderConfigured, isLlmProviderConfigured, ProviderScope } from '../llm';
+
+export type { ChatMessage } from '../llm';
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 const DEFAULT_MODEL = process.env.OPENAI_MODEL || 'gpt-4-turbo-preview';
 const MAX_TOKENS = parseInt(process.env.AGENT_MAX_TOKENS || '500');
+const EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
 
-if (!OPENAI_API_KEY) {
-  console.warn('Warning: OPENAI_API_KEY not set. OpenAI integration will not work.');
+if (!isDefaultProviderConfigured()) {
+  console.warn('Warning: no LLM provider configured (set OPENAI_API_KEY or LLM_PROVIDER). AI features will not work.');
 }
 
-// ============================================
-// CLIENT INSTANCE
-// ============================================
-
-export const openai = OPENAI_API_KEY 
-  ? new OpenAI({ apiKey: OPENAI_API_KEY })
-  : null;
-
 // ============================================
 // TYPES
 // ============================================
 
-export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-export interface CompletionOptions {
+export interface CompletionOptions extends ProviderScope {
   model?: string;
   maxTokens?: number;
   temperature?: number;
   systemPrompt?: string;
+  responseFormat?: 'text' | 'json';
 }
 
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
+function withSystemPrompt(messages: ChatMessage[], systemPrompt?: string): ChatMessage[] {
+  return systemPrompt
+    ? [{ role: 'system', content: systemPrompt }, ...messages]
+    : messages;
+}
+
 /**
  * Create a chat completion
  */
@@ -53,35 +52,23 @@ export async function createCompletion(
   messages: ChatMessage[],
   options: CompletionOptions = {}
 ): Promise<string> {
-  if (!openai) {
-    throw new Error('OpenAI API key not configured');
-  }
-
   const {
-    model = DEFAULT_MODEL,
+    organizationId,
+    meetingId,
+    model,
     maxTokens = MAX_TOKENS,
     temperature = 0.7,
     systemPrompt,
+    responseFormat = 'text',
   } = options;
 
-  // Prepend system prompt if provided
-  const allMessages: ChatMessage[] = systemPrompt
-    ? [{ role: 'system', content: systemPrompt }, ...messages]
-    : messages;
-
-  const response = await openai.chat.completions.create({
+  const provider = await getLlmProvider({ organizationId, meetingId });
+  return provider.complete(withSystemPrompt(messages, systemPrompt), {
     model,
-    messages: allMessages,
-    max_tokens: maxTokens,
+    maxTokens,
     temperature,
+    responseFormat,
   });
-
-  const content = response.choices[0]?.message?.content;
-  if (!content) {
-    throw new Error('No response from OpenAI');
-  }
-
-  return content;
 }
 
 /**
@@ -91,49 +78,53 @@ export async function* createStreamingCompletion(
   messages: ChatMessage[],
   options: CompletionOptions = {}
 ): AsyncGenerator<string, void, unknown> {
-  if (!openai) {
-    throw new Error('OpenAI API key not configured');
-  }
-
   const {
-    model = DEFAULT_MODEL,
+    organizationId,
+    meetingId,
+    model,
     maxTokens = MAX_TOKENS,
     temperature = 0.7,
     systemPrompt,
   } = options;
 
-  const allMessages: ChatMessage[] = systemPrompt
-    ? [{ role: 'system', content: systemPrompt }, ...messages]
-    : messages;
-
-  const stream = await openai.chat.completions.create({
+  const provider = await getLlmProvider({ organizationId, meetingId });
+  yield* provider.stream(withSystemPrompt(messages, systemPrompt), {
     model,
-    messages: allMessages,
-    max_tokens: maxTokens,
+    maxTokens,
     temperature,
-    stream: true,
+    responseFormat: 'text',
   });
+}
 
-  for await (const chunk of stream) {
-    const content = chunk.choices[0]?.delta?.content;
-    if (content) {
-      yield content;
-    }
-  }
+/**
+ * Embed a list of texts. Returns one vector per input, in order.
+ */
+export async function createEmbeddings(texts: string[], scope: ProviderScope = {}): Promise<number[][]> {
+  const provider = await getLlmProvider(scope);
+  return provider.embed(texts);
 }
 
 /**
- * Check if OpenAI is configured
+ * Check if an LLM provider is configured for requests in this scope: the
+ * organization's own, or the deployment default when it has none
  */
-export function isConfigured(): boolean {
-  return !!openai;
+export async function isConfigured(scope: ProviderScope = {}): Promise<boolean> {
+  return isLlmProviderConfigured(scope);
 }
 
 // Export configuration
 export const config = {
   model: DEFAULT_MODEL,
+  embeddingModel: EMBEDDING_MODEL,
   maxTokens: MAX_TOKENS,
-  isConfigured: isConfigured(),
+  isConfigured: isDefaultProviderConfigured(),
+};
+
+export const llmClient = {
+  createCompletion,
+  createStreamingCompletion,
+  createEmbeddings,
+  isConfigured,
 };
 
-export default openai;
+export default llmClient;
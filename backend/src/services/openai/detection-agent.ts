@@ -0,0 +1,481 @@
+/**
+ * OpenAI Detection Agent
+ *
+ * Detects action items and decisions from the live transcript:
+ * - Subscribes to the buffered transcript of a recording meeting
+ * - Batches final lines and asks the model for new actions and decisions
+ * - Resolves assignees to meeting attendees and links each detection to the
+ *   transcript entry it came from
+ * - Repeated mentions of the same item are merged instead of stored again
+ *
+ * Detections below AI_DETECTION_THRESHOLD are dropped.
+ */
+
+import { z } from 'zod';
+import { DetectedAction, DetectedDecision } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+import { isConfigured } from './client';
+import { createStructuredCompletion } from './structured';
+import { DETECTION_PROMPT } from './prompts';
+import { BufferedTranscript, TranscriptChunk, startTranscriptProcessing } from '../recall/transcription';
+import { tokenize } from '../knowledge';
+import { incrementAgentProcessed, updateAgentStatus } from '../ai/agents';
+
+const logger = createLogger('detection');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DETECTION_THRESHOLD = parseFloat(process.env.AI_DETECTION_THRESHOLD || '0.8');
+const BATCH_MIN_LINES = 6;
+const BATCH_MAX_WAIT_MS = 30000;
+const CONTEXT_LINES = 6;
+const DUPLICATE_SIMILARITY = 0.6;
+
+// ============================================
+// TYPES
+// ============================================
+
+export type Detection =
+  | { type: 'action'; action: DetectedAction }
+  | { type: 'decision'; decision: DetectedDecision };
+
+type DetectionHandler = (detection: Detection) => void;
+
+export interface AttendeeRef {
+  id: string;
+  name: string;
+}
+
+interface KnownDetection {
+  id: string;
+  type: 'action' | 'decision';
+  description: string;
+  tokens: Set<string>;
+}
+
+// Per-meeting detection state
+interface DetectionState {
+  attendees: AttendeeRef[];
+  known: KnownDetection[];
+  pending: TranscriptChunk[];
+  context: string[];
+  lastRunTime: number;
+  running: Promise<void> | null;
+  cleanup: () => void;
+}
+
+const nullableCount = z.number().int().min(0).nullish().transform((v) => v ?? null);
+
+const detectionSchema = z.object({
+  actions: z.array(z.object({
+    description: z.string().min(1),
+    assignee: z.string().nullish().transform((v) => v || null),
+    dueDate: z.string().nullish().transform((v) => v || null),
+    confidence: z.number().min(0).max(1),
+    sourceLine: z.number().int().nullish(),
+  })).default([]),
+  decisions: z.array(z.object({
+    description: z.string().min(1),
+    votedFor: nullableCount,
+    votedAgainst: nullableCount,
+    abstained: nullableCount,
+    confidence: z.number().min(0).max(1),
+    sourceLine: z.number().int().nullish(),
+  })).default([]),
+});
+
+type DetectionResult = z.infer<typeof detectionSchema>;
+
+// ============================================
+// STATE MANAGEMENT
+// ============================================
+
+const detectionStates: Map<string, DetectionState> = new Map();
+const detectionHandlers: Map<string, DetectionHandler[]> = new Map();
+
+// ============================================
+// HELPERS
+// ============================================
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'sir', 'dame', 'lord', 'lady']);
+
+function nameTokens(name: string): string[] {
+  return (name.toLowerCase().match(/[\p{L}\p{N}'-]+/gu) || [])
+    .map((token) => token.replace(/\.$/, ''))
+    .filter((token) => !HONORIFICS.has(token));
+}
+
+/**
+ * Match a spoken name to an attendee: full name first, then a first or last
+ * name that identifies exactly one attendee
+ */
+export function resolveAttendee(name: string | null, attendees: AttendeeRef[]): AttendeeRef | null {
+  if (!name) return null;
+
+  const spoken = nameTokens(name);
+  if (spoken.length === 0) return null;
+
+  const full = attendees.filter((a) => nameTokens(a.name).join(' ') === spoken.join(' '));
+  if (full.length === 1) return full[0];
+
+  const partial = attendees.filter((a) => {
+    const tokens = nameTokens(a.name);
+    return spoken.every((token) => tokens.includes(token));
+  });
+  return partial.length === 1 ? partial[0] : null;
+}
+
+/**
+ * Jaccard similarity of two token sets (0-1)
+ */
+export function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function knownDetection(id: string, type: KnownDetection['type'], description: string): KnownDetection {
+  return { id, type, description, tokens: new Set(tokenize(description)) };
+}
+
+function findDuplicate(state: DetectionState, type: KnownDetection['type'], description: string): KnownDetection | null {
+  const tokens = new Set(tokenize(description));
+  return state.known.find((k) => k.type === type && similarity(k.tokens, tokens) >= DUPLICATE_SIMILARITY) || null;
+}
+
+function parseDueDate(value: string | null): Date | null {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatLine(chunk: TranscriptChunk): string {
+  return `${chunk.speaker}: ${chunk.text}`;
+}
+
+// ============================================
+// DETECTION CONTROL
+// ============================================
+
+/**
+ * Start detecting actions and decisions for a meeting
+ */
+export async function startDetection(meetingId: string): Promise<void> {
+  if (!(await isConfigured({ meetingId }))) {
+    throw new Error('OpenAI not configured');
+  }
+
+  if (detectionStates.has(meetingId)) {
+    return;
+  }
+
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    include: {
+      attendees: { include: { attendee: { select: { id: true, name: true } } } },
+      detectedActions: { select: { id: true, description: true } },
+      detectedDecisions: { select: { id: true, description: true } },
+    },
+  });
+
+  if (!meeting) {
+    throw new Error(`Meeting ${meetingId} not found`);
+  }
+
+  // Earlier detections (including rejected ones) are not raised again
+  const known: KnownDetection[] = [
+    ...meeting.detectedActions.map((a) => knownDetection(a.id, 'action', a.description)),
+    ...meeting.detectedDecisions.map((d) => knownDetection(d.id, 'decision', d.description)),
+  ];
+
+  const cleanup = startTranscriptProcessing(meetingId, async (transcript) => {
+    await processTranscript(meetingId, transcript);
+  });
+
+  detectionStates.set(meetingId, {
+    attendees: meeting.attendees.map((a) => a.attendee),
+    known,
+    pending: [],
+    context: [],
+    lastRunTime: Date.now(),
+    running: null,
+    cleanup,
+  });
+
+  logger.info({ meetingId, known: known.length }, 'Detection started');
+}
+
+/**
+ * Stop detection for a meeting, processing any lines still pending
+ */
+export async function stopDetection(meetingId: string): Promise<void> {
+  const state = detectionStates.get(meetingId);
+  if (!state) {
+    return;
+  }
+
+  state.cleanup();
+  await state.running;
+  if (state.pending.length > 0) {
+    await runDetection(meetingId, state);
+  }
+
+  detectionStates.delete(meetingId);
+  logger.info({ meetingId }, 'Detection stopped');
+}
+
+/**
+ * Check if detection is running for a meeting
+ */
+export function isDetectionEnabled(meetingId: string): boolean {
+  return detectionStates.has(meetingId);
+}
+
+// ============================================
+// TRANSCRIPT PROCESSING
+// ============================================
+
+/**
+ * Queue a buffered transcript and run detection once enough has been said
+ */
+async function processTranscript(meetingId: string, transcript: BufferedTranscript): Promise<void> {
+  const state = detectionStates.get(meetingId);
+  if (!state) {
+    return;
+  }
+
+  state.pending.push(...transcript.chunks.filter((c) => c.isFinal && c.text.trim()));
+
+  // One run at a time per meeting; lines that arrive meanwhile wait for the next
+  if (state.running) {
+    return;
+  }
+
+  const waited = Date.now() - state.lastRunTime;
+  if (state.pending.length < BATCH_MIN_LINES && waited < BATCH_MAX_WAIT_MS) {
+    return;
+  }
+
+  // Not awaited so other transcript handlers are not held up by the model
+  void runDetection(meetingId, state);
+}
+
+async function runDetection(meetingId: string, state: DetectionState): Promise<void> {
+  const chunks = state.pending;
+  state.pending = [];
+  state.lastRunTime = Date.now();
+
+  state.running = detectBatch(meetingId, state, chunks)
+    .catch((error) => {
+      logger.error({ err: error, meetingId }, 'Detection failed');
+    })
+    .finally(() => {
+      state.running = null;
+    });
+
+  await state.running;
+}
+
+async function detectBatch(meetingId: string, state: DetectionState, chunks: TranscriptChunk[]): Promise<void> {
+  if (chunks.length === 0) {
+    return;
+  }
+
+  updateAgentStatus('tracker', 'processing');
+
+  try {
+    const result = await createStructuredCompletion(
+      detectionSchema,
+      [{ role: 'user', content: buildDetectionInput(state, chunks) }],
+      { systemPrompt: DETECTION_PROMPT, temperature: 0.1, meetingId }
+    );
+
+    state.context = [...state.context, ...chunks.map(formatLine)].slice(-CONTEXT_LINES);
+
+    await storeDetections(meetingId, state, chunks, result);
+    incrementAgentProcessed('tracker');
+  } finally {
+    updateAgentStatus('tracker', 'listening');
+  }
+}
+
+function buildDetectionInput(state: DetectionState, chunks: TranscriptChunk[]): string {
+  const sections = [
+    `TODAY: ${new Date().toISOString().slice(0, 10)}`,
+    `ATTENDEES: ${state.attendees.map((a) => a.name).join(', ') || 'not recorded'}`,
+  ];
+
+  if (state.known.length > 0) {
+    sections.push(`ALREADY CAPTURED:\n${state.known.slice(-20).map((k) => `- (${k.type}) ${k.description}`).join('\n')}`);
+  }
+  if (state.context.length > 0) {
+    sections.push(`EARLIER (context only):\n${state.context.join('\n')}`);
+  }
+  sections.push(`LATEST:\n${chunks.map((chunk, i) => `[${i + 1}] ${formatLine(chunk)}`).join('\n')}`);
+
+  return sections.join('\n\n');
+}
+
+// ============================================
+// DETECTION STORAGE
+// ============================================
+
+async function storeDetections(
+  meetingId: string,
+  state: DetectionState,
+  chunks: TranscriptChunk[],
+  result: DetectionResult
+): Promise<void> {
+  const sourceOf = (line: number | null | undefined) =>
+    line ? chunks[line - 1]?.entryId ?? null : null;
+
+  for (const item of result.actions) {
+    if (item.confidence < DETECTION_THRESHOLD) continue;
+
+    const attendee = resolveAttendee(item.assignee, state.attendees);
+    const dueDate = parseDueDate(item.dueDate);
+    const duplicate = findDuplicate(state, 'action', item.description);
+
+    if (duplicate) {
+      await mergeAction(duplicate.id, item.confidence, attendee, item.assignee, dueDate);
+      continue;
+    }
+
+    const action = await prisma.detectedAction.create({
+      data: {
+        meetingId,
+        description: item.description,
+        assignee: attendee?.name ?? item.assignee,
+        assigneeId: attendee?.id,
+        dueDate,
+        confidence: item.confidence,
+        sourceTranscriptId: sourceOf(item.sourceLine),
+      },
+    });
+
+    state.known.push(knownDetection(action.id, 'action', action.description));
+    emitDetection(meetingId, { type: 'action', action });
+  }
+
+  for (const item of result.decisions) {
+    if (item.confidence < DETECTION_THRESHOLD) continue;
+
+    const duplicate = findDuplicate(state, 'decision', item.description);
+    if (duplicate) {
+      await mergeDecision(duplicate.id, item);
+      continue;
+    }
+
+    const decision = await prisma.detectedDecision.create({
+      data: {
+        meetingId,
+        description: item.description,
+        confidence: item.confidence,
+        votedFor: item.votedFor,
+        votedAgainst: item.votedAgainst,
+        abstained: item.abstained,
+        sourceTranscriptId: sourceOf(item.sourceLine),
+      },
+    });
+
+    state.known.push(knownDetection(decision.id, 'decision', decision.description));
+    emitDetection(meetingId, { type: 'decision', decision });
+  }
+}
+
+/**
+ * Fill in details a repeated mention adds to a pending detected action
+ */
+async function mergeAction(
+  id: string,
+  confidence: number,
+  attendee: AttendeeRef | null,
+  assignee: string | null,
+  dueDate: Date | null
+): Promise<void> {
+  const existing = await prisma.detectedAction.findUnique({ where: { id } });
+  if (!existing || existing.status !== 'DETECTED') return;
+
+  await prisma.detectedAction.update({
+    where: { id },
+    data: {
+      confidence: Math.max(existing.confidence, confidence),
+      ...(!existing.assignee && assignee && { assignee: attendee?.name ?? assignee, assigneeId: attendee?.id }),
+      ...(!existing.dueDate && dueDate && { dueDate }),
+    },
+  });
+}
+
+/**
+ * Fill in vote counts a repeated mention adds to a pending detected decision
+ */
+async function mergeDecision(id: string, item: DetectionResult['decisions'][number]): Promise<void> {
+  const existing = await prisma.detectedDecision.findUnique({ where: { id } });
+  if (!existing || existing.status !== 'DETECTED') return;
+
+  await prisma.detectedDecision.update({
+    where: { id },
+    data: {
+      confidence: Math.max(existing.confidence, item.confidence),
+      votedFor: existing.votedFor ?? item.votedFor,
+      votedAgainst: existing.votedAgainst ?? item.votedAgainst,
+      abstained: existing.abstained ?? item.abstained,
+    },
+  });
+}
+
+// ============================================
+// EVENT HANDLING
+// ============================================
+
+/**
+ * Register a handler for new detections
+ */
+export function onDetection(meetingId: string, handler: DetectionHandler): () => void {
+  if (!detectionHandlers.has(meetingId)) {
+    detectionHandlers.set(meetingId, []);
+  }
+  detectionHandlers.get(meetingId)!.push(handler);
+
+  return () => {
+    const handlers = detectionHandlers.get(meetingId);
+    if (handlers) {
+      const index = handlers.indexOf(handler);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  };
+}
+
+function emitDetection(meetingId: string, detection: Detection): void {
+  const handlers = detectionHandlers.get(meetingId) || [];
+  for (const handler of handlers) {
+    try {
+      handler(detection);
+    } catch (error) {
+      console.error('Error in detection handler:', error);
+    }
+  }
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export const detectionAgent = {
+  startDetection,
+  stopDetection,
+  isDetectionEnabled,
+  onDetection,
+  resolveAttendee,
+};
+
+export default detectionAgent;
@@ -4,7 +4,16 @@
 
 export * from './client';
 export * from './prompts';
+export * from './structured';
 export * from './advisor-agent';
+export * from './summary-agent';
+export * from './prep-agent';
+export * from './detection-agent';
+export * from './analyst-agent';
+export * from './agenda-agent';
 
-export { default as openai } from './client';
+export { default as llmClient } from './client';
 export { default as advisorAgent } from './advisor-agent';
+export { default as detectionAgent } from './detection-agent';
+export { default as analystAgent } from './analyst-agent';
+export { default as agendaAgent } from './agenda-agent';
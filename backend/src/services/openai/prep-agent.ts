@@ -0,0 +1,151 @@
+/**
+ * OpenAI Preparation Agent
+ *
+ * Reads the briefing papers linked to an agenda item and writes the
+ * pre-meeting analysis (summary, key points, risks, opportunities) together
+ * with suggested questions for directors.
+ *
+ * Papers are trimmed to fit PREP_MAX_INPUT_TOKENS, shared evenly between the
+ * documents of the item.
+ */
+
+import { z } from 'zod';
+import { createLogger } from '../../lib/logger';
+import { isConfigured } from './client';
+import { ProviderScope } from '../llm';
+import { createStructuredCompletion, StructuredOutputError } from './structured';
+import { PREPARATION_PROMPT } from './prompts';
+
+const logger = createLogger('preparation');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Paper budget per agenda item, in estimated tokens (~4 characters each)
+const MAX_INPUT_TOKENS = parseInt(process.env.PREP_MAX_INPUT_TOKENS || '12000');
+const MAX_OUTPUT_TOKENS = 1500;
+const MAX_QUESTIONS = 5;
+
+// ============================================
+// TYPES
+// ============================================
+
+export class PreparationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'PreparationError';
+    this.status = status;
+  }
+}
+
+export interface AgendaItemBriefing {
+  meetingTitle: string;
+  meetingType: string;
+  title: string;
+  description: string | null;
+  presenter: string | null;
+  documents: Array<{
+    title: string;
+    summary: string | null;
+    text: string | null;
+  }>;
+}
+
+const questionSchema = z.object({
+  question: z.string().min(1),
+  category: z.enum(['CLARIFICATION', 'RISK', 'OPPORTUNITY', 'STRATEGIC', 'OPERATIONAL']),
+  priority: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+  rationale: z.string().nullish().transform((v) => v || null),
+});
+
+const analysisSchema = z.object({
+  summary: z.string().min(1),
+  keyPoints: z.array(z.string()).default([]),
+  risks: z.array(z.string()).default([]),
+  opportunities: z.array(z.string()).default([]),
+  relatedTopics: z.array(z.string()).default([]),
+  confidence: z.number().min(0).max(1),
+  questions: z.array(questionSchema).default([]),
+});
+
+export type SuggestedQuestion = z.infer<typeof questionSchema>;
+export type AgendaItemAnalysis = z.infer<typeof analysisSchema>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Render the agenda item and its papers, trimming long papers to the budget
+ */
+export function formatBriefing(briefing: AgendaItemBriefing, maxTokens = MAX_INPUT_TOKENS): string {
+  const perDocument = Math.floor((maxTokens * 4) / Math.max(briefing.documents.length, 1));
+
+  const header = [
+    `MEETING: ${briefing.meetingTitle} (${briefing.meetingType.toLowerCase()})`,
+    `AGENDA ITEM: ${briefing.title}`,
+    briefing.description && `DESCRIPTION: ${briefing.description}`,
+    briefing.presenter && `PRESENTER: ${briefing.presenter}`,
+  ].filter(Boolean).join('\n');
+
+  const papers = briefing.documents.map((doc, i) => {
+    const body = doc.text
+      ? doc.text.length > perDocument
+        ? `${doc.text.slice(0, perDocument)}\n[... remainder of paper omitted]`
+        : doc.text
+      : '(full text not available)';
+    return [
+      `### Paper ${i + 1}: ${doc.title}`,
+      doc.summary && `Summary: ${doc.summary}`,
+      body,
+    ].filter(Boolean).join('\n');
+  });
+
+  return `${header}\n\nBRIEFING PAPERS:\n${papers.join('\n\n')}`;
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Analyze one agenda item from its briefing papers
+ */
+export async function analyzeAgendaItem(
+  briefing: AgendaItemBriefing,
+  scope: ProviderScope = {}
+): Promise<AgendaItemAnalysis> {
+  if (!(await isConfigured(scope))) {
+    throw new PreparationError('OpenAI not configured', 503);
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const analysis = await createStructuredCompletion(
+      analysisSchema,
+      [{ role: 'user', content: formatBriefing(briefing) }],
+      { systemPrompt: PREPARATION_PROMPT, temperature: 0.3, maxTokens: MAX_OUTPUT_TOKENS, ...scope }
+    );
+
+    logger.info({
+      agendaItem: briefing.title,
+      documents: briefing.documents.length,
+      questions: analysis.questions.length,
+      duration: Date.now() - startTime,
+    }, 'Agenda item analyzed');
+
+    return { ...analysis, questions: analysis.questions.slice(0, MAX_QUESTIONS) };
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      logger.warn({ problem: error.problem }, 'Invalid preparation response from model');
+      throw new PreparationError('The AI model did not return a valid analysis');
+    }
+    throw error;
+  }
+}
+
+export default analyzeAgendaItem;
@@ -0,0 +1,67 @@
+/**
+ * Structured (JSON) Completions
+ *
+ * Requests JSON from the model and validates it against a zod schema.
+ * An invalid response is sent back to the model with the validation problems
+ * for another attempt before giving up.
+ */
+
+import { z } from 'zod';
+import { createCompletion, ChatMessage, CompletionOptions } from './client';
+
+export class StructuredOutputError extends Error {
+  status = 502;
+
+  constructor(public problem: string) {
+    super(`Invalid response from AI model: ${problem}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface StructuredCompletionOptions extends Omit<CompletionOptions, 'responseFormat'> {
+  retries?: number;
+}
+
+/**
+ * Describe zod validation errors in a form the model can act on
+ */
+function describeIssues(error: z.ZodError): string {
+  return error.errors.map((e) => `${e.path.join('.') || 'response'}: ${e.message}`).join('; ');
+}
+
+/**
+ * Create a completion and parse it with `schema`
+ */
+export async function createStructuredCompletion<T extends z.ZodTypeAny>(
+  schema: T,
+  messages: ChatMessage[],
+  options: StructuredCompletionOptions = {}
+): Promise<z.infer<T>> {
+  const { retries = 1, ...completionOptions } = options;
+  const conversation = [...messages];
+  let problem = 'no response';
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const response = await createCompletion(conversation, {
+      ...completionOptions,
+      responseFormat: 'json',
+    });
+
+    try {
+      const result = schema.safeParse(JSON.parse(response));
+      if (result.success) {
+        return result.data;
+      }
+      problem = describeIssues(result.error);
+    } catch {
+      problem = 'response was not valid JSON';
+    }
+
+    conversation.push(
+      { role: 'assistant', content: response },
+      { role: 'user', content: `That response was invalid (${problem}). Reply again with JSON in exactly the requested shape.` }
+    );
+  }
+
+  throw new StructuredOutputError(problem);
+}
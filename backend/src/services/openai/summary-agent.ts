@@ -0,0 +1,322 @@
+/**
+ * OpenAI Summary Agent
+ *
+ * Writes the post-meeting summary from the recorded transcript:
+ * - Transcript entries are grouped by agenda item
+ * - Short meetings are summarized in a single request
+ * - Long meetings are map-reduced: each agenda item (split into parts if it
+ *   is itself too long) is summarized separately, then the overview, attendance
+ *   notes and next steps are written from those notes
+ *
+ * Every model response is validated against a zod schema (see structured.ts).
+ */
+
+import { z } from 'zod';
+import { createLogger } from '../../lib/logger';
+import { mapWithConcurrency } from '../../lib/concurrency';
+import { isConfigured } from './client';
+import { ProviderScope } from '../llm';
+import { createStructuredCompletion, StructuredOutputError } from './structured';
+import { SUMMARY_PROMPT, SEGMENT_SUMMARY_PROMPT, SUMMARY_REDUCE_PROMPT } from './prompts';
+import type { MeetingWithRelations, SummaryData } from '../ai/summary';
+
+const logger = createLogger('summary');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Transcript budget per request, in estimated tokens (~4 characters each)
+const MAX_INPUT_TOKENS = parseInt(process.env.SUMMARY_MAX_INPUT_TOKENS || '12000');
+const MAX_OUTPUT_TOKENS = parseInt(process.env.SUMMARY_MAX_OUTPUT_TOKENS || '2000');
+const MAP_CONCURRENCY = 3;
+const GENERAL_SEGMENT_ID = 'general';
+
+// ============================================
+// TYPES
+// ============================================
+
+export class SummaryGenerationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = 'SummaryGenerationError';
+    this.status = status;
+  }
+}
+
+interface TranscriptSegment {
+  agendaItemId: string | null;
+  title: string;
+  lines: string[];
+  startTime: Date;
+  endTime: Date;
+}
+
+const segmentNotesSchema = z.object({
+  summary: z.string().min(1),
+  keyPoints: z.array(z.string()).default([]),
+  outcome: z.string().nullish().transform((v) => v ?? ''),
+});
+
+const meetingNotesSchema = z.object({
+  overview: z.string().min(1),
+  attendanceNotes: z.string().nullish().transform((v) => v ?? ''),
+  nextSteps: z.array(z.string()).default([]),
+});
+
+const fullSummarySchema = meetingNotesSchema.extend({
+  discussions: z.array(segmentNotesSchema.extend({ agendaItemId: z.string() })).default([]),
+});
+
+type SegmentNotes = z.infer<typeof segmentNotesSchema>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Group transcript entries by agenda item, in agenda order, with entries
+ * that belong to no agenda item last
+ */
+export function segmentTranscript(meeting: MeetingWithRelations): TranscriptSegment[] {
+  const segments = new Map<string, TranscriptSegment>();
+
+  for (const entry of meeting.transcriptEntries) {
+    const item = entry.agendaItemId
+      ? meeting.agendaItems.find((a) => a.id === entry.agendaItemId)
+      : undefined;
+    const key = item?.id ?? GENERAL_SEGMENT_ID;
+
+    let segment = segments.get(key);
+    if (!segment) {
+      segment = {
+        agendaItemId: item?.id ?? null,
+        title: item?.title ?? 'General discussion',
+        lines: [],
+        startTime: entry.timestamp,
+        endTime: entry.timestamp,
+      };
+      segments.set(key, segment);
+    }
+
+    segment.lines.push(`${entry.speakerName}: ${entry.content}`);
+    segment.endTime = entry.timestamp;
+  }
+
+  const order = (segment: TranscriptSegment) =>
+    meeting.agendaItems.find((a) => a.id === segment.agendaItemId)?.order ?? Number.MAX_SAFE_INTEGER;
+
+  return [...segments.values()].sort((a, b) => order(a) - order(b));
+}
+
+/**
+ * Split a segment's lines into parts that each fit the token budget
+ */
+export function splitLines(lines: string[], maxTokens: number): string[][] {
+  const parts: string[][] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const line of lines) {
+    const lineTokens = estimateTokens(line) + 1;
+    if (current.length > 0 && tokens + lineTokens > maxTokens) {
+      parts.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(line);
+    tokens += lineTokens;
+  }
+
+  if (current.length > 0) {
+    parts.push(current);
+  }
+  return parts;
+}
+
+/**
+ * Ask for JSON matching `schema` (one retry with the validation error)
+ */
+async function completeJson<T extends z.ZodTypeAny>(
+  systemPrompt: string,
+  content: string,
+  schema: T,
+  scope: ProviderScope
+): Promise<z.infer<T>> {
+  try {
+    return await createStructuredCompletion(schema, [{ role: 'user', content }], {
+      systemPrompt,
+      temperature: 0.2,
+      maxTokens: MAX_OUTPUT_TOKENS,
+      ...scope,
+    });
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      logger.warn({ problem: error.problem }, 'Invalid summary response from model');
+      throw new SummaryGenerationError('The AI model did not return a valid summary');
+    }
+    throw error;
+  }
+}
+
+function formatMeetingContext(meeting: MeetingWithRelations): string {
+  const present = meeting.attendees.filter((a) => a.isPresent).map((a) => a.attendee.name);
+  const absent = meeting.attendees.filter((a) => !a.isPresent).map((a) => a.attendee.name);
+
+  const lines = [
+    `MEETING: ${meeting.title} (${meeting.type.toLowerCase()})`,
+    `DATE: ${meeting.scheduledStart.toISOString().slice(0, 10)}`,
+    `PRESENT: ${present.join(', ') || 'not recorded'}`,
+  ];
+  if (absent.length > 0) {
+    lines.push(`ABSENT: ${absent.join(', ')}`);
+  }
+  if (meeting.decisions.length > 0) {
+    lines.push('RECORDED DECISIONS:', ...meeting.decisions.map((d) =>
+      `- ${d.description} (for ${d.votedFor}, against ${d.votedAgainst}, abstained ${d.abstained})`
+    ));
+  }
+  if (meeting.actionItems.length > 0) {
+    lines.push('RECORDED ACTION ITEMS:', ...meeting.actionItems.map((a) =>
+      `- ${a.description}${a.assignee ? ` (${a.assignee.name})` : ''}${a.dueDate ? `, due ${a.dueDate.toISOString().slice(0, 10)}` : ''}`
+    ));
+  }
+
+  return lines.join('\n');
+}
+
+function segmentHeader(segment: TranscriptSegment): string {
+  return segment.agendaItemId
+    ? `## ${segment.title} [${segment.agendaItemId}]`
+    : `## ${segment.title}`;
+}
+
+function formatNotes(notes: SegmentNotes): string {
+  return [
+    notes.summary,
+    ...notes.keyPoints.map((p) => `- ${p}`),
+    notes.outcome && `Outcome: ${notes.outcome}`,
+  ].filter(Boolean).join('\n');
+}
+
+// ============================================
+// PIPELINE
+// ============================================
+
+async function summarizeSegment(segment: TranscriptSegment, scope: ProviderScope): Promise<SegmentNotes> {
+  const parts = splitLines(segment.lines, MAX_INPUT_TOKENS);
+
+  const partNotes = await mapWithConcurrency(parts, MAP_CONCURRENCY, (lines) =>
+    completeJson(
+      SEGMENT_SUMMARY_PROMPT,
+      `AGENDA ITEM: ${segment.title}\n\nTRANSCRIPT:\n${lines.join('\n')}`,
+      segmentNotesSchema,
+      scope
+    )
+  );
+
+  if (partNotes.length === 1) {
+    return partNotes[0];
+  }
+
+  // Reduce the parts of a long discussion into one set of notes
+  const combined = partNotes.map((notes, i) => `### Part ${i + 1}\n${formatNotes(notes)}`).join('\n\n');
+  return completeJson(
+    SEGMENT_SUMMARY_PROMPT,
+    `AGENDA ITEM: ${segment.title}\n\nNOTES ON CONSECUTIVE PARTS:\n${combined}`,
+    segmentNotesSchema,
+    scope
+  );
+}
+
+function discussionDuration(segment: TranscriptSegment, plannedMinutes: number): number {
+  const minutes = Math.round((segment.endTime.getTime() - segment.startTime.getTime()) / 60000);
+  return minutes > 0 ? minutes : plannedMinutes;
+}
+
+/**
+ * Generate the summary for a meeting from its transcript
+ */
+export async function summarizeMeeting(meeting: MeetingWithRelations): Promise<SummaryData> {
+  const scope: ProviderScope = { meetingId: meeting.id, organizationId: meeting.organizationId };
+  if (!(await isConfigured(scope))) {
+    throw new SummaryGenerationError('OpenAI not configured', 503);
+  }
+  if (meeting.transcriptEntries.length === 0) {
+    throw new SummaryGenerationError('Meeting has no transcript to summarize', 422);
+  }
+
+  const startTime = Date.now();
+  const context = formatMeetingContext(meeting);
+  const segments = segmentTranscript(meeting);
+  const agendaSegments = segments.filter((s) => s.agendaItemId !== null);
+
+  const transcript = segments
+    .map((segment) => `${segmentHeader(segment)}\n${segment.lines.join('\n')}`)
+    .join('\n\n');
+
+  let meetingNotes: z.infer<typeof meetingNotesSchema>;
+  const notesByItem = new Map<string, SegmentNotes>();
+  const singlePass = estimateTokens(context + transcript) <= MAX_INPUT_TOKENS;
+
+  if (singlePass) {
+    const result = await completeJson(SUMMARY_PROMPT, `${context}\n\nTRANSCRIPT:\n${transcript}`, fullSummarySchema, scope);
+    meetingNotes = result;
+    for (const discussion of result.discussions) {
+      notesByItem.set(discussion.agendaItemId, discussion);
+    }
+  } else {
+    // Map: notes per agenda item (and for general discussion)
+    const segmentNotes = await mapWithConcurrency(segments, MAP_CONCURRENCY, (segment) => summarizeSegment(segment, scope));
+    segments.forEach((segment, i) => {
+      notesByItem.set(segment.agendaItemId ?? GENERAL_SEGMENT_ID, segmentNotes[i]);
+    });
+
+    // Reduce: meeting-level overview from the notes
+    const notes = segments
+      .map((segment, i) => `${segmentHeader(segment)}\n${formatNotes(segmentNotes[i])}`)
+      .join('\n\n');
+    meetingNotes = await completeJson(SUMMARY_REDUCE_PROMPT, `${context}\n\nAGENDA NOTES:\n${notes}`, meetingNotesSchema, scope);
+  }
+
+  // Titles and durations come from our own records, not the model
+  const discussions = agendaSegments.flatMap((segment) => {
+    const item = meeting.agendaItems.find((a) => a.id === segment.agendaItemId)!;
+    const notes = notesByItem.get(item.id);
+    if (!notes) {
+      logger.warn({ meetingId: meeting.id, agendaItemId: item.id }, 'Model skipped an agenda item');
+      return [];
+    }
+    return [{
+      agendaItemId: item.id,
+      title: item.title,
+      summary: notes.summary,
+      keyPoints: notes.keyPoints,
+      outcome: notes.outcome,
+      duration: discussionDuration(segment, item.duration),
+    }];
+  });
+
+  logger.info({
+    meetingId: meeting.id,
+    mode: singlePass ? 'single-pass' : 'map-reduce',
+    segments: segments.length,
+    entries: meeting.transcriptEntries.length,
+    duration: Date.now() - startTime,
+  }, 'Meeting summary generated');
+
+  return {
+    overview: meetingNotes.overview,
+    attendanceNotes: meetingNotes.attendanceNotes,
+    nextSteps: meetingNotes.nextSteps,
+    discussions,
+  };
+}
+
+export default summarizeMeeting;
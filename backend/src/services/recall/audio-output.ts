@@ -2,28 +2,66 @@
  * Recall.ai Audio Output Service
  * 
  * Handles text-to-speech output for the bot to speak in meetings.
- * Supports both OpenAI TTS and ElevenLabs for voice synthesis.
+ * Speech comes from the meeting organization's LLM provider, or from
+ * ElevenLabs for organizations on the default provider when it is configured.
+ * The provider, voice and speed come from the meeting's advisor profile
+ * (see services/advisor). Its speak policy is applied here, to everything the
+ * bot says: `silent` keeps the bot to the chat, and `when_asked` does too
+ * unless the speech is marked `asked` (answers to the wake word, and what an
+ * editor tells the bot to say).
+ *
+ * `speakStream` speaks text while it is still being written: each sentence is
+ * synthesized as soon as it is complete and played once the previous one has
+ * finished, so the bot starts talking after the first sentence rather than
+ * after the whole answer.
+ *
+ * The bot can be cut off: when an attendee starts talking over it (barge-in)
+ * or a user stops it, its audio output is stopped, the rest of the answer and
+ * of the speak queue is dropped, and an insight being spoken is marked as
+ * interrupted.
  */
 
-import OpenAI from 'openai';
+import { MeetingBot } from '@prisma/client';
 import prisma from '../../lib/prisma';
-import { outputAudio, sendChatMessage } from './client';
+import { mp3Duration } from '../../lib/mp3';
+import { outputAudio, sendChatMessage, stopOutputAudio } from './client';
 import { textToSpeech as elevenLabsTTS, isConfigured as isElevenLabsConfigured, PROFESSIONAL_VOICES } from '../elevenlabs/client';
+import { getLlmProvider, hasOwnLlmProvider } from '../llm';
+import { AdvisorProfile, getAdvisorProfile } from '../advisor';
+import { isBotSpeaker } from './speakers';
 
 // ============================================
 // CONFIGURATION
 // ============================================
 
 const SPEAK_COOLDOWN_MS = parseInt(process.env.AGENT_SPEAK_COOLDOWN || '30') * 1000;
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const TTS_PROVIDER = process.env.TTS_PROVIDER || 'openai'; // 'openai' or 'elevenlabs'
+const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+const MIN_SENTENCE_CHARS = 12;     // Shorter fragments ("Mr.", "1.") are joined to the next
+const MAX_SENTENCE_CHARS = 250;    // Longer runs without a full stop are cut at a space
+const PLAYBACK_LEAD_MS = 150;      // Send the next clip this long before the current one ends
+const SPOKEN_CHARS_PER_SECOND = 15; // Playing time estimate for clips that are not MP3
+const BARGE_IN_MIN_WORDS = parseInt(process.env.AGENT_BARGE_IN_MIN_WORDS || '2'); // Fewer is noise ("mm", "yes")
 
-// OpenAI client for TTS
-const openai = OPENAI_API_KEY ? new OpenAI({ apiKey: OPENAI_API_KEY }) : null;
+// Sentence end: punctuation, closing quotes or brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
 
 // Track last speak time per meeting
 const lastSpeakTime: Map<string, number> = new Map();
 
+// What the bot is saying in each meeting, so it can be cut off
+interface ActiveSpeech {
+  recallBotId: string;
+  botName: string;        // Its speaker name in the transcript
+  controller: AbortController;
+  insightId?: string;
+  startedAt: number;
+  producing: boolean;     // Still generating or sending audio
+  playingUntil: number;   // When the audio sent so far finishes playing
+  interrupted: boolean;
+}
+
+const activeSpeech: Map<string, ActiveSpeech> = new Map();
+
 // ============================================
 // TYPES
 // ============================================
@@ -31,10 +69,12 @@ const lastSpeakTime: Map<string, number> = new Map();
 export interface SpeakOptions {
   meetingId: string;
   text: string;
-  voice?: string; // Voice ID (OpenAI: alloy, echo, etc. | ElevenLabs: voice ID)
-  speed?: number; // Only for OpenAI
+  voice?: string; // Voice ID (OpenAI: alloy, echo, etc. | ElevenLabs: voice ID); default from the advisor profile
+  speed?: number; // Only for the LLM provider; default from the advisor profile
   force?: boolean; // Bypass cooldown
   alsoChatMessage?: boolean; // Also send as chat message
+  insightId?: string; // Advisor insight being spoken (marked if interrupted)
+  asked?: boolean; // Answers someone who asked the bot (spoken under the `when_asked` policy)
 }
 
 export interface SpeakResult {
@@ -44,35 +84,36 @@ export interface SpeakResult {
   reason?: string;
 }
 
-// ============================================
-// TTS GENERATION
-// ============================================
+export interface SpeakStreamOptions extends Omit<SpeakOptions, 'text'> {
+  text: AsyncIterable<string>;
+  signal?: AbortSignal; // Stop reading and speaking
+}
 
-/**
- * Generate audio from text using OpenAI TTS
- */
-async function generateOpenAITTS(
-  text: string,
-  voice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer' = 'nova',
-  speed: number = 1.0
-): Promise<Buffer> {
-  if (!openai) {
-    throw new Error('OpenAI API key not configured');
-  }
+export interface SpeakStreamResult extends SpeakResult {
+  text: string; // Everything read from the stream
+}
 
-  const response = await openai.audio.speech.create({
-    model: 'tts-1',
-    voice,
-    input: text,
-    speed,
-    response_format: 'mp3',
-  });
+export interface Interruption {
+  reason: 'barge_in' | 'manual';
+  by: string; // The attendee who spoke up, or the user who stopped the bot
+}
+
+export interface StopSpeakingResult {
+  stopped: boolean; // The bot was speaking and has been cut off
+  dropped: number;  // Queued messages dropped
+  insightId?: string;
+}
 
-  // Get the audio data as a buffer
-  const arrayBuffer = await response.arrayBuffer();
-  return Buffer.from(arrayBuffer);
+export interface SpeechInterruptedEvent extends Interruption {
+  meetingId: string;
+  insightId?: string;
+  dropped: number;
 }
 
+// ============================================
+// TTS GENERATION
+// ============================================
+
 /**
  * Generate audio from text using ElevenLabs TTS
  * ElevenLabs provides more natural-sounding voices
@@ -98,32 +139,37 @@ async function generateElevenLabsTTS(
 }
 
 /**
- * Generate TTS audio using configured provider
+ * Generate TTS audio using the provider and voice in the advisor profile
  */
 async function generateTTSAudio(
+  meetingId: string,
   text: string,
-  voice?: string,
-  speed: number = 1.0
+  profile: AdvisorProfile,
+  voice: string | undefined = profile.voice ?? undefined,
+  speed: number = profile.speechSpeed
 ): Promise<Buffer> {
-  const provider = TTS_PROVIDER.toLowerCase();
+  // Organizations with their own provider keep speech there too
+  const elevenLabs = profile.ttsProvider === 'elevenlabs'
+    && isElevenLabsConfigured()
+    && !(await hasOwnLlmProvider({ meetingId }));
 
-  if (provider === 'elevenlabs' && isElevenLabsConfigured()) {
+  if (elevenLabs) {
     console.log('Using ElevenLabs TTS');
     // Don't pass OpenAI voice IDs to ElevenLabs - let it use default professional voice
-    const elevenLabsVoice = (voice && !['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'].includes(voice)) 
+    const elevenLabsVoice = (voice && !OPENAI_VOICES.includes(voice))
       ? voice 
       : undefined; // Use default ElevenLabs voice
     return generateElevenLabsTTS(text, elevenLabsVoice);
   }
 
-  if (openai) {
-    console.log('Using OpenAI TTS');
-    // Map OpenAI voice names
-    const openAIVoice = (voice as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer') || 'nova';
-    return generateOpenAITTS(text, openAIVoice, speed);
-  }
+  // An ElevenLabs voice ID in the profile means nothing to the LLM provider
+  const llmVoice = profile.ttsProvider === 'llm' || (voice && OPENAI_VOICES.includes(voice))
+    ? voice
+    : undefined;
 
-  throw new Error('No TTS provider configured. Set OPENAI_API_KEY or ELEVENLABS_API_KEY.');
+  const provider = await getLlmProvider({ meetingId });
+  console.log(`Using ${provider.kind} TTS`);
+  return provider.speech(text, { voice: llmVoice || 'nova', speed });
 }
 
 // ============================================
@@ -151,6 +197,66 @@ function canSpeak(meetingId: string, force: boolean = false): { allowed: boolean
   return { allowed: true };
 }
 
+/**
+ * Start tracking what the bot says in a meeting (replacing earlier speech)
+ */
+function beginSpeech(meetingId: string, bot: Pick<MeetingBot, 'recallBotId' | 'botName'>, insightId?: string): ActiveSpeech {
+  const speech: ActiveSpeech = {
+    recallBotId: bot.recallBotId,
+    botName: bot.botName,
+    controller: new AbortController(),
+    insightId,
+    startedAt: Date.now(),
+    producing: true,
+    playingUntil: 0,
+    interrupted: false,
+  };
+  activeSpeech.set(meetingId, speech);
+  return speech;
+}
+
+/**
+ * Send a clip to the meeting and note how long it will play
+ */
+async function playClip(speech: ActiveSpeech, audio: Buffer, text: string): Promise<number> {
+  await outputAudio(speech.recallBotId, {
+    kind: 'mp3',
+    b64_data: audio.toString('base64'),
+  });
+
+  // Cut off while the clip was being sent
+  if (speech.interrupted) {
+    await stopOutputAudio(speech.recallBotId).catch(() => undefined);
+    return 0;
+  }
+
+  const seconds = mp3Duration(audio);
+  const playing = (seconds || text.length / SPOKEN_CHARS_PER_SECOND) * 1000;
+  speech.playingUntil = Math.max(speech.playingUntil, Date.now()) + playing;
+  return seconds * 1000;
+}
+
+/**
+ * Whether the bot is speaking (or about to) in a meeting
+ */
+export function isSpeaking(meetingId: string): boolean {
+  const speech = activeSpeech.get(meetingId);
+  return !!speech && (speech.producing || speech.playingUntil > Date.now());
+}
+
+/**
+ * Why the advisor profile keeps the bot from speaking, or null when it may speak
+ */
+function policyRefusal(profile: AdvisorProfile, asked: boolean): string | null {
+  if (profile.speakPolicy === 'silent') {
+    return 'Speaking is turned off in the advisor profile';
+  }
+  if (profile.speakPolicy === 'when_asked' && !asked) {
+    return 'The advisor profile only speaks when asked';
+  }
+  return null;
+}
+
 /**
  * Make the bot speak in a meeting
  */
@@ -158,10 +264,12 @@ export async function speak(options: SpeakOptions): Promise<SpeakResult> {
   const {
     meetingId,
     text,
-    voice = 'nova',
-    speed = 1.0,
+    voice,
+    speed,
     force = false,
     alsoChatMessage = true,
+    insightId,
+    asked = false,
   } = options;
 
   // Check cooldown
@@ -199,27 +307,59 @@ export async function speak(options: SpeakOptions): Promise<SpeakResult> {
     };
   }
 
+  const profile = await getAdvisorProfile(meetingId);
   let spoken = false;
   let chatSent = false;
 
+  const refusal = policyRefusal(profile, asked);
+  if (refusal) {
+    if (alsoChatMessage) {
+      try {
+        await sendChatMessage(meetingBot.recallBotId, text, 'everyone');
+        chatSent = true;
+      } catch (error) {
+        console.error('Failed to send chat message:', (error as Error).message);
+      }
+    }
+    return {
+      success: chatSent,
+      spoken,
+      chatSent,
+      reason: refusal,
+    };
+  }
+
+  const speech = beginSpeech(meetingId, meetingBot, insightId);
+
   try {
     // Generate TTS audio
     console.log(`Generating TTS for: "${text.substring(0, 50)}..."`);
-    const audioBuffer = await generateTTSAudio(text, voice, speed);
-    const audioBase64 = audioBuffer.toString('base64');
+    const audioBuffer = await generateTTSAudio(meetingId, text, profile, voice, speed);
 
     // Send audio to Recall.ai
-    await outputAudio(meetingBot.recallBotId, {
-      kind: 'mp3',
-      b64_data: audioBase64,
-    });
+    if (!speech.interrupted) {
+      await playClip(speech, audioBuffer, text);
+      spoken = !speech.interrupted;
+    }
 
-    spoken = true;
-    lastSpeakTime.set(meetingId, Date.now());
-    console.log(`Bot spoke in meeting ${meetingId}`);
-  } catch (error: any) {
-    console.error('Failed to output audio:', error.message);
+    if (spoken) {
+      lastSpeakTime.set(meetingId, Date.now());
+      console.log(`Bot spoke in meeting ${meetingId}`);
+    }
+  } catch (error) {
+    console.error('Failed to output audio:', (error as Error).message);
     // Continue to try chat message
+  } finally {
+    speech.producing = false;
+  }
+
+  if (speech.interrupted) {
+    return {
+      success: false,
+      spoken: false,
+      chatSent: false,
+      reason: 'Interrupted',
+    };
   }
 
   // Also send as chat message if requested
@@ -227,8 +367,8 @@ export async function speak(options: SpeakOptions): Promise<SpeakResult> {
     try {
       await sendChatMessage(meetingBot.recallBotId, text, 'everyone');
       chatSent = true;
-    } catch (error: any) {
-      console.error('Failed to send chat message:', error.message);
+    } catch (error) {
+      console.error('Failed to send chat message:', (error as Error).message);
     }
   }
 
@@ -239,6 +379,199 @@ export async function speak(options: SpeakOptions): Promise<SpeakResult> {
   };
 }
 
+/**
+ * Take the first complete sentence off the front of `buffer`
+ */
+function takeSentence(buffer: string): [string, string] | null {
+  for (const match of buffer.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    if (buffer.slice(0, end).trim().length >= MIN_SENTENCE_CHARS) {
+      return [buffer.slice(0, end).trim(), buffer.slice(end)];
+    }
+  }
+
+  if (buffer.length > MAX_SENTENCE_CHARS) {
+    const space = buffer.lastIndexOf(' ', MAX_SENTENCE_CHARS);
+    const end = space > 0 ? space : MAX_SENTENCE_CHARS;
+    return [buffer.slice(0, end).trim(), buffer.slice(end)];
+  }
+
+  return null;
+}
+
+/**
+ * Split streamed text into sentences, yielding each as soon as it is complete
+ */
+export async function* splitSentences(text: AsyncIterable<string>): AsyncGenerator<string> {
+  let buffer = '';
+
+  for await (const delta of text) {
+    buffer += delta;
+    let sentence: [string, string] | null;
+    while ((sentence = takeSentence(buffer))) {
+      buffer = sentence[1];
+      if (sentence[0]) {
+        yield sentence[0];
+      }
+    }
+  }
+
+  if (buffer.trim()) {
+    yield buffer.trim();
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Make the bot speak text as it streams in, sentence by sentence.
+ *
+ * Sentences are synthesized as soon as they arrive, while earlier ones are
+ * still playing; clips go out in order, each when the one before it has
+ * (nearly) finished. The whole text is read even when the bot cannot speak,
+ * and is sent as one chat message at the end if requested: not when the bot
+ * was cut off, but also when the advisor profile keeps it silent.
+ *
+ * Errors from the text stream are passed on once the sentences already sent
+ * have played.
+ */
+export async function speakStream(options: SpeakStreamOptions): Promise<SpeakStreamResult> {
+  const {
+    meetingId,
+    text,
+    voice,
+    speed,
+    force = false,
+    alsoChatMessage = true,
+    asked = false,
+    signal,
+  } = options;
+
+  let reason: string | undefined;
+  let speech: ActiveSpeech | null = null;
+  let chatBotId: string | null = null;
+
+  const speakCheck = canSpeak(meetingId, force);
+  const meetingBot = await prisma.meetingBot.findUnique({
+    where: { meetingId },
+  });
+  const profile = await getAdvisorProfile(meetingId);
+  const refusal = policyRefusal(profile, asked);
+
+  if (!speakCheck.allowed) {
+    reason = `Cooldown active, ${Math.round((speakCheck.waitMs || 0) / 1000)}s remaining`;
+  } else if (!meetingBot) {
+    reason = 'No bot found for meeting';
+  } else if (meetingBot.status !== 'in_meeting') {
+    reason = `Bot not in meeting (status: ${meetingBot.status})`;
+  } else if (refusal) {
+    reason = refusal;
+    chatBotId = meetingBot.recallBotId;
+  } else {
+    chatBotId = meetingBot.recallBotId;
+    speech = beginSpeech(meetingId, meetingBot);
+    const controller = speech.controller;
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+
+  // Stopped by the caller or cut off
+  const stop = speech?.controller.signal ?? signal;
+  const sentences: string[] = [];
+  let spoken = false;
+  let playing = Promise.resolve();
+  let nextClipAt = 0;
+
+  async function play(current: ActiveSpeech, sentence: string, clip: Promise<Buffer | null>): Promise<void> {
+    const audio = await clip;
+    if (!audio || stop?.aborted) {
+      return;
+    }
+
+    const remaining = nextClipAt - Date.now() - PLAYBACK_LEAD_MS;
+    if (remaining > 0) {
+      await wait(remaining, stop);
+      if (stop?.aborted) {
+        return;
+      }
+    }
+
+    try {
+      const playingMs = await playClip(current, audio, sentence);
+      if (!current.interrupted) {
+        spoken = true;
+        lastSpeakTime.set(meetingId, Date.now());
+        nextClipAt = Math.max(nextClipAt, Date.now()) + playingMs;
+      }
+    } catch (error) {
+      console.error('Failed to output audio:', (error as Error).message);
+    }
+  }
+
+  try {
+    for await (const sentence of splitSentences(text)) {
+      if (stop?.aborted) {
+        break;
+      }
+      sentences.push(sentence);
+      if (!speech) {
+        continue;
+      }
+
+      const current = speech;
+      const clip = generateTTSAudio(meetingId, sentence, profile, voice, speed).catch((error) => {
+        console.error('Failed to generate TTS:', (error as Error).message);
+        return null;
+      });
+      playing = playing.then(() => play(current, sentence, clip));
+    }
+  } finally {
+    await playing;
+    if (speech) {
+      speech.producing = false;
+    }
+  }
+
+  const fullText = sentences.join(' ');
+  let chatSent = false;
+
+  if (speech?.interrupted) {
+    reason = 'Interrupted';
+  } else if (chatBotId && alsoChatMessage && fullText) {
+    try {
+      await sendChatMessage(chatBotId, fullText, 'everyone');
+      chatSent = true;
+    } catch (error) {
+      console.error('Failed to send chat message:', (error as Error).message);
+    }
+  }
+
+  if (spoken) {
+    console.log(`Bot spoke ${sentences.length} sentence(s) in meeting ${meetingId}`);
+  }
+
+  return {
+    success: spoken || chatSent,
+    spoken,
+    chatSent,
+    text: fullText,
+    ...(reason && { reason }),
+  };
+}
+
 /**
  * Send only a chat message (no TTS)
  */
@@ -257,8 +590,8 @@ export async function sendMessage(
   try {
     await sendChatMessage(meetingBot.recallBotId, message, 'everyone');
     return true;
-  } catch (error: any) {
-    console.error('Failed to send chat message:', error.message);
+  } catch (error) {
+    console.error('Failed to send chat message:', (error as Error).message);
     return false;
   }
 }
@@ -317,15 +650,125 @@ async function processQueue(meetingId: string): Promise<void> {
 export function clearSpeakQueue(meetingId: string): void {
   speakQueue.delete(meetingId);
   lastSpeakTime.delete(meetingId);
+  activeSpeech.delete(meetingId);
+}
+
+// ============================================
+// INTERRUPTION
+// ============================================
+
+type InterruptionHandler = (event: SpeechInterruptedEvent) => void;
+const interruptionHandlers: InterruptionHandler[] = [];
+
+/**
+ * Register a handler for the bot being cut off (in any meeting)
+ */
+export function onSpeechInterrupted(handler: InterruptionHandler): () => void {
+  interruptionHandlers.push(handler);
+
+  return () => {
+    const index = interruptionHandlers.indexOf(handler);
+    if (index > -1) {
+      interruptionHandlers.splice(index, 1);
+    }
+  };
+}
+
+function emitInterruption(event: SpeechInterruptedEvent): void {
+  for (const handler of interruptionHandlers) {
+    try {
+      handler(event);
+    } catch (error) {
+      console.error('Error in interruption handler:', error);
+    }
+  }
+}
+
+/**
+ * Stop the bot speaking: flush its audio output, drop the rest of what it
+ * was going to say (including the speak queue) and mark the insight it was
+ * speaking as interrupted
+ */
+export async function stopSpeaking(
+  meetingId: string,
+  interruption: Interruption
+): Promise<StopSpeakingResult> {
+  const queue = speakQueue.get(meetingId);
+  const dropped = queue?.length ?? 0;
+  if (queue) {
+    queue.length = 0;
+    speakQueue.delete(meetingId);
+  }
+
+  const speech = activeSpeech.get(meetingId);
+  if (!speech || !isSpeaking(meetingId)) {
+    return { stopped: false, dropped };
+  }
+
+  activeSpeech.delete(meetingId);
+  speech.interrupted = true;
+  speech.controller.abort();
+
+  try {
+    await stopOutputAudio(speech.recallBotId);
+  } catch (error) {
+    console.error('Failed to stop audio output:', (error as Error).message);
+  }
+
+  if (speech.insightId) {
+    await prisma.agentInsight.update({
+      where: { id: speech.insightId },
+      data: { interruptedAt: new Date(), interruptedBy: interruption.by },
+    }).catch((error) => console.error('Failed to record interruption:', error));
+  }
+
+  console.log(`Bot cut off in meeting ${meetingId} (${interruption.reason} by ${interruption.by})`);
+  emitInterruption({ meetingId, ...interruption, insightId: speech.insightId, dropped });
+
+  return {
+    stopped: true,
+    dropped,
+    ...(speech.insightId && { insightId: speech.insightId }),
+  };
+}
+
+/**
+ * Cut the bot off when an attendee starts talking over it (barge-in).
+ * Speech that began before the bot started talking, single words ("mm",
+ * "yes") and the bot's own speech coming back in the transcript do not count.
+ */
+export async function handleHumanSpeech(
+  meetingId: string,
+  speaker: string,
+  text: string,
+  startedAt: Date = new Date()
+): Promise<boolean> {
+  const speech = activeSpeech.get(meetingId);
+  if (!speech || !isSpeaking(meetingId) || startedAt.getTime() < speech.startedAt || isBotSpeaker(speaker, speech.botName)) {
+    return false;
+  }
+
+  const wordCount = text.split(/\s+/).filter((w) => w.length > 0).length;
+  if (wordCount < BARGE_IN_MIN_WORDS) {
+    return false;
+  }
+
+  const result = await stopSpeaking(meetingId, { reason: 'barge_in', by: speaker });
+  return result.stopped;
 }
 
 // Export service
 export const audioOutputService = {
   speak,
+  speakStream,
   sendMessage,
   queueSpeak,
   clearSpeakQueue,
   canSpeak,
+  isSpeaking,
+  stopSpeaking,
+  handleHumanSpeech,
+  onSpeechInterrupted,
 };
 
 export default audioOutputService;
@@ -5,8 +5,10 @@
  * Manages bot state in the database and coordinates with the Recall.ai API.
  */
 
+import { Job } from '@prisma/client';
 import prisma from '../../lib/prisma';
 import { botLogger as logger } from '../../lib/logger';
+import { enqueueJob, findActiveJob } from '../jobs/queue';
 import { 
   createBot as recallCreateBot,
   getBot as recallGetBot,
@@ -46,6 +48,14 @@ export interface BotStatus {
 // BOT MANAGEMENT
 // ============================================
 
+/**
+ * URL Recall.ai posts real-time transcript data to
+ */
+export function recallWebhookUrl(): string {
+  const baseUrl = process.env.WEBHOOK_BASE_URL || `http://localhost:${process.env.PORT || 3001}`;
+  return `${baseUrl}/webhooks/recall`;
+}
+
 /**
  * Send a bot to join a meeting
  */
@@ -125,7 +135,15 @@ export async function joinMeeting(options: BotJoinOptions): Promise<BotStatus> {
         {
           type: 'webhook',
           url: webhookUrl,
-          events: ['transcript.data', 'transcript.partial_data'],
+          events: [
+            'transcript.data',
+            'transcript.partial_data',
+            // Attendee presence (see speakers.ts)
+            'participant_events.join',
+            'participant_events.leave',
+            'participant_events.speech_on',
+            'participant_events.speech_off',
+          ],
         },
       ],
     };
@@ -140,10 +158,12 @@ export async function joinMeeting(options: BotJoinOptions): Promise<BotStatus> {
     create: {
       meetingId,
       recallBotId: recallBot.id,
+      botName,
       status: 'created',
     },
     update: {
       recallBotId: recallBot.id,
+      botName,
       status: 'created',
       joinedAt: null,
       leftAt: null,
@@ -479,6 +499,31 @@ export async function fetchAndStoreRecording(meetingId: string): Promise<{
   }
 }
 
+/**
+ * Queue a recording.fetch job, reusing one already queued or running.
+ * With an idempotency key, at most one job is ever created for that key.
+ */
+export async function queueRecordingFetch(
+  meetingId: string,
+  organizationId: string,
+  idempotencyKey?: string
+): Promise<Job> {
+  const active = await findActiveJob('recording.fetch', meetingId);
+  if (active) {
+    return active;
+  }
+
+  return enqueueJob({
+    type: 'recording.fetch',
+    payload: { meetingId },
+    organizationId,
+    meetingId,
+    idempotencyKey,
+    // Recall.ai can take a while to process the media
+    maxAttempts: 6,
+  });
+}
+
 /**
  * Get meeting recording info
  */
@@ -507,12 +552,14 @@ export async function getRecordingInfo(meetingId: string): Promise<{
     };
   }
 
-  // If bot exists and meeting is done, try to fetch recording
+  // If bot exists and meeting is done, fetch the recording in the background
   if (meeting.bot && ['left', 'completed'].includes(meeting.bot.status)) {
-    const result = await fetchAndStoreRecording(meetingId);
+    await queueRecordingFetch(meetingId, meeting.organizationId, `recording.fetch:${meeting.bot.recallBotId}`);
     return {
-      ...result,
-      status: result.recordingUrl ? 'available' : 'processing',
+      recordingUrl: null,
+      transcriptUrl: null,
+      duration: meeting.recordingDuration,
+      status: 'processing',
     };
   }
 
@@ -526,12 +573,14 @@ export async function getRecordingInfo(meetingId: string): Promise<{
 
 // Export service object
 export const botService = {
+  recallWebhookUrl,
   joinMeeting,
   leaveMeeting,
   getBotStatus,
   updateBotStatus,
   sendBotMessage,
   fetchAndStoreRecording,
+  queueRecordingFetch,
   getRecordingInfo,
 };
 
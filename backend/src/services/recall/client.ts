@@ -302,6 +302,15 @@ export async function outputAudio(
   });
 }
 
+/**
+ * Stop audio the bot is playing (and any queued after it)
+ */
+export async function stopOutputAudio(botId: string): Promise<void> {
+  await recallFetch(`/bot/${botId}/output_audio`, {
+    method: 'DELETE',
+  });
+}
+
 /**
  * Get bot transcript (after meeting ends)
  */
@@ -343,6 +352,7 @@ export const recallClient = {
   deleteBot,
   sendChatMessage,
   outputAudio,
+  stopOutputAudio,
   getTranscript,
   getRecording,
 };
@@ -7,9 +7,11 @@ export * from './bot';
 export * from './webhooks';
 export * from './transcription';
 export * from './audio-output';
+export * from './speakers';
 
 export { default as recallClient } from './client';
 export { default as botService } from './bot';
 export { default as webhookService } from './webhooks';
 export { default as transcriptionService } from './transcription';
 export { default as audioOutputService } from './audio-output';
+export { default as speakerService } from './speakers';
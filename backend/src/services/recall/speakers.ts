@@ -0,0 +1,344 @@
+/**
+ * Speaker Resolution
+ *
+ * Maps the participants Recall.ai reports (an id and the display name shown in
+ * the call) to the meeting's attendees, so transcript entries get a speakerId
+ * and MeetingAttendee presence follows participant join/leave events.
+ *
+ * A name is resolved through the meeting's SpeakerAlias table first. Unknown
+ * names are fuzzy-matched against the meeting's attendees ("Dr. Sarah
+ * Al-Hashimi (Guest)" -> "Sarah Al Hashimi") and the match is stored as an
+ * alias. Editors can override an alias, which re-attributes past entries.
+ */
+
+import { MeetingAttendee, Attendee, SpeakerAlias } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { createLogger } from '../../lib/logger';
+
+const logger = createLogger('speakers');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Minimum name similarity for an automatic match
+const MATCH_THRESHOLD = 0.75;
+
+// The best match must beat the runner-up by this much (two "Ahmed"s stay unresolved)
+const AMBIGUITY_MARGIN = 0.1;
+
+// Honorifics and platform suffixes that are not part of a name
+const NAME_NOISE = new Set([
+  'dr', 'mr', 'mrs', 'ms', 'miss', 'prof', 'professor', 'sir', 'dame', 'eng', 'hon', 'he', 'sheikh', 'sheikha',
+]);
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RecallParticipant {
+  id?: number | string | null;
+  name?: string | null;
+}
+
+export type PresenceEvent = 'join' | 'leave' | 'speech_on' | 'speech_off';
+
+export interface SpeakerMatch {
+  attendeeId: string;
+  score: number;
+}
+
+export interface PresenceUpdate {
+  meetingId: string;
+  attendeeId: string;
+  name: string;
+  isPresent: boolean;
+  isSpeaking: boolean;
+}
+
+// ============================================
+// NAME MATCHING
+// ============================================
+
+/**
+ * Whether a transcript speaker is the bot itself, which joined as `botName`:
+ * its own speech is transcribed like everyone else's
+ */
+export function isBotSpeaker(speaker: string, botName: string): boolean {
+  return speaker.trim() === botName.trim();
+}
+
+/**
+ * Name tokens without case, accents (or Arabic vowel marks), honorifics,
+ * punctuation or "(Guest)"-style suffixes, in any script
+ */
+export function nameTokens(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, ' ')
+    .replace(/['’`.]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token && !NAME_NOISE.has(token));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // "J" for "John"
+  if ((a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b))) return 0.9;
+
+  const similarity = 1 - editDistance(a, b) / Math.max(a.length, b.length);
+  return similarity >= 0.75 ? similarity : 0;
+}
+
+/**
+ * Similarity of two person names, 0..1.
+ *
+ * Every token of the shorter name has to find a counterpart in the longer one
+ * (typos and initials allowed); names with fewer tokens score lower, so
+ * "Ahmed" matches "Ahmed Al Mansouri" only when no other attendee is closer.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  if (shorter.join(' ') === longer.join(' ')) return 1;
+
+  const remaining = [...longer];
+  let total = 0;
+  for (const token of shorter) {
+    let bestIndex = -1;
+    let best = 0;
+    remaining.forEach((candidate, index) => {
+      const score = tokenSimilarity(token, candidate);
+      if (score > best) {
+        best = score;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex < 0) return 0;
+    total += best;
+    remaining.splice(bestIndex, 1);
+  }
+
+  const coverage = total / shorter.length;
+  return coverage * (0.7 + 0.3 * (shorter.length / longer.length));
+}
+
+/**
+ * Attendee whose name (or email local part) best matches a display name, if unambiguous
+ */
+export function matchAttendee(
+  displayName: string,
+  attendees: Array<Pick<Attendee, 'id' | 'name' | 'email'>>
+): SpeakerMatch | null {
+  const scored = attendees
+    .map((attendee) => {
+      const fromEmail = attendee.email ? attendee.email.split('@')[0].replace(/[._-]+/g, ' ') : '';
+      const score = Math.max(
+        nameSimilarity(displayName, attendee.name),
+        fromEmail ? nameSimilarity(displayName, fromEmail) : 0
+      );
+      return { attendeeId: attendee.id, score };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scored;
+  if (!best || best.score < MATCH_THRESHOLD) return null;
+  if (runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN) return null;
+  return best;
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+function participantIdOf(participant: RecallParticipant): string | null {
+  return participant.id === undefined || participant.id === null ? null : String(participant.id);
+}
+
+/**
+ * Attendee behind a Recall.ai participant, or null when unknown
+ */
+export async function resolveSpeaker(meetingId: string, participant: RecallParticipant): Promise<string | null> {
+  const participantName = participant.name?.trim();
+  const participantId = participantIdOf(participant);
+
+  if (participantName) {
+    const alias = await prisma.speakerAlias.findUnique({
+      where: { meetingId_participantName: { meetingId, participantName } },
+    });
+    if (alias) {
+      if (participantId && alias.participantId !== participantId) {
+        await prisma.speakerAlias.update({ where: { id: alias.id }, data: { participantId } });
+      }
+      return alias.attendeeId;
+    }
+  } else if (participantId) {
+    // Some platforms drop the name from later events; fall back to the id
+    const alias = await prisma.speakerAlias.findFirst({
+      where: { meetingId, participantId },
+      orderBy: { updatedAt: 'desc' },
+    });
+    return alias?.attendeeId ?? null;
+  }
+
+  if (!participantName) return null;
+
+  const meetingAttendees = await prisma.meetingAttendee.findMany({
+    where: { meetingId },
+    include: { attendee: { select: { id: true, name: true, email: true } } },
+  });
+  const match = matchAttendee(participantName, meetingAttendees.map((ma) => ma.attendee));
+
+  // Unmatched names are not stored, so attendees added later can still match
+  if (!match) return null;
+
+  // A concurrent event (or an override) may have stored the name first; that alias wins
+  const alias = await prisma.speakerAlias.upsert({
+    where: { meetingId_participantName: { meetingId, participantName } },
+    create: { meetingId, participantName, participantId, attendeeId: match.attendeeId, confidence: match.score },
+    update: {},
+  });
+
+  logger.info({ meetingId, participantName, attendeeId: match.attendeeId, score: match.score }, 'Speaker matched');
+  return alias.attendeeId;
+}
+
+/**
+ * Manually map a display name to an attendee (or to nobody) and re-attribute
+ * the meeting's transcript entries spoken under that name
+ */
+export async function setSpeakerAlias(
+  meetingId: string,
+  participantName: string,
+  attendeeId: string | null
+): Promise<{ alias: SpeakerAlias; previousAttendeeId: string | null; updatedEntries: number }> {
+  return prisma.$transaction(async (tx) => {
+    const previous = await tx.speakerAlias.findUnique({
+      where: { meetingId_participantName: { meetingId, participantName } },
+    });
+
+    const alias = await tx.speakerAlias.upsert({
+      where: { meetingId_participantName: { meetingId, participantName } },
+      create: { meetingId, participantName, attendeeId, isManual: true },
+      update: { attendeeId, isManual: true, confidence: null },
+    });
+
+    const { count } = await tx.transcriptEntry.updateMany({
+      where: { meetingId, speakerName: participantName },
+      data: { speakerId: attendeeId },
+    });
+
+    return { alias, previousAttendeeId: previous?.attendeeId ?? null, updatedEntries: count };
+  });
+}
+
+/**
+ * Names spoken under in a meeting, with their entry count and current mapping
+ */
+export async function listMeetingSpeakers(meetingId: string) {
+  const [groups, aliases] = await Promise.all([
+    prisma.transcriptEntry.groupBy({
+      by: ['speakerName'],
+      where: { meetingId },
+      _count: { _all: true },
+    }),
+    prisma.speakerAlias.findMany({
+      where: { meetingId },
+      include: { attendee: { select: { id: true, name: true, title: true } } },
+    }),
+  ]);
+  const aliasByName = new Map(aliases.map((alias) => [alias.participantName, alias]));
+
+  const names = new Set([...groups.map((g) => g.speakerName), ...aliases.map((a) => a.participantName)]);
+  return [...names].sort().map((name) => {
+    const alias = aliasByName.get(name);
+    return {
+      participantName: name,
+      entryCount: groups.find((g) => g.speakerName === name)?._count._all ?? 0,
+      attendee: alias?.attendee ?? null,
+      isManual: alias?.isManual ?? false,
+      confidence: alias?.confidence ?? null,
+    };
+  });
+}
+
+// ============================================
+// PRESENCE
+// ============================================
+
+/**
+ * Update the attendee's presence from a participant event
+ * (returns null when the participant is not one of the meeting's attendees)
+ */
+export async function updatePresence(
+  meetingId: string,
+  participant: RecallParticipant,
+  event: PresenceEvent,
+  at: Date = new Date()
+): Promise<PresenceUpdate | null> {
+  const attendeeId = await resolveSpeaker(meetingId, participant);
+  if (!attendeeId) return null;
+
+  const data: Partial<Pick<MeetingAttendee, 'isPresent' | 'isSpeaking' | 'joinedAt' | 'leftAt'>> =
+    event === 'join' ? { isPresent: true, leftAt: null } :
+    event === 'leave' ? { isPresent: false, isSpeaking: false, leftAt: at } :
+    event === 'speech_on' ? { isPresent: true, isSpeaking: true } :
+    { isSpeaking: false };
+
+  const existing = await prisma.meetingAttendee.findUnique({
+    where: { meetingId_attendeeId: { meetingId, attendeeId } },
+  });
+  if (!existing) return null;
+
+  // Keep the first join time when someone drops and rejoins
+  if (data.isPresent && !existing.joinedAt) {
+    data.joinedAt = at;
+  }
+
+  const updated = await prisma.meetingAttendee.update({
+    where: { id: existing.id },
+    data,
+    include: { attendee: { select: { name: true } } },
+  });
+
+  return {
+    meetingId,
+    attendeeId,
+    name: updated.attendee.name,
+    isPresent: updated.isPresent,
+    isSpeaking: updated.isSpeaking,
+  };
+}
+
+// Export service
+export const speakerService = {
+  nameSimilarity,
+  matchAttendee,
+  resolveSpeaker,
+  setSpeakerAlias,
+  listMeetingSpeakers,
+  updatePresence,
+};
+
+export default speakerService;
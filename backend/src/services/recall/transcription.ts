@@ -13,6 +13,7 @@ import { onWebhookEvent } from './webhooks';
 
 export interface TranscriptChunk {
   meetingId: string;
+  entryId?: string;     // Stored TranscriptEntry (final chunks only)
   speaker: string;
   speakerId: number | null;
   text: string;
@@ -192,6 +193,7 @@ export function initTranscriptWebhooks(): void {
   onWebhookEvent('transcript.final', async (data) => {
     const chunk: TranscriptChunk = {
       meetingId: data.meetingId,
+      entryId: data.entryId,
       speaker: data.speaker || 'Unknown',
       speakerId: data.speakerId,
       text: data.text,
@@ -2,7 +2,8 @@
  * Recall.ai Webhook Handlers
  * 
  * Processes webhook events from Recall.ai for:
- * - Real-time transcription updates
+ * - Real-time transcription updates (partial ones for live display and barge-in)
+ * - Participant join/leave and speaking events (attendee presence)
  * - Bot status changes
  * - Recording completion
  */
@@ -10,9 +11,14 @@
 import { createHmac } from 'crypto';
 import prisma from '../../lib/prisma';
 import { webhookLogger as logger, transcriptLogger } from '../../lib/logger';
-import { updateBotStatus } from './bot';
+import { queueRecordingFetch, updateBotStatus } from './bot';
 import { RecallBotStatus } from './client';
 import { processForWakeWord } from '../ai/wake-word';
+import { handleHumanSpeech } from './audio-output';
+import { indexTranscript } from '../knowledge';
+import { runOnMeetingOwner } from '../cluster/meetings';
+import { PresenceEvent, RecallParticipant, isBotSpeaker, resolveSpeaker, updatePresence } from './speakers';
+import { agendaItemAt } from '../agenda/segmentation';
 
 const WEBHOOK_SECRET = process.env.RECALL_WEBHOOK_SECRET;
 
@@ -56,6 +62,37 @@ export interface TranscriptDataEvent {
   };
 }
 
+// A stored transcript entry, as passed to the meeting's owner
+export interface TranscriptEntryData {
+  meetingId: string;
+  entryId: string;
+  speaker: string;
+  speakerId: string | null;
+  participantId: number | null;
+  fromBot: boolean;
+  text: string;
+  confidence: number;
+  timestamp: Date | string;
+}
+
+// participant_events.join / leave / speech_on / speech_off
+export interface ParticipantEventData {
+  data: {
+    participant: RecallParticipant & {
+      is_host?: boolean;
+      platform?: string;
+    };
+    timestamp?: {
+      absolute: string;
+      relative: number;
+    };
+  };
+  bot: {
+    id: string;
+    metadata: object;
+  };
+}
+
 export interface BotStatusChangeEvent {
   bot_id: string;
   status: {
@@ -122,37 +159,106 @@ async function handleTranscriptData(eventData: TranscriptDataEvent): Promise<voi
   // Extract text and speaker info
   const text = data.words.map(w => w.text).join(' ');
   const speaker = data.participant?.name || 'Unknown Speaker';
-  const speakerId = data.participant?.id || null;
+  const participantId = data.participant?.id ?? null;
   const timestamp = data.words[0]?.start_timestamp?.absolute 
     ? new Date(data.words[0].start_timestamp.absolute) 
     : new Date();
+  const lastWord = data.words[data.words.length - 1];
+  const endTimestamp = lastWord?.end_timestamp?.absolute ? new Date(lastWord.end_timestamp.absolute) : null;
+
+  // Attribute the entry to one of the meeting's attendees when the name is known
+  const speakerId = data.participant
+    ? await resolveSpeaker(meetingBot.meetingId, data.participant).catch((err) => {
+        logger.error({ err, meetingId: meetingBot.meetingId }, 'Failed to resolve speaker');
+        return null;
+      })
+    : null;
+
+  // Tag the entry with the agenda item under discussion (refined after the meeting)
+  const agendaItemId = await agendaItemAt(meetingBot.meetingId, timestamp);
 
   // Store transcript entry in database
   const entry = await prisma.transcriptEntry.create({
     data: {
       meetingId: meetingBot.meetingId,
+      agendaItemId,
+      speakerId,
       speakerName: speaker,
       content: text,
       confidence: 0.95, // meeting_captions doesn't provide confidence
       timestamp,
+      endTimestamp,
     },
   });
 
-  // Emit event for real-time processing (will be picked up by WebSocket server)
-  emitEvent('transcript.final', {
+  // Buffering, agents and wake words hold per-meeting state, so the rest of
+  // the processing runs on the replica that owns the meeting
+  await runOnMeetingOwner(meetingBot.meetingId, 'transcript.final', {
     meetingId: meetingBot.meetingId,
     entryId: entry.id,
     speaker,
     speakerId,
+    participantId,
+    fromBot: isBotSpeaker(speaker, meetingBot.botName),
     text,
     confidence: 0.95,
     timestamp: entry.timestamp,
-  });
+  }, { claim: true }).catch((err) => logger.error({ err, meetingId: meetingBot.meetingId }, 'Failed to process transcript entry'));
 
   transcriptLogger.debug({ speaker, text: text.substring(0, 80) }, 'Transcript received');
+}
+
+/**
+ * Handle partial transcript data: words as they are spoken, before the
+ * final entry. Shown live and used to cut the bot off when someone talks
+ * over it.
+ */
+async function handlePartialTranscriptData(eventData: TranscriptDataEvent): Promise<void> {
+  const { data, bot } = eventData;
+
+  const meetingBot = await prisma.meetingBot.findUnique({
+    where: { recallBotId: bot.id },
+  });
+
+  if (!meetingBot) {
+    logger.warn({ botId: bot.id }, 'No meeting found for bot');
+    return;
+  }
+
+  const text = data.words.map(w => w.text).join(' ');
+  const speaker = data.participant?.name || 'Unknown Speaker';
+  const startedAt = data.words[0]?.start_timestamp?.absolute ?? new Date().toISOString();
+
+  emitEvent('transcript.partial', { meetingId: meetingBot.meetingId, speaker, text });
+
+  // The bot hears itself; only people talking over it count
+  if (isBotSpeaker(speaker, meetingBot.botName)) {
+    return;
+  }
+
+  // The bot's speech state lives on the meeting's owner
+  await runOnMeetingOwner(meetingBot.meetingId, 'bot.human-speech', { speaker, text, startedAt })
+    .catch((err) => logger.error({ err, meetingId: meetingBot.meetingId }, 'Failed to check for barge-in'));
+}
+
+/**
+ * Process a stored transcript entry (runs on the meeting's owner)
+ */
+export function processTranscriptEntry(meetingId: string, data: TranscriptEntryData): void {
+  // Emit event for real-time processing (will be picked up by WebSocket server)
+  emitEvent('transcript.final', data);
+
+  // The bot hears itself: its own speech neither cuts it off nor asks it anything
+  if (data.fromBot) {
+    return;
+  }
+
+  // Someone talking over the bot cuts it off (partials usually get there first)
+  handleHumanSpeech(meetingId, data.speaker, data.text, new Date(data.timestamp))
+    .catch(err => logger.error({ err }, 'Barge-in check error'));
 
   // Process for wake word detection (async, don't wait)
-  processForWakeWord(meetingBot.meetingId, speaker, text)
+  processForWakeWord(meetingId, data.speaker, data.text)
     .then(result => {
       if (result.detected) {
         transcriptLogger.info({ responded: result.responded }, 'Wake word detected');
@@ -161,6 +267,30 @@ async function handleTranscriptData(eventData: TranscriptDataEvent): Promise<voi
     .catch(err => logger.error({ err }, 'Wake word processing error'));
 }
 
+/**
+ * Handle participant join/leave and speaking events: update the matching
+ * attendee's presence on the meeting
+ */
+async function handleParticipantEvent(eventData: ParticipantEventData, event: PresenceEvent): Promise<void> {
+  const meetingBot = await prisma.meetingBot.findUnique({
+    where: { recallBotId: eventData.bot.id },
+  });
+
+  if (!meetingBot) {
+    logger.warn({ botId: eventData.bot.id }, 'No meeting found for bot');
+    return;
+  }
+
+  const at = eventData.data.timestamp?.absolute ? new Date(eventData.data.timestamp.absolute) : new Date();
+  const update = await updatePresence(meetingBot.meetingId, eventData.data.participant, event, at);
+
+  if (update) {
+    emitEvent('attendee.presence', update);
+  } else {
+    logger.debug({ meetingId: meetingBot.meetingId, participant: eventData.data.participant?.name, event }, 'Participant is not a meeting attendee');
+  }
+}
+
 /**
  * Handle bot status change event
  */
@@ -204,7 +334,7 @@ async function handleRecordingDone(data: RecordingDoneEvent): Promise<void> {
   });
 
   // Update meeting with recording info and mark as completed
-  await prisma.meeting.update({
+  const meeting = await prisma.meeting.update({
     where: { id: meetingBot.meetingId },
     data: {
       isRecording: false,
@@ -215,6 +345,19 @@ async function handleRecordingDone(data: RecordingDoneEvent): Promise<void> {
     },
   });
 
+  // Fetch the final recording and transcript URLs in the background
+  // (keyed by bot, so a redelivered webhook does not queue a second fetch)
+  queueRecordingFetch(meeting.id, meeting.organizationId, `recording.fetch:${bot_id}`)
+    .catch((error) => logger.error({ err: error, meetingId: meeting.id }, 'Failed to queue recording fetch'));
+
+  // Index the rest of the transcript for the chat assistant
+  indexTranscript(meetingBot.meetingId, { flush: true })
+    .catch((error) => logger.error({ err: error, meetingId: meetingBot.meetingId }, 'Failed to index transcript'));
+
+  // The bot has left: stop live processing wherever the meeting is served
+  runOnMeetingOwner(meetingBot.meetingId, 'live.stop')
+    .catch((error) => logger.error({ err: error, meetingId: meetingBot.meetingId }, 'Failed to stop live processing'));
+
   // Emit event
   emitEvent('recording.done', {
     meetingId: meetingBot.meetingId,
@@ -276,6 +419,20 @@ export async function processWebhook(event: RecallWebhookEvent): Promise<void> {
     case 'transcript.data':
       await handleTranscriptData(event.data as TranscriptDataEvent);
       break;
+
+    case 'transcript.partial_data':
+      await handlePartialTranscriptData(event.data as TranscriptDataEvent);
+      break;
+    
+    case 'participant_events.join':
+    case 'participant_events.leave':
+    case 'participant_events.speech_on':
+    case 'participant_events.speech_off':
+      await handleParticipantEvent(
+        event.data as ParticipantEventData,
+        event.event.slice('participant_events.'.length) as PresenceEvent
+      );
+      break;
     
     case 'bot.status_change':
       await handleBotStatusChange(event.data as BotStatusChangeEvent);
@@ -0,0 +1,193 @@
+/**
+ * Right-to-Left Text
+ *
+ * The PDF writer draws glyphs left to right, one per character, so Arabic
+ * and Hebrew need two steps first: Arabic letters are replaced by their
+ * contextual presentation forms (initial, medial, final, isolated, and the
+ * lam-alef ligatures), and each line is put in visual order, reversing
+ * right-to-left runs while numbers and Latin text inside them keep theirs.
+ * This covers what minutes hold (names, sentences, mixed with numbers and
+ * English); it is not the full Unicode bidirectional algorithm.
+ */
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Presentation forms of the Arabic letters: [isolated, final, initial, medial].
+// Letters with two forms only join to the letter before them.
+const ARABIC_FORMS: Record<number, number[]> = {
+  0x0621: [0xfe80],
+  0x0622: [0xfe81, 0xfe82],
+  0x0623: [0xfe83, 0xfe84],
+  0x0624: [0xfe85, 0xfe86],
+  0x0625: [0xfe87, 0xfe88],
+  0x0626: [0xfe89, 0xfe8a, 0xfe8b, 0xfe8c],
+  0x0627: [0xfe8d, 0xfe8e],
+  0x0628: [0xfe8f, 0xfe90, 0xfe91, 0xfe92],
+  0x0629: [0xfe93, 0xfe94],
+  0x062a: [0xfe95, 0xfe96, 0xfe97, 0xfe98],
+  0x062b: [0xfe99, 0xfe9a, 0xfe9b, 0xfe9c],
+  0x062c: [0xfe9d, 0xfe9e, 0xfe9f, 0xfea0],
+  0x062d: [0xfea1, 0xfea2, 0xfea3, 0xfea4],
+  0x062e: [0xfea5, 0xfea6, 0xfea7, 0xfea8],
+  0x062f: [0xfea9, 0xfeaa],
+  0x0630: [0xfeab, 0xfeac],
+  0x0631: [0xfead, 0xfeae],
+  0x0632: [0xfeaf, 0xfeb0],
+  0x0633: [0xfeb1, 0xfeb2, 0xfeb3, 0xfeb4],
+  0x0634: [0xfeb5, 0xfeb6, 0xfeb7, 0xfeb8],
+  0x0635: [0xfeb9, 0xfeba, 0xfebb, 0xfebc],
+  0x0636: [0xfebd, 0xfebe, 0xfebf, 0xfec0],
+  0x0637: [0xfec1, 0xfec2, 0xfec3, 0xfec4],
+  0x0638: [0xfec5, 0xfec6, 0xfec7, 0xfec8],
+  0x0639: [0xfec9, 0xfeca, 0xfecb, 0xfecc],
+  0x063a: [0xfecd, 0xfece, 0xfecf, 0xfed0],
+  0x0641: [0xfed1, 0xfed2, 0xfed3, 0xfed4],
+  0x0642: [0xfed5, 0xfed6, 0xfed7, 0xfed8],
+  0x0643: [0xfed9, 0xfeda, 0xfedb, 0xfedc],
+  0x0644: [0xfedd, 0xfede, 0xfedf, 0xfee0],
+  0x0645: [0xfee1, 0xfee2, 0xfee3, 0xfee4],
+  0x0646: [0xfee5, 0xfee6, 0xfee7, 0xfee8],
+  0x0647: [0xfee9, 0xfeea, 0xfeeb, 0xfeec],
+  0x0648: [0xfeed, 0xfeee],
+  0x0649: [0xfeef, 0xfef0],
+  0x064a: [0xfef1, 0xfef2, 0xfef3, 0xfef4],
+  // Persian and Urdu letters
+  0x067e: [0xfb56, 0xfb57, 0xfb58, 0xfb59],
+  0x0686: [0xfb7a, 0xfb7b, 0xfb7c, 0xfb7d],
+  0x0698: [0xfb8a, 0xfb8b],
+  0x06a9: [0xfb8e, 0xfb8f, 0xfb90, 0xfb91],
+  0x06af: [0xfb92, 0xfb93, 0xfb94, 0xfb95],
+  0x06cc: [0xfbfc, 0xfbfd, 0xfbfe, 0xfbff],
+};
+
+// Lam followed by an alef: [isolated, final] forms of the ligature
+const LAM = 0x0644;
+const LAM_ALEF: Record<number, number[]> = {
+  0x0622: [0xfef5, 0xfef6],
+  0x0623: [0xfef7, 0xfef8],
+  0x0625: [0xfef9, 0xfefa],
+  0x0627: [0xfefb, 0xfefc],
+};
+
+// Tatweel joins on both sides without changing shape
+const TATWEEL = 0x0640;
+
+const RTL_PATTERN = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufeff]/u;
+const LTR_PATTERN = /\p{L}/u;
+const MARK_PATTERN = /\p{M}/u;
+
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<', '«': '»', '»': '«' };
+
+type Direction = 'ltr' | 'rtl';
+
+// ============================================
+// SHAPING
+// ============================================
+
+function joinsForward(code: number | undefined): boolean {
+  return code !== undefined && (code === TATWEEL || ARABIC_FORMS[code]?.length === 4);
+}
+
+function joinsBackward(code: number | undefined): boolean {
+  return code !== undefined && (code === TATWEEL || ARABIC_FORMS[code] !== undefined);
+}
+
+/**
+ * Arabic letters replaced by the presentation forms their neighbours call for
+ */
+export function shapeArabic(text: string): string {
+  const codes = [...text].map((char) => char.codePointAt(0)!);
+  // Marks sit on a letter and do not break the joining around it
+  const neighbour = (from: number, step: number) => {
+    for (let i = from + step; i >= 0 && i < codes.length; i += step) {
+      if (!MARK_PATTERN.test(String.fromCodePoint(codes[i]))) return codes[i];
+    }
+    return undefined;
+  };
+
+  let shaped = '';
+  for (let i = 0; i < codes.length; i++) {
+    const code = codes[i];
+    const forms = ARABIC_FORMS[code];
+    if (!forms) {
+      shaped += String.fromCodePoint(code);
+      continue;
+    }
+
+    const joinsPrevious = joinsForward(neighbour(i, -1));
+    const ligature = code === LAM ? LAM_ALEF[codes[i + 1]] : undefined;
+    if (ligature) {
+      shaped += String.fromCodePoint(ligature[joinsPrevious ? 1 : 0]);
+      i++;
+      continue;
+    }
+
+    const joinsNext = forms.length === 4 && joinsBackward(neighbour(i, 1));
+    const form = joinsPrevious ? (joinsNext ? 3 : 1) : (joinsNext ? 2 : 0);
+    shaped += String.fromCodePoint(forms[form] ?? forms[joinsPrevious ? 1 : 0]);
+  }
+  return shaped;
+}
+
+// ============================================
+// ORDERING
+// ============================================
+
+// Numbers, Arabic-Indic digits too, read left to right
+function strongDirection(char: string): Direction | null {
+  if (/\p{N}/u.test(char)) return 'ltr';
+  if (RTL_PATTERN.test(char)) return 'rtl';
+  if (LTR_PATTERN.test(char)) return 'ltr';
+  return null;
+}
+
+/**
+ * Direction of a line: that of its first letter, left to right without one
+ */
+export function baseDirection(line: string): Direction {
+  for (const char of line) {
+    const direction = strongDirection(char);
+    if (direction) return direction;
+  }
+  return 'ltr';
+}
+
+/**
+ * A line in the order its characters are drawn, left to right
+ */
+export function visualOrder(line: string): string[] {
+  // Characters with the marks that follow them, so marks stay on their letter
+  const clusters: string[] = [];
+  for (const char of line) {
+    if (clusters.length > 0 && MARK_PATTERN.test(char)) clusters[clusters.length - 1] += char;
+    else clusters.push(char);
+  }
+
+  const base = baseDirection(line);
+  if (base === 'ltr' && !RTL_PATTERN.test(line)) {
+    return clusters;
+  }
+
+  // Neutral characters between two runs of one direction take it; others take the line's
+  const strong = clusters.map((cluster) => strongDirection(cluster));
+  const directions = strong.map((direction, i) => {
+    if (direction) return direction;
+    const before = strong.slice(0, i).reverse().find(Boolean);
+    const after = strong.slice(i + 1).find(Boolean);
+    return before && before === after ? before : base;
+  });
+
+  const runs: { direction: Direction; clusters: string[] }[] = [];
+  clusters.forEach((cluster, i) => {
+    const last = runs[runs.length - 1];
+    if (last && last.direction === directions[i]) last.clusters.push(cluster);
+    else runs.push({ direction: directions[i], clusters: [cluster] });
+  });
+
+  const ordered = base === 'rtl' ? runs.reverse() : runs;
+  return ordered.flatMap((run) => run.direction === 'rtl'
+    ? run.clusters.reverse().map((cluster) => MIRRORED[cluster] ?? cluster)
+    : run.clusters);
+}
@@ -0,0 +1,223 @@
+/**
+ * DOCX Minutes
+ *
+ * Renders minutes as a Word document, writing the WordprocessingML parts
+ * directly into a zip (jszip): A4 pages, the letterhead logo inline, tables
+ * for resolutions and actions, and the template footer with page numbers.
+ */
+
+import JSZip from 'jszip';
+import { Minutes } from './minutes';
+import { layoutMinutes, MinutesBlock } from './layout';
+import { LogoImage } from './logo';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// A4 in twentieths of a point, with 2 cm margins
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1134;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+
+// Largest letterhead logo, in pixels at 96 dpi
+const LOGO_MAX_WIDTH = 240;
+const LOGO_MAX_HEIGHT = 64;
+const EMU_PER_PIXEL = 9525;
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(' ');
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+// ============================================
+// XML HELPERS
+// ============================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+interface RunOptions {
+  bold?: boolean;
+  color?: string;
+  size?: number;  // half-points
+}
+
+function run(text: string, options: RunOptions = {}): string {
+  const props = [
+    options.bold ? '<w:b/>' : '',
+    options.color ? `<w:color w:val="${options.color}"/>` : '',
+    options.size ? `<w:sz w:val="${options.size}"/>` : '',
+  ].join('');
+  const content = text
+    .split('\n')
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+}
+
+function paragraph(content: string, properties = ''): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function table(columns: Array<{ label: string; width: number }>, rows: string[][], accent: string): string {
+  const widths = columns.map((c) => Math.round(c.width * TEXT_WIDTH));
+  const cell = (text: string, width: number, header: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${header ? `<w:shd w:val="clear" w:color="auto" w:fill="${accent}"/>` : ''}</w:tcPr>` +
+    paragraph(run(text, header ? { bold: true, color: 'FFFFFF', size: 18 } : { size: 18 }), '<w:spacing w:before="40" w:after="40"/>') +
+    '</w:tc>';
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="E5E7EB"/>`;
+
+  return '<w:tbl>' +
+    `<w:tblPr><w:tblW w:w="${TEXT_WIDTH}" w:type="dxa"/><w:tblLayout w:type="fixed"/>` +
+    `<w:tblBorders>${['top', 'bottom', 'insideH'].map(border).join('')}</w:tblBorders>` +
+    '<w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblGrid>${widths.map((w) => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>` +
+    `<w:tr><w:trPr><w:tblHeader/></w:trPr>${columns.map((c, i) => cell(c.label, widths[i], true)).join('')}</w:tr>` +
+    rows.map((row) => `<w:tr><w:trPr><w:cantSplit/></w:trPr>${row.map((text, i) => cell(text, widths[i], false)).join('')}</w:tr>`).join('') +
+    '</w:tbl>' +
+    paragraph('');
+}
+
+function inlineImage(relationshipId: string, logo: LogoImage): string {
+  const scale = Math.min(1, LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height);
+  const cx = Math.round(logo.width * scale * EMU_PER_PIXEL);
+  const cy = Math.round(logo.height * scale * EMU_PER_PIXEL);
+
+  return '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">' +
+    `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="1" name="Logo"/>` +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>' +
+    `<pic:nvPicPr><pic:cNvPr id="1" name="logo.${logo.format}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+function renderBlock(block: MinutesBlock, accent: string): string {
+  switch (block.type) {
+    case 'heading':
+      return paragraph(run(block.text, { bold: true, color: accent, size: 26 }),
+        `<w:keepNext/><w:spacing w:before="360" w:after="120"/><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="E5E7EB"/></w:pBdr>`);
+    case 'subheading':
+      return paragraph(run(block.text, { bold: true }), '<w:keepNext/><w:spacing w:before="200" w:after="60"/>');
+    case 'paragraph':
+      return paragraph(run(block.text, {
+        bold: block.style === 'strong',
+        color: block.style === 'muted' ? '6B7280' : undefined,
+      }));
+    case 'list':
+      return block.items
+        .map((item) => paragraph(run(`•\t${item}`), '<w:spacing w:after="40"/><w:ind w:left="360" w:hanging="360"/>'))
+        .join('');
+    case 'table':
+      return table(block.columns, block.rows, accent);
+    case 'signatures': {
+      const width = Math.floor(TEXT_WIDTH / block.signatories.length);
+      const cells = block.signatories.map((s) =>
+        `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>` +
+        paragraph('', '<w:spacing w:before="720"/><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="111827"/></w:pBdr><w:ind w:right="480"/>') +
+        paragraph(run(s.label)) +
+        paragraph(run(`Date: ${s.date ?? ''}`, { color: '6B7280' })) +
+        '</w:tc>'
+      ).join('');
+      return `<w:tbl><w:tblPr><w:tblW w:w="${TEXT_WIDTH}" w:type="dxa"/><w:tblLayout w:type="fixed"/></w:tblPr>` +
+        `<w:tblGrid>${block.signatories.map(() => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>` +
+        `<w:tr><w:trPr><w:cantSplit/></w:trPr>${cells}</w:tr></w:tbl>`;
+    }
+  }
+}
+
+/**
+ * Minutes as a .docx file
+ */
+export async function renderDocx(minutes: Minutes, logo: LogoImage | null): Promise<Buffer> {
+  const { template } = minutes;
+  const layout = layoutMinutes(minutes);
+  const accent = template.accentColor.replace('#', '').toUpperCase();
+  const embedLogo = logo && template.showLogo ? logo : null;
+
+  const relationships = [
+    '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+    '<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>',
+    embedLogo
+      ? `<Relationship Id="rIdLogo" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/logo.${embedLogo.format}"/>`
+      : '',
+  ].join('');
+
+  const body = [
+    embedLogo ? paragraph(inlineImage('rIdLogo', embedLogo)) : '',
+    paragraph(run(template.letterhead.join('\n'), { color: '4B5563', size: 18 }),
+      `<w:pBdr><w:bottom w:val="single" w:sz="12" w:space="4" w:color="${accent}"/></w:pBdr>`),
+    paragraph(run(layout.title, { bold: true, color: accent, size: 36 }), '<w:spacing w:before="240" w:after="60"/>'),
+    paragraph(run(layout.subtitle, { color: '374151' }), '<w:spacing w:after="240"/>'),
+    ...layout.blocks.map((block) => renderBlock(block, accent)),
+    '<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/>' +
+      `<w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>` +
+      `<w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="567" w:footer="567" w:gutter="0"/>` +
+      '</w:sectPr>',
+  ].join('');
+
+  const footer = paragraph(
+    (template.footer ? run(`${template.footer}    `, { color: '6B7280', size: 16 }) : '') +
+      run('Page ', { color: '6B7280', size: 16 }) +
+      `<w:fldSimple w:instr="PAGE">${run('1', { color: '6B7280', size: 16 })}</w:fldSimple>`,
+    '<w:jc w:val="center"/>'
+  );
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Default Extension="png" ContentType="image/png"/>' +
+    '<Default Extension="jpeg" ContentType="image/jpeg"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>');
+  zip.file('_rels/.rels', XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>');
+  zip.file('docProps/core.xml', XML_HEADER +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    `<dc:title>${escapeXml(`${layout.title} - ${minutes.meeting.title}`)}</dc:title>` +
+    `<dc:creator>${escapeXml(minutes.organization.name)}</dc:creator>` +
+    '</cp:coreProperties>');
+  zip.file('word/_rels/document.xml.rels', XML_HEADER +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships}</Relationships>`);
+  zip.file('word/styles.xml', XML_HEADER +
+    '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults>' +
+    '<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="21"/><w:color w:val="111827"/></w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="100" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>' +
+    '</w:docDefaults></w:styles>');
+  zip.file('word/footer1.xml', XML_HEADER + `<w:ftr ${NAMESPACES}>${footer}</w:ftr>`);
+  zip.file('word/document.xml', XML_HEADER + `<w:document ${NAMESPACES}><w:body>${body}</w:body></w:document>`);
+  if (embedLogo) {
+    zip.file(`word/media/logo.${embedLogo.format}`, embedLogo.data);
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+export default renderDocx;
@@ -0,0 +1,111 @@
+/**
+ * HTML Minutes
+ *
+ * Renders minutes as a single self-contained HTML page (styles inline, logo
+ * as a data URI) that prints cleanly from a browser.
+ */
+
+import { Minutes } from './minutes';
+import { layoutMinutes, MinutesBlock } from './layout';
+import { LogoImage } from './logo';
+
+// ============================================
+// RENDERING
+// ============================================
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Line breaks within a cell or paragraph
+function lines(text: string): string {
+  return text.split('\n').map(escapeHtml).join('<br>');
+}
+
+function renderBlock(block: MinutesBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h2>${escapeHtml(block.text)}</h2>`;
+    case 'subheading':
+      return `<h3>${escapeHtml(block.text)}</h3>`;
+    case 'paragraph':
+      return `<p${block.style ? ` class="${block.style}"` : ''}>${lines(block.text)}</p>`;
+    case 'list':
+      return `<ul>${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    case 'table': {
+      const cols = block.columns.map((c) => `<col style="width:${Math.round(c.width * 100)}%">`).join('');
+      const head = block.columns.map((c) => `<th>${escapeHtml(c.label)}</th>`).join('');
+      const rows = block.rows.map((row) => `<tr>${row.map((cell) => `<td>${lines(cell)}</td>`).join('')}</tr>`).join('');
+      return `<table><colgroup>${cols}</colgroup><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+    }
+    case 'signatures':
+      return `<div class="signatures">${block.signatories.map((s) =>
+        `<div class="signature"><div class="line"></div><div>${escapeHtml(s.label)}</div><div class="muted">Date: ${escapeHtml(s.date ?? '')}</div></div>`
+      ).join('')}</div>`;
+  }
+}
+
+/**
+ * Minutes as an HTML document
+ */
+export function renderHtml(minutes: Minutes, logo: LogoImage | null): string {
+  const { template } = minutes;
+  const layout = layoutMinutes(minutes);
+  const accent = template.accentColor;
+
+  const logoTag = logo && template.showLogo
+    ? `<img class="logo" src="data:image/${logo.format};base64,${logo.data.toString('base64')}" alt="${escapeHtml(minutes.organization.name)}">`
+    : '';
+
+  const style = `
+    body { font-family: Helvetica, Arial, sans-serif; font-size: 11pt; color: #111827; max-width: 800px; margin: 40px auto; padding: 0 24px; line-height: 1.45; }
+    header { border-bottom: 2px solid ${accent}; padding-bottom: 12px; margin-bottom: 24px; }
+    .logo { max-height: 64px; max-width: 240px; display: block; margin-bottom: 8px; }
+    .letterhead { color: #4b5563; font-size: 9pt; }
+    h1 { color: ${accent}; font-size: 18pt; margin: 16px 0 4px; }
+    .subtitle { color: #374151; margin: 0; }
+    h2 { color: ${accent}; font-size: 13pt; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 28px; }
+    h3 { font-size: 11pt; margin: 16px 0 4px; }
+    p { margin: 6px 0; }
+    .strong { font-weight: bold; }
+    .muted { color: #6b7280; }
+    ul { margin: 4px 0; padding-left: 20px; }
+    table { width: 100%; border-collapse: collapse; table-layout: fixed; font-size: 9.5pt; }
+    th { background: ${accent}; color: #fff; text-align: left; padding: 6px; }
+    td { border-bottom: 1px solid #e5e7eb; padding: 6px; vertical-align: top; }
+    .signatures { display: flex; gap: 48px; margin-top: 48px; page-break-inside: avoid; }
+    .signature { flex: 1; }
+    .signature .line { border-bottom: 1px solid #111827; height: 40px; margin-bottom: 4px; }
+    footer { margin-top: 40px; border-top: 1px solid #e5e7eb; padding-top: 8px; color: #6b7280; font-size: 8.5pt; }
+  `;
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(`${layout.title} - ${minutes.meeting.title}`)}</title>`,
+    `<style>${style.replace(/\s+/g, ' ').trim()}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    logoTag,
+    `<div class="letterhead">${template.letterhead.map(escapeHtml).join('<br>')}</div>`,
+    `<h1>${escapeHtml(layout.title)}</h1>`,
+    `<p class="subtitle">${lines(layout.subtitle)}</p>`,
+    '</header>',
+    '<main>',
+    ...layout.blocks.map(renderBlock),
+    '</main>',
+    template.footer ? `<footer>${lines(template.footer)}</footer>` : '',
+    '</body>',
+    '</html>',
+  ].filter(Boolean).join('\n');
+}
+
+export default renderHtml;
@@ -0,0 +1,68 @@
+/**
+ * Report Services - Central Export
+ *
+ * renderMinutes() builds a meeting's formal minutes and renders them to a
+ * downloadable PDF, DOCX or HTML file.
+ */
+
+import { buildMinutes } from './minutes';
+import { loadLogo } from './logo';
+import { renderHtml } from './html';
+import { renderDocx } from './docx';
+import { renderPdf } from './pdf';
+
+export * from './minutes';
+export * from './layout';
+export * from './logo';
+export * from './html';
+export * from './docx';
+export * from './pdf';
+
+export { default as minutes } from './minutes';
+
+export type ReportFormat = 'pdf' | 'docx' | 'html';
+
+export const REPORT_FORMATS: ReportFormat[] = ['pdf', 'docx', 'html'];
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  html: 'text/html; charset=utf-8',
+};
+
+export interface RenderedReport {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+function reportFilename(title: string, startedAt: Date, format: ReportFormat): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .toLowerCase()
+    .slice(0, 80);
+  return `${slug || 'meeting'}-minutes-${startedAt.toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Render a meeting's minutes as a file
+ */
+export async function renderMinutes(meetingId: string, format: ReportFormat): Promise<RenderedReport> {
+  const minutes = await buildMinutes(meetingId);
+  const logo = minutes.template.showLogo ? await loadLogo(minutes.organization.logo) : null;
+
+  const buffer = format === 'pdf'
+    ? renderPdf(minutes, logo)
+    : format === 'docx'
+      ? await renderDocx(minutes, logo)
+      : Buffer.from(renderHtml(minutes, logo), 'utf8');
+
+  return {
+    buffer,
+    contentType: CONTENT_TYPES[format],
+    filename: reportFilename(minutes.meeting.title, minutes.meeting.startedAt, format),
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Minutes Layout
+ *
+ * Lays minutes out as a sequence of simple blocks (headings, paragraphs,
+ * lists, tables, signature lines) in statutory order, so the PDF, DOCX and
+ * HTML renderers produce the same document and only differ in how each
+ * block is drawn. Dates and times are shown in the organization's timezone.
+ */
+
+import { Minutes, MinutesPerson } from './minutes';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TableColumn {
+  label: string;
+  // Share of the text width (the columns of a table add up to 1)
+  width: number;
+}
+
+export type MinutesBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'subheading'; text: string }
+  | { type: 'paragraph'; text: string; style?: 'strong' | 'muted' }
+  | { type: 'list'; items: string[] }
+  | { type: 'table'; columns: TableColumn[]; rows: string[][] }
+  | { type: 'signatures'; signatories: Array<{ label: string; date: string | null }> };
+
+export interface MinutesLayout {
+  title: string;
+  subtitle: string;
+  blocks: MinutesBlock[];
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export function formatDate(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', { dateStyle: 'long', timeZone: timezone }).format(date);
+}
+
+export function formatTime(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: timezone }).format(date);
+}
+
+function personLine(person: MinutesPerson): string {
+  return person.title ? `${person.name}, ${person.title}` : person.name;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ============================================
+// LAYOUT
+// ============================================
+
+/**
+ * Blocks of the minutes, in the order they are printed
+ */
+export function layoutMinutes(minutes: Minutes): MinutesLayout {
+  const { meeting, attendance, quorum, approval } = minutes;
+  const timezone = minutes.organization.timezone;
+  const blocks: MinutesBlock[] = [];
+
+  const venue = meeting.location || (meeting.isVirtual ? 'by video conference' : null);
+  const version = approval.version > 0 ? ` (version ${approval.version})` : '';
+  const status = approval.status === 'APPROVED' && approval.approvedAt
+    ? `Approved on ${formatDate(approval.approvedAt, timezone)}${version}`
+    : approval.status === 'CIRCULATED'
+      ? `Circulated for approval${version}`
+      : `Draft${version}`;
+  const subtitle = [
+    meeting.title,
+    `Held on ${formatDate(meeting.startedAt, timezone)} at ${formatTime(meeting.startedAt, timezone)}${venue ? `, ${venue}` : ''}`,
+    status,
+  ].join('\n');
+
+  // Attendance
+  blocks.push({ type: 'heading', text: 'Attendance' });
+  blocks.push({ type: 'subheading', text: 'Present' });
+  blocks.push(attendance.present.length > 0
+    ? { type: 'list', items: attendance.present.map(personLine) }
+    : { type: 'paragraph', text: 'No members were recorded as present.', style: 'muted' });
+
+  if (attendance.inAttendance.length > 0) {
+    blocks.push({ type: 'subheading', text: 'In attendance' });
+    blocks.push({ type: 'list', items: attendance.inAttendance.map(personLine) });
+  }
+
+  if (attendance.apologies.length > 0) {
+    blocks.push({ type: 'subheading', text: 'Apologies' });
+    blocks.push({ type: 'list', items: attendance.apologies.map(personLine) });
+  }
+
+  blocks.push({
+    type: 'paragraph',
+    text: `Quorum: ${quorum.present} of the ${quorum.required} members required were present. ` +
+      (quorum.met ? 'The meeting was quorate.' : 'The meeting was not quorate.'),
+    style: 'strong',
+  });
+
+  if (minutes.overview) {
+    blocks.push({ type: 'heading', text: 'Summary' });
+    blocks.push({ type: 'paragraph', text: minutes.overview });
+  }
+
+  // Agenda items
+  blocks.push({ type: 'heading', text: 'Business of the Meeting' });
+  if (minutes.agendaItems.length === 0) {
+    blocks.push({ type: 'paragraph', text: 'No agenda items were recorded.', style: 'muted' });
+  }
+  for (const item of minutes.agendaItems) {
+    blocks.push({ type: 'subheading', text: `${item.number}. ${item.title}` });
+    if (item.presenter) {
+      blocks.push({ type: 'paragraph', text: `Presented by ${item.presenter}.`, style: 'muted' });
+    }
+    if (item.deferred) {
+      blocks.push({ type: 'paragraph', text: 'This item was deferred.' });
+      continue;
+    }
+    blocks.push({ type: 'paragraph', text: item.summary ?? 'No discussion was recorded for this item.', style: item.summary ? undefined : 'muted' });
+    if (item.keyPoints.length > 0) {
+      blocks.push({ type: 'list', items: item.keyPoints });
+    }
+    if (item.outcome) {
+      blocks.push({ type: 'paragraph', text: `Outcome: ${item.outcome}`, style: 'strong' });
+    }
+  }
+
+  // Resolutions
+  blocks.push({ type: 'heading', text: 'Resolutions' });
+  if (minutes.resolutions.length === 0) {
+    blocks.push({ type: 'paragraph', text: 'No resolutions were passed.', style: 'muted' });
+  } else {
+    blocks.push({
+      type: 'table',
+      columns: [
+        { label: 'No.', width: 0.07 },
+        { label: 'Resolution', width: 0.53 },
+        { label: 'For', width: 0.08 },
+        { label: 'Against', width: 0.1 },
+        { label: 'Abstained', width: 0.11 },
+        { label: 'Result', width: 0.11 },
+      ],
+      rows: minutes.resolutions.map((r) => [
+        r.number,
+        r.rationale ? `${r.text}\nRationale: ${r.rationale}` : r.text,
+        String(r.votedFor),
+        String(r.votedAgainst),
+        String(r.abstained),
+        capitalize(r.result),
+      ]),
+    });
+  }
+
+  // Action register
+  blocks.push({ type: 'heading', text: 'Action Register' });
+  if (minutes.actions.length === 0) {
+    blocks.push({ type: 'paragraph', text: 'No actions were recorded.', style: 'muted' });
+  } else {
+    blocks.push({
+      type: 'table',
+      columns: [
+        { label: 'No.', width: 0.07 },
+        { label: 'Action', width: 0.41 },
+        { label: 'Owner', width: 0.17 },
+        { label: 'Due', width: 0.14 },
+        { label: 'Priority', width: 0.1 },
+        { label: 'Status', width: 0.11 },
+      ],
+      rows: minutes.actions.map((a) => [
+        String(a.number),
+        a.agendaItem ? `${a.description}\nItem ${a.agendaItem}` : a.description,
+        a.owner ?? 'Unassigned',
+        a.dueDate ? formatDate(a.dueDate, timezone) : '-',
+        capitalize(a.priority),
+        capitalize(a.status),
+      ]),
+    });
+  }
+
+  if (minutes.nextSteps.length > 0) {
+    blocks.push({ type: 'heading', text: 'Next Steps' });
+    blocks.push({ type: 'list', items: minutes.nextSteps });
+  }
+
+  if (meeting.endedAt) {
+    blocks.push({ type: 'paragraph', text: `There being no further business, the meeting closed at ${formatTime(meeting.endedAt, timezone)}.` });
+  }
+
+  if (minutes.template.signatories.length > 0) {
+    blocks.push({
+      type: 'signatures',
+      signatories: minutes.template.signatories.map((s) => ({
+        label: s.name ? `${s.name}, ${s.role}` : s.role,
+        date: s.signedAt ? formatDate(s.signedAt, timezone) : null,
+      })),
+    });
+  }
+
+  return { title: minutes.template.heading, subtitle, blocks };
+}
+
+export default layoutMinutes;
@@ -0,0 +1,130 @@
+/**
+ * Letterhead Logo
+ *
+ * Fetches an organization's logo (Organization.logo) for the letterhead of
+ * exported minutes. The logo may be an absolute URL, a path served by the
+ * frontend (resolved against FRONTEND_URL) or a data URI. Only PNG and JPEG
+ * images can be embedded in every format; anything else, or a logo that
+ * cannot be fetched, leaves the letterhead without one.
+ *
+ * The logo is set by organization admins, so absolute URLs are only fetched
+ * over https from public addresses (see lib/public-fetch), without following
+ * redirects: the server must not be made to read its own network.
+ */
+
+import { fetch } from 'undici';
+import { createLogger } from '../../lib/logger';
+import { fetchPublic, readBody } from '../../lib/public-fetch';
+
+const logger = createLogger('reports');
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LogoImage {
+  format: 'png' | 'jpeg';
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// ============================================
+// IMAGE INFO
+// ============================================
+
+/**
+ * Format and pixel size of a PNG or JPEG image (null for anything else)
+ */
+export function readImage(data: Buffer): LogoImage | null {
+  if (data.length > 24 && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return { format: 'png', data, width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    // Walk the markers to the start-of-frame segment holding the dimensions
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isFrame) {
+        return { format: 'jpeg', data, height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/**
+ * Download a logo. Paths are served by our own frontend; absolute URLs must
+ * be https and are only fetched from public addresses.
+ */
+async function fetchLogo(logo: string): Promise<Buffer> {
+  const frontend = new URL(process.env.FRONTEND_URL || 'http://localhost:3000');
+  const url = new URL(logo, frontend);
+  const init = { redirect: 'error' as const, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) };
+
+  let response;
+  if (url.origin === frontend.origin) {
+    response = await fetch(url.toString(), init);
+  } else if (url.protocol === 'https:') {
+    response = await fetchPublic(url.toString(), init);
+  } else {
+    throw new Error('Logo URLs must use https');
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return readBody(response, MAX_LOGO_BYTES);
+}
+
+/**
+ * Fetch a logo for embedding (null when missing or unusable)
+ */
+export async function loadLogo(logo: string | null): Promise<LogoImage | null> {
+  if (!logo) {
+    return null;
+  }
+
+  try {
+    let data: Buffer;
+    const dataUri = logo.match(/^data:image\/[\w.+-]+;base64,(.*)$/i);
+    if (dataUri) {
+      data = Buffer.from(dataUri[1], 'base64');
+      if (data.length > MAX_LOGO_BYTES) {
+        throw new Error('Logo too large');
+      }
+    } else {
+      data = await fetchLogo(logo);
+    }
+
+    const image = readImage(data);
+    if (!image) {
+      throw new Error('Logo is not a PNG or JPEG image');
+    }
+    return image;
+  } catch (error) {
+    logger.warn({ err: error, logo: logo.slice(0, 200) }, 'Letterhead logo unavailable');
+    return null;
+  }
+}
+
+export default loadLogo;
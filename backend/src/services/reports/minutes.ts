@@ -0,0 +1,367 @@
+/**
+ * Board Minutes
+ *
+ * Collects everything formal minutes record about a meeting, independent of
+ * the file format they are exported to:
+ * - attendance: members present, apologies, and those in attendance
+ *   (external advisors), and whether the meeting was quorate
+ * - each agenda item with its DiscussionSummary (summary, key points, outcome)
+ * - resolutions from the meeting's Decisions, with their vote tallies
+ * - the action register (ActionItems with owners and due dates)
+ *
+ * Layout comes from the organization's MinutesTemplate, or the defaults
+ * below when it has none. Without an explicit quorum, a majority of the
+ * invited members must be present. Chair and secretary sign-offs (see
+ * services/approval) fill in the matching signature blocks.
+ */
+
+import { MeetingType, MinutesSignoffRole, MinutesStatus, MinutesTemplate } from '@prisma/client';
+import prisma from '../../lib/prisma';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const DEFAULT_ACCENT_COLOR = '#1f2937';
+
+const DEFAULT_SIGNATORIES: Signatory[] = [{ role: 'Chair' }, { role: 'Secretary' }];
+
+const MEETING_TYPE_LABELS: Record<MeetingType, string> = {
+  BOARD: 'Board',
+  COMMITTEE: 'Committee',
+  REVIEW: 'Review',
+  STRATEGY: 'Strategy',
+  OPERATIONS: 'Operations',
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Signatory {
+  role: string;
+  name?: string;
+  signedAt?: Date;
+}
+
+export interface ResolvedTemplate {
+  heading: string;
+  letterhead: string[];
+  footer: string | null;
+  accentColor: string;
+  showLogo: boolean;
+  quorum: number | null;
+  signatories: Signatory[];
+}
+
+export interface MinutesPerson {
+  name: string;
+  title: string | null;
+}
+
+export interface MinutesAgendaItem {
+  number: number;
+  title: string;
+  presenter: string | null;
+  deferred: boolean;
+  summary: string | null;
+  keyPoints: string[];
+  outcome: string | null;
+}
+
+export type ResolutionResult = 'carried' | 'not carried' | 'resolved';
+
+export interface MinutesResolution {
+  number: string;
+  text: string;
+  rationale: string | null;
+  votedFor: number;
+  votedAgainst: number;
+  abstained: number;
+  result: ResolutionResult;
+}
+
+export interface MinutesAction {
+  number: number;
+  description: string;
+  owner: string | null;
+  dueDate: Date | null;
+  priority: string;
+  status: string;
+  agendaItem: string | null;
+}
+
+export interface Minutes {
+  organization: { name: string; logo: string | null; timezone: string };
+  template: ResolvedTemplate;
+  meeting: {
+    id: string;
+    title: string;
+    type: MeetingType;
+    location: string | null;
+    isVirtual: boolean;
+    startedAt: Date;
+    endedAt: Date | null;
+  };
+  attendance: {
+    present: MinutesPerson[];
+    inAttendance: MinutesPerson[];
+    apologies: MinutesPerson[];
+  };
+  quorum: { required: number; present: number; met: boolean };
+  approval: {
+    status: MinutesStatus;
+    version: number;
+    approvedAt: Date | null;
+  };
+  overview: string | null;
+  agendaItems: MinutesAgendaItem[];
+  resolutions: MinutesResolution[];
+  actions: MinutesAction[];
+  nextSteps: string[];
+}
+
+export interface MinutesInput {
+  organization: { name: string; logo: string | null; timezone: string };
+  template: Pick<MinutesTemplate, 'heading' | 'letterhead' | 'footer' | 'accentColor' | 'showLogo' | 'quorum' | 'signatories'> | null;
+  meeting: {
+    id: string;
+    title: string;
+    type: MeetingType;
+    location: string | null;
+    isVirtual: boolean;
+    scheduledStart: Date;
+    actualStart: Date | null;
+    actualEnd: Date | null;
+  };
+  attendees: Array<{
+    isPresent: boolean;
+    joinedAt: Date | null;
+    attendee: { name: string; title: string; isExternal: boolean };
+  }>;
+  agendaItems: Array<{ id: string; order: number; title: string; presenter: string | null; status: string }>;
+  summary: {
+    overview: string;
+    nextSteps: unknown;
+    status: MinutesStatus;
+    currentVersion: number;
+    approvedVersion: number | null;
+    approvedAt: Date | null;
+    discussions: Array<{ agendaItemId: string; summary: string; keyPoints: unknown; outcome: string | null }>;
+    signoffs: Array<{ role: MinutesSignoffRole; version: number; signedAt: Date; signerName: string | null; user: { name: string } | null }>;
+  } | null;
+  decisions: Array<{
+    description: string;
+    rationale: string | null;
+    votedFor: number;
+    votedAgainst: number;
+    abstained: number;
+    timestamp: Date;
+  }>;
+  actionItems: Array<{
+    description: string;
+    dueDate: Date | null;
+    priority: string;
+    status: string;
+    agendaItemId: string | null;
+    assignee: { name: string } | null;
+  }>;
+}
+
+// ============================================
+// COMPOSITION
+// ============================================
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+}
+
+function parseSignatories(value: unknown): Signatory[] | null {
+  if (!Array.isArray(value)) return null;
+  return value
+    .filter((s): s is Signatory => !!s && typeof s === 'object' && typeof (s as Signatory).role === 'string')
+    .map((s) => ({ role: s.role, ...(typeof s.name === 'string' && s.name ? { name: s.name } : {}) }));
+}
+
+/**
+ * Template settings with the defaults filled in
+ */
+export function resolveTemplate(
+  template: MinutesInput['template'],
+  organizationName: string,
+  meetingType: MeetingType
+): ResolvedTemplate {
+  return {
+    heading: template?.heading || `Minutes of the ${MEETING_TYPE_LABELS[meetingType]} Meeting`,
+    letterhead: template?.letterhead
+      ? template.letterhead.split('\n').map((line) => line.trim()).filter(Boolean)
+      : [organizationName],
+    footer: template?.footer || null,
+    accentColor: template?.accentColor || DEFAULT_ACCENT_COLOR,
+    showLogo: template?.showLogo ?? true,
+    quorum: template?.quorum ?? null,
+    signatories: parseSignatories(template?.signatories) ?? DEFAULT_SIGNATORIES,
+  };
+}
+
+function resolutionResult(decision: MinutesInput['decisions'][number]): ResolutionResult {
+  // Decisions taken by consensus carry no recorded vote
+  if (decision.votedFor + decision.votedAgainst + decision.abstained === 0) {
+    return 'resolved';
+  }
+  return decision.votedFor > decision.votedAgainst ? 'carried' : 'not carried';
+}
+
+/**
+ * Minutes of a meeting from its stored records
+ */
+export function composeMinutes(input: MinutesInput): Minutes {
+  const template = resolveTemplate(input.template, input.organization.name, input.meeting.type);
+
+  const person = ({ attendee }: MinutesInput['attendees'][number]): MinutesPerson => ({
+    name: attendee.name,
+    title: attendee.title || null,
+  });
+  const byName = (a: MinutesPerson, b: MinutesPerson) => a.name.localeCompare(b.name);
+  const attended = (a: MinutesInput['attendees'][number]) => a.isPresent || a.joinedAt !== null;
+
+  const members = input.attendees.filter((a) => !a.attendee.isExternal);
+  const present = members.filter(attended).map(person).sort(byName);
+  const apologies = members.filter((a) => !attended(a)).map(person).sort(byName);
+  const inAttendance = input.attendees.filter((a) => a.attendee.isExternal && attended(a)).map(person).sort(byName);
+
+  const required = template.quorum ?? Math.floor(members.length / 2) + 1;
+
+  // Signatures of the approved version (or the one being approved) go in the matching blocks
+  const version = input.summary?.approvedVersion ?? input.summary?.currentVersion ?? 0;
+  const signoffs = (input.summary?.signoffs ?? []).filter((s) => s.version === version);
+  const signatories = template.signatories.map((signatory) => {
+    const signoff = signoffs.find((s) => s.role.toLowerCase() === signatory.role.trim().toLowerCase());
+    if (!signoff) return signatory;
+    // The copied name stands in once the signer's account is deleted
+    return { role: signatory.role, name: signoff.user?.name ?? signoff.signerName ?? undefined, signedAt: signoff.signedAt };
+  });
+
+  const discussions = new Map((input.summary?.discussions ?? []).map((d) => [d.agendaItemId, d]));
+  const items = [...input.agendaItems].sort((a, b) => a.order - b.order);
+  const itemNumbers = new Map(items.map((item, index) => [item.id, index + 1]));
+
+  const agendaItems = items.map((item, index): MinutesAgendaItem => {
+    const discussion = discussions.get(item.id);
+    return {
+      number: index + 1,
+      title: item.title,
+      presenter: item.presenter,
+      deferred: item.status === 'SKIPPED',
+      summary: discussion?.summary || null,
+      keyPoints: stringList(discussion?.keyPoints),
+      outcome: discussion?.outcome || null,
+    };
+  });
+
+  const resolutions = [...input.decisions]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .map((decision, index): MinutesResolution => ({
+      number: `R${index + 1}`,
+      text: decision.description,
+      rationale: decision.rationale,
+      votedFor: decision.votedFor,
+      votedAgainst: decision.votedAgainst,
+      abstained: decision.abstained,
+      result: resolutionResult(decision),
+    }));
+
+  const actions = input.actionItems.map((action, index): MinutesAction => {
+    const itemNumber = action.agendaItemId ? itemNumbers.get(action.agendaItemId) : undefined;
+    return {
+      number: index + 1,
+      description: action.description,
+      owner: action.assignee?.name ?? null,
+      dueDate: action.dueDate,
+      priority: action.priority.toLowerCase(),
+      status: action.status.toLowerCase().replace('_', ' '),
+      agendaItem: itemNumber ? `${itemNumber}. ${items[itemNumber - 1].title}` : null,
+    };
+  });
+
+  return {
+    organization: input.organization,
+    template: { ...template, signatories },
+    meeting: {
+      id: input.meeting.id,
+      title: input.meeting.title,
+      type: input.meeting.type,
+      location: input.meeting.location,
+      isVirtual: input.meeting.isVirtual,
+      startedAt: input.meeting.actualStart ?? input.meeting.scheduledStart,
+      endedAt: input.meeting.actualEnd,
+    },
+    attendance: { present, inAttendance, apologies },
+    quorum: { required, present: present.length, met: present.length >= required },
+    approval: {
+      status: input.summary?.status ?? 'DRAFT',
+      version,
+      approvedAt: input.summary?.approvedAt ?? null,
+    },
+    overview: input.summary?.overview || null,
+    agendaItems,
+    resolutions,
+    actions,
+    nextSteps: stringList(input.summary?.nextSteps),
+  };
+}
+
+/**
+ * Load a meeting's records and compose its minutes
+ */
+export async function buildMinutes(meetingId: string): Promise<Minutes> {
+  const meeting = await prisma.meeting.findUniqueOrThrow({
+    where: { id: meetingId },
+    include: {
+      organization: { include: { minutesTemplate: true } },
+      attendees: {
+        select: {
+          isPresent: true,
+          joinedAt: true,
+          attendee: { select: { name: true, title: true, isExternal: true } },
+        },
+      },
+      agendaItems: { select: { id: true, order: true, title: true, presenter: true, status: true } },
+      summary: {
+        include: {
+          discussions: true,
+          signoffs: { include: { user: { select: { name: true } } } },
+        },
+      },
+      decisions: true,
+      actionItems: {
+        include: { assignee: { select: { name: true } } },
+        orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+      },
+    },
+  });
+
+  return composeMinutes({
+    organization: {
+      name: meeting.organization.name,
+      logo: meeting.organization.logo,
+      timezone: meeting.organization.timezone,
+    },
+    template: meeting.organization.minutesTemplate,
+    meeting,
+    attendees: meeting.attendees,
+    agendaItems: meeting.agendaItems,
+    summary: meeting.summary,
+    decisions: meeting.decisions,
+    actionItems: meeting.actionItems,
+  });
+}
+
+// Export service
+export const minutes = {
+  resolveTemplate,
+  composeMinutes,
+  buildMinutes,
+};
+
+export default minutes;
@@ -0,0 +1,691 @@
+/**
+ * PDF Minutes
+ *
+ * Renders minutes as an A4 PDF with a small built-in writer: text is set in
+ * DejaVu Sans, embedded as a subset holding the glyphs the minutes use,
+ * wrapped with the font's metrics and paginated, with tables that continue
+ * across pages, the letterhead logo on the first page and the template
+ * footer and page numbers on every page.
+ *
+ * DejaVu Sans covers Latin, Greek, Cyrillic, Arabic, Hebrew and most
+ * punctuation and symbols; Arabic is shaped and right-to-left lines are
+ * reordered and right-aligned (see bidi.ts). Emoji the font lacks are left
+ * out; minutes with other characters it lacks (Chinese, for one) are
+ * refused, since DOCX and HTML show every script.
+ */
+
+import fs from 'fs';
+import { createHash } from 'crypto';
+import zlib from 'zlib';
+import { Minutes } from './minutes';
+import { layoutMinutes, MinutesBlock, TableColumn } from './layout';
+import { LogoImage } from './logo';
+import { baseDirection, shapeArabic, visualOrder } from './bidi';
+import { TrueTypeFont } from './truetype';
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// A4 in points, with 2 cm margins
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56.7;
+const FOOTER_HEIGHT = 28;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+// Largest letterhead logo, in points
+const LOGO_MAX_WIDTH = 160;
+const LOGO_MAX_HEIGHT = 48;
+
+const BODY_SIZE = 10;
+const BODY_LEADING = 14;
+const TABLE_SIZE = 8.5;
+const TABLE_LEADING = 11;
+const CELL_PADDING = 4;
+
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const RULE_COLOR = '#e5e7eb';
+
+// Font files of the dejavu-fonts-ttf package
+const FONT_FILES: Record<FontName, string> = {
+  F1: 'DejaVuSans.ttf',
+  F2: 'DejaVuSans-Bold.ttf',
+};
+
+// Characters that are left out when the font cannot show them: emoji and
+// the invisible characters that combine or direct them
+const OPTIONAL_PATTERN = /[\p{Extended_Pictographic}\p{Emoji_Modifier}\u200b-\u200f\u2060]|\p{Variation_Selector}/u;
+
+// ============================================
+// TYPES
+// ============================================
+
+export class PdfEncodingError extends Error {
+  status = 422;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfEncodingError';
+  }
+}
+
+type FontName = 'F1' | 'F2';  // DejaVu Sans, DejaVu Sans Bold
+
+interface TextStyle {
+  font?: FontName;
+  size?: number;
+  color?: string;
+}
+
+interface PdfImage {
+  dictionary: string;
+  data: Buffer;
+  mask?: { dictionary: string; data: Buffer };
+  width: number;
+  height: number;
+}
+
+// ============================================
+// TEXT
+// ============================================
+
+let loadedFonts: Record<FontName, TrueTypeFont> | null = null;
+
+function fonts(): Record<FontName, TrueTypeFont> {
+  if (!loadedFonts) {
+    const load = (file: string) => new TrueTypeFont(fs.readFileSync(require.resolve(`dejavu-fonts-ttf/ttf/${file}`)));
+    loadedFonts = { F1: load(FONT_FILES.F1), F2: load(FONT_FILES.F2) };
+  }
+  return loadedFonts;
+}
+
+/**
+ * Text ready to be set in a font: Arabic shaped, control characters and
+ * emoji the font lacks left out. Throws PdfEncodingError for other
+ * characters the font cannot show.
+ */
+function printable(text: string, font: FontName): string {
+  const ttf = fonts()[font];
+  let result = '';
+  for (const char of shapeArabic(text.replace(/\t/g, ' '))) {
+    const code = char.codePointAt(0)!;
+    if (code < 32 || (code >= 0x7f && code < 0xa0)) continue;
+    if (ttf.hasGlyph(code)) {
+      result += char;
+    } else if (!OPTIONAL_PATTERN.test(char)) {
+      throw new PdfEncodingError(
+        `The minutes contain characters the PDF font cannot show (such as "${char}"); export them as DOCX or HTML instead`
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Width in points of printable text
+ */
+function textWidth(text: string, font: FontName, size: number): number {
+  const ttf = fonts()[font];
+  let width = 0;
+  for (const char of text) {
+    width += ttf.advance(ttf.glyphFor(char.codePointAt(0)!));
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * Break text into lines that fit a width (printable, in reading order)
+ */
+export function wrapText(text: string, width: number, font: FontName = 'F1', size = BODY_SIZE): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of printable(paragraph, font).split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, font, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+
+      // Words longer than the line are broken wherever they reach the edge
+      line = '';
+      for (const char of word) {
+        if (line && textWidth(line + char, font, size) > width) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+// Text of a PDF string outside content streams (UTF-16 with a byte order mark)
+function pdfTextString(text: string): string {
+  return `<FEFF${Buffer.from(text, 'utf16le').swap16().toString('hex').toUpperCase()}>`;
+}
+
+function rgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [value >> 16, (value >> 8) & 0xff, value & 0xff].map((c) => (c / 255).toFixed(3)).join(' ');
+}
+
+// ============================================
+// IMAGES
+// ============================================
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Undo the per-row filters of decompressed 8-bit PNG data
+ */
+function unfilterPng(data: Buffer, width: number, height: number, channels: number): Buffer {
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const row = y * (stride + 1) + 1;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[row + x];
+      const left = x >= channels ? pixels[y * stride + x - channels] : 0;
+      const up = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+      const upLeft = x >= channels && y > 0 ? pixels[(y - 1) * stride + x - channels] : 0;
+      const predictor = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)][filter] ?? 0;
+      pixels[y * stride + x] = (raw + predictor) & 0xff;
+    }
+  }
+
+  return pixels;
+}
+
+function pngImage(data: Buffer): PdfImage | null {
+  const width = data.readUInt32BE(16);
+  const height = data.readUInt32BE(20);
+  const bitDepth = data[24];
+  const colorType = data[25];
+  const interlaced = data[28] !== 0;
+
+  let palette: Buffer | null = null;
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset + 8 <= data.length;) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    if (type === 'PLTE') palette = chunk;
+    if (type === 'IDAT') idat.push(chunk);
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+
+  if (interlaced || idat.length === 0) {
+    return null;
+  }
+  const compressed = Buffer.concat(idat);
+  const size = `/Width ${width} /Height ${height}`;
+
+  // Gray, RGB and palette images keep their compressed data; PDF undoes the filters
+  if (((colorType === 0 || colorType === 2) && bitDepth === 8) || (colorType === 3 && palette)) {
+    const colors = colorType === 2 ? 3 : 1;
+    const colorSpace = colorType === 0
+      ? '/DeviceGray'
+      : colorType === 2
+        ? '/DeviceRGB'
+        : `[/Indexed /DeviceRGB ${palette!.length / 3 - 1} <${palette!.toString('hex')}>]`;
+    return {
+      dictionary: `/Type /XObject /Subtype /Image ${size} /ColorSpace ${colorSpace} /BitsPerComponent ${bitDepth} ` +
+        `/Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`,
+      data: compressed,
+      width,
+      height,
+    };
+  }
+
+  // Transparent images are split into the colour and an alpha soft mask
+  if ((colorType === 4 || colorType === 6) && bitDepth === 8) {
+    const colors = colorType === 6 ? 3 : 1;
+    const pixels = unfilterPng(zlib.inflateSync(compressed), width, height, colors + 1);
+    const color = Buffer.alloc(width * height * colors);
+    const alpha = Buffer.alloc(width * height);
+    for (let i = 0; i < width * height; i++) {
+      pixels.copy(color, i * colors, i * (colors + 1), i * (colors + 1) + colors);
+      alpha[i] = pixels[i * (colors + 1) + colors];
+    }
+    return {
+      dictionary: `/Type /XObject /Subtype /Image ${size} /ColorSpace ${colors === 3 ? '/DeviceRGB' : '/DeviceGray'} ` +
+        '/BitsPerComponent 8 /Filter /FlateDecode',
+      data: zlib.deflateSync(color),
+      mask: {
+        dictionary: `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+        data: zlib.deflateSync(alpha),
+      },
+      width,
+      height,
+    };
+  }
+
+  return null;
+}
+
+function jpegImage(logo: LogoImage): PdfImage | null {
+  // Components are counted in the start-of-frame segment
+  let offset = 2;
+  let components = 0;
+  while (offset + 9 < logo.data.length && logo.data[offset] === 0xff) {
+    const marker = logo.data[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      components = logo.data[offset + 9];
+      break;
+    }
+    offset += 2 + logo.data.readUInt16BE(offset + 2);
+  }
+
+  const colorSpace = { 1: '/DeviceGray', 3: '/DeviceRGB', 4: '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]' }[components];
+  if (!colorSpace) {
+    return null;
+  }
+  return {
+    dictionary: `/Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} ` +
+      `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+    data: logo.data,
+    width: logo.width,
+    height: logo.height,
+  };
+}
+
+// ============================================
+// PAGE LAYOUT
+// ============================================
+
+/**
+ * Content streams of the pages, filled top to bottom
+ */
+class PdfCanvas {
+  pages: string[][] = [];
+  // Glyphs drawn in each font, with the text they stand for
+  glyphs: Record<FontName, Map<number, string>> = { F1: new Map(), F2: new Map() };
+  private ops: string[] = [];
+  y = PAGE_HEIGHT - MARGIN;
+
+  constructor() {
+    this.pages.push(this.ops);
+  }
+
+  newPage(): void {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Room left above the footer
+  get available(): number {
+    return this.y - MARGIN - FOOTER_HEIGHT;
+  }
+
+  ensure(height: number): void {
+    if (height > this.available) this.newPage();
+  }
+
+  /**
+   * A printable line as a PDF string of glyph ids, in drawing order
+   */
+  encode(line: string, font: FontName): string {
+    const ttf = fonts()[font];
+    let hex = '';
+    for (const cluster of visualOrder(line)) {
+      for (const char of cluster) {
+        const glyph = ttf.glyphFor(char.codePointAt(0)!);
+        // Presentation forms are copied out as the letters they show
+        if (!this.glyphs[font].has(glyph)) this.glyphs[font].set(glyph, char.normalize('NFKC'));
+        hex += glyph.toString(16).padStart(4, '0');
+      }
+    }
+    return `<${hex}>`;
+  }
+
+  textOp(x: number, baseline: number, line: string, style: TextStyle = {}): string {
+    const { font = 'F1', size = BODY_SIZE, color = TEXT_COLOR } = style;
+    return `BT /${font} ${size} Tf ${rgb(color)} rg ${x.toFixed(2)} ${baseline.toFixed(2)} Td ${this.encode(line, font)} Tj ET`;
+  }
+
+  text(x: number, baseline: number, line: string, style: TextStyle = {}): void {
+    this.ops.push(this.textOp(x, baseline, line, style));
+  }
+
+  /**
+   * A line starting at x, or ending at x + width when it reads right to left
+   */
+  alignedText(x: number, width: number, baseline: number, line: string, style: TextStyle = {}): void {
+    const { font = 'F1', size = BODY_SIZE } = style;
+    const start = baseDirection(line) === 'rtl' ? x + width - textWidth(line, font, size) : x;
+    this.text(start, baseline, line, style);
+  }
+
+  rule(x1: number, x2: number, y: number, color: string, width = 0.5): void {
+    this.ops.push(`${rgb(color)} RG ${width} w ${x1.toFixed(2)} ${y.toFixed(2)} m ${x2.toFixed(2)} ${y.toFixed(2)} l S`);
+  }
+
+  fill(x: number, y: number, width: number, height: number, color: string): void {
+    this.ops.push(`${rgb(color)} rg ${x.toFixed(2)} ${y.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f`);
+  }
+
+  image(name: string, x: number, y: number, width: number, height: number): void {
+    this.ops.push(`q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /${name} Do Q`);
+  }
+
+  /**
+   * Wrapped text, moving to a new page between lines when needed
+   */
+  paragraph(text: string, style: TextStyle & { indent?: number; leading?: number; spaceAfter?: number } = {}): void {
+    const { indent = 0, leading = BODY_LEADING, spaceAfter = 6, font = 'F1', size = BODY_SIZE } = style;
+    for (const line of wrapText(text, TEXT_WIDTH - indent, font, size)) {
+      this.ensure(leading);
+      this.y -= leading;
+      this.alignedText(MARGIN + indent, TEXT_WIDTH - indent, this.y + (leading - size) / 2, line, style);
+    }
+    this.y -= spaceAfter;
+  }
+
+  table(columns: TableColumn[], rows: string[][], accent: string): void {
+    const widths = columns.map((c) => c.width * TEXT_WIDTH);
+    const offsets = widths.map((_, i) => MARGIN + widths.slice(0, i).reduce((sum, w) => sum + w, 0));
+    const wrapCells = (cells: string[], font: FontName) =>
+      cells.map((cell, i) => wrapText(cell, widths[i] - 2 * CELL_PADDING, font, TABLE_SIZE));
+
+    const header = wrapCells(columns.map((c) => c.label), 'F2');
+    const headerHeight = Math.max(...header.map((l) => l.length)) * TABLE_LEADING + 2 * CELL_PADDING;
+
+    const drawRow = (cells: string[][], height: number, isHeader: boolean) => {
+      if (isHeader) this.fill(MARGIN, this.y - height, TEXT_WIDTH, height, accent);
+      cells.forEach((lines, i) => {
+        lines.forEach((line, n) => {
+          const baseline = this.y - CELL_PADDING - (n + 1) * TABLE_LEADING + (TABLE_LEADING - TABLE_SIZE) / 2 + 1;
+          this.alignedText(offsets[i] + CELL_PADDING, widths[i] - 2 * CELL_PADDING, baseline, line, {
+            font: isHeader ? 'F2' : 'F1',
+            size: TABLE_SIZE,
+            color: isHeader ? '#ffffff' : TEXT_COLOR,
+          });
+        });
+      });
+      this.y -= height;
+      if (!isHeader) this.rule(MARGIN, MARGIN + TEXT_WIDTH, this.y, RULE_COLOR);
+    };
+
+    // Keep the header with at least one line of the first row
+    this.ensure(headerHeight + TABLE_LEADING + 2 * CELL_PADDING);
+    drawRow(header, headerHeight, true);
+
+    for (const row of rows) {
+      const cells = wrapCells(row, 'F1');
+      let start = 0;
+      const total = Math.max(...cells.map((l) => l.length));
+
+      // Rows taller than the room left continue on the next page, under the header again
+      while (start < total) {
+        const fit = Math.floor((this.available - 2 * CELL_PADDING) / TABLE_LEADING);
+        if (fit < Math.min(2, total - start)) {
+          this.newPage();
+          drawRow(header, headerHeight, true);
+          continue;
+        }
+        const count = Math.min(fit, total - start);
+        drawRow(cells.map((lines) => lines.slice(start, start + count)), count * TABLE_LEADING + 2 * CELL_PADDING, false);
+        start += count;
+      }
+    }
+
+    this.y -= 10;
+  }
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+function renderBlock(canvas: PdfCanvas, block: MinutesBlock, accent: string): void {
+  switch (block.type) {
+    case 'heading':
+      // Keep headings with the first lines that follow them
+      canvas.ensure(22 + 3 * BODY_LEADING);
+      canvas.y -= 14;
+      canvas.paragraph(block.text, { font: 'F2', size: 13, leading: 17, color: accent, spaceAfter: 3 });
+      canvas.rule(MARGIN, MARGIN + TEXT_WIDTH, canvas.y, RULE_COLOR);
+      canvas.y -= 6;
+      return;
+    case 'subheading':
+      canvas.ensure(8 + 3 * BODY_LEADING);
+      canvas.y -= 6;
+      canvas.paragraph(block.text, { font: 'F2', size: 10.5, spaceAfter: 2 });
+      return;
+    case 'paragraph':
+      canvas.paragraph(block.text, {
+        font: block.style === 'strong' ? 'F2' : 'F1',
+        color: block.style === 'muted' ? MUTED_COLOR : TEXT_COLOR,
+      });
+      return;
+    case 'list':
+      for (const item of block.items) {
+        const lines = wrapText(item, TEXT_WIDTH - 14);
+        canvas.ensure(BODY_LEADING);
+        canvas.text(MARGIN + 4, canvas.y - BODY_LEADING + 2, '•');
+        lines.forEach((line) => {
+          canvas.ensure(BODY_LEADING);
+          canvas.y -= BODY_LEADING;
+          canvas.alignedText(MARGIN + 14, TEXT_WIDTH - 14, canvas.y + 2, line);
+        });
+        canvas.y -= 2;
+      }
+      canvas.y -= 4;
+      return;
+    case 'table':
+      canvas.table(block.columns, block.rows, accent);
+      return;
+    case 'signatures': {
+      const gap = 36;
+      const width = (TEXT_WIDTH - gap * (block.signatories.length - 1)) / block.signatories.length;
+      canvas.ensure(90);
+      canvas.y -= 56;
+      block.signatories.forEach((s, i) => {
+        const x = MARGIN + i * (width + gap);
+        canvas.rule(x, x + width, canvas.y, TEXT_COLOR, 0.75);
+        canvas.alignedText(x, width, canvas.y - 14, wrapText(s.label, width)[0]);
+        canvas.text(x, canvas.y - 28, wrapText(`Date: ${s.date ?? ''}`, width)[0], { color: MUTED_COLOR });
+      });
+      canvas.y -= 34;
+      return;
+    }
+  }
+}
+
+// Six capital letters naming a font subset, the same for the same glyphs
+function subsetTag(glyphs: number[]): string {
+  const digest = createHash('sha256').update(glyphs.join(',')).digest();
+  return [...digest.subarray(0, 6)].map((byte) => String.fromCharCode(65 + (byte % 26))).join('');
+}
+
+// CMap turning glyph ids back into text, for copying and searching
+function toUnicodeCMap(glyphs: Map<number, string>): string {
+  const hex = (text: string) => Buffer.from(text, 'utf16le').swap16().toString('hex');
+  const entries = [...glyphs].map(([glyph, text]) => `<${glyph.toString(16).padStart(4, '0')}> <${hex(text)}>`);
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const block = entries.slice(i, i + 100);
+    blocks.push(`${block.length} beginbfchar\n${block.join('\n')}\nendbfchar`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
+
+/**
+ * Serialize pages, fonts and images into a PDF file
+ */
+function writePdf(
+  pages: string[],
+  glyphs: Record<FontName, Map<number, string>>,
+  images: PdfImage[],
+  title: string
+): Buffer {
+  const objects: Buffer[] = [];
+  const add = (body: Buffer | string) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+  const stream = (dictionary: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream', 'latin1')]);
+
+  const catalog = add('');
+  const pageTree = add('');
+
+  // Each font is embedded as a subset, addressed by glyph id (Identity-H)
+  const fontRefs = (Object.keys(FONT_FILES) as FontName[]).map((name) => {
+    const ttf = fonts()[name];
+    const used = [...glyphs[name].keys()].sort((a, b) => a - b);
+    const baseFont = `${subsetTag(used)}+${ttf.postscriptName}`;
+
+    const file = ttf.subset(used);
+    const fontFile = add(stream(`/Filter /FlateDecode /Length1 ${file.length}`, zlib.deflateSync(file)));
+    const descriptor = add(
+      `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 32 /FontBBox [${ttf.bbox.join(' ')}] ` +
+      `/ItalicAngle ${ttf.italicAngle} /Ascent ${ttf.ascent} /Descent ${ttf.descent} /CapHeight ${ttf.capHeight} ` +
+      `/StemV ${name === 'F2' ? 140 : 80} /FontFile2 ${fontFile} 0 R >>`
+    );
+    const widths = used.map((glyph) => `${glyph} [${ttf.advance(glyph)}]`).join(' ');
+    const cidFont = add(
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} ` +
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ' +
+      `/FontDescriptor ${descriptor} 0 R /DW 1000 /W [${widths}] /CIDToGIDMap /Identity >>`
+    );
+    const cmap = toUnicodeCMap(glyphs[name]);
+    const toUnicode = add(stream('/Filter /FlateDecode', zlib.deflateSync(Buffer.from(cmap, 'latin1'))));
+    const font = add(
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H ` +
+      `/DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`
+    );
+    return `/${name} ${font} 0 R`;
+  });
+
+  const imageRefs = images.map((image, i) => {
+    const mask = image.mask ? add(stream(image.mask.dictionary, image.mask.data)) : null;
+    const ref = add(stream(`${image.dictionary}${mask ? ` /SMask ${mask} 0 R` : ''}`, image.data));
+    return `/Im${i + 1} ${ref} 0 R`;
+  });
+  const resources = `<< /Font << ${fontRefs.join(' ')} >> /XObject << ${imageRefs.join(' ')} >> >>`;
+
+  const pageRefs = pages.map((content) => {
+    const contents = add(stream('/Filter /FlateDecode', zlib.deflateSync(Buffer.from(content, 'latin1'))));
+    return add(`<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contents} 0 R >>`);
+  });
+
+  objects[catalog - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pageTree} 0 R >>`, 'latin1');
+  objects[pageTree - 1] = Buffer.from(`<< /Type /Pages /Kids [${pageRefs.map((r) => `${r} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`, 'latin1');
+  const info = add(`<< /Title ${pdfTextString(title)} /Producer (Board Observer) >>`);
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = chunks[0].length;
+  const offsets = objects.map((body, i) => {
+    const offset = length;
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    chunks.push(chunk);
+    length += chunk.length;
+    return offset;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Minutes as a PDF file
+ */
+export function renderPdf(minutes: Minutes, logo: LogoImage | null): Buffer {
+  const { template } = minutes;
+  const layout = layoutMinutes(minutes);
+  const accent = template.accentColor;
+  const canvas = new PdfCanvas();
+  const images: PdfImage[] = [];
+
+  // Letterhead
+  const image = logo && template.showLogo ? (logo.format === 'png' ? pngImage(logo.data) : jpegImage(logo)) : null;
+  if (image) {
+    images.push(image);
+    const scale = Math.min(LOGO_MAX_WIDTH / image.width, LOGO_MAX_HEIGHT / image.height);
+    const height = image.height * scale;
+    canvas.image('Im1', MARGIN, canvas.y - height, image.width * scale, height);
+    canvas.y -= height + 8;
+  }
+  for (const line of template.letterhead) {
+    canvas.paragraph(line, { size: 8.5, leading: 11, color: '#4b5563', spaceAfter: 0 });
+  }
+  canvas.y -= 6;
+  canvas.rule(MARGIN, MARGIN + TEXT_WIDTH, canvas.y, accent, 1.5);
+  canvas.y -= 12;
+
+  canvas.paragraph(layout.title, { font: 'F2', size: 18, leading: 24, color: accent, spaceAfter: 2 });
+  canvas.paragraph(layout.subtitle, { color: '#374151', spaceAfter: 8 });
+
+  for (const block of layout.blocks) {
+    renderBlock(canvas, block, accent);
+  }
+
+  // Footer and page numbers, once the page count is known
+  const footer = template.footer ? wrapText(template.footer.replace(/\n/g, ' '), TEXT_WIDTH - 80, 'F1', 7.5)[0] : '';
+  const footerStyle = { size: 7.5, color: MUTED_COLOR };
+  canvas.pages.forEach((ops, index) => {
+    const pageLabel = `Page ${index + 1} of ${canvas.pages.length}`;
+    const baseline = MARGIN - 4;
+    ops.push(`${rgb(RULE_COLOR)} RG 0.5 w ${MARGIN} ${MARGIN + 8} m ${MARGIN + TEXT_WIDTH} ${MARGIN + 8} l S`);
+    if (footer) {
+      ops.push(canvas.textOp(MARGIN, baseline, footer, footerStyle));
+    }
+    const x = MARGIN + TEXT_WIDTH - textWidth(pageLabel, 'F1', 7.5);
+    ops.push(canvas.textOp(x, baseline, pageLabel, footerStyle));
+  });
+
+  return writePdf(
+    canvas.pages.map((ops) => ops.join('\n')),
+    canvas.glyphs,
+    images,
+    `${layout.title} - ${minutes.meeting.title}`
+  );
+}
+
+export default renderPdf;
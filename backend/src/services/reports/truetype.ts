@@ -0,0 +1,336 @@
+/**
+ * TrueType Fonts
+ *
+ * Reads what the PDF writer needs from a TrueType font (its character map,
+ * advance widths and metrics) and subsets it to the glyphs a document uses,
+ * so a PDF embeds tens of kilobytes of font rather than the whole file.
+ * Subsets keep the glyph numbering of the original and empty the glyphs
+ * that are not used, so glyph ids can serve as the PDF's character ids.
+ */
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+// Tables a PDF viewer needs to draw an embedded TrueType font
+const SUBSET_TABLES = ['cvt ', 'fpgm', 'glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp', 'prep'];
+
+// Composite glyph flags
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+// ============================================
+// TYPES
+// ============================================
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+// ============================================
+// FONT
+// ============================================
+
+export class TrueTypeFont {
+  readonly postscriptName: string;
+  readonly unitsPerEm: number;
+  // In units of 1/1000 of the font size, as PDF expects
+  readonly ascent: number;
+  readonly descent: number;
+  readonly capHeight: number;
+  readonly italicAngle: number;
+  readonly bbox: [number, number, number, number];
+
+  private tables = new Map<string, TableRecord>();
+  private cmap = new Map<number, number>();
+  private advances: number[] = [];
+  private glyphOffsets: number[] = [];
+
+  constructor(private data: Buffer) {
+    const numTables = data.readUInt16BE(4);
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      this.tables.set(data.toString('latin1', record, record + 4), {
+        offset: data.readUInt32BE(record + 8),
+        length: data.readUInt32BE(record + 12),
+      });
+    }
+
+    const head = this.table('head');
+    this.unitsPerEm = data.readUInt16BE(head + 18);
+    this.bbox = [36, 38, 40, 42].map((at) => this.scale(data.readInt16BE(head + at))) as [number, number, number, number];
+
+    const hhea = this.table('hhea');
+    this.ascent = this.scale(data.readInt16BE(hhea + 4));
+    this.descent = this.scale(data.readInt16BE(hhea + 6));
+
+    const os2 = this.tables.get('OS/2');
+    this.capHeight = os2 && data.readUInt16BE(os2.offset) >= 2
+      ? this.scale(data.readInt16BE(os2.offset + 88))
+      : this.ascent;
+    this.italicAngle = data.readInt32BE(this.table('post') + 4) / 65536;
+
+    this.postscriptName = this.readPostscriptName();
+    this.readMetrics();
+    this.readLocations();
+    this.readCharacterMap();
+  }
+
+  /**
+   * Glyph id of a character (0, the missing glyph, when the font has none)
+   */
+  glyphFor(codePoint: number): number {
+    return this.cmap.get(codePoint) ?? 0;
+  }
+
+  hasGlyph(codePoint: number): boolean {
+    return this.cmap.has(codePoint);
+  }
+
+  /**
+   * Advance width of a glyph, per 1000 units of font size
+   */
+  advance(glyph: number): number {
+    return this.advances[Math.min(glyph, this.advances.length - 1)];
+  }
+
+  /**
+   * The font with only the given glyphs (and the glyphs they are built from) left
+   */
+  subset(glyphs: Iterable<number>): Buffer {
+    const keep = new Set<number>();
+    const pending = [0, ...glyphs];
+    while (pending.length > 0) {
+      const glyph = pending.pop()!;
+      if (keep.has(glyph)) continue;
+      keep.add(glyph);
+      pending.push(...this.components(glyph));
+    }
+
+    const glyphCount = this.glyphOffsets.length - 1;
+    const glyf: Buffer[] = [];
+    const loca = Buffer.alloc((glyphCount + 1) * 4);
+    let offset = 0;
+    for (let glyph = 0; glyph < glyphCount; glyph++) {
+      loca.writeUInt32BE(offset, glyph * 4);
+      if (keep.has(glyph)) {
+        const data = this.glyphData(glyph);
+        const padded = Buffer.alloc((data.length + 3) & ~3);
+        data.copy(padded);
+        glyf.push(padded);
+        offset += padded.length;
+      }
+    }
+    loca.writeUInt32BE(offset, glyphCount * 4);
+
+    const head = Buffer.from(this.tableData('head'));
+    head.writeUInt32BE(0, 8);      // checkSumAdjustment, set once the file is complete
+    head.writeInt16BE(1, 50);      // indexToLocFormat: long offsets
+
+    const tables = new Map<string, Buffer>();
+    for (const tag of SUBSET_TABLES) {
+      if (tag === 'glyf') tables.set(tag, Buffer.concat(glyf));
+      else if (tag === 'loca') tables.set(tag, loca);
+      else if (tag === 'head') tables.set(tag, head);
+      else if (this.tables.has(tag)) tables.set(tag, this.tableData(tag));
+    }
+    return writeFontFile(tables);
+  }
+
+  // ============================================
+  // PARSING
+  // ============================================
+
+  private table(tag: string): number {
+    const record = this.tables.get(tag);
+    if (!record) {
+      throw new Error(`Font has no ${tag} table`);
+    }
+    return record.offset;
+  }
+
+  private tableData(tag: string): Buffer {
+    const { offset, length } = this.tables.get(tag)!;
+    return this.data.subarray(offset, offset + length);
+  }
+
+  private scale(value: number): number {
+    return Math.round((value * 1000) / this.unitsPerEm);
+  }
+
+  private readPostscriptName(): string {
+    const name = this.table('name');
+    const count = this.data.readUInt16BE(name + 2);
+    const strings = name + this.data.readUInt16BE(name + 4);
+    for (let i = 0; i < count; i++) {
+      const record = name + 6 + i * 12;
+      if (this.data.readUInt16BE(record + 6) !== 6) continue;
+      const platform = this.data.readUInt16BE(record);
+      const start = strings + this.data.readUInt16BE(record + 10);
+      const raw = this.data.subarray(start, start + this.data.readUInt16BE(record + 8));
+      // Windows names are UTF-16BE, Macintosh names single bytes
+      return platform === 3 ? Buffer.from(raw).swap16().toString('utf16le') : raw.toString('latin1');
+    }
+    return 'Font';
+  }
+
+  private readMetrics(): void {
+    const metrics = this.data.readUInt16BE(this.table('hhea') + 34);
+    const hmtx = this.table('hmtx');
+    for (let i = 0; i < metrics; i++) {
+      this.advances.push(this.scale(this.data.readUInt16BE(hmtx + i * 4)));
+    }
+  }
+
+  private readLocations(): void {
+    const glyphCount = this.data.readUInt16BE(this.table('maxp') + 4);
+    const longOffsets = this.data.readInt16BE(this.table('head') + 50) === 1;
+    const loca = this.table('loca');
+    for (let i = 0; i <= glyphCount; i++) {
+      this.glyphOffsets.push(longOffsets ? this.data.readUInt32BE(loca + i * 4) : this.data.readUInt16BE(loca + i * 2) * 2);
+    }
+  }
+
+  private readCharacterMap(): void {
+    const cmap = this.table('cmap');
+    const count = this.data.readUInt16BE(cmap + 2);
+    const subtables = new Map<string, number>();
+    for (let i = 0; i < count; i++) {
+      const record = cmap + 4 + i * 8;
+      const key = `${this.data.readUInt16BE(record)}/${this.data.readUInt16BE(record + 2)}`;
+      subtables.set(key, cmap + this.data.readUInt32BE(record + 4));
+    }
+
+    // Full Unicode where the font has it, else the Basic Multilingual Plane
+    const full = subtables.get('3/10') ?? subtables.get('0/4');
+    const bmp = subtables.get('3/1') ?? subtables.get('0/3');
+    if (full !== undefined && this.data.readUInt16BE(full) === 12) {
+      this.readSegmentedCoverage(full);
+    } else if (bmp !== undefined && this.data.readUInt16BE(bmp) === 4) {
+      this.readSegmentMapping(bmp);
+    } else {
+      throw new Error('Font has no Unicode character map');
+    }
+  }
+
+  // cmap format 4
+  private readSegmentMapping(table: number): void {
+    const segments = this.data.readUInt16BE(table + 6) / 2;
+    const ends = table + 14;
+    const starts = ends + segments * 2 + 2;
+    const deltas = starts + segments * 2;
+    const rangeOffsets = deltas + segments * 2;
+
+    for (let i = 0; i < segments; i++) {
+      const start = this.data.readUInt16BE(starts + i * 2);
+      const end = this.data.readUInt16BE(ends + i * 2);
+      const delta = this.data.readInt16BE(deltas + i * 2);
+      const rangeOffset = this.data.readUInt16BE(rangeOffsets + i * 2);
+
+      for (let code = start; code <= end && code !== 0xffff; code++) {
+        let glyph: number;
+        if (rangeOffset === 0) {
+          glyph = (code + delta) & 0xffff;
+        } else {
+          glyph = this.data.readUInt16BE(rangeOffsets + i * 2 + rangeOffset + (code - start) * 2);
+          if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+        }
+        if (glyph !== 0) this.cmap.set(code, glyph);
+      }
+    }
+  }
+
+  // cmap format 12
+  private readSegmentedCoverage(table: number): void {
+    const groups = this.data.readUInt32BE(table + 12);
+    for (let i = 0; i < groups; i++) {
+      const group = table + 16 + i * 12;
+      const start = this.data.readUInt32BE(group);
+      const end = this.data.readUInt32BE(group + 4);
+      const glyph = this.data.readUInt32BE(group + 8);
+      for (let code = start; code <= end; code++) {
+        this.cmap.set(code, glyph + code - start);
+      }
+    }
+  }
+
+  private glyphData(glyph: number): Buffer {
+    const glyf = this.table('glyf');
+    return this.data.subarray(glyf + this.glyphOffsets[glyph], glyf + this.glyphOffsets[glyph + 1]);
+  }
+
+  // Glyphs a composite glyph is built from
+  private components(glyph: number): number[] {
+    const data = this.glyphData(glyph);
+    if (data.length === 0 || data.readInt16BE(0) >= 0) {
+      return [];
+    }
+
+    const components: number[] = [];
+    let offset = 10;
+    let flags: number;
+    do {
+      flags = data.readUInt16BE(offset);
+      components.push(data.readUInt16BE(offset + 2));
+      offset += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+      if (flags & WE_HAVE_A_SCALE) offset += 2;
+      else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) offset += 4;
+      else if (flags & WE_HAVE_A_TWO_BY_TWO) offset += 8;
+    } while (flags & MORE_COMPONENTS);
+    return components;
+  }
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+function checksum(data: Buffer): number {
+  const padded = data.length % 4 === 0 ? data : Buffer.concat([data, Buffer.alloc(4 - (data.length % 4))]);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) {
+    sum = (sum + padded.readUInt32BE(i)) >>> 0;
+  }
+  return sum;
+}
+
+/**
+ * A TrueType file holding the given tables
+ */
+function writeFontFile(tables: Map<string, Buffer>): Buffer {
+  const tags = [...tables.keys()].sort();
+  const power = 2 ** Math.floor(Math.log2(tags.length));
+
+  const header = Buffer.alloc(12 + tags.length * 16);
+  header.writeUInt32BE(0x00010000, 0);
+  header.writeUInt16BE(tags.length, 4);
+  header.writeUInt16BE(power * 16, 6);
+  header.writeUInt16BE(Math.log2(power), 8);
+  header.writeUInt16BE(tags.length * 16 - power * 16, 10);
+
+  const bodies: Buffer[] = [];
+  let offset = header.length;
+  tags.forEach((tag, i) => {
+    const data = tables.get(tag)!;
+    const record = 12 + i * 16;
+    header.write(tag, record, 'latin1');
+    header.writeUInt32BE(checksum(data), record + 4);
+    header.writeUInt32BE(offset, record + 8);
+    header.writeUInt32BE(data.length, record + 12);
+    const padded = Buffer.alloc((data.length + 3) & ~3);
+    data.copy(padded);
+    bodies.push(padded);
+    offset += padded.length;
+  });
+
+  const file = Buffer.concat([header, ...bodies]);
+  const head = header.readUInt32BE(12 + tags.indexOf('head') * 16 + 8);
+  file.writeUInt32BE((0xb1b0afba - checksum(file)) >>> 0, head + 8);
+  return file;
+}
+
+export default TrueTypeFont;
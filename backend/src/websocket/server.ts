@@ -3,6 +3,10 @@
  * 
  * Powered by Recall.ai for transcription and OpenAI for AI insights.
  * 
+ * Clients authenticate with the same bearer token as the REST API, passed as
+ * `auth.token` in the Socket.io handshake. Every meeting-scoped event checks
+ * the caller's organization role (VIEWER to listen, EDITOR to change state).
+ * 
  * Events:
  * Client -> Server:
  *   - join-meeting: Join a meeting room
@@ -11,23 +15,40 @@
  *   - stop-recording: Stop recording (leave Recall.ai bot)
  *   - confirm-action: Confirm a detected action
  *   - dismiss-insight: Dismiss an insight
- *   - ask-agent: Ask the advisor agent a question
+ *   - ask-agent: Ask the advisor agent a question (with a requestId to stream the answer)
+ *   - cancel-agent: Stop streaming the answer to a question
+ *   - stop-speaking: Cut the bot off while it is speaking
+ *   - progress-agenda: Change an agenda item's status (starting one completes the current item)
  * 
  * Server -> Client:
  *   - transcript-update: New transcript entry (from Recall.ai)
  *   - transcript-live: Partial live transcript
  *   - advisor-insight: New advisor insight (from OpenAI)
+ *   - insight-generated: New live insight (analyst, or an advisor insight in the feed)
  *   - advisor-speaking: Agent is speaking in meeting
+ *   - advisor-interrupted: Agent was cut off while speaking (by a user, or someone talking over it)
+ *   - agent-response-delta: Next piece of an answer being written
+ *   - agent-response: Complete answer with its sources (or an error)
  *   - action-detected: New action detected
  *   - decision-detected: New decision detected
  *   - agent-status-change: Agent status update
  *   - bot-status-change: Recall.ai bot status update
  *   - attendee-joined: Attendee joined meeting
  *   - attendee-left: Attendee left meeting
+ *   - attendee-updated: Attendee presence or speaking state changed
+ *   - job-updated: Background job of the meeting queued, progressed or finished
+ *   - agenda-updated: Agenda item status changed (by a user or automatically)
+ *   - agenda-timer: Elapsed and remaining time of the agenda item in progress
+ *   - agenda-overrun: Agenda item about to run over (warning) or over its planned duration (overrun)
+ *   - agenda-transition-suggested: The transcript has moved on to the next agenda item
+ *   - action-overdue: An action item passed its due date (to the assignee and the meeting room)
  */
 
 import { Server as SocketIOServer, Socket } from 'socket.io';
+import { AgendaItemStatus, OrgMemberRole } from '@prisma/client';
 import prisma from '../lib/prisma';
+import { createTenantClient } from '../lib/tenant';
+import { AuthContext, getAccessibleOrganizationIds, getOrgRole, hasOrgRole, resolveSession } from '../services/auth';
 
 // Import AI services - check if AI is mocked or real
 const AI_MOCK_ENABLED = process.env.AI_MOCK_ENABLED !== 'false';
@@ -40,7 +61,41 @@ import { startMockDetection, stopMockDetection } from '../services/ai/detection'
 
 // Real AI services (Recall.ai + OpenAI)
 import { onWebhookEvent } from '../services/recall/webhooks';
-import { onInsight, enableAgent, disableAgent, askAdvisor } from '../services/openai/advisor-agent';
+import { onSpeechInterrupted } from '../services/recall/audio-output';
+import { onInsight, enableAgent, disableAgent, streamAdvisorAnswer } from '../services/openai/advisor-agent';
+import { onDetection, startDetection, stopDetection } from '../services/openai/detection-agent';
+import { onLiveInsight, startAnalyst, stopAnalyst } from '../services/openai/analyst-agent';
+import { startAgendaAgent, stopAgendaAgent } from '../services/openai/agenda-agent';
+
+// Agenda timekeeping (timers run on the meeting's owner)
+import {
+  onAgendaEvent,
+  requestTimekeeperSync,
+  setAgendaItemStatus,
+  stopTimekeeper,
+  syncTimekeeper,
+} from '../services/agenda/timekeeper';
+
+// Audit trail of governance actions
+import { recordAuditEvent, userActor } from '../services/audit';
+
+// Background jobs (run by this process or by dedicated workers)
+import { formatJob, watchJobs } from '../services/jobs';
+
+// Action item history and overdue escalation (run by the actions.overdue job)
+import { onOverdueAction, recordActionUpdate } from '../services/actions';
+
+// Notification emails (action assigned)
+import { notifyActionAssigned } from '../services/notifications';
+
+// Live meeting state is owned by one replica at a time
+import {
+  onLeaseLost,
+  onMeetingClaimed,
+  registerMeetingAction,
+  releaseMeetingLease,
+  runOnMeetingOwner,
+} from '../services/cluster';
 
 // Track active meeting simulations (mock mode)
 const activeMeetingSims: Map<string, {
@@ -53,6 +108,8 @@ const activeMeetingSims: Map<string, {
 const realAISubscriptions: Map<string, {
   transcriptUnsub: () => void;
   insightUnsub: () => void;
+  liveInsightUnsub: () => void;
+  detectionUnsub: () => void;
 }> = new Map();
 
 // Store io reference globally for webhook handlers
@@ -64,20 +121,59 @@ export function setupWebSocket(io: SocketIOServer): void {
   // Setup webhook event handlers for real-time updates
   setupRecallWebhookHandlers(io);
 
+  // Publish job progress to the meeting room, whichever process ran the job
+  // (every replica watches jobs, so each only notifies its own clients)
+  watchJobs((job) => {
+    if (job.meetingId) {
+      io.local.to(`meeting:${job.meetingId}`).emit('job-updated', formatJob(job));
+    }
+  });
+
+  setupAgendaEvents(io);
+
+  setupActionEvents(io);
+
+  setupLiveMeetingOwnership(io);
+
+  // Authenticate every connection with the REST API bearer token
+  io.use(async (socket, next) => {
+    try {
+      const token = socket.handshake.auth?.token;
+      const auth = typeof token === 'string' ? await resolveSession(token) : null;
+      if (!auth) {
+        return next(new Error('Authentication required'));
+      }
+      socket.data.auth = auth;
+      next();
+    } catch (error) {
+      console.error('Error authenticating socket:', error);
+      next(new Error('Authentication failed'));
+    }
+  });
+
   io.on('connection', (socket: Socket) => {
     console.log(`Client connected: ${socket.id}`);
 
+    // Queries from this socket only see the caller's organizations
+    const db = createTenantClient(getAccessibleOrganizationIds(socket.data.auth));
+
+    // Notifications addressed to the user (e.g. their overdue actions)
+    socket.join(`user:${socket.data.auth.user.id}`);
+
+    // Answers still streaming to this socket, by the client's request id
+    const pendingAnswers = new Map<string, AbortController>();
+
     // Join meeting room
     socket.on('join-meeting', async (meetingId: string) => {
       try {
-        const meeting = await prisma.meeting.findUnique({
+        const meeting = await db.meeting.findUnique({
           where: { id: meetingId },
           include: {
             bot: true,
           },
         });
 
-        if (!meeting) {
+        if (!meeting || !hasOrgRole(socket.data.auth, meeting.organizationId, 'VIEWER')) {
           socket.emit('error', { message: 'Meeting not found' });
           return;
         }
@@ -130,7 +226,9 @@ export function setupWebSocket(io: SocketIOServer): void {
     // Start recording
     socket.on('start-recording', async (meetingId: string) => {
       try {
-        await prisma.meeting.update({
+        if (!(await authorizeMeeting(socket, meetingId, 'EDITOR'))) return;
+
+        await db.meeting.update({
           where: { id: meetingId },
           data: { isRecording: true },
         });
@@ -143,14 +241,9 @@ export function setupWebSocket(io: SocketIOServer): void {
             startMeetingSimulation(meetingId, io);
           }
         } else {
-          // In real mode, the bot should be joined separately via API
-          // Enable advisor agent for the meeting
-          try {
-            await enableAgent(meetingId);
-            setupRealAISubscriptions(meetingId, io);
-          } catch (err) {
-            console.warn('Failed to enable advisor agent:', err);
-          }
+          // In real mode, the bot should be joined separately via API.
+          // Live processing runs on the replica that owns the meeting.
+          await runOnMeetingOwner(meetingId, 'live.start', {}, { claim: true });
         }
       } catch (error) {
         console.error('Error starting recording:', error);
@@ -161,7 +254,9 @@ export function setupWebSocket(io: SocketIOServer): void {
     // Stop recording
     socket.on('stop-recording', async (meetingId: string) => {
       try {
-        await prisma.meeting.update({
+        if (!(await authorizeMeeting(socket, meetingId, 'EDITOR'))) return;
+
+        await db.meeting.update({
           where: { id: meetingId },
           data: { isRecording: false },
         });
@@ -171,9 +266,7 @@ export function setupWebSocket(io: SocketIOServer): void {
         if (AI_MOCK_ENABLED) {
           stopMeetingSimulation(meetingId);
         } else {
-          // Disable advisor agent
-          disableAgent(meetingId);
-          cleanupRealAISubscriptions(meetingId);
+          await runOnMeetingOwner(meetingId, 'live.stop');
         }
       } catch (error) {
         console.error('Error stopping recording:', error);
@@ -181,26 +274,50 @@ export function setupWebSocket(io: SocketIOServer): void {
       }
     });
 
-    // Ask agent (real-time question to advisor)
-    socket.on('ask-agent', async (data: { meetingId: string; question: string }) => {
+    // Ask agent (real-time question to advisor). The answer streams back as
+    // agent-response-delta events, then one agent-response with the sources.
+    socket.on('ask-agent', async (data: { meetingId: string; question: string; requestId?: string }) => {
+      const { meetingId, question, requestId } = data;
+      const controller = new AbortController();
+      if (requestId) {
+        pendingAnswers.get(requestId)?.abort();
+        pendingAnswers.set(requestId, controller);
+      }
+
       try {
-        const { meetingId, question } = data;
+        if (!(await authorizeMeeting(socket, meetingId, 'VIEWER'))) return;
         
         if (AI_MOCK_ENABLED) {
           // Mock response
           socket.emit('agent-response', {
+            requestId,
             answer: 'This is a mocked response. Enable real AI integration by setting AI_MOCK_ENABLED=false.',
           });
         } else {
-          const answer = await askAdvisor(meetingId, question);
-          socket.emit('agent-response', { answer });
+          const stream = streamAdvisorAnswer(meetingId, question, { signal: controller.signal });
+          let result = await stream.next();
+          while (!result.done) {
+            socket.emit('agent-response-delta', { requestId, delta: result.value });
+            result = await stream.next();
+          }
+          const { answer, sources, cancelled } = result.value;
+          socket.emit('agent-response', { requestId, answer, sources, cancelled });
         }
       } catch (error: any) {
         console.error('Error asking agent:', error);
-        socket.emit('agent-response', { error: error.message });
+        socket.emit('agent-response', { requestId, error: error.message });
+      } finally {
+        if (requestId && pendingAnswers.get(requestId) === controller) {
+          pendingAnswers.delete(requestId);
+        }
       }
     });
 
+    // Stop an answer that is still streaming
+    socket.on('cancel-agent', (data: { requestId: string }) => {
+      pendingAnswers.get(data?.requestId)?.abort();
+    });
+
     // Confirm detected action
     socket.on('confirm-action', async (data: { 
       meetingId: string; 
@@ -211,18 +328,19 @@ export function setupWebSocket(io: SocketIOServer): void {
     }) => {
       try {
         const { meetingId, actionId, assigneeId, dueDate, priority = 'MEDIUM' } = data;
+        if (!(await authorizeMeeting(socket, meetingId, 'EDITOR'))) return;
 
-        const detected = await prisma.detectedAction.update({
-          where: { id: actionId },
+        const detected = await db.detectedAction.update({
+          where: { id: actionId, meetingId },
           data: { status: 'CONFIRMED' },
         });
 
-        const action = await prisma.actionItem.create({
+        const action = await db.actionItem.create({
           data: {
             meetingId,
             description: detected.description,
-            assigneeId,
-            dueDate: dueDate ? new Date(dueDate) : undefined,
+            assigneeId: assigneeId ?? detected.assigneeId,
+            dueDate: dueDate ? new Date(dueDate) : detected.dueDate,
             priority: priority as any,
           },
           include: {
@@ -230,6 +348,26 @@ export function setupWebSocket(io: SocketIOServer): void {
           },
         });
 
+        await recordActionUpdate({
+          actionItemId: action.id,
+          type: 'CREATED',
+          note: 'Confirmed from a detected action',
+          userId: socket.data.auth.user.id,
+        });
+
+        await recordAuditEvent({
+          meetingId,
+          action: 'detected_action.confirmed',
+          entityType: 'DetectedAction',
+          entityId: detected.id,
+          after: { ...detected, actionItemId: action.id },
+          actor: userActor(socket.data.auth, { ipAddress: socket.handshake.address }),
+        });
+
+        if (action.assigneeId) {
+          notifyActionAssigned(action.id).catch((error) => console.error('Failed to notify assignee:', error));
+        }
+
         io.to(`meeting:${meetingId}`).emit('action-confirmed', {
           detected: { ...detected, status: 'confirmed' },
           actionItem: {
@@ -249,16 +387,23 @@ export function setupWebSocket(io: SocketIOServer): void {
     socket.on('dismiss-insight', async (data: { meetingId: string; insightId: string }) => {
       try {
         const { meetingId, insightId } = data;
+        if (!(await authorizeMeeting(socket, meetingId, 'EDITOR'))) return;
 
-        // Try dismissing from AgentInsight first (real AI), then LiveInsight (mock)
+        // The feed shows LiveInsight rows; older clients may still send an AgentInsight id
         try {
-          await prisma.agentInsight.update({
-            where: { id: insightId },
+          const insight = await db.liveInsight.update({
+            where: { id: insightId, meetingId },
             data: { dismissed: true },
           });
+          if (insight.agentInsightId) {
+            await db.agentInsight.update({
+              where: { id: insight.agentInsightId },
+              data: { dismissed: true },
+            });
+          }
         } catch {
-          await prisma.liveInsight.update({
-            where: { id: insightId },
+          await db.agentInsight.update({
+            where: { id: insightId, meetingId },
             data: { dismissed: true },
           });
         }
@@ -279,8 +424,9 @@ export function setupWebSocket(io: SocketIOServer): void {
     }) => {
       try {
         const { meetingId, attendeeId, isPresent, isSpeaking } = data;
+        if (!(await authorizeMeeting(socket, meetingId, 'EDITOR'))) return;
 
-        const updated = await prisma.meetingAttendee.update({
+        const updated = await db.meetingAttendee.update({
           where: {
             meetingId_attendeeId: { meetingId, attendeeId },
           },
@@ -305,6 +451,22 @@ export function setupWebSocket(io: SocketIOServer): void {
       }
     });
 
+    // Cut the bot off while it is speaking
+    socket.on('stop-speaking', async (data: { meetingId: string }) => {
+      try {
+        const { meetingId } = data;
+        if (!(await authorizeMeeting(socket, meetingId, 'EDITOR'))) return;
+
+        await runOnMeetingOwner(meetingId, 'bot.stop-speaking', {
+          reason: 'manual',
+          by: socket.data.auth.user.name,
+        });
+      } catch (error) {
+        console.error('Error stopping bot speech:', error);
+        socket.emit('error', { message: 'Failed to stop speaking' });
+      }
+    });
+
     // Progress agenda item
     socket.on('progress-agenda', async (data: {
       meetingId: string;
@@ -313,16 +475,17 @@ export function setupWebSocket(io: SocketIOServer): void {
     }) => {
       try {
         const { meetingId, currentItemId, status } = data;
+        if (!(await authorizeMeeting(socket, meetingId, 'EDITOR'))) return;
 
-        await prisma.agendaItem.update({
-          where: { id: currentItemId },
-          data: { status: status.toUpperCase().replace('-', '_') as any },
-        });
+        const itemStatus = status.toUpperCase().replace('-', '_') as AgendaItemStatus;
+        if (!Object.values(AgendaItemStatus).includes(itemStatus)) {
+          socket.emit('error', { message: 'Invalid agenda status' });
+          return;
+        }
 
-        io.to(`meeting:${meetingId}`).emit('agenda-updated', {
-          itemId: currentItemId,
-          status: status.toLowerCase(),
-        });
+        // Clients are notified through the agenda events (agenda-updated)
+        await setAgendaItemStatus(meetingId, currentItemId, itemStatus);
+        await requestTimekeeperSync(meetingId);
       } catch (error) {
         console.error('Error progressing agenda:', error);
         socket.emit('error', { message: 'Failed to progress agenda' });
@@ -332,10 +495,36 @@ export function setupWebSocket(io: SocketIOServer): void {
     // Disconnect
     socket.on('disconnect', () => {
       console.log(`Client disconnected: ${socket.id}`);
+      pendingAnswers.forEach((controller) => controller.abort());
     });
   });
 }
 
+/**
+ * Check the socket's role in the meeting's organization.
+ * Emits an error to the socket and returns false when not allowed.
+ */
+async function authorizeMeeting(socket: Socket, meetingId: string, minRole: OrgMemberRole): Promise<boolean> {
+  const auth = socket.data.auth as AuthContext;
+  const meeting = await prisma.meeting.findUnique({
+    where: { id: meetingId },
+    select: { organizationId: true },
+  });
+
+  // Non-members get the same answer as for a missing meeting
+  if (!meeting || !getOrgRole(auth, meeting.organizationId)) {
+    socket.emit('error', { message: 'Meeting not found' });
+    return false;
+  }
+
+  if (!hasOrgRole(auth, meeting.organizationId, minRole)) {
+    socket.emit('error', { message: 'Insufficient permissions' });
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Setup Recall.ai webhook event handlers to emit WebSocket events
  */
@@ -352,6 +541,16 @@ function setupRecallWebhookHandlers(io: SocketIOServer): void {
     });
   });
 
+  // The bot was cut off (by a user, or an attendee talking over it)
+  onSpeechInterrupted((event) => {
+    io.to(`meeting:${event.meetingId}`).emit('advisor-interrupted', {
+      reason: event.reason,
+      by: event.by,
+      insightId: event.insightId,
+      dropped: event.dropped,
+    });
+  });
+
   // Handle partial (live) transcripts
   onWebhookEvent('transcript.partial', async (data) => {
     io.to(`meeting:${data.meetingId}`).emit('transcript-live', {
@@ -361,6 +560,16 @@ function setupRecallWebhookHandlers(io: SocketIOServer): void {
     });
   });
 
+  // Attendee joined, left, started or stopped speaking (Recall.ai participant events)
+  onWebhookEvent('attendee.presence', async (data) => {
+    io.to(`meeting:${data.meetingId}`).emit('attendee-updated', {
+      id: data.attendeeId,
+      name: data.name,
+      isPresent: data.isPresent,
+      isSpeaking: data.isSpeaking,
+    });
+  });
+
   // Handle bot status changes
   onWebhookEvent('bot.status', async (data) => {
     // Find the meeting for this bot
@@ -385,6 +594,146 @@ function setupRecallWebhookHandlers(io: SocketIOServer): void {
   });
 }
 
+/**
+ * Publish agenda changes, timer ticks, overrun warnings and transition
+ * suggestions to the meeting room
+ */
+function setupAgendaEvents(io: SocketIOServer): void {
+  onAgendaEvent((event) => {
+    const room = io.to(`meeting:${event.meetingId}`);
+
+    switch (event.type) {
+      case 'updated':
+        for (const item of event.items) {
+          room.emit('agenda-updated', {
+            itemId: item.id,
+            status: item.status.toLowerCase().replace('_', '-'),
+            startedAt: item.startedAt,
+            endedAt: item.endedAt,
+            autoAdvanced: event.autoAdvanced,
+          });
+        }
+        break;
+      case 'tick':
+        room.emit('agenda-timer', event.timer);
+        break;
+      case 'warning':
+      case 'overrun':
+        room.emit('agenda-overrun', { ...event.timer, level: event.type });
+        break;
+      case 'suggestion':
+        room.emit('agenda-transition-suggested', event.suggestion);
+        break;
+    }
+  });
+}
+
+/**
+ * Notify the assignee (in their user room) and the meeting room of actions
+ * that became overdue. Escalations are published to every replica, so each
+ * only notifies its own clients.
+ */
+function setupActionEvents(io: SocketIOServer): void {
+  onOverdueAction((event) => {
+    const payload = {
+      id: event.id,
+      description: event.description,
+      dueDate: event.dueDate,
+      priority: event.priority,
+      meeting: event.meeting,
+      assignee: event.assignee && { id: event.assignee.id, name: event.assignee.name },
+    };
+
+    // Sockets in both rooms get the event once
+    const rooms = [`meeting:${event.meeting.id}`, ...(event.userId ? [`user:${event.userId}`] : [])];
+    io.local.to(rooms).emit('action-overdue', payload);
+  }).catch((error) => console.error('Failed to subscribe to overdue actions:', error));
+}
+
+/**
+ * Register live processing as meeting actions, and take it over when this
+ * replica becomes the owner of a meeting that is still recording
+ */
+function setupLiveMeetingOwnership(io: SocketIOServer): void {
+  registerMeetingAction('live.start', (meetingId) => startLiveProcessing(meetingId, io));
+
+  registerMeetingAction('live.stop', async (meetingId) => {
+    stopLiveProcessing(meetingId);
+    await releaseMeetingLease(meetingId);
+  });
+
+  onMeetingClaimed(async (meetingId) => {
+    // Keep time on the agenda item in progress, if any
+    await syncTimekeeper(meetingId);
+
+    if (AI_MOCK_ENABLED) return;
+
+    const meeting = await prisma.meeting.findUnique({
+      where: { id: meetingId },
+      select: { phase: true, isRecording: true },
+    });
+    if (meeting?.phase === 'LIVE' && meeting.isRecording) {
+      await startLiveProcessing(meetingId, io);
+    }
+  });
+
+  // Another replica took the meeting over; its state here is stale
+  onLeaseLost((meetingId) => {
+    stopLiveProcessing(meetingId);
+    stopTimekeeper(meetingId);
+  });
+}
+
+/**
+ * Start the advisor, detection, analyst and agenda agents for a meeting
+ */
+async function startLiveProcessing(meetingId: string, io: SocketIOServer): Promise<void> {
+  if (realAISubscriptions.has(meetingId)) {
+    return;
+  }
+
+  // Enable advisor agent for the meeting
+  try {
+    await enableAgent(meetingId);
+    setupRealAISubscriptions(meetingId, io);
+  } catch (err) {
+    console.warn('Failed to enable advisor agent:', err);
+  }
+
+  // Detect actions and decisions from the live transcript
+  try {
+    await startDetection(meetingId);
+  } catch (err) {
+    console.warn('Failed to start action detection:', err);
+  }
+
+  // Live insights on the agenda item in progress
+  try {
+    await startAnalyst(meetingId);
+  } catch (err) {
+    console.warn('Failed to start live analyst:', err);
+  }
+
+  // Agenda transitions from the live transcript
+  try {
+    await startAgendaAgent(meetingId);
+  } catch (err) {
+    console.warn('Failed to start agenda agent:', err);
+  }
+}
+
+/**
+ * Stop the agents of a meeting
+ */
+function stopLiveProcessing(meetingId: string): void {
+  disableAgent(meetingId);
+  stopAnalyst(meetingId);
+  stopAgendaAgent(meetingId);
+  stopDetection(meetingId)
+    .catch((error) => console.error('Failed to stop action detection:', error))
+    .finally(() => cleanupRealAISubscriptions(meetingId));
+}
+
 /**
  * Setup real AI subscriptions for a meeting
  */
@@ -400,6 +749,10 @@ function setupRealAISubscriptions(meetingId: string, io: SocketIOServer): void {
       type: insight.type,
       priority: insight.priority,
       content: insight.content,
+      rationale: insight.rationale,
+      confidence: insight.confidence,
+      agendaItemId: insight.agendaItemId,
+      transcriptEntryIds: insight.transcriptEntryIds,
       wasSpoken: insight.wasSpoken,
       timestamp: insight.timestamp,
     });
@@ -411,9 +764,35 @@ function setupRealAISubscriptions(meetingId: string, io: SocketIOServer): void {
     }
   });
 
+  // Subscribe to the live insights feed (analyst and bridged advisor insights)
+  const liveInsightUnsub = onLiveInsight(meetingId, (insight) => {
+    io.to(`meeting:${meetingId}`).emit('insight-generated', {
+      ...insight,
+      type: insight.type.toLowerCase(),
+      priority: insight.priority.toLowerCase(),
+    });
+  });
+
+  // Subscribe to detected actions and decisions
+  const detectionUnsub = onDetection(meetingId, (detection) => {
+    if (detection.type === 'action') {
+      io.to(`meeting:${meetingId}`).emit('action-detected', {
+        ...detection.action,
+        status: 'detected',
+      });
+    } else {
+      io.to(`meeting:${meetingId}`).emit('decision-detected', {
+        ...detection.decision,
+        status: 'detected',
+      });
+    }
+  });
+
   realAISubscriptions.set(meetingId, {
     transcriptUnsub: () => {}, // Transcript handled by webhook
     insightUnsub,
+    liveInsightUnsub,
+    detectionUnsub,
   });
 }
 
@@ -425,6 +804,8 @@ function cleanupRealAISubscriptions(meetingId: string): void {
   if (subs) {
     subs.transcriptUnsub();
     subs.insightUnsub();
+    subs.liveInsightUnsub();
+    subs.detectionUnsub();
     realAISubscriptions.delete(meetingId);
   }
 }
@@ -0,0 +1,43 @@
+/**
+ * Background Job Worker Process
+ *
+ * Runs queued jobs outside the API server. Start any number of these
+ * (`npm run worker`) and set JOB_WORKER_ENABLED=false on the API processes.
+ */
+
+import logger from './lib/logger';
+import prisma from './lib/prisma';
+import { startWorker, stopWorker } from './services/jobs';
+import { registerJobHandlers } from './services/jobs/handlers';
+import { startCalendarScheduler, stopCalendarScheduler } from './services/calendar/scheduler';
+import { startActionScheduler, stopActionScheduler } from './services/actions/scheduler';
+import { startSessionScheduler, stopSessionScheduler } from './services/auth/scheduler';
+import { startCluster, stopCluster } from './services/cluster';
+import { registerMeetingActions } from './services/cluster/actions';
+
+registerJobHandlers();
+startWorker();
+
+// Queue calendar syncs, auto-join bots, overdue action checks and session purges (deduplicated across processes)
+startCalendarScheduler();
+startActionScheduler();
+startSessionScheduler();
+
+// Jobs hand meeting work (e.g. advisor answers) to the replica that owns the meeting
+registerMeetingActions();
+startCluster().catch((error) => logger.error({ err: error }, 'Failed to start cluster coordination'));
+
+// Finish the running jobs before exiting (jobs cut short are re-queued after their lock expires)
+async function shutdown(signal: string) {
+  logger.info({ signal }, 'Stopping job worker');
+  stopCalendarScheduler();
+  stopActionScheduler();
+  stopSessionScheduler();
+  await stopWorker();
+  await stopCluster();
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
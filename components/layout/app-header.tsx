@@ -2,21 +2,33 @@
 
 import { Suspense } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import {
   Bell,
   HelpCircle,
+  LogOut,
   Menu,
   Settings,
   User,
 } from "lucide-react";
 import { OrgSwitcher } from "./org-switcher";
+import { logout } from "@/lib/api/auth";
+import { useCurrentUser } from "@/lib/hooks/use-meetings";
 
 interface AppHeaderProps {
   onMenuClick?: () => void;
 }
 
 export function AppHeader({ onMenuClick }: AppHeaderProps) {
+  const router = useRouter();
+  const { user } = useCurrentUser();
+
+  const handleLogout = async () => {
+    await logout().catch(() => undefined);
+    router.push("/login");
+  };
+
   return (
     <header className="sticky top-0 z-50 border-b border-gray-200/80 bg-white/80 backdrop-blur-xl supports-[backdrop-filter]:bg-white/60">
       <div className="flex h-16 items-center justify-between px-4 sm:px-6">
@@ -75,14 +87,23 @@ export function AppHeader({ onMenuClick }: AppHeaderProps) {
           {/* User menu */}
           <div className="ml-3 flex items-center gap-3 border-l border-gray-200/80 pl-4">
             <div className="hidden text-right sm:block">
-              <p className="text-sm font-medium text-gray-900">Board Observer</p>
-              <p className="text-xs text-gray-500">Administrator</p>
+              <p className="text-sm font-medium text-gray-900">{user?.name ?? "Board Observer"}</p>
+              <p className="text-xs text-gray-500">{user?.role === "admin" ? "Administrator" : user?.email}</p>
             </div>
             <Button variant="ghost" size="icon-sm" className="rounded-full hover:bg-transparent">
               <div className="flex h-9 w-9 items-center justify-center rounded-full bg-gradient-to-br from-gray-100 to-gray-200 ring-2 ring-white shadow-sm transition-transform hover:scale-105">
                 <User className="h-4 w-4 text-gray-600" />
               </div>
             </Button>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={handleLogout}
+              className="hover:bg-gray-100/80"
+              title="Sign out"
+            >
+              <LogOut className="h-4 w-4 text-gray-500" />
+            </Button>
           </div>
         </div>
       </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { Check, X, Target, Star, User } from "lucide-react";
+import { Check, X, Target, Star, User, Calendar } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import type { DetectedAction, DetectedDecision } from "@/lib/types";
@@ -19,6 +19,10 @@ function formatTime(date: Date | string): string {
   return d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
 }
 
+function formatDueDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
 export function ActionDetector({ 
   actions, 
   decisions,
@@ -132,11 +136,21 @@ function ActionItem({ action, onConfirm, onReject }: ActionItemProps) {
             </span>
           </div>
           <p className="mt-1.5 text-sm text-gray-700">{action.description}</p>
-          {action.assignee && (
-            <p className="mt-1 flex items-center gap-1 text-xs text-gray-500">
-              <User className="h-3 w-3" />
-              {action.assignee}
-            </p>
+          {(action.assignee || action.dueDate) && (
+            <div className="mt-1 flex items-center gap-3 text-xs text-gray-500">
+              {action.assignee && (
+                <span className="flex items-center gap-1">
+                  <User className="h-3 w-3" />
+                  {action.assignee}
+                </span>
+              )}
+              {action.dueDate && (
+                <span className="flex items-center gap-1">
+                  <Calendar className="h-3 w-3" />
+                  Due {formatDueDate(action.dueDate)}
+                </span>
+              )}
+            </div>
           )}
           
           {isPending && (onConfirm || onReject) && (
@@ -196,6 +210,11 @@ function DecisionItem({ decision, onConfirm, onReject }: DecisionItemProps) {
             </span>
           </div>
           <p className="mt-1.5 text-sm text-gray-700">{decision.description}</p>
+          {decision.votedFor != null && (
+            <p className="mt-1 text-xs text-gray-500">
+              {decision.votedFor} for · {decision.votedAgainst ?? 0} against · {decision.abstained ?? 0} abstained
+            </p>
+          )}
           
           {isPending && (onConfirm || onReject) && (
             <div className="mt-3 flex items-center gap-2">
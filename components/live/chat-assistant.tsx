@@ -1,12 +1,22 @@
 "use client";
 
 import { useRef, useEffect, useState, useCallback } from "react";
-import { Send, Sparkles, User, Volume2 } from "lucide-react";
+import { Send, Sparkles, Square, User, Volume2, VolumeX } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import type { ChatMessage, ChatSource } from "@/lib/types";
 import { askAdvisorQuestion } from "@/lib/api/meetings";
-import { askAgent, onAgentResponse, onAdvisorInsight, onAdvisorSpeaking, getSocket } from "@/lib/api/socket";
+import {
+  askAgent,
+  cancelAgent,
+  onAgentResponse,
+  onAgentResponseDelta,
+  onAdvisorInsight,
+  onAdvisorSpeaking,
+  onAdvisorInterrupted,
+  stopSpeaking,
+  getSocket,
+} from "@/lib/api/socket";
 
 interface ChatAssistantProps {
   meetingId?: string;
@@ -29,16 +39,21 @@ function formatTime(date: Date): string {
  * 3. Input: { meetingId, message, context: { transcript, documents } }
  * 4. Output: { response, sources, confidence, relatedQuestions }
  * 
- * Features to implement:
- * - RAG (Retrieval Augmented Generation) from meeting documents
- * - Context from live transcript
- * - Historical meeting data retrieval
+ * Answers are grounded in retrieved passages from the meeting's documents,
+ * transcript and summary and the organization's past meetings; the passages
+ * the advisor cited arrive as `sources` and are shown as badges.
+ *
+ * Answers stream in as they are written (agent-response-delta) and can be
+ * stopped part way; the final agent-response fills in the sources. While the
+ * bot speaks in the meeting it can be cut off (stop-speaking).
  */
 export function ChatAssistant({ meetingId, initialMessages = [] }: ChatAssistantProps) {
   const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const pendingRequestRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   
@@ -74,17 +89,50 @@ export function ChatAssistant({ meetingId, initialMessages = [] }: ChatAssistant
       setTimeout(() => setIsSpeaking(false), 3000);
     });
 
+    const unsubInterrupted = onAdvisorInterrupted(() => {
+      setIsSpeaking(false);
+    });
+
+    const unsubDelta = onAgentResponseDelta((data) => {
+      if (!data.requestId || data.requestId !== pendingRequestRef.current) return;
+      const messageId = `msg-${data.requestId}`;
+      setStreamingId(messageId);
+      setMessages((prev) => {
+        if (!prev.some((m) => m.id === messageId)) {
+          return [...prev, {
+            id: messageId,
+            role: "assistant",
+            content: data.delta,
+            timestamp: new Date(),
+            streaming: true,
+          }];
+        }
+        return prev.map((m) => (m.id === messageId ? { ...m, content: m.content + data.delta } : m));
+      });
+    });
+
     const unsubResponse = onAgentResponse((data) => {
+      // Ignore answers to questions asked before the current one
+      if (data.requestId && data.requestId !== pendingRequestRef.current) return;
+      pendingRequestRef.current = null;
+      setStreamingId(null);
       setIsLoading(false);
+      // A stopped or failed answer keeps what was written so far
+      setMessages((prev) => prev.map((m) => (m.streaming ? { ...m, streaming: false } : m)));
+
+      const messageId = data.requestId ? `msg-${data.requestId}` : `msg-${Date.now()}`;
       if (data.answer) {
         const assistantMessage: ChatMessage = {
-          id: `msg-${Date.now()}`,
+          id: messageId,
           role: "assistant",
           content: data.answer,
           timestamp: new Date(),
+          sources: data.sources,
           confidence: 0.9,
         };
-        setMessages((prev) => [...prev, assistantMessage]);
+        setMessages((prev) => prev.some((m) => m.id === messageId)
+          ? prev.map((m) => (m.id === messageId ? { ...assistantMessage, timestamp: m.timestamp } : m))
+          : [...prev, assistantMessage]);
       } else if (data.error) {
         const errorMessage: ChatMessage = {
           id: `msg-${Date.now()}`,
@@ -99,6 +147,8 @@ export function ChatAssistant({ meetingId, initialMessages = [] }: ChatAssistant
     return () => {
       unsubInsight();
       unsubSpeaking();
+      unsubInterrupted();
+      unsubDelta();
       unsubResponse();
     };
   }, [useRealAI, meetingId]);
@@ -123,17 +173,20 @@ export function ChatAssistant({ meetingId, initialMessages = [] }: ChatAssistant
       // Use real OpenAI integration via WebSocket
       try {
         // First try via WebSocket for real-time response
-        askAgent({ meetingId, question: currentInput });
-        // Response will come via onAgentResponse listener
+        const requestId = `ask-${Date.now()}`;
+        pendingRequestRef.current = requestId;
+        askAgent({ meetingId, question: currentInput, requestId });
+        // Response streams in via onAgentResponseDelta, then onAgentResponse
       } catch (error) {
         // Fallback to REST API
         try {
-          const { answer } = await askAdvisorQuestion(meetingId, currentInput);
+          const { answer, sources } = await askAdvisorQuestion(meetingId, currentInput);
           const assistantMessage: ChatMessage = {
             id: `msg-${Date.now() + 1}`,
             role: "assistant",
             content: answer,
             timestamp: new Date(),
+            sources,
             confidence: 0.9,
           };
           setMessages((prev) => [...prev, assistantMessage]);
@@ -207,6 +260,12 @@ export function ChatAssistant({ meetingId, initialMessages = [] }: ChatAssistant
     }
   };
 
+  const handleCancel = () => {
+    if (pendingRequestRef.current) {
+      cancelAgent(pendingRequestRef.current);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -248,6 +307,19 @@ export function ChatAssistant({ meetingId, initialMessages = [] }: ChatAssistant
               )}
             </p>
           </div>
+          {useRealAI && meetingId && (
+            <Button
+              type="button"
+              variant={isSpeaking ? "destructive" : "ghost"}
+              size="icon-sm"
+              onClick={() => stopSpeaking(meetingId)}
+              className="ml-auto"
+              title="Stop the advisor speaking in the meeting"
+              aria-label="Stop speaking"
+            >
+              <VolumeX className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
 
@@ -284,7 +356,7 @@ export function ChatAssistant({ meetingId, initialMessages = [] }: ChatAssistant
           />
         ))}
 
-        {isLoading && (
+        {isLoading && !streamingId && (
           <div className="flex gap-3">
             <div className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-lg bg-gray-900">
               <Sparkles className="h-4 w-4 text-white" />
@@ -322,13 +394,25 @@ export function ChatAssistant({ meetingId, initialMessages = [] }: ChatAssistant
               disabled={isLoading}
             />
           </div>
-          <Button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="h-[46px] px-4 rounded-xl"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {isLoading && useRealAI ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCancel}
+              className="h-[46px] px-4 rounded-xl"
+              aria-label="Stop answering"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!input.trim() || isLoading}
+              className="h-[46px] px-4 rounded-xl"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </form>
       </div>
     </div>
@@ -360,7 +444,12 @@ function MessageBubble({ message, onRelatedQuestion }: MessageBubbleProps) {
               : "border border-gray-200/80 bg-white shadow-sm"
           )}
         >
-          <p className="text-sm leading-relaxed">{message.content}</p>
+          <p className="text-sm leading-relaxed">
+            {message.content}
+            {message.streaming && (
+              <span className="ml-0.5 inline-block h-3.5 w-1.5 translate-y-0.5 bg-gray-400 animate-pulse" />
+            )}
+          </p>
         </div>
 
         {!isUser && message.sources && message.sources.length > 0 && (
@@ -409,17 +498,24 @@ function SourceBadge({ source }: { source: ChatSource }) {
   const typeColors: Record<string, string> = {
     transcript: "border-green-200 bg-green-50 text-green-700",
     document: "border-blue-200 bg-blue-50 text-blue-700",
+    summary: "border-indigo-200 bg-indigo-50 text-indigo-700",
     agenda: "border-amber-200 bg-amber-50 text-amber-700",
     external: "border-gray-200 bg-gray-50 text-gray-700",
     insight: "border-purple-200 bg-purple-50 text-purple-700",
   };
 
   return (
-    <span className={cn(
-      "inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-medium",
-      typeColors[source.type] || "border-gray-200 bg-white text-gray-600"
-    )}>
+    <span
+      title={source.excerpt}
+      className={cn(
+        "inline-flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-medium",
+        typeColors[source.type] || "border-gray-200 bg-white text-gray-600"
+      )}
+    >
       {source.name}
+      {source.reference && (
+        <span className="font-normal opacity-70">· {source.reference}</span>
+      )}
     </span>
   );
 }
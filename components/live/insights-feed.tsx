@@ -179,6 +179,7 @@ function InsightCard({ insight, onDismiss }: InsightCardProps) {
           </p>
           <span className="mt-2 inline-block text-xs text-gray-400">
             {formatRelativeTime(insight.timestamp)}
+            {insight.agentId && <span className="capitalize"> · {insight.agentId}</span>}
           </span>
         </div>
       </div>
@@ -26,6 +26,7 @@ import { joinMeetingBot, leaveMeetingBot, getBotStatus, type BotStatus } from '@
 interface JoinBotDialogProps {
   meetingId: string;
   isVirtual?: boolean;
+  defaultMeetingUrl?: string;  // Prefilled from the meeting (e.g. imported from the calendar)
   onBotStatusChange?: (status: BotStatus | null) => void;
 }
 
@@ -47,10 +48,11 @@ function detectPlatform(url: string): string | null {
 export function JoinBotDialog({
   meetingId,
   isVirtual = false,
+  defaultMeetingUrl,
   onBotStatusChange,
 }: JoinBotDialogProps) {
   const [open, setOpen] = useState(false);
-  const [meetingUrl, setMeetingUrl] = useState('');
+  const [meetingUrl, setMeetingUrl] = useState(defaultMeetingUrl ?? '');
   const [botName, setBotName] = useState('Board Observer AI');
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -60,6 +62,13 @@ export function JoinBotDialog({
 
   const detectedPlatform = meetingUrl ? detectPlatform(meetingUrl) : null;
 
+  // The meeting may load after the dialog mounted; don't overwrite what the user typed
+  useEffect(() => {
+    if (defaultMeetingUrl) {
+      setMeetingUrl((current) => current || defaultMeetingUrl);
+    }
+  }, [defaultMeetingUrl]);
+
   // Auto-poll status when bot is joining or created
   useEffect(() => {
     // Only check status string to avoid infinite loop with object reference
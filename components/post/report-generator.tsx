@@ -2,6 +2,8 @@
 
 import { useState } from "react";
 import {
+  AlertCircle,
+  CheckCircle2,
   Download,
   FileText,
   FileType2,
@@ -11,42 +13,98 @@ import {
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { downloadMeetingReport, emailMeetingReport, type ReportFormat } from "@/lib/api/meetings";
 
 interface ReportGeneratorProps {
   meetingId: string;
   meetingTitle: string;
 }
 
-type ExportFormat = "pdf" | "docx" | "html";
-
-const formatConfig: Record<ExportFormat, { icon: typeof FileText; label: string }> = {
+const formatConfig: Record<ReportFormat, { icon: typeof FileText; label: string }> = {
   pdf: { icon: FileText, label: "PDF Document" },
   docx: { icon: FileType2, label: "Word Document" },
   html: { icon: FileText, label: "HTML Report" },
 };
 
 export function ReportGenerator({ meetingId, meetingTitle }: ReportGeneratorProps) {
-  const [selectedFormat, setSelectedFormat] = useState<ExportFormat>("pdf");
+  const [selectedFormat, setSelectedFormat] = useState<ReportFormat>("pdf");
   const [isGenerating, setIsGenerating] = useState(false);
-  const [generated, setGenerated] = useState(false);
+  const [report, setReport] = useState<{ blob: Blob; filename: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isEmailing, setIsEmailing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleSelectFormat = (format: ReportFormat) => {
+    setSelectedFormat(format);
+    setReport(null);
+    setNotice(null);
+  };
 
-  const handleGenerate = () => {
+  const handleGenerate = async () => {
     setIsGenerating(true);
-    // Simulate generation
-    setTimeout(() => {
+    setError(null);
+
+    try {
+      const { blob, filename } = await downloadMeetingReport(meetingId, selectedFormat);
+      setReport({ blob, filename: filename || `${meetingTitle}.${selectedFormat}` });
+    } catch (err: any) {
+      setError(err.message || "Failed to generate report");
+    } finally {
       setIsGenerating(false);
-      setGenerated(true);
-    }, 2000);
+    }
   };
 
   const handleDownload = () => {
-    // Simulate download
-    alert(`Downloading ${meetingTitle} report as ${selectedFormat.toUpperCase()}`);
+    if (!report) return;
+
+    const url = URL.createObjectURL(report.blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = report.filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
   };
 
-  const handleShare = () => {
-    // Simulate share
-    alert("Share options opened");
+  const handleShare = async () => {
+    if (!report) return;
+
+    const file = new File([report.blob], report.filename, { type: report.blob.type });
+    if (!navigator.canShare?.({ files: [file] })) {
+      // No system share sheet (most desktop browsers): send it by email instead
+      await handleEmail();
+      return;
+    }
+
+    try {
+      await navigator.share({ files: [file], title: meetingTitle });
+    } catch (err: any) {
+      if (err.name !== "AbortError") {
+        setError(err.message || "Failed to share report");
+      }
+    }
+  };
+
+  const handleEmail = async () => {
+    setIsEmailing(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const result = await emailMeetingReport(meetingId, selectedFormat);
+      setNotice(
+        result.recipients.length === 0
+          ? "None of the attendees has an email address"
+          : result.queued === 0
+            ? "Every attendee has turned off minutes emails"
+            : `Report emailed to ${result.queued} attendee${result.queued === 1 ? "" : "s"}`
+      );
+    } catch (err: any) {
+      setError(err.message || "Failed to email report");
+    } finally {
+      setIsEmailing(false);
+    }
   };
 
   return (
@@ -68,13 +126,13 @@ export function ReportGenerator({ meetingId, meetingTitle }: ReportGeneratorProp
             Export Format
           </label>
           <div className="grid grid-cols-3 gap-2">
-            {(Object.keys(formatConfig) as ExportFormat[]).map((format) => {
+            {(Object.keys(formatConfig) as ReportFormat[]).map((format) => {
               const config = formatConfig[format];
               const Icon = config.icon;
               return (
                 <button
                   key={format}
-                  onClick={() => setSelectedFormat(format)}
+                  onClick={() => handleSelectFormat(format)}
                   className={cn(
                     "flex flex-col items-center gap-1.5 rounded-lg border p-3 transition-all",
                     selectedFormat === format
@@ -102,8 +160,22 @@ export function ReportGenerator({ meetingId, meetingTitle }: ReportGeneratorProp
           </div>
         </div>
 
+        {error && (
+          <div className="rounded-lg border border-red-200 bg-red-50 p-3 flex items-start gap-2">
+            <AlertCircle className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {notice && (
+          <div className="rounded-lg border border-green-200 bg-green-50 p-3 flex items-start gap-2">
+            <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+            <p className="text-sm text-green-700">{notice}</p>
+          </div>
+        )}
+
         {/* Generate button */}
-        {!generated ? (
+        {!report ? (
           <Button
             onClick={handleGenerate}
             disabled={isGenerating}
@@ -127,8 +199,8 @@ export function ReportGenerator({ meetingId, meetingTitle }: ReportGeneratorProp
               <FileText className="h-5 w-5 text-green-600" />
               <div className="flex-1 min-w-0">
                 <p className="text-sm font-medium text-green-800">Report Ready</p>
-                <p className="text-xs text-green-600">
-                  {meetingTitle}.{selectedFormat}
+                <p className="text-xs text-green-600 truncate">
+                  {report.filename}
                 </p>
               </div>
             </div>
@@ -147,9 +219,19 @@ export function ReportGenerator({ meetingId, meetingTitle }: ReportGeneratorProp
 
         {/* Quick actions */}
         <div className="pt-2 border-t border-gray-100">
-          <Button variant="ghost" size="sm" className="w-full justify-start gap-2 text-gray-600">
-            <Mail className="h-4 w-4" />
-            Email report to attendees
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleEmail}
+            disabled={isEmailing}
+            className="w-full justify-start gap-2 text-gray-600"
+          >
+            {isEmailing ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Mail className="h-4 w-4" />
+            )}
+            {isEmailing ? "Sending..." : `Email ${selectedFormat.toUpperCase()} report to attendees`}
           </Button>
         </div>
       </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   AlertTriangle,
   CheckCircle2,
@@ -18,6 +18,8 @@ import type { PrepQuestion } from "@/lib/types";
 
 interface PrepQuestionsProps {
   questions: PrepQuestion[];
+  onGenerate?: () => void;
+  isGenerating?: boolean;
 }
 
 const categoryConfig = {
@@ -34,10 +36,15 @@ const priorityConfig = {
   low: "border-l-gray-300 bg-gray-50/30",
 };
 
-export function PrepQuestions({ questions }: PrepQuestionsProps) {
+export function PrepQuestions({ questions, onGenerate, isGenerating }: PrepQuestionsProps) {
   const [newQuestion, setNewQuestion] = useState("");
   const [localQuestions, setLocalQuestions] = useState(questions);
 
+  // Pick up regenerated questions
+  useEffect(() => {
+    setLocalQuestions(questions);
+  }, [questions]);
+
   const handleAddQuestion = () => {
     if (!newQuestion.trim()) return;
     
@@ -70,9 +77,23 @@ export function PrepQuestions({ questions }: PrepQuestionsProps) {
       <div className="border-b border-gray-100 p-4">
         <div className="flex items-center justify-between">
           <h2 className="text-base font-semibold text-gray-900">Prep Questions</h2>
-          <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
-            {unanswered.length} remaining
-          </span>
+          <div className="flex items-center gap-2">
+            {onGenerate && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1.5 px-2 text-xs"
+                onClick={onGenerate}
+                disabled={isGenerating}
+              >
+                <Sparkles className="h-3 w-3" />
+                {isGenerating ? "Analyzing..." : "Analyze papers"}
+              </Button>
+            )}
+            <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+              {unanswered.length} remaining
+            </span>
+          </div>
         </div>
       </div>
 
@@ -157,6 +178,9 @@ function QuestionItem({ question, onToggle }: QuestionItemProps) {
         )}>
           {question.question}
         </p>
+        {question.rationale && !question.answered && (
+          <p className="mt-1 text-xs text-gray-500">{question.rationale}</p>
+        )}
         <div className="mt-2 flex items-center gap-2">
           <span className={cn(
             "inline-flex items-center gap-1 rounded-md px-2 py-0.5 text-xs font-medium",
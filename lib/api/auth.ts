@@ -0,0 +1,32 @@
+/**
+ * Authentication API functions
+ */
+
+import { apiGet, apiPost, setAuthToken } from './client';
+import { disconnectSocket } from './socket';
+import type { CurrentUser } from '../types';
+
+export interface LoginResponse {
+  token: string;
+  expiresAt: string;
+  user: Omit<CurrentUser, 'memberships'>;
+}
+
+export async function login(email: string, password: string): Promise<LoginResponse> {
+  const response = await apiPost<LoginResponse>('/api/auth/login', { email, password });
+  setAuthToken(response.token);
+  return response;
+}
+
+export async function logout(): Promise<void> {
+  try {
+    await apiPost('/api/auth/logout');
+  } finally {
+    setAuthToken(null);
+    disconnectSocket();
+  }
+}
+
+export async function getCurrentUser(): Promise<CurrentUser> {
+  return apiGet<CurrentUser>('/api/auth/me');
+}
@@ -7,6 +7,34 @@
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
+const AUTH_TOKEN_KEY = 'authToken';
+
+// ============================================
+// AUTH TOKEN
+// ============================================
+
+export function getAuthToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(AUTH_TOKEN_KEY);
+}
+
+export function setAuthToken(token: string | null): void {
+  if (typeof window === 'undefined') return;
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  }
+}
+
+function buildHeaders(): HeadersInit {
+  const token = getAuthToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(token && { Authorization: `Bearer ${token}` }),
+  };
+}
+
 export class ApiError extends Error {
   constructor(
     message: string,
@@ -20,6 +48,14 @@ export class ApiError extends Error {
 
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
+    // Session expired or revoked - send the user back to the login page
+    if (response.status === 401 && typeof window !== 'undefined') {
+      setAuthToken(null);
+      if (window.location.pathname !== '/login') {
+        window.location.href = '/login';
+      }
+    }
+
     const error = await response.json().catch(() => ({ error: 'Unknown error' }));
     throw new ApiError(error.error || 'Request failed', response.status, error.details);
   }
@@ -35,9 +71,7 @@ async function handleResponse<T>(response: Response): Promise<T> {
 export async function apiGet<T>(endpoint: string): Promise<T> {
   const response = await fetch(`${API_BASE_URL}${endpoint}`, {
     method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: buildHeaders(),
   });
   return handleResponse<T>(response);
 }
@@ -45,9 +79,7 @@ export async function apiGet<T>(endpoint: string): Promise<T> {
 export async function apiPost<T>(endpoint: string, data?: any): Promise<T> {
   const response = await fetch(`${API_BASE_URL}${endpoint}`, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: buildHeaders(),
     body: data ? JSON.stringify(data) : undefined,
   });
   return handleResponse<T>(response);
@@ -56,20 +88,42 @@ export async function apiPost<T>(endpoint: string, data?: any): Promise<T> {
 export async function apiPut<T>(endpoint: string, data: any): Promise<T> {
   const response = await fetch(`${API_BASE_URL}${endpoint}`, {
     method: 'PUT',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: buildHeaders(),
     body: JSON.stringify(data),
   });
   return handleResponse<T>(response);
 }
 
+// Multipart upload - the browser sets the Content-Type boundary itself
+export async function apiUpload<T>(endpoint: string, formData: FormData): Promise<T> {
+  const token = getAuthToken();
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    body: formData,
+  });
+  return handleResponse<T>(response);
+}
+
+// File download - resolves with the file and the name the server gave it
+export async function apiDownload(endpoint: string): Promise<{ blob: Blob; filename: string | null }> {
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    method: 'GET',
+    headers: buildHeaders(),
+  });
+  if (!response.ok) {
+    await handleResponse(response);
+  }
+
+  const disposition = response.headers.get('Content-Disposition');
+  const filename = disposition?.match(/filename="?([^";]+)"?/)?.[1] ?? null;
+  return { blob: await response.blob(), filename };
+}
+
 export async function apiDelete(endpoint: string): Promise<void> {
   const response = await fetch(`${API_BASE_URL}${endpoint}`, {
     method: 'DELETE',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+    headers: buildHeaders(),
   });
   await handleResponse(response);
 }
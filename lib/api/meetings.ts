@@ -2,8 +2,8 @@
  * Meeting API functions
  */
 
-import { apiGet, apiPost, apiPut, apiDelete } from './client';
-import type { Meeting, Attendee, AgendaItem, ActionItem, Decision, Organization, OrganizationStats } from '../types';
+import { apiGet, apiPost, apiPut, apiDelete, apiUpload, apiDownload } from './client';
+import type { Meeting, Attendee, AgendaItem, ActionItem, Decision, Organization, OrganizationStats, ChatSource, PrepQuestion, Job } from '../types';
 
 // ============================================
 // ORGANIZATIONS
@@ -34,6 +34,9 @@ export interface CreateMeetingData {
   isVirtual?: boolean;
   organizationId?: string;
   meetingUrl?: string;
+  autoJoinBot?: boolean;
+  spokenTimeChecks?: boolean;
+  autoAdvanceAgenda?: boolean;
 }
 
 export interface UpdateMeetingData extends Partial<CreateMeetingData> {
@@ -191,18 +194,41 @@ export async function reorderAgendaItems(
   return apiPost<AgendaItem[]>(`/api/meetings/${meetingId}/agenda/reorder`, { items });
 }
 
+export interface AgendaAnalysisResult {
+  analyzed: string[];
+  unchanged: string[];
+  skipped: string[];
+  failed: { agendaItemId: string; error: string }[];
+  agenda: AgendaItem[];
+  prepQuestions: PrepQuestion[];
+}
+
+// Analyze briefing papers per agenda item and (re)generate prep questions.
+// Items whose papers are unchanged are skipped unless `force` is set.
+export async function analyzeAgenda(
+  meetingId: string,
+  options: { agendaItemId?: string; force?: boolean } = {}
+): Promise<AgendaAnalysisResult> {
+  return apiPost<AgendaAnalysisResult>(`/api/meetings/${meetingId}/agenda/analyze`, options);
+}
+
 // ============================================
 // DOCUMENTS
 // ============================================
 
+// Linked documents (web pages, SharePoint, ...). Files go through uploadDocument.
 export interface CreateDocumentData {
   title: string;
-  type: 'pdf' | 'doc' | 'spreadsheet' | 'presentation' | 'link';
   url: string;
   agendaItemId?: string;
   summary?: string;
 }
 
+export interface UploadDocumentOptions {
+  title?: string;
+  agendaItemId?: string;
+}
+
 export async function getDocuments(meetingId: string): Promise<any[]> {
   return apiGet<any[]>(`/api/meetings/${meetingId}/documents`);
 }
@@ -211,10 +237,19 @@ export async function createDocument(
   meetingId: string,
   data: CreateDocumentData
 ): Promise<any> {
-  return apiPost(`/api/meetings/${meetingId}/documents`, {
-    ...data,
-    type: data.type.toUpperCase(),
-  });
+  return apiPost(`/api/meetings/${meetingId}/documents`, data);
+}
+
+export async function uploadDocument(
+  meetingId: string,
+  file: File,
+  options: UploadDocumentOptions = {}
+): Promise<any> {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (options.title) formData.append('title', options.title);
+  if (options.agendaItemId) formData.append('agendaItemId', options.agendaItemId);
+  return apiUpload(`/api/meetings/${meetingId}/documents/upload`, formData);
 }
 
 export async function deleteDocument(
@@ -363,8 +398,80 @@ export async function getMeetingSummary(meetingId: string): Promise<any> {
   return apiGet(`/api/meetings/${meetingId}/summary`);
 }
 
-export async function generateMeetingSummary(meetingId: string): Promise<any> {
-  return apiPost(`/api/meetings/${meetingId}/summary/generate`);
+/**
+ * Queue summary generation; resolves with the background job
+ */
+export async function generateMeetingSummary(meetingId: string): Promise<Job> {
+  return apiPost<Job>(`/api/meetings/${meetingId}/summary/generate`);
+}
+
+export type ReportFormat = 'pdf' | 'docx' | 'html';
+
+/**
+ * Formal minutes of the meeting as a file, laid out with the organization's template
+ */
+export async function downloadMeetingReport(
+  meetingId: string,
+  format: ReportFormat
+): Promise<{ blob: Blob; filename: string | null }> {
+  return apiDownload(`/api/meetings/${meetingId}/report?format=${format}`);
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+export interface NotificationResult {
+  queued: number;
+  skipped: number;
+  recipients: Array<{ email: string; name: string | null; status: 'queued' | 'skipped' }>;
+}
+
+/**
+ * Email the formal minutes to the meeting's attendees as an attachment
+ */
+export async function emailMeetingReport(
+  meetingId: string,
+  format: ReportFormat,
+  message?: string
+): Promise<NotificationResult> {
+  return apiPost<NotificationResult>(`/api/meetings/${meetingId}/report/email`, { format, message });
+}
+
+/**
+ * Email the attendees (or some of them) an invitation with a link to the board pack
+ */
+export async function sendMeetingInvitations(
+  meetingId: string,
+  options: { attendeeIds?: string[]; message?: string } = {}
+): Promise<NotificationResult> {
+  return apiPost<NotificationResult>(`/api/meetings/${meetingId}/invitations`, options);
+}
+
+// ============================================
+// BACKGROUND JOBS
+// ============================================
+
+export async function getJob(jobId: string): Promise<Job> {
+  return apiGet<Job>(`/api/jobs/${jobId}`);
+}
+
+export async function getMeetingJobs(meetingId: string): Promise<Job[]> {
+  return apiGet<Job[]>(`/api/meetings/${meetingId}/jobs`);
+}
+
+/**
+ * Poll a job until it completes; rejects if it fails or is cancelled
+ */
+export async function waitForJob(jobId: string, intervalMs = 2000): Promise<Job> {
+  for (;;) {
+    const job = await getJob(jobId);
+    if (job.status === 'completed') return job;
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(job.error || `Job ${job.status}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
 }
 
 // ============================================
@@ -407,6 +514,12 @@ export async function makeBotSpeak(
   return apiPost(`/api/meetings/${meetingId}/bot/speak`, data);
 }
 
+export async function stopBotSpeaking(
+  meetingId: string
+): Promise<{ stopped: boolean; dropped: number; insightId?: string }> {
+  return apiPost(`/api/meetings/${meetingId}/bot/stop-speaking`);
+}
+
 export async function sendBotMessage(
   meetingId: string,
   message: string
@@ -431,7 +544,13 @@ export interface AdvisorInsight {
   type: 'recommendation' | 'question' | 'risk_alert' | 'context';
   priority: 'high' | 'medium' | 'low';
   content: string;
+  rationale: string | null;
+  confidence: number;
+  agendaItemId: string | null;
+  transcriptEntryIds: string[];
   wasSpoken: boolean;
+  interruptedAt?: string | null;
+  interruptedBy?: string | null;
   timestamp: string;
 }
 
@@ -471,7 +590,7 @@ export async function getAdvisorInsights(
 export async function askAdvisorQuestion(
   meetingId: string,
   question: string
-): Promise<{ answer: string }> {
+): Promise<{ answer: string; sources: ChatSource[] }> {
   return apiPost(`/api/meetings/${meetingId}/agent/ask`, { question });
 }
 
@@ -3,9 +3,12 @@
  * 
  * Handles WebSocket connection to the backend for live meeting updates.
  * Uses Socket.io for reliable real-time communication.
+ * Authenticates with the same bearer token as the REST client.
  */
 
 import { io, Socket } from 'socket.io-client';
+import { getAuthToken } from './client';
+import type { ChatSource } from '../types';
 
 const SOCKET_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 
@@ -16,6 +19,8 @@ export function getSocket(): Socket {
     socket = io(SOCKET_URL, {
       autoConnect: false,
       transports: ['websocket', 'polling'],
+      // Read the token on every (re)connect so a fresh login is picked up
+      auth: (cb) => cb({ token: getAuthToken() }),
     });
 
     socket.on('connect', () => {
@@ -108,15 +113,27 @@ export function progressAgenda(data: {
   s.emit('progress-agenda', data);
 }
 
+// Cut the bot off while it is speaking in the meeting
+export function stopSpeaking(meetingId: string): void {
+  const s = getSocket();
+  s.emit('stop-speaking', { meetingId });
+}
+
 // Ask the AI advisor a question
 export function askAgent(data: {
   meetingId: string;
   question: string;
+  requestId?: string; // Stream the answer as agent-response-delta events
 }): void {
   const s = getSocket();
   s.emit('ask-agent', data);
 }
 
+export function cancelAgent(requestId: string): void {
+  const s = getSocket();
+  s.emit('cancel-agent', { requestId });
+}
+
 // Event listeners
 export type SocketEventCallback<T> = (data: T) => void;
 
@@ -180,6 +197,24 @@ export function onAgendaUpdated(callback: SocketEventCallback<any>): () => void
   return () => s.off('agenda-updated', callback);
 }
 
+export function onAgendaTimer(callback: SocketEventCallback<any>): () => void {
+  const s = getSocket();
+  s.on('agenda-timer', callback);
+  return () => s.off('agenda-timer', callback);
+}
+
+export function onAgendaOverrun(callback: SocketEventCallback<any>): () => void {
+  const s = getSocket();
+  s.on('agenda-overrun', callback);
+  return () => s.off('agenda-overrun', callback);
+}
+
+export function onAgendaTransitionSuggested(callback: SocketEventCallback<any>): () => void {
+  const s = getSocket();
+  s.on('agenda-transition-suggested', callback);
+  return () => s.off('agenda-transition-suggested', callback);
+}
+
 export function onActionConfirmed(callback: SocketEventCallback<any>): () => void {
   const s = getSocket();
   s.on('action-confirmed', callback);
@@ -213,6 +248,10 @@ export function onAdvisorInsight(callback: SocketEventCallback<{
   type: 'recommendation' | 'question' | 'risk_alert' | 'context';
   priority: 'high' | 'medium' | 'low';
   content: string;
+  rationale: string | null;
+  confidence: number;
+  agendaItemId: string | null;
+  transcriptEntryIds: string[];
   wasSpoken: boolean;
   timestamp: string;
 }>): () => void {
@@ -230,6 +269,17 @@ export function onAdvisorSpeaking(callback: SocketEventCallback<{
   return () => s.off('advisor-speaking', callback);
 }
 
+export function onAdvisorInterrupted(callback: SocketEventCallback<{
+  reason: 'barge_in' | 'manual';
+  by: string;
+  insightId?: string;
+  dropped: number;
+}>): () => void {
+  const s = getSocket();
+  s.on('advisor-interrupted', callback);
+  return () => s.off('advisor-interrupted', callback);
+}
+
 // Bot status change (Recall.ai)
 export function onBotStatusChange(callback: SocketEventCallback<{
   status: string;
@@ -251,8 +301,20 @@ export function onRecordingDone(callback: SocketEventCallback<{
 }
 
 // Agent response (answer to direct question)
+export function onAgentResponseDelta(callback: SocketEventCallback<{
+  requestId?: string;
+  delta: string;
+}>): () => void {
+  const s = getSocket();
+  s.on('agent-response-delta', callback);
+  return () => s.off('agent-response-delta', callback);
+}
+
 export function onAgentResponse(callback: SocketEventCallback<{
+  requestId?: string;
   answer?: string;
+  sources?: ChatSource[];
+  cancelled?: boolean;
   error?: string;
 }>): () => void {
   const s = getSocket();
@@ -22,6 +22,8 @@ import {
   getDetectedActions,
   getDetectedDecisions,
 } from '../api/meetings';
+import { getCurrentUser } from '../api/auth';
+import type { CurrentUser } from '../types';
 import type { Meeting, Attendee, AgendaItem, ActionItem, Decision, Organization, OrganizationStats } from '../types';
 
 // SWR options for different data types
@@ -35,6 +37,24 @@ const liveOptions = {
   refreshInterval: 5000, // Refresh live data every 5 seconds as fallback
 };
 
+// ============================================
+// AUTH
+// ============================================
+
+export function useCurrentUser() {
+  const { data, error, isLoading } = useSWR<CurrentUser>(
+    'current-user',
+    () => getCurrentUser(),
+    defaultOptions
+  );
+
+  return {
+    user: data,
+    isLoading,
+    isError: error,
+  };
+}
+
 // ============================================
 // ORGANIZATIONS
 // ============================================
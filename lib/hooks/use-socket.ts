@@ -181,13 +181,11 @@ export function useLiveMeeting(meetingId: string | null, enabled: boolean = true
       }));
     });
 
-    // New: Advisor insights from OpenAI
+    // New: Advisor insights from OpenAI (the feed copy arrives as insight-generated)
     const unsubAdvisorInsight = onAdvisorInsight((insight) => {
       setState(prev => ({
         ...prev,
         advisorInsights: [insight, ...prev.advisorInsights],
-        // Also add to general insights for display
-        insights: [{ ...insight, type: insight.type }, ...prev.insights],
       }));
     });
 
@@ -18,6 +18,20 @@ export interface Organization {
   };
 }
 
+export type OrgMemberRole = "owner" | "admin" | "editor" | "viewer";
+
+export interface CurrentUser {
+  id: string;
+  email: string;
+  name: string;
+  avatar?: string | null;
+  role: "admin" | "member";
+  memberships: {
+    organization: Pick<Organization, "id" | "name" | "slug" | "logo">;
+    role: OrgMemberRole;
+  }[];
+}
+
 export interface OrganizationStats {
   totalMeetings: number;
   liveMeetings: number;
@@ -45,6 +59,9 @@ export interface Meeting {
   location?: string;
   isVirtual: boolean;
   meetingUrl?: string;  // External meeting link (Zoom, Meet, Teams)
+  autoJoinBot?: boolean;  // Bot joins automatically shortly before the start
+  spokenTimeChecks?: boolean;  // Advisor speaks a time-check when an agenda item overruns
+  autoAdvanceAgenda?: boolean;  // Agenda follows the transcript instead of suggesting transitions
   organization?: Organization;
   organizationId?: string;
   attendees: Attendee[];
@@ -87,6 +104,8 @@ export interface AgendaItem {
   documents?: BriefingDocument[];
   aiAnalysis?: AIAnalysis;
   status: "pending" | "in-progress" | "completed" | "skipped";
+  startedAt?: Date;
+  endedAt?: Date;
 }
 
 export interface BriefingDocument {
@@ -96,6 +115,10 @@ export interface BriefingDocument {
   url: string;
   uploadedAt: Date;
   summary?: string;
+  fileSize?: number;
+  originalName?: string;
+  pageCount?: number;
+  extractionStatus?: "pending" | "completed" | "failed" | null;
 }
 
 export interface AIAnalysis {
@@ -116,6 +139,8 @@ export interface PrepQuestion {
   priority: "high" | "medium" | "low";
   agendaItemId?: string;
   aiGenerated: boolean;
+  rationale?: string | null;
+  rank?: number | null;
   answered?: boolean;
 }
 
@@ -164,6 +189,7 @@ export interface LiveInsight {
   content: string;
   timestamp: Date;
   priority: "high" | "medium" | "low";
+  confidence?: number;
   agendaItemId?: string;
   dismissed?: boolean;
 }
@@ -172,6 +198,7 @@ export interface DetectedAction {
   id: string;
   description: string;
   assignee?: string;
+  assigneeId?: string;
   dueDate?: Date;
   status: "detected" | "confirmed" | "rejected";
   confidence: number;
@@ -279,13 +306,17 @@ export interface ChatMessage {
   sources?: ChatSource[];
   confidence?: number;
   relatedQuestions?: string[];
+  streaming?: boolean; // Still being written
 }
 
 export interface ChatSource {
   id: string;
-  type: "transcript" | "document" | "agenda" | "external";
+  type: "transcript" | "document" | "summary" | "agenda" | "external";
   name: string;
   reference?: string;
+  meetingId?: string;
+  documentId?: string;
+  excerpt?: string;
 }
 
 // ============================================
@@ -299,3 +330,25 @@ export interface DataFlag {
   message: string;
   field?: string;
 }
+
+// ============================================
+// Background Job Types
+// ============================================
+
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export interface Job {
+  id: string;
+  type: string;
+  status: JobStatus;
+  progress: number;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  result?: any;
+  meetingId: string | null;
+  runAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}